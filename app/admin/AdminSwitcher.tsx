@@ -4,9 +4,11 @@
 import * as React from "react";
 import AdminPanel from "./AdminPanel";
 import LandlordUserPanel from "./LandlordUserPanel";
+import StripeEventsPanel from "./StripeEventsPanel";
+import JobsPanel from "./JobsPanel";
 
 export default function AdminSwitcher() {
-  const [active, setActive] = React.useState<"firms" | "landlords">("firms");
+  const [active, setActive] = React.useState<"firms" | "landlords" | "stripe" | "jobs">("firms");
 
   return (
     <div className="mx-auto max-w-5xl px-4 py-8 md:py-10">
@@ -14,7 +16,7 @@ export default function AdminSwitcher() {
       <div className="mb-6">
         <h1 className="text-xl md:text-2xl font-semibold text-zinc-100">Admin</h1>
         <p className="mt-1 text-sm text-zinc-400">
-          Manage firms, assign users, and create landlord accounts.
+          Manage firms, assign users, create landlord accounts, inspect Stripe webhook events, and manage background jobs.
         </p>
 
         {/* Simple toggle */}
@@ -43,11 +45,43 @@ export default function AdminSwitcher() {
           >
             Create landlord user
           </button>
+          <button
+            type="button"
+            onClick={() => setActive("stripe")}
+            className={
+              "rounded-md px-3 py-1.5 font-medium transition " +
+              (active === "stripe"
+                ? "bg-zinc-800 text-zinc-50"
+                : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800/60")
+            }
+          >
+            Stripe events
+          </button>
+          <button
+            type="button"
+            onClick={() => setActive("jobs")}
+            className={
+              "rounded-md px-3 py-1.5 font-medium transition " +
+              (active === "jobs"
+                ? "bg-zinc-800 text-zinc-50"
+                : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800/60")
+            }
+          >
+            Jobs
+          </button>
         </div>
       </div>
 
       {/* Actual contents */}
-      {active === "firms" ? <AdminPanel /> : <LandlordUserPanel />}
+      {active === "firms" ? (
+        <AdminPanel />
+      ) : active === "landlords" ? (
+        <LandlordUserPanel />
+      ) : active === "stripe" ? (
+        <StripeEventsPanel />
+      ) : (
+        <JobsPanel />
+      )}
     </div>
   );
 }
@@ -0,0 +1,233 @@
+// app/admin/JobsPanel.tsx
+"use client";
+
+import * as React from "react";
+
+/* ---------------- Types ---------------- */
+type RunStatus = "running" | "succeeded" | "failed" | "abandoned";
+
+type JobRow = {
+  _id: string;
+  description: string;
+  schedule: string;
+  enabled: boolean;
+  nextRunAt: string;
+  attempts: number;
+  running: boolean;
+  lockedBy?: string | null;
+  lastRunAt?: string | null;
+  lastFinishedAt?: string | null;
+  lastStatus?: "succeeded" | "failed" | null;
+  lastError?: string | null;
+  runRequestedAt?: string | null;
+};
+
+type RunRow = {
+  _id: string;
+  trigger: "schedule" | "retry" | "manual";
+  attempt: number;
+  workerId: string;
+  status: RunStatus;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+  startedAt: string;
+  durationMs?: number | null;
+};
+
+const STATUS_TONE: Record<RunStatus, string> = {
+  running: "bg-sky-900/60 text-sky-200",
+  succeeded: "bg-emerald-900/60 text-emerald-200",
+  failed: "bg-red-900/60 text-red-200",
+  abandoned: "bg-amber-900/60 text-amber-200",
+};
+
+const ERRORS: Record<string, string> = {
+  job_running: "It's running right now",
+  job_disabled: "Enable the job first",
+};
+
+const fmt = (s?: string | null) => (s ? new Date(s).toLocaleString() : "—");
+
+/* ---------------- Small UI helpers ---------------- */
+function StatusBadge({ status }: { status: RunStatus }) {
+  return <span className={`inline-block rounded-md px-2 py-0.5 text-xs ${STATUS_TONE[status]}`}>{status}</span>;
+}
+
+function JobRuns({ name }: { name: string }) {
+  const [runs, setRuns] = React.useState<RunRow[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetch(`/api/admin/jobs/${encodeURIComponent(name)}`, { cache: "no-store" })
+      .then((res) => res.json().catch(() => null))
+      .then((data) => (data?.ok ? setRuns(data.runs) : setError(data?.error || "Failed to load runs")));
+  }, [name]);
+
+  if (!runs) return <div className="px-4 py-3 text-xs text-zinc-400">{error || "Loading…"}</div>;
+  if (!runs.length) return <div className="border-t border-zinc-800/60 px-4 py-3 text-xs text-zinc-400">No runs yet.</div>;
+
+  return (
+    <div className="border-t border-zinc-800/60 px-4 py-3">
+      <table className="w-full text-left text-xs text-zinc-300">
+        <thead className="text-zinc-500">
+          <tr>
+            <th className="py-1 pr-3">Started</th>
+            <th className="py-1 pr-3">Trigger</th>
+            <th className="py-1 pr-3">Status</th>
+            <th className="py-1 pr-3">Result</th>
+            <th className="py-1">ms</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((r) => (
+            <tr key={r._id} className="border-t border-zinc-800/60 align-top">
+              <td className="py-1 pr-3 whitespace-nowrap">{fmt(r.startedAt)}</td>
+              <td className="py-1 pr-3">
+                {r.trigger}
+                {r.attempt > 1 ? ` #${r.attempt}` : ""}
+              </td>
+              <td className="py-1 pr-3">
+                <StatusBadge status={r.status} />
+              </td>
+              <td className={`py-1 pr-3 font-mono text-[11px] ${r.error ? "text-red-300" : "text-zinc-400"}`}>
+                {r.error || (r.result ? JSON.stringify(r.result) : "—")}
+              </td>
+              <td className="py-1">{r.durationMs ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/* ---------------- Component ---------------- */
+export default function JobsPanel() {
+  const [jobs, setJobs] = React.useState<JobRow[]>([]);
+  const [openName, setOpenName] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    const res = await fetch("/api/admin/jobs", { cache: "no-store" });
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !data?.ok) {
+      setError(data?.error || "Failed to load jobs");
+      return;
+    }
+    setError(null);
+    setJobs(data.jobs);
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function act(name: string, path: string, init: RequestInit, done: string) {
+    setBusy(name);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${encodeURIComponent(name)}${path}`, init);
+      const data = await res.json().catch(() => null);
+      setMessage(data?.ok ? done : `${name}: ${ERRORS[data?.error] || data?.error || res.status}`);
+      await refresh();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const runNow = (name: string) =>
+    act(name, "/run", { method: "POST" }, `${name} queued; the worker picks it up on its next poll.`);
+
+  const toggle = (j: JobRow) =>
+    act(
+      j._id,
+      "",
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !j.enabled }),
+      },
+      `${j._id} ${j.enabled ? "paused" : "resumed"}.`
+    );
+
+  return (
+    <section className="rounded-xl border border-zinc-800/60 bg-zinc-900/40 p-5 md:p-6">
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-base md:text-lg font-semibold text-zinc-100">Background jobs</h2>
+          <p className="mt-1 text-sm text-zinc-400">
+            Scheduled by the jobs worker (<span className="font-mono text-xs">npm run jobs</span>). Schedules are UTC
+            cron; failed runs retry with backoff before waiting for the next slot.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          className="shrink-0 rounded-lg bg-zinc-800/80 px-3 py-1.5 text-xs text-white ring-1 ring-zinc-600/70 hover:bg-zinc-700"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-300">{error}</div>}
+      {message && <div className="mb-3 text-xs text-zinc-300">{message}</div>}
+
+      <ul className="divide-y divide-zinc-800/60 rounded-lg border border-zinc-800/60">
+        {jobs.length === 0 && <li className="px-4 py-3 text-sm text-zinc-400">No jobs registered.</li>}
+        {jobs.map((j) => (
+          <li key={j._id}>
+            <div className="flex items-start justify-between gap-3 px-4 py-2.5">
+              <button
+                type="button"
+                onClick={() => setOpenName(openName === j._id ? null : j._id)}
+                className="min-w-0 text-left"
+              >
+                <div className="text-sm text-zinc-100">
+                  <span className="font-mono">{j._id}</span>{" "}
+                  <span className="font-mono text-xs text-zinc-500">{j.schedule}</span>
+                  {!j.enabled && <span className="ml-2 text-xs text-amber-300">paused</span>}
+                </div>
+                <div className="text-xs text-zinc-400">{j.description}</div>
+                {j.lastStatus === "failed" && j.lastError && (
+                  <div className="truncate text-xs text-red-300">{j.lastError}</div>
+                )}
+              </button>
+              <div className="shrink-0 text-right text-xs text-zinc-400">
+                {j.running ? (
+                  <StatusBadge status="running" />
+                ) : j.lastStatus ? (
+                  <StatusBadge status={j.lastStatus} />
+                ) : null}
+                <div className="mt-1">Last: {fmt(j.lastFinishedAt)}</div>
+                <div>
+                  {j.attempts > 0 ? `Retry ${j.attempts + 1}` : "Next"}: {j.enabled ? fmt(j.nextRunAt) : "—"}
+                </div>
+                <div className="mt-1.5 flex justify-end gap-1.5">
+                  <button
+                    type="button"
+                    onClick={() => runNow(j._id)}
+                    disabled={busy === j._id || !j.enabled || j.running}
+                    className="rounded-lg bg-pink-500 px-2.5 py-1 text-xs font-semibold text-white ring-1 ring-pink-300/70 hover:bg-pink-400 disabled:opacity-70"
+                  >
+                    Run now
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => toggle(j)}
+                    disabled={busy === j._id}
+                    className="rounded-lg bg-zinc-800/80 px-2.5 py-1 text-xs text-white ring-1 ring-zinc-600/70 hover:bg-zinc-700 disabled:opacity-70"
+                  >
+                    {j.enabled ? "Pause" : "Resume"}
+                  </button>
+                </div>
+              </div>
+            </div>
+            {openName === j._id && <JobRuns name={j._id} />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
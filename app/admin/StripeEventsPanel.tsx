@@ -0,0 +1,256 @@
+// app/admin/StripeEventsPanel.tsx
+"use client";
+
+import * as React from "react";
+
+/* ---------------- Types ---------------- */
+type Status = "received" | "processing" | "processed" | "failed" | "dead";
+
+type EventRow = {
+  _id: string;
+  type: string;
+  livemode: boolean;
+  status: Status;
+  attempts: number;
+  deliveries: number;
+  lastError?: string | null;
+  nextAttemptAt?: string | null;
+  receivedAt: string;
+  processedAt?: string | null;
+};
+
+type Attempt = {
+  at: string;
+  trigger: "webhook" | "retry" | "replay";
+  by: string;
+  ok: boolean;
+  note?: string | null;
+  error?: string | null;
+  durationMs: number;
+};
+
+type Detail = EventRow & { payload: any; history: Attempt[] };
+
+const STATUS_TONE: Record<Status, string> = {
+  received: "bg-zinc-800 text-zinc-300",
+  processing: "bg-sky-900/60 text-sky-200",
+  processed: "bg-emerald-900/60 text-emerald-200",
+  failed: "bg-amber-900/60 text-amber-200",
+  dead: "bg-red-900/60 text-red-200",
+};
+
+const fmt = (s?: string | null) => (s ? new Date(s).toLocaleString() : "—");
+
+/* ---------------- Small UI helpers ---------------- */
+function StatusBadge({ status }: { status: Status }) {
+  return <span className={`inline-block rounded-md px-2 py-0.5 text-xs ${STATUS_TONE[status]}`}>{status}</span>;
+}
+
+function EventDetail({ id, onReplayed }: { id: string; onReplayed: () => void }) {
+  const [detail, setDetail] = React.useState<Detail | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    const res = await fetch(`/api/admin/stripe-events/${encodeURIComponent(id)}`, { cache: "no-store" });
+    const data = await res.json().catch(() => null);
+    if (res.ok && data?.ok) setDetail(data.event);
+    else setMessage(data?.error || "Failed to load event");
+  }, [id]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  async function replay() {
+    if (!confirm(`Replay ${id} through the webhook handler?`)) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/admin/stripe-events/${encodeURIComponent(id)}/replay`, { method: "POST" });
+      const data = await res.json().catch(() => null);
+      setMessage(
+        data?.status === "processed"
+          ? `Replayed: ${data.note || data.reversal || "processed"}`
+          : `Replay ${data?.status || "failed"}: ${data?.error || res.status}`
+      );
+      await load();
+      onReplayed();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!detail) {
+    return <div className="px-4 py-3 text-xs text-zinc-400">{message || "Loading…"}</div>;
+  }
+
+  return (
+    <div className="space-y-3 border-t border-zinc-800/60 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+        <span>Deliveries: {detail.deliveries}</span>
+        <span>Attempts: {detail.attempts}</span>
+        {detail.nextAttemptAt && <span>Next retry: {fmt(detail.nextAttemptAt)}</span>}
+        {detail.processedAt && <span>Processed: {fmt(detail.processedAt)}</span>}
+        <button
+          type="button"
+          onClick={replay}
+          disabled={busy || detail.status === "processing"}
+          className="ml-auto rounded-lg bg-pink-500 px-3 py-1.5 text-xs font-semibold text-white ring-1 ring-pink-300/70 hover:bg-pink-400 disabled:opacity-70"
+        >
+          {busy ? "Replaying…" : "Replay"}
+        </button>
+      </div>
+      {message && <div className="text-xs text-zinc-300">{message}</div>}
+
+      {detail.history?.length > 0 && (
+        <table className="w-full text-left text-xs text-zinc-300">
+          <thead className="text-zinc-500">
+            <tr>
+              <th className="py-1 pr-3">When</th>
+              <th className="py-1 pr-3">Trigger</th>
+              <th className="py-1 pr-3">Result</th>
+              <th className="py-1">ms</th>
+            </tr>
+          </thead>
+          <tbody>
+            {detail.history
+              .slice()
+              .reverse()
+              .map((a, i) => (
+                <tr key={i} className="border-t border-zinc-800/60 align-top">
+                  <td className="py-1 pr-3 whitespace-nowrap">{fmt(a.at)}</td>
+                  <td className="py-1 pr-3">
+                    {a.trigger}
+                    {a.trigger === "replay" ? ` (${a.by})` : ""}
+                  </td>
+                  <td className={`py-1 pr-3 ${a.ok ? "text-emerald-300" : "text-red-300"}`}>
+                    {a.ok ? a.note || "ok" : a.error}
+                  </td>
+                  <td className="py-1">{a.durationMs}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+
+      <pre className="max-h-96 overflow-auto rounded-lg bg-zinc-950/70 p-3 text-[11px] leading-relaxed text-zinc-300">
+        {JSON.stringify(detail.payload, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/* ---------------- Component ---------------- */
+export default function StripeEventsPanel() {
+  const [rows, setRows] = React.useState<EventRow[]>([]);
+  const [counts, setCounts] = React.useState<Record<string, number>>({});
+  const [openDead, setOpenDead] = React.useState(0);
+  const [status, setStatus] = React.useState<Status | "">("");
+  const [q, setQ] = React.useState("");
+  const [openId, setOpenId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    const params = new URLSearchParams();
+    if (status) params.set("status", status);
+    if (q.trim()) params.set("q", q.trim());
+    const res = await fetch(`/api/admin/stripe-events?${params}`, { cache: "no-store" });
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !data?.ok) {
+      setError(data?.error || "Failed to load events");
+      return;
+    }
+    setError(null);
+    setRows(data.events);
+    setCounts(data.counts);
+    setOpenDead(data.openDeadLetters);
+  }, [status, q]);
+
+  React.useEffect(() => {
+    refresh();
+    // q is applied on submit, not on every keystroke
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  const tabs: (Status | "")[] = ["", "failed", "dead", "processing", "received", "processed"];
+
+  return (
+    <section className="rounded-xl border border-zinc-800/60 bg-zinc-900/40 p-5 md:p-6">
+      <div className="mb-4">
+        <h2 className="text-base md:text-lg font-semibold text-zinc-100">Stripe events</h2>
+        <p className="mt-1 text-sm text-zinc-400">
+          Every webhook delivery, deduplicated by event id. Failed events retry with backoff and move to the
+          dead-letter queue after the last attempt{openDead ? ` (${openDead} waiting for a replay)` : ""}.
+        </p>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+        <div className="inline-flex rounded-lg bg-zinc-900/70 p-1">
+          {tabs.map((t) => (
+            <button
+              key={t || "all"}
+              type="button"
+              onClick={() => setStatus(t)}
+              className={
+                "rounded-md px-3 py-1.5 font-medium transition " +
+                (status === t ? "bg-zinc-800 text-zinc-50" : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800/60")
+              }
+            >
+              {t || "all"}
+              {t && counts[t] ? ` (${counts[t]})` : ""}
+            </button>
+          ))}
+        </div>
+        <form
+          className="ml-auto flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            refresh();
+          }}
+        >
+          <input
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder="evt_…, pi_… or ch_…"
+            className="w-56 rounded-lg border border-zinc-700/80 bg-zinc-900/70 px-3 py-1.5 text-xs text-zinc-100 placeholder-zinc-500"
+          />
+          <button type="submit" className="rounded-lg bg-zinc-800/80 px-3 py-1.5 text-white ring-1 ring-zinc-600/70 hover:bg-zinc-700">
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-300">{error}</div>}
+
+      <ul className="divide-y divide-zinc-800/60 rounded-lg border border-zinc-800/60">
+        {rows.length === 0 && <li className="px-4 py-3 text-sm text-zinc-400">No events.</li>}
+        {rows.map((r) => (
+          <li key={r._id}>
+            <button
+              type="button"
+              onClick={() => setOpenId(openId === r._id ? null : r._id)}
+              className="flex w-full items-start justify-between gap-3 px-4 py-2.5 text-left hover:bg-zinc-800/30"
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-zinc-100">
+                  {r.type} {!r.livemode && <span className="text-xs text-zinc-500">test</span>}
+                </div>
+                <div className="truncate font-mono text-[11px] text-zinc-500">{r._id}</div>
+                {r.lastError && r.status !== "processed" && (
+                  <div className="truncate text-xs text-red-300">{r.lastError}</div>
+                )}
+              </div>
+              <div className="shrink-0 text-right text-xs text-zinc-400">
+                <StatusBadge status={r.status} />
+                <div className="mt-1">{fmt(r.receivedAt)}</div>
+                {r.attempts > 1 && <div>{r.attempts} attempts</div>}
+              </div>
+            </button>
+            {openId === r._id && <EventDetail id={r._id} onReplayed={refresh} />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+// app/api/admin/applications/[id]/transitions/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import { forceTransition, listTransitions } from "@/lib/applications/transitions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STATUS_FOR: Record<string, number> = {
+  reason_required: 400,
+  invalid_state: 400,
+  application_not_found: 404,
+  no_change: 409,
+  conflict: 409,
+};
+
+/**
+ * GET /api/admin/applications/[id]/transitions?limit=
+ * App admins: the application's status transitions, newest first, with the
+ * actor, action and guard context behind each.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { id } = await ctx.params;
+  try {
+    const limit = Math.min(500, Math.max(1, Number(new URL(req.url).searchParams.get("limit")) || 100));
+    const db = await getDb();
+    const transitions = await listTransitions(db, id, limit);
+    return NextResponse.json({ ok: true, transitions });
+  } catch (err: any) {
+    console.error("[transitions] list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/applications/[id]/transitions
+ * Body: { to: AppState, reason: string }
+ * App admins: force the application into any state, outside the rules. The
+ * reason is required and lands in the transitions log and audit_log.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { id } = await ctx.params;
+  const body = await req.json().catch(() => ({}));
+  if (typeof body?.to !== "string") {
+    return NextResponse.json({ ok: false, error: "invalid_body" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const by = String(user._id ?? user.email);
+    const r = await forceTransition(db, { appId: id, to: body.to, reason: String(body.reason ?? ""), by });
+    if (!r.ok) {
+      return NextResponse.json({ ok: false, error: r.error }, { status: STATUS_FOR[r.error] ?? 400 });
+    }
+    return NextResponse.json({ ok: true, from: r.from, to: r.to });
+  } catch (err: any) {
+    console.error("[transitions] force failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
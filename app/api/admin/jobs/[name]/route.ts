@@ -0,0 +1,65 @@
+// app/api/admin/jobs/[name]/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import type { JobDoc, JobRunDoc } from "@/lib/models";
+import { setJobEnabled } from "@/lib/jobs/scheduler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/jobs/[name]?limit=
+ * App admins: one job and its most recent runs, newest first.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ name: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { name } = await ctx.params;
+  try {
+    const limit = Math.min(100, Math.max(1, Number(new URL(req.url).searchParams.get("limit")) || 20));
+    const db = await getDb();
+    const job = await db.collection<JobDoc>("jobs").findOne({ _id: name });
+    if (!job) return NextResponse.json({ ok: false, error: "not_found" }, { status: 404 });
+    const runs = await db
+      .collection<JobRunDoc>("job_runs")
+      .find({ job: name })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .toArray();
+    return NextResponse.json({ ok: true, job, runs });
+  } catch (err: any) {
+    console.error("[jobs] get failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/jobs/[name]
+ * Body: { enabled: boolean }
+ * App admins: pause or resume a job. Resuming picks up at the next scheduled
+ * slot; runs missed while paused are skipped.
+ */
+export async function PATCH(req: Request, ctx: { params: Promise<{ name: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { name } = await ctx.params;
+  const body = await req.json().catch(() => ({}));
+  if (typeof body?.enabled !== "boolean") {
+    return NextResponse.json({ ok: false, error: "invalid_body" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    if (!(await setJobEnabled(db, name, body.enabled))) {
+      return NextResponse.json({ ok: false, error: "not_found" }, { status: 404 });
+    }
+    console.log("[jobs] toggled,", { name, enabled: body.enabled, by: String(user._id ?? user.email) });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("[jobs] toggle failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
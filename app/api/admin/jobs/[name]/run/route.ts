@@ -0,0 +1,33 @@
+// app/api/admin/jobs/[name]/run/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import { requestJobRun } from "@/lib/jobs/scheduler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/jobs/[name]/run
+ * App admins: make a job due now. The worker picks it up on its next poll
+ * (and records the run as "manual"); nothing runs inside the request.
+ */
+export async function POST(_req: Request, ctx: { params: Promise<{ name: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { name } = await ctx.params;
+  try {
+    const db = await getDb();
+    const by = String(user._id ?? user.email);
+    const r = await requestJobRun(db, name, by);
+    if (!r.ok) {
+      return NextResponse.json({ ok: false, error: r.error }, { status: r.error === "not_found" ? 404 : 409 });
+    }
+    console.log("[jobs] run requested,", { name, by });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("[jobs] run request failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
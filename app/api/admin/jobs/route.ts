@@ -0,0 +1,37 @@
+// app/api/admin/jobs/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import type { JobDoc } from "@/lib/models";
+import { JOBS } from "@/lib/jobs/registry";
+import { ensureJobs } from "@/lib/jobs/scheduler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/jobs
+ * App admins: every registered background job with its schedule, lock and
+ * last result. Registers jobs the worker hasn't seen yet so they show up
+ * before it first starts.
+ */
+export async function GET() {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  try {
+    const db = await getDb();
+    await ensureJobs(db, JOBS);
+    const rows = await db
+      .collection<JobDoc>("jobs")
+      .find({ _id: { $in: JOBS.map((j) => j.name) } })
+      .sort({ _id: 1 })
+      .toArray();
+    const now = new Date();
+    const jobs = rows.map((j) => ({ ...j, running: !!j.lockedUntil && j.lockedUntil > now }));
+    return NextResponse.json({ ok: true, jobs });
+  } catch (err: any) {
+    console.error("[jobs] list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+// app/api/admin/stripe-events/[id]/replay/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import { replayStripeEvent } from "@/lib/webhooks/stripeEvents";
+import { handleStripeEvent } from "@/app/api/stripe/webhook/_handler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/stripe-events/[id]/replay
+ * App admins: run a stored event through the handler again, whatever its
+ * status. Handlers are keyed (ledger source keys, reversal checks, receipt
+ * flags), so replaying an already-processed event is safe.
+ */
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { id } = await ctx.params;
+  try {
+    const db = await getDb();
+    const result = await replayStripeEvent(db, id, (ev) => handleStripeEvent(ev), {
+      by: String(user._id ?? user.email),
+    });
+    if (result.status === "skipped") {
+      const code = result.reason === "not_found" ? 404 : 409;
+      return NextResponse.json({ ok: false, error: result.reason }, { status: code });
+    }
+    console.log("[stripe-events] replayed,", { id, by: String(user._id ?? user.email), status: result.status });
+    return NextResponse.json({ ok: result.status === "processed", ...result });
+  } catch (err: any) {
+    console.error("[stripe-events] replay failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/admin/stripe-events/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/stripe-events/[id]
+ * App admins: one stored event with its payload, attempt history and dead letter (if any)
+ */
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  const { id } = await ctx.params;
+  try {
+    const db = await getDb();
+    const event = await db.collection<any>("stripe_events").findOne({ _id: id });
+    if (!event) return NextResponse.json({ ok: false, error: "not_found" }, { status: 404 });
+    const deadLetter = await db
+      .collection<any>("stripe_events_dead")
+      .findOne({ _id: id }, { projection: { payload: 0 } });
+    return NextResponse.json({ ok: true, event, deadLetter });
+  } catch (err: any) {
+    console.error("[stripe-events] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
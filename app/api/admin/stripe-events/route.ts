@@ -0,0 +1,57 @@
+// app/api/admin/stripe-events/route.ts
+import { NextResponse } from "next/server";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STATUSES = ["received", "processing", "processed", "failed", "dead"];
+
+/**
+ * GET /api/admin/stripe-events?status=&type=&q=&limit=
+ * App admins: stored Stripe events, newest first, with counts per status and
+ * open dead letters. `q` matches an event id or a PaymentIntent/charge id.
+ */
+export async function GET(req: Request) {
+  const user = await getSessionUser();
+  if (!isAppAdmin(user)) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+  try {
+    const url = new URL(req.url);
+    const status = url.searchParams.get("status");
+    const type = url.searchParams.get("type");
+    const q = (url.searchParams.get("q") || "").trim();
+    const limit = Math.min(200, Math.max(1, Number(url.searchParams.get("limit")) || 50));
+
+    const filter: any = {};
+    if (status && STATUSES.includes(status)) filter.status = status;
+    if (type) filter.type = type;
+    if (q) {
+      filter.$or = [
+        { _id: q },
+        { "payload.data.object.id": q },
+        { "payload.data.object.payment_intent": q },
+      ];
+    }
+
+    const db = await getDb();
+    const events = db.collection<any>("stripe_events");
+    const rows = await events
+      .find(filter, { projection: { payload: 0, history: 0 } })
+      .sort({ receivedAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    const counts: Record<string, number> = Object.fromEntries(STATUSES.map((s) => [s, 0]));
+    for (const c of await events.aggregate([{ $group: { _id: "$status", n: { $sum: 1 } } }]).toArray()) {
+      counts[String(c._id)] = c.n;
+    }
+    const openDeadLetters = await db.collection<any>("stripe_events_dead").countDocuments({ resolvedAt: null });
+
+    return NextResponse.json({ ok: true, events: rows, counts, openDeadLetters });
+  } catch (err: any) {
+    console.error("[stripe-events] list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
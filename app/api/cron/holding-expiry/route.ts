@@ -0,0 +1,29 @@
+// app/api/cron/holding-expiry/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { runHoldingExpiry } from "@/lib/holding/expiry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/cron/holding-expiry
+ * Hourly hold sweep (reminders, expiring unpaid holds, clearing stale locks).
+ * Called by the scheduler with `x-cron-secret: $CRON_SECRET`; there's no user session.
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("x-cron-secret") !== secret) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  try {
+    const db = await getDb();
+    const summary = await runHoldingExpiry(db);
+    console.log("[holding] expiry run,", summary);
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    console.error("[holding] expiry run failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/cron/rent-autopay/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { runAutopay } from "@/lib/rent/autopay";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/cron/rent-autopay
+ * Daily autopay sweep (notices, due-date debits, retries). Called by the
+ * scheduler with `x-cron-secret: $CRON_SECRET`; there's no user session.
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("x-cron-secret") !== secret) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  try {
+    const db = await getDb();
+    const summary = await runAutopay(db);
+    console.log("[autopay] run,", summary);
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    console.error("[autopay] run failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/cron/stripe-events/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { retryDueStripeEvents } from "@/lib/webhooks/stripeEvents";
+import { handleStripeEvent } from "@/app/api/stripe/webhook/_handler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/cron/stripe-events
+ * Retry sweep for the Stripe event store: failed events whose backoff has
+ * elapsed, and events a crashed worker left behind. Called every few minutes
+ * with `x-cron-secret: $CRON_SECRET`.
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("x-cron-secret") !== secret) {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  try {
+    const db = await getDb();
+    const summary = await retryDueStripeEvents(db, (ev) => handleStripeEvent(ev));
+    console.log("[stripe-events] retry run,", summary);
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    console.error("[stripe-events] retry run failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
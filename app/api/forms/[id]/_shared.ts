@@ -0,0 +1,44 @@
+// app/api/forms/[id]/_shared.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+
+export function toStringId(v: any) {
+  if (!v) return "";
+  if (typeof v === "string") return v;
+  try { return v?.toHexString ? v.toHexString() : String(v); } catch { return String(v); }
+}
+
+/**
+ * Form head for editing: caller must be an active member of the form's firm.
+ * Returns { error } with a ready response on failure.
+ */
+export async function loadEditableForm(formId: string) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+  if (!formId) {
+    return { error: NextResponse.json({ ok: false, error: "bad_form_id" }, { status: 400 }) };
+  }
+
+  const db = await getDb();
+  const head = await db
+    .collection<any>("application_forms")
+    .findOne(ObjectId.isValid(formId) ? { _id: new ObjectId(formId) } : { _id: formId });
+  if (!head) {
+    return { error: NextResponse.json({ ok: false, error: "form_not_found" }, { status: 404 }) };
+  }
+
+  const uid = toStringId((user as any)._id ?? (user as any).id ?? (user as any).userId ?? user.email);
+  const userIdOr: any[] = ObjectId.isValid(uid) ? [{ userId: uid }, { userId: new ObjectId(uid) }] : [{ userId: uid }];
+  const membership = await db
+    .collection("firm_memberships")
+    .findOne({ firmId: String(head.firmId), active: true, $or: userIdOr }, { projection: { _id: 1 } });
+  if (!membership) {
+    return { error: NextResponse.json({ ok: false, error: "not_in_firm" }, { status: 403 }) };
+  }
+
+  return { db, user, uid, head };
+}
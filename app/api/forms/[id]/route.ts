@@ -3,25 +3,15 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
-import { computeNextState } from "@/domain/rules";
+import { validateMemberAnswers } from "@/lib/applications/answers";
+import { transitionApplication } from "@/lib/applications/transitions";
+import type { ConditionGroup } from "@/lib/models";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 /* Types aligned with the client (legacy + new) */
 type MemberRole = "primary" | "co_applicant" | "cosigner";
-type AppStatus =
-  | "draft"
-  | "submitted"
-  | "admin_screened"
-  | "approved_high"
-  | "terms_set"
-  | "min_due"
-  | "min_paid"
-  | "countersigned"
-  | "occupied"
-  | "rejected"
-  | "withdrawn";
 
 /* ---------- tiny utils ---------- */
 function toStringId(v: any): string {
@@ -89,10 +79,12 @@ type FormQuestion = {
   showForRoles: MemberRole[];
   options?: string[];
   validation?: { min?: number; max?: number; pattern?: string };
+  showIf?: ConditionGroup;
+  requireIf?: ConditionGroup;
 };
 type ApplicationForm = { id?: string; _id?: string; name: string; version: number; questions: FormQuestion[] };
 
-async function loadFormById(db: any, formId: string): Promise<ApplicationForm | null> {
+async function loadFormById(db: any, formId: string, version?: number | null): Promise<ApplicationForm | null> {
   if (!formId) return null;
   const col = await pickFormsCol(db);
   const { ObjectId } = await import("mongodb");
@@ -101,42 +93,28 @@ async function loadFormById(db: any, formId: string): Promise<ApplicationForm |
     : { $or: [{ _id: formId }, { id: formId }] as any };
   const doc = await col.findOne(filter);
   if (!doc) return null;
+  // Applications answer the version they were pinned to, not whatever the head is now
+  const frozen =
+    version != null && Number(version) !== Number(doc.version ?? 1)
+      ? await db.collection("application_form_versions").findOne({ formId: toStringId(doc._id), version: Number(version) })
+      : null;
   return {
     _id: toStringId(doc._id ?? doc.id),
     id: toStringId(doc.id ?? doc._id),
     name: String(doc.name ?? "Application"),
-    version: Number(doc.version ?? 1),
-    questions: Array.isArray(doc.questions) ? doc.questions : [],
+    version: Number(frozen?.version ?? doc.version ?? 1),
+    questions: Array.isArray((frozen ?? doc).questions) ? (frozen ?? doc).questions : [],
   };
 }
 
 /* ---------- completeness helpers ---------- */
-function valuePresent(v: any) {
-  return !(v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0));
-}
 function isMemberCompleteForRole(
   role: MemberRole,
   form: ApplicationForm | null,
   memberAnswers: Record<string, any> | undefined
 ): boolean {
   if (!form) return true; // if no form available, treat submit as sufficient (MVP)
-  const ans = memberAnswers ?? {};
-  for (const q of form.questions) {
-    if (!q.required) continue;
-    if (!q.showForRoles?.includes(role)) continue;
-    const v = ans[q.id];
-    if (!valuePresent(v)) return false;
-    if ((q.inputType === "number" || q.inputType === "currency") && v !== "" && v !== null) {
-      const n = Number(v);
-      if (Number.isNaN(n)) return false;
-      if (q.validation?.min !== undefined && n < q.validation.min!) return false;
-      if (q.validation?.max !== undefined && n > q.validation.max!) return false;
-    }
-    if (q.validation?.pattern && typeof v === "string") {
-      try { const re = new RegExp(q.validation.pattern); if (!re.test(v)) return false; } catch {}
-    }
-  }
-  return true;
+  return validateMemberAnswers(form.questions, role, memberAnswers).ok;
 }
 
 /* ============================================================
@@ -341,11 +319,11 @@ export async function PATCH(
 
     // Reload for completeness check
     const fresh = await appsCol.findOne(baseFilter, {
-      projection: { status: 1, formId: 1, members: 1, answers: 1, answersByMember: 1 },
+      projection: { status: 1, formId: 1, formVersion: 1, members: 1, answers: 1, answersByMember: 1 },
     });
 
-    // Load form
-    const form = await loadFormById(db, String(fresh?.formId ?? ""));
+    // Load the pinned form version
+    const form = await loadFormById(db, String(fresh?.formId ?? ""), fresh?.formVersion);
 
     // Required members: prefer app.members; else membership fallback; else caller
     const email = emailLc;
@@ -381,23 +359,17 @@ export async function PATCH(
       if (!(submitted && complete)) { allComplete = false; break; }
     }
 
-    // Ask rules to flip draft→submitted if everyone complete
-    let next = currentStatus as AppStatus;
+    // Ask rules to flip draft→submitted if everyone complete (race-safe on the status we read)
     if (allComplete) {
-      next = computeNextState(currentStatus, "submit", "system", { membersAck: true }) as AppStatus;
-    }
-
-    if (next !== currentStatus) {
-      await appsCol.updateOne(
-        { ...baseFilter, status: "draft" }, // only flip if still draft (race-safe)
-        {
-          $set: { status: next, submittedAt: now, updatedAt: now },
-          $push: {
-            timeline: { at: now, by: "system", event: "status.change", meta: { from: currentStatus, to: next, reason: "all_members_complete" } },
-          } as any,
-        }
-      );
-      return NextResponse.json({ ok: true, state: next, auto: true });
+      const flip = await transitionApplication(db, {
+        app: cur,
+        steps: { action: "submit", role: "system", ctx: { membersAck: true } },
+        by: "system",
+        set: { submittedAt: now },
+        meta: { reason: "all_members_complete" },
+        now,
+      });
+      if (flip.ok) return NextResponse.json({ ok: true, state: flip.to, auto: true });
     }
 
     return NextResponse.json({ ok: true, state: currentStatus, auto: false });
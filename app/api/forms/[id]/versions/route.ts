@@ -0,0 +1,142 @@
+// app/api/forms/[id]/versions/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId, type Db } from "mongodb";
+import type { ApplicationFormVersionDoc } from "@/lib/models";
+import {
+  diffFormVersions,
+  formContent,
+  loadFormVersion,
+  migrateApplications,
+  publishFormVersion,
+  validateFormContent,
+} from "@/lib/applications/formVersions";
+import { loadEditableForm, toStringId } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/forms/:id/versions
+ *   → { form, versions: [{ version, publishedAt, publishedBy, note, applications }] }
+ * GET /api/forms/:id/versions?from=1&to=2
+ *   → { from, to, changes }
+ * =======================================================================
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadEditableForm(id);
+  if ("error" in c) return c.error;
+
+  const url = new URL(req.url);
+  const headVersion = Number(c.head.version ?? 1);
+  const formId = toStringId(c.head._id);
+
+  try {
+    if (url.searchParams.has("from") || url.searchParams.has("to")) {
+      const from = Number(url.searchParams.get("from") ?? headVersion - 1);
+      const to = Number(url.searchParams.get("to") ?? headVersion);
+      const [a, b] = await Promise.all([loadFormVersion(c.db, formId, from), loadFormVersion(c.db, formId, to)]);
+      if (!a || !b || a.version !== from || b.version !== to) {
+        return NextResponse.json({ ok: false, error: "version_not_found" }, { status: 404 });
+      }
+      return NextResponse.json({ ok: true, from, to, changes: diffFormVersions(a, b) });
+    }
+
+    const rows = await c.db
+      .collection<ApplicationFormVersionDoc>("application_form_versions")
+      .find({ formId }, { projection: { version: 1, publishedAt: 1, publishedBy: 1, note: 1 } })
+      .sort({ version: -1 })
+      .limit(50)
+      .toArray();
+
+    // Forms created before versioning have no frozen copy of the head yet
+    const versions = rows.some((r) => r.version === headVersion)
+      ? rows
+      : [{ version: headVersion, publishedAt: c.head.updatedAt ?? c.head.createdAt ?? null, publishedBy: c.head.createdBy }, ...rows];
+
+    const formIdOr = ObjectId.isValid(formId) ? [{ formId }, { formId: new ObjectId(formId) }] : [{ formId }];
+    const counts = await c.db
+      .collection("applications")
+      .aggregate<{ _id: { v: number | null; draft: boolean }; n: number }>([
+        { $match: { $or: formIdOr } },
+        { $group: { _id: { v: "$formVersion", draft: { $eq: ["$status", "draft"] } }, n: { $sum: 1 } } },
+      ])
+      .toArray();
+    const byVersion = new Map<number, { total: number; drafts: number }>();
+    for (const r of counts) {
+      const v = r._id.v ?? headVersion; // never pinned = still on the head
+      const cur = byVersion.get(v) ?? { total: 0, drafts: 0 };
+      cur.total += r.n;
+      if (r._id.draft) cur.drafts += r.n;
+      byVersion.set(v, cur);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      form: { id: formId, version: headVersion, ...formContent(c.head) },
+      versions: versions.map((v: any) => ({
+        version: v.version,
+        publishedAt: v.publishedAt ?? null,
+        publishedBy: v.publishedBy ?? null,
+        note: v.note ?? null,
+        applications: byVersion.get(v.version) ?? { total: 0, drafts: 0 },
+      })),
+    });
+  } catch (err) {
+    console.error("[forms] versions GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/forms/:id/versions
+ * Body: { action: "publish", form, note? }
+ *   Publishes the edited builder form as head.version + 1; applications
+ *   already started stay on the version they were pinned to
+ * Body: { action: "migrate", toVersion?: number, appIds?: string[] }
+ *   Moves draft applications on older versions to toVersion (default: latest)
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadEditableForm(id);
+  if ("error" in c) return c.error;
+
+  const body = await req.json().catch(() => ({} as any));
+  if (body?.action === "publish") return publish(c, id, body);
+  if (body?.action !== "migrate") {
+    return NextResponse.json({ ok: false, error: "unknown_action" }, { status: 400 });
+  }
+  const toVersion = Number(body?.toVersion ?? c.head.version ?? 1);
+  if (!Number.isInteger(toVersion) || toVersion < 1) {
+    return NextResponse.json({ ok: false, error: "bad_version" }, { status: 400 });
+  }
+  const appIds = Array.isArray(body?.appIds) ? body.appIds.map(String).filter(Boolean) : undefined;
+
+  try {
+    const res = await migrateApplications(c.db, toStringId(c.head._id), toVersion, { appIds, by: c.uid });
+    if (!res.ok) return NextResponse.json(res, { status: 404 });
+    console.log("[forms] migrated applications,", { formId: id, toVersion, count: res.migrated.length });
+    return NextResponse.json(res);
+  } catch (err) {
+    console.error("[forms] migrate failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+async function publish(c: { db: Db; uid: string; head: any }, id: string, body: any) {
+  const valid = validateFormContent(body?.form);
+  if (!valid.ok) return NextResponse.json(valid, { status: 400 });
+
+  try {
+    const note = typeof body?.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : undefined;
+    const res = await publishFormVersion(c.db, c.head, valid.content, c.uid, note);
+    if (!res.ok) return NextResponse.json(res, { status: 409 });
+    console.log("[forms] published,", { formId: id, version: res.version, changes: res.changes.length });
+    return NextResponse.json(res);
+  } catch (err) {
+    console.error("[forms] publish failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { ObjectId, type Filter } from "mongodb";
+import { ensureVersionSnapshot, validateFormContent } from "@/lib/applications/formVersions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -134,8 +135,9 @@ export async function POST(req: NextRequest) {
   if (!user) return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
 
   const body = await req.json().catch(() => null);
-  if (!body || !body.name || !Array.isArray(body.sections) || !Array.isArray(body.questions)) {
-    return NextResponse.json({ ok: false, error: "invalid_payload" }, { status: 400 });
+  const valid = validateFormContent(body);
+  if (!valid.ok) {
+    return NextResponse.json(valid, { status: 400 });
   }
 
   try {
@@ -147,13 +149,8 @@ export async function POST(req: NextRequest) {
       firmName,                 // denormalized for faster lists
       firmSlug,                 // denormalized for URLs
 
-      name: String(body.name),
-      description: body.description ?? "",
-      scope: body.scope ?? "portfolio",
-      sections: body.sections,
-      questions: body.questions,
-      qualifications: body.qualifications ?? [],
-      version: body.version ?? 1,
+      ...valid.content,
+      version: 1, // later edits publish new versions through PUT /api/forms/:id
 
       createdAt: now,
       updatedAt: now,
@@ -162,6 +159,7 @@ export async function POST(req: NextRequest) {
 
     const db = await getDb();
     const res = await db.collection("application_forms").insertOne(doc as any);
+    await ensureVersionSnapshot(db, { ...doc, _id: res.insertedId });
 
     return NextResponse.json({ ok: true, id: String(res.insertedId) });
   } catch (e: any) {
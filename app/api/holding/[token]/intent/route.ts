@@ -4,6 +4,7 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import Stripe from "stripe";
 import { ObjectId } from "mongodb";
+import { holdExpiresAt } from "@/lib/holding/expiry";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -63,11 +64,16 @@ export async function POST(
     // 1) Load hold
     const hold = await holds.findOne(
       { token },
-      { projection: { _id: 1, total: 1, minimumDue: 1, status: 1, paymentIntentId: 1, firmId: 1 } }
+      { projection: { _id: 1, total: 1, minimumDue: 1, status: 1, paymentIntentId: 1, firmId: 1, expiresAt: 1 } }
     );
     if (!hold || hold.status !== "pending") {
       return NextResponse.json({ ok: false, error: "invalid_or_paid" }, { status: 400 });
     }
+    // Lapsed but not yet swept by the expiry job
+    const expiresAt = holdExpiresAt(hold as any);
+    if (expiresAt && expiresAt <= new Date()) {
+      return NextResponse.json({ ok: false, error: "hold_expired" }, { status: 410 });
+    }
 
     // 2) Load firm; support string or ObjectId ids
     const firmIdStr = String(hold.firmId);
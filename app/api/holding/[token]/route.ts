@@ -1,6 +1,7 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
+import { holdExpiresAt } from "@/lib/holding/expiry";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -42,6 +43,7 @@ export async function GET(
         updatedAt: 1,
         paidAt: 1,
         createdAt: 1,
+        expiresAt: 1,
       },
     }
   );
@@ -51,7 +53,7 @@ export async function GET(
   }
 
   // Normalize allowed statuses
-  const validStatuses = ["pending", "submitted", "paid", "failed", "canceled"];
+  const validStatuses = ["pending", "submitted", "paid", "failed", "canceled", "expired"];
   const status = validStatuses.includes(String(hold.status))
     ? String(hold.status)
     : "pending";
@@ -65,5 +67,6 @@ export async function GET(
     status,
     updatedAt: hold.updatedAt ?? hold.createdAt ?? null,
     paidAt: hold.paidAt ?? null,
+    expiresAt: holdExpiresAt(hold as any)?.toISOString() ?? null,
   });
 }
@@ -0,0 +1,41 @@
+// app/api/landlord/applications/[id]/blind-review/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { BlindReviewField } from "@/lib/models";
+import { BLIND_REVIEW_FIELDS, revealBlindFields } from "@/lib/applications/blindReview";
+import { loadReviewerContext } from "../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * POST /api/landlord/applications/:id/blind-review
+ * Body: { fields?: ("names" | "dob" | "photos" | "sensitive_answers")[] }  (default: all)
+ *   → { revealed, masked }
+ * Only after a recommendation is on record; each reveal is audit-logged.
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  const body = await req.json().catch(() => ({}));
+  let fields: BlindReviewField[] = BLIND_REVIEW_FIELDS;
+  if (body?.fields !== undefined) {
+    if (!Array.isArray(body.fields) || body.fields.some((f: any) => !BLIND_REVIEW_FIELDS.includes(f))) {
+      return NextResponse.json({ ok: false, error: "bad_fields" }, { status: 400 });
+    }
+    fields = body.fields;
+  }
+
+  try {
+    const r = await revealBlindFields(c.db, { app: c.app, firmId: c.firmId, fields, by: c.uidStr });
+    if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: 409 });
+    console.log("[blind-review] revealed,", { appId: c.appKey, by: c.uidStr, fields: r.revealed });
+    return NextResponse.json({ ok: true, revealed: r.revealed, masked: r.masked });
+  } catch (err) {
+    console.error("[blind-review] reveal failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
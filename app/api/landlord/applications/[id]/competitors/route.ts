@@ -0,0 +1,106 @@
+// app/api/landlord/applications/[id]/competitors/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import {
+  compareGroup,
+  loadUnitGroup,
+  rankGroup,
+  waitlistCompetitors,
+} from "@/lib/applications/competition";
+import { loadReviewerContext } from "../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ERROR_STATUS: Record<string, number> = {
+  not_in_group: 400,
+  not_approved: 409,
+  no_unit: 409,
+};
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/competitors
+ *   → { unit: { key, label }, rows: [{ appId, label, status, rank, householdSize,
+ *        incomeToRent, score, moveInDate, docsComplete, missingDocs, submittedAt }] }
+ * Every application for the same building/unit, this one included.
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  try {
+    const app = await c.db.collection<any>("applications").findOne({ _id: c.app._id });
+    if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
+    const group = await loadUnitGroup(c.db, c.firmId, app);
+    return NextResponse.json({
+      ok: true,
+      unit: { key: group.key, label: group.label },
+      rows: await compareGroup(c.db, c.firmId, group.apps),
+    });
+  } catch (err) {
+    console.error("[competitors] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PUT /api/landlord/applications/:id/competitors
+ * Body: { order: string[] }  application ids, first choice first
+ * Any firm member may rank; only open (submitted / in review) applications.
+ * =======================================================================
+ */
+export async function PUT(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  const body = await req.json().catch(() => ({}));
+  if (!Array.isArray(body?.order) || body.order.some((x: any) => typeof x !== "string")) {
+    return NextResponse.json({ ok: false, error: "bad_order" }, { status: 400 });
+  }
+
+  try {
+    const app = await c.db.collection<any>("applications").findOne({ _id: c.app._id });
+    if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
+    const r = await rankGroup(c.db, { firmId: c.firmId, app, order: body.order, by: c.uidStr });
+    if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: ERROR_STATUS[r.error] ?? 400 });
+    const group = await loadUnitGroup(c.db, c.firmId, app);
+    return NextResponse.json({ ok: true, rows: await compareGroup(c.db, c.firmId, group.apps) });
+  } catch (err) {
+    console.error("[competitors] rank failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/landlord/applications/:id/competitors
+ * Body: { appIds?: string[] }  (default: every open competitor)
+ * :id must be approved. Moves the others to "waitlisted" and emails each
+ * household. Owners and admins only, like approvals.
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+  if (c.role !== "admin" && c.role !== "owner") {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const appIds = Array.isArray(body?.appIds) ? body.appIds.map(String) : null;
+
+  try {
+    const app = await c.db.collection<any>("applications").findOne({ _id: c.app._id });
+    if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
+    const r = await waitlistCompetitors(c.db, { firmId: c.firmId, approved: app, appIds, by: c.uidStr });
+    if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: ERROR_STATUS[r.error] ?? 400 });
+    console.log("[competitors] waitlisted,", { appId: c.appKey, moved: r.moved.map((m) => m.appId) });
+    return NextResponse.json({ ok: true, moved: r.moved });
+  } catch (err) {
+    console.error("[competitors] waitlist failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
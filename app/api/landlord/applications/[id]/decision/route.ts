@@ -4,6 +4,20 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import type { ObjectId } from "mongodb";
+import type { ApplicationApprovalDoc, ApplicationReviewDoc } from "@/lib/models";
+import {
+  approvalBlocker,
+  listReviews,
+  loadApprovalPolicy,
+  recordApproval,
+  recordReview,
+  withdrawApproval,
+  withdrawReview,
+} from "@/lib/applications/approvals";
+import { ADVERSE_ACTION_REASONS, issueDecisionLetter, letterToWire } from "@/lib/applications/decisionLetters";
+import { openCompetitors } from "@/lib/applications/competition";
+import { firmRoleToDomain, transitionApplication } from "@/lib/applications/transitions";
+import { normalizeAppState, type Action } from "@/domain/rules";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -44,6 +58,13 @@ type FirmMembershipDoc = {
 };
 
 /* ───────────────── helpers ───────────────── */
+/** Route action → the domain rules action it applies */
+const DOMAIN_ACTION: Record<string, Action> = {
+  preliminary_accept: "admin_screen",
+  approve: "approve_high",
+  reject: "reject",
+};
+
 function toStringId(v: any) {
   if (!v) return "";
   if (typeof v === "string") return v;
@@ -75,6 +96,14 @@ function pickUserId(user: unknown): string {
     u?._id ?? u?.id ?? u?.userId ?? u?.sub ?? u?.uid ?? u?.email ?? ""
   );
 }
+/** Trimmed, non-empty strings only, capped in count and length */
+function stringList(v: unknown, max: number, maxLen: number): string[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((x) => (typeof x === "string" ? x.trim().slice(0, maxLen) : ""))
+    .filter(Boolean)
+    .slice(0, max);
+}
 
 /* ───────────────── handler ───────────────── */
 export async function POST(
@@ -101,6 +130,11 @@ export async function POST(
 
   const body = await req.json().catch(() => ({}));
   const action = String(body?.action || "");
+  const notes = typeof body?.notes === "string" ? body.notes.trim() : "";
+  // Letter inputs: adverse action reasons on reject, conditions on a conditional approve
+  const reasons = stringList(body?.reasons, 10, 64).filter((r) => r in ADVERSE_ACTION_REASONS);
+  const reasonNote = typeof body?.reasonNote === "string" ? body.reasonNote.trim().slice(0, 500) : "";
+  const conditions = stringList(body?.conditions, 10, 300);
 
   if (!["preliminary_accept", "approve", "reject"].includes(action)) {
     return NextResponse.json({ ok: false, error: "bad_action" }, { status: 400 });
@@ -157,10 +191,9 @@ export async function POST(
   // Status gating — new canonical flow
   // preliminary_accept: submitted → admin_screened
   // approve          : submitted|admin_screened → approved_high
-  // reject           : submitted → rejected
-  const current = String(app.status || "draft");
-  let target: string | null = null;
-  let updateFilter: any = { ...appFilter }; // will add expected status for atomicity
+  // reject           : submitted|admin_screened → rejected
+  // Legacy statuses are read as their canonical state
+  const current: string = normalizeAppState(app.status) ?? String(app.status);
 
   if (action === "preliminary_accept") {
     if (current === "admin_screened") {
@@ -170,8 +203,6 @@ export async function POST(
     if (current !== "submitted") {
       return NextResponse.json({ ok: false, error: "bad_state", from: current, needs: "submitted" }, { status: 409 });
     }
-    target = "admin_screened";
-    updateFilter = { ...appFilter, status: "submitted" };
   } else if (action === "approve") {
     if (current === "approved_high") {
       return NextResponse.json({ ok: true, status: current, no_op: true });
@@ -179,42 +210,77 @@ export async function POST(
     if (current !== "submitted" && current !== "admin_screened") {
       return NextResponse.json({ ok: false, error: "bad_state", from: current, needs: "submitted|admin_screened" }, { status: 409 });
     }
-    target = "approved_high";
-    updateFilter = { ...appFilter, status: { $in: ["submitted", "admin_screened"] } };
   } else {
     // reject
     if (current === "rejected" || current === "withdrawn") {
       return NextResponse.json({ ok: true, status: current, no_op: true });
     }
-    if (current !== "submitted") {
-      return NextResponse.json({ ok: false, error: "bad_state", from: current, needs: "submitted" }, { status: 409 });
+    if (current !== "submitted" && current !== "admin_screened") {
+      return NextResponse.json({ ok: false, error: "bad_state", from: current, needs: "submitted|admin_screened" }, { status: 409 });
+    }
+  }
+
+  // Firm approval policy (reviewer-before-approver, four-eyes)
+  const appKey = toStringId(app._id);
+  if (action === "approve") {
+    const policy = await loadApprovalPolicy(db, firmId);
+    const reviews = await listReviews(db, appKey);
+    const blocker = approvalBlocker(policy, reviews, uidStr);
+    if (blocker) {
+      return NextResponse.json({ ok: false, error: blocker, policy }, { status: 409 });
     }
-    target = "rejected";
-    updateFilter = { ...appFilter, status: "submitted" };
   }
 
   const now = new Date();
 
-  // Timeline entries
+  // Timeline entry; the status.change one comes with the transition
   const decisionEntry: TimelineEvent = {
     at: now,
     by: uidStr,
     event: `decision.${action}`, // e.g., decision.approve
   };
-  const statusEntry: TimelineEvent = {
-    at: now,
-    by: uidStr,
-    event: "status.change",
-    meta: { from: current, to: target, via: action },
-  };
 
-  // Atomic update (only if status is as expected)
-  const res = await apps.updateOne(updateFilter, {
-    $set: { status: target, updatedAt: now },
-    $push: { timeline: { $each: [decisionEntry, statusEntry] } },
+  // Preliminary accept is the reviewer's recommendation; approve/reject is the
+  // approver's decision. Recorded first: a decision that moved the status must
+  // have its record, so a failed write stops here.
+  let recorded: { review?: ApplicationReviewDoc; approval?: ApplicationApprovalDoc };
+  try {
+    recorded =
+      action === "preliminary_accept"
+        ? { review: await recordReview(db, { firmId, appId: appKey, reviewerUserId: uidStr, decision: "recommend_approve", notes }) }
+        : {
+            approval: await recordApproval(db, {
+              firmId,
+              appId: appKey,
+              approverUserId: uidStr,
+              decision: action === "approve" ? "approve" : "reject",
+              notes,
+            }),
+          };
+  } catch (err) {
+    console.error("[decision] recording review/approval failed,", err);
+    return NextResponse.json({ ok: false, error: "record_failed" }, { status: 500 });
+  }
+
+  // Through the rules, only if the status is still the one we read
+  const res = await transitionApplication(db, {
+    app,
+    steps: { action: DOMAIN_ACTION[action], role: firmRoleToDomain(role) },
+    by: uidStr,
+    firmId,
+    set: action === "approve" && conditions.length ? { approvalConditions: conditions } : undefined,
+    timeline: [decisionEntry],
+    meta: { decision: action },
+    now,
   });
 
-  if (res.matchedCount === 0) {
+  if (!res.ok) {
+    try {
+      if (recorded.review) await withdrawReview(db, recorded.review);
+      if (recorded.approval) await withdrawApproval(db, recorded.approval);
+    } catch (err) {
+      console.error("[decision] withdrawing review/approval failed,", err);
+    }
     // Someone else may have advanced the state; reload and report
     const after = await apps.findOne(appFilter, { projection: { status: 1 } });
     return NextResponse.json(
@@ -223,5 +289,42 @@ export async function POST(
     );
   }
 
-  return NextResponse.json({ ok: true, status: target });
+  // Decision letters: every rejection, and approvals that came with conditions
+  const letterKind =
+    action === "reject" ? "rejection" : action === "approve" && conditions.length ? "conditional_approval" : null;
+  let letter: ReturnType<typeof letterToWire> | null = null;
+  if (letterKind) {
+    try {
+      const full = await db.collection("applications").findOne(appFilter, {
+        projection: { _id: 1, members: 1, answersByMember: 1, householdId: 1, property: 1, unit: 1 },
+      });
+      if (full) {
+        const issued = await issueDecisionLetter(db, {
+          app: full,
+          firmId,
+          kind: letterKind,
+          reasons,
+          reasonNote: reasonNote || null,
+          conditions,
+          by: uidStr,
+        });
+        letter = letterToWire(issued);
+      }
+    } catch (err) {
+      console.error("[decision] letter failed,", err);
+    }
+  }
+
+  // Other households still open for the same unit; the reviewer is offered to waitlist them
+  let competitors: Awaited<ReturnType<typeof openCompetitors>> = [];
+  if (action === "approve") {
+    try {
+      const full = await db.collection("applications").findOne(appFilter);
+      if (full) competitors = await openCompetitors(db, firmId, full);
+    } catch (err) {
+      console.error("[decision] competitor lookup failed,", err);
+    }
+  }
+
+  return NextResponse.json({ ok: true, status: res.to, letter, competitors });
 }
@@ -0,0 +1,53 @@
+// app/api/landlord/applications/[id]/documents/[docId]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { ApplicationDocumentDoc, AuditLogDoc } from "@/lib/models";
+import { signedDocumentUrl, VIEW_URL_TTL_SECONDS } from "@/lib/applications/documents";
+import { isPhotoDocument, loadBlindReview, maskedFields } from "@/lib/applications/blindReview";
+import { loadReviewerContext } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/documents/:docId[?download=1]
+ * Audit-logs the view, then redirects to a signed URL that expires in a
+ * minute, so a copied link stops working almost immediately.
+ * =======================================================================
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string; docId: string }> }) {
+  const { id, docId } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  const doc = await c.db
+    .collection<ApplicationDocumentDoc>("application_documents")
+    .findOne({ _id: docId, applicationId: c.appKey, status: "ready" });
+  if (!doc) {
+    return NextResponse.json({ ok: false, error: "document_not_found" }, { status: 404 });
+  }
+  if (isPhotoDocument(doc) && maskedFields(await loadBlindReview(c.db, c.firmId), c.app).includes("photos")) {
+    return NextResponse.json({ ok: false, error: "hidden_for_blind_review" }, { status: 403 });
+  }
+
+  const download = req.nextUrl.searchParams.get("download") === "1";
+  try {
+    const entry: AuditLogDoc = {
+      _id: `al_${crypto.randomUUID()}`,
+      orgId: c.firmId,
+      actorUserId: c.uidStr,
+      entity: { type: "application", id: c.appKey },
+      action: download ? "document.download" : "document.view",
+      meta: { documentId: String(doc._id), userId: doc.userId, target: doc.target },
+      at: new Date(),
+    };
+    await c.db.collection<AuditLogDoc>("audit_log").insertOne(entry);
+
+    const res = NextResponse.redirect(await signedDocumentUrl(doc, { download }), 302);
+    res.headers.set("Cache-Control", `private, max-age=${VIEW_URL_TTL_SECONDS / 2}`);
+    return res;
+  } catch (err) {
+    console.error("[documents] view failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
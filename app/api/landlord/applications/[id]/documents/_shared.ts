@@ -0,0 +1,65 @@
+// app/api/landlord/applications/[id]/documents/_shared.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+
+export function toStringId(v: any) {
+  if (!v) return "";
+  if (typeof v === "string") return v;
+  try {
+    return v?.toHexString ? v.toHexString() : String(v);
+  } catch {
+    return String(v);
+  }
+}
+function isHex24(s: string) {
+  return /^[0-9a-fA-F]{24}$/.test(s);
+}
+function pickUserId(user: unknown): string {
+  const u = user as any;
+  return toStringId(u?._id ?? u?.id ?? u?.userId ?? u?.sub ?? u?.uid ?? u?.email ?? "");
+}
+
+/** Application → firm (via form) → caller must be an active member */
+export async function loadReviewerContext(appId: string) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+  if (!appId) {
+    return { error: NextResponse.json({ ok: false, error: "bad_application_id" }, { status: 400 }) };
+  }
+
+  const db = await getDb();
+  const app = await db
+    .collection("applications")
+    .findOne(isHex24(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any), {
+      projection: { _id: 1, formId: 1, answersByMember: 1, members: 1, blindReview: 1 },
+    });
+  if (!app) {
+    return { error: NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 }) };
+  }
+
+  const formKey = String(app.formId);
+  const form = await db
+    .collection("application_forms")
+    .findOne(isHex24(formKey) ? { _id: new ObjectId(formKey) } : ({ _id: formKey } as any), {
+      projection: { firmId: 1 },
+    });
+  if (!form?.firmId) {
+    return { error: NextResponse.json({ ok: false, error: "form_or_firm_missing" }, { status: 400 }) };
+  }
+
+  const uidStr = pickUserId(user);
+  const userIdOr = ObjectId.isValid(uidStr) ? [{ userId: uidStr }, { userId: new ObjectId(uidStr) }] : [{ userId: uidStr }];
+  const membership = await db
+    .collection("firm_memberships")
+    .findOne({ firmId: String(form.firmId), active: true, $or: userIdOr }, { projection: { _id: 1, role: 1 } });
+  if (!membership) {
+    return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+  }
+
+  const role = String(membership.role || "member").toLowerCase();
+  return { db, app, appKey: toStringId(app._id), firmId: String(form.firmId), uidStr, role };
+}
@@ -0,0 +1,62 @@
+// app/api/landlord/applications/[id]/documents/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { ApplicationDocumentDoc } from "@/lib/models";
+import { documentToWire } from "@/lib/applications/documents";
+import { MASKED, isPhotoDocument, loadBlindReview, maskedFields, memberAliases } from "@/lib/applications/blindReview";
+import { loadReviewerContext } from "./_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/documents
+ *   → { documents: [{ ..., email, viewUrl }] }
+ * Files are never linked directly; viewUrl mints a short-lived signed URL
+ * per click and records who opened what. Under blind review, photos have no
+ * viewUrl and names (emails, file names) are replaced until revealed.
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  try {
+    const rows = await c.db
+      .collection<ApplicationDocumentDoc>("application_documents")
+      .find({ applicationId: c.appKey, status: "ready" })
+      .sort({ createdAt: 1 })
+      .limit(500)
+      .toArray();
+
+    const emails = new Map<string, string>();
+    for (const [userId, bucket] of Object.entries<any>(c.app.answersByMember ?? {})) {
+      if (bucket?.email) emails.set(userId, String(bucket.email));
+    }
+    for (const m of Array.isArray(c.app.members) ? c.app.members : []) {
+      if (m?.userId && m?.email && !emails.has(String(m.userId))) emails.set(String(m.userId), String(m.email));
+    }
+
+    const masked = maskedFields(await loadBlindReview(c.db, c.firmId), c.app);
+    const aliases = masked.includes("names") ? memberAliases(c.app) : null;
+
+    const base = `/api/landlord/applications/${encodeURIComponent(c.appKey)}/documents`;
+    return NextResponse.json({
+      ok: true,
+      documents: rows.map((d) => {
+        const photoHidden = masked.includes("photos") && isPhotoDocument(d);
+        return {
+          ...documentToWire(d),
+          ...(aliases || photoHidden ? { fileName: MASKED } : {}),
+          email: aliases ? aliases.get(d.userId) ?? MASKED : emails.get(d.userId) ?? null,
+          masked: photoHidden,
+          viewUrl: photoHidden ? null : `${base}/${encodeURIComponent(String(d._id))}`,
+        };
+      }),
+    });
+  } catch (err) {
+    console.error("[documents] list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
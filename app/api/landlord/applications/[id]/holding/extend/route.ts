@@ -0,0 +1,46 @@
+// app/api/landlord/applications/[id]/holding/extend/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { extendHold } from "@/lib/holding/expiry";
+import { loadReviewerContext } from "../../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ERROR_STATUS: Record<string, number> = {
+  reason_required: 400,
+  invalid_hours: 400,
+  application_not_found: 404,
+  no_active_hold: 409,
+};
+
+/* =======================================================================
+ * POST /api/landlord/applications/:id/holding/extend
+ * Body: { hours: number, reason: string }
+ *   → { expiresAt }
+ * Pushes an active hold's expiry out from the later of now and the current
+ * expiry. Owners and admins only; the reason is kept in audit_log.
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+  if (c.role !== "admin" && c.role !== "owner") {
+    return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const hours = Number(body?.hours);
+  const reason = typeof body?.reason === "string" ? body.reason : "";
+
+  try {
+    const r = await extendHold(c.db, { appId: c.appKey, firmId: c.firmId, hours, reason, by: c.uidStr });
+    if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: ERROR_STATUS[r.error] ?? 400 });
+    console.log("[holding] extended,", { appId: c.appKey, hours, expiresAt: r.expiresAt });
+    return NextResponse.json({ ok: true, expiresAt: r.expiresAt.toISOString() });
+  } catch (err) {
+    console.error("[holding] extend failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
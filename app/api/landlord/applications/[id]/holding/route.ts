@@ -4,6 +4,10 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { validateMAHolding } from "@/lib/holding/validate";
+import { HOLD_TTL_HOURS, holdExpiresAt } from "@/lib/holding/expiry";
+import { conflictToWire, findUnitConflict, holdRangeOf, withUnitClaim } from "@/lib/properties/availability";
+import { firmRoleToDomain, transitionApplication } from "@/lib/applications/transitions";
+import { normalizeAppState, type Terms } from "@/domain/rules";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -42,14 +46,16 @@ function pickUserId(user: unknown): string {
   );
 }
 
-export async function POST() {
-  return NextResponse.json(
-    { ok: false, error: "deprecated_endpoint" },
-    { status: 410 } // Gone
-  );
-}
-
-/*export async function POST(
+/**
+ * POST /api/landlord/applications/[id]/holding
+ * Body: { monthlyRent, amounts: { first, last, security, key }, minimumDue } (cents)
+ * Firm members: request a holding deposit for the application's unit, or with
+ * minimumDue 0, drop any pending one. The hold covers the planned lease dates
+ * (saved by the unit step), which must be free on the unit; it lasts
+ * HOLD_TTL_HOURS unless extended (see lib/holding/expiry). Requesting one
+ * sets terms and moves approved_high → min_due through the rules.
+ */
+export async function POST(
   req: NextRequest,
   ctx: { params: { id: string } } | { params: Promise<{ id: string }> }
 ) {
@@ -74,7 +80,7 @@ export async function POST() {
   // Load application (string or ObjectId)
   const appFilter = isHex24(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any);
   const app = await apps.findOne(appFilter, {
-    projection: { _id: 1, householdId: 1, formId: 1, status: 1 },
+    projection: { _id: 1, householdId: 1, formId: 1, status: 1, unitId: 1, building: 1, paymentPlan: 1, protoLease: 1 },
   });
   if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
 
@@ -96,11 +102,8 @@ export async function POST() {
   );
   if (!membership) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
 
-  // Existing hold doc if any
-  const existing = await holds.findOne(
-    { appId: String(app._id), firmId, status: { $in: ["pending", "paid"] } },
-    { projection: { _id: 1, status: 1, token: 1 } }
-  );
+  // Existing hold doc if any (whole, to put back if the transition fails)
+  const existing = await holds.findOne({ appId: String(app._id), firmId, status: { $in: ["pending", "paid"] } });
   if (existing?.status === "paid") {
     // Already paid — nothing to configure
     return NextResponse.json({ ok: false, error: "already_paid" }, { status: 409 });
@@ -109,30 +112,32 @@ export async function POST() {
   const now = new Date();
 
   // === PATH A: NO HOLD REQUIRED (minimumDue === 0) ===========================
+  // The application stays approved_high; the rules have no way back from min_due
   if (minimumDue === 0) {
-    // If there was a pending hold, mark it canceled (best-effort)
-    if (existing?.status === "pending") {
-      try {
-        await holds.updateOne({ _id: existing._id }, { $set: { status: "canceled", canceledAt: now } });
-      } catch {}
+    if (normalizeAppState(app.status) !== "approved_high") {
+      return NextResponse.json({ ok: false, error: "illegal_transition", from: app.status ?? null }, { status: 409 });
     }
-
-    // Mark application as "approved_ready_to_lease"
-    await apps.updateOne(appFilter, {
-      $set: { status: "approved_ready_to_lease", updatedAt: now },
-      $push: {
-        timeline: {
-          at: now,
-          by: uidStr,
-          event: "status.change",
-          meta: { to: "approved_ready_to_lease", via: "holding_setup_none" },
+    if (existing?.status === "pending") {
+      await holds.updateOne(
+        { _id: existing._id, status: "pending" },
+        { $set: { status: "canceled", canceledAt: now, updatedAt: now } }
+      );
+      await apps.updateOne(appFilter, {
+        $set: {
+          "locks.holding.active": false,
+          "locks.holding.releasedAt": now,
+          "locks.holding.releasedReason": "canceled",
+          updatedAt: now,
         },
-      } as any,
-    });
+        $push: {
+          timeline: { at: now, by: uidStr, event: "hold.canceled", meta: { holdId: String(existing._id) } },
+        } as any,
+      });
+    }
 
     return NextResponse.json({
       ok: true,
-      status: "approved_ready_to_lease",
+      status: app.status,
       payUrl: null,
       token: null,
       minimumDue: 0,
@@ -160,45 +165,114 @@ export async function POST() {
     );
   }
 
-  // Prepare / upsert hold doc
-  const token = existing?.token ?? `hold_${rand(22)}`;
-  const doc = {
-    _id: existing?._id ?? token,
-    appId: String(app._id),
-    firmId,
-    householdId: String(app.householdId),
-    amounts: a,
-    monthlyRent,
-    total,
-    minimumDue,
-    status: "pending" as const,
-    token,
-    createdAt: existing ? undefined : now,
-    updatedAt: now,
-  };
+  // The hold takes the unit for the planned lease dates, which must be free
+  const range = holdRangeOf(app);
+  if (!range) {
+    return NextResponse.json({ ok: false, error: "bad_start_date" }, { status: 400 });
+  }
+
+  // Check the dates and take them under the unit's claim, so two holds (or a
+  // hold and a lease) can't both see the unit free
+  const requestHold = async () => {
+    if (app.unitId) {
+      const conflict = await findUnitConflict(db, {
+        firmId,
+        unitId: String(app.unitId),
+        start: range.start,
+        end: range.end,
+        appId: toStringId(app._id),
+      });
+      if (conflict) {
+        return { ok: false as const, status: 409, body: { error: "unit_unavailable", conflict: conflictToWire(conflict) } };
+      }
+    }
 
-  await holds.updateOne({ _id: doc._id }, { $set: doc }, { upsert: true });
-
-  // Update application status → approved_pending_payment
-  await apps.updateOne(appFilter, {
-    $set: { status: "approved_pending_payment", updatedAt: now },
-    $push: {
-      timeline: {
-        at: now,
-        by: uidStr,
-        event: "status.change",
-        meta: { to: "approved_pending_payment", via: "holding_setup" },
+    // Prepare / upsert hold doc; re-saving the amounts keeps the expiry
+    const token = existing?.token ?? `hold_${rand(22)}`;
+    const expiresAt =
+      (existing ? holdExpiresAt(existing as any) : null) ?? new Date(now.getTime() + HOLD_TTL_HOURS * 3_600_000);
+    const doc = {
+      _id: existing?._id ?? token,
+      appId: String(app._id),
+      firmId,
+      householdId: String(app.householdId),
+      amounts: a,
+      monthlyRent,
+      total,
+      minimumDue,
+      status: "pending" as const,
+      token,
+      expiresAt,
+      ...(existing ? {} : { createdAt: now }),
+      updatedAt: now,
+    };
+    // The hold is written first; nobody has its token until we answer
+    await holds.updateOne({ _id: doc._id }, { $set: doc }, { upsert: true });
+
+    // approved_high -> terms_set -> min_due, only if the status is still the one
+    // we read; re-saving a pending hold's amounts leaves min_due alone
+    const building = app.building || null;
+    const terms: Terms = {
+      addressFreeform: building
+        ? `${building.addressLine1 || ""}, ${building.city || ""}, ${building.state || ""} ${building.postalCode || ""}`.trim()
+        : "Lease address",
+      unitId: app.unitId ? String(app.unitId) : null,
+      rentCents: monthlyRent,
+      startISO: range.start,
+      endISO: range.end,
+      depositCents: a.security,
+    };
+    const minRules = [{ bucket: "upfront" as const, minCents: minimumDue }];
+    const res = await transitionApplication(db, {
+      app,
+      steps: [
+        { action: "set_terms", role: firmRoleToDomain(membership.role), ctx: { terms, minRules } },
+        { action: "system_min_ready", role: "system", ctx: { terms, minRules } },
+      ],
+      by: uidStr,
+      firmId,
+      set: {
+        "locks.holding.active": true,
+        "locks.holding.until": expiresAt,
+        "locks.holding.releasedAt": null,
+        "locks.holding.releasedReason": null,
       },
-    } as any,
-  });
+      timeline: [
+        {
+          at: now,
+          by: uidStr,
+          event: "hold.requested",
+          meta: { holdId: String(doc._id), minimumDue, total, until: expiresAt },
+        },
+      ],
+      optional: !!existing && normalizeAppState(app.status) === "min_due",
+      now,
+    });
+    if (!res.ok) {
+      // Put the hold back the way it was
+      if (existing) await holds.replaceOne({ _id: existing._id }, existing);
+      else await holds.deleteOne({ _id: doc._id, status: "pending" });
+      return { ok: false as const, status: 409, body: { error: res.error, from: res.stored } };
+    }
+    return { ok: true as const, to: res.to, token, expiresAt };
+  };
+
+  const claimed = app.unitId
+    ? await withUnitClaim(db, String(app.unitId), requestHold)
+    : { ok: true as const, value: await requestHold() };
+  if (!claimed.ok) return NextResponse.json({ ok: false, error: claimed.error }, { status: 409 });
+  const r = claimed.value;
+  if (!r.ok) return NextResponse.json({ ok: false, ...r.body }, { status: r.status });
+  const { token, expiresAt } = r;
 
-  const payUrl = `/hold/${encodeURIComponent(token)}`;
+  const payUrl = `/tenant/hold/${encodeURIComponent(token)}`;
   return NextResponse.json({
     ok: true,
-    status: "approved_pending_payment",
+    status: r.to,
     payUrl,
     token,
     total,
     minimumDue,
+    expiresAt: expiresAt.toISOString(),
   });
-}*/
+}
@@ -0,0 +1,35 @@
+// app/api/landlord/applications/[id]/letters/[letterId]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { DecisionLetter } from "@/lib/models";
+import { loadReviewerContext } from "../../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/letters/:letterId[?to=email]
+ * The letter as sent, as HTML. Without ?to it's the shared copy; a member's
+ * own copy can also carry their credit score disclosure.
+ * =======================================================================
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string; letterId: string }> }) {
+  const { id, letterId } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  const row = await c.db.collection("applications").findOne({ _id: c.app._id }, { projection: { decisionLetters: 1 } });
+  const letter = ((row?.decisionLetters ?? []) as DecisionLetter[]).find((l) => l.id === letterId);
+  if (!letter) {
+    return NextResponse.json({ ok: false, error: "letter_not_found" }, { status: 404 });
+  }
+
+  const to = String(req.nextUrl.searchParams.get("to") || "").toLowerCase();
+  const copy = to ? letter.recipients.find((r) => r.email === to) : null;
+  if (to && !copy) {
+    return NextResponse.json({ ok: false, error: "recipient_not_found" }, { status: 404 });
+  }
+  return new NextResponse(copy?.html ?? letter.html, {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "private, no-store" },
+  });
+}
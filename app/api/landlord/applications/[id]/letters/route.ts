@@ -0,0 +1,25 @@
+// app/api/landlord/applications/[id]/letters/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { DecisionLetter } from "@/lib/models";
+import { letterToWire } from "@/lib/applications/decisionLetters";
+import { loadReviewerContext } from "../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/letters
+ *   → { letters: [{ id, kind, subject, reasons, conditions, recipients, ... }] }
+ * Newest first; open one with /letters/:letterId
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  const row = await c.db.collection("applications").findOne({ _id: c.app._id }, { projection: { decisionLetters: 1 } });
+  const letters = ((row?.decisionLetters ?? []) as DecisionLetter[]).slice().reverse();
+  return NextResponse.json({ ok: true, letters: letters.map(letterToWire) });
+}
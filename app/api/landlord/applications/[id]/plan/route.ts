@@ -3,12 +3,9 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
-import {
-  computeNextState,
-  deriveMinRulesFromPlan,
-  type AppState,
-  type Terms,
-} from "@/domain/rules";
+import { deriveMinRulesFromPlan, type Terms } from "@/domain/rules";
+import { transitionApplication } from "@/lib/applications/transitions";
+import { addMonthsYmd, conflictToWire, findUnitConflict, withUnitClaim } from "@/lib/properties/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -55,7 +52,7 @@ Body (all cents unless noted):
   countersignDepositThresholdCents: number    // deposit (security)
 }
 
-Also updates application.status using domain rules:
+Also moves application.status through the domain rules:
 
 Flow:
   - from approved_high, "set_terms" moves to "terms_set" when terms are valid
@@ -104,6 +101,8 @@ export async function POST(
       building: 1,
       unit: 1,
       protoLease: 1,
+      formId: 1,
+      unitId: 1,
     },
   });
 
@@ -151,6 +150,19 @@ export async function POST(
     );
   }
 
+  // The lease dates must be free on the inventory unit (other leases and holds)
+  const unitId = app.unitId ? String(app.unitId) : null;
+  let unitFirmId: string | null = null;
+  if (unitId) {
+    const formKey = toStr(app.formId);
+    const form = await db
+      .collection<any>("application_forms")
+      .findOne(isHex24(formKey) ? { _id: new ObjectId(formKey) } : { _id: formKey }, {
+        projection: { firmId: 1 },
+      });
+    unitFirmId = form?.firmId ? String(form.firmId) : null;
+  }
+
   // clamp countersign mins to their legal maximums
   const upfrontMax = (requireFirst ? m : 0) + (requireLast ? m : 0) + keyFee;
   const depositMax = security;
@@ -209,61 +221,79 @@ export async function POST(
     fees: keyFee > 0 ? [{ label: "Key fee", amountCents: keyFee }] : [],
   };
 
-  // Current app status (default conservatively to "approved_high" if missing)
-  const currentStatus = String(app.status ?? "approved_high") as AppState;
-
-  // Step 1: approved_high -> terms_set (if appropriate)
-  let nextStatus = computeNextState(currentStatus, "set_terms", "admin", {
-    terms,
-    minRules,
-  });
-
-  // Step 2: terms_set -> min_due OR countersigned (branch on minRules length)
-  nextStatus = computeNextState(nextStatus, "system_min_ready", "system", {
-    terms,
-    minRules,
-  });
-
   const now = new Date();
+  const by = toStr((user as any)?._id ?? (user as any)?.email ?? "system");
 
-  const timelineEntry = {
-    at: now,
-    by: toStr(
-      (user as any)?._id ??
-        (user as any)?.email ??
-        "system"
-    ),
-    event: "lease.plan.set",
-    meta: {
-      requireFirst,
-      requireLast,
-      csUpfrontClamped,
-      csDepositClamped,
-      minRulesCount: minRules.length,
-      from: currentStatus,
-      to: nextStatus,
-      via: "rules.system_min_ready",
-    },
-  };
+  // Checked and saved under the unit's claim, so a hold or lease can't take
+  // the same dates in between
+  const savePlan = async () => {
+    if (unitId && unitFirmId) {
+      const conflict = await findUnitConflict(db, {
+        firmId: unitFirmId,
+        unitId,
+        start: startDate,
+        end: addMonthsYmd(startDate, term),
+        appId: toStr(app._id),
+      });
+      if (conflict) return { ok: false as const, conflict };
+    }
 
-  // Build update doc separately and cast to any to dodge overly strict typings
-  const updateDoc: any = {
-    $set: {
-      paymentPlan,
-      updatedAt: now,
-      status: nextStatus,
-      countersign: {
-        allowed: false,
-        upfrontMinCents: csUpfrontClamped,
-        depositMinCents: csDepositClamped,
+    // approved_high -> terms_set -> min_due OR countersigned (branch on minRules
+    // length). The plan is saved either way; re-setting terms later leaves the
+    // status alone.
+    const res = await transitionApplication(db, {
+      app,
+      steps: [
+        { action: "set_terms", role: "admin", ctx: { terms, minRules } },
+        { action: "system_min_ready", role: "system", ctx: { terms, minRules } },
+      ],
+      by,
+      set: {
+        paymentPlan,
+        countersign: {
+          allowed: false,
+          upfrontMinCents: csUpfrontClamped,
+          depositMinCents: csDepositClamped,
+        },
       },
-    },
-    $push: {
-      timeline: timelineEntry,
-    },
+      timeline: [
+        {
+          at: now,
+          by,
+          event: "lease.plan.set",
+          meta: {
+            requireFirst,
+            requireLast,
+            csUpfrontClamped,
+            csDepositClamped,
+            minRulesCount: minRules.length,
+          },
+        },
+      ],
+      optional: true,
+      now,
+    });
+    return { ok: true as const, res };
   };
 
-  await apps.updateOne(appFilter, updateDoc);
+  const claimed = unitId ? await withUnitClaim(db, unitId, savePlan) : { ok: true as const, value: await savePlan() };
+  if (!claimed.ok) {
+    return NextResponse.json({ ok: false, error: claimed.error }, { status: 409 });
+  }
+  if (!claimed.value.ok) {
+    return NextResponse.json(
+      { ok: false, error: "unit_unavailable", conflict: conflictToWire(claimed.value.conflict) },
+      { status: 409 }
+    );
+  }
+  const res = claimed.value.res;
+
+  if (!res.ok) {
+    return NextResponse.json(
+      { ok: false, error: res.error === "conflict" ? "conflict" : "bad_state", from: res.stored },
+      { status: 409 }
+    );
+  }
 
-  return NextResponse.json({ ok: true, paymentPlan, nextStatus });
+  return NextResponse.json({ ok: true, paymentPlan, nextStatus: res.to });
 }
@@ -0,0 +1,244 @@
+// app/api/landlord/applications/[id]/reviews/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { ReviewDecision } from "@/lib/models";
+import { normalizeAppState } from "@/domain/rules";
+import {
+  REVIEW_DECISIONS,
+  SYSTEM_ACTOR,
+  approvalBlocker,
+  approvalToWire,
+  listApprovals,
+  listReviews,
+  loadApprovalPolicy,
+  recordApproval,
+  recordReview,
+  reviewToWire,
+  shouldAutoReject,
+} from "@/lib/applications/approvals";
+import { transitionApplication } from "@/lib/applications/transitions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ───────────────── helpers ───────────────── */
+function toStringId(v: any) {
+  if (!v) return "";
+  if (typeof v === "string") return v;
+  try {
+    return v?.toHexString ? v.toHexString() : String(v);
+  } catch {
+    return String(v);
+  }
+}
+function isHex24(s: string) {
+  return /^[0-9a-fA-F]{24}$/.test(s);
+}
+async function getParamsId(
+  req: NextRequest,
+  ctx: { params?: { id: string } | Promise<{ id: string }> }
+) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  return segs[segs.length - 2] || "";
+}
+function pickUserId(user: unknown): string {
+  const u = user as any;
+  return toStringId(
+    u?._id ?? u?.id ?? u?.userId ?? u?.sub ?? u?.uid ?? u?.email ?? ""
+  );
+}
+
+/** Application → firm (via form) → caller's active membership */
+async function loadContext(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+
+  const db = await getDb();
+  const { ObjectId } = await import("mongodb");
+
+  const appId = await getParamsId(req, ctx);
+  if (!appId) {
+    return { error: NextResponse.json({ ok: false, error: "bad_application_id" }, { status: 400 }) };
+  }
+
+  const appFilter = isHex24(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any);
+  const app = await db
+    .collection("applications")
+    .findOne(appFilter, { projection: { _id: 1, formId: 1, status: 1 } });
+  if (!app) {
+    return { error: NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 }) };
+  }
+
+  const formKey = String(app.formId);
+  const form = await db.collection("application_forms").findOne(
+    isHex24(formKey) ? { _id: new ObjectId(formKey) } : ({ _id: formKey } as any),
+    { projection: { firmId: 1 } }
+  );
+  if (!form?.firmId) {
+    return { error: NextResponse.json({ ok: false, error: "form_or_firm_missing" }, { status: 400 }) };
+  }
+  const firmId = String(form.firmId);
+
+  const uidStr = pickUserId(user);
+  const userIdOr = ObjectId.isValid(uidStr)
+    ? [{ userId: uidStr }, { userId: new ObjectId(uidStr) }]
+    : [{ userId: uidStr }];
+  const membership = await db
+    .collection("firm_memberships")
+    .findOne({ firmId, active: true, $or: userIdOr }, { projection: { role: 1 } });
+  const role = String(membership?.role || "").toLowerCase();
+  if (!membership || !["member", "admin", "owner"].includes(role)) {
+    return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+  }
+
+  return { db, app, appFilter, appKey: toStringId(app._id), firmId, uidStr, role };
+}
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/reviews
+ * Reviews, approvals, the firm policy and whether the caller may approve now
+ * =======================================================================
+ */
+export async function GET(
+  req: NextRequest,
+  ctx: { params: { id: string } } | { params: Promise<{ id: string }> }
+) {
+  const c = await loadContext(req, ctx);
+  if ("error" in c) return c.error;
+
+  try {
+    const [policy, reviews, approvals] = await Promise.all([
+      loadApprovalPolicy(c.db, c.firmId),
+      listReviews(c.db, c.appKey),
+      listApprovals(c.db, c.appKey),
+    ]);
+    const canApproveByRole = c.role === "admin" || c.role === "owner";
+
+    // Reviewer/approver ids → email for display
+    const { ObjectId } = await import("mongodb");
+    const ids = Array.from(
+      new Set([...reviews.map((r) => String(r.reviewerUserId)), ...approvals.map((a) => String(a.approverUserId))])
+    ).filter((id) => id !== SYSTEM_ACTOR);
+    const users = ids.length
+      ? await c.db
+          .collection("users")
+          .find(
+            { _id: { $in: ids.flatMap((id) => (ObjectId.isValid(id) ? [new ObjectId(id), id] : [id])) as any[] } },
+            { projection: { email: 1 } }
+          )
+          .toArray()
+      : [];
+    const people: Record<string, string> = Object.fromEntries(users.map((u) => [toStringId(u._id), String(u.email || "")]));
+
+    return NextResponse.json({
+      ok: true,
+      policy,
+      reviews: reviews.map(reviewToWire),
+      approvals: approvals.map(approvalToWire),
+      people,
+      viewer: {
+        userId: c.uidStr,
+        role: c.role,
+        approveBlocker: canApproveByRole ? approvalBlocker(policy, reviews, c.uidStr) : "forbidden",
+      },
+    });
+  } catch (err) {
+    console.error("[reviews] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/landlord/applications/:id/reviews
+ * Body: { decision: "recommend_approve" | "needs_info" | "reject", notes? }
+ * Any firm member may review. Reaching the policy's autoRejectThreshold
+ * rejects the application.
+ * =======================================================================
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: { id: string } } | { params: Promise<{ id: string }> }
+) {
+  const c = await loadContext(req, ctx);
+  if ("error" in c) return c.error;
+
+  const body = await req.json().catch(() => ({}));
+  const decision = String(body?.decision || "") as ReviewDecision;
+  if (!REVIEW_DECISIONS.includes(decision)) {
+    return NextResponse.json({ ok: false, error: "bad_decision" }, { status: 400 });
+  }
+  const notes = typeof body?.notes === "string" ? body.notes.trim() : "";
+  if (decision !== "recommend_approve" && !notes) {
+    return NextResponse.json({ ok: false, error: "notes_required" }, { status: 400 });
+  }
+
+  const current = normalizeAppState(c.app.status) ?? String(c.app.status);
+  if (!["submitted", "admin_screened"].includes(current)) {
+    return NextResponse.json(
+      { ok: false, error: "bad_state", from: current, needs: "submitted|admin_screened" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const review = await recordReview(c.db, {
+      firmId: c.firmId,
+      appId: c.appKey,
+      reviewerUserId: c.uidStr,
+      decision,
+      notes,
+    });
+
+    const now = new Date();
+    const apps = c.db.collection("applications");
+    await apps.updateOne(c.appFilter, {
+      $push: { timeline: { at: now, by: c.uidStr, event: `review.${decision}`, meta: { reviewId: review._id } } } as any,
+      $set: { updatedAt: now },
+    });
+
+    let autoRejected = false;
+    if (decision === "reject") {
+      const [policy, reviews] = await Promise.all([
+        loadApprovalPolicy(c.db, c.firmId),
+        listReviews(c.db, c.appKey),
+      ]);
+      if (shouldAutoReject(policy, reviews)) {
+        const res = await transitionApplication(c.db, {
+          app: c.app,
+          steps: { action: "reject", role: "system" },
+          by: SYSTEM_ACTOR,
+          firmId: c.firmId,
+          timeline: [
+            { at: now, by: SYSTEM_ACTOR, event: "decision.auto_reject", meta: { threshold: policy.autoRejectThreshold } },
+          ],
+          meta: { auto: true },
+          now,
+        });
+        if (res.ok) {
+          autoRejected = true;
+          await recordApproval(c.db, {
+            firmId: c.firmId,
+            appId: c.appKey,
+            approverUserId: SYSTEM_ACTOR,
+            decision: "reject",
+            notes: `${policy.autoRejectThreshold} reviewer(s) recommended rejection`,
+          });
+        }
+      }
+    }
+
+    return NextResponse.json({ ok: true, review: reviewToWire(review), autoRejected });
+  } catch (err) {
+    console.error("[reviews] POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
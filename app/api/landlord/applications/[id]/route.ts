@@ -4,6 +4,14 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { ObjectId, type Filter } from "mongodb";
+import {
+  MASKED,
+  hasRecommendation,
+  loadBlindReview,
+  maskedFields,
+  maskedQuestionIds,
+  memberAliases,
+} from "@/lib/applications/blindReview";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -283,6 +291,32 @@ function deriveAnswersByMemberAndSection(
   return out;
 }
 
+/* ---------- Blind review ---------- */
+
+/** answersByMember with hidden answers replaced and, when names are hidden, emails aliased */
+function maskAnswersByMember(
+  answersByMember: Record<string, any> | undefined,
+  hiddenQuestionIds: Set<string>,
+  aliases: Map<string, string> | null
+) {
+  if (!answersByMember || typeof answersByMember !== "object") return answersByMember;
+  const out: Record<string, any> = {};
+  for (const [key, bucket] of Object.entries<any>(answersByMember)) {
+    const answers = bucket?.answers && typeof bucket.answers === "object" ? bucket.answers : {};
+    out[key] = {
+      ...bucket,
+      email: aliases ? aliases.get(key) ?? aliases.get(String(bucket?.email ?? "").toLowerCase()) ?? MASKED : bucket?.email,
+      answers: Object.fromEntries(
+        Object.entries(answers).map(([qid, v]) => [qid, hiddenQuestionIds.has(qid) ? MASKED : v])
+      ),
+    };
+  }
+  return out;
+}
+
+/** Timeline meta can carry invitee emails and names */
+const IDENTITY_META_KEYS = new Set(["email", "emails", "name", "fullName", "to", "invitee", "inviteeEmail"]);
+
 /* ---------- Normalizers for countersign & plan ---------- */
 function normalizeCountersign(raw: any) {
   if (!raw) return null;
@@ -375,6 +409,7 @@ export async function GET(
           _id: 1,
           firmId: 1,
           name: 1,
+          version: 1,
           sections: 1,
           questions: 1,
           qualifications: 1,
@@ -383,6 +418,16 @@ export async function GET(
     );
     if (!form) throw new HttpError(400, "form_not_found");
 
+    // Show the version the household answered, not the current head
+    const pinnedVersion = app.formVersion != null ? Number(app.formVersion) : null;
+    const frozen =
+      pinnedVersion != null && pinnedVersion !== Number(form.version ?? 1)
+        ? await db
+            .collection("application_form_versions")
+            .findOne({ formId: String(form._id), version: pinnedVersion })
+        : null;
+    const formContent: any = frozen ?? form;
+
     // Firm authorization (form-owned or application-owned)
     const owningFirmId = form.firmId || app.firmId;
     if (owningFirmId && String(owningFirmId) !== String(firm.firmId)) {
@@ -390,8 +435,8 @@ export async function GET(
     }
 
     // Build section + question maps
-    const sectionsArray: any[] = Array.isArray(form.sections) ? form.sections : [];
-    const questionsArray: any[] = Array.isArray(form.questions) ? form.questions : [];
+    const sectionsArray: any[] = Array.isArray(formContent.sections) ? formContent.sections : [];
+    const questionsArray: any[] = Array.isArray(formContent.questions) ? formContent.questions : [];
 
     const sectionTitleById: Record<string, string> = {};
     for (const s of sectionsArray) {
@@ -417,25 +462,38 @@ export async function GET(
       };
     }
 
+    // Blind review: hide protected-class signals until they're revealed
+    const blind = await loadBlindReview(db, String(firm.firmId));
+    const masked = maskedFields(blind, app);
+    const hiddenQuestionIds = maskedQuestionIds(questionsArray, masked);
+    const aliases = masked.includes("names") ? memberAliases(app) : null;
+    const answersSource = masked.length
+      ? maskAnswersByMember(app.answersByMember, hiddenQuestionIds, aliases)
+      : app.answersByMember;
+
     // Membership map for canonical userId keys
     const householdId = app.householdId ? String(app.householdId) : null;
     const m2u = await buildMembershipIdToUserIdMap(db, householdId);
 
     // Normalize members
     const members = Array.isArray(app.members)
-      ? app.members.map((m: any) => ({
-          userId: m.userId ? String(m.userId) : undefined,
-          email: String(m.email || "").toLowerCase(),
-          role: String(m.role || "co_applicant"),
-          state: m.state ?? undefined,
-          joinedAt: toISO(m.joinedAt),
-          name: m.name ?? undefined,
-        }))
+      ? app.members.map((m: any) => {
+          const email = String(m.email || "").toLowerCase();
+          const alias = aliases ? aliases.get(m.userId ? String(m.userId) : email) ?? MASKED : null;
+          return {
+            userId: m.userId ? String(m.userId) : undefined,
+            email: alias ?? email,
+            role: String(m.role || "co_applicant"),
+            state: m.state ?? undefined,
+            joinedAt: toISO(m.joinedAt),
+            name: alias ?? m.name ?? undefined,
+          };
+        })
       : [];
 
     // Answers (label-keyed by member)
     const answersByMemberUserId = rekeyAnswersByMemberToUserId(
-      app.answersByMember,
+      answersSource,
       m2u,
       questionLabelById
     );
@@ -448,7 +506,7 @@ export async function GET(
 
     // Member + section grouping
     const answersByMemberSections = deriveAnswersByMemberAndSection(
-      app.answersByMember,
+      answersSource,
       m2u,
       questionMetaById
     );
@@ -475,7 +533,10 @@ export async function GET(
             at: toISO(t.at),
             by: t.by ? String(t.by) : undefined,
             event: String(t.event || "event"),
-            meta: t.meta ?? undefined,
+            meta:
+              aliases && t.meta && typeof t.meta === "object"
+                ? Object.fromEntries(Object.entries(t.meta).filter(([k]) => !IDENTITY_META_KEYS.has(k)))
+                : t.meta ?? undefined,
           }))
         : [],
       building: app.building ?? null,
@@ -484,15 +545,24 @@ export async function GET(
 
       countersign,
       paymentPlan,
+
+      // masked fields and whether they can be revealed yet
+      blindReview: {
+        enabled: blind.enabled,
+        masked,
+        canReveal: masked.length > 0 && (await hasRecommendation(db, String(app._id))),
+      },
     };
 
     const formLite = {
       id: String(form._id ?? form.id),
-      name: String(form.name || "Untitled"),
+      name: String(formContent.name || form.name || "Untitled"),
+      version: Number(formContent.version ?? form.version ?? 1),
+      latestVersion: Number(form.version ?? 1),
       sections: sectionsArray,
       questions: questionsArray,
-      qualifications: Array.isArray(form.qualifications)
-        ? form.qualifications
+      qualifications: Array.isArray(formContent.qualifications)
+        ? formContent.qualifications
         : [],
     };
 
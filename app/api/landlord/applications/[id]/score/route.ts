@@ -0,0 +1,163 @@
+// app/api/landlord/applications/[id]/score/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { ApplicationScoreDoc } from "@/lib/models";
+import { computeApplicationScore, ensureApplicationScore } from "@/lib/applications/scorecard";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ───────────────── helpers ───────────────── */
+function toStringId(v: any) {
+  if (!v) return "";
+  if (typeof v === "string") return v;
+  try {
+    return v?.toHexString ? v.toHexString() : String(v);
+  } catch {
+    return String(v);
+  }
+}
+function isHex24(s: string) {
+  return /^[0-9a-fA-F]{24}$/.test(s);
+}
+async function getParamsId(
+  req: NextRequest,
+  ctx: { params?: { id: string } | Promise<{ id: string }> }
+) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  return segs[segs.length - 2] || "";
+}
+function pickUserId(user: unknown): string {
+  const u = user as any;
+  return toStringId(
+    u?._id ?? u?.id ?? u?.userId ?? u?.sub ?? u?.uid ?? u?.email ?? ""
+  );
+}
+
+/** Application → firm (via form) → caller must be an active member */
+async function loadContext(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+
+  const db = await getDb();
+  const { ObjectId } = await import("mongodb");
+
+  const appId = await getParamsId(req, ctx);
+  if (!appId) {
+    return { error: NextResponse.json({ ok: false, error: "bad_application_id" }, { status: 400 }) };
+  }
+
+  const appFilter = isHex24(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any);
+  const app = await db.collection("applications").findOne(appFilter, { projection: { _id: 1, formId: 1 } });
+  if (!app) {
+    return { error: NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 }) };
+  }
+
+  const formKey = String(app.formId);
+  const form = await db.collection("application_forms").findOne(
+    isHex24(formKey) ? { _id: new ObjectId(formKey) } : ({ _id: formKey } as any),
+    { projection: { firmId: 1 } }
+  );
+  if (!form?.firmId) {
+    return { error: NextResponse.json({ ok: false, error: "form_or_firm_missing" }, { status: 400 }) };
+  }
+
+  const uidStr = pickUserId(user);
+  const userIdOr = ObjectId.isValid(uidStr)
+    ? [{ userId: uidStr }, { userId: new ObjectId(uidStr) }]
+    : [{ userId: uidStr }];
+  const membership = await db
+    .collection("firm_memberships")
+    .findOne({ firmId: String(form.firmId), active: true, $or: userIdOr }, { projection: { _id: 1 } });
+  if (!membership) {
+    return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+  }
+
+  return { db, appKey: toStringId(app._id), uidStr };
+}
+
+function scoreToWire(s: ApplicationScoreDoc) {
+  return {
+    id: s._id,
+    score: s.score,
+    result: s.result,
+    flags: s.flags,
+    incomeToRent: s.incomeToRent,
+    components: s.components,
+    inputs: s.inputs,
+    criteria: s.criteria,
+    criteriaVersion: s.criteriaVersion,
+    trigger: s.trigger,
+    computedAt: s.computedAt,
+  };
+}
+
+async function history(db: any, appKey: string) {
+  const rows: ApplicationScoreDoc[] = await db
+    .collection("application_scores")
+    .find({ applicationId: appKey }, { projection: { inputs: 0, criteria: 0, components: 0 } })
+    .sort({ computedAt: -1 })
+    .limit(10)
+    .toArray();
+  return rows.map((r) => ({
+    id: r._id,
+    score: r.score,
+    result: r.result,
+    criteriaVersion: r.criteriaVersion,
+    trigger: r.trigger,
+    computedAt: r.computedAt,
+  }));
+}
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/score
+ * Latest score (recomputed if stale) plus the last few scores
+ * =======================================================================
+ */
+export async function GET(
+  req: NextRequest,
+  ctx: { params: { id: string } } | { params: Promise<{ id: string }> }
+) {
+  const c = await loadContext(req, ctx);
+  if ("error" in c) return c.error;
+
+  try {
+    const score = await ensureApplicationScore(c.db, c.appKey, c.uidStr);
+    if (!score) return NextResponse.json({ ok: false, error: "form_or_firm_missing" }, { status: 400 });
+    return NextResponse.json({ ok: true, score: scoreToWire(score), history: await history(c.db, c.appKey) });
+  } catch (err) {
+    console.error("[score] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/landlord/applications/:id/score
+ * Force a recompute with the firm's current criteria
+ * =======================================================================
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: { id: string } } | { params: Promise<{ id: string }> }
+) {
+  const c = await loadContext(req, ctx);
+  if ("error" in c) return c.error;
+
+  try {
+    const score = await computeApplicationScore(c.db, c.appKey, { trigger: "recompute", by: c.uidStr });
+    if (!score) return NextResponse.json({ ok: false, error: "form_or_firm_missing" }, { status: 400 });
+    return NextResponse.json({ ok: true, score: scoreToWire(score), history: await history(c.db, c.appKey) });
+  } catch (err) {
+    console.error("[score] POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+// app/api/landlord/applications/[id]/screening/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { AuditLogDoc, ScreeningConsentDoc, ScreeningReportDoc } from "@/lib/models";
+import { reportToWire } from "@/lib/applications/screening";
+import { MASKED, loadBlindReview, maskedFields, memberAliases } from "@/lib/applications/blindReview";
+import { loadReviewerContext } from "../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/applications/:id/screening
+ *   → { reports: [{ ..., email, result }], consents: [{ userId, email, fullName, acceptedAt, checks }] }
+ * Consumer report contents, so every read is audit-logged. Names and emails
+ * follow blind review like the rest of the application.
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadReviewerContext(id);
+  if ("error" in c) return c.error;
+
+  try {
+    const [reports, consents] = await Promise.all([
+      c.db
+        .collection<ScreeningReportDoc>("screening_reports")
+        .find({ applicationId: c.appKey })
+        .sort({ requestedAt: -1 })
+        .limit(200)
+        .toArray(),
+      c.db
+        .collection<ScreeningConsentDoc>("screening_consents")
+        .find({ applicationId: c.appKey })
+        .sort({ acceptedAt: -1 })
+        .limit(50)
+        .toArray(),
+    ]);
+
+    const emails = new Map<string, string>();
+    for (const [userId, bucket] of Object.entries<any>(c.app.answersByMember ?? {})) {
+      if (bucket?.email) emails.set(userId, String(bucket.email));
+    }
+    for (const m of Array.isArray(c.app.members) ? c.app.members : []) {
+      if (m?.userId && m?.email && !emails.has(String(m.userId))) emails.set(String(m.userId), String(m.email));
+    }
+
+    const namesHidden = maskedFields(await loadBlindReview(c.db, c.firmId), c.app).includes("names");
+    const aliases = namesHidden ? memberAliases(c.app) : null;
+    const emailOf = (userId: string) => (aliases ? aliases.get(userId) ?? MASKED : emails.get(userId) ?? null);
+
+    if (reports.length) {
+      const entry: AuditLogDoc = {
+        _id: `al_${crypto.randomUUID()}`,
+        orgId: c.firmId,
+        actorUserId: c.uidStr,
+        entity: { type: "application", id: c.appKey },
+        action: "screening.view",
+        meta: { reportIds: reports.map((r) => String(r._id)) },
+        at: new Date(),
+      };
+      await c.db.collection<AuditLogDoc>("audit_log").insertOne(entry);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      reports: reports.map((r) => ({ ...reportToWire(r, { withResult: true }), email: emailOf(r.userId) })),
+      consents: consents.map((x) => ({
+        userId: x.userId,
+        email: emailOf(x.userId),
+        fullName: namesHidden ? MASKED : x.fullName,
+        acceptedAt: x.acceptedAt,
+        disclosureVersion: x.disclosureVersion,
+        checks: x.checks,
+      })),
+    });
+  } catch (err) {
+    console.error("[screening] reviewer list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
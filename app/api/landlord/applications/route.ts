@@ -3,6 +3,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { ObjectId, type Filter } from "mongodb";
+import {
+  MASKED,
+  loadBlindReview,
+  maskedFields,
+  memberAliases,
+  type BlindReviewSettings,
+} from "@/lib/applications/blindReview";
+import { unitKeyOf, unitLabelOf } from "@/lib/applications/competition";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -102,6 +110,10 @@ type HouseholdUI = {
   // Optional helpers (not required by UI, but nice to have)
   nextStep?: string | null;
   heldUntil?: string | null;
+  scorecard?: { score: number; result: "pass" | "flag"; incomeToRent: number | null; flags: string[] } | null;
+  unitKey?: string | null;   // same building/unit → same key; competing applications share it
+  unitLabel?: string;
+  rank?: number | null;      // reviewer's rank within the unit
 };
 
 /* ---------- Normalization & formatting helpers ---------- */
@@ -239,8 +251,9 @@ function decodeCursor(s: string | null) {
 
 /* ---------- Firm-scoped data adapters ---------- */
 
-/** Primary path: Mongo, firm-scoped. Falls back to form->firm if apps lack firmId. */
-async function selectViaMongo(desired: number, firmId: string): Promise<HouseholdUI[] | null> {
+/** Primary path: Mongo, firm-scoped. Falls back to form->firm if apps lack firmId.
+ *  Under blind review, member names and emails become "Applicant 1 · primary" until revealed. */
+async function selectViaMongo(desired: number, firmId: string, blind: BlindReviewSettings): Promise<HouseholdUI[] | null> {
   const db = await getDb();
   const apps = db.collection("applications");
   const forms = db.collection("application_forms");
@@ -278,6 +291,10 @@ async function selectViaMongo(desired: number, firmId: string): Promise<Househol
         answersByMember: 1,     // ← synthesize members if needed
         locks: 1,               // ← expose heldUntil if a lock exists
         nextStep: 1,            // ← optional helper
+        scorecard: 1,           // ← cached latest screening score
+        blindReview: 1,         // ← fields revealed under blind review
+        competition: 1,         // ← rank among applications for the same unit
+        unitId: 1,              // ← inventory unit, groups competing applications
       },
     })
     .sort({ submittedAt: -1, createdAt: -1, updatedAt: -1, _id: -1 })
@@ -298,7 +315,13 @@ async function selectViaMongo(desired: number, firmId: string): Promise<Househol
     const submittedAt = toISO(raw.submittedAt ?? raw.createdAt ?? raw.updatedAt);
     const status = normalizeStatus(raw.status);
 
-    const members = synthesizeMembers(raw.members, raw.answersByMember);
+    const namesHidden = maskedFields(blind, raw).includes("names");
+    const aliases = namesHidden ? memberAliases(raw) : null;
+    const members = synthesizeMembers(raw.members, raw.answersByMember).map((m) => {
+      if (!aliases) return m;
+      const alias = aliases.get(String(m.email).toLowerCase()) ?? MASKED;
+      return { ...m, name: alias, email: alias };
+    });
 
     const heldUntil =
       raw?.locks?.holding?.active && raw?.locks?.holding?.until
@@ -315,6 +338,17 @@ async function selectViaMongo(desired: number, firmId: string): Promise<Househol
       members,
       nextStep: raw?.nextStep ?? null,
       heldUntil,
+      scorecard: raw?.scorecard
+        ? {
+            score: Number(raw.scorecard.score ?? 0),
+            result: raw.scorecard.result === "pass" ? "pass" : "flag",
+            incomeToRent: raw.scorecard.incomeToRent ?? null,
+            flags: Array.isArray(raw.scorecard.flags) ? raw.scorecard.flags : [],
+          }
+        : null,
+      unitKey: unitKeyOf(raw),
+      unitLabel: unitLabelOf(raw),
+      rank: typeof raw?.competition?.rank === "number" ? raw.competition.rank : null,
     };
   });
 
@@ -462,7 +496,7 @@ export async function GET(req: NextRequest) {
     const { firmId, firmName, firmSlug } = await resolveFirmForUser(req, user);
 
     let rows: HouseholdUI[] =
-      (await selectViaMongo(desired, firmId)) ??
+      (await selectViaMongo(desired, firmId, await loadBlindReview(await getDb(), firmId))) ??
       (await selectViaPrisma(desired, firmId)) ??
       (await selectViaCollections(desired, firmId)) ??
       [];
@@ -0,0 +1,41 @@
+// app/api/landlord/deposit-interest/run/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { resolveAdminFirmForUser } from "@/app/api/stripe/connect/_shared";
+import { runInterestAnniversaries } from "@/lib/deposit/interestLedger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/landlord/deposit-interest/run
+ * Firm owner/admin: accrue completed deposit-interest years across the firm's
+ * leases and email any anniversary statements that haven't gone out yet.
+ */
+export async function POST() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
+  }
+
+  let firmCtx: { firmId: string; role: string };
+  try {
+    firmCtx = await resolveAdminFirmForUser(user);
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+      { status: e?.status ?? 400 }
+    );
+  }
+
+  try {
+    const db = await getDb();
+    const summary = await runInterestAnniversaries(db, { firmId: firmCtx.firmId });
+    console.log("[deposit-interest] run,", { firmId: firmCtx.firmId, ...summary, failed: summary.failed.length });
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    console.error("[deposit-interest] run failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
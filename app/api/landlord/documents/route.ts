@@ -139,7 +139,8 @@ export async function GET(req: NextRequest) {
 
     const docs = (await db
       .collection<LandlordDocument>("landlord_documents")
-      .find({ firmId: firm.firmId })
+      // Per-lease PDFs rendered from lease templates aren't part of the library
+      .find({ firmId: firm.firmId, generated: null } as any)
       .sort({ createdAt: -1 })
       .limit(200)
       .toArray()) as LandlordDocument[];
@@ -0,0 +1,132 @@
+// app/api/landlord/firm/settings/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { ObjectId } from "mongodb";
+import { resolveAdminFirmForUser } from "@/app/api/stripe/connect/_shared";
+import { normalizeApprovalPolicy, validateApprovalPolicy } from "@/lib/applications/approvals";
+import { normalizeScorecardCriteria, validateScorecardCriteria } from "@/lib/applications/scorecard";
+import { normalizeBlindReview } from "@/lib/applications/blindReview";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function resolveFirm() {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+  try {
+    const firmCtx = await resolveAdminFirmForUser(user);
+    return { user, firmId: firmCtx.firmId };
+  } catch (e: any) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+        { status: e?.status ?? 400 }
+      ),
+    };
+  }
+}
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+function settingsToWire(doc: any) {
+  return {
+    approvalPolicy: normalizeApprovalPolicy(doc?.settings?.approvalPolicy),
+    scorecard: normalizeScorecardCriteria(doc?.settings?.scorecard),
+    blindReview: normalizeBlindReview(doc?.settings?.blindReview),
+    updatedAt: doc?.settings?.updatedAt ?? null,
+  };
+}
+
+/* =======================================================================
+ * GET /api/landlord/firm/settings
+ * =======================================================================
+ */
+export async function GET() {
+  const r = await resolveFirm();
+  if ("error" in r) return r.error;
+
+  try {
+    const db = await getDb();
+    const doc = await db.collection<any>("firms").findOne(firmFilter(r.firmId), {
+      projection: { name: 1, settings: 1 },
+    });
+    if (!doc) return NextResponse.json({ ok: false, error: "firm_not_found" }, { status: 404 });
+    return NextResponse.json({ ok: true, firmId: r.firmId, firmName: doc.name ?? null, settings: settingsToWire(doc) });
+  } catch (err: any) {
+    console.error("[firm-settings] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PUT /api/landlord/firm/settings
+ * Body: { approvalPolicy?: { requireReviewerBeforeApprover, fourEyes, autoRejectThreshold? },
+ *         scorecard?: { minIncomeToRent, countCosignerIncome, incomeQuestionIds?, passScore, weights },
+ *         blindReview?: { enabled } }
+ * Saving scorecard criteria bumps their version so older scores stay attributable
+ * =======================================================================
+ */
+export async function PUT(req: Request) {
+  const r = await resolveFirm();
+  if ("error" in r) return r.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const $set: Record<string, unknown> = {};
+  if (body?.approvalPolicy !== undefined) {
+    const v = validateApprovalPolicy(body.approvalPolicy);
+    if (!v.ok) return NextResponse.json({ ok: false, error: v.error }, { status: 400 });
+    $set["settings.approvalPolicy"] = v.policy;
+  }
+  if (body?.scorecard !== undefined) {
+    const v = validateScorecardCriteria(body.scorecard);
+    if (!v.ok) return NextResponse.json({ ok: false, error: v.error, ...("field" in v && { field: v.field }) }, { status: 400 });
+    $set["settings.scorecard"] = v.criteria;
+  }
+  if (body?.blindReview !== undefined) {
+    if (typeof body.blindReview?.enabled !== "boolean") {
+      return NextResponse.json({ ok: false, error: "bad_blind_review" }, { status: 400 });
+    }
+    $set["settings.blindReview"] = normalizeBlindReview(body.blindReview);
+  }
+  if (!Object.keys($set).length) {
+    return NextResponse.json({ ok: false, error: "nothing_to_update" }, { status: 400 });
+  }
+  $set["settings.updatedAt"] = new Date();
+  $set["settings.updatedBy"] = String((r.user as any)._id);
+
+  try {
+    const db = await getDb();
+    if ($set["settings.scorecard"]) {
+      const cur = await db
+        .collection<any>("firms")
+        .findOne(firmFilter(r.firmId), { projection: { "settings.scorecard.version": 1 } });
+      $set["settings.scorecard"] = {
+        ...($set["settings.scorecard"] as object),
+        version: Number(cur?.settings?.scorecard?.version ?? 0) + 1,
+        updatedAt: $set["settings.updatedAt"],
+        updatedBy: $set["settings.updatedBy"],
+      };
+    }
+    const doc = await db
+      .collection<any>("firms")
+      .findOneAndUpdate(firmFilter(r.firmId), { $set }, { returnDocument: "after", projection: { settings: 1 } });
+    if (!doc) {
+      return NextResponse.json({ ok: false, error: "firm_not_found" }, { status: 404 });
+    }
+    console.log("[firm-settings] updated,", { firmId: r.firmId, keys: Object.keys($set) });
+    return NextResponse.json({ ok: true, settings: settingsToWire(doc) });
+  } catch (err: any) {
+    console.error("[firm-settings] PUT failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+// app/api/landlord/late-fee-policy/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { ObjectId } from "mongodb";
+import { resolveAdminFirmForUser } from "@/app/api/stripe/connect/_shared";
+import {
+  MA_LATE_FEE_GRACE_DAYS,
+  normalizeLateFeePolicy,
+  validateLateFeePolicy,
+} from "@/lib/rent/lateFees";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function resolveFirm() {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+  try {
+    const firmCtx = await resolveAdminFirmForUser(user);
+    return { user, firmId: firmCtx.firmId };
+  } catch (e: any) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+        { status: e?.status ?? 400 }
+      ),
+    };
+  }
+}
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+/* =======================================================================
+ * GET /api/landlord/late-fee-policy
+ * =======================================================================
+ */
+export async function GET() {
+  const r = await resolveFirm();
+  if ("error" in r) return r.error;
+
+  try {
+    const db = await getDb();
+    const doc = await db.collection<any>("firms").findOne(firmFilter(r.firmId), {
+      projection: { lateFeePolicy: 1 },
+    });
+    return NextResponse.json({
+      ok: true,
+      policy: normalizeLateFeePolicy(doc?.lateFeePolicy),
+      minGraceDays: MA_LATE_FEE_GRACE_DAYS,
+    });
+  } catch (err: any) {
+    console.error("[late-fee-policy] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PUT /api/landlord/late-fee-policy
+ * Body: { enabled, graceDays, kind: "flat" | "percent", flatCents?, percentHundredths?, maxCents? }
+ * graceDays below 30 is rejected (MA c.186 §15B(1)(c))
+ * =======================================================================
+ */
+export async function PUT(req: Request) {
+  const r = await resolveFirm();
+  if ("error" in r) return r.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const v = validateLateFeePolicy(body);
+  if (!v.ok) return NextResponse.json({ ok: false, error: v.error }, { status: 400 });
+
+  try {
+    const db = await getDb();
+    const policy = { ...v.policy, updatedAt: new Date(), updatedBy: String((r.user as any)._id) };
+    const res = await db
+      .collection<any>("firms")
+      .updateOne(firmFilter(r.firmId), { $set: { lateFeePolicy: policy } });
+    if (!res.matchedCount) {
+      return NextResponse.json({ ok: false, error: "firm_not_found" }, { status: 404 });
+    }
+    console.log("[late-fee-policy] updated,", { firmId: r.firmId, enabled: policy.enabled, kind: policy.kind });
+    return NextResponse.json({ ok: true, policy });
+  } catch (err: any) {
+    console.error("[late-fee-policy] PUT failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/landlord/late-fees/run/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { resolveAdminFirmForUser } from "@/app/api/stripe/connect/_shared";
+import { runLateFeeAssessment } from "@/lib/rent/lateFees";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/landlord/late-fees/run
+ * Firm owner/admin: assess late fees on every rent month across the firm's
+ * leases that is unpaid past the policy's grace period.
+ */
+export async function POST() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
+  }
+
+  let firmCtx: { firmId: string; role: string };
+  try {
+    firmCtx = await resolveAdminFirmForUser(user);
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+      { status: e?.status ?? 400 }
+    );
+  }
+
+  try {
+    const db = await getDb();
+    const summary = await runLateFeeAssessment(db, { firmId: firmCtx.firmId });
+    console.log("[late-fees] run,", { firmId: firmCtx.firmId, ...summary });
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    console.error("[late-fees] run failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/landlord/lease-templates/[id]/preview/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { LeaseTemplateDoc } from "@/lib/models";
+import { htmlToPdf } from "@/lib/pdf/htmlToPdf";
+import { leaseMergeData, renderLeaseTemplate, SAMPLE_MERGE_DATA } from "@/lib/leases/templates";
+import { resolveTemplateFirm } from "../../_shared";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/lease-templates/[id]/preview
+  return segs[segs.length - 2] || "";
+}
+
+/** Application owned by the firm, via app.firmId or its form's firmId */
+async function loadFirmApp(db: any, appId: string, firmId: string) {
+  const app = await db.collection("applications").findOne(idEq("_id", appId));
+  if (!app) return null;
+  let owner = app.firmId ? String(app.firmId) : "";
+  if (!owner && app.formId) {
+    const form = await db.collection("application_forms").findOne(idEq("_id", app.formId), { projection: { firmId: 1 } });
+    owner = form?.firmId ? String(form.firmId) : "";
+  }
+  return owner === firmId ? app : null;
+}
+
+/**
+ * GET /api/landlord/lease-templates/[id]/preview?appId=&format=pdf|html
+ * Renders with the application's data when appId is given, otherwise with sample values.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveTemplateFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+  const id = await getParamId(req, ctx);
+  const appId = req.nextUrl.searchParams.get("appId");
+  const format = req.nextUrl.searchParams.get("format") === "html" ? "html" : "pdf";
+
+  try {
+    const db = await getDb();
+    const t = (await db.collection<any>("lease_templates").findOne({ _id: id, firmId: r.firmId })) as LeaseTemplateDoc | null;
+    if (!t) return NextResponse.json({ ok: false, error: "template_not_found" }, { status: 404 });
+
+    let data = SAMPLE_MERGE_DATA;
+    if (appId) {
+      const app = await loadFirmApp(db, appId, r.firmId);
+      if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
+      data = await leaseMergeData(db, app, { firmId: r.firmId });
+    }
+    const rendered = renderLeaseTemplate(t.html, data);
+
+    if (format === "html") {
+      return new NextResponse(rendered.html, {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; img-src data: https:;",
+          "X-Missing-Fields": rendered.missing.join(","),
+        },
+      });
+    }
+    const pdf = htmlToPdf(rendered.html, { title: t.name, footer: appId ? null : "Preview with sample data" });
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${t.name.replace(/[^\w.-]+/g, "_")}_preview.pdf"`,
+        "X-Missing-Fields": rendered.missing.join(","),
+      },
+    });
+  } catch (err: any) {
+    console.error("[lease-templates] preview failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+// app/api/landlord/lease-templates/[id]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import type { LeaseTemplateDoc } from "@/lib/models";
+import { validateTemplateInput } from "@/lib/leases/templates";
+import { resolveTemplateFirm, templateToWire } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/lease-templates/[id]
+  return segs[segs.length - 1] || "";
+}
+
+async function loadDefaultId(db: any, firmId: string) {
+  const firm = await db.collection("firms").findOne(firmFilter(firmId), { projection: { settings: 1 } });
+  return firm?.settings?.lease?.templateId ? String(firm.settings.lease.templateId) : null;
+}
+
+/* =======================================================================
+ * GET /api/landlord/lease-templates/[id]
+ * =======================================================================
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveTemplateFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+  const id = await getParamId(req, ctx);
+
+  try {
+    const db = await getDb();
+    const t = (await db.collection<any>("lease_templates").findOne({ _id: id, firmId: r.firmId })) as LeaseTemplateDoc | null;
+    if (!t) return NextResponse.json({ ok: false, error: "template_not_found" }, { status: 404 });
+    return NextResponse.json({ ok: true, template: templateToWire(t, await loadDefaultId(db, r.firmId), true) });
+  } catch (err: any) {
+    console.error("[lease-templates] GET one failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PATCH /api/landlord/lease-templates/[id]
+ * Body: { name?, html?, archived?, makeDefault? }. Owners/admins only.
+ * Archiving the firm default also clears the default.
+ * =======================================================================
+ */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveTemplateFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const id = await getParamId(req, ctx);
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const templates = db.collection<any>("lease_templates");
+    const t = (await templates.findOne({ _id: id, firmId: r.firmId })) as LeaseTemplateDoc | null;
+    if (!t) return NextResponse.json({ ok: false, error: "template_not_found" }, { status: 404 });
+
+    const now = new Date();
+    const set: any = { updatedAt: now, updatedBy: r.uid };
+    if (body?.name !== undefined || body?.html !== undefined) {
+      const v = validateTemplateInput({ name: body?.name ?? t.name, html: body?.html ?? t.html });
+      if (!v.ok) {
+        return NextResponse.json({ ok: false, error: v.error, ...("unknown" in v && { unknown: v.unknown }) }, { status: 400 });
+      }
+      Object.assign(set, { name: v.name, html: v.html, fields: v.fields });
+    }
+    if (typeof body?.archived === "boolean") set.archived = body.archived;
+
+    const archiving = set.archived === true || (t.archived && set.archived !== false);
+    if (body?.makeDefault === true && archiving) {
+      return NextResponse.json({ ok: false, error: "archived_template" }, { status: 409 });
+    }
+
+    await templates.updateOne({ _id: id, firmId: r.firmId }, { $set: set });
+
+    const firms = db.collection<any>("firms");
+    if (body?.makeDefault === true) {
+      await firms.updateOne(firmFilter(r.firmId), { $set: { "settings.lease.templateId": id } });
+    } else if (body?.makeDefault === false || set.archived === true) {
+      await firms.updateOne(
+        { ...firmFilter(r.firmId), "settings.lease.templateId": id },
+        { $set: { "settings.lease.templateId": null } }
+      );
+    }
+
+    const after = (await templates.findOne({ _id: id })) as LeaseTemplateDoc;
+    return NextResponse.json({ ok: true, template: templateToWire(after, await loadDefaultId(db, r.firmId), true) });
+  } catch (err: any) {
+    console.error("[lease-templates] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
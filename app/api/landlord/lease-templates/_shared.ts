@@ -0,0 +1,62 @@
+// app/api/landlord/lease-templates/_shared.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { resolveAdminFirmForUser, toStringId } from "@/app/api/stripe/connect/_shared";
+import type { LeaseTemplateDoc } from "@/lib/models";
+
+/**
+ * Firm for the caller. Managing templates is for owners/admins; reading them
+ * (the handoff picker) is open to any active member, narrowed by ?firmId when
+ * the user belongs to several firms.
+ */
+export async function resolveTemplateFirm(req: Request, opts: { admin: boolean }) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+
+  if (opts.admin) {
+    try {
+      const firmCtx = await resolveAdminFirmForUser(user);
+      return { user, uid: toStringId((user as any)._id), firmId: firmCtx.firmId };
+    } catch (e: any) {
+      return {
+        error: NextResponse.json(
+          { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+          { status: e?.status ?? 400 }
+        ),
+      };
+    }
+  }
+
+  const db = await getDb();
+  const uid = toStringId((user as any)._id);
+  const userIdOr = ObjectId.isValid(uid) ? [{ userId: uid }, { userId: new ObjectId(uid) }] : [{ userId: uid }];
+  const firmIdParam = new URL(req.url).searchParams.get("firmId");
+  const rows = await db
+    .collection("firm_memberships")
+    .find({ active: true, $or: userIdOr, ...(firmIdParam ? { firmId: firmIdParam } : {}) }, { projection: { firmId: 1 } })
+    .limit(2)
+    .toArray();
+  if (!rows.length) {
+    return { error: NextResponse.json({ ok: false, error: "no_firm_membership" }, { status: 403 }) };
+  }
+  if (rows.length > 1) {
+    return { error: NextResponse.json({ ok: false, error: "ambiguous_firm" }, { status: 400 }) };
+  }
+  return { user, uid, firmId: String(rows[0].firmId) };
+}
+
+export function templateToWire(t: LeaseTemplateDoc, defaultId: string | null, withHtml = false) {
+  return {
+    id: String(t._id),
+    name: t.name,
+    fields: t.fields ?? [],
+    archived: !!t.archived,
+    isDefault: defaultId === String(t._id),
+    updatedAt: t.updatedAt,
+    ...(withHtml ? { html: t.html } : {}),
+  };
+}
@@ -0,0 +1,91 @@
+// app/api/landlord/lease-templates/route.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import type { LeaseTemplateDoc } from "@/lib/models";
+import { MERGE_FIELDS, validateTemplateInput } from "@/lib/leases/templates";
+import { resolveTemplateFirm, templateToWire } from "./_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+/* =======================================================================
+ * GET /api/landlord/lease-templates
+ * Active templates for the caller's firm, the firm default, and the merge field catalog
+ * =======================================================================
+ */
+export async function GET(req: Request) {
+  const r = await resolveTemplateFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+
+  try {
+    const db = await getDb();
+    const firm = await db.collection<any>("firms").findOne(firmFilter(r.firmId), { projection: { settings: 1 } });
+    const defaultId = firm?.settings?.lease?.templateId ? String(firm.settings.lease.templateId) : null;
+    const rows = (await db
+      .collection<any>("lease_templates")
+      .find({ firmId: r.firmId, archived: { $ne: true } })
+      .sort({ updatedAt: -1 })
+      .toArray()) as LeaseTemplateDoc[];
+    return NextResponse.json({
+      ok: true,
+      templates: rows.map((t) => templateToWire(t, defaultId)),
+      defaultTemplateId: defaultId,
+      fields: MERGE_FIELDS,
+    });
+  } catch (err: any) {
+    console.error("[lease-templates] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/landlord/lease-templates
+ * Body: { name, html, makeDefault? }. Owners/admins only.
+ * =======================================================================
+ */
+export async function POST(req: Request) {
+  const r = await resolveTemplateFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const v = validateTemplateInput(body ?? {});
+  if (!v.ok) {
+    return NextResponse.json({ ok: false, error: v.error, ...("unknown" in v && { unknown: v.unknown }) }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const now = new Date();
+    const doc: LeaseTemplateDoc = {
+      _id: `ltpl_${crypto.randomBytes(9).toString("base64url")}`,
+      firmId: r.firmId,
+      name: v.name,
+      html: v.html,
+      fields: v.fields,
+      archived: false,
+      createdBy: r.uid,
+      createdAt: now,
+      updatedBy: r.uid,
+      updatedAt: now,
+    };
+    await db.collection<any>("lease_templates").insertOne(doc);
+    if (body?.makeDefault === true) {
+      await db.collection<any>("firms").updateOne(firmFilter(r.firmId), { $set: { "settings.lease.templateId": doc._id } });
+    }
+    return NextResponse.json({ ok: true, template: templateToWire(doc, body?.makeDefault === true ? doc._id : null, true) });
+  } catch (err: any) {
+    console.error("[lease-templates] POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,199 @@
+// app/api/landlord/leases/[id]/deposit-interest/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { DepositInterestEntryDoc } from "@/lib/models";
+import {
+  creditInterestToRent,
+  sendInterestStatement,
+  syncInterestLedger,
+} from "@/lib/deposit/interestLedger";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+function toStringId(v: any) {
+  try {
+    return typeof v === "string" ? v : v?.toHexString?.() ?? String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/leases/[id]/deposit-interest
+  return segs[segs.length - 2] || "";
+}
+
+/** Lease + firm membership check, same rules as /api/landlord/leases/[id] */
+async function loadLeaseForUser(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+
+  const id = await getParamId(req, ctx);
+  if (!id) return { error: NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 }) };
+
+  const db = await getDb();
+  const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id));
+  if (!lease) return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+
+  const firmId = String(lease.firmId);
+  const uid = toStringId((user as any)._id);
+  const uidOid = ObjectId.isValid(uid) ? new ObjectId(uid) : null;
+  const membership = await db.collection<any>("firm_memberships").findOne(
+    { firmId, active: true, $or: uidOid ? [{ userId: uid }, { userId: uidOid }] : [{ userId: uid }] },
+    { projection: { _id: 1, role: 1 } }
+  );
+  if (!membership) return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+
+  return { db, user, uid, lease, firmId, leaseId: toStringId(lease._id) };
+}
+
+function toWire(e: DepositInterestEntryDoc) {
+  return {
+    ...e,
+    _id: String(e._id),
+    statementUrl: `/api/receipts/deposit-interest/${encodeURIComponent(String(e._id))}`,
+  };
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/landlord/leases/[id]/deposit-interest
+   Syncs completed anniversaries into the ledger, returns entries + running accrual
+───────────────────────────────────────────────────────────── */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, lease } = r;
+
+  try {
+    const { facts, entries, current } = await syncInterestLedger(db, lease);
+    return NextResponse.json({
+      ok: true,
+      deposit: {
+        principalCents: facts.principalCents,
+        receivedDate: facts.receivedDate,
+        rateHundredths: facts.rateHundredths,
+        bank: facts.bank,
+      },
+      entries: entries.map(toWire),
+      current,
+    });
+  } catch (err: any) {
+    console.error("[deposit-interest] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   PATCH /api/landlord/leases/[id]/deposit-interest
+   Body: { op, entryId, ... }
+     send_statement      {}
+     record_disposition  { method: "paid" | "credited_to_rent", reference? }
+───────────────────────────────────────────────────────────── */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, uid, lease, leaseId } = r;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+  const op = String(body?.op || "");
+  const entryId = String(body?.entryId || "");
+  if (!op || !entryId) {
+    return NextResponse.json({ ok: false, error: "missing_op_or_entry" }, { status: 400 });
+  }
+
+  try {
+    const col = db.collection<DepositInterestEntryDoc>("deposit_interest_ledger");
+    const entry = await col.findOne({ _id: entryId, leaseId });
+    if (!entry) return NextResponse.json({ ok: false, error: "entry_not_found" }, { status: 404 });
+
+    if (op === "send_statement") {
+      const res = await sendInterestStatement(db, entry);
+      if (!res.ok) {
+        return NextResponse.json({ ok: false, error: res.error }, { status: 502 });
+      }
+      await pushAppTimeline(db, lease.appId, uid, "deposit_interest.statement_sent", {
+        leaseId,
+        year: entry.year,
+        recipients: res.sent.length,
+      });
+    } else if (op === "record_disposition") {
+      if (entry.status !== "accrued") {
+        return NextResponse.json({ ok: false, error: "already_settled" }, { status: 409 });
+      }
+      const method = String(body.method || "");
+      if (method !== "paid" && method !== "credited_to_rent") {
+        return NextResponse.json({ ok: false, error: "bad_method" }, { status: 400 });
+      }
+
+      let appliedCents: number = entry.interestCents;
+      let chargeKey: string | null = null;
+      if (method === "credited_to_rent") {
+        const credit = await creditInterestToRent(db, entry);
+        if (!credit.appliedCents) {
+          return NextResponse.json({ ok: false, error: "no_open_rent" }, { status: 409 });
+        }
+        appliedCents = credit.appliedCents;
+        chargeKey = credit.chargeKey;
+      }
+
+      const now = new Date();
+      await col.updateOne(
+        { _id: entry._id },
+        {
+          $set: {
+            status: method,
+            disposition: {
+              method,
+              reference: body.reference ? String(body.reference) : null,
+              chargeKey,
+              appliedCents,
+              at: now,
+              recordedBy: uid,
+            },
+            updatedAt: now,
+          },
+        }
+      );
+      await pushAppTimeline(db, lease.appId, uid, `deposit_interest.${method}`, {
+        leaseId,
+        year: entry.year,
+        interestCents: entry.interestCents,
+        appliedCents,
+      });
+    } else {
+      return NextResponse.json({ ok: false, error: "unknown_op" }, { status: 400 });
+    }
+
+    const fresh = await col.findOne({ _id: entry._id });
+    return NextResponse.json({ ok: true, entry: fresh ? toWire(fresh) : null });
+  } catch (err: any) {
+    console.error("[deposit-interest] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+async function pushAppTimeline(db: any, appId: any, by: string, event: string, meta: Record<string, unknown>) {
+  if (!appId) return;
+  await db.collection("applications").updateOne(idEq("_id", appId), {
+    $push: { timeline: { at: new Date(), by, event, meta } },
+  });
+}
@@ -0,0 +1,133 @@
+// app/api/landlord/leases/[id]/late-fees/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { LateFeeDoc } from "@/lib/models";
+import { assessLateFees, loadFirmLateFeePolicy, waiveLateFee } from "@/lib/rent/lateFees";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+function toStringId(v: any) {
+  try {
+    return typeof v === "string" ? v : v?.toHexString?.() ?? String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/leases/[id]/late-fees
+  return segs[segs.length - 2] || "";
+}
+
+/** Lease + firm membership check, same rules as /api/landlord/leases/[id] */
+async function loadLeaseForUser(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+
+  const id = await getParamId(req, ctx);
+  if (!id) return { error: NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 }) };
+
+  const db = await getDb();
+  const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id));
+  if (!lease) return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+
+  const firmId = String(lease.firmId);
+  const uid = toStringId((user as any)._id);
+  const uidOid = ObjectId.isValid(uid) ? new ObjectId(uid) : null;
+  const membership = await db.collection<any>("firm_memberships").findOne(
+    { firmId, active: true, $or: uidOid ? [{ userId: uid }, { userId: uidOid }] : [{ userId: uid }] },
+    { projection: { _id: 1, role: 1 } }
+  );
+  if (!membership) return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+
+  return { db, user, uid, lease, firmId, leaseId: toStringId(lease._id) };
+}
+
+function toWire(f: LateFeeDoc) {
+  return {
+    _id: String(f._id),
+    code: f.code,
+    rentCode: f.rentCode,
+    rentDueDate: f.rentDueDate,
+    rentOpenCents: f.rentOpenCents,
+    daysLate: f.daysLate,
+    amountCents: f.amountCents,
+    assessedOn: f.assessedOn,
+    status: f.status,
+    waiver: f.waiver ?? null,
+    audit: f.audit ?? [],
+  };
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/landlord/leases/[id]/late-fees
+   Assesses anything newly past grace, returns the firm policy + fees
+───────────────────────────────────────────────────────────── */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, lease, firmId, leaseId } = r;
+
+  try {
+    const policy = await loadFirmLateFeePolicy(db, firmId);
+    const app = lease.appId ? await db.collection("applications").findOne(idEq("_id", lease.appId)) : null;
+    const { fees } = app ? await assessLateFees(db, app, { firmId, leaseId }) : { fees: [] as LateFeeDoc[] };
+    return NextResponse.json({ ok: true, policy, fees: fees.map(toWire) });
+  } catch (err: any) {
+    console.error("[late-fees] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   PATCH /api/landlord/leases/[id]/late-fees
+   Body: { op: "waive", feeId, reason }
+───────────────────────────────────────────────────────────── */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, uid, lease, leaseId } = r;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+  const op = String(body?.op || "");
+  const feeId = String(body?.feeId || "");
+  const reason = String(body?.reason || "").trim();
+  if (op !== "waive") return NextResponse.json({ ok: false, error: "unknown_op" }, { status: 400 });
+  if (!feeId) return NextResponse.json({ ok: false, error: "missing_fee" }, { status: 400 });
+  if (reason.length < 3) return NextResponse.json({ ok: false, error: "reason_required" }, { status: 400 });
+
+  try {
+    const col = db.collection<LateFeeDoc>("late_fees");
+    const fee = await col.findOne({ _id: feeId, appId: String(lease.appId ?? "") });
+    if (!fee) return NextResponse.json({ ok: false, error: "fee_not_found" }, { status: 404 });
+
+    const res = await waiveLateFee(db, fee, { by: uid, reason });
+    if (!res.ok) return NextResponse.json({ ok: false, error: "already_waived" }, { status: 409 });
+    console.log("[late-fees] waived,", { leaseId, feeId, by: uid });
+
+    const fresh = await col.findOne({ _id: fee._id });
+    return NextResponse.json({ ok: true, fee: fresh ? toWire(fresh) : null });
+  } catch (err: any) {
+    console.error("[late-fees] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
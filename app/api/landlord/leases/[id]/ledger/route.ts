@@ -0,0 +1,109 @@
+// app/api/landlord/leases/[id]/ledger/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { syncLedger } from "@/lib/ledger/journal";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+function toStringId(v: any) {
+  try {
+    return typeof v === "string" ? v : v?.toHexString?.() ?? String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/leases/[id]/ledger
+  return segs[segs.length - 2] || "";
+}
+
+/** Lease + firm membership check, same rules as /api/landlord/leases/[id] */
+async function loadLeaseForUser(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+
+  const id = await getParamId(req, ctx);
+  if (!id) return { error: NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 }) };
+
+  const db = await getDb();
+  const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id));
+  if (!lease) return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+
+  const firmId = String(lease.firmId);
+  const uid = toStringId((user as any)._id);
+  const uidOid = ObjectId.isValid(uid) ? new ObjectId(uid) : null;
+  const membership = await db.collection<any>("firm_memberships").findOne(
+    { firmId, active: true, $or: uidOid ? [{ userId: uid }, { userId: uidOid }] : [{ userId: uid }] },
+    { projection: { _id: 1, role: 1 } }
+  );
+  if (!membership) return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+
+  return { db, user, uid, lease, firmId, leaseId: toStringId(lease._id) };
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/landlord/leases/[id]/ledger
+   Per-charge and per-bucket balances plus the journal, from the same
+   ledger the tenant's charges/payments screens read
+───────────────────────────────────────────────────────────── */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, lease, firmId, leaseId } = r;
+
+  try {
+    const app = lease.appId ? await db.collection("applications").findOne(idEq("_id", lease.appId)) : null;
+    if (!app) return NextResponse.json({ ok: false, error: "application_not_found" }, { status: 404 });
+
+    const { charges, entries, balances } = await syncLedger(db, app, { firmId });
+
+    return NextResponse.json({
+      ok: true,
+      leaseId,
+      charges: charges.map((c) => {
+        const b = balances.byCharge.get(c.chargeKey);
+        return {
+          chargeKey: c.chargeKey,
+          bucket: c.bucket,
+          code: c.code,
+          label: c.label ?? c.code,
+          dueDate: c.dueDate ?? null,
+          amountCents: c.amountCents,
+          postedCents: b?.postedCents ?? 0,
+          pendingCents: b?.pendingCents ?? 0,
+          waivedCents: (b?.waivedCents ?? 0) + (b?.creditedCents ?? 0),
+          refundedCents: b?.refundedCents ?? 0,
+          remainingCents: b?.remainingCents ?? c.amountCents,
+        };
+      }),
+      buckets: balances.byBucket,
+      entries: entries.map((e) => ({
+        _id: String(e._id),
+        kind: e.kind,
+        bucket: e.bucket,
+        sourceKey: e.sourceKey,
+        memo: e.memo ?? null,
+        amountCents: e.lines.reduce((s, l) => s + l.debitCents, 0),
+        createdAt: e.createdAt,
+      })),
+    });
+  } catch (err: any) {
+    console.error("[ledger] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,502 @@
+// app/api/landlord/leases/[id]/move-out/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import type { DepositDeduction, DepositDeductionKind, DepositReturnDoc } from "@/lib/models";
+import { accruedInterestCents, ymd } from "@/lib/deposit/interest";
+import { loadDepositFacts } from "@/lib/deposit/interestLedger";
+import {
+  DEDUCTION_KINDS,
+  DEDUCTION_LABELS,
+  deadlineStatus,
+  finalizeProblems,
+  isEvidenceKey,
+  returnDeadlineISO,
+  summarizeDepositReturn,
+} from "@/lib/deposit/moveOut";
+import { renderDepositReturnStatement, signEvidence } from "@/lib/deposit/statement";
+import { firmRoleToDomain, transitionApplication } from "@/lib/applications/transitions";
+import { idEq, rid } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+const isIso = (d: string) => /^\d{4}-\d{2}-\d{2}$/.test(d);
+
+function toStringId(v: any) {
+  try {
+    return typeof v === "string" ? v : v?.toHexString?.() ?? String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/leases/[id]/move-out
+  return segs[segs.length - 2] || "";
+}
+
+/** Lease + firm membership check, same rules as /api/landlord/leases/[id] */
+async function loadLeaseForUser(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+
+  const id = await getParamId(req, ctx);
+  if (!id) return { error: NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 }) };
+
+  const db = await getDb();
+  const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id));
+  if (!lease) return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+
+  const firmId = String(lease.firmId);
+  const uid = toStringId((user as any)._id);
+  const uidOid = ObjectId.isValid(uid) ? new ObjectId(uid) : null;
+  const membership = await db.collection<any>("firm_memberships").findOne(
+    { firmId, active: true, $or: uidOid ? [{ userId: uid }, { userId: uidOid }] : [{ userId: uid }] },
+    { projection: { _id: 1, role: 1 } }
+  );
+  if (!membership) return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+
+  return { db, user, uid, lease, firmId, leaseId: toStringId(lease._id), role: membership.role };
+}
+
+/** Move-in statement of condition items (submitted landlord inspection for this lease) */
+async function loadConditionItems(db: any, leaseId: string) {
+  const insp = await db
+    .collection("landlord_inspections")
+    .findOne({ leaseId, status: "submitted" }, { sort: { updatedAt: -1 } });
+  const items = Array.isArray(insp?.items) ? insp.items : [];
+  return items.map((i: any) => ({
+    id: String(i.id),
+    room: String(i.room || "Unspecified area"),
+    category: String(i.category || ""),
+    description: String(i.description || ""),
+    severity: i.severity ?? null,
+  }));
+}
+
+/** Interest from receipt to move-out (or today while the move-out date is unknown) */
+function withInterest(doc: DepositReturnDoc, facts: { principalCents: number; receivedDate: string | null; rateHundredths: number }) {
+  const toDate = doc.moveOutDate ?? ymd(new Date());
+  doc.principalCents = facts.principalCents;
+  doc.receivedDate = facts.receivedDate;
+  doc.interest = {
+    rateHundredths: facts.rateHundredths,
+    fromDate: facts.receivedDate,
+    toDate,
+    cents: accruedInterestCents({
+      principalCents: facts.principalCents,
+      fromISO: facts.receivedDate,
+      toISO: toDate,
+      rateHundredths: facts.rateHundredths,
+    }),
+  };
+  return doc;
+}
+
+async function toWire(doc: DepositReturnDoc) {
+  const deductions = await Promise.all(
+    doc.deductions.map(async (d) => ({
+      ...d,
+      attachments: await Promise.all(d.attachments.map(async (a) => ({ ...a, url: await signEvidence(a.objectKey) }))),
+    }))
+  );
+  return {
+    ...doc,
+    _id: String(doc._id),
+    deductions,
+    totals: summarizeDepositReturn(doc),
+    deadline: deadlineStatus(doc),
+    problems: doc.status === "draft" ? finalizeProblems(doc) : [],
+  };
+}
+
+async function pushAppTimeline(db: any, appId: any, by: string, event: string, meta: Record<string, unknown>) {
+  if (!appId) return;
+  await db.collection("applications").updateOne(idEq("_id", appId), {
+    $push: { timeline: { at: new Date(), by, event, meta } },
+  });
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/landlord/leases/[id]/move-out
+   Returns the (possibly new, unsaved) deposit return for this lease
+───────────────────────────────────────────────────────────── */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, lease, firmId, leaseId } = r;
+
+  try {
+    const col = db.collection<DepositReturnDoc>("deposit_returns");
+    const existing = await col.findOne({ leaseId });
+    const facts = await loadDepositFacts(db, lease);
+
+    const now = new Date();
+    let doc: DepositReturnDoc =
+      existing ??
+      ({
+        _id: "",
+        leaseId,
+        firmId,
+        appId: lease.appId ? String(lease.appId) : null,
+        householdId: lease.householdId ? String(lease.householdId) : null,
+        status: "draft",
+        moveOutDate: null,
+        deadlineDate: null,
+        principalCents: 0,
+        receivedDate: null,
+        interest: { rateHundredths: 0, fromDate: null, toDate: null, cents: 0 },
+        deductions: [],
+        sworn: null,
+        payout: null,
+        createdAt: now,
+        updatedAt: now,
+      } as DepositReturnDoc);
+
+    // Drafts always reflect the latest payments + bank rate; finalized statements are frozen
+    if (doc.status === "draft") doc = withInterest(doc, facts);
+
+    const conditionItems = await loadConditionItems(db, leaseId);
+
+    return NextResponse.json({
+      ok: true,
+      lease: {
+        _id: leaseId,
+        building: lease.building ?? null,
+        unitNumber: lease.unitNumber ?? null,
+        moveInDate: lease.moveInDate ?? null,
+        moveOutDate: lease.moveOutDate ?? null,
+        status: lease.status ?? null,
+      },
+      depositReturn: await toWire(doc),
+      saved: !!existing,
+      conditionItems,
+      deductionKinds: DEDUCTION_KINDS.map((k) => ({ kind: k, label: DEDUCTION_LABELS[k] })),
+      statementUrl: `/api/receipts/deposit-return/${encodeURIComponent(leaseId)}`,
+    });
+  } catch (err: any) {
+    console.error("[move-out] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   PATCH /api/landlord/leases/[id]/move-out
+   Body: { op, ... }
+     set_move_out      { moveOutDate }
+     add_deduction     { kind, label?, amountCents, notes?, conditionItemId? }
+     update_deduction  { deductionId, label?, amountCents?, notes? }
+     remove_deduction  { deductionId }
+     add_attachment    { deductionId, kind, fileName, objectKey, url }
+     remove_attachment { deductionId, attachmentId }
+     finalize          { swornName, swornTitle?, attest: true }
+     record_payout     { method, reference?, amountCents, paidAt? }
+───────────────────────────────────────────────────────────── */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, uid, lease, firmId, leaseId, role } = r;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+  const op = String(body?.op || "");
+  if (!op) return NextResponse.json({ ok: false, error: "missing_op" }, { status: 400 });
+
+  try {
+    const col = db.collection<DepositReturnDoc>("deposit_returns");
+    const now = new Date();
+    const facts = await loadDepositFacts(db, lease);
+
+    // Upsert the draft on first write
+    await col.updateOne(
+      { leaseId },
+      {
+        $setOnInsert: {
+          _id: `dr_${rid()}`,
+          leaseId,
+          firmId,
+          appId: lease.appId ? String(lease.appId) : null,
+          householdId: lease.householdId ? String(lease.householdId) : null,
+          status: "draft",
+          moveOutDate: null,
+          deadlineDate: null,
+          principalCents: 0,
+          receivedDate: null,
+          interest: { rateHundredths: 0, fromDate: null, toDate: null, cents: 0 },
+          deductions: [],
+          sworn: null,
+          payout: null,
+          createdAt: now,
+        } as any,
+      },
+      { upsert: true }
+    );
+    // Each op edits the whole statement, so the write is conditioned on the
+    // updatedAt it read; if another edit landed in between, redo the op on the
+    // fresh copy rather than overwrite it.
+    let doc!: DepositReturnDoc;
+    let timelineEvent: { event: string; meta: Record<string, unknown> } | null = null;
+    let saved = false;
+    for (let attempt = 0; attempt < 3 && !saved; attempt++) {
+      doc = (await col.findOne({ leaseId }))!;
+      const readAt = doc.updatedAt ?? null;
+
+      const draftOnly = [
+        "set_move_out",
+        "add_deduction",
+        "update_deduction",
+        "remove_deduction",
+        "add_attachment",
+        "remove_attachment",
+        "finalize",
+      ];
+      if (draftOnly.includes(op) && doc.status !== "draft") {
+        return NextResponse.json({ ok: false, error: "already_finalized" }, { status: 409 });
+      }
+
+      const findDeduction = (id: any) => doc.deductions.find((d) => d.id === String(id || ""));
+      timelineEvent = null;
+
+      if (op === "set_move_out") {
+        const moveOutDate = String(body.moveOutDate || "").slice(0, 10);
+        if (!isIso(moveOutDate)) {
+          return NextResponse.json({ ok: false, error: "bad_move_out" }, { status: 400 });
+        }
+        if (lease.moveInDate && moveOutDate <= String(lease.moveInDate)) {
+          return NextResponse.json({ ok: false, error: "move_out_before_in" }, { status: 400 });
+        }
+        doc.moveOutDate = moveOutDate;
+        doc.deadlineDate = returnDeadlineISO(moveOutDate);
+        timelineEvent = { event: "deposit_return.move_out_recorded", meta: { moveOutDate, deadlineDate: doc.deadlineDate } };
+      } else if (op === "add_deduction") {
+        const kind = String(body.kind || "") as DepositDeductionKind;
+        if (!DEDUCTION_KINDS.includes(kind)) {
+          return NextResponse.json({ ok: false, error: "bad_kind" }, { status: 400 });
+        }
+        const amountCents = Math.round(Number(body.amountCents));
+        if (!Number.isFinite(amountCents) || amountCents <= 0) {
+          return NextResponse.json({ ok: false, error: "bad_amount" }, { status: 400 });
+        }
+        let conditionItem: DepositDeduction["conditionItem"] = null;
+        if (body.conditionItemId) {
+          const items = await loadConditionItems(db, leaseId);
+          conditionItem = items.find((i: any) => i.id === String(body.conditionItemId)) ?? null;
+          if (!conditionItem) {
+            return NextResponse.json({ ok: false, error: "condition_item_not_found" }, { status: 400 });
+          }
+        }
+        doc.deductions.push({
+          id: rid(),
+          kind,
+          label: String(body.label || "").trim() || DEDUCTION_LABELS[kind],
+          amountCents,
+          notes: body.notes ? String(body.notes) : null,
+          conditionItem,
+          attachments: [],
+          createdAt: now,
+          createdBy: uid,
+        });
+      } else if (op === "update_deduction") {
+        const d = findDeduction(body.deductionId);
+        if (!d) return NextResponse.json({ ok: false, error: "deduction_not_found" }, { status: 404 });
+        if (body.label !== undefined) d.label = String(body.label).trim() || d.label;
+        if (body.notes !== undefined) d.notes = body.notes ? String(body.notes) : null;
+        if (body.amountCents !== undefined) {
+          const amountCents = Math.round(Number(body.amountCents));
+          if (!Number.isFinite(amountCents) || amountCents <= 0) {
+            return NextResponse.json({ ok: false, error: "bad_amount" }, { status: 400 });
+          }
+          d.amountCents = amountCents;
+        }
+      } else if (op === "remove_deduction") {
+        const before = doc.deductions.length;
+        doc.deductions = doc.deductions.filter((d) => d.id !== String(body.deductionId || ""));
+        if (doc.deductions.length === before) {
+          return NextResponse.json({ ok: false, error: "deduction_not_found" }, { status: 404 });
+        }
+      } else if (op === "add_attachment") {
+        const d = findDeduction(body.deductionId);
+        if (!d) return NextResponse.json({ ok: false, error: "deduction_not_found" }, { status: 404 });
+        const kind = String(body.kind || "");
+        if (!["estimate", "invoice", "receipt", "photo"].includes(kind)) {
+          return NextResponse.json({ ok: false, error: "bad_attachment_kind" }, { status: 400 });
+        }
+        const objectKey = String(body.objectKey || "");
+        if (!objectKey) {
+          return NextResponse.json({ ok: false, error: "missing_object" }, { status: 400 });
+        }
+        // Only what upload-init handed out for this lease; links are signed on read
+        if (!isEvidenceKey(objectKey, firmId, leaseId)) {
+          return NextResponse.json({ ok: false, error: "bad_object_key" }, { status: 400 });
+        }
+        d.attachments.push({
+          id: rid(),
+          kind: kind as any,
+          fileName: String(body.fileName || "file").slice(0, 200),
+          objectKey,
+          uploadedAt: now,
+          uploadedBy: uid,
+        });
+      } else if (op === "remove_attachment") {
+        const d = findDeduction(body.deductionId);
+        if (!d) return NextResponse.json({ ok: false, error: "deduction_not_found" }, { status: 404 });
+        d.attachments = d.attachments.filter((a) => a.id !== String(body.attachmentId || ""));
+      } else if (op === "finalize") {
+        const swornName = String(body.swornName || "").trim();
+        if (!swornName || body.attest !== true) {
+          return NextResponse.json({ ok: false, error: "sworn_attestation_required" }, { status: 400 });
+        }
+        doc = withInterest(doc, facts);
+        const problems = finalizeProblems(doc);
+        if (problems.length) {
+          return NextResponse.json({ ok: false, error: "not_ready", problems }, { status: 409 });
+        }
+        doc.status = "finalized";
+        doc.sworn = {
+          name: swornName,
+          title: body.swornTitle ? String(body.swornTitle) : null,
+          at: now,
+          ip: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || null,
+          userAgent: req.headers.get("user-agent") || null,
+          userId: uid,
+        };
+        const totals = summarizeDepositReturn(doc);
+        timelineEvent = {
+          event: "deposit_return.finalized",
+          meta: { ...totals, deadlineDate: doc.deadlineDate, deductions: doc.deductions.length },
+        };
+      } else if (op === "record_payout") {
+        if (doc.status !== "finalized") {
+          return NextResponse.json({ ok: false, error: "not_finalized" }, { status: 409 });
+        }
+        const method = String(body.method || "");
+        if (!["check", "ach", "stripe", "other"].includes(method)) {
+          return NextResponse.json({ ok: false, error: "bad_method" }, { status: 400 });
+        }
+        const amountCents = Math.round(Number(body.amountCents));
+        if (!Number.isFinite(amountCents) || amountCents < 0) {
+          return NextResponse.json({ ok: false, error: "bad_amount" }, { status: 400 });
+        }
+        const paidAt = body.paidAt ? new Date(body.paidAt) : now;
+        if (isNaN(paidAt.getTime())) {
+          return NextResponse.json({ ok: false, error: "bad_paidAt" }, { status: 400 });
+        }
+        const late = !!doc.deadlineDate && ymd(paidAt) > doc.deadlineDate;
+        doc.status = "paid";
+        doc.payout = {
+          method: method as any,
+          reference: body.reference ? String(body.reference) : null,
+          amountCents,
+          paidAt,
+          late,
+          recordedBy: uid,
+        };
+        timelineEvent = { event: "deposit_return.paid", meta: { method, amountCents, late } };
+      } else {
+        return NextResponse.json({ ok: false, error: "unknown_op" }, { status: 400 });
+      }
+
+      if (doc.status === "draft") doc = withInterest(doc, facts);
+      doc.updatedAt = now;
+
+      const { _id, ...rest } = doc;
+      void _id;
+      const res = await col.updateOne({ leaseId, updatedAt: readAt } as any, { $set: rest });
+      saved = res.matchedCount > 0;
+    }
+    if (!saved) return NextResponse.json({ ok: false, error: "conflict" }, { status: 409 });
+
+    if (timelineEvent) {
+      await pushAppTimeline(db, lease.appId, uid, timelineEvent.event, { leaseId, ...timelineEvent.meta });
+    }
+
+    // A finalized statement means the household is out; close the application
+    if (op === "finalize" && lease.appId) {
+      const app = await db.collection("applications").findOne(idEq("_id", lease.appId), { projection: { _id: 1, status: 1 } });
+      if (app) {
+        const moved = await transitionApplication(db, {
+          app,
+          steps: { action: "move_out", role: firmRoleToDomain(role) },
+          by: uid,
+          firmId,
+          meta: { leaseId },
+          optional: true,
+          now,
+        });
+        if (!moved.ok) console.warn("[move-out] application transition failed,", { leaseId, error: moved.error });
+      }
+    }
+
+    // Deliver the sworn statement to the household once it is final
+    let emailed: { to: string; ok: boolean; error?: string }[] | null = null;
+    if (op === "finalize") emailed = await emailStatement(db, doc, lease);
+
+    return NextResponse.json({ ok: true, depositReturn: await toWire(doc), ...(emailed ? { emailed } : {}) });
+  } catch (err: any) {
+    console.error("[move-out] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   Email: render the statement in-process, send to household
+───────────────────────────────────────────────────────────── */
+async function emailStatement(db: any, doc: DepositReturnDoc, lease: any) {
+  const recipients = await getHouseholdEmails(doc.householdId ?? lease.householdId);
+  if (!recipients.length) {
+    console.warn("[move-out] statement email skipped,", { recipients: 0 });
+    return [];
+  }
+
+  let html = "";
+  try {
+    html = await renderDepositReturnStatement(db, doc, { evidenceLinks: false });
+  } catch (e) {
+    console.error("[move-out] statement render failed,", e);
+  }
+
+  const totals = summarizeDepositReturn(doc);
+  const money = (c: number) => `$${(c / 100).toFixed(2)}`;
+  const text = [
+    "SECURITY DEPOSIT — ITEMIZED STATEMENT OF DEDUCTIONS (M.G.L. c.186 §15B(4))",
+    "",
+    `Deposit held: ${money(totals.principalCents)}`,
+    `Interest: ${money(totals.interestCents)}`,
+    ...doc.deductions.map((d) => `Deduction — ${d.label}: ${money(d.amountCents)}`),
+    `Amount returned to you: ${money(totals.refundCents)}`,
+    "",
+    `Signed under the pains and penalties of perjury by ${doc.sworn?.name ?? "the landlord"}.`,
+  ].join("\n");
+
+  const out: { to: string; ok: boolean; error?: string }[] = [];
+  for (const to of recipients) {
+    const r = await sendMail({
+      to,
+      subject: "Security deposit return — itemized statement",
+      html: html || undefined,
+      text,
+      idempotencyKey: `deposit-return:${doc.leaseId}:${to}`,
+      traceId: `lease:${doc.leaseId}`,
+    });
+    out.push({ to, ok: r.ok, ...(r.ok ? {} : { error: (r as any).error }) });
+  }
+  return out;
+}
@@ -0,0 +1,88 @@
+// app/api/landlord/leases/[id]/move-out/upload-init/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { ObjectId } from "mongodb";
+import { s3, S3_BUCKET } from "@/lib/aws/s3";
+import { getSessionUser } from "@/lib/auth";
+import { getDb } from "@/lib/db";
+import { evidencePrefix } from "@/lib/deposit/moveOut";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Tiny random id helper for filenames */
+function randomId(len = 12) {
+  return Math.random().toString(36).slice(2, 2 + len);
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^\w.\-]+/g, "_").slice(-120) || "file";
+}
+
+/**
+ * POST /api/landlord/leases/[id]/move-out/upload-init
+ * Body: { fileName, contentType }
+ * Returns a presigned PUT for deduction evidence (estimates, invoices, receipts, photos),
+ * under the lease's evidence prefix; the move-out route only accepts keys there.
+ */
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const user = await getSessionUser();
+  if (!user || user.role !== "landlord") {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  if (!S3_BUCKET) {
+    console.error("[move-out] upload-init: S3_BUCKET is not configured");
+    return NextResponse.json({ ok: false, error: "missing_s3_bucket" }, { status: 500 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const contentType =
+    typeof body?.contentType === "string" && body.contentType.trim()
+      ? body.contentType.trim()
+      : "application/octet-stream";
+  const fileName = sanitizeFileName(String(body?.fileName || ""));
+
+  try {
+    const db = await getDb();
+    const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id), { projection: { _id: 1, firmId: 1 } });
+    if (!lease) return NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 });
+    const firmId = String(lease.firmId);
+    const uid = String(user._id);
+    const membership = await db.collection<any>("firm_memberships").findOne(
+      { firmId, active: true, $or: ObjectId.isValid(uid) ? [{ userId: uid }, { userId: new ObjectId(uid) }] : [{ userId: uid }] },
+      { projection: { _id: 1 } }
+    );
+    if (!membership) return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+
+    const key = `${evidencePrefix(firmId, String(lease._id))}${Date.now()}-${randomId()}_${fileName}`;
+
+    const putCmd = new PutObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+      ContentType: contentType,
+    });
+    const putUrl = await getSignedUrl(s3, putCmd, { expiresIn: 60 * 10 }); // 10 minutes
+
+    return NextResponse.json({ ok: true, putUrl, objectKey: key, fileName });
+  } catch (err: any) {
+    console.error("[move-out] upload-init failed,", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", detail: err?.message },
+      { status: 500 },
+    );
+  }
+}
@@ -255,6 +255,13 @@ export async function PATCH(
   if (moveOutDate !== undefined) set.moveOutDate = moveOutDate;
   if (status) set.status = status;
   if (signed !== undefined) {
+    // Leases sent through e-signing get their signed flag from the signatures
+    if ((lease as any).signatureEnvelopeId) {
+      return NextResponse.json(
+        { ok: false, error: "signed_by_esignature" },
+        { status: 409 }
+      );
+    }
     set.signed = !!signed;
     set.signedAt = signed ? now : null;
   }
@@ -0,0 +1,117 @@
+// app/api/landlord/leases/[id]/signatures/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { LeaseSignatureEnvelopeDoc } from "@/lib/models";
+import { publicEnvelope, resendSigningInvite } from "@/lib/leases/signing";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+function toStringId(v: any) {
+  try {
+    return typeof v === "string" ? v : v?.toHexString?.() ?? String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/leases/[id]/signatures
+  return segs[segs.length - 2] || "";
+}
+
+/** Lease + firm membership check, same rules as /api/landlord/leases/[id] */
+async function loadLeaseForUser(req: NextRequest, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+
+  const id = await getParamId(req, ctx);
+  if (!id) return { error: NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 }) };
+
+  const db = await getDb();
+  const lease = await db.collection<any>("unit_leases").findOne(idEq("_id", id));
+  if (!lease) return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+
+  const firmId = String(lease.firmId);
+  const uid = toStringId((user as any)._id);
+  const uidOid = ObjectId.isValid(uid) ? new ObjectId(uid) : null;
+  const membership = await db.collection<any>("firm_memberships").findOne(
+    { firmId, active: true, $or: uidOid ? [{ userId: uid }, { userId: uidOid }] : [{ userId: uid }] },
+    { projection: { _id: 1, role: 1 } }
+  );
+  if (!membership) return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+
+  return { db, user, uid, lease, firmId, leaseId: toStringId(lease._id) };
+}
+
+async function latestEnvelope(db: any, leaseId: string) {
+  return (await db
+    .collection("lease_signatures")
+    .find({ leaseId })
+    .sort({ createdAt: -1 })
+    .limit(1)
+    .next()) as LeaseSignatureEnvelopeDoc | null;
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/landlord/leases/[id]/signatures
+   Signing status for the lease's envelope (null if it was never sent for signature)
+───────────────────────────────────────────────────────────── */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, leaseId } = r;
+
+  try {
+    const env = await latestEnvelope(db, leaseId);
+    return NextResponse.json({
+      ok: true,
+      envelope: env ? publicEnvelope(env) : null,
+      certificateUrl:
+        env?.status === "completed" ? `/api/receipts/signing-certificate/${encodeURIComponent(env._id)}` : null,
+    });
+  } catch (err: any) {
+    console.error("[signing] status failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   POST /api/landlord/leases/[id]/signatures
+   Body: { op: "resend", signerId } — emails a fresh link, retiring the old one
+───────────────────────────────────────────────────────────── */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await loadLeaseForUser(req, ctx);
+  if ("error" in r) return r.error;
+  const { db, leaseId } = r;
+
+  const body = await req.json().catch(() => ({} as any));
+  if (body?.op !== "resend") {
+    return NextResponse.json({ ok: false, error: "bad_op" }, { status: 400 });
+  }
+
+  try {
+    const env = await latestEnvelope(db, leaseId);
+    if (!env) return NextResponse.json({ ok: false, error: "not_sent_for_signature" }, { status: 404 });
+
+    const out = await resendSigningInvite(db, env, String(body?.signerId || ""));
+    if (!out.ok) return NextResponse.json({ ok: false, error: out.error }, { status: out.status });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("[signing] resend failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,8 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import type { ObjectId } from "mongodb";
+import { loadFirmUnit, resolveUnitForBuilding, unitToBuilding } from "@/lib/properties/inventory";
+import { addMonthsYmd, conflictToWire, findUnitConflict, isYmd, withUnitClaim } from "@/lib/properties/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -53,6 +55,8 @@ type ApplicationDoc = {
     moveInDate?: string | null; // ISO yyyy-mm-dd
   };
   upfronts?: Upfronts; // <<< NEW: where first/last/security/key live
+  propertyId?: string | null;
+  unitId?: string | null;
 };
 
 type ApplicationFormDoc = { _id: IdLike; firmId: IdLike };
@@ -173,6 +177,7 @@ export async function POST(
 
   // Parse + light-validate body
   const body = (await req.json().catch(() => ({}))) as {
+    unitId?: string; // inventory unit; its address wins over building/unitNumber
     building?: ApplicationDoc["building"];
     unit?: ApplicationDoc["unit"];
     lease?: {
@@ -186,8 +191,19 @@ export async function POST(
     fees?: Upfronts;
   };
 
-  const building = body?.building;
-  const unit = body?.unit;
+  let building = body?.building;
+  let unit = body?.unit;
+
+  // Picked from the inventory: take the address and unit number from there
+  const picked = body?.unitId ? await loadFirmUnit(db, firmId, String(body.unitId)) : null;
+  if (body?.unitId && !picked) {
+    return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+  }
+  if (picked) {
+    const fromInventory = unitToBuilding(picked.property, picked.unit);
+    building = fromInventory.building;
+    unit = { ...unit, unitNumber: fromInventory.unitNumber };
+  }
 
   // Prefer "amounts", then "upfronts", then "fees"
   const incomingUpfronts: Upfronts = {
@@ -306,25 +322,70 @@ export async function POST(
     };
   }
 
-  // Upsert fields and timeline entry
-  await apps.updateOne(appFilter, {
-    $set: { ...setDoc, updatedAt: now } as any,
-    $push: {
-      timeline: {
-        at: now,
+  // Link the application to its inventory unit, creating it from the address if new
+  const linked = picked
+    ? { propertyId: picked.property._id, unitId: picked.unit._id }
+    : await resolveUnitForBuilding(db, {
+        firmId,
+        building: setDoc.building,
+        unitNumber: safeUnit.unitNumber,
         by: uidStr,
-        event: "lease.setup.updated",
-        meta: {
-          fields: [
-            "building",
-            "unit",
-            "protoLease",
-            ...(setDoc.upfronts ? ["upfronts"] : []),
-          ],
+        attrs: {
+          beds: safeUnit.beds ?? null,
+          baths: safeUnit.baths ?? null,
+          sqft: safeUnit.sqft || null,
+          rentCents: monthlyRent,
         },
-      } as TimelineEvent,
-    },
-  });
+      });
+  if (linked) Object.assign(setDoc, linked);
+
+  // The planned dates must be free on the unit (other leases and holds);
+  // checked and saved under the unit's claim
+  const moveInDate = setDoc.protoLease?.moveInDate;
+  const save = async () => {
+    if (linked && isYmd(moveInDate)) {
+      const conflict = await findUnitConflict(db, {
+        firmId,
+        unitId: linked.unitId,
+        start: moveInDate,
+        end: addMonthsYmd(moveInDate, termMonths ?? 12),
+        appId: String(app._id),
+      });
+      if (conflict) return conflict;
+    }
+
+    // Upsert fields and timeline entry
+    await apps.updateOne(appFilter, {
+      $set: { ...setDoc, updatedAt: now } as any,
+      $push: {
+        timeline: {
+          at: now,
+          by: uidStr,
+          event: "lease.setup.updated",
+          meta: {
+            fields: [
+              "building",
+              "unit",
+              "protoLease",
+              ...(setDoc.upfronts ? ["upfronts"] : []),
+            ],
+            ...(linked ? { unitId: linked.unitId } : {}),
+          },
+        } as TimelineEvent,
+      },
+    });
+    return null;
+  };
+  const claimed = linked ? await withUnitClaim(db, linked.unitId, save) : { ok: true as const, value: await save() };
+  if (!claimed.ok) {
+    return NextResponse.json({ ok: false, error: claimed.error }, { status: 409 });
+  }
+  if (claimed.value) {
+    return NextResponse.json(
+      { ok: false, error: "unit_unavailable", conflict: conflictToWire(claimed.value) },
+      { status: 409 }
+    );
+  }
 
   return NextResponse.json({
     ok: true,
@@ -333,6 +394,8 @@ export async function POST(
       unit: setDoc.unit,
       protoLease: setDoc.protoLease,
       upfronts: setDoc.upfronts ?? null,
+      propertyId: setDoc.propertyId ?? null,
+      unitId: setDoc.unitId ?? null,
     },
     updatedAt: now.toISOString(),
   });
@@ -2,6 +2,8 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
+import { resolveUnitForBuilding } from "@/lib/properties/inventory";
+import { conflictToWire, findUnitConflict, withUnitClaim } from "@/lib/properties/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -44,7 +46,7 @@ export async function POST(
   if (moveOutDate && moveOutDate <= moveInDate) return NextResponse.json({ ok:false, error:"move_out_before_in" }, { status:400 });
 
   const appFilter = isHex24(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any);
-  const app = await apps.findOne(appFilter, { projection: { _id:1, householdId:1, formId:1, building:1, unit:1, protoLease:1 } });
+  const app = await apps.findOne(appFilter, { projection: { _id:1, householdId:1, formId:1, building:1, unit:1, protoLease:1, propertyId:1, unitId:1 } });
   if (!app) return NextResponse.json({ ok:false, error:"application_not_found" }, { status:404 });
 
   const formKey = toStringId(app.formId);
@@ -71,48 +73,76 @@ export async function POST(
 
   const monthlyRent = Number(app?.protoLease?.monthlyRent ?? 0) || null;
 
-  // Overlap guard for scheduled/active leases in same unitNumber (or unitId when you add one)
-  if (["scheduled","active"].includes(status)) {
-    const overlap = await leases.findOne({
-      firmId,
-      $or: [ unitNumber ? { unitNumber } : { unitNumber: "__none__" } ],
-      status: { $in: ["scheduled","active"] },
-      $expr: {
-        $and: [
-          { $lt: ["$moveInDate", moveOutDate ?? "9999-12-31"] },
-          { $lt: [moveInDate, { $ifNull: ["$moveOutDate", "9999-12-31"] }] }
-        ]
-      }
-    }, { projection: { _id:1, moveInDate:1, moveOutDate:1, status:1 } });
-
-    if (overlap) return NextResponse.json({ ok:false, error:"overlap", details: overlap }, { status:409 });
-  }
+  // Inventory unit: the one the application was set up for, else by address
+  const linked = app?.unitId
+    ? { propertyId: app.propertyId ? String(app.propertyId) : null, unitId: String(app.unitId) }
+    : await resolveUnitForBuilding(db, { firmId, building, unitNumber, by: uid });
 
   const now = new Date();
   const leaseId = `lease_${rand(18)}`;
 
-  await leases.updateOne(
-    { firmId, appId: String(app._id) }, // one lease per application record (adjust if needed)
-    {
-      $setOnInsert: {
-        _id: leaseId, firmId, appId: String(app._id), householdId: toStringId(app.householdId), createdAt: now,
+  // Checked and written under the unit's claim, so two requests can't both see it free
+  const assign = async () => {
+    // Overlap guard for scheduled/active leases in the same unit (by unitNumber for unlinked leases)
+    if (["scheduled","active"].includes(status)) {
+      const overlap = await leases.findOne({
+        firmId,
+        appId: { $ne: String(app._id) },
+        $or: [
+          ...(linked ? [{ unitId: linked.unitId }] : []),
+          unitNumber ? { unitNumber } : { unitNumber: "__none__" },
+        ],
+        status: { $in: ["scheduled","active"] },
+        $expr: {
+          $and: [
+            { $lt: ["$moveInDate", moveOutDate ?? "9999-12-31"] },
+            { $lt: [moveInDate, { $ifNull: ["$moveOutDate", "9999-12-31"] }] }
+          ]
+        }
+      }, { projection: { _id:1, moveInDate:1, moveOutDate:1, status:1 } });
+
+      if (overlap) return { error: "overlap", details: overlap };
+
+      // Holds from other applications on the same inventory unit
+      const conflict = linked
+        ? await findUnitConflict(db, { firmId, unitId: linked.unitId, start: moveInDate, end: moveOutDate, appId: String(app._id) })
+        : null;
+      if (conflict) return { error: "unit_unavailable", conflict: conflictToWire(conflict) };
+    }
+
+    await leases.updateOne(
+      { firmId, appId: String(app._id) }, // one lease per application record (adjust if needed)
+      {
+        $setOnInsert: {
+          _id: leaseId, firmId, appId: String(app._id), householdId: toStringId(app.householdId), createdAt: now,
+        },
+        $set: {
+          propertyId: linked?.propertyId ?? null,
+          unitId: linked?.unitId ?? null,
+          unitNumber,
+          building,
+          moveInDate,
+          moveOutDate: moveOutDate ?? null,
+          monthlyRent,
+          signed,
+          signedAt: signed ? now : null,
+          status,
+          updatedAt: now,
+        }
       },
-      $set: {
-        propertyId: null,
-        unitId: null,
-        unitNumber,
-        building,
-        moveInDate,
-        moveOutDate: moveOutDate ?? null,
-        monthlyRent,
-        signed,
-        signedAt: signed ? now : null,
-        status,
-        updatedAt: now,
-      }
-    },
-    { upsert: true }
-  );
+      { upsert: true }
+    );
+    return null;
+  };
+  const claimed = linked
+    ? await withUnitClaim(db, linked.unitId, assign)
+    : { ok: true as const, value: await assign() };
+  if (!claimed.ok) return NextResponse.json({ ok:false, error: claimed.error }, { status:409 });
+  if (claimed.value) return NextResponse.json({ ok:false, ...claimed.value }, { status:409 });
+
+  if (linked && !app.unitId) {
+    await apps.updateOne(appFilter, { $set: { propertyId: linked.propertyId, unitId: linked.unitId } });
+  }
 
   const out = await leases.findOne({ firmId, appId: String(app._id) }, { projection: { _id:1 } });
   return NextResponse.json({ ok:true, leaseId: out?._id ?? leaseId });
@@ -3,6 +3,8 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { ObjectId } from "mongodb";
+import { resolveUnitForBuilding } from "@/lib/properties/inventory";
+import { conflictToWire, findUnitConflict, withUnitClaim } from "@/lib/properties/availability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -425,6 +427,15 @@ export async function POST(req: Request) {
     );
   }
 
+  // Inventory link: the unit the application was set up for, unless this
+  // request names a different address; otherwise find/create it by address
+  const actor = String(user._id ?? (user as any).id ?? "system");
+  const overridesUnit = body?.building !== undefined || body?.unitNumber !== undefined;
+  const linked =
+    app?.unitId && !overridesUnit
+      ? { propertyId: String(app.propertyId ?? ""), unitId: String(app.unitId) }
+      : await resolveUnitForBuilding(db, { firmId, building, unitNumber, by: actor });
+
   // Build the lease document
   const leaseDoc = {
     _id: newLeaseId(), // string _id
@@ -437,11 +448,11 @@ export async function POST(req: Request) {
     monthlyRent,
     moveInDate,
     moveOutDate: moveOutDate ?? null,
-    propertyId: null,
+    propertyId: linked?.propertyId || null,
     signed,
     signedAt: signed ? now : null,
     status: "scheduled",
-    unitId: null,
+    unitId: linked?.unitId || null,
     unitNumber,
     checklist: Array.isArray(body?.checklist)
       ? body.checklist.map((c: any) => ({
@@ -458,16 +469,42 @@ export async function POST(req: Request) {
       : buildDefaultChecklist(moveInDate, now),
   };
 
-  await unitLeases.insertOne(leaseDoc as any);
+  // Refuse dates that collide with another lease or hold on the unit; checked
+  // and inserted under the unit's claim so two requests can't both see it free
+  const insertLease = async () => {
+    if (linked) {
+      const conflict = await findUnitConflict(db, {
+        firmId,
+        unitId: linked.unitId,
+        start: moveInDate as string,
+        end: moveOutDate,
+        appId: toStringId(app._id),
+      });
+      if (conflict) return conflict;
+    }
+    await unitLeases.insertOne(leaseDoc as any);
+    return null;
+  };
+  const claimed = linked
+    ? await withUnitClaim(db, linked.unitId, insertLease)
+    : { ok: true as const, value: await insertLease() };
+  if (!claimed.ok) {
+    return NextResponse.json({ ok: false, error: claimed.error }, { status: 409 });
+  }
+  if (claimed.value) {
+    return NextResponse.json(
+      { ok: false, error: "unit_unavailable", conflict: conflictToWire(claimed.value) },
+      { status: 409 }
+    );
+  }
 
   // ---------- Mark the application and push timeline events ----------
-  const FINAL_STATUS =
-    process.env.APP_FINAL_LEASE_STATUS || "leased";
-
+  // The status isn't touched: it moves with signatures (countersigned) and the
+  // lease start (occupied), through the transition rules.
   const timelineEvents: any[] = [
     {
       at: now,
-      by: String(user._id ?? (user as any).id ?? "system"),
+      by: actor,
       event: "lease.created",
       meta: {
         leaseId: leaseDoc._id,
@@ -490,11 +527,11 @@ export async function POST(req: Request) {
 
   const updateDoc: any = {
     $set: {
-      status: FINAL_STATUS,
       nextStep: null,
       updatedAt: now,
       "locks.holding.active": false,
       resolvedAt: now,
+      ...(linked ? { propertyId: linked.propertyId, unitId: linked.unitId } : {}),
     },
     $push: {
       timeline: { $each: timelineEvents },
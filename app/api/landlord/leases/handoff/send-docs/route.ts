@@ -3,15 +3,9 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
-import { getMailer } from "@/lib/mailer";
-import {
-  computeNextState,
-  deriveMinRulesFromPlan,
-  type AppState,
-  type Terms,
-} from "@/domain/rules";
-
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { normalizeAppState, type AppState } from "@/domain/rules";
+import { createSigningEnvelope } from "@/lib/leases/signing";
+import { generateLeaseDocument, resolveLeaseTemplate } from "@/lib/leases/templates";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -42,27 +36,6 @@ async function asFilter(idLike: string) {
     : { _id: idLike }) as any;
 }
 
-// S3 client (reused)
-const s3Region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-2";
-const s3Bucket = process.env.AWS_S3_BUCKET || process.env.AWS_S3_BUCKET_NAME;
-const s3 = new S3Client({ region: s3Region });
-
-async function getS3ObjectBase64(key: string): Promise<{ base64: string; contentType: string }> {
-  const cmd = new GetObjectCommand({
-    Bucket: s3Bucket!,
-    Key: key,
-  });
-  const res = await s3.send(cmd);
-  const contentType = (res.ContentType as string) || "application/octet-stream";
-
-  const chunks: Uint8Array[] = [];
-  for await (const chunk of res.Body as any) {
-    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
-  }
-  const buf = Buffer.concat(chunks);
-  return { base64: buf.toString("base64"), contentType };
-}
-
 // Reuse the firm membership logic from other landlord routes
 async function resolveFirmForUser(req: NextRequest, user: { _id: any }) {
   const db = await getDb();
@@ -132,61 +105,6 @@ async function resolveFirmForUser(req: NextRequest, user: { _id: any }) {
   };
 }
 
-// Household recipients (based on your webhook)
-async function getHouseholdUserEmails(db: any, householdId: string): Promise<string[]> {
-  const membershipsCollCanonical = db.collection("household_memberships") as any;
-  const membershipsCollLegacy = db.collection("household_memberhsips") as any;
-  const { ObjectId } = await import("mongodb");
-
-  const isHex = ObjectId.isValid(householdId);
-  const hhIdObj = isHex ? new ObjectId(householdId) : null;
-  const hhMatch = hhIdObj ? { $in: [householdId, hhIdObj] } : householdId;
-
-  let mships = await membershipsCollCanonical
-    .find({ householdId: hhMatch, active: true })
-    .project({ userId: 1, email: 1, role: 1 })
-    .toArray();
-
-  if (!mships?.length) {
-    try {
-      mships = await membershipsCollLegacy
-        .find({ householdId: hhMatch, active: true })
-        .project({ userId: 1, email: 1, role: 1 })
-        .toArray();
-    } catch {
-      // ignore legacy errors
-    }
-  }
-
-  if (!mships?.length) return [];
-
-  const rawIds = mships.map((m: any) => m.userId).filter(Boolean);
-  const userIds = rawIds.map((id: any) =>
-    ObjectId.isValid(String(id)) ? new ObjectId(String(id)) : String(id)
-  );
-
-  const users = userIds.length
-    ? await (db.collection("users") as any)
-        .find({ _id: { $in: userIds } })
-        .project({ email: 1, preferredName: 1 })
-        .toArray()
-    : [];
-
-  const emailByUserIdStr = new Map<string, string>(
-    users.map((u: any) => [String(u._id), String(u.email || "").trim()])
-  );
-
-  const emails = new Set<string>();
-  for (const m of mships) {
-    const uidStr = String(m.userId || "");
-    const userEmail = emailByUserIdStr.get(uidStr);
-    if (userEmail) emails.add(userEmail);
-    if (!userEmail && m.email) emails.add(String(m.email).trim());
-  }
-
-  return Array.from(emails).filter(Boolean);
-}
-
 /* ---------- Route ---------- */
 
 export async function POST(req: NextRequest) {
@@ -204,13 +122,13 @@ export async function POST(req: NextRequest) {
   const checklist: Array<{ id: string; label: string; helpText?: string | null }> =
     Array.isArray(body.checklist) ? body.checklist : [];
   const completedInAppFolio = !!body.completedInAppFolio;
+  // undefined -> firm default template, null -> no generated lease, string -> that template
+  const templateIdParam: string | null | undefined =
+    body.templateId === null ? null : body.templateId ? String(body.templateId) : undefined;
 
   if (!appId) {
     return NextResponse.json({ ok: false, error: "missing_appId" }, { status: 400 });
   }
-  if (!docs.length) {
-    return NextResponse.json({ ok: false, error: "no_documents_selected" }, { status: 400 });
-  }
 
   // Resolve firm + auth
   let firm;
@@ -237,6 +155,8 @@ export async function POST(req: NextRequest) {
       protoLease: 1,
       paymentPlan: 1,
       countersign: 1,
+      answersByMember: 1,
+      members: 1,
     },
   });
 
@@ -263,7 +183,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ ok: false, error: "not_in_firm" }, { status: 403 });
   }
 
-  const currentStatus = String(app.status ?? "approved_high") as AppState;
+  const currentStatus = normalizeAppState(app.status) ?? String(app.status);
   if (currentStatus !== "min_paid" && currentStatus !== "countersigned") {
     return NextResponse.json(
       { ok: false, error: "invalid_state", status: currentStatus },
@@ -279,45 +199,9 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // Derive terms for FSM
-  const building = app.building;
-  const addressFreeform = building
-    ? `${building.addressLine1 || ""}, ${building.city || ""}, ${building.state || ""} ${
-        building.postalCode || ""
-      }`
-    : "Lease address";
-
-  const terms: Terms = {
-    addressFreeform,
-    unitId: app.unit?.id ?? null,
-    rentCents: plan.monthlyRentCents,
-    startISO: plan.startDate,
-    endISO: null,
-    depositCents: plan.securityCents ?? null,
-    fees: plan.keyFeeCents ? [{ label: "Key fee", amountCents: plan.keyFeeCents }] : [],
-  };
-
-  const minRules = deriveMinRulesFromPlan({
-    countersignUpfrontThresholdCents:
-      app.countersign?.upfrontMinCents ?? plan.countersignUpfrontThresholdCents,
-    countersignDepositThresholdCents:
-      app.countersign?.depositMinCents ?? plan.countersignDepositThresholdCents,
-  });
-
-  // Advance state: min_paid -> countersigned via signatures_completed
-  let nextStatus: AppState = currentStatus;
-  if (nextStatus === "min_paid") {
-    nextStatus = computeNextState(
-      nextStatus as any,
-      "signatures_completed",
-      "system",
-      {
-        terms,
-        minRules,
-        signaturesCount: 2,
-      }
-    ) as AppState;
-  }
+  // The application stays where it is until every signer has signed;
+  // lib/leases/signing moves it min_paid -> countersigned on the real count.
+  const nextStatus: AppState = currentStatus;
 
   const now = new Date();
 
@@ -375,6 +259,31 @@ export async function POST(req: NextRequest) {
   }));
 
   const leaseId = `lease_${rand(22)}`;
+
+  // Render the firm's lease template for this application, first in the envelope
+  const template =
+    templateIdParam === null ? null : await resolveLeaseTemplate(db, firmId, templateIdParam);
+  if (templateIdParam && !template) {
+    return NextResponse.json({ ok: false, error: "template_not_found" }, { status: 404 });
+  }
+  let generated: Awaited<ReturnType<typeof generateLeaseDocument>> | null = null;
+  if (template) {
+    generated = await generateLeaseDocument(db, {
+      firmId,
+      app,
+      leaseId,
+      template,
+      createdBy: toStr((user as any)?._id ?? (user as any)?.email ?? "system"),
+    });
+    if (!generated.ok) {
+      return NextResponse.json({ ok: false, error: generated.error }, { status: generated.status });
+    }
+    selectedDocRecords.unshift(generated.document);
+  }
+
+  if (!selectedDocRecords.length) {
+    return NextResponse.json({ ok: false, error: "no_documents_selected" }, { status: 400 });
+  }
   const leaseDoc: any = {
     _id: leaseId,
     firmId,
@@ -387,8 +296,8 @@ export async function POST(req: NextRequest) {
     moveInDate: moveInISO,
     moveOutDate: moveOutISO,
     status: "scheduled",
-    signed: nextStatus === "countersigned",
-    signedAt: nextStatus === "countersigned" ? now : null,
+    signed: false,
+    signedAt: null,
     createdAt: now,
     updatedAt: now,
     checklist: leaseChecklist,
@@ -399,12 +308,53 @@ export async function POST(req: NextRequest) {
     })),
   };
 
+  const b = app.building;
+  const u = app.unit;
+  const premises = b
+    ? `${b.addressLine1 ?? ""}${b.addressLine2 ? `, ${b.addressLine2}` : ""}, ${b.city ?? ""}, ${
+        b.state ?? ""
+      } ${b.postalCode ?? ""}${u?.unitNumber ? ` — ${u.unitNumber}` : ""}`
+    : "Your new home";
+
+  // Sender countersigns as the landlord
+  const sender = await db
+    .collection<any>("users")
+    .findOne(await asFilter(toStr((user as any)._id)), { projection: { email: 1, legal_name: 1, name: 1 } });
+  const senderEmail = String(sender?.email || (user as any).email || "").trim();
+
+  const envelope = await createSigningEnvelope(db, {
+    firmId,
+    appId: toStr(app._id),
+    leaseId,
+    householdId: toStr(app.householdId ?? ""),
+    premises,
+    documents: selectedDocRecords.map((d) => ({
+      id: d.id,
+      title: d.title,
+      fileName: d.fileName ?? null,
+      objectKey: d.objectKey,
+      contentType: d.contentType,
+    })),
+    landlord: {
+      userId: toStr((user as any)._id) || null,
+      name: String(sender?.legal_name || sender?.name || firm.firmName || senderEmail),
+      email: senderEmail,
+    },
+    createdBy: toStr((user as any)?._id ?? (user as any)?.email ?? "system"),
+  });
+  if (!envelope.ok) {
+    if (generated?.ok) {
+      await docsColl.deleteOne({ _id: new ObjectId(generated.document.id) }).catch(() => {});
+    }
+    return NextResponse.json({ ok: false, error: envelope.error }, { status: envelope.status });
+  }
+
+  leaseDoc.signatureEnvelopeId = envelope.envelope._id;
   await leases.insertOne(leaseDoc as any);
 
-  // Update application status & link leaseId
+  // Link leaseId; sending doesn't move the status (signatures do)
   const updateDoc: any = {
     $set: {
-      status: nextStatus,
       leaseId,
       updatedAt: now,
     },
@@ -412,12 +362,16 @@ export async function POST(req: NextRequest) {
       timeline: {
         at: now,
         by: toStr((user as any)?._id ?? (user as any)?.email ?? "system"),
-        event: "lease.finalized",
+        event: "lease.sent_for_signature",
         meta: {
           from: currentStatus,
           to: nextStatus,
           leaseId,
+          envelopeId: envelope.envelope._id,
+          invited: envelope.invited.length,
           docsSent: selectedDocRecords.map((d) => ({ id: d.id, title: d.title })),
+          templateId: template?._id ?? null,
+          missingFields: generated?.ok ? generated.missing : [],
           completedInAppFolio,
         },
       },
@@ -426,107 +380,14 @@ export async function POST(req: NextRequest) {
 
   await apps.updateOne(appFilter, updateDoc);
 
-  // Build SES attachments from S3
-  const attachments = await Promise.all(
-    selectedDocRecords.map(async (d) => {
-      if (!d.objectKey) return null;
-      try {
-        const { base64, contentType } = await getS3ObjectBase64(d.objectKey);
-        return {
-          filename: d.fileName || `${d.title}.pdf`,
-          contentType,
-          contentBase64: base64,
-        };
-      } catch (e) {
-        console.error("[handoff] failed to fetch S3 object", d.objectKey, e);
-        return null;
-      }
-    })
-  );
-  const mailAttachments = attachments.filter(Boolean) as {
-    filename: string;
-    contentType: string;
-    contentBase64: string;
-  }[];
-
-  // Email household members with docs + checklist summary
-  if (app.householdId) {
-    const recipients = await getHouseholdUserEmails(db, String(app.householdId));
-    if (recipients.length) {
-      const mailer = getMailer();
-
-      const b = app.building;
-      const u = app.unit;
-      const premises = b
-        ? `${b.addressLine1 ?? ""}${b.addressLine2 ? `, ${b.addressLine2}` : ""}, ${
-            b.city ?? ""
-          }, ${b.state ?? ""} ${b.postalCode ?? ""}${
-            u?.unitNumber ? ` — ${u.unitNumber}` : ""
-          }`
-        : "Your new home";
-
-      const subject = `Your lease is ready – ${premises}`;
-      const docsList = selectedDocRecords.map((d) => `• ${d.title}`).join("\n");
-
-      const checklistList = leaseChecklist
-        .map((c) => `• ${c.label} (due by ${c.dueAt ?? "TBD"})`)
-        .join("\n");
-
-      const text = [
-        `Hi,`,
-        ``,
-        `Your lease for ${premises} has been finalized.`,
-        ``,
-        `Included documents (attached):`,
-        docsList || "• (no documents were attached)",
-        ``,
-        `Next steps / checklist:`,
-        checklistList || "• (no additional items configured)",
-        ``,
-        `If you have any questions, please contact your landlord or property manager.`,
-      ].join("\n");
-
-      const html =
-        `<p>Hi,</p>` +
-        `<p>Your lease for <strong>${premises}</strong> has been finalized.</p>` +
-        `<p><strong>Included documents (attached):</strong><br>` +
-        (selectedDocRecords.length
-          ? `<ul>${selectedDocRecords.map((d) => `<li>${d.title}</li>`).join("")}</ul>`
-          : `<em>No documents were attached.</em>`) +
-        `</p>` +
-        `<p><strong>Next steps / checklist:</strong><br>` +
-        (leaseChecklist.length
-          ? `<ul>${leaseChecklist
-              .map(
-                (c) =>
-                  `<li>${c.label}${
-                    c.dueAt ? ` (due by ${new Date(c.dueAt).toLocaleDateString()})` : ""
-                  }</li>`
-              )
-              .join("")}</ul>`
-          : `<em>No additional items were configured.</em>`) +
-        `<p>If you have any questions, please contact your landlord or property manager.</p>`;
-
-      await Promise.all(
-        recipients.map((to) =>
-          mailer.send({
-            to,
-            subject,
-            html,
-            text,
-            idempotencyKey: `lease-handoff:${leaseId}:${to}`,
-            traceId: `lease:${leaseId}`,
-            attachments: mailAttachments.length ? mailAttachments : undefined,
-          })
-        )
-      );
-    }
-  }
-
   return NextResponse.json({
     ok: true,
     leaseId,
     nextStatus,
     docsSent: selectedDocRecords.length,
+    templateId: template?._id ?? null,
+    missingFields: generated?.ok ? generated.missing : [],
+    envelopeId: envelope.envelope._id,
+    invited: envelope.invited.length,
   });
 }
@@ -0,0 +1,78 @@
+// app/api/landlord/payments/[id]/refund/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { resolveAdminFirmForUser, toStringId } from "@/app/api/stripe/connect/_shared";
+import { issueRefund, sendRefundReceipt } from "@/lib/ledger/refunds";
+import { idEq } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function getParamId(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.id) ? p.id[0] : p?.id;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/payments/[id]/refund
+  return segs[segs.length - 2] || "";
+}
+
+/**
+ * POST /api/landlord/payments/[id]/refund
+ * Body: { amountCents, reason }
+ * Firm owner/admin only. Refunds through Stripe (reversing the transfer to the
+ * firm's connected account), posts the refund to the ledger and emails a receipt.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
+  }
+
+  let firmCtx: { firmId: string; role: string };
+  try {
+    firmCtx = await resolveAdminFirmForUser(user);
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+      { status: e?.status ?? 400 }
+    );
+  }
+
+  const id = await getParamId(req, ctx);
+  if (!id) return NextResponse.json({ ok: false, error: "bad_id" }, { status: 400 });
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const payment = await db.collection<any>("payments").findOne(idEq("_id", id));
+    // Another firm's payment looks the same as a missing one
+    if (!payment || String(payment.firmId ?? "") !== firmCtx.firmId) {
+      return NextResponse.json({ ok: false, error: "payment_not_found" }, { status: 404 });
+    }
+
+    const by = toStringId((user as any)._id ?? (user as any).email);
+    const r = await issueRefund(db, payment, { amountCents: body?.amountCents, reason: body?.reason, by });
+    if (!r.ok) {
+      return NextResponse.json({ ok: false, error: r.error, ...(r.detail && { detail: r.detail }) }, { status: r.status });
+    }
+
+    const receipt = await sendRefundReceipt(db, payment, r.refund);
+    if (!receipt.ok) console.warn("[payments] refund receipt not sent,", { refundId: r.refund.id, error: receipt.error });
+
+    return NextResponse.json({ ok: true, refund: r.refund, entries: r.posted, receiptSent: receipt.sent });
+  } catch (err: any) {
+    console.error("[payments] refund failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
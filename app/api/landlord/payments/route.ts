@@ -0,0 +1,107 @@
+// app/api/landlord/payments/route.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { resolveAdminFirmForUser } from "@/app/api/stripe/connect/_shared";
+import { paymentLabel, refundableCents } from "@/lib/ledger/refunds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toMaybeObjectId = (v: any) => (ObjectId.isValid(String(v)) ? new ObjectId(String(v)) : v);
+
+/**
+ * GET /api/landlord/payments?appId=&limit=
+ * Firm owner/admin: the firm's settled (and returned) payments, newest first,
+ * with what can still be refunded on each.
+ */
+export async function GET(req: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
+  }
+
+  let firmCtx: { firmId: string; role: string };
+  try {
+    firmCtx = await resolveAdminFirmForUser(user);
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "resolve_firm_failed", ...(e?.data && { details: e.data }) },
+      { status: e?.status ?? 400 }
+    );
+  }
+
+  try {
+    const url = new URL(req.url);
+    const appId = url.searchParams.get("appId");
+    const limit = Math.min(200, Math.max(1, Number(url.searchParams.get("limit")) || 50));
+
+    const db = await getDb();
+    const filter: any = { firmId: firmCtx.firmId, status: { $in: ["succeeded", "returned"] } };
+    if (appId) filter.appId = { $in: [appId, toMaybeObjectId(appId)] };
+
+    const rows = await db
+      .collection<any>("payments")
+      .find(filter, {
+        projection: {
+          appId: 1,
+          kind: 1,
+          status: 1,
+          amountCents: 1,
+          refundedCents: 1,
+          refunds: 1,
+          dispute: 1,
+          succeededAt: 1,
+          createdAt: 1,
+        },
+      })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    // Premises label per application, from its lease
+    const appIds = Array.from(new Set(rows.map((p) => String(p.appId ?? "")).filter(Boolean)));
+    const leases = appIds.length
+      ? await db
+          .collection<any>("unit_leases")
+          .find(
+            { appId: { $in: [...appIds, ...appIds.map(toMaybeObjectId)] } },
+            { projection: { appId: 1, unitNumber: 1, "building.addressLine1": 1 } }
+          )
+          .toArray()
+      : [];
+    const premises = new Map<string, string>();
+    for (const l of leases) {
+      const label = [l.building?.addressLine1, l.unitNumber ? `Unit ${l.unitNumber}` : null].filter(Boolean).join(" — ");
+      if (label) premises.set(String(l.appId), label);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      payments: rows.map((p) => ({
+        _id: String(p._id),
+        appId: p.appId ? String(p.appId) : null,
+        premises: premises.get(String(p.appId ?? "")) ?? null,
+        kind: p.kind ?? null,
+        label: paymentLabel(p.kind),
+        status: p.status,
+        amountCents: Number(p.amountCents) || 0,
+        refundedCents: Number(p.refundedCents) || 0,
+        refundableCents: refundableCents(p),
+        disputed: !!(p.dispute?.id && p.dispute.status !== "won"),
+        paidAt: p.succeededAt ?? p.createdAt ?? null,
+        refunds: (Array.isArray(p.refunds) ? p.refunds : []).map((r: any) => ({
+          id: r.id,
+          amountCents: r.amountCents,
+          reason: r.reason,
+          status: r.status,
+          at: r.at,
+        })),
+      })),
+    });
+  } catch (err: any) {
+    console.error("[payments] list failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// app/api/landlord/properties/[id]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { PropertyDoc } from "@/lib/models";
+import { propertyToWire, validatePropertyInput } from "@/lib/properties/inventory";
+import { resolveInventoryFirm } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * PATCH /api/landlord/properties/[id]
+ * Body: { name?, address?, archived? }. Owners/admins only.
+ * Moving a building onto another one's address is a 409; archiving hides the
+ * building and its units from the inventory and the lease setup picker.
+ * =======================================================================
+ */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const col = db.collection<PropertyDoc>("properties");
+    const cur = await col.findOne({ _id: id, firmId: r.firmId });
+    if (!cur) return NextResponse.json({ ok: false, error: "property_not_found" }, { status: 404 });
+
+    const set: Partial<PropertyDoc> = { updatedAt: new Date(), updatedBy: r.uid };
+    if (body?.address !== undefined || body?.name !== undefined) {
+      const v = validatePropertyInput({ name: body?.name ?? cur.name, address: body?.address ?? cur.address });
+      if (!v.ok) return NextResponse.json({ ok: false, error: v.error, fields: v.fields }, { status: 400 });
+      if (v.addressKey !== cur.addressKey) {
+        const clash = await col.findOne({ firmId: r.firmId, addressKey: v.addressKey, _id: { $ne: id } });
+        if (clash) {
+          return NextResponse.json({ ok: false, error: "duplicate_address", property: propertyToWire(clash) }, { status: 409 });
+        }
+      }
+      Object.assign(set, { name: v.name, address: v.address, addressKey: v.addressKey });
+    }
+    if (typeof body?.archived === "boolean") set.archived = body.archived;
+
+    const after = await col.findOneAndUpdate({ _id: id, firmId: r.firmId }, { $set: set }, { returnDocument: "after" });
+    if (!after) return NextResponse.json({ ok: false, error: "property_not_found" }, { status: 404 });
+    if (typeof body?.archived === "boolean") {
+      await db
+        .collection("units")
+        .updateMany({ propertyId: id, firmId: r.firmId }, { $set: { archived: body.archived, updatedAt: set.updatedAt, updatedBy: r.uid } });
+    }
+    return NextResponse.json({ ok: true, property: propertyToWire(after) });
+  } catch (err: any) {
+    if (err?.code === 11000) {
+      return NextResponse.json({ ok: false, error: "duplicate_address" }, { status: 409 });
+    }
+    console.error("[properties] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+// app/api/landlord/properties/[id]/units/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { PropertyDoc } from "@/lib/models";
+import { ensureUnit, unitToWire, validateUnitInput } from "@/lib/properties/inventory";
+import { resolveInventoryFirm } from "../../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * POST /api/landlord/properties/[id]/units
+ * Body: { unitNumber, beds?, baths?, sqft?, rentCents?, amenities? }. Owners/admins only.
+ * unitNumber "" is the whole building (single-family). "Apt 3B" and "#3b"
+ * are the same unit, a 409 when it already exists.
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const v = validateUnitInput({ unitNumber: "", ...body });
+  if (!v.ok) return NextResponse.json({ ok: false, error: v.error }, { status: 400 });
+
+  try {
+    const db = await getDb();
+    const property = await db.collection<PropertyDoc>("properties").findOne({ _id: id, firmId: r.firmId });
+    if (!property) return NextResponse.json({ ok: false, error: "property_not_found" }, { status: 404 });
+
+    const { unitNumber, ...attrs } = v.fields;
+    delete attrs.unitKey; // ensureUnit derives it
+    const { unit, created } = await ensureUnit(db, {
+      firmId: r.firmId,
+      propertyId: property._id,
+      unitNumber: unitNumber ?? "",
+      by: r.uid,
+      attrs,
+    });
+    if (!created) {
+      return NextResponse.json({ ok: false, error: "duplicate_unit", unit: unitToWire(unit) }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, unit: unitToWire(unit, { status: "vacant", leaseId: null, until: null }) });
+  } catch (err: any) {
+    console.error("[properties] unit POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+// app/api/landlord/properties/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { PropertyDoc, UnitDoc } from "@/lib/models";
+import {
+  MAX_PROPERTIES_LISTED,
+  MAX_UNITS_LISTED,
+  ensureProperty,
+  occupancyByUnit,
+  propertyToWire,
+  unitToWire,
+  validatePropertyInput,
+} from "@/lib/properties/inventory";
+import { resolveInventoryFirm, todayYmd } from "./_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/properties[?archived=1]
+ *   → { properties: [{ id, name, address, addressLine, archived,
+ *        units: [{ id, unitNumber, beds, baths, sqft, rentCents, amenities, photos,
+ *                  occupancy: { status, leaseId, until } }] }] }
+ * The firm's whole inventory, buildings by name, units by number.
+ * =======================================================================
+ */
+export async function GET(req: Request) {
+  const r = await resolveInventoryFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+  const withArchived = new URL(req.url).searchParams.get("archived") === "1";
+  const notArchived = withArchived ? {} : { archived: { $ne: true } };
+
+  try {
+    const db = await getDb();
+    const properties = await db
+      .collection<PropertyDoc>("properties")
+      .find({ firmId: r.firmId, ...notArchived })
+      .sort({ name: 1 })
+      .limit(MAX_PROPERTIES_LISTED)
+      .toArray();
+    const units = await db
+      .collection<UnitDoc>("units")
+      .find({ firmId: r.firmId, propertyId: { $in: properties.map((p) => p._id) }, ...notArchived })
+      .limit(MAX_UNITS_LISTED)
+      .toArray();
+    units.sort((a, b) => a.unitNumber.localeCompare(b.unitNumber, undefined, { numeric: true }));
+    const occupancy = await occupancyByUnit(db, r.firmId, units.map((u) => u._id), todayYmd());
+
+    return NextResponse.json({
+      ok: true,
+      properties: properties.map((p) => ({
+        ...propertyToWire(p),
+        units: units.filter((u) => u.propertyId === p._id).map((u) => unitToWire(u, occupancy.get(u._id))),
+      })),
+    });
+  } catch (err: any) {
+    console.error("[properties] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/landlord/properties
+ * Body: { name?, address: { line1, line2?, city, state, zip } }. Owners/admins only.
+ * An address that normalizes to an existing building is a 409 naming it.
+ * =======================================================================
+ */
+export async function POST(req: Request) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const v = validatePropertyInput(body ?? {});
+  if (!v.ok) return NextResponse.json({ ok: false, error: v.error, fields: v.fields }, { status: 400 });
+
+  try {
+    const db = await getDb();
+    const { property, created } = await ensureProperty(db, { firmId: r.firmId, address: v.address, name: v.name, by: r.uid });
+    if (!created) {
+      return NextResponse.json(
+        { ok: false, error: "duplicate_address", property: propertyToWire(property) },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ ok: true, property: { ...propertyToWire(property), units: [] } });
+  } catch (err: any) {
+    console.error("[properties] POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+// app/api/landlord/units/[id]/photos/route.ts
+import crypto from "crypto";
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { s3, S3_BUCKET, S3_PUBLIC_BASE_URL } from "@/lib/aws/s3";
+import { getDb } from "@/lib/db";
+import type { UnitDoc } from "@/lib/models";
+import { MAX_PHOTOS, loadFirmUnit, unitToWire } from "@/lib/properties/inventory";
+import { resolveInventoryFirm } from "../../../properties/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PHOTO_TYPES: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" };
+
+const keyPrefix = (firmId: string, unitId: string) => `units/${firmId}/${unitId}/`;
+
+/* =======================================================================
+ * POST /api/landlord/units/[id]/photos
+ * Body: { contentType }  (image/jpeg, image/png or image/webp)
+ *   → { putUrl, key }  presigned for 10 minutes; PUT the file there, then
+ *     attach it with PUT below. Owners/admins only.
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  if (!S3_BUCKET) {
+    console.error("[units] photo upload: S3_BUCKET is not configured");
+    return NextResponse.json({ ok: false, error: "missing_s3_bucket" }, { status: 500 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const ext = PHOTO_TYPES[String(body?.contentType ?? "")];
+  if (!ext) return NextResponse.json({ ok: false, error: "unsupported_type" }, { status: 400 });
+
+  try {
+    const db = await getDb();
+    const found = await loadFirmUnit(db, r.firmId, id);
+    if (!found) return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+    if ((found.unit.photos ?? []).length >= MAX_PHOTOS) {
+      return NextResponse.json({ ok: false, error: "too_many_photos" }, { status: 409 });
+    }
+
+    const key = `${keyPrefix(r.firmId, id)}${Date.now()}-${crypto.randomBytes(6).toString("hex")}.${ext}`;
+    const putUrl = await getSignedUrl(
+      s3,
+      new PutObjectCommand({ Bucket: S3_BUCKET, Key: key, ContentType: String(body.contentType) }),
+      { expiresIn: 60 * 10 }
+    );
+    return NextResponse.json({ ok: true, putUrl, key });
+  } catch (err: any) {
+    console.error("[units] photo upload-init failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PUT /api/landlord/units/[id]/photos
+ * Body: { key, caption? }  a key issued by POST above for this unit
+ * =======================================================================
+ */
+export async function PUT(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => ({}));
+  const key = String(body?.key ?? "");
+  if (!key.startsWith(keyPrefix(r.firmId, id)) || key.includes("..")) {
+    return NextResponse.json({ ok: false, error: "bad_key" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const now = new Date();
+    const photo = {
+      key,
+      url: `${S3_PUBLIC_BASE_URL}/${key}`,
+      caption: typeof body?.caption === "string" ? body.caption.trim().slice(0, 200) || null : null,
+      addedAt: now,
+    };
+    // conditional on the cap and on the key not being attached already
+    const after = await db.collection<UnitDoc>("units").findOneAndUpdate(
+      { _id: id, firmId: r.firmId, "photos.key": { $ne: key }, [`photos.${MAX_PHOTOS - 1}`]: { $exists: false } },
+      { $push: { photos: photo }, $set: { updatedAt: now, updatedBy: r.uid } },
+      { returnDocument: "after" }
+    );
+    if (!after) {
+      const found = await loadFirmUnit(db, r.firmId, id);
+      if (!found) return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+      if (found.unit.photos?.some((p) => p.key === key)) return NextResponse.json({ ok: true, unit: unitToWire(found.unit) });
+      return NextResponse.json({ ok: false, error: "too_many_photos" }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, unit: unitToWire(after) });
+  } catch (err: any) {
+    console.error("[units] photo attach failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
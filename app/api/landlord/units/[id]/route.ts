@@ -0,0 +1,106 @@
+// app/api/landlord/units/[id]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { UnitDoc } from "@/lib/models";
+import {
+  loadFirmUnit,
+  occupancyByUnit,
+  propertyToWire,
+  unitHistory,
+  unitToWire,
+  validateUnitInput,
+} from "@/lib/properties/inventory";
+import { resolveInventoryFirm, todayYmd } from "../../properties/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/landlord/units/[id]
+ *   → { unit (with occupancy), property, history: { leases, applications } }
+ * =======================================================================
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  try {
+    const db = await getDb();
+    const found = await loadFirmUnit(db, r.firmId, id);
+    if (!found) return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+    const occupancy = await occupancyByUnit(db, r.firmId, [id], todayYmd());
+    return NextResponse.json({
+      ok: true,
+      unit: unitToWire(found.unit, occupancy.get(id)),
+      property: propertyToWire(found.property),
+      history: await unitHistory(db, r.firmId, id),
+    });
+  } catch (err: any) {
+    console.error("[units] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * PATCH /api/landlord/units/[id]
+ * Body: { unitNumber?, beds?, baths?, sqft?, rentCents?, amenities?, archived?,
+ *         photos?: [{ key, caption? }] }. Owners/admins only.
+ * `photos` reorders, captions or drops photos already on the unit; new ones
+ * come in through ./photos.
+ * =======================================================================
+ */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const v = validateUnitInput(body ?? {});
+  if (!v.ok) return NextResponse.json({ ok: false, error: v.error }, { status: 400 });
+
+  try {
+    const db = await getDb();
+    const col = db.collection<UnitDoc>("units");
+    const found = await loadFirmUnit(db, r.firmId, id);
+    if (!found) return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+    const { unit } = found;
+
+    const set: Partial<UnitDoc> = { ...v.fields, updatedAt: new Date(), updatedBy: r.uid };
+    if (v.fields.unitKey !== undefined && v.fields.unitKey !== unit.unitKey) {
+      const clash = await col.findOne({ propertyId: unit.propertyId, unitKey: v.fields.unitKey, _id: { $ne: id } });
+      if (clash) return NextResponse.json({ ok: false, error: "duplicate_unit", unit: unitToWire(clash) }, { status: 409 });
+    }
+    if (typeof body?.archived === "boolean") set.archived = body.archived;
+    if (body?.photos !== undefined) {
+      if (!Array.isArray(body.photos)) return NextResponse.json({ ok: false, error: "invalid_photos" }, { status: 400 });
+      const byKey = new Map((unit.photos ?? []).map((p) => [p.key, p]));
+      const next = [];
+      for (const p of body.photos) {
+        const cur = byKey.get(String(p?.key ?? ""));
+        if (!cur) return NextResponse.json({ ok: false, error: "unknown_photo" }, { status: 400 });
+        byKey.delete(cur.key);
+        next.push({ ...cur, caption: typeof p?.caption === "string" ? p.caption.trim().slice(0, 200) || null : cur.caption ?? null });
+      }
+      set.photos = next;
+    }
+
+    const after = await col.findOneAndUpdate({ _id: id, firmId: r.firmId }, { $set: set }, { returnDocument: "after" });
+    if (!after) return NextResponse.json({ ok: false, error: "unit_not_found" }, { status: 404 });
+    const occupancy = await occupancyByUnit(db, r.firmId, [id], todayYmd());
+    return NextResponse.json({ ok: true, unit: unitToWire(after, occupancy.get(id)) });
+  } catch (err: any) {
+    if (err?.code === 11000) {
+      return NextResponse.json({ ok: false, error: "duplicate_unit" }, { status: 409 });
+    }
+    console.error("[units] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// app/api/landlord/units/availability/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { PropertyDoc, UnitDoc } from "@/lib/models";
+import { MAX_UNITS_LISTED } from "@/lib/properties/inventory";
+import { addMonthsYmd, calendarSegments, isYmd, unitWindows } from "@/lib/properties/availability";
+import { resolveInventoryFirm, todayYmd } from "../../properties/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_MONTHS = 12;
+
+/* =======================================================================
+ * GET /api/landlord/units/availability?from=YYYY-MM-DD&months=3[&propertyId=…][&unitId=…]
+ *   → { from, to, units: [{ id, unitNumber, propertyId, propertyName,
+ *        segments: [{ kind: occupied|held|vacant, start, end, leaseId, appId }] }] }
+ * Calendar rows for the firm's active units. `from` defaults to the first of
+ * the current month; `to` is exclusive.
+ * =======================================================================
+ */
+export async function GET(req: Request) {
+  const r = await resolveInventoryFirm(req, { admin: false });
+  if ("error" in r) return r.error;
+
+  const sp = new URL(req.url).searchParams;
+  const from = sp.get("from") || `${todayYmd().slice(0, 7)}-01`;
+  if (!isYmd(from)) return NextResponse.json({ ok: false, error: "bad_from" }, { status: 400 });
+  const months = Math.min(MAX_MONTHS, Math.max(1, Number(sp.get("months") || 3) | 0));
+  const to = addMonthsYmd(from, months);
+  const propertyId = sp.get("propertyId");
+  const unitId = sp.get("unitId");
+
+  try {
+    const db = await getDb();
+    const units = await db
+      .collection<UnitDoc>("units")
+      .find({
+        firmId: r.firmId,
+        archived: { $ne: true },
+        ...(propertyId ? { propertyId } : {}),
+        ...(unitId ? { _id: unitId } : {}),
+      })
+      .limit(MAX_UNITS_LISTED)
+      .toArray();
+    const properties = await db
+      .collection<PropertyDoc>("properties")
+      .find({ firmId: r.firmId, _id: { $in: [...new Set(units.map((u) => u.propertyId))] } }, { projection: { name: 1 } })
+      .toArray();
+    const nameOf = new Map(properties.map((p) => [p._id, p.name]));
+    units.sort(
+      (a, b) =>
+        String(nameOf.get(a.propertyId) ?? "").localeCompare(String(nameOf.get(b.propertyId) ?? "")) ||
+        a.unitNumber.localeCompare(b.unitNumber, undefined, { numeric: true })
+    );
+
+    const windows = await unitWindows(db, r.firmId, units.map((u) => u._id), { includeEnded: true });
+
+    return NextResponse.json({
+      ok: true,
+      from,
+      to,
+      units: units.map((u) => ({
+        id: u._id,
+        unitNumber: u.unitNumber,
+        propertyId: u.propertyId,
+        propertyName: nameOf.get(u.propertyId) ?? "",
+        segments: calendarSegments(windows.get(u._id) ?? [], from, to),
+      })),
+    });
+  } catch (err: any) {
+    console.error("[units] availability failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/landlord/units/import/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { linkExistingToInventory } from "@/lib/properties/inventory";
+import { resolveInventoryFirm } from "../../properties/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * POST /api/landlord/units/import
+ *   → { leasesLinked, applicationsLinked, skipped }
+ * Builds inventory from the addresses already on the firm's leases and
+ * applications and links them to it. Owners/admins only; safe to repeat.
+ * =======================================================================
+ */
+export async function POST(req: Request) {
+  const r = await resolveInventoryFirm(req, { admin: true });
+  if ("error" in r) return r.error;
+
+  try {
+    const db = await getDb();
+    const out = await linkExistingToInventory(db, { firmId: r.firmId, by: r.uid });
+    console.log("[units] import,", { firmId: r.firmId, ...out });
+    return NextResponse.json({ ok: true, ...out });
+  } catch (err: any) {
+    console.error("[units] import failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/receipts/deposit-interest/[entryId]/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { renderDepositInterestStatement } from "@/lib/deposit/interestStatement";
+import { canViewReceipt, htmlShell, RECEIPT_HTML_HEADERS, toMaybeObjectId } from "@/lib/receipts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ---------- helpers ---------- */
+/** In Next 15+, ctx.params may be a Promise. */
+async function resolveParams(ctx: any): Promise<Record<string, string> | null> {
+  if (!ctx || !("params" in ctx)) return null;
+  const p = (ctx as any).params;
+  if (!p) return null;
+  if (typeof (p as any)?.then === "function") {
+    try {
+      return await p;
+    } catch {
+      return null;
+    }
+  }
+  return p as Record<string, string>;
+}
+
+const page = (message: string, status: number) =>
+  new NextResponse(
+    htmlShell(`<h1>Security Deposit Interest</h1><p class='muted'>${message}</p>`, "Security Deposit Interest"),
+    { status, headers: RECEIPT_HTML_HEADERS },
+  );
+
+/* ---------- route ---------- */
+export async function GET(req: Request, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return page("Sign in to view this statement.", 401);
+
+  const db = await getDb();
+  const url = new URL(req.url);
+  const params = await resolveParams(ctx);
+  const entryId = params?.entryId || url.searchParams.get("entryId") || "";
+
+  const entry = entryId
+    ? await db.collection<any>("deposit_interest_ledger").findOne({ _id: entryId })
+    : null;
+
+  // The landlord's firm or the lease's household. Same answer whether it
+  // doesn't exist or isn't yours.
+  let canView = false;
+  if (entry) {
+    let householdId = entry.householdId;
+    if (!householdId) {
+      const lease = await db
+        .collection<any>("unit_leases")
+        .findOne({ _id: toMaybeObjectId(entry.leaseId) }, { projection: { householdId: 1 } });
+      householdId = lease?.householdId;
+    }
+    canView = isAppAdmin(user) || (await canViewReceipt(db, user, { firmId: entry.firmId, householdId }));
+  }
+  if (!canView) return page("Statement not found.", 404);
+
+  const html = await renderDepositInterestStatement(db, entry);
+  return new NextResponse(html, { headers: RECEIPT_HTML_HEADERS });
+}
@@ -0,0 +1,64 @@
+// app/api/receipts/deposit-return/[leaseId]/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { renderDepositReturnStatement } from "@/lib/deposit/statement";
+import { canViewReceipt, htmlShell, RECEIPT_HTML_HEADERS } from "@/lib/receipts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ---------- helpers ---------- */
+/** In Next 15+, ctx.params may be a Promise. */
+async function resolveParams(ctx: any): Promise<Record<string, string> | null> {
+  if (!ctx || !("params" in ctx)) return null;
+  const p = (ctx as any).params;
+  if (!p) return null;
+  if (typeof (p as any)?.then === "function") {
+    try {
+      return await p;
+    } catch {
+      return null;
+    }
+  }
+  return p as Record<string, string>;
+}
+
+const page = (message: string, status: number) =>
+  new NextResponse(htmlShell(`<h1>Security Deposit Return</h1><p class='muted'>${message}</p>`, "Security Deposit Return"), {
+    status,
+    headers: RECEIPT_HTML_HEADERS,
+  });
+
+/* ---------- route ---------- */
+export async function GET(req: Request, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return page("Sign in to view this statement.", 401);
+
+  const db = await getDb();
+  const url = new URL(req.url);
+  const params = await resolveParams(ctx);
+  const leaseId = params?.leaseId || url.searchParams.get("leaseId") || "";
+
+  const doc = leaseId
+    ? await db.collection<any>("deposit_returns").findOne({ leaseId })
+    : null;
+
+  // The landlord's firm, or the household once the statement is sworn (drafts
+  // stay with the landlord, as in /api/tenant/lease/move-out). Same answer
+  // whether it doesn't exist or isn't yours.
+  const canView =
+    !!doc &&
+    (isAppAdmin(user) ||
+      (await canViewReceipt(db, user, {
+        firmId: doc.firmId,
+        householdId: doc.householdId,
+        householdCanView: doc.status !== "draft",
+      })));
+  if (!canView) {
+    return page("No move-out statement has been started for this lease.", 404);
+  }
+
+  const html = await renderDepositReturnStatement(db, doc, { evidenceLinks: true });
+  return new NextResponse(html, { headers: RECEIPT_HTML_HEADERS });
+}
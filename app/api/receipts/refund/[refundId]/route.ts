@@ -0,0 +1,76 @@
+// app/api/receipts/refund/[refundId]/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser, isAppAdmin } from "@/lib/auth";
+import { idEq } from "@/lib/ids";
+import { renderRefundReceipt } from "@/lib/ledger/refunds";
+import { canViewReceipt, htmlShell, RECEIPT_HTML_HEADERS, toMaybeObjectId } from "@/lib/receipts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ---------- helpers ---------- */
+/** In Next 15+, ctx.params may be a Promise. */
+async function resolveParams(ctx: any): Promise<Record<string, string> | null> {
+  if (!ctx || !("params" in ctx)) return null;
+  const p = (ctx as any).params;
+  if (!p) return null;
+  if (typeof (p as any)?.then === "function") {
+    try {
+      return await p;
+    } catch {
+      return null;
+    }
+  }
+  return p as Record<string, string>;
+}
+
+const page = (message: string, status: number) =>
+  new NextResponse(htmlShell(`<h1>Refund Receipt</h1><p class='muted'>${message}</p>`, "Refund Receipt"), {
+    status,
+    headers: RECEIPT_HTML_HEADERS,
+  });
+
+/** The paying application's household, or its lease's */
+async function householdOf(db: any, payment: any) {
+  if (!payment.appId) return null;
+  const app = await db
+    .collection("applications")
+    .findOne(idEq("_id", payment.appId), { projection: { householdId: 1 } });
+  if (app?.householdId) return app.householdId;
+  const lease = await db
+    .collection("unit_leases")
+    .findOne(
+      { appId: { $in: [String(payment.appId), toMaybeObjectId(payment.appId)] } },
+      { projection: { householdId: 1 } },
+    );
+  return lease?.householdId ?? null;
+}
+
+/* ---------- route ---------- */
+export async function GET(req: Request, ctx: any) {
+  const user = await getSessionUser();
+  if (!user) return page("Sign in to view this receipt.", 401);
+
+  const db = await getDb();
+  const url = new URL(req.url);
+  const params = await resolveParams(ctx);
+  const refundId = params?.refundId || url.searchParams.get("refundId") || "";
+
+  const payment = refundId
+    ? await db.collection<any>("payments").findOne({ "refunds.id": refundId })
+    : null;
+  const refund = payment?.refunds?.find((r: any) => r.id === refundId) ?? null;
+
+  // The landlord's firm or the paying household. Same answer whether it
+  // doesn't exist or isn't yours.
+  const canView =
+    !!payment &&
+    refund?.status === "succeeded" &&
+    (isAppAdmin(user) ||
+      (await canViewReceipt(db, user, { firmId: payment.firmId, householdId: await householdOf(db, payment) })));
+  if (!canView) return page("Receipt not found.", 404);
+
+  const html = await renderRefundReceipt(db, payment, refund);
+  return new NextResponse(html, { headers: RECEIPT_HTML_HEADERS });
+}
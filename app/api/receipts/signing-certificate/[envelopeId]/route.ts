@@ -0,0 +1,177 @@
+// app/api/receipts/signing-certificate/[envelopeId]/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import type { LeaseSignatureEnvelopeDoc, LeaseSignatureEvent } from "@/lib/models";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ---------- helpers ---------- */
+function esc(x: any): string {
+  const s = String(x ?? "");
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlShell(inner: string, title: string) {
+  return `<!doctype html><html lang="en"><head>
+<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
+<title>${esc(title)}</title>
+<style>
+ body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Inter,Arial,sans-serif;background:#f7f7f7;margin:0}
+ .page{max-width:900px;margin:24px auto;background:#fff;border:1px solid #e5e7eb;border-radius:12px;padding:24px}
+ h1{font-size:20px;font-weight:700;margin:0}
+ h2{font-size:16px;font-weight:600;margin:18px 0 8px}
+ hr{border:0;border-top:1px solid #e5e7eb;margin:16px 0}
+ .muted{color:#475569;font-size:12px}
+ .grid{display:grid;grid-template-columns:1fr 1fr;gap:12px}
+ @media(max-width:760px){.grid{grid-template-columns:1fr}}
+ .row{font-size:14px}
+ .label{color:#64748b;display:block;font-size:12px}
+ .box{border:1px solid #e5e7eb;border-radius:8px;padding:12px;background:#fff}
+ .note{background:#f1f5f9;border:1px dashed #cbd5e1;border-radius:8px;padding:10px;color:#334155;font-size:12px}
+ table{width:100%;border-collapse:collapse;font-size:13px}
+ th,td{text-align:left;border-bottom:1px solid #e5e7eb;padding:8px 6px;vertical-align:top}
+ td.num,th.num{text-align:right;white-space:nowrap}
+ tr.total td{font-weight:700;border-top:2px solid #cbd5e1}
+</style>
+</head><body><div class="page">${inner}</div></body></html>`;
+}
+
+const HTML_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "X-Frame-Options": "SAMEORIGIN",
+  "Content-Security-Policy":
+    "default-src 'none'; img-src data: https:; style-src 'unsafe-inline'; frame-ancestors 'self'; base-uri 'none'; form-action 'none';",
+  "Referrer-Policy": "no-referrer",
+};
+
+function fmtDateTime(v: any): string {
+  if (!v) return "—";
+  const d = new Date(v);
+  return isNaN(d.getTime()) ? String(v) : d.toISOString().replace("T", " ").slice(0, 19) + " UTC";
+}
+
+/** In Next 15+, ctx.params may be a Promise. */
+async function resolveParams(ctx: any): Promise<Record<string, string> | null> {
+  if (!ctx || !("params" in ctx)) return null;
+  const p = (ctx as any).params;
+  if (!p) return null;
+  if (typeof (p as any)?.then === "function") {
+    try {
+      return await p;
+    } catch {
+      return null;
+    }
+  }
+  return p as Record<string, string>;
+}
+
+const EVENT_LABEL: Record<LeaseSignatureEvent["type"], string> = {
+  created: "Envelope created",
+  invited: "Signing link sent",
+  viewed: "Documents opened",
+  consented: "Consented to sign electronically",
+  signed: "Signed",
+  completed: "All signatures complete",
+  voided: "Voided",
+};
+
+/* ---------- route ---------- */
+export async function GET(req: Request, ctx: any) {
+  const db = await getDb();
+  const url = new URL(req.url);
+  const params = await resolveParams(ctx);
+  const envelopeId = params?.envelopeId || url.searchParams.get("envelopeId") || "";
+
+  const env = envelopeId
+    ? ((await db.collection<any>("lease_signatures").findOne({ _id: envelopeId })) as LeaseSignatureEnvelopeDoc | null)
+    : null;
+
+  if (!env || env.status !== "completed") {
+    return new NextResponse(
+      htmlShell(
+        "<h1>Certificate of Completion</h1><p class='muted'>Certificate not found, or the lease is not fully signed yet.</p>",
+        "Certificate of Completion",
+      ),
+      { status: 404, headers: HTML_HEADERS },
+    );
+  }
+
+  const nameOf = new Map(env.signers.map((s) => [s.id, s.name]));
+
+  const signerRows = env.signers
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .map((s) => {
+      const sig = s.signature;
+      const mark = !sig
+        ? "—"
+        : sig.method === "drawn" && sig.imageDataUrl
+          ? `<img src="${esc(sig.imageDataUrl)}" alt="Signature of ${esc(s.name)}" style="max-height:48px;max-width:220px"/>`
+          : `<span style="font-family:cursive,serif;font-size:18px">${esc(sig.typedName)}</span>`;
+      return `<tr>
+        <td>${esc(s.name)}<br/><span class="muted">${esc(s.email)} • ${s.role === "landlord" ? "Landlord" : "Tenant"}</span></td>
+        <td>${mark}<br/><span class="muted">${sig ? (sig.method === "drawn" ? "Drawn" : "Typed") : ""}</span></td>
+        <td>${esc(fmtDateTime(s.consentedAt))}</td>
+        <td>${esc(fmtDateTime(sig?.signedAt))}<br/><span class="muted">IP ${esc(sig?.ip || "unknown")}</span><br/><span class="muted">${esc(sig?.userAgent || "")}</span></td>
+      </tr>`;
+    })
+    .join("");
+
+  const docRows = env.documents
+    .map(
+      (d) => `<tr><td>${esc(d.title)}${d.fileName ? `<br/><span class="muted">${esc(d.fileName)}</span>` : ""}</td>
+        <td style="font-family:ui-monospace,monospace;font-size:11px;word-break:break-all">${esc(d.sha256 || "not available")}</td></tr>`,
+    )
+    .join("");
+
+  const eventRows = env.events
+    .slice()
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+    .map(
+      (e) => `<tr><td>${esc(fmtDateTime(e.at))}</td><td>${esc(EVENT_LABEL[e.type] ?? e.type)}</td>
+        <td>${esc(e.signerId ? nameOf.get(e.signerId) ?? e.signerId : "System")}</td><td>${esc(e.ip || "")}</td></tr>`,
+    )
+    .join("");
+
+  const inner = `
+  <h1>Certificate of Completion</h1>
+  <div class="muted">Envelope ${esc(env._id)} • Lease ${esc(env.leaseId)}</div>
+
+  <div class="box" style="margin-top:12px">
+    <div class="grid">
+      <div class="row"><span class="label">Premises</span>${esc(env.premises)}</div>
+      <div class="row"><span class="label">Status</span>Completed</div>
+      <div class="row"><span class="label">Sent</span>${esc(fmtDateTime(env.createdAt))}</div>
+      <div class="row"><span class="label">Completed</span>${esc(fmtDateTime(env.completedAt))}</div>
+    </div>
+  </div>
+
+  <h2>Documents</h2>
+  <table>
+    <thead><tr><th>Document</th><th>SHA-256 at sending</th></tr></thead>
+    <tbody>${docRows}</tbody>
+  </table>
+
+  <h2>Signers</h2>
+  <table>
+    <thead><tr><th>Signer</th><th>Signature</th><th>Consented</th><th>Signed</th></tr></thead>
+    <tbody>${signerRows}</tbody>
+  </table>
+
+  <h2>Audit trail</h2>
+  <table>
+    <thead><tr><th>Time</th><th>Event</th><th>By</th><th>IP</th></tr></thead>
+    <tbody>${eventRows}</tbody>
+  </table>
+
+  <hr/>
+  <div class="note">Each signer opened a personal link sent to the email above, agreed to sign electronically, and signed. The document hashes let anyone check that a copy matches the file that was signed.</div>
+  `;
+
+  return new NextResponse(htmlShell(inner, "Certificate of Completion"), { headers: HTML_HEADERS });
+}
@@ -0,0 +1,47 @@
+// app/api/screening/webhook/[provider]/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getScreeningProvider } from "@/lib/screening/providers";
+import { handleScreeningWebhook } from "@/lib/applications/screening";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ───────────────────────────────────────────────────────────
+   SCREENING WEBHOOK
+   Each provider verifies its own signature. Final report states are
+   terminal, so redeliveries answer 200 without touching anything.
+─────────────────────────────────────────────────────────── */
+
+export async function POST(req: Request, ctx: { params: Promise<{ provider: string }> }) {
+  const { provider: name } = await ctx.params;
+  const provider = getScreeningProvider(name);
+  if (!provider) {
+    return NextResponse.json({ ok: false, error: "unknown_provider" }, { status: 404 });
+  }
+
+  const raw = await req.text();
+  let update;
+  try {
+    update = await provider.parseWebhook(raw, req.headers);
+  } catch (err: any) {
+    console.error("[screening] webhook parse failed,", err?.message || err);
+    return NextResponse.json({ ok: false, error: "bad_payload" }, { status: 400 });
+  }
+  if (!update) {
+    return NextResponse.json({ ok: false, error: "invalid_signature" }, { status: 400 });
+  }
+  if (!update.externalId) {
+    return NextResponse.json({ ok: false, error: "missing_id" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const res = await handleScreeningWebhook(db, provider.name, update);
+    if (!res.ok) return NextResponse.json(res, { status: 404 });
+    return NextResponse.json(res);
+  } catch (err: any) {
+    console.error("[screening] webhook failed,", err?.message || err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/sign/[token]/document/[docId]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { getDb } from "@/lib/db";
+import { findBySigningToken, SIGNING_BUCKET, signingS3 } from "@/lib/leases/signing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/sign/[token]/document/[docId]
+ * Redirects a signer to a short-lived S3 link for one of the envelope's documents.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ token: string; docId: string }> }) {
+  let token = "";
+  let docId = "";
+  try {
+    const p = await ctx.params;
+    token = String(p?.token || "");
+    docId = String(p?.docId || "");
+  } catch {}
+  if (!token || !docId) {
+    return NextResponse.json({ ok: false, error: "missing_params" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const found = await findBySigningToken(db, token);
+    if (!found) return NextResponse.json({ ok: false, error: "signing_link_not_found" }, { status: 404 });
+
+    const doc = found.envelope.documents.find((d) => d.id === docId);
+    if (!doc) return NextResponse.json({ ok: false, error: "document_not_on_envelope" }, { status: 404 });
+    if (!doc.objectKey || !SIGNING_BUCKET) {
+      return NextResponse.json({ ok: false, error: "missing_objectKey" }, { status: 500 });
+    }
+
+    const signed = await getSignedUrl(
+      signingS3,
+      new GetObjectCommand({
+        Bucket: SIGNING_BUCKET,
+        Key: doc.objectKey,
+        ResponseContentDisposition: `inline; filename="${(doc.fileName || `${doc.title}.pdf`).replace(/"/g, "")}"`,
+      }),
+      { expiresIn: 300 }
+    );
+    return NextResponse.redirect(signed, 302);
+  } catch (err: any) {
+    console.error("[signing] document link failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+// app/api/sign/[token]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import {
+  ESIGN_CONSENT_TEXT,
+  findBySigningToken,
+  publicEnvelope,
+  recordSignerView,
+  requestStamp,
+  signEnvelope,
+} from "@/lib/leases/signing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function getToken(req: NextRequest, ctx: { params?: any }) {
+  try {
+    const p = await (ctx as any)?.params;
+    const raw = Array.isArray(p?.token) ? p.token[0] : p?.token;
+    if (raw) return String(raw);
+  } catch {}
+  const segs = (req.nextUrl?.pathname || "").split("/").filter(Boolean);
+  // …/sign/[token]
+  return segs[segs.length - 1] || "";
+}
+
+/**
+ * GET /api/sign/[token]
+ * Public (the link is the credential). What the signer needs to review and sign;
+ * the first open is stamped in the audit trail.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const token = await getToken(req, ctx);
+  try {
+    const db = await getDb();
+    const found = await findBySigningToken(db, token);
+    if (!found) return NextResponse.json({ ok: false, error: "signing_link_not_found" }, { status: 404 });
+
+    const { envelope, signer } = found;
+    if (envelope.status === "out_for_signature") await recordSignerView(db, envelope, signer, requestStamp(req));
+
+    const waitingOnTenants =
+      signer.role === "landlord" && envelope.signers.some((s) => s.role === "tenant" && !s.signature);
+    return NextResponse.json({
+      ok: true,
+      envelope: publicEnvelope(envelope, signer.id),
+      signer: { id: signer.id, role: signer.role, name: signer.name, signedAt: signer.signature?.signedAt ?? null },
+      canSign: envelope.status === "out_for_signature" && !signer.signature && !waitingOnTenants,
+      waitingOnTenants,
+      consentText: ESIGN_CONSENT_TEXT,
+    });
+  } catch (err: any) {
+    console.error("[signing] load failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sign/[token]
+ * Body: { consent: true, method: "typed" | "drawn", typedName?, imageDataUrl? }
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const token = await getToken(req, ctx);
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const r = await signEnvelope(
+      db,
+      token,
+      { consent: body?.consent, method: body?.method, typedName: body?.typedName, imageDataUrl: body?.imageDataUrl },
+      requestStamp(req)
+    );
+    if (!r.ok) return NextResponse.json({ ok: false, error: r.error }, { status: r.status });
+    return NextResponse.json({ ok: true, completed: r.completed, envelope: publicEnvelope(r.envelope) });
+  } catch (err: any) {
+    console.error("[signing] sign failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,1189 @@
+// app/api/stripe/webhook/_handler.ts
+// What a Stripe event does to our data. Called by the webhook route, the retry
+// sweep and admin replays, always through the event store (lib/webhooks/stripeEvents).
+import Stripe from "stripe";
+import { getDb } from "@/lib/db";
+import { getMailer } from "@/lib/mailer";
+import { syncLedger } from "@/lib/ledger/journal";
+import { describeAchReturn, notifyReversal, type ReversalKind } from "@/lib/ledger/reversals";
+import { recordAutopayFailure, recordAutopaySuccess } from "@/lib/rent/autopay";
+
+import {
+  computeNextState,
+  deriveMinRulesFromPlan,
+  normalizeAppState,
+} from "@/domain/rules";
+import { transitionApplication } from "@/lib/applications/transitions";
+import { countersignIfSigned } from "@/lib/leases/signing";
+
+// Use account default API version
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+/** Debug helper */
+function dpush(debug: any, key: string, val: any) {
+  if (!debug) return;
+  debug[key] = val;
+  // Also emit to console when ?debug=1 to see breadcrumbs immediately
+  console.log(
+    "[webhook:debug]",
+    key,
+    typeof val === "object" ? JSON.stringify(val, null, 2) : val
+  );
+}
+
+/** Normalize id filters that might be string or ObjectId */
+async function asFilter(idLike: string) {
+  const { ObjectId } = await import("mongodb");
+  return (ObjectId.isValid(idLike)
+    ? { _id: new ObjectId(idLike) }
+    : { _id: idLike }) as any;
+}
+
+/* ───────────────────────────────────────────────────────────
+   Email helpers
+─────────────────────────────────────────────────────────── */
+
+/** Render the full HTML receipt via your existing route */
+async function renderReceiptHTML(paymentId: string, debug?: any) {
+  const base = process.env.APP_BASE_URL;
+  if (!base) {
+    dpush(debug, "email_html_skip", "APP_BASE_URL_missing");
+    throw new Error("APP_BASE_URL missing");
+  }
+  const url = `${base}/api/receipts/security-deposit/${encodeURIComponent(
+    paymentId
+  )}`;
+  const res = await fetch(url, {
+    cache: "no-store",
+    headers: { "x-internal": "1" },
+  });
+  const text = await res.text();
+  if (!res.ok) {
+    dpush(debug, "email_html_failed", {
+      status: res.status,
+      preview: text.slice(0, 200),
+    });
+    throw new Error(`receipt_render_failed_${res.status}`);
+  }
+  dpush(debug, "email_html_ok", { length: text.length });
+  return text;
+}
+
+/** Plain-text fallback (does not include full account number) */
+function toPlainText({
+  landlord,
+  tenant,
+  premises,
+  amount,
+  receivedOn,
+  bankName,
+  bankAddress,
+  accountIdentifierDisplay,
+  depositDate,
+  interestDisplay,
+}: {
+  landlord: string;
+  tenant: string;
+  premises: string;
+  amount: string;
+  receivedOn: string;
+  bankName: string;
+  bankAddress: string;
+  accountIdentifierDisplay: string;
+  depositDate: string;
+  interestDisplay: string;
+}) {
+  return [
+    "SECURITY DEPOSIT RECEIPT (M.G.L. c.186 §15B)",
+    "",
+    `Tenant: ${tenant}`,
+    `Landlord (legal name): ${landlord}`,
+    `Premises: ${premises}`,
+    `Amount Received: ${amount}`,
+    `Date Received: ${receivedOn}`,
+    "",
+    "BANK ACCOUNT RECEIPT (within 30 days, §15B(3)(a))",
+    `Bank: ${bankName || "—"}`,
+    `Bank Address: ${bankAddress || "—"}`,
+    `Account Number / Identifier: ${accountIdentifierDisplay || "—"}`,
+    `Deposit Amount: ${amount}`,
+    `Deposit Date: ${depositDate || "—"}`,
+    `Annual Interest: ${interestDisplay || "≤5% or bank rate"}`,
+    "",
+    "Note: MILO Homes is not the landlord’s broker and does not hold tenant funds; MILO facilitated this payment directly to the landlord’s Massachusetts escrow account.",
+  ].join("\n");
+}
+
+/** Get all active household member user emails (primary + others) */
+async function getHouseholdUserEmails(
+  db: any,
+  householdId: string,
+  debug?: any
+): Promise<string[]> {
+  const membershipsCollCanonical = db.collection(
+    "household_memberships"
+  ) as any;
+  const membershipsCollLegacy = db.collection(
+    "household_memberhsips"
+  ) as any; // legacy misspelling
+  const { ObjectId } = await import("mongodb");
+
+  const isHex = ObjectId.isValid(householdId);
+  const hhIdObj = isHex ? new ObjectId(householdId) : null;
+
+  // Tolerate both storage types for householdId
+  const hhMatch = hhIdObj ? { $in: [householdId, hhIdObj] } : householdId;
+
+  // Try canonical collection first
+  let mships = await membershipsCollCanonical
+    .find({ householdId: hhMatch, active: true })
+    .project({ userId: 1, email: 1, role: 1 })
+    .toArray();
+
+  if (mships?.length) {
+    dpush(debug, "household_memberships_ok", {
+      used: "household_memberships",
+      count: mships.length,
+    });
+  } else {
+    // Fallback to legacy collection name (if it exists)
+    try {
+      mships = await membershipsCollLegacy
+        .find({ householdId: hhMatch, active: true })
+        .project({ userId: 1, email: 1, role: 1 })
+        .toArray();
+      dpush(debug, "household_memberships_fallback", {
+        used: "household_memberhsips",
+        count: mships?.length || 0,
+      });
+    } catch {
+      dpush(debug, "household_memberships_fallback", {
+        used: "none_available",
+        count: 0,
+      });
+    }
+  }
+
+  if (!mships?.length) {
+    dpush(debug, "household_recipients", { count: 0, emails: [] });
+    return [];
+  }
+
+  // Convert userIds for users lookup (string → ObjectId when possible)
+  const rawIds = mships.map((m: any) => m.userId).filter(Boolean);
+  const userIds = rawIds.map((id: any) =>
+    ObjectId.isValid(String(id))
+      ? new ObjectId(String(id))
+      : String(id)
+  );
+
+  const users = userIds.length
+    ? await db
+        .collection("users")
+        .find({ _id: { $in: userIds } })
+        .project({ email: 1, preferredName: 1 })
+        .toArray()
+    : [];
+
+  const emailByUserIdStr = new Map<string, string>(
+    users.map((u: any) => [String(u._id), (u.email || "").trim()])
+  );
+
+  const emails = new Set<string>();
+  for (const m of mships) {
+    const uidStr = String(m.userId || "");
+    const userEmail = emailByUserIdStr.get(uidStr);
+    if (userEmail) emails.add(userEmail);
+    // fallback to membership.email if user record has no email
+    if (!userEmail && m.email) emails.add(String(m.email).trim());
+  }
+
+  const arr = Array.from(emails).filter(Boolean);
+  dpush(debug, "household_recipients", { count: arr.length, emails: arr });
+  return arr;
+}
+
+/* ───────────────────────────────────────────────────────────
+   Ledger posting + recompute
+─────────────────────────────────────────────────────────── */
+
+/**
+ * Post whatever the payment's new status implies (pending, settled, reversed)
+ * to the app's journal. Idempotent, so Stripe redeliveries are harmless.
+ */
+async function postPaymentToLedger(opts: {
+  db: any;
+  appId: string;
+  firmId: string;
+  paymentId: string;
+  debug?: any;
+}) {
+  const { db, appId, firmId, paymentId, debug } = opts;
+  const app = await db
+    .collection("applications")
+    .findOne((await asFilter(appId)) as any, {
+      projection: { _id: 1, firmId: 1, paymentPlan: 1, upfronts: 1, protoLease: 1 },
+    });
+  if (!app) {
+    dpush(debug, "ledger_no_app", { appId });
+    return { sync: null, splits: [] as { chargeKey: string; applied: number }[] };
+  }
+
+  const sync = await syncLedger(db, app, { firmId });
+  // Where this payment landed, per charge line
+  const splits = sync.posted
+    .filter((e) => String(e.paymentId ?? "") === paymentId)
+    .flatMap((e) => e.lines)
+    .filter((l) => l.account === "receivable" && l.chargeKey && l.creditCents > 0)
+    .map((l) => ({ chargeKey: String(l.chargeKey), applied: l.creditCents }));
+
+  dpush(debug, "ledger_posted", {
+    entries: sync.posted.map((e) => ({ kind: e.kind, sourceKey: e.sourceKey })),
+    splits,
+  });
+  return { sync, splits };
+}
+
+async function recomputeAndMaybeFlip(opts: {
+  db: any;
+  appId: string;
+  firmId: string;
+  debug?: any;
+}) {
+  const { db, appId, firmId, debug } = opts;
+  const applications = db.collection("applications") as any;
+
+  // 1) Load application to get plan + countersign + current status
+  const appFilter = await asFilter(appId);
+  const app = await applications.findOne(
+    { _id: appFilter._id },
+    {
+      projection: {
+        _id: 1,
+        firmId: 1,
+        countersign: 1,
+        paymentPlan: 1,
+        upfronts: 1,
+        protoLease: 1,
+        status: 1,
+      },
+    }
+  );
+
+  if (!app) {
+    dpush(debug, "recompute_no_app", { appId });
+    return { nextStatus: null };
+  }
+
+  // 2) Due + PAID totals from the ledger. Only settled cash counts toward the
+  //    signing gates; pending ACH can still bounce.
+  const { balances } = await syncLedger(db, app, { firmId });
+  const upfrontDue = Math.max(0, balances.byBucket.operating.remainingCents);
+  const depositDue = Math.max(0, balances.byBucket.deposit.remainingCents);
+  const upfrontPaid = Math.max(0, balances.byPaymentKind.upfront.postedCents);
+  const depositPaid = Math.max(0, balances.byPaymentKind.deposit.postedCents);
+
+  const plan = app.paymentPlan ?? null;
+
+  // Derive minRules from clamped thresholds (prefer countersign, fallback to plan)
+  const minRules = deriveMinRulesFromPlan({
+    countersignUpfrontThresholdCents:
+      app.countersign?.upfrontMinCents ??
+      plan?.countersignUpfrontThresholdCents,
+    countersignDepositThresholdCents:
+      app.countersign?.depositMinCents ??
+      plan?.countersignDepositThresholdCents,
+  });
+
+  const paymentTotals = {
+    upfront: upfrontPaid,
+    deposit: depositPaid,
+  };
+
+  const currentStatus = normalizeAppState(app.status) ?? "approved_high";
+
+  dpush(debug, "recomputed_due", {
+    upfrontDue,
+    depositDue,
+    upfrontPaid,
+    depositPaid,
+    minRules,
+    currentStatus,
+    paymentTotals,
+  });
+
+  // 3) Ask the rules engine what the next state should be. From min_paid the
+  //    only way is back down, if a return/dispute/refund broke the minimum.
+  const step = {
+    action: currentStatus === "min_paid" ? ("payment_reversed" as const) : ("payment_updated" as const),
+    role: "system" as const,
+    ctx: { minRules, paymentTotals },
+  };
+  const nextStatus = computeNextState(currentStatus, step.action, step.role, step.ctx);
+
+  // 4) If state changed (e.g. min_due -> min_paid), persist it + timeline
+  if (nextStatus !== currentStatus) {
+    const now = new Date();
+    const flip = await transitionApplication(db, {
+      app,
+      steps: step,
+      by: "system",
+      firmId,
+      timeline: [
+        {
+          at: now,
+          by: "system",
+          event: nextStatus === "min_due" ? "payments.gates_unmet" : "payments.gates_satisfied",
+          meta: { upfrontDue, depositDue, upfrontPaid, depositPaid, minRules },
+        },
+      ],
+      now,
+    });
+    dpush(debug, "status_flipped", flip.ok ? { from: flip.from, to: flip.to } : { error: flip.error });
+
+    // The lease may have been fully signed while a reversal held the app at min_due
+    if (flip.ok && flip.to === "min_paid") {
+      const signed = await countersignIfSigned(db, String(app._id), now);
+      if (signed?.ok && signed.changed) dpush(debug, "status_flipped", { from: signed.from, to: signed.to });
+    }
+  }
+
+  return {
+    upfrontDue,
+    depositDue,
+    upfrontPaid,
+    depositPaid,
+    minRules,
+    currentStatus,
+    nextStatus,
+  };
+}
+
+async function linkUserDefaultUsBankPm(
+  pi: Stripe.PaymentIntent,
+  charge: Stripe.Charge | null,
+  users: any,
+  debugMode: boolean,
+  debug: any
+) {
+  try {
+    const pmId =
+      typeof pi.payment_method === "string" ? pi.payment_method : null;
+    const customerId =
+      typeof pi.customer === "string" ? pi.customer : null;
+    const isUsBank =
+      charge?.payment_method_details?.type === "us_bank_account" ||
+      (pi.payment_method_types?.length === 1 &&
+        pi.payment_method_types[0] === "us_bank_account");
+
+    if (pmId && customerId && isUsBank) {
+      const userUpdateRes = await users.updateOne(
+        { stripeCustomerId: customerId },
+        { $set: { defaultUsBankPaymentMethodId: pmId } }
+      );
+
+      dpush(debugMode ? debug : null, "user_pm_linked", {
+        status: pi.status,
+        customerId,
+        paymentMethodId: pmId,
+        matched: userUpdateRes.matchedCount,
+        modified: userUpdateRes.modifiedCount,
+      });
+    } else {
+      dpush(debugMode ? debug : null, "user_pm_skip", {
+        status: pi.status,
+        pmId,
+        customerId,
+        isUsBank,
+      });
+    }
+  } catch (err: any) {
+    dpush(
+      debugMode ? debug : null,
+      "user_pm_error",
+      String(err?.message || err),
+    );
+  }
+}
+
+/* ───────────────────────────────────────────────────────────
+   HANDLER
+─────────────────────────────────────────────────────────── */
+
+export type WebhookOutcome = { note?: string; reversal?: string };
+
+/**
+ * Apply one (already verified) event. Throws on failure so the event store can
+ * schedule a retry; everything it writes is keyed so a replay doesn't double-apply.
+ */
+export async function handleStripeEvent(
+  event: Stripe.Event,
+  debugMode = false,
+  debug: Record<string, any> = {}
+): Promise<WebhookOutcome> {
+  dpush(debugMode ? debug : null, "event", {
+    type: event.type,
+    id: event.id,
+  });
+
+  let pi: Stripe.PaymentIntent | null = null;
+  if ((event.data.object as any)?.object === "setup_intent") {
+    const si = event.data.object as Stripe.SetupIntent;
+
+    const kind = si.metadata?.kind;
+    if (kind === "tenant_bank_link") {
+      const pmId =
+        typeof si.payment_method === "string"
+          ? si.payment_method
+          : null;
+      const customerId =
+        typeof si.customer === "string" ? si.customer : null;
+      const metaUserId = si.metadata?.userId as string | undefined;
+
+      dpush(debugMode ? debug : null, "setup_intent_bank_link", {
+        status: si.status,
+        pmId,
+        customerId,
+        metaUserId,
+      });
+
+      if (si.status === "succeeded" && pmId && customerId) {
+        const db = await getDb();
+        const users = db.collection("users") as any;
+
+        // Prefer looking up by our own userId metadata
+        let filter: any;
+        if (metaUserId) {
+          const { ObjectId } = await import("mongodb");
+          filter = ObjectId.isValid(metaUserId)
+            ? { _id: new ObjectId(metaUserId) }
+            : { _id: metaUserId };
+        } else {
+          // Fallback: try by stripeCustomerId
+          filter = { stripeCustomerId: customerId };
+        }
+
+        // Pull full PaymentMethod so we can store useful metadata
+        let pm: Stripe.PaymentMethod | null = null;
+        try {
+          pm = await stripe.paymentMethods.retrieve(pmId, {
+            expand: ["us_bank_account"],
+          });
+        } catch (err: any) {
+          dpush(
+            debugMode ? debug : null,
+            "setup_pm_retrieve_error",
+            err?.message || String(err),
+          );
+        }
+
+        const bank = pm?.us_bank_account || null;
+        const bankDoc = bank
+          ? {
+              id: pm!.id,
+              type: pm!.type,
+              last4: bank.last4 ?? null,
+              bankName: bank.bank_name ?? null,
+              accountType: bank.account_type ?? null,
+              stripeCustomerId: customerId,
+              createdAt: new Date(),
+            }
+          : {
+              id: pmId,
+              type: "us_bank_account",
+              last4: null,
+              bankName: null,
+              accountType: null,
+              stripeCustomerId: customerId,
+              createdAt: new Date(),
+            };
+
+        const userUpdateRes = await users.updateOne(
+          filter,
+          {
+            $set: {
+              stripeCustomerId: customerId,
+              defaultUsBankPaymentMethodId: pmId,
+            },
+            // Track all linked bank methods on the user; $addToSet avoids duplicates
+            $addToSet: {
+              bankPaymentMethods: bankDoc,
+            },
+          },
+        );
+
+        dpush(debugMode ? debug : null, "user_pm_linked_from_setup", {
+          pmId,
+          customerId,
+          filter,
+          matched: userUpdateRes.matchedCount,
+          modified: userUpdateRes.modifiedCount,
+          bankDoc,
+        });
+      }
+    }
+
+    return { note: "handled_setup_intent" };
+  }
+	
+  if ((event.data.object as any)?.object === "payment_intent") {
+    pi = event.data.object as Stripe.PaymentIntent;
+  } else if ((event.data.object as any)?.object === "charge") {
+    const ch = event.data.object as Stripe.Charge;
+    if (ch.payment_intent) {
+      try {
+        pi = await stripe.paymentIntents.retrieve(
+          ch.payment_intent as string
+        );
+      } catch {}
+    }
+  } else if ((event.data.object as any)?.object === "dispute") {
+    const dp = event.data.object as Stripe.Dispute;
+    if (typeof dp.payment_intent === "string") {
+      try {
+        pi = await stripe.paymentIntents.retrieve(dp.payment_intent);
+      } catch {}
+    }
+  }
+  if (!pi)
+    return { note: "ignored_non_pi" };
+
+  const db = await getDb();
+  const payments = db.collection("payments") as any;
+  const applications = db.collection("applications") as any;
+  const firms = db.collection("firms") as any;
+	const users = db.collection("users") as any;
+
+  const paymentIntentId = pi.id;
+  const status = pi.status;
+  const amount = typeof pi.amount === "number" ? pi.amount : undefined;
+  const m = pi.metadata || {};
+  const kind = (m.type as "upfront" | "deposit") || null;
+  const appId = (m.appId as string) || null;
+  const firmId = (m.firmId as string) || null;
+
+  // Charge details
+  let charge: Stripe.Charge | null = null;
+  let chargeId: string | undefined;
+  if (typeof pi.latest_charge === "string") {
+    chargeId = pi.latest_charge;
+    try {
+      charge = await stripe.charges.retrieve(chargeId);
+    } catch {}
+  } else if (pi.latest_charge && typeof pi.latest_charge === "object") {
+    charge = pi.latest_charge as Stripe.Charge;
+    chargeId = charge.id;
+  }
+
+  const destinationAcct = charge
+    ? (charge as any).destination as string | undefined
+    : undefined;
+  const transferId = charge
+    ? (charge as any).transfer as string | undefined
+    : undefined;
+  const receiptUrl = charge?.receipt_url || undefined;
+
+  // Resolve existing row by PI id (or reconcile by metadata if missing)
+  let row = await payments.findOne(
+    { "providerIds.paymentIntentId": paymentIntentId },
+    {
+      projection: {
+        _id: 1,
+        appId: 1,
+        firmId: 1,
+        kind: 1,
+        amountCents: 1,
+        status: 1,
+        meta: 1,
+        provider: 1,
+        refundedCents: 1,
+        dispute: 1,
+        createdAt: 1,
+      },
+    }
+  );
+  dpush(debugMode ? debug : null, "row_by_pi", { found: !!row });
+
+  if (!row && appId && kind && amount) {
+    await payments.updateOne(
+      {
+        appId,
+        kind,
+        amountCents: amount,
+        provider: "stripe",
+        "providerIds.paymentIntentId": { $exists: false },
+      },
+      {
+        $set: {
+          "providerIds.paymentIntentId": paymentIntentId,
+          updatedAt: new Date(),
+        },
+      }
+    );
+    row = await payments.findOne(
+      { "providerIds.paymentIntentId": paymentIntentId },
+      {
+        projection: {
+          _id: 1,
+          appId: 1,
+          firmId: 1,
+          kind: 1,
+          amountCents: 1,
+          status: 1,
+          meta: 1,
+          provider: 1,
+          refundedCents: 1,
+          dispute: 1,
+          createdAt: 1,
+        },
+      }
+    );
+    dpush(debugMode ? debug : null, "row_attached_by_meta", {
+      attached: !!row,
+    });
+  }
+
+  const effectiveAppId = row?.appId || appId || "";
+  const effectiveFirmId = row?.firmId || firmId || "";
+  const effectiveKind = (row?.kind || kind) as
+    | "upfront"
+    | "deposit"
+    | null;
+
+  dpush(debugMode ? debug : null, "resolved", {
+    paymentIntentId,
+    status,
+    effectiveAppId,
+    effectiveFirmId,
+    effectiveKind,
+  });
+
+  if (!row || !effectiveAppId || !effectiveFirmId || !effectiveKind) {
+    dpush(debugMode ? debug : null, "skip_no_row", {
+      reason: "unmatched_payment",
+    });
+    return { note: "unmatched_payment" };
+  }
+
+  const baseSet: any = {
+    updatedAt: new Date(),
+    "meta.piStatus": status,
+    "meta.receiptUrl": receiptUrl || null,
+    "meta.transferId": transferId || null,
+    "meta.destinationAccount":
+      destinationAcct || m.destinationAccount || null,
+  };
+
+  /* ───────── Money coming back out: ACH returns, refunds, disputes ─────────
+     The PI status can stay "succeeded" through all of these, so they're keyed
+     off the charge/dispute event instead. The ledger reverses the allocation
+     (reopening the charge lines) and recompute rolls min_paid back if needed. */
+  let reversal: { kind: ReversalKind; amountCents: number; detail: string | null; set: any } | null = null;
+  const rowAmount = Number(row.amountCents ?? amount ?? 0);
+
+  if (event.type === "charge.failed" && row.status === "succeeded") {
+    const ch = event.data.object as Stripe.Charge;
+    reversal = {
+      kind: "ach_return",
+      amountCents: rowAmount,
+      detail: describeAchReturn(ch.failure_code),
+      set: {
+        status: "returned",
+        returnedAt: new Date(),
+        "meta.returnCode": ch.failure_code ?? null,
+        "meta.returnMessage": ch.failure_message ?? null,
+      },
+    };
+  } else if (event.type === "charge.refunded") {
+    const ch = event.data.object as Stripe.Charge;
+    const total = Math.min(rowAmount, Number(ch.amount_refunded || 0));
+    const before = Number(row.refundedCents || 0);
+    if (total > before) {
+      reversal = {
+        kind: "refund",
+        amountCents: total - before,
+        detail: null,
+        set: { refundedCents: total, refundedAt: new Date() },
+      };
+    }
+  } else if (event.type === "charge.dispute.created" || event.type === "charge.dispute.closed") {
+    const dp = event.data.object as Stripe.Dispute;
+    const closed = event.type === "charge.dispute.closed";
+    const outcome = !closed
+      ? "open"
+      : dp.status === "won" || dp.status === "warning_closed"
+        ? "won"
+        : "lost";
+    if (row.dispute?.id !== dp.id || row.dispute?.status !== outcome) {
+      reversal = {
+        kind: outcome === "open" ? "dispute_opened" : outcome === "won" ? "dispute_won" : "dispute_lost",
+        amountCents: Math.min(rowAmount, Number(dp.amount || 0)),
+        detail: dp.reason ? String(dp.reason).replaceAll("_", " ") : null,
+        set: {
+          dispute: {
+            id: dp.id,
+            status: outcome,
+            reason: dp.reason ?? null,
+            amountCents: Math.min(rowAmount, Number(dp.amount || 0)),
+            openedAt: row.dispute?.openedAt ?? new Date(),
+            closedAt: closed ? new Date() : null,
+          },
+        },
+      };
+    }
+  }
+
+  if (
+    (event.type === "charge.failed" && (row.status === "succeeded" || row.status === "returned")) ||
+    event.type === "charge.refunded" ||
+    event.type.startsWith("charge.dispute.")
+  ) {
+    if (!reversal) {
+      dpush(debugMode ? debug : null, "reversal_noop", { type: event.type, rowStatus: row.status });
+      return { note: "reversal_noop" };
+    }
+
+    await payments.updateOne({ _id: row._id }, { $set: { ...reversal.set, updatedAt: new Date() } });
+    const ledger = await postPaymentToLedger({
+      db,
+      appId: String(effectiveAppId),
+      firmId: String(effectiveFirmId),
+      paymentId: String(row._id),
+      debug: debugMode ? debug : null,
+    });
+    await applications.updateOne(await asFilter(String(effectiveAppId)), {
+      $push: {
+        timeline: {
+          at: new Date(),
+          by: "system",
+          event: `payment.${reversal.kind}`,
+          meta: {
+            paymentIntentId,
+            chargeId: chargeId || null,
+            kind: effectiveKind,
+            amount: reversal.amountCents,
+            detail: reversal.detail,
+            entries: ledger.sync?.posted.map((e) => e.sourceKey) ?? [],
+          },
+        },
+      },
+    });
+    await recomputeAndMaybeFlip({
+      db,
+      appId: String(effectiveAppId),
+      firmId: String(effectiveFirmId),
+      debug: debugMode ? debug : null,
+    });
+
+    const app = await applications.findOne(await asFilter(String(effectiveAppId)), {
+      projection: { householdId: 1 },
+    });
+    const sent = await notifyReversal(db, {
+      kind: reversal.kind,
+      eventId: event.id,
+      app,
+      firmId: String(effectiveFirmId),
+      paymentKind: String(row.kind || effectiveKind),
+      amountCents: reversal.amountCents,
+      detail: reversal.detail,
+    });
+    dpush(debugMode ? debug : null, "reversal_handled", { kind: reversal.kind, sent });
+
+    return { reversal: reversal.kind };
+  }
+
+  switch (status) {
+    case "processing": {
+      await payments.updateOne(
+        { _id: row._id },
+        {
+          $set: {
+            status: "processing",
+            processingAt: new Date(),
+            ...baseSet,
+          },
+        }
+      );
+      await applications.updateOne(
+        await asFilter(String(effectiveAppId)),
+        {
+          $push: {
+            timeline: {
+              at: new Date(),
+              by: "system",
+              event: "payment.processing",
+              meta: {
+                paymentIntentId,
+                kind: effectiveKind,
+                amount: amount ?? null,
+              },
+            },
+          },
+        }
+      );
+      await postPaymentToLedger({
+        db,
+        appId: String(effectiveAppId),
+        firmId: String(effectiveFirmId),
+        paymentId: String(row._id),
+        debug: debugMode ? debug : null,
+      });
+		
+		await linkUserDefaultUsBankPm(pi, charge, users, debugMode, debug);
+		
+      break;
+    }
+
+    case "succeeded": {
+      // A redelivered succeeded event mustn't resurrect a returned payment
+      if (row.status === "returned") {
+        dpush(debugMode ? debug : null, "skip_succeeded_after_return", { rowId: String(row._id) });
+        break;
+      }
+      await payments.updateOne(
+        { _id: row._id },
+        {
+          $set: {
+            status: "succeeded",
+            succeededAt: new Date(),
+            "providerIds.chargeId": chargeId || null,
+            ...baseSet,
+          },
+        }
+      );
+		
+		await linkUserDefaultUsBankPm(pi, charge, users, debugMode, debug);
+
+
+      const applied = await postPaymentToLedger({
+        db,
+        appId: String(effectiveAppId),
+        firmId: String(effectiveFirmId),
+        paymentId: String(row._id),
+        debug: debugMode ? debug : null,
+      });
+      await applications.updateOne(
+        await asFilter(String(effectiveAppId)),
+        {
+          $push: {
+            timeline: {
+              at: new Date(),
+              by: "system",
+              event: "payment.succeeded",
+              meta: {
+                paymentIntentId,
+                chargeId: chargeId || null,
+                kind: effectiveKind,
+                amount: row.amountCents ?? amount ?? null,
+                splits: applied.splits,
+              },
+            },
+          },
+        }
+      );
+
+      await recomputeAndMaybeFlip({
+        db,
+        appId: String(effectiveAppId),
+        firmId: String(effectiveFirmId),
+        debug: debugMode ? debug : null,
+      });
+
+      if (row.meta?.autopayRunId) {
+        await recordAutopaySuccess(db, String(row.meta.autopayRunId));
+      }
+
+      // ───────── EMAIL to household users ─────────
+      if (effectiveKind === "deposit") {
+        dpush(debugMode ? debug : null, "email_branch_enter", {
+          rowId: String(row._id),
+        });
+
+        const fresh = await payments.findOne(
+          { _id: row._id },
+          { projection: { meta: 1 } }
+        );
+        dpush(debugMode ? debug : null, "email_meta_check", {
+          alreadyEmailed: !!fresh?.meta?.receiptEmailAt,
+        });
+
+        if (!fresh?.meta?.receiptEmailAt) {
+          try {
+            const app = await applications.findOne({
+              _id: (await asFilter(String(effectiveAppId)))._id,
+            });
+            if (!app?.householdId) {
+              dpush(
+                debugMode ? debug : null,
+                "email_skip",
+                "no_householdId_on_app"
+              );
+            } else {
+              // collect household user emails
+              const recipients = await getHouseholdUserEmails(
+                db,
+                String(app.householdId),
+                debugMode ? debug : null
+              );
+              dpush(
+                debugMode ? debug : null,
+                "email_recipients",
+                recipients
+              );
+
+              if (!recipients.length) {
+                dpush(
+                  debugMode ? debug : null,
+                  "email_skip",
+                  "no_household_recipients"
+                );
+              } else if (!process.env.APP_BASE_URL) {
+                dpush(
+                  debugMode ? debug : null,
+                  "email_skip",
+                  "APP_BASE_URL_missing"
+                );
+              } else {
+                const firmDoc = await firms.findOne({
+                  _id: effectiveFirmId,
+                });
+
+                // Build shared fields for plain text
+                const b = app?.building,
+                  u = app?.unit;
+                const premises = b
+                  ? `${b.addressLine1 ?? ""}${b.addressLine2 ? `, ${b.addressLine2}` : ""}, ${
+                      b.city ?? ""
+                    }, ${b.state ?? ""} ${b.postalCode ?? ""}${
+                      u?.unitNumber ? ` — ${u.unitNumber}` : ""
+                    }`
+                  : "Premises";
+                const landlord =
+                  firmDoc?.legalName ?? firmDoc?.name ?? "Landlord";
+
+                // "Tenant" display from primary (just for body text nicety)
+                const primary =
+                  app?.answersByMember &&
+                  Object.values<any>(app.answersByMember).find(
+                    (m: any) => m.role === "primary"
+                  );
+                const tenant = (() => {
+                  if (!primary) return "Tenant";
+                  const nm = primary?.answers?.q_name;
+                  const em =
+                    primary?.answers?.q_email ?? primary?.email;
+                  return nm
+                    ? `${nm}${em ? ` — ${em}` : ""}`
+                    : em ?? "Tenant";
+                })();
+
+                const receivedOn = new Date(
+                  row?.succeededAt ?? new Date()
+                ).toLocaleDateString();
+                const amountText = `$${(
+                  (row?.amountCents ?? amount ?? 0) / 100
+                ).toFixed(2)}`;
+                const esc =
+                  firmDoc?.escrowDisclosure ?? {};
+                const bankName = esc.bankName ?? "";
+                const bankAddress = esc.bankAddress ?? "";
+                const accountIdentifierDisplay =
+                  esc.accountIdentifier ||
+                  (esc.accountLast4
+                    ? `•••• ${esc.accountLast4}`
+                    : "");
+                const depositISO =
+                  row?.succeededAt ??
+                  row?.processingAt ??
+                  new Date();
+                const depositDate = new Date(
+                  depositISO
+                ).toLocaleDateString();
+                const interestDisplay =
+                  typeof esc.interestHundredths === "number"
+                    ? (esc.interestHundredths / 100).toFixed(2) +
+                      "%"
+                    : typeof esc.interestRate === "number"
+                    ? Number(esc.interestRate).toFixed(2) + "%"
+                    : "≤5% or bank rate";
+
+                // Render full HTML via receipt route
+                let html = "";
+                try {
+                  html = await renderReceiptHTML(
+                    String(row._id),
+                    debugMode ? debug : null
+                  );
+                } catch (e: any) {
+                  dpush(
+                    debugMode ? debug : null,
+                    "email_html_exception",
+                    e?.message || String(e)
+                  );
+                }
+
+                const text = toPlainText({
+                  landlord,
+                  tenant,
+                  premises,
+                  amount: amountText,
+                  receivedOn,
+                  bankName,
+                  bankAddress,
+                  accountIdentifierDisplay,
+                  depositDate,
+                  interestDisplay,
+                });
+
+                // Send to each recipient
+                const mailer = getMailer();
+                const results: Array<{
+                  to: string;
+                  ok: boolean;
+                  error?: string;
+                }> = [];
+                for (const to of recipients) {
+                  const mailRes = await mailer.send({
+                    to,
+                    subject: `Security Deposit Receipt — ${premises}`,
+                    html: html || undefined,
+                    text,
+                    idempotencyKey: `dep-receipt:${String(
+                      row._id
+                    )}:${to}`,
+                    traceId: `pi:${paymentIntentId}`,
+                  });
+                  results.push({
+                    to,
+                    ok: (mailRes as any).ok === true,
+                    error: (mailRes as any).error,
+                  });
+                }
+                dpush(debugMode ? debug : null, "email_results", results);
+
+                const anyOk = results.some((r) => r.ok);
+                if (anyOk) {
+                  await payments.updateOne(
+                    { _id: row._id },
+                    {
+                      $set: {
+                        "meta.receiptEmailAt": new Date(),
+                        "meta.receiptEmailTo": recipients,
+                      },
+                    }
+                  );
+                } else {
+                  await payments.updateOne(
+                    { _id: row._id },
+                    {
+                      $set: {
+                        "meta.receiptEmailError": results
+                          .map(
+                            (r) =>
+                              `${r.to}:${
+                                r.error || "unknown"
+                              }`
+                          )
+                          .join(", "),
+                      },
+                    }
+                  );
+                }
+              }
+            }
+          } catch (emailErr: any) {
+            dpush(
+              debugMode ? debug : null,
+              "email_exception",
+              String(emailErr?.message || emailErr)
+            );
+            await payments.updateOne(
+              { _id: row._id },
+              {
+                $set: {
+                  "meta.receiptEmailError": String(
+                    emailErr?.message ||
+                      emailErr ||
+                      "unknown_exception"
+                  ),
+                },
+              }
+            );
+          }
+        } else {
+          dpush(debugMode ? debug : null, "email_already_sent", true);
+        }
+      }
+      // ───────── END EMAIL ─────────
+
+      break;
+    }
+
+    case "requires_payment_method":
+    case "canceled": {
+      if (row.status === "returned") break; // already reversed via charge.failed
+      const newStatus =
+        status === "canceled" ? "canceled" : "failed";
+      await payments.updateOne(
+        { _id: row._id },
+        {
+          $set: {
+            status: newStatus,
+            [newStatus === "failed"
+              ? "failedAt"
+              : "canceledAt"]: new Date(),
+            ...baseSet,
+          },
+        }
+      );
+      await applications.updateOne(
+        await asFilter(String(effectiveAppId)),
+        {
+          $push: {
+            timeline: {
+              at: new Date(),
+              by: "system",
+              event:
+                newStatus === "failed"
+                  ? "payment.failed"
+                  : "payment.canceled",
+              meta: {
+                paymentIntentId,
+                kind: effectiveKind,
+                amount: row.amountCents ?? amount ?? null,
+              },
+            },
+          },
+        }
+      );
+
+      // Failed/canceled ACH releases whatever it was holding against charges
+      await postPaymentToLedger({
+        db,
+        appId: String(effectiveAppId),
+        firmId: String(effectiveFirmId),
+        paymentId: String(row._id),
+        debug: debugMode ? debug : null,
+      });
+
+      if (row.meta?.autopayRunId) {
+        await recordAutopayFailure(
+          db,
+          String(row.meta.autopayRunId),
+          pi.last_payment_error?.code || pi.cancellation_reason || newStatus
+        );
+      }
+      break;
+    }
+
+    default: {
+      await payments.updateOne(
+        { _id: row._id },
+        { $set: baseSet }
+      );
+      break;
+    }
+  }
+
+  return {};
+}
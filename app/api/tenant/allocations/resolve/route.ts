@@ -163,6 +163,7 @@ export async function GET(req: NextRequest) {
   const role = normalizeRole(myMembership?.role);
   const doc = {
     formId: form._id ?? form.id,
+    formVersion: form.version, // pinned to the version it started on
     householdId,
     status: "draft" as const,
     members: [
@@ -0,0 +1,73 @@
+// app/api/tenant/applications/[id]/documents/[docId]/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { ApplicationDocumentDoc } from "@/lib/models";
+import { completeDocumentUpload, documentToWire, removeDocument } from "@/lib/applications/documents";
+import { loadApplicantContext } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string; docId: string }> };
+
+/** The caller's own document on a draft application */
+async function loadOwnDocument(ctx: Ctx) {
+  const { id, docId } = await ctx.params;
+  const c = await loadApplicantContext(id);
+  if ("error" in c) return { error: c.error };
+
+  const doc = await c.db.collection<ApplicationDocumentDoc>("application_documents").findOne({
+    _id: docId,
+    applicationId: String(c.app._id),
+    userId: c.userId,
+    status: { $ne: "deleted" },
+  });
+  if (!doc) {
+    return { error: NextResponse.json({ ok: false, error: "document_not_found" }, { status: 404 }) };
+  }
+  if (String(c.app.status ?? "draft") !== "draft") {
+    return { error: NextResponse.json({ ok: false, error: "locked", state: c.app.status }, { status: 409 }) };
+  }
+  return { ...c, doc };
+}
+
+/* =======================================================================
+ * PATCH /api/tenant/applications/:id/documents/:docId
+ * Body: { action: "complete" } — after the browser finished the PUT
+ * =======================================================================
+ */
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const c = await loadOwnDocument(ctx);
+  if ("error" in c) return c.error;
+
+  const body = await req.json().catch(() => ({} as any));
+  if (body?.action !== "complete") {
+    return NextResponse.json({ ok: false, error: "unknown_action" }, { status: 400 });
+  }
+
+  try {
+    const res = await completeDocumentUpload(c.db, c.doc, c.userId);
+    if (!res.ok) return NextResponse.json(res, { status: 422 });
+    return NextResponse.json({ ok: true, document: documentToWire(res.document) });
+  } catch (err) {
+    console.error("[documents] complete failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * DELETE /api/tenant/applications/:id/documents/:docId
+ * =======================================================================
+ */
+export async function DELETE(_req: NextRequest, ctx: Ctx) {
+  const c = await loadOwnDocument(ctx);
+  if ("error" in c) return c.error;
+
+  try {
+    await removeDocument(c.db, c.doc, c.userId);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("[documents] delete failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/tenant/applications/[id]/documents/_shared.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { MemberRole } from "@/lib/models";
+
+export function toStringId(v: any) {
+  if (!v) return "";
+  if (typeof v === "string") return v;
+  try { return v?.toHexString ? v.toHexString() : String(v); } catch { return String(v); }
+}
+
+const normalizeRole = (r: any): MemberRole => {
+  const x = String(r || "").toLowerCase();
+  return x === "primary" || x === "cosigner" ? (x as MemberRole) : "co_applicant";
+};
+
+/**
+ * Application + the caller as one of its members: an active member of the
+ * application's household, or listed on a legacy app.members.
+ * Returns { error } with a ready response on failure.
+ */
+export async function loadApplicantContext(appId: string) {
+  const user = await getSessionUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  }
+  if (!appId) {
+    return { error: NextResponse.json({ ok: false, error: "bad_app_id" }, { status: 400 }) };
+  }
+
+  const db = await getDb();
+  const app = await db.collection<any>("applications").findOne(
+    ObjectId.isValid(appId) ? { _id: new ObjectId(appId) } : { _id: appId },
+    { projection: { _id: 1, formId: 1, formVersion: 1, firmId: 1, status: 1, householdId: 1, members: 1, answersByMember: 1 } }
+  );
+  if (!app) {
+    return { error: NextResponse.json({ ok: false, error: "not_found" }, { status: 404 }) };
+  }
+
+  const emailLc = String(user.email ?? "").toLowerCase();
+  const userId = toStringId((user as any).id ?? (user as any)._id ?? (user as any).userId ?? emailLc);
+
+  let role: MemberRole | null = null;
+  if (app.householdId) {
+    const hh = toStringId(app.householdId);
+    const hhMatch = ObjectId.isValid(hh) ? { $in: [hh, new ObjectId(hh)] } : hh;
+    const userIdOr: any[] = ObjectId.isValid(userId) ? [{ userId }, { userId: new ObjectId(userId) }] : [{ userId }];
+    const m = await db
+      .collection("household_memberships")
+      .findOne(
+        { householdId: hhMatch, active: true, $or: [...userIdOr, { email: emailLc }] },
+        { projection: { role: 1 } }
+      );
+    if (m) role = normalizeRole(m.role);
+  }
+  if (!role && Array.isArray(app.members)) {
+    const legacy = app.members.find(
+      (m: any) => toStringId(m.userId) === userId || String(m.email || "").toLowerCase() === emailLc
+    );
+    if (legacy) role = normalizeRole(legacy.role);
+  }
+  if (!role) {
+    return { error: NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 }) };
+  }
+  // The role they answered as wins, so uploads match the questions they saw
+  const bucketRole = app.answersByMember?.[userId]?.role;
+  if (bucketRole) role = normalizeRole(bucketRole);
+
+  return { db, app, userId, email: emailLc, role };
+}
@@ -0,0 +1,78 @@
+// app/api/tenant/applications/[id]/documents/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import type { ApplicationDocumentDoc } from "@/lib/models";
+import { createDocumentUpload, documentToWire, DOCUMENTS_BUCKET } from "@/lib/applications/documents";
+import { loadApplicantContext } from "./_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* =======================================================================
+ * GET /api/tenant/applications/:id/documents
+ *   → { documents } — the caller's own uploads on this application
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadApplicantContext(id);
+  if ("error" in c) return c.error;
+
+  const rows = await c.db
+    .collection<ApplicationDocumentDoc>("application_documents")
+    .find({ applicationId: String(c.app._id), userId: c.userId, status: { $in: ["pending", "ready"] } })
+    .sort({ createdAt: 1 })
+    .limit(200)
+    .toArray();
+  return NextResponse.json({ ok: true, documents: rows.map(documentToWire) });
+}
+
+/* =======================================================================
+ * POST /api/tenant/applications/:id/documents
+ * Body: { target: { kind: "question"|"qualification", id }, fileName, contentType, size }
+ *   → { document, uploadUrl } — PUT the file to uploadUrl, then PATCH the
+ *     document with { action: "complete" }
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const c = await loadApplicantContext(id);
+  if ("error" in c) return c.error;
+
+  if (!DOCUMENTS_BUCKET) {
+    return NextResponse.json({ ok: false, error: "s3_not_configured" }, { status: 500 });
+  }
+  if (String(c.app.status ?? "draft") !== "draft") {
+    return NextResponse.json({ ok: false, error: "locked", state: c.app.status }, { status: 409 });
+  }
+
+  const body = await req.json().catch(() => ({} as any));
+  const kind = body?.target?.kind;
+  const targetId = String(body?.target?.id ?? "");
+  if ((kind !== "question" && kind !== "qualification") || !targetId) {
+    return NextResponse.json({ ok: false, error: "bad_target" }, { status: 400 });
+  }
+  const fileName = String(body?.fileName ?? "").trim();
+  if (!fileName) {
+    return NextResponse.json({ ok: false, error: "missing_fileName" }, { status: 400 });
+  }
+
+  try {
+    const res = await createDocumentUpload(c.db, {
+      app: c.app,
+      userId: c.userId,
+      role: c.role,
+      target: { kind, id: targetId },
+      fileName,
+      contentType: String(body?.contentType ?? ""),
+      size: Number(body?.size),
+    });
+    if (!res.ok) {
+      return NextResponse.json(res, { status: res.error === "form_not_found" ? 404 : 400 });
+    }
+    return NextResponse.json({ ok: true, document: documentToWire(res.document), uploadUrl: res.uploadUrl });
+  } catch (err) {
+    console.error("[documents] upload init failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -3,7 +3,11 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
-import { computeNextState } from "@/domain/rules";
+import { computeApplicationScore } from "@/lib/applications/scorecard";
+import { refreshMissingDocs } from "@/lib/applications/documents";
+import { transitionApplication } from "@/lib/applications/transitions";
+import { coerceAnswer, validateMemberAnswers, type FieldError } from "@/lib/applications/answers";
+import type { ConditionGroup } from "@/lib/models";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -22,6 +26,8 @@ type FormQuestion = {
   showForRoles: MemberRole[];
   options?: string[];
   validation?: { min?: number; max?: number; pattern?: string };
+  showIf?: ConditionGroup;
+  requireIf?: ConditionGroup;
 };
 type ApplicationForm = {
   _id?: string;
@@ -170,7 +176,7 @@ async function getIdFromParamsOrUrl(
 }
 
 /* ---------- completeness helpers ---------- */
-async function loadFormById(db: any, formId: string): Promise<ApplicationForm | null> {
+async function loadFormById(db: any, formId: string, version?: number | null): Promise<ApplicationForm | null> {
   const col = await pickFormsCol(db);
   const { ObjectId } = await import("mongodb");
   const filter = /^[0-9a-fA-F]{24}$/.test(formId)
@@ -179,13 +185,18 @@ async function loadFormById(db: any, formId: string): Promise<ApplicationForm |
 
   const doc = await col.findOne(filter);
   if (!doc) return null;
+  // Applications answer the version they were pinned to, not whatever the head is now
+  const frozen =
+    version != null && Number(version) !== Number(doc.version ?? 1)
+      ? await db.collection("application_form_versions").findOne({ formId: toStringId(doc._id), version: Number(version) })
+      : null;
   return {
     _id: toStringId(doc._id ?? doc.id),
     id: toStringId(doc.id ?? doc._id),
     name: String(doc.name ?? "Application"),
-    version: Number(doc.version ?? 1),
+    version: Number(frozen?.version ?? doc.version ?? 1),
     scope: (doc.scope ?? "portfolio") as "portfolio",
-    questions: Array.isArray(doc.questions) ? doc.questions : [],
+    questions: Array.isArray((frozen ?? doc).questions) ? (frozen ?? doc).questions : [],
   };
 }
 
@@ -195,25 +206,7 @@ function isMemberCompleteForRole(
   memberAnswers: Record<string, any> | undefined
 ): boolean {
   if (!form) return true; // treat "submitted" as sufficient if form missing (MVP)
-  const ans = memberAnswers ?? {};
-  for (const q of form.questions) {
-    if (!q.required) continue;
-    if (!q.showForRoles?.includes(role)) continue;
-    const v = ans[q.id];
-    const empty = v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
-    if (empty) return false;
-
-    if ((q.inputType === "number" || q.inputType === "currency") && v !== "" && v !== null) {
-      const n = Number(v);
-      if (Number.isNaN(n)) return false;
-      if (q.validation?.min !== undefined && n < q.validation.min!) return false;
-      if (q.validation?.max !== undefined && n > q.validation.max!) return false;
-    }
-    if (q.validation?.pattern && typeof v === "string") {
-      try { const re = new RegExp(q.validation.pattern); if (!re.test(v)) return false; } catch {}
-    }
-  }
-  return true;
+  return validateMemberAnswers(form.questions, role, memberAnswers).ok;
 }
 
 /* ============================================================
@@ -379,7 +372,7 @@ export async function PATCH(
     /^[0-9a-fA-F]{24}$/.test(appId) ? { _id: new ObjectId(appId) } : ({ _id: appId } as any);
 
   const cur = await appsCol.findOne(filter, {
-    projection: { formId: 1, status: 1, householdId: 1, members: 1, answersByMember: 1, submittedAt: 1, updatedAt: 1 },
+    projection: { formId: 1, formVersion: 1, status: 1, householdId: 1, members: 1, answersByMember: 1, submittedAt: 1, updatedAt: 1 },
   });
   if (!cur) return NextResponse.json({ ok: false, error: "not_found" }, { status: 404 });
 
@@ -437,10 +430,37 @@ export async function PATCH(
     const setPaths: Record<string, any> = {};
     let count = 0;
 
+    // Drafts may hold half-typed values, but only for questions on the pinned form
+    const form = await loadFormById(db, String(cur.formId ?? ""), cur.formVersion);
+    const questionsById = new Map((form?.questions ?? []).map((q) => [q.id, q]));
+    const fieldErrors: Record<string, FieldError> = {};
+
     for (const u of updates) {
       const qid = String((u as any).qid);
       if (!qid) continue;
-      count++;
+
+      const q = questionsById.get(qid);
+      let value = (u as any).value;
+      if (form && !q) {
+        fieldErrors[qid] = { code: "unknown_question", message: "This question isn’t on the form" };
+        continue;
+      }
+      if (q?.inputType === "file") {
+        // File answers are document ids, written by the documents routes only
+        fieldErrors[qid] = { code: "bad_value", message: "Upload files with the document uploader" };
+        continue;
+      }
+      if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        fieldErrors[qid] = { code: "bad_value", message: "Invalid answer" };
+        continue;
+      }
+      // Intentional: a value that doesn't coerce yet (a half-typed date or phone)
+      // is kept as typed so the draft round-trips; member_submit rejects it with
+      // fieldErrors. Only answers that can never be valid are refused here.
+      if (q) {
+        const coerced = coerceAnswer(q, value);
+        if (coerced.ok) value = coerced.value;
+      }
 
       const incoming = (u as any).memberId ? String((u as any).memberId) : "";
       const memberUserId = incoming ? (mapM2U.get(incoming) ?? incoming) : userId;
@@ -452,13 +472,21 @@ export async function PATCH(
       if (memberUserId) {
         setPaths[`answersByMember.${memberUserId}.role`] = role;
         setPaths[`answersByMember.${memberUserId}.email`] = emailForSnap;
-        setPaths[`answersByMember.${memberUserId}.answers.${qid}`] = (u as any).value;
+        setPaths[`answersByMember.${memberUserId}.answers.${qid}`] = value;
       } else {
-        setPaths[`answers.${role}.${qid}`] = (u as any).value; // legacy fallback
+        setPaths[`answers.${role}.${qid}`] = value; // legacy fallback
       }
+      count++;
     }
 
-    if (count === 0) return NextResponse.json({ ok: true, noop: true });
+    // Refused answers don't cost the rest of the batch; they come back per field
+    const hasErrors = Object.keys(fieldErrors).length > 0;
+    if (count === 0) {
+      if (hasErrors) {
+        return NextResponse.json({ ok: false, error: "invalid_answers", fieldErrors }, { status: 422 });
+      }
+      return NextResponse.json({ ok: true, noop: true });
+    }
 
     // Atomic latch: only update if still draft
     const res = await appsCol.updateOne(
@@ -473,7 +501,7 @@ export async function PATCH(
       return NextResponse.json({ ok: false, error: "locked", state: currentStatus }, { status: 409 });
     }
 
-    return NextResponse.json({ ok: true, modified: 1, debug: dbg({ count }) });
+    return NextResponse.json({ ok: true, modified: 1, ...(hasErrors ? { fieldErrors } : {}), debug: dbg({ count }) });
   }
 
   /* ---------- B) member submit ---------- */
@@ -482,14 +510,30 @@ export async function PATCH(
       return NextResponse.json({ ok: false, error: "locked", state: currentStatus }, { status: 409 });
     }
 
-    // 1) Stamp this member as submitted (guarded by draft)
+    // 1) Check the caller's answers against the pinned form; nothing is stamped on failure
+    const myRoleForCheck = normalizeRole(myMembership?.role ?? "co_applicant");
+    const submitForm = await loadFormById(db, String(cur.formId ?? ""), cur.formVersion);
+    const coercedPaths: Record<string, any> = {};
+    if (submitForm) {
+      const mine = (cur.answersByMember ?? {})[userId]?.answers ?? {};
+      const check = validateMemberAnswers(submitForm.questions, myRoleForCheck, mine);
+      if (!check.ok) {
+        return NextResponse.json({ ok: false, error: "invalid_answers", fieldErrors: check.errors }, { status: 422 });
+      }
+      for (const [qid, value] of Object.entries(check.values)) {
+        coercedPaths[`answersByMember.${userId}.answers.${qid}`] = value;
+      }
+    }
+
+    // 2) Stamp this member as submitted (guarded by draft)
     const stamp = await appsCol.updateOne(
       { ...filter, status: "draft" },
       {
         $set: {
+          ...coercedPaths,
           [`answersByMember.${userId}.submittedAt`]: now,
           [`answersByMember.${userId}.email`]: myMembership?.email ?? emailLc,
-          [`answersByMember.${userId}.role`]: myMembership?.role ?? "co_applicant",
+          [`answersByMember.${userId}.role`]: myRoleForCheck,
           updatedAt: now,
         },
         $push: { timeline: { at: now, by: userId, event: "member.submitted", meta: { userId } } } as any,
@@ -498,17 +542,21 @@ export async function PATCH(
     if (stamp.matchedCount === 0) {
       return NextResponse.json({ ok: false, error: "locked", state: currentStatus }, { status: 409 });
     }
+    // Answers decide which documents are required, so recount what's missing
+    await refreshMissingDocs(db, toStringId(cur._id)).catch((err) =>
+      console.error("[applications] missing docs refresh failed,", err)
+    );
 
-    // 2) Reload minimal state + answers for checks
+    // 3) Reload minimal state + answers for checks
     const fresh = await appsCol.findOne(filter, {
-      projection: { status: 1, formId: 1, householdId: 1, answersByMember: 1 },
+      projection: { status: 1, formId: 1, formVersion: 1, householdId: 1, answersByMember: 1 },
     });
 
-    // 3) Load the form to know required questions by role
+    // 4) Load the pinned form version to know required questions by role
     const formId = String(fresh?.formId ?? "");
-    const form = formId ? await loadFormById(db, formId) : null;
+    const form = formId ? await loadFormById(db, formId, fresh?.formVersion) : null;
 
-    // 4) Required members: all active household memberships (fallback to caller)
+    // 5) Required members: all active household memberships (fallback to caller)
     const householdId: string | null = fresh?.householdId ?? null;
     const activeMembers = householdId
       ? await membershipsCol.find({ householdId, active: true }).project({ userId: 1, role: 1 }).toArray()
@@ -518,7 +566,7 @@ export async function PATCH(
         ? activeMembers.map((m: any) => ({ userId: toStringId(m.userId), role: normalizeRole(m.role) }))
         : [{ userId, role: (myMembership?.role ?? "co_applicant") as MemberRole }];
 
-    // 5) Check each required member: submitted & complete
+    // 6) Check each required member: submitted & complete
     const byMember = (fresh?.answersByMember ?? {}) as Record<
       string, { role?: MemberRole; answers?: Record<string, any>; submittedAt?: any }
     >;
@@ -532,30 +580,41 @@ export async function PATCH(
       if (!(submitted && complete)) { allSubmitted = false; break; }
     }
 
-    // 6) If everyone complete, flip draft→submitted via rules (guarded by draft)
-    let next = currentStatus;
+    // 7) If everyone complete, flip draft→submitted via rules (guarded by the status we read)
     if (allSubmitted) {
-      // Prefer system actor in rules to support jobs/queues; tenant also works if your rules allow it.
-      next = computeNextState(currentStatus as any, "submit", "system", { membersAck: true }) as string;
-    }
-
-    if (next !== currentStatus) {
-      const flip = await appsCol.updateOne(
-        { ...filter, status: "draft" }, // atomic guard
-        {
-          $set: { status: next, submittedAt: now, updatedAt: now },
-          $push: { timeline: { at: now, by: "system", event: "status.change", meta: { from: currentStatus, to: next, reason: "all_members_complete" } } } as any,
-        }
-      );
-      if (flip.matchedCount === 0) {
+      // System actor, so jobs/queues can submit the same way
+      const flip = await transitionApplication(db, {
+        app: { _id: cur._id, status: cur.status },
+        steps: { action: "submit", role: "system", ctx: { membersAck: true } },
+        by: "system",
+        set: { submittedAt: now },
+        meta: { reason: "all_members_complete" },
+        now,
+      });
+      if (!flip.ok && flip.error === "conflict") {
         return NextResponse.json({ ok: false, error: "locked", state: currentStatus }, { status: 409 });
       }
-      return NextResponse.json({ ok: true, state: next, auto: true });
+      if (flip.ok) {
+        // Score on submit so the landlord list has it; the review page recomputes if stale
+        await computeApplicationScore(db, toStringId(cur._id), { trigger: "submit", by: "system" }).catch((err) =>
+          console.error("[applications] scoring on submit failed,", err)
+        );
+        return NextResponse.json({ ok: true, state: flip.to, auto: true });
+      }
     }
 
     return NextResponse.json({ ok: true, state: currentStatus, auto: false });
   }
 
+  /* ---------- B2) dismiss the "form was updated" notice ---------- */
+  if (body?.action === "ack_form_migration") {
+    await appsCol.updateOne(
+      { ...filter, formMigration: { $exists: true } },
+      { $set: { "formMigration.acknowledgedAt": now } }
+    );
+    return NextResponse.json({ ok: true });
+  }
+
   /* ---------- C) explicit status writes not allowed from tenant ---------- */
   if (typeof body?.status === "string") {
     return NextResponse.json({ ok: false, error: "status_write_not_allowed" }, { status: 400 });
@@ -0,0 +1,150 @@
+// app/api/tenant/applications/[id]/screening/route.ts
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import type { ScreeningCheckType, ScreeningReportDoc } from "@/lib/models";
+import { loadFormVersion } from "@/lib/applications/formVersions";
+import {
+  availableChecks,
+  currentConsent,
+  recordScreeningConsent,
+  reportToWire,
+  requestScreening,
+  screeningDisclosure,
+} from "@/lib/applications/screening";
+import { loadApplicantContext } from "../documents/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** Firm display name for the disclosure; app.firmId is optional, the form always has one */
+async function firmNameFor(db: any, app: any, formFirmId?: string) {
+  const firmId = String(app.firmId ?? formFirmId ?? "");
+  if (!firmId) return "The landlord";
+  const firm = await db
+    .collection("firms")
+    .findOne(ObjectId.isValid(firmId) ? { _id: { $in: [firmId, new ObjectId(firmId)] } } : { _id: firmId }, {
+      projection: { name: 1 },
+    });
+  return String(firm?.name || "The landlord");
+}
+
+/** Form, checks available to the caller and the disclosure covering them */
+async function loadScreeningState(c: Exclude<Awaited<ReturnType<typeof loadApplicantContext>>, { error: any }>) {
+  const form = await loadFormVersion(c.db, String(c.app.formId ?? ""), c.app.formVersion);
+  if (!form) return null;
+  const answers = c.app.answersByMember?.[c.userId]?.answers ?? {};
+  const checks = availableChecks(form, c.role, answers);
+  const kinds = Array.from(new Set(checks.map((x) => x.check))) as ScreeningCheckType[];
+  const disclosure = screeningDisclosure(await firmNameFor(c.db, c.app, form.firmId ? String(form.firmId) : undefined), kinds);
+  return { checks, kinds, disclosure };
+}
+
+/* =======================================================================
+ * GET /api/tenant/applications/:id/screening
+ *   → { disclosure, consent, checks: [{ qualificationId, check, mode, report }] }
+ * Applicants see whether a check ran, never the result.
+ * =======================================================================
+ */
+export async function GET(_req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const c = await loadApplicantContext(id);
+  if ("error" in c) return c.error;
+
+  try {
+    const state = await loadScreeningState(c);
+    if (!state) return NextResponse.json({ ok: false, error: "form_not_found" }, { status: 404 });
+
+    const applicationId = String(c.app._id);
+    const consent = await currentConsent(c.db, applicationId, c.userId);
+    const reports = await c.db
+      .collection<ScreeningReportDoc>("screening_reports")
+      .find({ applicationId, userId: c.userId })
+      .sort({ requestedAt: -1 })
+      .limit(100)
+      .toArray();
+
+    return NextResponse.json({
+      ok: true,
+      disclosure: state.disclosure,
+      consent: consent ? { acceptedAt: consent.acceptedAt, fullName: consent.fullName, checks: consent.checks } : null,
+      checks: state.checks.map((x) => {
+        const latest = reports.find((r) => r.qualificationId === x.qualificationId);
+        return { ...x, report: latest ? reportToWire(latest) : null };
+      }),
+    });
+  } catch (err) {
+    console.error("[screening] load failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* =======================================================================
+ * POST /api/tenant/applications/:id/screening
+ * Body:
+ *   { action: "consent", fullName, accept: true } — sign the current disclosure
+ *   { action: "request", qualificationId }        — run that check
+ * =======================================================================
+ */
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const c = await loadApplicantContext(id);
+  if ("error" in c) return c.error;
+
+  if (String(c.app.status ?? "draft") !== "draft") {
+    return NextResponse.json({ ok: false, error: "locked", state: c.app.status }, { status: 409 });
+  }
+
+  const body = await req.json().catch(() => ({} as any));
+  try {
+    if (body?.action === "consent") {
+      const fullName = String(body?.fullName ?? "").trim().slice(0, 120);
+      if (body?.accept !== true || fullName.length < 2) {
+        return NextResponse.json({ ok: false, error: "consent_incomplete" }, { status: 400 });
+      }
+      const state = await loadScreeningState(c);
+      if (!state) return NextResponse.json({ ok: false, error: "form_not_found" }, { status: 404 });
+      if (!state.kinds.length) return NextResponse.json({ ok: false, error: "no_checks" }, { status: 400 });
+
+      const consent = await recordScreeningConsent(c.db, {
+        app: c.app,
+        userId: c.userId,
+        fullName,
+        checks: state.kinds,
+        ip: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || null,
+        userAgent: req.headers.get("user-agent") || null,
+      });
+      return NextResponse.json({
+        ok: true,
+        consent: { acceptedAt: consent.acceptedAt, fullName: consent.fullName, checks: consent.checks },
+      });
+    }
+
+    if (body?.action === "request") {
+      const qualificationId = String(body?.qualificationId ?? "");
+      if (!qualificationId) {
+        return NextResponse.json({ ok: false, error: "missing_qualificationId" }, { status: 400 });
+      }
+      const res = await requestScreening(c.db, {
+        app: c.app,
+        userId: c.userId,
+        email: c.email,
+        role: c.role,
+        qualificationId,
+        by: c.userId,
+      });
+      if (!res.ok) {
+        const status = res.error === "consent_required" ? 428 : res.error === "screening_not_configured" ? 503 : 400;
+        return NextResponse.json(res, { status });
+      }
+      return NextResponse.json({ ok: true, report: reportToWire(res.report) });
+    }
+
+    return NextResponse.json({ ok: false, error: "unknown_action" }, { status: 400 });
+  } catch (err) {
+    console.error("[screening] action failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
+import { loadFormVersion } from "@/lib/applications/formVersions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -32,6 +33,7 @@ type AppDoc = {
   status: AppStatus;
   members: Member[];
   householdId?: string;       // <── NEW (stored as string for simplicity)
+  formVersion?: number;       // form version this draft answers
   property?: any;
   unit?: any;
   createdAt: Date;
@@ -281,10 +283,12 @@ export async function POST(req: NextRequest) {
         application.members = [...(existing.members ?? []), member];
       }
     } else {
-      // New household-scoped draft
+      // New household-scoped draft, pinned to the form's current version
+      const head = await loadFormVersion(db, formId);
       const doc: AppDoc = {
         formId,
         status: "draft",
+        ...(head ? { formVersion: head.version } : {}),
         householdId: householdIdStr,
         members: [
           {
@@ -47,7 +47,7 @@ export async function GET(req: NextRequest){
   for (const f of tries){ formDoc = await formsCol.findOne(f); if (formDoc) break; }
   if (!formDoc) return NextResponse.json({ ok:false, error:"form_not_found" }, { status:404 });
 
-  const form = {
+  let form = {
     _id: toStringId(formDoc._id ?? formDoc.id),
     id: toStringId(formDoc.id ?? formDoc._id),
     name: String(formDoc.name ?? "Application"),
@@ -75,10 +75,28 @@ export async function GET(req: NextRequest){
   const formKey = form._id || form.id;
   const existing = await apps.findOne(
     { householdId, formId: formKey },
-    { projection: { _id:1, formId:1, status:1, updatedAt:1, submittedAt:1, answers:1, answersByMember:1, members:1 } }
+    { projection: { _id:1, formId:1, formVersion:1, formMigration:1, status:1, updatedAt:1, submittedAt:1, answers:1, answersByMember:1, members:1 } }
   );
 
   if (existing) {
+    // Serve the version this application is pinned to, not the current head
+    const pinned = existing.formVersion != null ? Number(existing.formVersion) : null;
+    if (pinned != null && pinned !== form.version) {
+      const frozen = await db.collection("application_form_versions").findOne({ formId: form._id, version: pinned });
+      if (frozen) {
+        form = {
+          ...form,
+          name: String(frozen.name ?? form.name),
+          description: frozen.description ?? "",
+          sections: Array.isArray(frozen.sections)? frozen.sections: [],
+          questions: Array.isArray(frozen.questions)? frozen.questions: [],
+          qualifications: Array.isArray(frozen.qualifications)? frozen.qualifications: [],
+          version: pinned,
+        };
+      }
+    }
+    const migration = existing.formMigration && !existing.formMigration.acknowledgedAt ? existing.formMigration : null;
+
     return NextResponse.json({
       ok:true,
       form,
@@ -91,6 +109,8 @@ export async function GET(req: NextRequest){
         answers: existing.answers ?? undefined,
         answersByMember: existing.answersByMember ?? undefined,
         members: existing.members ?? [],
+        formVersion: form.version,
+        formMigration: migration ? { from: migration.from, to: migration.to, at: migration.at } : null,
       }
     });
   }
@@ -106,6 +126,7 @@ export async function GET(req: NextRequest){
 
   const doc:any = {
     formId: formKey,
+    formVersion: form.version, // pinned: later edits to the form don't change this application
     householdId,
     status: "draft",
     members: [{ userId, email: emailLc, role: normRole }],
@@ -126,6 +147,8 @@ export async function GET(req: NextRequest){
       submittedAt: null,
       answersByMember: doc.answersByMember,
       members: doc.members,
+      formVersion: form.version,
+      formMigration: null,
     }
   });
 }
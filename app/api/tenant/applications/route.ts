@@ -3,6 +3,7 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
+import { loadFormVersion } from "@/lib/applications/formVersions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -272,11 +273,14 @@ export async function POST(req: NextRequest) {
     });
   }
 
-  // Create without members; household is the source of truth
+  // Create without members; household is the source of truth.
+  // Pinned to the form's current version so later publishes don't move it
+  const head = await loadFormVersion(db, formId);
   const doc = {
     formId,
     householdId: myHouseholdId,
     status: "draft" as AppStatus,
+    ...(head ? { formVersion: head.version } : {}),
     createdAt: now,
     updatedAt: now,
   };
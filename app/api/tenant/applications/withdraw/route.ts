@@ -3,30 +3,11 @@ import { NextResponse } from "next/server";
 import { ObjectId } from "mongodb";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
+import { transitionApplication } from "@/lib/applications/transitions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type AppStatus =
-  | "draft"
-  | "submitted"
-  | "admin_screened"
-  | "approved_high"
-  | "terms_set"
-  | "min_due"
-  | "min_paid"
-  | "countersigned"
-  | "occupied"
-  | "rejected"
-  | "withdrawn";
-
-const NOT_WITHDRAWABLE: AppStatus[] = [
-  "countersigned",
-  "occupied",
-  "rejected",
-  "withdrawn",
-];
-
 export async function POST(req: Request) {
   try {
     const user = await getSessionUser();
@@ -89,66 +70,29 @@ export async function POST(req: Request) {
       );
     }
 
-    const currentStatus = (app.status ?? app.state ?? "draft") as AppStatus;
+    // The rules decide what's still withdrawable (anything before countersigning)
+    const r = await transitionApplication(db, {
+      app,
+      steps: { action: "withdraw", role: "tenant" },
+      by: userId,
+      set: { state: "withdrawn" },
+    });
 
-    if (NOT_WITHDRAWABLE.includes(currentStatus)) {
+    if (!r.ok) {
       return NextResponse.json(
         {
           ok: false,
-          error: "not_withdrawable",
-          status: currentStatus,
+          error: r.error === "conflict" ? "conflict" : "not_withdrawable",
+          status: r.stored ?? "draft",
         },
         { status: 409 },
       );
     }
 
-    // Mark as withdrawn; also update updatedAt so the list re-sorts naturally
-    const now = new Date();
-
-	const updateResult = await applications.updateOne(
-	  {
-		_id: new ObjectId(appId),
-		householdId,
-	  },
-	  {
-		$set: {
-		  status: "withdrawn",
-		  state: "withdrawn",
-		  updatedAt: now.toISOString().slice(0, 10),
-		},
-	  },
-	);
-
-	if (!updateResult.acknowledged) {
-	  return NextResponse.json(
-		{ ok: false, error: "update_not_acknowledged" },
-		{ status: 500 },
-	  );
-	}
-
-	// If nothing matched, something is off (race condition / wrong household)
-	if (updateResult.matchedCount === 0) {
-	  return NextResponse.json(
-		{ ok: false, error: "application_not_found_for_household" },
-		{ status: 404 },
-	  );
-	}
-
-	// If matched but modifiedCount is 0, it was probably already withdrawn.
-	// You can treat that as success.
-	return NextResponse.json({
-	  ok: true,
-	  appId,
-	  status: "withdrawn",
-	});
-
-    // Optionally you could append a timeline event here if you have a timeline array
-    // e.g. $push: { timeline: { event: "tenant_withdrew", at: now, by: userId } }
-
     return NextResponse.json({
       ok: true,
       appId,
-      status: "withdrawn",
+      status: r.to,
     });
   } catch (err) {
     console.error("[tenant/applications/withdraw] error", err);
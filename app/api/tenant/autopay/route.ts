@@ -0,0 +1,265 @@
+// app/api/tenant/autopay/route.ts
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import type { RentAutopayDoc } from "@/lib/models";
+import { pushLeaseTimeline, rentLinesForApp } from "@/lib/rent/autopay";
+import { idEq, rid } from "@/lib/ids";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/* ─────────────────────────────────────────────────────────────
+   Tiny helpers
+───────────────────────────────────────────────────────────── */
+const norm = (v: any) => (v == null ? "" : String(v));
+
+const isYmd = (s: any) => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+/** The caller's lease (by leaseId or appId), only if it belongs to their household */
+async function loadLeaseForTenant(leaseId: string, appId: string) {
+  const user = await getSessionUser();
+  if (!user) return { error: NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 }) };
+  if (!leaseId && !appId) {
+    return { error: NextResponse.json({ ok: false, error: "missing_lease_or_app" }, { status: 400 }) };
+  }
+
+  const db = await getDb();
+  const uid = norm((user as any)._id);
+  const hm = await db.collection("household_memberships").findOne({ userId: uid, active: true });
+  if (!hm) return { error: NextResponse.json({ ok: false, error: "no_household" }, { status: 404 }) };
+
+  const lease = await db
+    .collection<any>("unit_leases")
+    .findOne(
+      leaseId ? idEq("_id", leaseId) : { ...idEq("appId", appId), status: { $nin: ["canceled"] } },
+      { sort: { createdAt: -1 } }
+    );
+  if (!lease || norm(lease.householdId) !== norm(hm.householdId)) {
+    return { error: NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 }) };
+  }
+
+  return { db, user, uid, lease, leaseId: norm(lease._id) };
+}
+
+function toWire(e: RentAutopayDoc, uid: string) {
+  return {
+    _id: String(e._id),
+    userId: String(e.userId),
+    mine: String(e.userId) === uid,
+    email: e.email ?? null,
+    bankLabel: e.bankLabel ?? null,
+    paymentMethodId: String(e.userId) === uid ? e.paymentMethodId : null,
+    mode: e.mode,
+    shareCents: e.shareCents ?? null,
+    startsOn: e.startsOn,
+    status: e.status,
+    pausedUntil: e.pausedUntil ?? null,
+  };
+}
+
+/** Saved bank method from the user's wallet, or null */
+async function findWalletMethod(db: any, uid: string, paymentMethodId: string) {
+  const u = await db.collection("users").findOne(idEq("_id", uid), {
+    projection: { email: 1, stripeCustomerId: 1, bankPaymentMethods: 1 },
+  });
+  const pm = (Array.isArray(u?.bankPaymentMethods) ? u.bankPaymentMethods : []).find(
+    (m: any) => m?.id === paymentMethodId
+  );
+  const customer = pm?.stripeCustomerId || u?.stripeCustomerId;
+  if (!pm || !customer) return null;
+  return {
+    email: u?.email ? String(u.email) : null,
+    stripeCustomerId: String(customer),
+    bankLabel: `${pm.bankName || "Bank account"}${pm.last4 ? ` ••••${pm.last4}` : ""}`,
+  };
+}
+
+/* ─────────────────────────────────────────────────────────────
+   GET /api/tenant/autopay?leaseId=…|appId=…
+   The household's live enrollments + upcoming rent dates
+───────────────────────────────────────────────────────────── */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const r = await loadLeaseForTenant(url.searchParams.get("leaseId") || "", url.searchParams.get("appId") || "");
+  if ("error" in r) return r.error;
+  const { db, uid, lease, leaseId } = r;
+
+  try {
+    const rows = await db
+      .collection<RentAutopayDoc>("rent_autopay")
+      .find({ leaseId, status: { $in: ["active", "paused"] } })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    const app = lease.appId ? await db.collection("applications").findOne(idEq("_id", lease.appId)) : null;
+    const today = new Date().toISOString().slice(0, 10);
+    const upcoming = rentLinesForApp(app).filter((l) => l.dueDate >= today).slice(0, 3);
+
+    return NextResponse.json({
+      ok: true,
+      leaseId,
+      monthlyRentCents: Number(app?.paymentPlan?.monthlyRentCents ?? 0) || 0,
+      enrollments: rows.map((e) => toWire(e, uid)),
+      upcoming,
+    });
+  } catch (err: any) {
+    console.error("[autopay] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   POST /api/tenant/autopay
+   Body: { leaseId? | appId?, paymentMethodId, mode: "full" | "share", shareCents?, startsOn? }
+───────────────────────────────────────────────────────────── */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+
+  const r = await loadLeaseForTenant(norm(body?.leaseId), norm(body?.appId));
+  if ("error" in r) return r.error;
+  const { db, uid, lease, leaseId } = r;
+
+  const mode = body?.mode === "share" ? "share" : body?.mode === "full" ? "full" : null;
+  if (!mode) return NextResponse.json({ ok: false, error: "bad_mode" }, { status: 400 });
+  const shareCents = Math.round(Number(body?.shareCents ?? 0));
+  if (mode === "share" && !(shareCents > 0)) {
+    return NextResponse.json({ ok: false, error: "bad_share_amount" }, { status: 400 });
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  const startsOn = isYmd(body?.startsOn) && body.startsOn > today ? String(body.startsOn) : today;
+
+  try {
+    const method = await findWalletMethod(db, uid, norm(body?.paymentMethodId));
+    if (!method) return NextResponse.json({ ok: false, error: "payment_method_not_found" }, { status: 400 });
+
+    const col = db.collection<RentAutopayDoc>("rent_autopay");
+    const live = await col.find({ leaseId, status: { $in: ["active", "paused"] } }).toArray();
+    if (live.some((e) => String(e.userId) === uid)) {
+      return NextResponse.json({ ok: false, error: "already_enrolled" }, { status: 409 });
+    }
+    // A full-balance enrollment would sweep everyone else's share
+    if (live.some((e) => e.mode === "full") || (mode === "full" && live.length)) {
+      return NextResponse.json({ ok: false, error: "full_autopay_exists" }, { status: 409 });
+    }
+
+    const now = new Date();
+    const doc: RentAutopayDoc = {
+      _id: `apay_${rid()}`,
+      leaseId,
+      appId: norm(lease.appId),
+      firmId: norm(lease.firmId),
+      householdId: lease.householdId ? norm(lease.householdId) : null,
+      userId: uid,
+      email: method.email,
+      paymentMethodId: norm(body.paymentMethodId),
+      stripeCustomerId: method.stripeCustomerId,
+      bankLabel: method.bankLabel,
+      mode,
+      shareCents: mode === "share" ? shareCents : null,
+      startsOn,
+      status: "active",
+      pausedUntil: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await col.insertOne(doc);
+    await pushLeaseTimeline(db, leaseId, uid, "autopay.enrolled", {
+      enrollmentId: doc._id,
+      mode,
+      shareCents: doc.shareCents,
+      bankLabel: doc.bankLabel,
+      startsOn,
+    });
+
+    return NextResponse.json({ ok: true, enrollment: toWire(doc, uid) });
+  } catch (err: any) {
+    if (err?.code === 11000) {
+      return NextResponse.json({ ok: false, error: "already_enrolled" }, { status: 409 });
+    }
+    console.error("[autopay] POST failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────
+   PATCH /api/tenant/autopay
+   Body: { enrollmentId, op, ... }
+     pause          { pausedUntil?: YYYY-MM-DD }
+     resume         {}
+     cancel         {}
+     update_method  { paymentMethodId }
+   Only the enrolled member can change their own enrollment.
+───────────────────────────────────────────────────────────── */
+export async function PATCH(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+  }
+  const op = norm(body?.op);
+  const enrollmentId = norm(body?.enrollmentId);
+  if (!op || !enrollmentId) {
+    return NextResponse.json({ ok: false, error: "missing_op_or_enrollment" }, { status: 400 });
+  }
+
+  const user = await getSessionUser();
+  if (!user) return NextResponse.json({ ok: false, error: "not_authenticated" }, { status: 401 });
+  const uid = norm((user as any)._id);
+
+  try {
+    const db = await getDb();
+    const col = db.collection<RentAutopayDoc>("rent_autopay");
+    const enr = await col.findOne({ _id: enrollmentId, userId: uid });
+    if (!enr || enr.status === "canceled") {
+      return NextResponse.json({ ok: false, error: "enrollment_not_found" }, { status: 404 });
+    }
+
+    const now = new Date();
+    const meta: Record<string, unknown> = { enrollmentId };
+    let set: Partial<RentAutopayDoc>;
+    let event: string;
+
+    if (op === "pause") {
+      if (enr.status !== "active") return NextResponse.json({ ok: false, error: "not_active" }, { status: 409 });
+      const pausedUntil = isYmd(body?.pausedUntil) ? String(body.pausedUntil) : null;
+      set = { status: "paused", pausedUntil };
+      event = "autopay.paused";
+      meta.pausedUntil = pausedUntil;
+    } else if (op === "resume") {
+      if (enr.status !== "paused") return NextResponse.json({ ok: false, error: "not_paused" }, { status: 409 });
+      set = { status: "active", pausedUntil: null };
+      event = "autopay.resumed";
+    } else if (op === "cancel") {
+      set = { status: "canceled", pausedUntil: null, canceledAt: now };
+      event = "autopay.canceled";
+    } else if (op === "update_method") {
+      const method = await findWalletMethod(db, uid, norm(body?.paymentMethodId));
+      if (!method) return NextResponse.json({ ok: false, error: "payment_method_not_found" }, { status: 400 });
+      set = {
+        paymentMethodId: norm(body.paymentMethodId),
+        stripeCustomerId: method.stripeCustomerId,
+        bankLabel: method.bankLabel,
+      };
+      event = "autopay.method_updated";
+      meta.bankLabel = method.bankLabel;
+    } else {
+      return NextResponse.json({ ok: false, error: "unknown_op" }, { status: 400 });
+    }
+
+    await col.updateOne({ _id: enr._id }, { $set: { ...set, updatedAt: now } });
+    await pushLeaseTimeline(db, enr.leaseId, uid, event, meta);
+
+    const fresh = await col.findOne({ _id: enr._id });
+    return NextResponse.json({ ok: true, enrollment: fresh ? toWire(fresh, uid) : null });
+  } catch (err: any) {
+    console.error("[autopay] PATCH failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
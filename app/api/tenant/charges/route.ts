@@ -3,247 +3,20 @@ import { NextResponse } from "next/server";
 import { ObjectId } from "mongodb";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
+import { syncLedger } from "@/lib/ledger/journal";
+import { assessLateFees } from "@/lib/rent/lateFees";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Bucket = "upfront" | "deposit" | "rent" | "fee" | "operating";
-type Status = "created" | "processing" | "succeeded" | "failed" | "canceled" | "returned";
-
-type ChargeRow = {
-  chargeKey: string;             // `${appId}:${bucket}:${code}`
-  bucket: "upfront" | "deposit" | "rent"; // ← include "rent"
-  code: string;                  // "key_fee" | "first_month" | "last_month" | "security_deposit" | `rent:YYYY-MM`
-  label?: string;
-  amountCents: number;           // total owed for this line
-  priorityIndex: number;
-  dueDate?: string | null;       // ISO date "YYYY-MM-DD" for UI bucketing
-};
-
-type PaymentRow = {
-  kind: Bucket;                  // may be "operating" in DB; we'll normalize to "upfront"
-  status: Status;
-  amountCents: number;
-  createdAt: Date;
-};
-
 function isObjectIdLike(v: string) {
   return /^[a-f\d]{24}$/i.test(v);
 }
 function toObjectIdOrString(v: string) {
   return (isObjectIdLike(v) ? new ObjectId(v) : v) as any;
 }
-function safeNum(x: any, d = 0) {
-  const n = Number(x);
-  return Number.isFinite(n) ? n : d;
-}
-const LABELS: Record<string, string> = {
-  first_month: "First month",
-  last_month: "Last month",
-  key_fee: "Key fee",
-  security_deposit: "Security deposit",
-};
 const roundToDollar = (cents: number) => Math.round(cents / 100) * 100;
 
-/* ---------- tiny helper: ISO (YYYY-MM-DD) => previous day in UTC ---------- */
-function prevDayISO(iso: string) {
-  const [y, m, d] = iso.split("-").map(Number);
-  const dt = new Date(Date.UTC(y, (m ?? 1) - 1, d ?? 1));
-  dt.setUTCDate(dt.getUTCDate() - 1);
-  return dt.toISOString().slice(0, 10);
-}
-
-/* ----------------------- charge construction ----------------------- */
-/**
- * Build addressable charges from the application doc.
- * Deposit is "security_deposit".
- * Lease-balance ("upfront") items: key_fee, first_month, last_month.
- * Monthly rent is **rent**, due on its own schedule (rent:YYYY-MM).
- *
- * NOTE: key/first/last get due dates set to the **day before move-in**.
- */
-function buildCharges(appId: string, app: any): ChargeRow[] {
-  const charges: ChargeRow[] = [];
-  const push = (
-    bucket: "upfront" | "deposit" | "rent",
-    code: string,
-    amt: number,
-    prio: number,
-    dueDate?: string | null
-  ) => {
-    const amountCents = Math.max(0, safeNum(amt));
-    if (amountCents <= 0) return;
-    charges.push({
-      chargeKey: `${appId}:${bucket}:${code}`,
-      bucket,
-      code,
-      label: LABELS[code] ?? (code.startsWith("rent:") ? `Rent ${code.slice(5)}` : code.replaceAll("_", " ")),
-      amountCents,
-      priorityIndex: prio,
-      dueDate: dueDate ?? null,
-    });
-  };
-
-  const plan = app?.paymentPlan ?? null;
-
-  // Helper: add YYYY-MM rent charges strictly after move-in items,
-  // skipping start/end months when first/last are upfront.
-  function addMonthlyRentCharges(params: {
-    startISO?: string | null;
-    termMonths?: number | null;
-    monthly?: number;
-    basePrio?: number;
-    skipFirstMonth?: boolean;
-    skipLastMonth?: boolean;
-  }) {
-    const rent = Math.max(0, safeNum(params.monthly));
-    const months = Math.max(0, safeNum(params.termMonths));
-    if (!params.startISO || !months || !rent) return;
-
-    const parts = String(params.startISO).split("-");
-    const y = parseInt(parts[0], 10);
-    const m = parseInt(parts[1], 10);
-    if (!y || !m) return;
-
-    let year = y, month = m; // 1..12
-    const base = params.basePrio ?? 2000;
-
-    for (let i = 0; i < months; i++) {
-      // Skip the first lease month if first is paid upfront
-      if (i === 0 && params.skipFirstMonth) {
-        month += 1;
-        if (month > 12) { month = 1; year += 1; }
-        continue;
-      }
-      // Skip the last lease month if last is paid upfront
-      if (i === months - 1 && params.skipLastMonth) {
-        continue;
-      }
-
-      const ym = `${year.toString().padStart(4, "0")}-${month.toString().padStart(2, "0")}`;
-      // RENT LINES ARE RENT, not upfront
-      push("rent", `rent:${ym}`, rent, base + i, ym + "-01");
-
-      month += 1;
-      if (month > 12) { month = 1; year += 1; }
-    }
-  }
-
-  if (plan?.upfrontTotals) {
-    const first = safeNum(plan.upfrontTotals.firstCents);
-    const last  = safeNum(plan.upfrontTotals.lastCents);
-    const key   = safeNum(plan.upfrontTotals.keyCents);
-    const sec   = safeNum(plan.securityCents);
-
-    const requireFirst = !!plan.requireFirstBeforeMoveIn && first > 0;
-    const requireLast  = !!plan.requireLastBeforeMoveIn  && last  > 0;
-
-    const prioList =
-      Array.isArray(plan.priority) && plan.priority.length
-        ? (plan.priority as string[])
-        : ["key_fee", "first_month", "last_month", "security_deposit"];
-    const prio = (code: string) => {
-      const idx = prioList.indexOf(code);
-      return idx >= 0 ? idx : 999;
-    };
-
-    const moveInISO =
-      typeof plan?.startDate === "string" ? plan.startDate : app?.protoLease?.moveInDate ?? null;
-
-    // Slide ONLY the move-in items to the **day before** move-in
-    const preMoveInISO = moveInISO ? prevDayISO(moveInISO) : null;
-
-    // Move-in items (lease balance)
-    push("upfront", "key_fee",     key,   prio("key_fee"),     preMoveInISO);
-    if (requireFirst) push("upfront", "first_month", first, prio("first_month"), preMoveInISO);
-    if (requireLast)  push("upfront", "last_month",  last,  prio("last_month"),  preMoveInISO);
-
-    // Monthly rent lines (skip the months covered by first/last upfront)
-    addMonthlyRentCharges({
-      startISO: plan.startDate,
-      termMonths: plan.termMonths,
-      monthly: plan.monthlyRentCents,
-      basePrio: 2000,
-      skipFirstMonth: requireFirst,
-      skipLastMonth: requireLast,
-    });
-
-    // Deposit stays on the move-in/start date
-    push("deposit", "security_deposit", sec, prio("security_deposit"), moveInISO);
-    return charges;
-  }
-
-  // Legacy fallback (application.upfronts)
-  const u = app?.upfronts ?? {};
-  const moveInISO = app?.protoLease?.moveInDate ?? null;
-  const preMoveInISO = moveInISO ? prevDayISO(moveInISO) : null;
-
-  push("upfront", "key_fee",     safeNum(u.key),   0, preMoveInISO);
-  push("upfront", "first_month", safeNum(u.first), 1, preMoveInISO);
-  push("upfront", "last_month",  safeNum(u.last),  2, preMoveInISO);
-  push("deposit", "security_deposit", safeNum(u.security), 3, moveInISO);
-  return charges;
-}
-
-/* ------------------------ allocation (greedy) ----------------------- */
-/**
- * Greedy allocator across charges (priority, then code) to compute
- * posted + pending per charge from payments.
- *
- * Rules:
- *  - "deposit" payments → only deposit line,
- *  - "rent" payments → only rent lines,
- *  - "upfront"/"operating" → upfront first (key/first/last), then rent lines by priority.
- */
-function allocate(
-  charges: ChargeRow[],
-  payments: PaymentRow[]
-) {
-  const orderedCharges = [...charges].sort(
-    (a, b) => a.priorityIndex - b.priorityIndex || a.code.localeCompare(b.code)
-  );
-  const postedByKey = new Map<string, number>();
-  const pendingByKey = new Map<string, number>();
-  const add = (m: Map<string, number>, k: string, v: number) =>
-    m.set(k, (m.get(k) ?? 0) + v);
-
-  const orderedPayments = [...payments].sort(
-    (a, b) => (a.createdAt?.getTime?.() ?? 0) - (b.createdAt?.getTime?.() ?? 0)
-  );
-
-  for (const p of orderedPayments) {
-    const norm = (p.kind === "operating" ? "upfront" : p.kind) as Bucket;
-
-    let allowed: Array<"upfront" | "deposit" | "rent"> = [];
-    if (norm === "deposit") allowed = ["deposit"];
-    else if (norm === "rent") allowed = ["rent"];
-    else if (norm === "upfront") allowed = ["upfront", "rent"]; // spillover into rent after move-in items
-
-    if (allowed.length === 0) continue;
-    if (p.status !== "succeeded" && p.status !== "processing") continue;
-
-    let remaining = Math.max(0, p.amountCents);
-    if (remaining <= 0) continue;
-
-    for (const c of orderedCharges) {
-      if (remaining <= 0) break;
-      if (!allowed.includes(c.bucket)) continue;
-
-      const posted = postedByKey.get(c.chargeKey) ?? 0;
-      const pending = pendingByKey.get(c.chargeKey) ?? 0;
-      const open = Math.max(0, c.amountCents - posted - pending);
-      if (open <= 0) continue;
-
-      const take = Math.min(open, remaining);
-      if (p.status === "succeeded") add(postedByKey, c.chargeKey, take);
-      else add(pendingByKey, c.chargeKey, take);
-      remaining -= take;
-    }
-  }
-
-  return { postedByKey, pendingByKey };
-}
-
 /* ---------------------------- route ---------------------------- */
 export async function GET(req: Request) {
   const user = await getSessionUser();
@@ -262,50 +35,40 @@ export async function GET(req: Request) {
   try {
     const db = await getDb();
     const applications = db.collection("applications");
-    const paymentsCol = db.collection("payments");
 
     // Load the application (support string or ObjectId)
     const appIdForLookup = toObjectIdOrString(appIdRaw);
     const app = await applications.findOne(
       { _id: appIdForLookup },
-      { projection: { _id: 1, paymentPlan: 1, upfronts: 1, protoLease: 1, countersign: 1 } }
+      { projection: { _id: 1, firmId: 1, paymentPlan: 1, upfronts: 1, protoLease: 1, countersign: 1 } }
     );
 
-    const charges = buildCharges(appIdRaw, app);
+    // Assess any rent now past the late-fee grace period, then read balances from the ledger
+    if (app) await assessLateFees(db, app, { firmId });
+    const { charges, balances } = app
+      ? await syncLedger(db, app, { firmId })
+      : { charges: [], balances: null };
 
     // Gross totals per bucket (before considering payments)
     const grossUpfrontCents = charges.filter(c => c.bucket === "upfront").reduce((s, c) => s + c.amountCents, 0);
     const grossDepositCents = charges.filter(c => c.bucket === "deposit").reduce((s, c) => s + c.amountCents, 0);
     // (We could add grossRentCents if you want, not required by current client.)
 
-    // Pull payments (light) and allocate to determine posted/pending per charge
-    const payMatch: Record<string, any> = { appId: appIdRaw };
-    if (firmId) payMatch.firmId = firmId;
-
-    const rawPays = await paymentsCol
-      .find(payMatch, { projection: { kind: 1, status: 1, amountCents: 1, createdAt: 1 } })
-      .toArray();
-
-    const payments: PaymentRow[] = rawPays.map((p: any) => ({
-      kind: (p.kind ?? "upfront") as Bucket, // may be "operating", normalized in allocate()
-      status: (p.status ?? "created") as Status,
-      amountCents: safeNum(p.amountCents),
-      createdAt: p.createdAt instanceof Date ? p.createdAt : new Date(p.createdAt ?? Date.now()),
-    }));
-
-    const { postedByKey, pendingByKey } = allocate(charges, payments);
-
     // Map per-charge remaining (for UI + windows)
     let dueUpfrontCents = 0;
     let dueDepositCents = 0;
+    let dueFeeCents = 0;
 
     const chargesOut = charges.map(c => {
-      const posted = Math.max(0, postedByKey.get(c.chargeKey) ?? 0);
-      const pending = Math.max(0, pendingByKey.get(c.chargeKey) ?? 0);
-      const remaining = Math.max(0, c.amountCents - posted - pending);
+      const bal = balances?.byCharge.get(c.chargeKey);
+      const posted = Math.max(0, bal?.postedCents ?? 0);
+      const pending = Math.max(0, bal?.pendingCents ?? 0);
+      const waived = Math.max(0, (bal?.waivedCents ?? 0) + (bal?.creditedCents ?? 0));
+      const remaining = Math.max(0, bal ? bal.remainingCents : c.amountCents);
 
       if (c.bucket === "upfront") dueUpfrontCents += remaining;
       else if (c.bucket === "deposit") dueDepositCents += remaining;
+      else if (c.bucket === "fee") dueFeeCents += remaining;
       // rent is deliberately excluded from the legacy two-bucket totals
 
       return {
@@ -318,6 +81,8 @@ export async function GET(req: Request) {
         dueDate: c.dueDate ?? null,
         postedCents: posted,
         pendingCents: pending,
+        waivedCents: waived,
+        refundedCents: Math.max(0, bal?.refundedCents ?? 0),
         remainingCents: remaining,
       };
     });
@@ -487,6 +252,9 @@ export async function GET(req: Request) {
       grossUpfrontCents,
       grossDepositCents,
 
+      // Assessed late fees still open (payable with reason "late_fees")
+      dueFeeCents,
+
       // “Quick amounts” buttons the server authorizes
       allowed: {
         upfront: allowedUpfront,
@@ -0,0 +1,88 @@
+// app/api/tenant/lease/move-out/route.ts
+import { NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/db";
+import { getSessionUser } from "@/lib/auth";
+import { deadlineStatus, summarizeDepositReturn } from "@/lib/deposit/moveOut";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const norm = (v: any) => (v == null ? null : String(v));
+
+/**
+ * GET /api/tenant/lease/move-out?leaseId=...
+ * Tenant view of the move-out deposit return. Drafts only expose the
+ * move-out date and the 30-day deadline; itemized figures appear once sworn.
+ */
+export async function GET(req: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  const leaseId = new URL(req.url).searchParams.get("leaseId") || "";
+  if (!leaseId) {
+    return NextResponse.json({ ok: false, error: "missing_leaseId" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDb();
+    const userIdStr = String((user as any)._id ?? (user as any).id ?? "");
+
+    const hm = await db
+      .collection("household_memberships")
+      .findOne({ userId: userIdStr, active: true });
+    if (!hm) {
+      return NextResponse.json({ ok: false, error: "no_household" }, { status: 404 });
+    }
+
+    const lease = await db
+      .collection<any>("unit_leases")
+      .findOne(ObjectId.isValid(leaseId) ? { _id: { $in: [leaseId, new ObjectId(leaseId)] } } : { _id: leaseId });
+    if (!lease || norm(lease.householdId) !== norm(hm.householdId)) {
+      return NextResponse.json({ ok: false, error: "lease_not_found" }, { status: 404 });
+    }
+
+    const doc = await db.collection<any>("deposit_returns").findOne({ leaseId: norm(lease._id) });
+    if (!doc) {
+      return NextResponse.json({ ok: true, depositReturn: null });
+    }
+
+    const base = {
+      status: doc.status as "draft" | "finalized" | "paid",
+      moveOutDate: doc.moveOutDate ?? null,
+      deadline: deadlineStatus(doc),
+    };
+
+    if (doc.status === "draft") {
+      return NextResponse.json({ ok: true, depositReturn: base });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      depositReturn: {
+        ...base,
+        totals: summarizeDepositReturn(doc),
+        deductions: (doc.deductions ?? []).map((d: any) => ({
+          id: d.id,
+          kind: d.kind,
+          label: d.label,
+          amountCents: d.amountCents,
+        })),
+        swornAt: doc.sworn?.at ?? null,
+        payout: doc.payout
+          ? {
+              method: doc.payout.method,
+              amountCents: doc.payout.amountCents,
+              paidAt: doc.payout.paidAt,
+            }
+          : null,
+        statementUrl: `/api/receipts/deposit-return/${encodeURIComponent(String(doc.leaseId))}`,
+      },
+    });
+  } catch (err: any) {
+    console.error("[tenant][move-out] GET failed,", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,8 @@ import { getDb } from "@/lib/db";
 import Stripe from "stripe";
 import { ObjectId } from "mongodb";
 import crypto from "node:crypto";
+import { syncLedger, type LedgerBalances } from "@/lib/ledger/journal";
+import { openLateFeeCents } from "@/lib/rent/lateFees";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,7 +16,6 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string);
    Types
 ───────────────────────────────────────────────────────────── */
 
-type Bucket = "operating" | "deposit" | "rent" | "fee";
 type Status =
   | "created"
   | "processing"
@@ -29,7 +30,7 @@ type Body = {
   // Back-compat: "upfront" maps to "operating"
   type?: "operating" | "upfront" | "deposit";
   amountCents?: number;
-  reason?: string | null; // "signing_combined" | "movein_combined" | ...
+  reason?: string | null; // "signing_combined" | "movein_combined" | "monthly_rent" | "late_fees"
   requestId?: string | null;
   paymentMethodId?: string | null;
   splitHint?: {
@@ -38,13 +39,6 @@ type Body = {
   } | null;
 };
 
-type PaymentLite = {
-  kind: Bucket | "upfront";
-  status: Status;
-  amountCents: number;
-  createdAt: Date;
-};
-
 /* ─────────────────────────────────────────────────────────────
    Helpers
 ───────────────────────────────────────────────────────────── */
@@ -117,33 +111,19 @@ function computePlanTotals(appDoc: any) {
 }
 
 /**
- * Aggregate payments for this app + firm, and allocate into Step 1 then Step 2.
- * Same allocator as the /summary progress.
+ * Ledger cash (pending + settled) from operating and deposit payments, allocated
+ * into Step 1 then Step 2. Same allocator as the /summary progress.
  */
 function computeStepProgress(
-  payments: PaymentLite[],
+  balances: LedgerBalances,
   step1OpTotal: number,
   step1DepTotal: number,
   step2OpTotal: number,
   step2DepTotal: number,
 ) {
-  const paidStatuses = new Set<Status>(["processing", "succeeded"]);
-
-  let operatingPaidCents = 0;
-  let depositPaidCents = 0;
-
-  for (const p of payments) {
-    if (!paidStatuses.has(p.status)) continue;
-    const amt = Number(p.amountCents || 0);
-    if (!Number.isFinite(amt) || amt <= 0) continue;
-
-    const kind = p.kind;
-    if (kind === "deposit") {
-      depositPaidCents += amt;
-    } else if (kind === "upfront" || kind === "operating") {
-      operatingPaidCents += amt;
-    }
-  }
+  const { upfront, deposit } = balances.byPaymentKind;
+  const operatingPaidCents = Math.max(0, upfront.pendingCents + upfront.postedCents);
+  const depositPaidCents = Math.max(0, deposit.pendingCents + deposit.postedCents);
 
   let opAvail = operatingPaidCents;
   let depAvail = depositPaidCents;
@@ -285,6 +265,7 @@ export async function POST(req: Request) {
           countersign: 1,
           paymentPlan: 1,
           upfronts: 1,
+          protoLease: 1,
           answersByMember: 1,
         },
       },
@@ -423,32 +404,11 @@ export async function POST(req: Request) {
     } = computePlanTotals(appDoc);
 
 
-    const rawPays = await paymentsCol
-      .find(
-        { appId, firmId },
-        {
-          projection: {
-            kind: 1,
-            status: 1,
-            amountCents: 1,
-            createdAt: 1,
-          },
-        },
-      )
-      .toArray();
-
-    const payments: PaymentLite[] = rawPays.map((p: any) => ({
-      kind: (p.kind ?? "operating") as Bucket | "upfront",
-      status: (p.status ?? "created") as Status,
-      amountCents: safeNum(p.amountCents),
-      createdAt:
-        p.createdAt instanceof Date
-          ? p.createdAt
-          : new Date(p.createdAt ?? Date.now()),
-    }));
+    // Balances come from the ledger so gates match /charges and the landlord view
+    const { balances } = await syncLedger(db, appDoc, { firmId });
 
     const progress = computeStepProgress(
-      payments,
+      balances,
       step1OpTotal,
       step1DepTotal,
       step2OpTotal,
@@ -1069,15 +1029,12 @@ export async function POST(req: Request) {
       const totalPrepaidRentCents =
         safeNum(firstCents) + safeNum(lastCents);
 
-      // Rent already paid as "rent" payments
-      const paidStatuses = new Set<Status>(["processing", "succeeded"]);
-      let rentPaidCents = 0;
-      for (const p of payments) {
-        if (!paidStatuses.has(p.status)) continue;
-        if (p.kind === "rent") {
-          rentPaidCents += safeNum(p.amountCents);
-        }
-      }
+      // Rent already paid as "rent" payments (pending + settled)
+      const rentPaidCents = Math.max(
+        0,
+        balances.byPaymentKind.rent.pendingCents +
+          balances.byPaymentKind.rent.postedCents,
+      );
 
       const remainingRentCents = Math.max(
         0,
@@ -1210,6 +1167,99 @@ export async function POST(req: Request) {
       }
     }
 
+    /* ─────────────────────────────────────────────────────────────
+       Branch 4: assessed late fees
+       reason === "late_fees" (amount ≤ open late fee balance)
+    ────────────────────────────────────────────────────────────── */
+
+    if (reason === "late_fees") {
+      debug.step = "late_fees_flow";
+
+      const openFeeCents = await openLateFeeCents(db, appDoc);
+      const requestedFee = i32(amountCents);
+      debug.amounts.lateFees = { openFeeCents, requestedFee };
+
+      if (!Number.isFinite(requestedFee) || requestedFee <= 0) {
+        debug.step = "invalid_amount_fee";
+        return done(400, { error: "invalid_amount" });
+      }
+      if (requestedFee > openFeeCents) {
+        debug.step = "amount_exceeds_open_fees";
+        return done(400, {
+          error: "amount_not_allowed",
+          detail: { kind: "fee", requested: requestedFee, remaining: openFeeCents },
+        });
+      }
+      if (!operatingAccountId) {
+        debug.step = "missing_operating_for_fee";
+        return done(400, { error: "missing_operating_account" });
+      }
+
+      const idemKey = newIdemKey("fee", requestId);
+      try {
+        const pi = await stripe.paymentIntents.create(
+          {
+            amount: requestedFee,
+            currency: "usd",
+            description: `Late fee payment for application ${appId}`,
+            customer: stripeCustomerId!,
+            payment_method: paymentMethodId!,
+            confirm: true,
+            off_session: false,
+            payment_method_types: ["us_bank_account"],
+            transfer_data: { destination: operatingAccountId },
+            receipt_email: payerEmail,
+            metadata: {
+              appId,
+              firmId,
+              type: "fee",
+              reason: "late_fees",
+              initiatedBy: String(
+                (user as any)?.email || (user as any)?._id || "",
+              ),
+            },
+          },
+          { idempotencyKey: idemKey },
+        );
+
+        await paymentsCol.insertOne({
+          appId,
+          firmId: firmId || "",
+          leaseId: null,
+          kind: "fee",
+          status: "processing" as Status,
+          amountCents: requestedFee,
+          currency: "USD",
+          provider: "stripe",
+          providerIds: { paymentIntentId: pi.id },
+          createdAt: now,
+          updatedAt: now,
+          meta: {
+            session: "tenant.late_fees",
+            by: String(
+              (user as any)?.email || (user as any)?._id || "user",
+            ),
+            reason: "late_fees",
+            destinationAccount: operatingAccountId,
+            rails: "ach",
+            idempotencyKey: idemKey,
+            requestId: requestId ?? null,
+          },
+        });
+
+        debug.step = "ok_late_fees";
+        return done(200, {
+          ok: true,
+          mode: "late_fees",
+          paymentIntentId: pi.id,
+          summary: { amountCents: requestedFee, bankLabel: savedBankLabel },
+        });
+      } catch (e: any) {
+        debug.stripe.errors.lateFees = e?.message || "late_fee_failed";
+        return done(500, { error: "pi_create_failed" });
+      }
+    }
+
     // Fallback: single-bucket top-up (operating or deposit only)
     const requested = i32(amountCents);
     debug.amounts.requested = requested;
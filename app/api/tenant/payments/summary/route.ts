@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getDb } from "@/lib/db";
 import { getSessionUser } from "@/lib/auth";
 import { ObjectId } from "mongodb";
+import { syncLedger } from "@/lib/ledger/journal";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -9,8 +10,8 @@ export const dynamic = "force-dynamic";
 /**
  * GET /api/tenant/payments/summary?appId=...&firmId=...
  *
- * Driven off application.paymentPlan + countersign + payments,
- * not obligations / charges. Conceptually:
+ * Driven off application.paymentPlan + countersign + ledger balances.
+ * Conceptually:
  *
  * Plan (totals):
  *   Step 1:
@@ -25,11 +26,10 @@ export const dynamic = "force-dynamic";
  *   Step 3:
  *     - monthly:   paymentPlan.monthlyRentCents
  *
- * Payments:
- *   - Sum all payments for this app (and firm) by kind & status
- *   - Treat kind "upfront" and "operating" as operating bucket
- *   - Treat kind "deposit" as deposit bucket
- *   - Statuses counted as "paid": processing, succeeded
+ * Payments (from the ledger, lib/ledger/journal.ts):
+ *   - Cash from "upfront"/"operating" payments → operating bucket
+ *   - Cash from "deposit" payments → deposit bucket
+ *   - Pending (processing) + settled both count as "paid"
  *   - Allocate operating + deposit paid into Step 1 first, then Step 2.
  *
  * Returns:
@@ -74,7 +74,6 @@ export async function GET(req: Request) {
 
   const db = await getDb();
   const applications = db.collection("applications");
-  const paymentsCol = db.collection("payments");
 
   // Pull the application – everything is derived from this
   const app = await applications.findOne(
@@ -85,6 +84,7 @@ export async function GET(req: Request) {
         firmId: 1,
         countersign: 1,
         paymentPlan: 1,
+        upfronts: 1,
         protoLease: 1,
       },
     },
@@ -195,47 +195,13 @@ export async function GET(req: Request) {
      2) Payments – how much has been paid toward each bucket
   ────────────────────────────────────────────────────────────── */
 
-  // Load all payments for this app (and firm if provided)
-  const paymentFilter: Record<string, any> = { appId: appIdRaw };
-  if (firmId) paymentFilter.firmId = firmId;
-
-  const payments = await paymentsCol
-    .find(paymentFilter, {
-      projection: {
-        kind: 1,
-        status: 1,
-        amountCents: 1,
-      },
-    })
-    .toArray();
-
-  // Which statuses count as "paid" against gates
-  const paidStatuses = new Set<string>([
-    "processing",
-    "succeeded",
-  ]);
-
-  // Aggregate paid amounts into operating vs deposit buckets.
-  // - Treat "upfront" and "operating" as the same operating bucket
-  // - Treat "deposit" as deposit bucket
-  let operatingPaidCents = 0;
-  let depositPaidCents = 0;
-
-  for (const p of payments) {
-    const status = String(p.status);
-    if (!paidStatuses.has(status)) continue;
-
-    const amt = Number(p.amountCents || 0);
-    if (!Number.isFinite(amt) || amt <= 0) continue;
-
-    const kind = p.kind;
-    if (kind === "deposit") {
-      depositPaidCents += amt;
-    } else if (kind === "upfront" || kind === "operating") {
-      operatingPaidCents += amt;
-    }
-    // rent/fee buckets are ignored here; they affect Step 3+ only
-  }
+  // Cash (pending + settled) by payment kind, read from the ledger so these
+  // numbers match /charges and what the landlord sees
+  const { balances } = await syncLedger(db, app, { firmId });
+  const { upfront, deposit } = balances.byPaymentKind;
+  const operatingPaidCents = Math.max(0, upfront.pendingCents + upfront.postedCents);
+  const depositPaidCents = Math.max(0, deposit.pendingCents + deposit.postedCents);
+  // rent/fee payments are ignored here; they affect Step 3+ only
 
   // Allocate operating/deposit paid to Step 1 first, then Step 2.
 
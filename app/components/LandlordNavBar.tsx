@@ -22,6 +22,7 @@ export default function LandlordNavBar({ isInspector }: Props) {
     { href: "/landlord/payments", label: "Payments" },
     { href: "/landlord/leases", label: "Leases" },
     { href: "/landlord/documents", label: "Documents" },
+    { href: "/landlord/settings", label: "Settings" },
   ];
 
   const isActive = (href: string) =>
@@ -4,6 +4,7 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import ExtendHoldModal from "./ExtendHoldModal";
 
 /* ------------------------------------------
    New canonical statuses (steps)
@@ -18,6 +19,8 @@ type AppStatus =
   | "min_paid"
   | "countersigned"
   | "occupied"
+  | "moved_out"
+  | "waitlisted"
   | "rejected"
   | "withdrawn";
 
@@ -29,6 +32,11 @@ type Household = {
   submittedAt: string;
   status: AppStatus;
   members: { name: string; email: string; role: MemberRole }[];
+  scorecard?: { score: number; result: "pass" | "flag"; incomeToRent: number | null } | null;
+  unitKey: string | null;
+  unitLabel: string;
+  rank: number | null;
+  heldUntil: string | null;
 };
 
 type FirmMeta = { firmId: string; firmName: string; firmSlug?: string } | null;
@@ -39,6 +47,19 @@ type FirmMeta = { firmId: string; firmName: string; firmSlug?: string } | null;
 function clsx(...xs: (string | false | null | undefined)[]) {
   return xs.filter(Boolean).join(" ");
 }
+function Toast({ text, onClose }: { text: string; onClose: () => void }) {
+  if (!text) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2">
+      <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
+        {text}{" "}
+        <button className="ml-3 underline underline-offset-2" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
 function formatDate(s: string) {
   if (!s) return "—";
   const d = new Date(s);
@@ -87,6 +108,8 @@ type StageKey =
   | "min_paid"
   | "countersigned"
   | "occupied"
+  | "moved_out"
+  | "waitlisted"
   | "closed";
 
 const STAGE_ORDER: { key: StageKey; label: string; match: (s: AppStatus) => boolean }[] = [
@@ -99,6 +122,8 @@ const STAGE_ORDER: { key: StageKey; label: string; match: (s: AppStatus) => bool
   { key: "min_paid",       label: "Ready to Sign", match: (s) => s === "min_paid" },
   { key: "countersigned",  label: "Countersigned", match: (s) => s === "countersigned" },
   { key: "occupied",       label: "Occupied",      match: (s) => s === "occupied" },
+  { key: "moved_out",      label: "Moved Out",     match: (s) => s === "moved_out" },
+  { key: "waitlisted",     label: "Waitlisted",    match: (s) => s === "waitlisted" },
   { key: "closed",         label: "Closed",        match: (s) => s === "rejected" || s === "withdrawn" },
 ];
 
@@ -123,6 +148,8 @@ function colorClassesForStatus(s: AppStatus) {
   if (s === "min_paid")          return { border: "border-emerald-300", bg: "bg-emerald-50" };
   if (s === "countersigned")     return { border: "border-emerald-300", bg: "bg-emerald-50" };
   if (s === "occupied")          return { border: "border-emerald-300", bg: "bg-emerald-50" };
+  if (s === "moved_out")         return { border: "border-gray-300",    bg: "bg-gray-50" };
+  if (s === "waitlisted")        return { border: "border-slate-300",   bg: "bg-slate-50" };
   if (s === "rejected" || s === "withdrawn")
                                  return { border: "border-rose-300",    bg: "bg-rose-50" };
   return { border: "border-gray-200", bg: "bg-white" };
@@ -158,7 +185,25 @@ function coerceToHouseholdUI(raw: any): Household | null {
     email: val(m.email) ?? val(m.mail) ?? "—",
     role: "co-applicant" as MemberRole,
   }));
-  return { id, appId, submittedAt, status, members };
+  const scorecard = raw.scorecard
+    ? {
+        score: Number(raw.scorecard.score ?? 0),
+        result: raw.scorecard.result === "pass" ? ("pass" as const) : ("flag" as const),
+        incomeToRent: raw.scorecard.incomeToRent ?? null,
+      }
+    : null;
+  return {
+    id,
+    appId,
+    submittedAt,
+    status,
+    members,
+    scorecard,
+    unitKey: val(raw.unitKey) ?? null,
+    unitLabel: val(raw.unitLabel) ?? "Unassigned unit",
+    rank: typeof raw.rank === "number" ? raw.rank : null,
+    heldUntil: val(raw.heldUntil) ?? null,
+  };
 }
 
 async function fetchHouseholds(
@@ -194,12 +239,14 @@ function AppCard({
   leaseHref,
   holdingHref,
   handoffHref,
+  onExtendHold,
 }: {
   hh: Household;
   onReview: (hh: Household) => void;
   leaseHref: string;
   holdingHref: string;
   handoffHref: string;
+  onExtendHold: (hh: Household) => void;
 }) {
   const primary = hh.members?.[0];
   const colors = colorClassesForStatus(hh.status);
@@ -220,6 +267,19 @@ function AppCard({
         <div className="min-w-0">
           <div className="text-[13px] font-semibold text-gray-900 truncate">
             Household {hh.id}
+            {hh.rank != null && (
+              <span className="ml-2 rounded-full bg-white/70 px-1.5 py-0.5 text-[10px] font-medium text-gray-700 ring-1 ring-gray-200">
+                #{hh.rank}
+              </span>
+            )}
+          </div>
+          <div className="text-[11px] text-gray-500 truncate">
+            {hh.unitLabel}
+            {hh.heldUntil && (
+              <span className="ml-2 text-violet-700" title="Unpaid holds lapse at this time">
+                Held until {new Date(hh.heldUntil).toLocaleString()}
+              </span>
+            )}
           </div>
         </div>
         <span className="inline-flex items-center rounded-full bg-white/60 px-2 py-0.5 text-[10px] text-gray-700 ring-1 ring-gray-200">
@@ -238,6 +298,20 @@ function AppCard({
           )}
         </div>
         <div className="sm:text-right text-[11px] text-gray-500">
+          {hh.scorecard && (
+            <span
+              className={clsx(
+                "mr-2 inline-flex items-center rounded-full px-1.5 py-0.5 text-[10px] font-medium ring-1",
+                hh.scorecard.result === "pass"
+                  ? "bg-emerald-50 text-emerald-800 ring-emerald-200"
+                  : "bg-amber-50 text-amber-800 ring-amber-200"
+              )}
+              title="Screening score"
+            >
+              {hh.scorecard.result === "pass" ? "Pass" : "Flag"} {hh.scorecard.score}
+              {hh.scorecard.incomeToRent != null && ` · ${hh.scorecard.incomeToRent.toFixed(1)}× rent`}
+            </span>
+          )}
           Updated {formatDate(hh.submittedAt)}
         </div>
       </div>
@@ -319,6 +393,16 @@ function AppCard({
 			</Link>
 		  )}
 
+		  {hh.heldUntil && (
+			<button
+			  onClick={() => onExtendHold(hh)}
+			  className="rounded border border-violet-300 bg-white px-2 py-1 text-[11px] font-medium text-violet-800 hover:bg-violet-50"
+			  title="Extend the hold"
+			>
+			  Extend hold
+			</button>
+		  )}
+
 
 		</div>
 
@@ -340,6 +424,9 @@ export default function ApplicationsDesktop() {
   const [cursor, setCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [busyMore, setBusyMore] = useState(false);
+  const [view, setView] = useState<"steps" | "units">("steps");
+  const [extendFor, setExtendFor] = useState<Household | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -407,6 +494,8 @@ export default function ApplicationsDesktop() {
       min_paid: [],
       countersigned: [],
       occupied: [],
+      moved_out: [],
+      waitlisted: [],
       closed: [],
     };
     for (const h of rows) {
@@ -420,6 +509,31 @@ export default function ApplicationsDesktop() {
     return buckets;
   }, [rows]);
 
+  // competing applications: same building/unit, busiest units first
+  const unitGroups = useMemo(() => {
+    const byKey = new Map<string, { label: string; items: Household[] }>();
+    for (const h of rows) {
+      if (h.status === "draft") continue;
+      const k = h.unitKey ?? "";
+      const g = byKey.get(k) ?? { label: h.unitKey ? h.unitLabel : "No unit on file", items: [] };
+      g.items.push(h);
+      byKey.set(k, g);
+    }
+    const out = Array.from(byKey.entries()).map(([key, g]) => ({
+      key,
+      label: g.label,
+      items: g.items.sort(
+        (a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || (b.submittedAt || "").localeCompare(a.submittedAt || "")
+      ),
+    }));
+    return out.sort((a, b) => (a.key ? 0 : 1) - (b.key ? 0 : 1) || b.items.length - a.items.length || a.label.localeCompare(b.label));
+  }, [rows]);
+
+  const compareHrefFor = (hh: Household) =>
+    `/landlord/applications/compare/${encodeURIComponent(hh.appId)}${
+      firmIdFromUrl ? `?firmId=${encodeURIComponent(firmIdFromUrl)}` : ""
+    }`;
+
   const formsHref = firmIdFromUrl
     ? `/landlord/forms?firmId=${encodeURIComponent(firmIdFromUrl)}`
     : "/landlord/forms";
@@ -446,14 +560,69 @@ export default function ApplicationsDesktop() {
       </div>
 
       {/* Flow legend (once) */}
-      <div className="mb-3 text-[11px] text-gray-600">
-        <span className="font-medium text-gray-800">Flow:</span>{" "}
-        Draft → Submitted → In Review → Approved → Terms Set → Payment Due → Ready to Sign →
-        Countersigned → Occupied → Closed
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="text-[11px] text-gray-600">
+          <span className="font-medium text-gray-800">Flow:</span>{" "}
+          Draft → Submitted → In Review → Approved → Terms Set → Payment Due → Ready to Sign →
+          Countersigned → Occupied → Closed (or Waitlisted)
+        </div>
+        <div className="inline-flex shrink-0 rounded-md border border-gray-300 bg-white p-0.5 text-[11px]">
+          {(["steps", "units"] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={clsx("rounded px-2 py-1", view === v ? "bg-gray-900 text-white" : "text-gray-700")}
+            >
+              {v === "steps" ? "By step" : "By unit"}
+            </button>
+          ))}
+        </div>
       </div>
 
       {loading ? (
         <div className="px-6 py-8 text-sm text-gray-600">Loading…</div>
+      ) : view === "units" ? (
+        <div className="mt-4 space-y-6">
+          {unitGroups.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-200 bg-gray-50 p-4 text-xs text-gray-600">
+              No submitted applications yet.
+            </div>
+          ) : (
+            unitGroups.map((g) => (
+              <section key={g.key || "none"}>
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <div className="text-sm font-semibold text-gray-900">
+                    {g.label}{" "}
+                    <span className="ml-1 inline-flex items-center rounded-full bg-gray-100 text-gray-700 ring-1 ring-gray-200 px-2 py-0.5 text-[11px]">
+                      {g.items.length}
+                    </span>
+                  </div>
+                  {g.key && g.items.length > 1 && (
+                    <Link
+                      href={compareHrefFor(g.items[0])}
+                      className="rounded border border-gray-300 bg-white px-2 py-1 text-[11px] font-medium text-gray-900 hover:bg-gray-50"
+                    >
+                      Compare &amp; rank
+                    </Link>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  {g.items.map((hh) => (
+                    <AppCard
+                      key={hh.appId}
+                      hh={hh}
+                      onReview={onReview}
+                      leaseHref={leaseHrefFor(hh)}
+                      holdingHref={holdingHrefFor(hh)}
+                      handoffHref={handoffHrefFor(hh)}
+                      onExtendHold={setExtendFor}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))
+          )}
+        </div>
       ) : (
         <div className="mt-4 space-y-6">
           {STAGE_ORDER.map(({ key, label }) => {
@@ -481,6 +650,7 @@ export default function ApplicationsDesktop() {
                         leaseHref={leaseHrefFor(hh)}
                         holdingHref={holdingHrefFor(hh)}
                         handoffHref={handoffHrefFor(hh)}
+                        onExtendHold={setExtendFor}
                       />
                     ))}
                   </div>
@@ -503,6 +673,19 @@ export default function ApplicationsDesktop() {
           </button>
         </div>
       )}
+
+      {extendFor?.heldUntil && (
+        <ExtendHoldModal
+          appId={extendFor.appId}
+          heldUntil={extendFor.heldUntil}
+          onClose={() => setExtendFor(null)}
+          onExtended={(expiresAt) =>
+            setRows((prev) => prev.map((r) => (r.appId === extendFor.appId ? { ...r, heldUntil: expiresAt } : r)))
+          }
+          onToast={setToast}
+        />
+      )}
+      <Toast text={toast || ""} onClose={() => setToast(null)} />
     </main>
   );
 }
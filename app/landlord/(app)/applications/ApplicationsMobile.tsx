@@ -26,6 +26,7 @@ type Household = {
     role: MemberRole;
     state?: "invited" | "complete" | "missing_docs";
   }[];
+  scorecard?: { score: number; result: "pass" | "flag" } | null;
 };
 
 /* ------------------------------------------
@@ -220,6 +221,9 @@ function coerceToHouseholdUI(raw: any): Household | null {
     submittedAt,
     status,
     members,
+    scorecard: raw.scorecard
+      ? { score: Number(raw.scorecard.score ?? 0), result: raw.scorecard.result === "pass" ? "pass" : "flag" }
+      : null,
   };
 }
 
@@ -521,6 +525,18 @@ export default function ApplicationsMobile() {
                     </div>
                     <div className="mt-1 flex flex-wrap items-center gap-2">
                       <StatusChip status={hh.status} />
+                      {hh.scorecard && (
+                        <span
+                          className={clsx(
+                            "rounded-full px-1.5 py-0.5 text-[10px] font-medium ring-1",
+                            hh.scorecard.result === "pass"
+                              ? "bg-emerald-50 text-emerald-800 ring-emerald-200"
+                              : "bg-amber-50 text-amber-800 ring-amber-200"
+                          )}
+                        >
+                          {hh.scorecard.result === "pass" ? "Pass" : "Flag"} {hh.scorecard.score}
+                        </span>
+                      )}
                       <span className="text-[11px] text-gray-500">
                         Submitted {formatDate(hh.submittedAt)}
                       </span>
@@ -0,0 +1,111 @@
+// app/landlord/applications/ExtendHoldModal.tsx
+"use client";
+
+import { useState } from "react";
+
+const ERRORS: Record<string, string> = {
+  forbidden: "Only owners and admins can extend holds,",
+  reason_required: "Give a reason for the extension,",
+  invalid_hours: "Extend by 1 hour to 14 days,",
+  no_active_hold: "This application has no active hold,",
+};
+
+const OPTIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 48, label: "2 days" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+/** Push a hold's expiry out; the reason goes to the audit log */
+export default function ExtendHoldModal({
+  appId,
+  heldUntil,
+  onClose,
+  onExtended,
+  onToast,
+}: {
+  appId: string;
+  heldUntil: string;
+  onClose: () => void;
+  onExtended: (expiresAt: string) => void;
+  onToast: (msg: string) => void;
+}) {
+  const [hours, setHours] = useState(48);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function confirm() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/holding/extend`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ hours, reason }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(ERRORS[j?.error] ?? `Couldn’t extend: ${j?.error ?? res.status},`);
+        return;
+      }
+      onExtended(j.expiresAt);
+      onToast(`Hold extended to ${new Date(j.expiresAt).toLocaleString()},`);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="absolute left-1/2 top-16 w-[92%] max-w-md -translate-x-1/2 rounded-2xl bg-white shadow-xl ring-1 ring-gray-200">
+        <div className="border-b border-gray-100 px-5 py-3">
+          <div className="text-sm font-semibold text-gray-900">Extend hold</div>
+          <div className="text-xs text-gray-600">Currently held until {new Date(heldUntil).toLocaleString()},</div>
+        </div>
+
+        <div className="space-y-3 px-5 py-4 text-sm">
+          <label className="block text-xs text-gray-700">
+            Extend by
+            <select
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value))}
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs"
+            >
+              {OPTIONS.map((o) => (
+                <option key={o.hours} value={o.hours}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-700">
+            Reason
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="e.g., Applicant’s bank transfer is pending"
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button onClick={onClose} className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={confirm}
+            disabled={saving || !reason.trim()}
+            className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-black disabled:opacity-50"
+          >
+            {saving ? "Extending…" : "Extend"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+// app/landlord/applications/compare/[id]/CompareDesktop.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import WaitlistModal from "@/app/landlord/(app)/reviews/[id]/WaitlistModal";
+
+type Row = {
+  appId: string;
+  householdId: string | null;
+  status: string;
+  label: string;
+  rank: number | null;
+  submittedAt: string | null;
+  householdSize: number;
+  incomeToRent: number | null;
+  score: { score: number; result?: string } | null;
+  moveInDate: string | null;
+  docsComplete: boolean | null;
+  missingDocs: number | null;
+};
+
+const OPEN = ["submitted", "admin_screened"];
+const APPROVED = ["approved_high", "terms_set", "min_due", "min_paid", "countersigned", "occupied"];
+
+const STATUS_LABEL: Record<string, string> = {
+  submitted: "Submitted",
+  admin_screened: "In review",
+  approved_high: "Approved",
+  terms_set: "Terms set",
+  min_due: "Payment due",
+  min_paid: "Ready to sign",
+  countersigned: "Countersigned",
+  occupied: "Occupied",
+  rejected: "Rejected",
+  waitlisted: "Waitlisted",
+};
+
+const ERRORS: Record<string, string> = {
+  not_in_group: "Someone changed this unit’s applications, reload and try again,",
+  bad_order: "Couldn’t read the ranking,",
+};
+
+function Toast({ text, onClose }: { text: string; onClose: () => void }) {
+  if (!text) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2">
+      <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
+        {text}{" "}
+        <button className="ml-3 underline underline-offset-2" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const API = (id: string) => `/api/landlord/applications/${encodeURIComponent(id)}/competitors`;
+
+export default function CompareDesktop({ appId }: { appId: string }) {
+  const searchParams = useSearchParams();
+  const firmId = searchParams.get("firmId") || undefined;
+
+  const [unitLabel, setUnitLabel] = useState("");
+  const [rows, setRows] = useState<Row[]>([]);
+  const [order, setOrder] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  const [showWaitlist, setShowWaitlist] = useState(false);
+
+  const applyRows = useCallback((next: Row[]) => {
+    setRows(next);
+    // ranked first (server order), then the rest of the open ones
+    setOrder(next.filter((r) => OPEN.includes(r.status)).map((r) => r.appId));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(API(appId), { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setError(j?.error || `HTTP ${res.status}`);
+        return;
+      }
+      setUnitLabel(j.unit?.label ?? "");
+      applyRows(j.rows ?? []);
+      setError(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [appId, applyRows]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const byId = useMemo(() => new Map(rows.map((r) => [r.appId, r])), [rows]);
+  const closed = rows.filter((r) => !OPEN.includes(r.status));
+  const approved = rows.find((r) => APPROVED.includes(r.status)) ?? null;
+  const savedOrder = rows
+    .filter((r) => OPEN.includes(r.status) && r.rank != null)
+    .map((r) => r.appId)
+    .join(",");
+  const dirty = order.join(",") !== savedOrder;
+
+  function move(i: number, delta: number) {
+    const j = i + delta;
+    if (j < 0 || j >= order.length) return;
+    setOrder((o) => {
+      const next = o.slice();
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  async function saveRanking() {
+    setSaving(true);
+    try {
+      const res = await fetch(API(appId), {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ order }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(ERRORS[j?.error] ?? `Couldn’t save the ranking: ${j?.error ?? res.status},`);
+        return;
+      }
+      applyRows(j.rows ?? []);
+      setToast("Ranking saved,");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const reviewHref = (id: string) =>
+    `/landlord/reviews/${encodeURIComponent(id)}${firmId ? `?firmId=${encodeURIComponent(firmId)}` : ""}`;
+
+  if (loading && !rows.length) return <div className="text-sm text-gray-600">Loading…</div>;
+  if (error) {
+    return (
+      <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-900">
+        Couldn’t load the applications for this unit: {error},
+      </div>
+    );
+  }
+
+  const renderRow = (r: Row, i: number | null) => (
+    <tr key={r.appId} className={clsx("border-t border-gray-100", r.appId === appId && "bg-indigo-50/40")}>
+      <td className="px-3 py-2 text-xs text-gray-700">
+        {i == null ? (
+          "—"
+        ) : (
+          <div className="flex items-center gap-1">
+            <span className="w-5 font-semibold text-gray-900">#{i + 1}</span>
+            <button
+              onClick={() => move(i, -1)}
+              disabled={i === 0}
+              className="rounded border border-gray-200 px-1 disabled:opacity-30"
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(i, 1)}
+              disabled={i === order.length - 1}
+              className="rounded border border-gray-200 px-1 disabled:opacity-30"
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+          </div>
+        )}
+      </td>
+      <td className="px-3 py-2 text-sm text-gray-900">{r.label}</td>
+      <td className="px-3 py-2 text-xs text-gray-700">{STATUS_LABEL[r.status] ?? r.status}</td>
+      <td className="px-3 py-2 text-xs text-gray-700">{r.householdSize || "—"}</td>
+      <td className="px-3 py-2 text-xs text-gray-700">
+        {r.incomeToRent != null ? `${Number(r.incomeToRent).toFixed(1)}× rent` : "—"}
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-700">
+        {r.score ? (
+          <span className={clsx(r.score.result === "flag" && "text-amber-700", r.score.result === "pass" && "text-emerald-700")}>
+            {r.score.score}
+          </span>
+        ) : (
+          "—"
+        )}
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-700">{r.moveInDate ?? "—"}</td>
+      <td className="px-3 py-2 text-xs">
+        {r.docsComplete == null ? (
+          <span className="text-gray-500">—</span>
+        ) : r.docsComplete ? (
+          <span className="text-emerald-700">Complete</span>
+        ) : (
+          <span className="text-amber-700">{r.missingDocs} missing</span>
+        )}
+      </td>
+      <td className="px-3 py-2 text-right text-xs">
+        <Link href={reviewHref(r.appId)} className="underline underline-offset-2 text-gray-800">
+          Review
+        </Link>
+      </td>
+    </tr>
+  );
+
+  const openCompetitors = approved
+    ? order.map((id) => byId.get(id)!).filter(Boolean)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-gray-900">
+          {unitLabel}{" "}
+          <span className="ml-1 text-xs font-normal text-gray-600">
+            {rows.length} application{rows.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {approved && openCompetitors.length > 0 && (
+            <button
+              onClick={() => setShowWaitlist(true)}
+              className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-900 hover:bg-gray-50"
+            >
+              Waitlist the others
+            </button>
+          )}
+          <button
+            onClick={saveRanking}
+            disabled={saving || !dirty || !order.length}
+            className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-black disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save ranking"}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+        <table className="min-w-full text-left">
+          <thead className="bg-gray-50 text-[11px] uppercase tracking-wide text-gray-600">
+            <tr>
+              <th className="px-3 py-2">Rank</th>
+              <th className="px-3 py-2">Household</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Size</th>
+              <th className="px-3 py-2">Income</th>
+              <th className="px-3 py-2">Score</th>
+              <th className="px-3 py-2">Move-in</th>
+              <th className="px-3 py-2">Documents</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((id, i) => (byId.get(id) ? renderRow(byId.get(id)!, i) : null))}
+            {closed.map((r) => renderRow(r, null))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-[11px] text-gray-600">
+        Only submitted and in-review applications can be ranked; approving one lets you move the rest to the waitlist,
+      </p>
+
+      {showWaitlist && approved && (
+        <WaitlistModal
+          appId={approved.appId}
+          competitors={openCompetitors.map((r) => ({ appId: r.appId, label: r.label, rank: r.rank, status: r.status }))}
+          onClose={() => {
+            setShowWaitlist(false);
+            void load();
+          }}
+          onToast={setToast}
+        />
+      )}
+
+      <Toast text={toast || ""} onClose={() => setToast(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { Suspense } from "react";
+import CompareDesktop from "./CompareDesktop";
+
+export default async function ComparePage({
+  params,
+}: {
+  params: Promise<{ id: string | string[] }>;
+}) {
+  const { id: raw } = await params;
+  const id = Array.isArray(raw) ? raw[0] : raw;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-4">
+          <h1 className="text-2xl font-semibold text-gray-900">Compare applications</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Every household that applied for this unit, side by side, ranked in your order of preference,
+          </p>
+        </div>
+
+        <Suspense fallback={<div className="text-sm text-gray-500">Loading…</div>}>
+          <CompareDesktop appId={id} key={id} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import LeaseTemplatesPanel from "./LeaseTemplatesPanel";
 
 /* ---------- Tiny utils ---------- */
 
@@ -209,8 +210,8 @@ export default function DocumentsDesktop({ firmId }: { firmId?: string }) {
             Landlord documents
           </h1>
           <p className="mt-1 text-xs text-gray-600">
-            Upload documents (lease templates, disclosures, move-in instructions) that you can
-            later attach to the tenant handoff flow.
+            Upload documents (disclosures, move-in instructions, static leases) and manage the lease
+            templates that you can later attach to the tenant handoff flow.
           </p>
         </div>
         <button
@@ -398,6 +399,8 @@ export default function DocumentsDesktop({ firmId }: { firmId?: string }) {
         </section>
       </div>
 
+      <LeaseTemplatesPanel firmId={effectiveFirmId || undefined} onToast={setToast} />
+
       {toast && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
           <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
@@ -0,0 +1,309 @@
+// app/landlord/documents/LeaseTemplatesPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type Field = { key: string; label: string; sample: string };
+
+type Template = {
+  id: string;
+  name: string;
+  fields: string[];
+  archived: boolean;
+  isDefault: boolean;
+  updatedAt: string;
+  html?: string;
+};
+
+const ERRORS: Record<string, string> = {
+  name_required: "Give the template a name,",
+  html_required: "The template is empty,",
+  html_too_large: "The template is too large,",
+  unknown_merge_fields: "Unknown merge fields",
+  forbidden_role: "Only firm owners and admins can edit lease templates,",
+};
+
+const STARTER = `<h1>Residential Lease</h1>
+<p>This lease is made on {{lease_date}} between <strong>{{landlord_name}}</strong> ("Landlord") and <strong>{{tenant_names}}</strong> ("Tenant").</p>
+<h2>1. Premises</h2>
+<p>{{premises_address}}</p>
+<h2>2. Term</h2>
+<p>{{term_months}} months, from {{move_in_date}} through {{lease_end_date}}.</p>
+<h2>3. Rent</h2>
+<p>Tenant pays {{monthly_rent}} per month, due on the first day of each month.</p>
+<h2>4. Amounts due at move-in</h2>
+<table>
+  <tr><td>First month's rent</td><td>{{first_month_rent}}</td></tr>
+  <tr><td>Last month's rent</td><td>{{last_month_rent}}</td></tr>
+  <tr><td>Security deposit</td><td>{{security_deposit}}</td></tr>
+  <tr><td>Key / lock fee</td><td>{{key_fee}}</td></tr>
+  <tr><th>Total</th><th>{{total_due_at_move_in}}</th></tr>
+</table>
+`;
+
+const formatDate = (s?: string | null) => {
+  if (!s) return "—";
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? s : d.toLocaleString();
+};
+
+function clsx(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function LeaseTemplatesPanel({
+  firmId,
+  onToast,
+}: {
+  firmId?: string;
+  onToast: (msg: string) => void;
+}) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Template | null>(null);
+  const [name, setName] = useState("");
+  const [html, setHtml] = useState("");
+  const [busy, setBusy] = useState(false);
+  const areaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const qs = firmId ? `?firmId=${encodeURIComponent(firmId)}` : "";
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/landlord/lease-templates${qs}`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (res.ok && j?.ok) {
+        setTemplates(j.templates);
+        setFields(j.fields);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [qs]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function startEdit(t: Template | null) {
+    if (!t) {
+      setEditing({ id: "", name: "", fields: [], archived: false, isDefault: false, updatedAt: "" });
+      setName("Standard lease");
+      setHtml(STARTER);
+      return;
+    }
+    const res = await fetch(`/api/landlord/lease-templates/${encodeURIComponent(t.id)}${qs}`, { cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      onToast(`Couldn’t open template: ${j?.error ?? res.status},`);
+      return;
+    }
+    setEditing(j.template);
+    setName(j.template.name);
+    setHtml(j.template.html ?? "");
+  }
+
+  function insertField(key: string) {
+    const el = areaRef.current;
+    const token = `{{${key}}}`;
+    if (!el) return setHtml((h) => h + token);
+    const start = el.selectionStart ?? html.length;
+    const end = el.selectionEnd ?? html.length;
+    setHtml(html.slice(0, start) + token + html.slice(end));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.selectionStart = el.selectionEnd = start + token.length;
+    });
+  }
+
+  async function send(url: string, method: string, body: any, okMsg: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        const base = ERRORS[j?.error] ?? `Couldn’t save: ${j?.error ?? res.status},`;
+        onToast(j?.unknown?.length ? `${base}: ${j.unknown.join(", ")},` : base);
+        return null;
+      }
+      onToast(okMsg);
+      await load();
+      return j.template as Template;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!editing) return;
+    const saved = editing.id
+      ? await send(`/api/landlord/lease-templates/${encodeURIComponent(editing.id)}`, "PATCH", { name, html }, "Template saved,")
+      : await send("/api/landlord/lease-templates", "POST", { name, html, makeDefault: templates.length === 0 }, "Template created,");
+    if (saved) setEditing(saved);
+  }
+
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white p-5 text-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">Lease templates</div>
+          <p className="mt-1 text-xs text-gray-600">
+            Write your lease once with merge fields. When you send a handoff, MILO fills in the tenants, premises,
+            rent, term and move-in amounts and sends the resulting PDF for signature.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => startEdit(null)}
+          className="shrink-0 rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50"
+        >
+          New template
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="mt-3 text-xs text-gray-600">Loading…</div>
+      ) : templates.length === 0 && !editing ? (
+        <div className="mt-3 rounded-lg border border-dashed border-gray-200 bg-gray-50 p-4 text-xs text-gray-600">
+          No lease templates yet. Until you add one, the handoff only sends uploaded documents.
+        </div>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200">
+          {templates.map((t) => (
+            <li key={t.id} className="flex items-center justify-between gap-3 px-4 py-2.5 text-xs">
+              <div className="min-w-0">
+                <div className="truncate text-[13px] font-semibold text-gray-900">
+                  {t.name}
+                  {t.isDefault && (
+                    <span className="ml-2 rounded-full bg-emerald-50 px-2 py-0.5 text-[10px] font-medium text-emerald-700 ring-1 ring-emerald-200">
+                      Default
+                    </span>
+                  )}
+                </div>
+                <div className="text-[11px] text-gray-500">
+                  {t.fields.length} merge field{t.fields.length === 1 ? "" : "s"} • Updated {formatDate(t.updatedAt)}
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <a
+                  href={`/api/landlord/lease-templates/${encodeURIComponent(t.id)}/preview${qs}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-[11px] font-medium text-blue-600 hover:underline"
+                >
+                  Preview PDF
+                </a>
+                {!t.isDefault && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      send(`/api/landlord/lease-templates/${encodeURIComponent(t.id)}`, "PATCH", { makeDefault: true }, "Default template updated,")
+                    }
+                    className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => startEdit(t)}
+                  className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => {
+                    if (!confirm(`Archive “${t.name}”? Leases already sent keep their PDF.`)) return;
+                    send(`/api/landlord/lease-templates/${encodeURIComponent(t.id)}`, "PATCH", { archived: true }, "Template archived,");
+                    if (editing?.id === t.id) setEditing(null);
+                  }}
+                  className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-rose-700 ring-1 ring-rose-200 hover:bg-rose-50 disabled:opacity-50"
+                >
+                  Archive
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <div className="mt-4 grid grid-cols-12 gap-4">
+          <div className="col-span-12 lg:col-span-8 space-y-3">
+            <label className="block text-xs text-gray-900">
+              Name
+              <input
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </label>
+            <label className="block text-xs text-gray-900">
+              Template (HTML)
+              <textarea
+                ref={areaRef}
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 font-mono text-[11px]"
+                rows={18}
+                value={html}
+                onChange={(e) => setHtml(e.target.value)}
+              />
+            </label>
+            <p className="text-[11px] text-gray-500">
+              Headings, paragraphs, lists, bold text and simple tables carry over to the PDF. A field with no value
+              prints as a blank line.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                onClick={save}
+                disabled={busy}
+                className={clsx(
+                  "rounded-md px-3 py-2 text-xs font-medium text-white",
+                  busy ? "bg-gray-400 cursor-not-allowed" : "bg-emerald-600 hover:bg-emerald-700"
+                )}
+              >
+                {busy ? "Saving…" : editing.id ? "Save template" : "Create template"}
+              </button>
+            </div>
+          </div>
+
+          <aside className="col-span-12 lg:col-span-4">
+            <div className="text-xs font-semibold text-gray-900">Merge fields</div>
+            <p className="mt-1 text-[11px] text-gray-500">Click to insert at the cursor.</p>
+            <ul className="mt-2 space-y-1">
+              {fields.map((f) => (
+                <li key={f.key}>
+                  <button
+                    type="button"
+                    onClick={() => insertField(f.key)}
+                    className="w-full rounded-md px-2 py-1 text-left hover:bg-gray-50"
+                    title={`e.g. ${f.sample}`}
+                  >
+                    <span className="font-mono text-[11px] text-indigo-700">{`{{${f.key}}}`}</span>
+                    <span className="block text-[10px] text-gray-500">{f.label}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import type { ConditionGroup, ConditionOp, QuestionCondition } from "@/lib/models";
+import FormVersionsPanel from "./FormVersionsPanel";
 
 /* ──────────────────────────────────────────────────────────────────────────────
    Types, enums, helpers
@@ -22,6 +25,7 @@ type InputType =
 
 type Requirement = "required" | "optional" | "conditional";
 type QualMode = "self_upload" | "integration" | "either";
+type CheckType = "credit" | "background" | "income" | "identity";
 
 type FormSection = { id: string; title: string; description?: string };
 type FormQuestion = {
@@ -34,6 +38,9 @@ type FormQuestion = {
   showForRoles: MemberRole[];  // who must answer
   options?: string[];          // for select types
   validation?: { min?: number; max?: number; pattern?: string };
+  showIf?: ConditionGroup;     // hidden unless these answers match
+  requireIf?: ConditionGroup;  // required when these answers match
+  sensitive?: boolean;         // hidden from reviewers while the firm uses blind review
 };
 
 type Qualification = {
@@ -43,8 +50,9 @@ type Qualification = {
   requirement: Requirement;    // required, optional, conditional
   mode: QualMode;              // self upload, integration, either
   docKind?: string;            // id, paystub, w2, bank_statement, credit_report, etc
-  integration?: { provider: "Plaid" | "Equifax" | "TransUnion" | "Persona" | "StripeIdentity"; type: "income" | "credit" | "identity" };
+  integration?: { provider?: "Plaid" | "Equifax" | "TransUnion" | "Persona" | "StripeIdentity"; type: CheckType };
   notes?: string;
+  requireIf?: ConditionGroup;  // for conditional requirements
 };
 
 type ApplicationForm = {
@@ -158,6 +166,40 @@ export default function FormBuilderClient() {
   const [toast, setToast] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
+  /* ─── Saved form (?form=<id>): edits publish new versions ─── */
+  const searchParams = useSearchParams();
+  const initialFormId = searchParams.get("form");
+  const [formId, setFormId] = useState<string | null>(initialFormId);
+  const [versionNote, setVersionNote] = useState("");
+  const [versionsKey, setVersionsKey] = useState(0);
+
+  useEffect(() => {
+    if (!initialFormId) return;
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/forms/${encodeURIComponent(initialFormId)}/versions`, { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (cancelled) return;
+      if (!res.ok || !data?.ok) {
+        setToast(data?.error === "not_in_firm" ? "You’re not a member of that form’s firm," : "Could not load that form,");
+        return;
+      }
+      const loaded: ApplicationForm = {
+        name: data.form.name,
+        description: data.form.description,
+        scope: data.form.scope,
+        sections: data.form.sections,
+        questions: data.form.questions,
+        qualifications: data.form.qualifications,
+        version: data.form.version,
+      };
+      setForm(loaded);
+      setSelectedSectionId(loaded.sections[0]?.id || "");
+      setSelectedQuestionId(null);
+    })().catch(() => setToast("Network error while loading the form,"));
+    return () => { cancelled = true; };
+  }, [initialFormId]);
+
   /* ─── Sections ─── */
   function addSection() {
     const s: FormSection = { id: uid(), title: "New section" };
@@ -210,12 +252,23 @@ export default function FormBuilderClient() {
     setForm(f => ({ ...f, questions: next }));
   }
   function deleteQuestion(id: string) {
-    setForm(f => ({ ...f, questions: f.questions.filter(q => q.id !== id) }));
+    // Drop rules that point at the removed question so the form still saves
+    const prune = (g?: ConditionGroup) => {
+      const conditions = (g?.conditions ?? []).filter(c => c.questionId !== id);
+      return g && conditions.length ? { ...g, conditions } : undefined;
+    };
+    setForm(f => ({
+      ...f,
+      questions: f.questions
+        .filter(q => q.id !== id)
+        .map(q => ({ ...q, showIf: prune(q.showIf), requireIf: prune(q.requireIf) })),
+      qualifications: f.qualifications.map(x => ({ ...x, requireIf: prune(x.requireIf) })),
+    }));
     if (selectedQuestionId === id) setSelectedQuestionId(null);
   }
 
   /* ─── Qualifications ─── */
-function addQualification(kind: "id" | "credit" | "income") {
+function addQualification(kind: "id" | "credit" | "income" | "background") {
   const base =
     kind === "id"
       ? {
@@ -231,6 +284,13 @@ function addQualification(kind: "id" | "credit" | "income") {
           mode: "either" as const,
           integration: { provider: "TransUnion", type: "credit" } as const, // ⬅️
         }
+      : kind === "background"
+      ? {
+          title: "Background check",
+          docKind: "background_check",
+          mode: "integration" as const,
+          integration: { type: "background" } as const,
+        }
       : {
           title: "Income verification",
           docKind: "income_docs",
@@ -269,11 +329,18 @@ async function saveDraft() {
       ? `/api/forms?firmId=${encodeURIComponent(firmIdFromUrl)}`
       : `/api/forms`;
 
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(form),
-    });
+    // A saved form publishes a new version; a new one is created at version 1
+    const res = formId
+      ? await fetch(`/api/forms/${encodeURIComponent(formId)}/versions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "publish", form, note: versionNote.trim() || undefined }),
+        })
+      : await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        });
 
     const data = await res.json().catch(() => ({} as any));
 
@@ -298,13 +365,39 @@ async function saveDraft() {
         case "invalid_payload":
           setToast("Form payload is missing required fields,");
           break;
+        case "unknown_condition_question":
+        case "bad_condition":
+        case "bad_condition_op":
+        case "bad_condition_match":
+          setToast("A show/require rule points at a missing question, check the rules,");
+          break;
+        case "self_referencing_condition":
+          setToast("A question’s rule can’t depend on its own answer,");
+          break;
+        case "condition_cycle":
+          setToast("Show-if rules loop back on each other, break the loop to save,");
+          break;
+        case "version_conflict":
+          setToast("Someone published this form meanwhile, reload before saving,");
+          break;
         default:
           setToast("Could not save, please try again,");
       }
       return;
     }
 
-    setToast("Form saved, versioned,");
+    if (formId) {
+      setForm(f => ({ ...f, version: data.version }));
+      setVersionNote("");
+      setVersionsKey(k => k + 1);
+      setToast(`Published version ${data.version}, in-flight applications stay on theirs,`);
+      return;
+    }
+    setFormId(data.id);
+    const u = new URL(window.location.href);
+    u.searchParams.set("form", data.id);
+    window.history.replaceState(null, "", u.toString());
+    setToast("Form saved as version 1,");
   } catch (err) {
     // Network or unexpected error — still no export, just show a message
     setToast("Network error while saving, please retry,");
@@ -451,7 +544,7 @@ async function saveDraft() {
                 onClick={saveDraft}
                 className="rounded-md bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700"
               >
-                Save draft
+                {formId ? `Publish v${form.version + 1}` : "Save draft"}
               </button>
               <button
                 onClick={exportJson}
@@ -460,6 +553,15 @@ async function saveDraft() {
                 Export JSON
               </button>
             </div>
+            {formId && (
+              <input
+                className="rounded-md border border-gray-300 px-2.5 py-1.5 text-xs"
+                placeholder="What changed? (optional)"
+                maxLength={500}
+                value={versionNote}
+                onChange={(e) => setVersionNote(e.target.value)}
+              />
+            )}
             <div>
               <input
                 ref={fileInputRef}
@@ -516,13 +618,14 @@ async function saveDraft() {
           <div className="rounded-xl border border-gray-200 bg-white">
             <div className="px-4 py-3 border-b border-gray-100">
               <div className="text-sm font-semibold text-gray-900">Qualifications</div>
-              <div className="text-xs text-gray-600">Self uploads today, integrations soon,</div>
+              <div className="text-xs text-gray-600">Self uploads, provider checks, or either,</div>
             </div>
             <div className="p-3">
               <div className="flex flex-wrap gap-2">
                 <button onClick={() => addQualification("id")} className="rounded-md border border-gray-300 bg-white px-2.5 py-1.5 text-xs">+ Government ID</button>
                 <button onClick={() => addQualification("credit")} className="rounded-md border border-gray-300 bg-white px-2.5 py-1.5 text-xs">+ Credit report</button>
                 <button onClick={() => addQualification("income")} className="rounded-md border border-gray-300 bg-white px-2.5 py-1.5 text-xs">+ Income verification</button>
+                <button onClick={() => addQualification("background")} className="rounded-md border border-gray-300 bg-white px-2.5 py-1.5 text-xs">+ Background check</button>
               </div>
 
               <div className="mt-3 space-y-2">
@@ -552,6 +655,17 @@ async function saveDraft() {
                           <option value="conditional">Conditional</option>
                         </select>
                       </div>
+                      {q.requirement === "conditional" && (
+                        <div className="sm:col-span-2">
+                          <label className="block text-xs text-gray-700 mb-1">Required if</label>
+                          <ConditionEditor
+                            value={q.requireIf}
+                            candidates={form.questions}
+                            onChange={(g) => updateQualification(q.id, { requireIf: g })}
+                            emptyLabel="No rule yet, optional until you add one,"
+                          />
+                        </div>
+                      )}
                       <div>
                         <label className="block text-xs text-gray-700 mb-1">Mode</label>
                         <select
@@ -564,6 +678,26 @@ async function saveDraft() {
                           <option value="integration">Integration only</option>
                         </select>
                       </div>
+                      {q.mode !== "self_upload" && (
+                        <div>
+                          <label className="block text-xs text-gray-700 mb-1">Provider check</label>
+                          <select
+                            className="w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm"
+                            value={q.integration?.type ?? ""}
+                            onChange={(e) =>
+                              updateQualification(q.id, {
+                                integration: e.target.value ? { ...q.integration, type: e.target.value as CheckType } : undefined,
+                              })
+                            }
+                          >
+                            <option value="">None, uploads only</option>
+                            <option value="credit">Credit report</option>
+                            <option value="background">Criminal & eviction background</option>
+                            <option value="income">Income verification</option>
+                            <option value="identity">Identity (not available yet)</option>
+                          </select>
+                        </div>
+                      )}
                       <div>
                         <label className="block text-xs text-gray-700 mb-1">Notes</label>
                         <input
@@ -577,9 +711,13 @@ async function saveDraft() {
                   </div>
                 ))}
               </div>
-              <p className="mt-2 text-xs text-gray-500">We’ll wire providers soon, we’ll keep self‑uploads available,</p>
+              <p className="mt-2 text-xs text-gray-500">Provider checks run only after the applicant signs the FCRA disclosure,</p>
             </div>
           </div>
+
+          {formId && (
+            <FormVersionsPanel formId={formId} headVersion={form.version} reloadKey={versionsKey} onToast={setToast} />
+          )}
         </aside>
 
         {/* Right: Sections and questions */}
@@ -660,7 +798,9 @@ async function saveDraft() {
                         </div>
                       </div>
                       <div className="mt-1 text-xs text-gray-600">
-                        {q.inputType.replace("_", " ")} • {q.required ? "Required" : "Optional"} • Audience: {q.showForRoles.join(", ")}
+                        {q.inputType.replace("_", " ")} • {q.required ? "Required" : q.requireIf ? "Required if…" : "Optional"} • Audience: {q.showForRoles.join(", ")}
+                        {q.showIf && " • Shown if…"}
+                        {q.sensitive && " • Sensitive"}
                       </div>
                     </div>
                   ))}
@@ -716,6 +856,42 @@ async function saveDraft() {
                     placeholder="Short guidance, attachments, examples,"
                   />
                 </div>
+                <label className="sm:col-span-2 flex items-start gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 h-3.5 w-3.5"
+                    checked={!!selectedQuestion.sensitive}
+                    onChange={(e) => updateQuestion(selectedQuestion.id, { sensitive: e.target.checked || undefined })}
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Sensitive</span>
+                    <span className="block text-[11px] text-gray-500">
+                      Could reveal a protected characteristic (age, familial status, disability, national origin…). Hidden from reviewers under blind review until a recommendation is recorded,
+                    </span>
+                  </span>
+                </label>
+
+                {/* Conditional logic */}
+                <div className="sm:col-span-2">
+                  <label className="block text-xs text-gray-700 mb-1">Show only if</label>
+                  <ConditionEditor
+                    value={selectedQuestion.showIf}
+                    candidates={form.questions.filter(q => q.id !== selectedQuestion.id)}
+                    onChange={(g) => updateQuestion(selectedQuestion.id, { showIf: g })}
+                    emptyLabel="Always shown to the audience above,"
+                  />
+                </div>
+                {!selectedQuestion.required && (
+                  <div className="sm:col-span-2">
+                    <label className="block text-xs text-gray-700 mb-1">Required if</label>
+                    <ConditionEditor
+                      value={selectedQuestion.requireIf}
+                      candidates={form.questions.filter(q => q.id !== selectedQuestion.id)}
+                      onChange={(g) => updateQuestion(selectedQuestion.id, { requireIf: g })}
+                      emptyLabel="Optional unless you add a rule,"
+                    />
+                  </div>
+                )}
 
                 {/* Options for selects */}
                 {(selectedQuestion.inputType === "select_single" || selectedQuestion.inputType === "select_multi") && (
@@ -806,3 +982,121 @@ function OptionsEditor({ options, onChange }: { options: string[]; onChange: (op
     </div>
   );
 }
+
+/* ──────────────────────────────────────────────────────────────────────────────
+   Small sub‑component: show‑if / require‑if rules
+   Evaluated by lib/applications/conditions.ts, in the apply flow and on submit
+────────────────────────────────────────────────────────────────────────────── */
+const OP_LABELS: Record<ConditionOp, string> = {
+  equals: "is",
+  not_equals: "is not",
+  includes: "includes",
+  not_includes: "doesn’t include",
+  answered: "is answered",
+  not_answered: "isn’t answered",
+  gt: "is more than",
+  lt: "is less than",
+};
+
+function opsFor(q?: FormQuestion): ConditionOp[] {
+  if (q?.inputType === "select_multi") return ["includes", "not_includes", "answered", "not_answered"];
+  if (q?.inputType === "number" || q?.inputType === "currency") return ["gt", "lt", "equals", "not_equals", "answered", "not_answered"];
+  return ["equals", "not_equals", "answered", "not_answered"];
+}
+
+function defaultValueFor(q?: FormQuestion): QuestionCondition["value"] {
+  if (q?.inputType === "yes_no") return true;
+  if (q?.options?.length) return q.options[0];
+  return "";
+}
+
+function ConditionEditor({
+  value, candidates, onChange, emptyLabel,
+}: {
+  value?: ConditionGroup;
+  candidates: FormQuestion[];
+  onChange: (next: ConditionGroup | undefined) => void;
+  emptyLabel: string;
+}) {
+  const conds = value?.conditions ?? [];
+  const match = value?.match ?? "all";
+  const byId = new Map(candidates.map(q => [q.id, q]));
+
+  function commit(next: QuestionCondition[], m: ConditionGroup["match"] = match) {
+    onChange(next.length ? { match: m, conditions: next } : undefined);
+  }
+  function update(i: number, patch: Partial<QuestionCondition>) {
+    commit(conds.map((c, idx) => (idx === i ? { ...c, ...patch } : c)));
+  }
+  function add() {
+    const q = candidates[0];
+    if (!q) return;
+    commit([...conds, { questionId: q.id, op: opsFor(q)[0], value: defaultValueFor(q) }]);
+  }
+
+  const field = "rounded-md border border-gray-300 px-2 py-1 text-xs";
+
+  return (
+    <div className="space-y-2">
+      {conds.length === 0 && <div className="text-xs text-gray-500">{emptyLabel}</div>}
+      {conds.length > 1 && (
+        <select className={field} value={match} onChange={(e) => commit(conds, e.target.value as ConditionGroup["match"])}>
+          <option value="all">All of these match</option>
+          <option value="any">Any of these match</option>
+        </select>
+      )}
+      {conds.map((c, i) => {
+        const trigger = byId.get(c.questionId);
+        const needsValue = c.op !== "answered" && c.op !== "not_answered";
+        return (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <select
+              className={clsx(field, "max-w-[14rem]")}
+              value={c.questionId}
+              onChange={(e) => {
+                const q = byId.get(e.target.value);
+                update(i, { questionId: e.target.value, op: opsFor(q)[0], value: defaultValueFor(q) });
+              }}
+            >
+              {!trigger && <option value={c.questionId}>(removed question)</option>}
+              {candidates.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+            </select>
+            <select className={field} value={c.op} onChange={(e) => update(i, { op: e.target.value as ConditionOp })}>
+              {opsFor(trigger).map(op => <option key={op} value={op}>{OP_LABELS[op]}</option>)}
+            </select>
+            {needsValue && (
+              trigger?.inputType === "yes_no" ? (
+                <select className={field} value={String(c.value)} onChange={(e) => update(i, { value: e.target.value === "true" })}>
+                  <option value="true">Yes</option>
+                  <option value="false">No</option>
+                </select>
+              ) : trigger?.options?.length ? (
+                <select className={field} value={String(c.value ?? "")} onChange={(e) => update(i, { value: e.target.value })}>
+                  {trigger.options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+              ) : (
+                <input
+                  className={clsx(field, "w-28")}
+                  type={trigger?.inputType === "number" || trigger?.inputType === "currency" ? "number" : "text"}
+                  value={String(c.value ?? "")}
+                  onChange={(e) => update(i, { value: e.target.value })}
+                />
+              )
+            )}
+            <button type="button" onClick={() => commit(conds.filter((_, idx) => idx !== i))} className="text-xs text-gray-600 hover:underline">
+              Remove
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={add}
+        disabled={candidates.length === 0}
+        className="rounded-md border border-gray-300 bg-white px-2.5 py-1 text-xs text-gray-800 hover:bg-gray-50 disabled:opacity-50"
+      >
+        + Add rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type VersionRow = {
+  version: number;
+  publishedAt: string | null;
+  publishedBy: string | null;
+  note: string | null;
+  applications: { total: number; drafts: number };
+};
+
+type FormChange = {
+  target: "form" | "section" | "question" | "qualification";
+  change: "added" | "removed" | "changed";
+  id: string;
+  label: string;
+  fields?: string[];
+  affectsRequirements: boolean;
+};
+
+const CHANGE_STYLE: Record<FormChange["change"], string> = {
+  added: "bg-emerald-50 text-emerald-800",
+  removed: "bg-rose-50 text-rose-800",
+  changed: "bg-gray-100 text-gray-700",
+};
+
+/* ──────────────────────────────────────────────────────────────────────────────
+   Published versions of a saved form: what changed, who is on which version,
+   and an opt-in move of draft applications onto the latest one
+────────────────────────────────────────────────────────────────────────────── */
+export default function FormVersionsPanel({
+  formId,
+  headVersion,
+  reloadKey,
+  onToast,
+}: {
+  formId: string;
+  headVersion: number;
+  reloadKey: number;
+  onToast: (msg: string) => void;
+}) {
+  const [versions, setVersions] = useState<VersionRow[]>([]);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [changes, setChanges] = useState<FormChange[] | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const r = await fetch(`/api/forms/${encodeURIComponent(formId)}/versions`, { cache: "no-store" });
+      const j = await r.json().catch(() => null);
+      if (cancelled) return;
+      if (r.ok && j?.ok) {
+        setVersions(j.versions);
+        const previous = (j.versions as VersionRow[]).find(v => v.version < j.form.version);
+        setCompareFrom(previous?.version ?? null);
+      } else {
+        onToast("Couldn’t load form versions,");
+      }
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [formId, reloadKey, onToast]);
+
+  useEffect(() => {
+    if (compareFrom == null) return;
+    let cancelled = false;
+    (async () => {
+      const r = await fetch(
+        `/api/forms/${encodeURIComponent(formId)}/versions?from=${compareFrom}&to=${headVersion}`,
+        { cache: "no-store" }
+      );
+      const j = await r.json().catch(() => null);
+      if (!cancelled) setChanges(r.ok && j?.ok ? j.changes : null);
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [formId, compareFrom, headVersion]);
+
+  const behind = versions.filter(v => v.version < headVersion);
+  const draftsBehind = behind.reduce((n, v) => n + v.applications.drafts, 0);
+
+  async function migrateDrafts() {
+    if (!window.confirm(`Move ${draftsBehind} draft application(s) to version ${headVersion}? Applicants will be asked to answer anything new.`)) return;
+    setMigrating(true);
+    try {
+      const r = await fetch(`/api/forms/${encodeURIComponent(formId)}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "migrate", toVersion: headVersion }),
+      });
+      const j = await r.json().catch(() => null);
+      if (r.ok && j?.ok) {
+        const reopened = (j.migrated as { reopenedMembers: number }[]).filter(m => m.reopenedMembers > 0).length;
+        onToast(`Moved ${j.migrated.length} application(s) to version ${headVersion}${reopened ? `, ${reopened} need new answers` : ""},`);
+        setVersions(vs =>
+          vs.map(v => {
+            if (v.version === headVersion) {
+              return { ...v, applications: { total: v.applications.total + j.migrated.length, drafts: v.applications.drafts + j.migrated.length } };
+            }
+            const moved = (j.migrated as { from: number }[]).filter(m => m.from === v.version).length;
+            return moved
+              ? { ...v, applications: { total: v.applications.total - moved, drafts: v.applications.drafts - moved } }
+              : v;
+          })
+        );
+      } else {
+        onToast(`Migration failed: ${j?.error ?? r.status},`);
+      }
+    } finally {
+      setMigrating(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <div className="text-sm font-semibold text-gray-900">Versions</div>
+        <div className="text-xs text-gray-600">
+          Saving publishes a new version, applications keep the version they started on,
+        </div>
+      </div>
+
+      <div className="p-3 space-y-3">
+        <ul className="space-y-1">
+          {versions.map(v => (
+            <li key={v.version} className="flex items-start justify-between gap-2 text-xs">
+              <div>
+                <span className="font-medium text-gray-900">v{v.version}</span>
+                {v.version === headVersion && <span className="ml-1 text-[11px] text-blue-700">latest</span>}
+                {v.publishedAt && (
+                  <span className="ml-1 text-gray-500">{new Date(v.publishedAt).toLocaleDateString()}</span>
+                )}
+                {v.note && <div className="text-[11px] text-gray-600">{v.note}</div>}
+              </div>
+              <div className="shrink-0 text-right text-gray-600">
+                {v.applications.total} app{v.applications.total === 1 ? "" : "s"}
+                {v.applications.drafts > 0 && <span className="block text-[11px]">{v.applications.drafts} in draft</span>}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {behind.length > 0 && (
+          <div className="border-t border-gray-100 pt-3">
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              Changes from
+              <select
+                className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                value={compareFrom ?? ""}
+                onChange={(e) => setCompareFrom(Number(e.target.value))}
+              >
+                {behind.map(v => (
+                  <option key={v.version} value={v.version}>v{v.version}</option>
+                ))}
+              </select>
+              to v{headVersion}
+            </label>
+
+            {changes && (
+              <ul className="mt-2 space-y-1">
+                {changes.length === 0 && <li className="text-xs text-gray-500">No differences,</li>}
+                {changes.map(c => (
+                  <li key={`${c.target}-${c.id}`} className="flex items-start gap-2 text-xs">
+                    <span className={`rounded px-1.5 py-0.5 text-[10px] uppercase ${CHANGE_STYLE[c.change]}`}>{c.change}</span>
+                    <span className="text-gray-900">
+                      {c.target !== "form" && <span className="text-gray-500">{c.target} · </span>}
+                      {c.label}
+                      {c.fields?.length ? <span className="text-gray-500"> ({c.fields.join(", ")})</span> : null}
+                      {c.affectsRequirements && (
+                        <span className="ml-1 text-[11px] text-amber-700">may need new answers</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {draftsBehind > 0 && (
+          <button
+            onClick={migrateDrafts}
+            disabled={migrating}
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {migrating ? "Moving…" : `Move ${draftsBehind} draft application${draftsBehind === 1 ? "" : "s"} to v${headVersion}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
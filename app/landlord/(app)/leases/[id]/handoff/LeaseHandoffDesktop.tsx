@@ -114,6 +114,12 @@ type FirmDoc = {
   externalDescription?: string | null;
 };
 
+type LeaseTemplateLite = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
 /* ---------- Data fetch ---------- */
 
 async function fetchApp(appId: string, firmId?: string): Promise<AppLite | null> {
@@ -158,6 +164,23 @@ async function fetchFirmDocuments(firmId?: string): Promise<FirmDoc[]> {
   }
 }
 
+async function fetchLeaseTemplates(firmId?: string): Promise<LeaseTemplateLite[]> {
+  try {
+    const qs = firmId ? `?firmId=${encodeURIComponent(firmId)}` : "";
+    const res = await fetch(`/api/landlord/lease-templates${qs}`, { cache: "no-store" });
+    if (!res.ok) return [];
+    const j = await res.json();
+    const list: any[] = Array.isArray(j.templates) ? j.templates : [];
+    return list.map((t) => ({
+      id: String(t.id),
+      name: String(t.name || "Untitled template"),
+      isDefault: !!t.isDefault,
+    }));
+  } catch {
+    return [];
+  }
+}
+
 /* ---------- Component ---------- */
 
 export default function LeaseHandoffDesktop({
@@ -182,6 +205,10 @@ export default function LeaseHandoffDesktop({
   const [selectedDocs, setSelectedDocs] = useState<Set<string>>(new Set()); // doc IDs
   const [sending, setSending] = useState(false);
 
+  // Lease template rendered into a PDF on send ("" = none)
+  const [templates, setTemplates] = useState<LeaseTemplateLite[]>([]);
+  const [templateId, setTemplateId] = useState("");
+
   // Tenant checklist: templates + custom
   const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>(() => {
     const mk = (id: string, label: string, helpText: string): ChecklistItem => ({
@@ -294,6 +321,21 @@ export default function LeaseHandoffDesktop({
     };
   }, [firmId]);
 
+  // Fetch lease templates; preselect the firm default
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const rows = await fetchLeaseTemplates(firmId);
+      if (!cancelled) {
+        setTemplates(rows);
+        setTemplateId(rows.find((t) => t.isDefault)?.id ?? "");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [firmId]);
+
   const status = (app?.status || "submitted") as AppStatus;
   const statusLabel = prettyStatus(app?.status);
 
@@ -340,8 +382,8 @@ export default function LeaseHandoffDesktop({
 
   async function onSend() {
     if (!app) return;
-    if (!selectedDocs.size) {
-      setToast("Select at least one document to send,");
+    if (!selectedDocs.size && !templateId) {
+      setToast("Select a lease template or at least one document to send,");
       setTimeout(() => setToast(null), 1200);
       return;
     }
@@ -356,6 +398,7 @@ export default function LeaseHandoffDesktop({
         completedInAppFolio: completedInAppFolio === "yes",
         // Send list of doc IDs
         docs: Array.from(selectedDocs),
+        templateId: templateId || null,
         checklist: selectedChecklist.map((i) => ({
           id: i.id,
           label: i.label,
@@ -364,7 +407,6 @@ export default function LeaseHandoffDesktop({
         })),
       };
 
-      // Stub endpoint – wire server-side later
       const res = await fetch("/api/landlord/leases/handoff/send-docs", {
         method: "POST",
         headers: { "content-type": "application/json" },
@@ -381,14 +423,20 @@ export default function LeaseHandoffDesktop({
         return;
       }
 
-      setToast("Documents and checklist queued for tenant,");
+      const j = await res.json().catch(() => null);
+      const missing: string[] = Array.isArray(j?.missingFields) ? j.missingFields : [];
+      setToast(
+        missing.length
+          ? `Lease sent for signature, left blank: ${missing.join(", ")},`
+          : "Lease sent for signature,"
+      );
       setTimeout(() => {
         setToast(null);
         const appsHref = firmId
           ? `/landlord/applications?firmId=${encodeURIComponent(firmId)}`
           : "/landlord/applications";
         router.push(appsHref);
-      }, 900);
+      }, missing.length ? 2500 : 900);
     } finally {
       setSending(false);
     }
@@ -549,13 +597,49 @@ export default function LeaseHandoffDesktop({
             {/* Documents (from landlord_documents) */}
             <div className="rounded-xl border border-gray-200 bg-white p-5 text-sm space-y-3">
               <div className="text-sm font-semibold text-gray-900">
-                Documents to send to tenant
+                Documents to sign
               </div>
               <p className="mt-1 text-xs text-gray-600">
-                These are documents your firm has uploaded (e.g., mold disclosures, house rules,
-                move-in instructions). Select which ones you want MILO to send with this lease.
+                These are documents your firm has uploaded (e.g., the lease, mold disclosures, house
+                rules). Every household member gets a link to review and e-sign the ones you select,
+                then you countersign. The application moves to countersigned once everyone has signed.
               </p>
 
+              {templates.length > 0 && (
+                <div className="mt-3 rounded-md border border-gray-200 px-3 py-2 text-xs text-gray-900">
+                  <label className="block font-medium">
+                    Lease template
+                    <select
+                      className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs font-normal"
+                      value={templateId}
+                      onChange={(e) => setTemplateId(e.target.value)}
+                    >
+                      <option value="">None, send uploaded documents only</option>
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                          {t.isDefault ? " (default)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <p className="mt-1 text-[11px] text-gray-500">
+                    Filled in with this application’s tenants, premises, rent, term and move-in amounts, then
+                    sent as the first document.
+                  </p>
+                  {templateId && (
+                    <a
+                      href={`/api/landlord/lease-templates/${encodeURIComponent(templateId)}/preview?appId=${encodeURIComponent(appId)}${firmId ? `&firmId=${encodeURIComponent(firmId)}` : ""}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="mt-1 inline-flex text-[11px] font-medium text-blue-600 hover:underline"
+                    >
+                      Preview this lease →
+                    </a>
+                  )}
+                </div>
+              )}
+
               <div className="mt-3 space-y-2">
                 {docsLoading ? (
                   <div className="text-[11px] text-gray-500">Loading firm documents…</div>
@@ -683,7 +767,7 @@ export default function LeaseHandoffDesktop({
                       : "bg-emerald-600 hover:bg-emerald-700"
                   )}
                 >
-                  {sending ? "Sending…" : "Send docs & checklist"}
+                  {sending ? "Sending…" : "Send for signature"}
                 </button>
               </div>
             </div>
@@ -67,6 +67,17 @@ const toCents = (s: string) => Math.round((Number(s || "0") || 0) * 100);
 const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 const isZip = (z: string) => /^\d{5}(-\d{4})?$/.test(z.trim());
 
+type InventoryUnit = {
+  id: string;
+  label: string;
+  address: { line1: string; line2?: string | null; city: string; state: string; zip: string };
+  unitNumber: string;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  rentCents: number | null;
+};
+
 export default function HoldingSetupPage() {
   const params = useParams();
   const appId = Array.isArray(params?.id) ? params.id[0] : (params?.id as string);
@@ -102,6 +113,53 @@ export default function HoldingSetupPage() {
   const [petsAllowed, setPetsAllowed] = useState<boolean>(true);
   const [parkingSpaces, setParkingSpaces] = useState<string>("0");
 
+  /* ── Inventory unit (optional; its address wins on save) ── */
+  const [inventory, setInventory] = useState<InventoryUnit[]>([]);
+  const [unitId, setUnitId] = useState<string>("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/landlord/properties", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (cancelled || !j?.ok) return;
+        setInventory(
+          j.properties.flatMap((p: any) =>
+            p.units.map((u: any) => ({
+              id: u.id,
+              label: `${p.name}${u.unitNumber ? ` · Unit ${u.unitNumber}` : ""}`,
+              address: p.address,
+              unitNumber: u.unitNumber,
+              beds: u.beds,
+              baths: u.baths,
+              sqft: u.sqft,
+              rentCents: u.rentCents,
+            }))
+          )
+        );
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function pickUnit(id: string) {
+    setUnitId(id);
+    const u = inventory.find((x) => x.id === id);
+    if (!u) return;
+    setAddr1(u.address.line1);
+    setAddr2(u.address.line2 ?? "");
+    setCity(u.address.city);
+    setState(u.address.state);
+    setZip(u.address.zip);
+    setUnitNumber(u.unitNumber);
+    if (u.beds != null) setBeds(String(u.beds));
+    if (u.baths != null) setBaths(String(u.baths));
+    setSqft(u.sqft != null ? String(u.sqft) : "");
+    if (u.rentCents != null) setMonthly(String(u.rentCents / 100));
+  }
+
   /* ── Result link ── */
   const [link, setLink] = useState<string>("");
 
@@ -171,12 +229,15 @@ export default function HoldingSetupPage() {
       country: "US",
     };
 
-    // 1) Try to save the unit + building (non-blocking if endpoint isn’t live yet)
+    // 1) Try to save the unit + building (non-blocking if endpoint isn’t live yet),
+    //    but stop when the unit is already leased or held for these dates
+    let unitRes: Response | null = null;
 	try {
-	  await fetch(`/api/landlord/leases/${encodeURIComponent(appId)}/unit`, {
+	  unitRes = await fetch(`/api/landlord/leases/${encodeURIComponent(appId)}/unit`, {
 		method: "POST",
 		headers: { "content-type": "application/json" },
 		body: JSON.stringify({
+		  ...(unitId ? { unitId } : {}),
 		  building,
 		  unit: {
 			unitNumber: unitNumber || null,
@@ -199,10 +260,23 @@ export default function HoldingSetupPage() {
 			key: totals.keyC,
 		  },
 		}),
-	  }).catch(() => {});
+	  }).catch(() => null);
 	} catch {
 	  // Non-fatal: proceed to holding
 	}
+    if (unitRes?.status === 409) {
+      const uj = await unitRes.json().catch(() => ({} as any));
+      const c = uj?.conflict;
+      setErrTitle("Unit isn’t available for these dates");
+      setErrLines([
+        c
+          ? `It’s ${c.kind === "hold" ? "held for another application" : "leased"} from ${c.start}${c.end ? ` to ${c.end}` : ""},`
+          : "Another lease or hold overlaps these dates,",
+        "Pick another move-in date, or another unit.",
+      ]);
+      setErrOpen(true);
+      return;
+    }
 
 
     // 2) Create holding link
@@ -283,6 +357,34 @@ export default function HoldingSetupPage() {
         setErrTitle("Already paid");
         serverLines.push("A paid holding already exists for this application.");
         break;
+      case "unit_unavailable": {
+        const c = j?.conflict;
+        setErrTitle("Unit isn’t available for these dates");
+        serverLines.push(
+          c
+            ? `It’s ${c.kind === "hold" ? "held for another application" : "leased"} from ${c.start}${c.end ? ` to ${c.end}` : ""},`
+            : "Another lease or hold overlaps these dates,",
+          "Pick another move-in date, or another unit."
+        );
+        break;
+      }
+      case "unit_busy":
+        setErrTitle("Unit is being booked");
+        serverLines.push("Someone else is booking this unit right now, try again in a moment.");
+        break;
+      case "illegal_transition":
+      case "conflict":
+        setErrTitle("Application can’t take a hold now");
+        serverLines.push(
+          j?.error === "conflict"
+            ? "The application changed while you were editing, please reload."
+            : "A hold can only be requested on an approved application, before its lease terms are set."
+        );
+        break;
+      case "bad_start_date":
+        setErrTitle("Move-in date needed");
+        serverLines.push("Set a move-in date so the hold covers the right dates.");
+        break;
       default:
         setErrTitle("Could not create payment link");
         if (j?.error) serverLines.push(String(j.error));
@@ -307,13 +409,33 @@ export default function HoldingSetupPage() {
         {/* ────────── Section 0: Building address ────────── */}
         <section className="mb-6">
           <h2 className="text-sm font-semibold text-gray-900 mb-2">Building address</h2>
+          {inventory.length > 0 && (
+            <label className="mb-3 block text-sm">
+              From your units
+              <select
+                className="w-full border rounded px-2 py-1"
+                value={unitId}
+                onChange={(e) => pickUnit(e.target.value)}
+              >
+                <option value="">Enter an address below…</option>
+                {inventory.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
           <div className="grid grid-cols-2 gap-3">
             <label className="text-sm col-span-2">
               Street address
               <input
                 className="w-full border rounded px-2 py-1"
                 value={addr1}
-                onChange={(e) => setAddr1(e.target.value)}
+                onChange={(e) => {
+                  setAddr1(e.target.value);
+                  setUnitId("");
+                }}
                 placeholder="123 Main St"
               />
             </label>
@@ -322,7 +444,10 @@ export default function HoldingSetupPage() {
               <input
                 className="w-full border rounded px-2 py-1"
                 value={city}
-                onChange={(e) => setCity(e.target.value)}
+                onChange={(e) => {
+                  setCity(e.target.value);
+                  setUnitId("");
+                }}
                 placeholder="Boston"
               />
             </label>
@@ -331,7 +456,10 @@ export default function HoldingSetupPage() {
               <input
                 className="w-full border rounded px-2 py-1 uppercase"
                 value={state}
-                onChange={(e) => setState(e.target.value.toUpperCase())}
+                onChange={(e) => {
+                  setState(e.target.value.toUpperCase());
+                  setUnitId("");
+                }}
                 placeholder="MA"
                 maxLength={2}
               />
@@ -341,7 +469,10 @@ export default function HoldingSetupPage() {
               <input
                 className="w-full border rounded px-2 py-1"
                 value={zip}
-                onChange={(e) => setZip(e.target.value)}
+                onChange={(e) => {
+                  setZip(e.target.value);
+                  setUnitId("");
+                }}
                 placeholder="02138"
                 inputMode="numeric"
               />
@@ -486,7 +617,10 @@ export default function HoldingSetupPage() {
               <input
                 className="w-full border rounded px-2 py-1"
                 value={unitNumber}
-                onChange={(e) => setUnitNumber(e.target.value)}
+                onChange={(e) => {
+                  setUnitNumber(e.target.value);
+                  setUnitId("");
+                }}
                 placeholder="e.g., 3B"
               />
             </label>
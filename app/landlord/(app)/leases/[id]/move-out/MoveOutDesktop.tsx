@@ -0,0 +1,771 @@
+// app/landlord/leases/[id]/move-out/MoveOutDesktop.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+type DeductionKind = "unpaid_rent" | "unpaid_tax_increase" | "damage";
+type EvidenceKind = "estimate" | "invoice" | "receipt" | "photo";
+
+type ConditionItem = {
+  id: string;
+  room: string;
+  category: string;
+  description: string;
+  severity?: string | null;
+};
+
+type Evidence = {
+  id: string;
+  kind: EvidenceKind;
+  fileName: string;
+  objectKey: string;
+  url: string | null; // short-lived, signed by the API
+};
+
+type Deduction = {
+  id: string;
+  kind: DeductionKind;
+  label: string;
+  amountCents: number;
+  notes?: string | null;
+  conditionItem?: ConditionItem | null;
+  attachments: Evidence[];
+};
+
+type DepositReturn = {
+  _id: string;
+  status: "draft" | "finalized" | "paid";
+  moveOutDate: string | null;
+  deadlineDate: string | null;
+  principalCents: number;
+  receivedDate: string | null;
+  interest: { rateHundredths: number; fromDate: string | null; toDate: string | null; cents: number };
+  deductions: Deduction[];
+  sworn?: { name: string; title?: string | null; at: string } | null;
+  payout?: { method: string; reference?: string | null; amountCents: number; paidAt: string; late: boolean } | null;
+  totals: {
+    principalCents: number;
+    interestCents: number;
+    heldCents: number;
+    deductionsCents: number;
+    refundCents: number;
+    shortfallCents: number;
+  };
+  deadline: { deadlineDate: string | null; daysLeft: number | null; overdue: boolean };
+  problems: string[];
+};
+
+type MoveOutPayload = {
+  lease: {
+    _id: string;
+    building?: { addressLine1?: string; city?: string; state?: string } | null;
+    unitNumber?: string | null;
+    moveInDate?: string | null;
+  };
+  depositReturn: DepositReturn;
+  conditionItems: ConditionItem[];
+  deductionKinds: { kind: DeductionKind; label: string }[];
+  statementUrl: string;
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+const moneyFmt = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 2,
+});
+const asMoney = (cents?: number | null) => moneyFmt.format((cents ?? 0) / 100);
+const toCents = (s: string) => Math.round(Number(String(s).replace(/[^0-9.]/g, "")) * 100);
+const fmtDate = (s?: string | null) => {
+  if (!s) return "—";
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? String(s) : d.toLocaleDateString();
+};
+
+const PROBLEM_LABELS: Record<string, string> = {
+  move_out_date_required: "Record the move-out date",
+  deduction_kind_not_allowed: "Deduction type is not allowed under §15B(4)",
+  deduction_amount_invalid: "Deduction amount must be greater than zero",
+  damage_evidence_required: "Damage deductions need a written estimate, invoice or receipt",
+  preexisting_condition_note_required:
+    "Explain how the damage differs from the condition recorded at move-in",
+};
+
+function problemLabel(p: string, deductions: Deduction[]) {
+  const [code, id] = p.split(":");
+  const d = id ? deductions.find((x) => x.id === id) : null;
+  const base = PROBLEM_LABELS[code] ?? code;
+  return d ? `${base} (${d.label})` : base;
+}
+
+/* ─────────────────────────────────────────────────────────────
+   Component
+───────────────────────────────────────────────────────────── */
+export default function MoveOutDesktop({ leaseId, firmId }: { leaseId: string; firmId?: string }) {
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<MoveOutPayload | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  // move-out date
+  const [moveOut, setMoveOut] = useState("");
+
+  // new deduction form
+  const [kind, setKind] = useState<DeductionKind>("damage");
+  const [label, setLabel] = useState("");
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [conditionItemId, setConditionItemId] = useState("");
+
+  // sworn finalize
+  const [swornName, setSwornName] = useState("");
+  const [swornTitle, setSwornTitle] = useState("");
+  const [attest, setAttest] = useState(false);
+
+  // payout
+  const [payMethod, setPayMethod] = useState("check");
+  const [payRef, setPayRef] = useState("");
+  const [payAmount, setPayAmount] = useState("");
+  const [payDate, setPayDate] = useState("");
+
+  const [showStatement, setShowStatement] = useState(false);
+  const [statementKey, setStatementKey] = useState(0);
+
+  const base = `/api/landlord/leases/${encodeURIComponent(leaseId)}/move-out`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(base, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(j?.error === "lease_not_found" ? "Lease not found," : "Couldn’t load move-out,");
+        setData(null);
+      } else {
+        setData(j as MoveOutPayload);
+        setMoveOut(j.depositReturn?.moveOutDate ?? "");
+        setPayAmount(((j.depositReturn?.totals?.refundCents ?? 0) / 100).toFixed(2));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function patch(body: Record<string, any>, okMsg?: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(base, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(`Couldn’t save: ${j?.error ?? res.status},`);
+        return false;
+      }
+      setData((prev) => (prev ? { ...prev, depositReturn: j.depositReturn } : prev));
+      setStatementKey((k) => k + 1);
+      if (okMsg) setToast(okMsg);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addEvidence(deductionId: string, evKind: EvidenceKind, file: File) {
+    setBusy(true);
+    let uploaded: { objectKey: string; fileName: string } | null = null;
+    try {
+      const init = await fetch(`${base}/upload-init`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: file.name, contentType: file.type }),
+      });
+      const ij = await init.json().catch(() => null);
+      if (!init.ok || !ij?.ok) {
+        setToast("Upload couldn’t start,");
+        return;
+      }
+      const put = await fetch(ij.putUrl, {
+        method: "PUT",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      if (!put.ok) {
+        setToast("Upload failed,");
+        return;
+      }
+      uploaded = { objectKey: ij.objectKey, fileName: ij.fileName };
+    } finally {
+      setBusy(false);
+    }
+    if (uploaded) {
+      await patch(
+        {
+          op: "add_attachment",
+          deductionId,
+          kind: evKind,
+          fileName: uploaded.fileName,
+          objectKey: uploaded.objectKey,
+        },
+        "Evidence attached,",
+      );
+    }
+  }
+
+  async function addDeduction() {
+    const amountCents = toCents(amount);
+    if (!amountCents || amountCents <= 0) {
+      setToast("Enter a deduction amount,");
+      return;
+    }
+    const ok = await patch(
+      {
+        op: "add_deduction",
+        kind,
+        label: label.trim() || undefined,
+        amountCents,
+        notes: notes.trim() || undefined,
+        conditionItemId: kind === "damage" && conditionItemId ? conditionItemId : undefined,
+      },
+      "Deduction added,",
+    );
+    if (ok) {
+      setLabel("");
+      setAmount("");
+      setNotes("");
+      setConditionItemId("");
+    }
+  }
+
+  async function finalize() {
+    if (!swornName.trim() || !attest) {
+      setToast("Type your name and confirm the attestation,");
+      return;
+    }
+    await patch(
+      { op: "finalize", swornName: swornName.trim(), swornTitle: swornTitle.trim() || undefined, attest: true },
+      "Statement sworn and sent to the household,",
+    );
+  }
+
+  async function recordPayout() {
+    const amountCents = toCents(payAmount);
+    if (!Number.isFinite(amountCents) || amountCents < 0) {
+      setToast("Enter the refund amount,");
+      return;
+    }
+    await patch(
+      {
+        op: "record_payout",
+        method: payMethod,
+        reference: payRef.trim() || undefined,
+        amountCents,
+        paidAt: payDate || undefined,
+      },
+      "Refund recorded,",
+    );
+  }
+
+  const dr = data?.depositReturn ?? null;
+  const isDraft = dr?.status === "draft";
+  const conditionById = useMemo(
+    () => new Map((data?.conditionItems ?? []).map((i) => [i.id, i])),
+    [data?.conditionItems],
+  );
+
+  const backHref = `/landlord/leases/${encodeURIComponent(leaseId)}/overview${
+    firmId ? `?firmId=${encodeURIComponent(firmId)}` : ""
+  }`;
+
+  if (loading) {
+    return <div className="px-6 py-8 text-sm text-gray-600">Loading move-out…</div>;
+  }
+
+  if (!data || !dr) {
+    return (
+      <main className="mx-auto w-full max-w-5xl px-6 py-8 text-sm text-gray-700">
+        Move-out details aren’t available for this lease,{" "}
+        <Link href={backHref} className="underline">
+          Back to lease
+        </Link>
+      </main>
+    );
+  }
+
+  const b = data.lease.building;
+  const addr = [b?.addressLine1, b?.city, b?.state].filter(Boolean).join(", ");
+
+  return (
+    <main className="mx-auto w-full max-w-5xl px-6 pb-10">
+      {/* Header */}
+      <div className="mt-6 mb-4 flex items-start justify-between gap-4">
+        <div>
+          <div className="text-xs text-gray-500">Move-out &amp; security deposit return</div>
+          <div className="mt-1 text-lg font-semibold text-gray-900 break-words">{addr || "Lease"}</div>
+          <div className="mt-0.5 text-sm text-gray-700">
+            Unit <span className="font-medium">{data.lease.unitNumber ?? "—"}</span>
+            <span className="mx-2">•</span>
+            <StatusPill status={dr.status} />
+          </div>
+        </div>
+        <Link
+          href={backHref}
+          className="rounded-md bg-white px-3 py-2 text-xs font-medium text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+        >
+          Back to lease
+        </Link>
+      </div>
+
+      {/* Facts */}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <Fact label="Deposit held" value={asMoney(dr.totals.principalCents)} hint={`Received ${fmtDate(dr.receivedDate)}`} />
+        <Fact
+          label="Interest"
+          value={asMoney(dr.totals.interestCents)}
+          hint={`${(dr.interest.rateHundredths / 100).toFixed(2)}% through ${fmtDate(dr.interest.toDate)}`}
+        />
+        <Fact label="Deductions" value={asMoney(dr.totals.deductionsCents)} hint={`${dr.deductions.length} item(s)`} />
+        <Fact
+          label="Refund due"
+          value={asMoney(dr.totals.refundCents)}
+          hint={dr.totals.shortfallCents ? `Deductions exceed deposit by ${asMoney(dr.totals.shortfallCents)}` : undefined}
+        />
+      </div>
+
+      {/* Deadline */}
+      <div
+        className={clsx(
+          "mt-4 rounded-lg border px-4 py-3 text-xs",
+          dr.deadline.overdue
+            ? "border-rose-200 bg-rose-50 text-rose-800"
+            : "border-gray-200 bg-white text-gray-700",
+        )}
+      >
+        {dr.deadline.deadlineDate ? (
+          <>
+            The itemized statement and refund are due within 30 days of move-out, by{" "}
+            <span className="font-semibold">{fmtDate(dr.deadline.deadlineDate)}</span>
+            {dr.status === "draft" && dr.deadline.daysLeft != null && (
+              <>
+                {" "}
+                ({dr.deadline.overdue
+                  ? `${Math.abs(dr.deadline.daysLeft)} day(s) overdue`
+                  : `${dr.deadline.daysLeft} day(s) left`})
+              </>
+            )}
+            ,
+          </>
+        ) : (
+          <>Record the move-out date to start the 30-day return deadline,</>
+        )}
+      </div>
+
+      {/* Move-out date */}
+      <section className="mt-6">
+        <div className="text-sm font-semibold text-gray-900">Move-out date</div>
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="date"
+            value={moveOut}
+            onChange={(e) => setMoveOut(e.target.value)}
+            disabled={!isDraft || busy}
+            className="rounded-md border border-gray-300 px-2.5 py-1.5 text-sm"
+          />
+          {isDraft && (
+            <button
+              type="button"
+              disabled={busy || !moveOut}
+              onClick={() => patch({ op: "set_move_out", moveOutDate: moveOut }, "Move-out date saved,")}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              Save
+            </button>
+          )}
+        </div>
+      </section>
+
+      <div className="my-6 h-px w-full bg-gray-200" />
+
+      {/* Deductions */}
+      <section>
+        <div className="text-sm font-semibold text-gray-900">Itemized deductions</div>
+        <p className="mt-1 text-[11px] text-gray-500">
+          Only unpaid rent, unpaid real estate tax increases, and damage beyond reasonable wear and tear may be deducted,
+          Damage deductions need a sworn estimate, invoice or receipt,
+        </p>
+
+        {dr.deductions.length === 0 ? (
+          <div className="mt-3 text-sm text-gray-600">No deductions, the full deposit plus interest is returned,</div>
+        ) : (
+          <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+            {dr.deductions.map((d) => (
+              <DeductionRow
+                key={d.id}
+                d={d}
+                editable={isDraft && !busy}
+                kindLabel={data.deductionKinds.find((k) => k.kind === d.kind)?.label ?? d.kind}
+                onRemove={() => patch({ op: "remove_deduction", deductionId: d.id }, "Deduction removed,")}
+                onRemoveAttachment={(attachmentId) =>
+                  patch({ op: "remove_attachment", deductionId: d.id, attachmentId }, "Evidence removed,")
+                }
+                onUpload={(evKind, file) => addEvidence(d.id, evKind, file)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {isDraft && (
+          <div className="mt-4 rounded-lg border border-gray-200 bg-gray-50 p-4">
+            <div className="text-xs font-semibold text-gray-900">Add deduction</div>
+            <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-3">
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as DeductionKind)}
+                className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+              >
+                {data.deductionKinds.map((k) => (
+                  <option key={k.kind} value={k.kind}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Description (e.g. Replace broken window)"
+                className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+              />
+              <input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount ($)"
+                inputMode="decimal"
+                className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+              />
+            </div>
+            {kind === "damage" && (
+              <div className="mt-2">
+                <label className="text-[11px] text-gray-600">Move-in statement of condition item (if the area was already noted)</label>
+                <select
+                  value={conditionItemId}
+                  onChange={(e) => setConditionItemId(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+                >
+                  <option value="">Not recorded at move-in</option>
+                  {data.conditionItems.map((i) => (
+                    <option key={i.id} value={i.id}>
+                      {i.room} — {i.description || i.category}
+                    </option>
+                  ))}
+                </select>
+                {conditionItemId && conditionById.get(conditionItemId) && (
+                  <p className="mt-1 text-[11px] text-amber-700">
+                    This area was listed at move-in, explain what new damage occurred in the notes,
+                  </p>
+                )}
+              </div>
+            )}
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes"
+              rows={2}
+              className="mt-2 w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            />
+            <div className="mt-2 flex justify-end">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={addDeduction}
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-gray-800 disabled:opacity-50"
+              >
+                Add deduction
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <div className="my-6 h-px w-full bg-gray-200" />
+
+      {/* Sworn statement */}
+      <section>
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold text-gray-900">Sworn itemized statement</div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setShowStatement((v) => !v)}
+              className="rounded-md bg-white px-3 py-1.5 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+            >
+              {showStatement ? "Hide preview" : "Preview statement"}
+            </button>
+            <a
+              href={data.statementUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="rounded-md bg-white px-3 py-1.5 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+            >
+              Open in new tab
+            </a>
+          </div>
+        </div>
+
+        {showStatement && (
+          <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <iframe key={statementKey} src={data.statementUrl} className="h-[600px] w-full" loading="lazy" />
+          </div>
+        )}
+
+        {isDraft ? (
+          <div className="mt-3 rounded-lg border border-gray-200 bg-white p-4">
+            {dr.problems.length > 0 && (
+              <ul className="mb-3 list-disc pl-5 text-xs text-rose-700">
+                {dr.problems.map((p) => (
+                  <li key={p}>{problemLabel(p, dr.deductions)}</li>
+                ))}
+              </ul>
+            )}
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <input
+                value={swornName}
+                onChange={(e) => setSwornName(e.target.value)}
+                placeholder="Full name"
+                className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+              <input
+                value={swornTitle}
+                onChange={(e) => setSwornTitle(e.target.value)}
+                placeholder="Title (optional)"
+                className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              />
+            </div>
+            <label className="mt-3 flex items-start gap-2 text-xs text-gray-700">
+              <input type="checkbox" checked={attest} onChange={(e) => setAttest(e.target.checked)} className="mt-0.5" />
+              <span>
+                I sign this itemized statement under the pains and penalties of perjury, and confirm each damage
+                deduction is supported by the attached written evidence,
+              </span>
+            </label>
+            <div className="mt-3 flex justify-end">
+              <button
+                type="button"
+                disabled={busy || dr.problems.length > 0}
+                onClick={finalize}
+                className="rounded-md bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-500 disabled:opacity-50"
+              >
+                Sign &amp; send to tenants
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-3 text-xs text-gray-700">
+            Signed by <span className="font-medium">{dr.sworn?.name}</span>
+            {dr.sworn?.title ? `, ${dr.sworn.title}` : ""} on {fmtDate(dr.sworn?.at)},
+          </div>
+        )}
+      </section>
+
+      {/* Payout */}
+      {dr.status !== "draft" && (
+        <>
+          <div className="my-6 h-px w-full bg-gray-200" />
+          <section>
+            <div className="text-sm font-semibold text-gray-900">Refund payout</div>
+            {dr.payout ? (
+              <div className="mt-2 text-xs text-gray-700">
+                {asMoney(dr.payout.amountCents)} paid by {dr.payout.method}
+                {dr.payout.reference ? ` (${dr.payout.reference})` : ""} on {fmtDate(dr.payout.paidAt)}
+                {dr.payout.late && <span className="ml-2 font-semibold text-rose-700">after the 30-day deadline</span>}
+              </div>
+            ) : (
+              <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-4">
+                <select
+                  value={payMethod}
+                  onChange={(e) => setPayMethod(e.target.value)}
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm"
+                >
+                  <option value="check">Check</option>
+                  <option value="ach">ACH</option>
+                  <option value="stripe">Stripe</option>
+                  <option value="other">Other</option>
+                </select>
+                <input
+                  value={payRef}
+                  onChange={(e) => setPayRef(e.target.value)}
+                  placeholder="Check # / reference"
+                  className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+                />
+                <input
+                  value={payAmount}
+                  onChange={(e) => setPayAmount(e.target.value)}
+                  inputMode="decimal"
+                  className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+                />
+                <input
+                  type="date"
+                  value={payDate}
+                  onChange={(e) => setPayDate(e.target.value)}
+                  className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+                />
+                <div className="sm:col-span-4 flex justify-end">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={recordPayout}
+                    className="rounded-md bg-gray-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    Record refund
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+
+      {/* Toast */}
+      {toast && (
+        <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2">
+          <div className="rounded-md bg-gray-900 px-4 py-2 text-sm text-white shadow-lg">
+            {toast}{" "}
+            <button className="ml-3 underline" onClick={() => setToast(null)}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
+
+/* ─────────────────────────────────────────────────────────────
+   Pieces
+───────────────────────────────────────────────────────────── */
+function DeductionRow({
+  d,
+  editable,
+  kindLabel,
+  onRemove,
+  onRemoveAttachment,
+  onUpload,
+}: {
+  d: Deduction;
+  editable: boolean;
+  kindLabel: string;
+  onRemove: () => void;
+  onRemoveAttachment: (attachmentId: string) => void;
+  onUpload: (kind: EvidenceKind, file: File) => void;
+}) {
+  const [evKind, setEvKind] = useState<EvidenceKind>("estimate");
+
+  return (
+    <li className="px-4 py-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm text-gray-900">{d.label}</div>
+          <div className="text-[11px] text-gray-500">
+            {kindLabel}
+            {d.notes ? ` • ${d.notes}` : ""}
+          </div>
+          {d.conditionItem && (
+            <div className="mt-0.5 text-[11px] text-amber-700">
+              Recorded at move-in: {d.conditionItem.room} — {d.conditionItem.description || d.conditionItem.category}
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <span className="text-sm font-semibold text-gray-900">{asMoney(d.amountCents)}</span>
+          {editable && (
+            <button type="button" onClick={onRemove} className="text-[11px] text-rose-600 underline">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {d.attachments.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {d.attachments.map((a) => (
+            <li key={a.id} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-[11px] text-gray-700">
+              {a.url ? (
+                <a href={a.url} target="_blank" rel="noreferrer" className="underline">
+                  {a.kind}: {a.fileName}
+                </a>
+              ) : (
+                <span>
+                  {a.kind}: {a.fileName}
+                </span>
+              )}
+              {editable && (
+                <button type="button" onClick={() => onRemoveAttachment(a.id)} className="text-rose-600">
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editable && (
+        <div className="mt-2 flex items-center gap-2 text-[11px]">
+          <select
+            value={evKind}
+            onChange={(e) => setEvKind(e.target.value as EvidenceKind)}
+            className="rounded-md border border-gray-300 bg-white px-1.5 py-1"
+          >
+            <option value="estimate">Estimate</option>
+            <option value="invoice">Invoice</option>
+            <option value="receipt">Receipt</option>
+            <option value="photo">Photo</option>
+          </select>
+          <label className="cursor-pointer rounded-md bg-white px-2 py-1 font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50">
+            Attach file
+            <input
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) onUpload(evKind, f);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </li>
+  );
+}
+
+function StatusPill({ status }: { status: DepositReturn["status"] }) {
+  const cls = clsx(
+    "inline-flex rounded-full px-2.5 py-0.5 text-[11px] font-medium ring-1 ring-inset",
+    status === "draft" && "bg-amber-50 text-amber-800 ring-amber-200",
+    status === "finalized" && "bg-blue-50 text-blue-700 ring-blue-200",
+    status === "paid" && "bg-emerald-50 text-emerald-800 ring-emerald-200",
+  );
+  const label = status === "draft" ? "Draft" : status === "finalized" ? "Sworn & sent" : "Refund paid";
+  return <span className={cls}>{label}</span>;
+}
+
+function Fact({ label, value, hint }: { label: string; value?: string | number | null; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="mt-1 break-words text-base font-semibold text-gray-900">
+        {value == null || value === "" ? "—" : String(value)}
+      </div>
+      {hint && <div className="mt-0.5 text-[11px] text-gray-500">{hint}</div>}
+    </div>
+  );
+}
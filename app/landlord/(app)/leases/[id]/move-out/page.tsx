@@ -0,0 +1,30 @@
+// app/landlord/leases/[id]/move-out/page.tsx
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+import MoveOutDesktop from "./MoveOutDesktop";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function Page({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id?: string | string[] }>;
+  searchParams?: Promise<{ firmId?: string }>;
+}) {
+  const { id: raw } = await params;
+  const sp = searchParams ? await searchParams : undefined;
+
+  const leaseId = Array.isArray(raw) ? raw[0] : raw;
+  if (!leaseId || leaseId === "undefined") {
+    notFound();
+  }
+
+  return (
+    <Suspense fallback={<div className="px-6 py-8 text-sm text-gray-600">Loading move-out…</div>}>
+      <MoveOutDesktop leaseId={leaseId} firmId={sp?.firmId} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,196 @@
+// app/landlord/leases/[id]/overview/DepositInterestPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Entry = {
+  _id: string;
+  year: number;
+  periodStart: string;
+  periodEnd: string;
+  principalCents: number;
+  rateHundredths: number;
+  interestCents: number;
+  status: "accrued" | "paid" | "credited_to_rent";
+  statementSentAt?: string | null;
+  disposition?: { method: string; reference?: string | null; appliedCents?: number; at: string } | null;
+  statementUrl: string;
+};
+
+type Payload = {
+  deposit: { principalCents: number; receivedDate: string | null; rateHundredths: number };
+  entries: Entry[];
+  current: { fromDate: string | null; toDate: string | null; cents: number };
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+const moneyFmt = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 2,
+});
+const asMoney = (cents?: number | null) => moneyFmt.format((cents ?? 0) / 100);
+const fmtDate = (s?: string | null) => {
+  if (!s) return "—";
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? String(s) : d.toLocaleDateString();
+};
+
+export default function DepositInterestPanel({
+  leaseId,
+  onToast,
+}: {
+  leaseId: string;
+  onToast: (msg: string) => void;
+}) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const base = `/api/landlord/leases/${encodeURIComponent(leaseId)}/deposit-interest`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(base, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      setData(res.ok && j?.ok ? (j as Payload) : null);
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function act(entryId: string, body: Record<string, any>, okMsg: string) {
+    setBusyId(entryId);
+    try {
+      const res = await fetch(base, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entryId, ...body }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(
+          j?.error === "no_open_rent"
+            ? "No open rent to credit against,"
+            : `Couldn’t update interest: ${j?.error ?? res.status},`,
+        );
+        return;
+      }
+      onToast(okMsg);
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="mb-6">
+      <div className="text-sm font-semibold text-gray-900">Security deposit interest</div>
+      {loading ? (
+        <div className="mt-2 text-[11px] text-gray-500">Loading interest ledger…</div>
+      ) : !data || !data.deposit.principalCents ? (
+        <div className="mt-2 text-[11px] text-gray-500">No security deposit received for this lease,</div>
+      ) : (
+        <>
+          <div className="mt-1 text-[11px] text-gray-600">
+            {asMoney(data.deposit.principalCents)} received {fmtDate(data.deposit.receivedDate)} at{" "}
+            {(data.deposit.rateHundredths / 100).toFixed(2)}% • {asMoney(data.current.cents)} accrued since{" "}
+            {fmtDate(data.current.fromDate)}
+          </div>
+
+          {data.entries.length === 0 ? (
+            <div className="mt-2 text-[11px] text-gray-500">
+              The first anniversary statement is due one year after the deposit was received,
+            </div>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+              {data.entries.map((e) => (
+                <li key={e._id} className="flex items-start justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">
+                      Year {e.year}: {asMoney(e.interestCents)}
+                    </div>
+                    <div className="text-[11px] text-gray-500">
+                      {fmtDate(e.periodStart)} – {fmtDate(e.periodEnd)}
+                      {e.statementSentAt ? ` • Statement sent ${fmtDate(e.statementSentAt)}` : " • Statement not sent"}
+                      {e.disposition
+                        ? e.disposition.method === "credited_to_rent"
+                          ? ` • ${asMoney(e.disposition.appliedCents)} credited to rent`
+                          : ` • Paid${e.disposition.reference ? ` (${e.disposition.reference})` : ""}`
+                        : ""}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 flex-wrap items-center justify-end gap-2">
+                    <a
+                      href={e.statementUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+                    >
+                      Statement
+                    </a>
+                    <button
+                      type="button"
+                      disabled={busyId === e._id}
+                      onClick={() => act(e._id, { op: "send_statement" }, "Statement emailed,")}
+                      className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {e.statementSentAt ? "Resend" : "Email"}
+                    </button>
+                    {e.status === "accrued" && (
+                      <>
+                        <button
+                          type="button"
+                          disabled={busyId === e._id}
+                          onClick={() => {
+                            const reference = window.prompt("Check # or payment reference (optional)") ?? undefined;
+                            act(e._id, { op: "record_disposition", method: "paid", reference }, "Interest marked paid,");
+                          }}
+                          className="rounded-md bg-gray-900 px-2.5 py-1 text-[11px] font-semibold text-white hover:bg-gray-800 disabled:opacity-50"
+                        >
+                          Mark paid
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busyId === e._id}
+                          onClick={() =>
+                            act(
+                              e._id,
+                              { op: "record_disposition", method: "credited_to_rent" },
+                              "Interest credited to rent,",
+                            )
+                          }
+                          className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-emerald-700 ring-1 ring-emerald-200 hover:bg-emerald-50 disabled:opacity-50"
+                        >
+                          Credit to rent
+                        </button>
+                      </>
+                    )}
+                    <span
+                      className={clsx(
+                        "rounded-full px-2 py-0.5 text-[11px] ring-1",
+                        e.status === "accrued"
+                          ? "bg-amber-50 text-amber-800 ring-amber-200"
+                          : "bg-emerald-50 text-emerald-700 ring-emerald-200",
+                      )}
+                    >
+                      {e.status === "accrued" ? "Owed" : e.status === "paid" ? "Paid" : "Credited"}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+// app/landlord/leases/[id]/overview/LateFeesPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Fee = {
+  _id: string;
+  code: string;
+  rentCode: string;
+  rentDueDate: string;
+  rentOpenCents: number;
+  daysLate: number;
+  amountCents: number;
+  assessedOn: string;
+  status: "assessed" | "waived";
+  waiver?: { reason: string; by: string; at: string } | null;
+};
+
+type Payload = {
+  policy: {
+    enabled: boolean;
+    graceDays: number;
+    kind: "flat" | "percent";
+    flatCents?: number | null;
+    percentHundredths?: number | null;
+    maxCents?: number | null;
+  };
+  fees: Fee[];
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+const moneyFmt = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 2,
+});
+const asMoney = (cents?: number | null) => moneyFmt.format((cents ?? 0) / 100);
+const fmtDate = (s?: string | null) => {
+  if (!s) return "—";
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? String(s) : d.toLocaleDateString();
+};
+
+function describePolicy(p: Payload["policy"]) {
+  if (!p.enabled) return "Late fees are off for this firm,";
+  const amount =
+    p.kind === "percent" ? `${((p.percentHundredths ?? 0) / 100).toFixed(2)}% of unpaid rent` : asMoney(p.flatCents);
+  return `${amount}${p.maxCents != null ? ` (max ${asMoney(p.maxCents)})` : ""} once rent is ${p.graceDays} days late`;
+}
+
+export default function LateFeesPanel({
+  leaseId,
+  onToast,
+}: {
+  leaseId: string;
+  onToast: (msg: string) => void;
+}) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const base = `/api/landlord/leases/${encodeURIComponent(leaseId)}/late-fees`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(base, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      setData(res.ok && j?.ok ? (j as Payload) : null);
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function waive(fee: Fee) {
+    const reason = window.prompt(`Reason for waiving the ${fee.rentCode.slice(5)} late fee (kept in the audit log)`);
+    if (reason == null) return;
+    if (reason.trim().length < 3) {
+      onToast("A waiver reason is required,");
+      return;
+    }
+    setBusyId(fee._id);
+    try {
+      const res = await fetch(base, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ op: "waive", feeId: fee._id, reason: reason.trim() }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(`Couldn’t waive fee: ${j?.error ?? res.status},`);
+        return;
+      }
+      onToast("Late fee waived,");
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="mb-6">
+      <div className="text-sm font-semibold text-gray-900">Late fees</div>
+      {loading ? (
+        <div className="mt-2 text-[11px] text-gray-500">Loading late fees…</div>
+      ) : !data ? (
+        <div className="mt-2 text-[11px] text-gray-500">Late fees unavailable,</div>
+      ) : (
+        <>
+          <div className="mt-1 text-[11px] text-gray-600">{describePolicy(data.policy)}</div>
+          {data.fees.length === 0 ? (
+            <div className="mt-2 text-[11px] text-gray-500">No late fees assessed on this lease,</div>
+          ) : (
+            <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+              {data.fees.map((f) => (
+                <li key={f._id} className="flex items-start justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">
+                      Rent {f.rentCode.slice(5)}: {asMoney(f.amountCents)}
+                    </div>
+                    <div className="text-[11px] text-gray-500">
+                      Assessed {fmtDate(f.assessedOn)} • {f.daysLate} days late on {asMoney(f.rentOpenCents)} unpaid
+                      {f.waiver ? ` • Waived ${fmtDate(f.waiver.at)}: ${f.waiver.reason}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {f.status === "assessed" && (
+                      <button
+                        type="button"
+                        disabled={busyId === f._id}
+                        onClick={() => waive(f)}
+                        className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Waive
+                      </button>
+                    )}
+                    <span
+                      className={clsx(
+                        "rounded-full px-2 py-0.5 text-[11px] ring-1",
+                        f.status === "assessed"
+                          ? "bg-rose-50 text-rose-700 ring-rose-200"
+                          : "bg-gray-50 text-gray-600 ring-gray-200",
+                      )}
+                    >
+                      {f.status === "assessed" ? "Assessed" : "Waived"}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -3,6 +3,10 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import DepositInterestPanel from "./DepositInterestPanel";
+import LateFeesPanel from "./LateFeesPanel";
+import LedgerPanel from "./LedgerPanel";
+import SignaturesPanel from "./SignaturesPanel";
 
 type LeaseStatus = "scheduled" | "active" | "ended" | "canceled" | string;
 
@@ -379,6 +383,15 @@ export default function LeaseOverviewDesktop({ leaseId, firmId }: { leaseId: str
           Lease overview
         </Link>
 
+        <Link
+          href={`/landlord/leases/${encodeURIComponent(leaseId)}/move-out${
+            firmId ? `?firmId=${encodeURIComponent(firmId)}` : ""
+          }`}
+          className="rounded-md bg-white px-3 py-2 text-xs font-medium text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+        >
+          Move-out &amp; deposit return
+        </Link>
+
         {/* Pre-move-in inspection link */}
         <button
           type="button"
@@ -510,6 +523,13 @@ export default function LeaseOverviewDesktop({ leaseId, firmId }: { leaseId: str
         </section>
       )}
 
+      <SignaturesPanel leaseId={leaseId} onToast={setToast} />
+
+      {/* Deposit interest ledger */}
+      <LedgerPanel leaseId={leaseId} />
+      <DepositInterestPanel leaseId={leaseId} onToast={setToast} />
+      <LateFeesPanel leaseId={leaseId} onToast={setToast} />
+
       {/* Checklist */}
       <section>
         <div className="text-sm font-semibold text-gray-900">Move-in checklist</div>
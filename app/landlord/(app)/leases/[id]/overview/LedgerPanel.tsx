@@ -0,0 +1,115 @@
+// app/landlord/leases/[id]/overview/LedgerPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Line = {
+  chargeKey: string;
+  bucket: "upfront" | "deposit" | "rent" | "fee";
+  label: string;
+  dueDate: string | null;
+  amountCents: number;
+  postedCents: number;
+  pendingCents: number;
+  waivedCents: number;
+  refundedCents: number;
+  remainingCents: number;
+};
+
+type Totals = {
+  chargedCents: number;
+  postedCents: number;
+  pendingCents: number;
+  remainingCents: number;
+  unappliedCents: number;
+};
+
+type Payload = {
+  charges: Line[];
+  buckets: { operating: Totals; deposit: Totals };
+};
+
+const moneyFmt = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 2,
+});
+const asMoney = (cents?: number | null) => moneyFmt.format((cents ?? 0) / 100);
+const fmtDate = (s?: string | null) => {
+  if (!s) return "—";
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? String(s) : d.toLocaleDateString();
+};
+
+function BucketCard({ title, t }: { title: string; t: Totals }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white px-4 py-3">
+      <div className="text-[11px] font-semibold uppercase tracking-wide text-gray-500">{title}</div>
+      <div className="mt-1 text-sm text-gray-900">{asMoney(Math.max(0, t.remainingCents))} open</div>
+      <div className="text-[11px] text-gray-500">
+        {asMoney(t.chargedCents)} charged • {asMoney(t.postedCents)} collected
+        {t.pendingCents ? ` • ${asMoney(t.pendingCents)} in transit` : ""}
+        {t.unappliedCents ? ` • ${asMoney(t.unappliedCents)} unapplied` : ""}
+      </div>
+    </div>
+  );
+}
+
+/** Lease balances from the ledger: the same numbers the household sees on their payments page */
+export default function LedgerPanel({ leaseId }: { leaseId: string }) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/landlord/leases/${encodeURIComponent(leaseId)}/ledger`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      setData(res.ok && j?.ok ? (j as Payload) : null);
+    } finally {
+      setLoading(false);
+    }
+  }, [leaseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <section className="mb-6">
+      <div className="text-sm font-semibold text-gray-900">Balances</div>
+      {loading ? (
+        <div className="mt-2 text-[11px] text-gray-500">Loading balances…</div>
+      ) : !data ? (
+        <div className="mt-2 text-[11px] text-gray-500">Balances unavailable,</div>
+      ) : (
+        <>
+          <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <BucketCard title="Operating" t={data.buckets.operating} />
+            <BucketCard title="Deposit escrow" t={data.buckets.deposit} />
+          </div>
+          {data.charges.length > 0 && (
+            <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+              {data.charges.map((c) => (
+                <li key={c.chargeKey} className="flex items-start justify-between gap-3 px-4 py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">{c.label}</div>
+                    <div className="text-[11px] text-gray-500">
+                      Due {fmtDate(c.dueDate)} • {asMoney(c.amountCents)}
+                      {c.postedCents ? ` • ${asMoney(c.postedCents)} collected` : ""}
+                      {c.pendingCents ? ` • ${asMoney(c.pendingCents)} in transit` : ""}
+                      {c.waivedCents ? ` • ${asMoney(c.waivedCents)} waived/credited` : ""}
+                      {c.refundedCents ? ` • ${asMoney(c.refundedCents)} refunded` : ""}
+                    </div>
+                  </div>
+                  <div className="shrink-0 text-sm text-gray-900">{asMoney(Math.max(0, c.remainingCents))}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,152 @@
+// app/landlord/leases/[id]/overview/SignaturesPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Signer = {
+  id: string;
+  role: "tenant" | "landlord";
+  name: string;
+  email: string;
+  order: number;
+  invitedAt: string | null;
+  viewedAt: string | null;
+  signedAt: string | null;
+  method: "typed" | "drawn" | null;
+};
+
+type Payload = {
+  envelope: {
+    id: string;
+    status: "out_for_signature" | "completed" | "voided";
+    completedAt: string | null;
+    signers: Signer[];
+  } | null;
+  certificateUrl: string | null;
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+const fmt = (s?: string | null) => (s ? new Date(s).toLocaleString() : "—");
+
+function signerState(s: Signer) {
+  if (s.signedAt) return { label: "Signed", tone: "bg-emerald-50 text-emerald-700 ring-emerald-200" };
+  if (s.viewedAt) return { label: "Opened", tone: "bg-sky-50 text-sky-700 ring-sky-200" };
+  if (s.invitedAt) return { label: "Sent", tone: "bg-amber-50 text-amber-700 ring-amber-200" };
+  return { label: "Not yet sent", tone: "bg-gray-50 text-gray-600 ring-gray-200" };
+}
+
+export default function SignaturesPanel({
+  leaseId,
+  onToast,
+}: {
+  leaseId: string;
+  onToast: (msg: string) => void;
+}) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const base = `/api/landlord/leases/${encodeURIComponent(leaseId)}/signatures`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(base, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      setData(res.ok && j?.ok ? (j as Payload) : null);
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function resend(s: Signer) {
+    setBusyId(s.id);
+    try {
+      const res = await fetch(base, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ op: "resend", signerId: s.id }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(`Couldn’t resend: ${j?.error ?? res.status},`);
+        return;
+      }
+      onToast(`New signing link sent to ${s.email},`);
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  // Leases that predate e-signing have nothing to show
+  if (!loading && !data?.envelope) return null;
+
+  const env = data?.envelope;
+  const tenantsPending = env?.signers.some((s) => s.role === "tenant" && !s.signedAt);
+
+  return (
+    <section className="mb-6">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-900">Signatures</div>
+        {data?.certificateUrl && (
+          <a href={data.certificateUrl} target="_blank" rel="noreferrer" className="text-[11px] text-indigo-700 underline">
+            Certificate of completion
+          </a>
+        )}
+      </div>
+      {loading || !env ? (
+        <div className="mt-2 text-[11px] text-gray-500">Loading signatures…</div>
+      ) : (
+        <>
+          <div className="mt-1 text-[11px] text-gray-600">
+            {env.status === "completed"
+              ? `All signatures complete ${fmt(env.completedAt)},`
+              : env.status === "voided"
+                ? "This envelope was voided,"
+                : "Tenants sign first, then you get a link to countersign,"}
+          </div>
+          <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+            {env.signers.map((s) => {
+              const st = signerState(s);
+              const canResend =
+                env.status === "out_for_signature" && !s.signedAt && (s.role === "tenant" || !tenantsPending);
+              return (
+                <li key={s.id} className="flex items-start justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">
+                      {s.name} <span className="text-[11px] text-gray-500">{s.role === "landlord" ? "Landlord" : "Tenant"}</span>
+                    </div>
+                    <div className="text-[11px] text-gray-500">
+                      {s.email}
+                      {s.signedAt ? ` • Signed ${fmt(s.signedAt)} (${s.method})` : s.invitedAt ? ` • Sent ${fmt(s.invitedAt)}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {canResend && (
+                      <button
+                        type="button"
+                        disabled={busyId === s.id}
+                        onClick={() => resend(s)}
+                        className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {s.invitedAt ? "Resend link" : "Send link"}
+                      </button>
+                    )}
+                    <span className={clsx("rounded-full px-2 py-0.5 text-[11px] ring-1", st.tone)}>{st.label}</span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
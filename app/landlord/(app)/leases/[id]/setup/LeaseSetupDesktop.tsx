@@ -638,6 +638,13 @@ export default function LeaseSetupDesktop() {
 
       if (!res.ok) {
         const j = await res.json().catch(() => null);
+        if (j?.error === "unit_unavailable" && j?.conflict) {
+          const c = j.conflict;
+          setToast(
+            `This unit is ${c.kind === "hold" ? "held for another application" : "leased"} from ${c.start}${c.end ? ` to ${c.end}` : ""},`
+          );
+          return;
+        }
         setToast(`Create lease failed, ${j?.error ?? res.status}`);
         return;
       }
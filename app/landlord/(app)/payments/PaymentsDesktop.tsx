@@ -357,6 +357,312 @@ function AccountCard({ title, subtitle, kind, firmId }:{
   );
 }
 
+/* ── Late fee policy (MA: nothing before 30 days late) ────── */
+type LateFeePolicy = {
+  enabled: boolean;
+  graceDays: number;
+  kind: "flat" | "percent";
+  flatCents?: number | null;
+  percentHundredths?: number | null;
+  maxCents?: number | null;
+};
+
+const LATE_FEE_ERRORS: Record<string, string> = {
+  grace_below_statutory_minimum: "Massachusetts doesn’t allow a late fee until rent is 30 days late.",
+  flat_amount_required: "Enter the flat fee amount.",
+  percent_required: "Enter the fee percentage.",
+  percent_out_of_range: "Percentage must be 100% or less.",
+};
+
+function centsFromDollars(s: string) {
+  const n = Number(s);
+  return s.trim() === "" || !Number.isFinite(n) ? null : Math.round(n * 100);
+}
+function dollarsFromCents(c?: number | null) {
+  return c == null ? "" : (c / 100).toFixed(2);
+}
+
+function LateFeePolicyCard() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  const [minGrace, setMinGrace] = useState(30);
+  const [form, setForm] = useState({ enabled: false, graceDays: "30", kind: "flat" as "flat" | "percent", flat: "", percent: "", max: "" });
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const r = await fetch("/api/landlord/late-fee-policy", { cache: "no-store" });
+        const j = await r.json().catch(() => null);
+        if (r.ok && j?.ok) {
+          const p: LateFeePolicy = j.policy;
+          setMinGrace(j.minGraceDays ?? 30);
+          setForm({
+            enabled: !!p.enabled,
+            graceDays: String(p.graceDays),
+            kind: p.kind,
+            flat: dollarsFromCents(p.flatCents),
+            percent: p.percentHundredths == null ? "" : (p.percentHundredths / 100).toString(),
+            max: dollarsFromCents(p.maxCents),
+          });
+        }
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault();
+    const graceDays = Number(form.graceDays);
+    if (!Number.isInteger(graceDays) || graceDays < minGrace) return setToast(LATE_FEE_ERRORS.grace_below_statutory_minimum);
+    setSaving(true);
+    setToast(null);
+    try {
+      const pct = Number(form.percent);
+      const r = await fetch("/api/landlord/late-fee-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled: form.enabled,
+          graceDays,
+          kind: form.kind,
+          flatCents: form.kind === "flat" ? centsFromDollars(form.flat) : null,
+          percentHundredths: form.kind === "percent" && form.percent.trim() !== "" && Number.isFinite(pct) ? Math.round(pct * 100) : null,
+          maxCents: centsFromDollars(form.max),
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      setToast(r.ok && j?.ok ? "Saved." : LATE_FEE_ERRORS[j?.error] ?? `Save failed (${j?.error ?? r.status}).`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const disabled = loading || saving;
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5">
+      <div className="text-sm font-semibold text-gray-900">Late fees</div>
+      <div className="text-xs text-gray-600">
+        Applied to rent still unpaid after the grace period. Massachusetts prohibits late fees until rent is {minGrace} days late.
+      </div>
+
+      <form onSubmit={onSave} className="mt-4 grid grid-cols-1 gap-3 text-sm md:grid-cols-2">
+        <label className="flex items-center gap-2 text-xs text-gray-700 md:col-span-2">
+          <input type="checkbox" className="h-3.5 w-3.5" checked={form.enabled}
+                 onChange={(e)=>setForm(f=>({ ...f, enabled: e.target.checked }))} disabled={disabled}/>
+          Charge late fees
+        </label>
+
+        <div className="grid grid-cols-1 gap-1">
+          <label className="text-xs text-gray-700">Days late before a fee (min {minGrace})</label>
+          <input className="w-28 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono" inputMode="numeric"
+                 value={form.graceDays} onChange={(e)=>setForm(f=>({ ...f, graceDays: e.target.value.replace(/\D/g, "") }))} disabled={disabled}/>
+        </div>
+
+        <div className="grid grid-cols-1 gap-1">
+          <label className="text-xs text-gray-700">Fee type</label>
+          <select className="w-40 rounded-md border border-gray-300 px-2 py-1.5 text-sm" value={form.kind}
+                  onChange={(e)=>setForm(f=>({ ...f, kind: e.target.value === "percent" ? "percent" : "flat" }))} disabled={disabled}>
+            <option value="flat">Flat amount</option>
+            <option value="percent">Percent of unpaid rent</option>
+          </select>
+        </div>
+
+        {form.kind === "flat" ? (
+          <div className="grid grid-cols-1 gap-1">
+            <label className="text-xs text-gray-700">Flat fee ($)</label>
+            <input className="w-32 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono" inputMode="decimal" placeholder="50.00"
+                   value={form.flat} onChange={(e)=>setForm(f=>({ ...f, flat: e.target.value }))} disabled={disabled}/>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-1">
+            <label className="text-xs text-gray-700">Percent of unpaid rent (%)</label>
+            <input className="w-32 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono" inputMode="decimal" placeholder="5"
+                   value={form.percent} onChange={(e)=>setForm(f=>({ ...f, percent: e.target.value }))} disabled={disabled}/>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-1">
+          <label className="text-xs text-gray-700">Cap per fee ($, optional)</label>
+          <input className="w-32 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono" inputMode="decimal" placeholder="—"
+                 value={form.max} onChange={(e)=>setForm(f=>({ ...f, max: e.target.value }))} disabled={disabled}/>
+        </div>
+
+        <div className="mt-1 flex flex-wrap items-center gap-2 md:col-span-2">
+          <button type="submit" disabled={disabled}
+                  className="rounded-md bg-gray-900 px-3 py-2 text-xs font-medium text-white hover:bg-gray-800 disabled:opacity-60">
+            {saving ? "Saving…" : "Save late fee policy"}
+          </button>
+          {toast && <span className="text-xs text-gray-600">{toast}</span>}
+        </div>
+      </form>
+    </div>
+  );
+}
+
+/* ── Refunds ──────────────────────────────────────────────── */
+type RefundablePayment = {
+  _id: string;
+  premises: string | null;
+  label: string;
+  status: string;
+  amountCents: number;
+  refundedCents: number;
+  refundableCents: number;
+  disputed: boolean;
+  paidAt: string | null;
+  refunds: { id: string; amountCents: number; reason: string; status: string; at: string }[];
+};
+
+const REFUND_ERRORS: Record<string, string> = {
+  invalid_amount: "Enter an amount greater than zero.",
+  reason_required: "Enter a reason (at least 3 characters).",
+  exceeds_refundable: "That’s more than is left to refund on this payment.",
+  not_refundable: "This payment can’t be refunded.",
+  payment_changed: "This payment changed while you were refunding it. Reload and try again.",
+  refund_failed: "Stripe declined the refund.",
+  no_admin_membership: "Only firm owners and admins can issue refunds.",
+};
+
+const usd = (c: number) => `$${(c / 100).toFixed(2)}`;
+
+function RefundsCard() {
+  const [rows, setRows] = useState<RefundablePayment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [form, setForm] = useState({ amount: "", reason: "" });
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const r = await fetch("/api/landlord/payments", { cache: "no-store" });
+    const j = await r.json().catch(() => null);
+    if (r.ok && j?.ok) {
+      setRows(j.payments);
+      setError(null);
+    } else {
+      setRows([]);
+      setError(REFUND_ERRORS[j?.error] ?? `Couldn’t load payments (${j?.error ?? r.status}).`);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  function openRefund(p: RefundablePayment) {
+    setOpenId(p._id);
+    setForm({ amount: dollarsFromCents(p.refundableCents), reason: "" });
+    setToast(null);
+  }
+
+  async function onRefund(e: React.FormEvent, p: RefundablePayment) {
+    e.preventDefault();
+    const amountCents = centsFromDollars(form.amount);
+    if (!amountCents || amountCents <= 0) return setToast(REFUND_ERRORS.invalid_amount);
+    if (amountCents > p.refundableCents) return setToast(REFUND_ERRORS.exceeds_refundable);
+    if (form.reason.trim().length < 3) return setToast(REFUND_ERRORS.reason_required);
+    if (!confirm(`Refund ${usd(amountCents)} of this ${p.label} payment? This can’t be undone.`)) return;
+
+    setBusy(true);
+    setToast(null);
+    try {
+      const r = await fetch(`/api/landlord/payments/${encodeURIComponent(p._id)}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amountCents, reason: form.reason.trim() }),
+      });
+      const j = await r.json().catch(() => null);
+      if (r.ok && j?.ok) {
+        setOpenId(null);
+        setToast(`Refunded ${usd(amountCents)}. A receipt was emailed to the household.`);
+        await load();
+      } else {
+        setToast(REFUND_ERRORS[j?.error] ?? `Refund failed (${j?.error ?? r.status}).`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5">
+      <div className="text-sm font-semibold text-gray-900">Refunds</div>
+      <div className="text-xs text-gray-600">
+        Refund all or part of a settled payment, for example an overpaid fee or a deposit when an application falls through.
+        The money comes back out of the account it was paid into.
+      </div>
+
+      {rows === null ? (
+        <div className="mt-3 text-xs text-gray-500">Loading payments…</div>
+      ) : error ? (
+        <div className="mt-3 text-xs text-gray-600">{error}</div>
+      ) : rows.length === 0 ? (
+        <div className="mt-3 text-xs text-gray-500">No settled payments yet.</div>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-100 rounded-lg border border-gray-200">
+          {rows.map((p) => (
+            <li key={p._id} className="px-4 py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-900">
+                    {usd(p.amountCents)} {p.label}
+                    {p.premises ? <span className="text-gray-500"> • {p.premises}</span> : null}
+                  </div>
+                  <div className="text-[11px] text-gray-500">
+                    Paid {p.paidAt ? new Date(p.paidAt).toLocaleDateString() : "—"}
+                    {p.refundedCents ? ` • ${usd(p.refundedCents)} refunded` : ""}
+                  </div>
+                  {p.refunds.filter((r) => r.status === "succeeded").map((r) => (
+                    <div key={r.id} className="text-[11px] text-gray-500">
+                      {usd(r.amountCents)} on {new Date(r.at).toLocaleDateString()} — {r.reason}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {p.status === "returned" && <Badge tone="red">Returned</Badge>}
+                  {p.disputed && <Badge tone="amber">Disputed</Badge>}
+                  {p.refundableCents > 0 && openId !== p._id && (
+                    <button type="button" onClick={() => openRefund(p)}
+                            className="rounded-md border border-gray-300 px-2.5 py-1 text-xs text-gray-800 hover:bg-gray-50">
+                      Refund
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {openId === p._id && (
+                <form onSubmit={(e) => onRefund(e, p)} className="mt-3 grid grid-cols-1 gap-3 text-sm md:grid-cols-[auto_1fr]">
+                  <div className="grid grid-cols-1 gap-1">
+                    <label className="text-xs text-gray-700">Amount ($, up to {usd(p.refundableCents)})</label>
+                    <input className="w-32 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono" inputMode="decimal"
+                           value={form.amount} onChange={(e)=>setForm(f=>({ ...f, amount: e.target.value }))} disabled={busy}/>
+                  </div>
+                  <div className="grid grid-cols-1 gap-1">
+                    <label className="text-xs text-gray-700">Reason (shown on the receipt)</label>
+                    <input className="rounded-md border border-gray-300 px-2 py-1.5 text-sm" placeholder="e.g. Key fee overpaid"
+                           value={form.reason} onChange={(e)=>setForm(f=>({ ...f, reason: e.target.value }))} disabled={busy}/>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 md:col-span-2">
+                    <button type="submit" disabled={busy}
+                            className="rounded-md bg-gray-900 px-3 py-2 text-xs font-medium text-white hover:bg-gray-800 disabled:opacity-60">
+                      {busy ? "Refunding…" : "Issue refund"}
+                    </button>
+                    <button type="button" onClick={() => setOpenId(null)} disabled={busy}
+                            className="rounded-md px-3 py-2 text-xs text-gray-700 hover:bg-gray-50">
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {toast && <div className="mt-3 text-xs text-gray-600">{toast}</div>}
+    </div>
+  );
+}
+
 /* ── Page ─────────────────────────────────────────────────── */
 export default function PaymentsDesktop({ firmId }: { firmId?: string }) {
   return (
@@ -369,6 +675,10 @@ export default function PaymentsDesktop({ firmId }: { firmId?: string }) {
         <AccountCard title="Operating payouts (Rent, Fees)" subtitle="Connect Stripe to receive rent and other operating funds." kind="operating" firmId={firmId} />
         <AccountCard title="Escrow payouts (Security Deposits)" subtitle="Connect Stripe to receive tenant deposits into a separate escrow account." kind="escrow" firmId={firmId} />
       </div>
+
+      <LateFeePolicyCard />
+
+      <RefundsCard />
     </div>
   );
 }
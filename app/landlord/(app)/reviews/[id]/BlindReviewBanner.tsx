@@ -0,0 +1,94 @@
+// app/landlord/reviews/[id]/BlindReviewBanner.tsx
+"use client";
+
+import { useState } from "react";
+
+export type BlindReviewField = "names" | "dob" | "photos" | "sensitive_answers";
+export type BlindReviewState = { enabled: boolean; masked: BlindReviewField[]; canReveal: boolean };
+
+const FIELD_LABELS: Record<BlindReviewField, string> = {
+  names: "Names and emails",
+  dob: "Dates of birth",
+  photos: "Photos",
+  sensitive_answers: "Sensitive answers",
+};
+
+const ERRORS: Record<string, string> = {
+  recommendation_required: "Record a recommendation before revealing anything,",
+  blind_review_off: "Blind review is off for this firm,",
+};
+
+export default function BlindReviewBanner({
+  appId,
+  state,
+  onRevealed,
+  onToast,
+}: {
+  appId: string;
+  state: BlindReviewState;
+  onRevealed: () => void;
+  onToast: (msg: string) => void;
+}) {
+  const [busy, setBusy] = useState<BlindReviewField | "all" | null>(null);
+
+  if (!state.enabled || !state.masked.length) return null;
+
+  async function reveal(fields: BlindReviewField[], key: BlindReviewField | "all") {
+    setBusy(key);
+    try {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/blind-review`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ fields }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(ERRORS[j?.error] ?? `Couldn’t reveal: ${j?.error ?? res.status},`);
+        return;
+      }
+      onToast("Revealed; this was recorded in the audit log,");
+      onRevealed();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-indigo-200 bg-indigo-50 px-5 py-3 text-xs text-indigo-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="font-semibold">Blind review</span> · hidden:{" "}
+          {state.masked.map((f) => FIELD_LABELS[f].toLowerCase()).join(", ")}
+        </div>
+        {state.canReveal && state.masked.length > 1 && (
+          <button
+            onClick={() => reveal(state.masked, "all")}
+            disabled={busy !== null}
+            className="rounded-md border border-indigo-300 bg-white px-2.5 py-1 text-[11px] font-medium disabled:opacity-50"
+          >
+            {busy === "all" ? "Revealing…" : "Reveal all"}
+          </button>
+        )}
+      </div>
+      {state.canReveal ? (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {state.masked.map((f) => (
+            <button
+              key={f}
+              onClick={() => reveal([f], f)}
+              disabled={busy !== null}
+              className="rounded-md border border-indigo-200 bg-white px-2 py-0.5 text-[11px] disabled:opacity-50"
+            >
+              {busy === f ? "Revealing…" : `Reveal ${FIELD_LABELS[f].toLowerCase()}`}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-1 text-[11px] text-indigo-800">
+          Make a first-pass recommendation on the application as shown; these can be revealed afterwards, and every
+          reveal is recorded,
+        </div>
+      )}
+    </div>
+  );
+}
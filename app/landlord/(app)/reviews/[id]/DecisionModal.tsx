@@ -0,0 +1,161 @@
+// app/landlord/reviews/[id]/DecisionModal.tsx
+"use client";
+
+import { useState } from "react";
+
+/** Same codes as ADVERSE_ACTION_REASONS in lib/applications/decisionLetters */
+const REASONS: { code: string; label: string }[] = [
+  { code: "insufficient_income", label: "Income insufficient for the rent" },
+  { code: "unverifiable_income", label: "Unable to verify income or employment" },
+  { code: "credit_history", label: "Credit history" },
+  { code: "collections", label: "Accounts in collection" },
+  { code: "rental_history", label: "Rental history or landlord references" },
+  { code: "eviction_history", label: "Eviction record" },
+  { code: "criminal_history", label: "Criminal record, after an individualized assessment" },
+  { code: "incomplete_application", label: "Incomplete application" },
+  { code: "unverifiable_information", label: "Information could not be verified" },
+  { code: "unit_unavailable", label: "Unit no longer available" },
+];
+
+const CONDITION_PRESETS = [
+  "A qualified cosigner or guarantor signs the lease",
+  "Proof of income for the last three months",
+  "Renter's insurance in place before move-in",
+];
+
+export type DecisionExtras = { reasons?: string[]; reasonNote?: string; conditions?: string[] };
+
+export default function DecisionModal({
+  mode,
+  onCancel,
+  onConfirm,
+}: {
+  mode: "reject" | "conditional";
+  onCancel: () => void;
+  onConfirm: (extras: DecisionExtras) => Promise<void>;
+}) {
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [reasonNote, setReasonNote] = useState("");
+  const [conditions, setConditions] = useState<string[]>([""]);
+  const [saving, setSaving] = useState(false);
+
+  const cleanConditions = conditions.map((c) => c.trim()).filter(Boolean);
+  const ready = !saving && (mode === "reject" ? reasons.length > 0 || reasonNote.trim().length > 0 : cleanConditions.length > 0);
+
+  function toggleReason(code: string) {
+    setReasons((rs) => (rs.includes(code) ? rs.filter((r) => r !== code) : [...rs, code]));
+  }
+
+  async function confirm() {
+    setSaving(true);
+    try {
+      await onConfirm(
+        mode === "reject" ? { reasons, reasonNote: reasonNote.trim() || undefined } : { conditions: cleanConditions }
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onCancel} />
+      <div className="absolute left-1/2 top-16 w-[92%] max-w-lg -translate-x-1/2 rounded-2xl bg-white shadow-xl ring-1 ring-gray-200">
+        <div className="border-b border-gray-100 px-5 py-3">
+          <div className="text-sm font-semibold text-gray-900">
+            {mode === "reject" ? "Reject application" : "Approve with conditions"}
+          </div>
+          <div className="text-xs text-gray-600">
+            {mode === "reject"
+              ? "The household gets a rejection letter listing these reasons, with the adverse action notice if screening reports were used,"
+              : "The household gets a letter stating these conditions,"}
+          </div>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto px-5 py-4 text-sm">
+          {mode === "reject" ? (
+            <>
+              <div className="space-y-1.5">
+                {REASONS.map((r) => (
+                  <label key={r.code} className="flex items-center gap-2 text-gray-800">
+                    <input type="checkbox" checked={reasons.includes(r.code)} onChange={() => toggleReason(r.code)} />
+                    {r.label}
+                  </label>
+                ))}
+              </div>
+              <label className="mt-3 block text-xs text-gray-700">
+                Other reason (printed on the letter)
+                <textarea
+                  value={reasonNote}
+                  onChange={(e) => setReasonNote(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm"
+                />
+              </label>
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {conditions.map((c, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      value={c}
+                      onChange={(e) => setConditions((cs) => cs.map((x, j) => (j === i ? e.target.value : x)))}
+                      maxLength={300}
+                      placeholder="Condition the household has to meet,"
+                      className="w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm"
+                    />
+                    {conditions.length > 1 && (
+                      <button
+                        onClick={() => setConditions((cs) => cs.filter((_, j) => j !== i))}
+                        className="text-xs text-gray-500 underline"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {conditions.length < 10 && (
+                  <button
+                    onClick={() => setConditions((cs) => [...cs, ""])}
+                    className="rounded-md border border-gray-300 bg-white px-2.5 py-1 text-xs"
+                  >
+                    + Add condition
+                  </button>
+                )}
+                {CONDITION_PRESETS.filter((p) => !conditions.includes(p)).map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => setConditions((cs) => [...cs.filter((x) => x.trim()), p])}
+                    className="rounded-md border border-dashed border-gray-300 bg-white px-2.5 py-1 text-xs text-gray-700"
+                  >
+                    {p}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button onClick={onCancel} className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={confirm}
+            disabled={!ready}
+            className={
+              "rounded-md px-3 py-1.5 text-sm font-medium text-white disabled:opacity-50 " +
+              (mode === "reject" ? "bg-rose-600 hover:bg-rose-700" : "bg-emerald-600 hover:bg-emerald-700")
+            }
+          >
+            {saving ? "Sending…" : mode === "reject" ? "Reject and send letter" : "Approve and send letter"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// app/landlord/reviews/[id]/DocumentsPanel.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import LocalTime from "@/app/components/Time";
+
+type ApplicantDocument = {
+  id: string;
+  userId: string;
+  email: string | null;
+  target: { kind: "question" | "qualification"; id: string };
+  docKind: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+  completedAt: string | null;
+  masked?: boolean;            // a photo held back by blind review
+  viewUrl: string | null;
+};
+
+type Labelled = { id: string; title?: string; label?: string };
+
+const sizeFmt = (n: number) => (n >= 1024 * 1024 ? `${(n / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(n / 1024))} KB`);
+
+export default function DocumentsPanel({
+  appId,
+  questions,
+  qualifications,
+  reloadKey = 0,
+  tz,
+}: {
+  appId: string;
+  questions: Labelled[];
+  qualifications: Labelled[];
+  reloadKey?: number;
+  tz?: string;
+}) {
+  const [docs, setDocs] = useState<ApplicantDocument[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/documents`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!cancelled) setDocs(res.ok && j?.ok ? j.documents : []);
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [appId, reloadKey]);
+
+  const titleOf = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const q of questions) m.set(q.id, String(q.label ?? q.id));
+    for (const q of qualifications) m.set(q.id, String(q.title ?? q.id));
+    return (id: string) => m.get(id) ?? "Removed from form";
+  }, [questions, qualifications]);
+
+  const byMember = useMemo(() => {
+    const out = new Map<string, ApplicantDocument[]>();
+    for (const d of docs ?? []) {
+      const k = d.email || d.userId;
+      out.set(k, [...(out.get(k) ?? []), d]);
+    }
+    return Array.from(out.entries());
+  }, [docs]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+        <div className="text-sm font-semibold text-gray-900">Documents</div>
+        <span className="text-[11px] text-gray-500">{docs?.length ?? 0}</span>
+      </div>
+      <div className="p-5 space-y-3 text-xs">
+        {docs === null ? (
+          <div className="text-gray-500">Loading…</div>
+        ) : byMember.length === 0 ? (
+          <div className="text-sm text-gray-600">No documents uploaded yet,</div>
+        ) : (
+          byMember.map(([member, rows]) => (
+            <div key={member}>
+              <div className="text-[11px] font-medium text-gray-900 truncate">{member}</div>
+              <ul className="mt-1 space-y-1">
+                {rows.map((d) => (
+                  <li key={d.id} className="flex items-start justify-between gap-2 rounded-md border border-gray-200 p-2">
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-900">{titleOf(d.target.id)}</div>
+                      <div className="truncate text-[10px] text-gray-500">
+                        {d.fileName} · {sizeFmt(d.size)}
+                        {d.completedAt && (
+                          <>
+                            {" "}· <LocalTime iso={d.completedAt} tz={tz} />
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    {d.viewUrl ? (
+                      <div className="flex shrink-0 gap-2">
+                        <a href={d.viewUrl} target="_blank" rel="noopener noreferrer" className="text-gray-700 underline">
+                          View
+                        </a>
+                        <a href={`${d.viewUrl}?download=1`} className="text-gray-700 underline">
+                          Download
+                        </a>
+                      </div>
+                    ) : (
+                      <span className="shrink-0 text-[10px] text-gray-500">{d.masked ? "Photo hidden" : "Unavailable"}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+        <p className="text-[10px] text-gray-500">Links expire after a minute; every view is recorded,</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+// app/landlord/reviews/[id]/LettersPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import LocalTime from "@/app/components/Time";
+
+type DecisionLetterRow = {
+  id: string;
+  kind: "rejection" | "conditional_approval";
+  subject: string;
+  conditions: string[];
+  adverseAction: boolean;
+  agencies: string[];
+  recipients: { email: string; status: "pending" | "sent" | "failed"; error: string | null }[];
+  createdAt: string;
+};
+
+const KIND_LABELS: Record<DecisionLetterRow["kind"], string> = {
+  rejection: "Rejection",
+  conditional_approval: "Conditional approval",
+};
+
+export default function LettersPanel({ appId, reloadKey, tz }: { appId: string; reloadKey: number; tz?: string }) {
+  const [letters, setLetters] = useState<DecisionLetterRow[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/letters`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!cancelled) setLetters(res.ok && j?.ok ? j.letters : []);
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [appId, reloadKey]);
+
+  if (!letters?.length) return null;
+  const base = `/api/landlord/applications/${encodeURIComponent(appId)}/letters`;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+        <div className="text-sm font-semibold text-gray-900">Decision letters</div>
+        <span className="text-[11px] text-gray-500">{letters.length}</span>
+      </div>
+      <div className="p-5 space-y-2 text-xs">
+        {letters.map((l) => (
+          <div key={l.id} className="rounded-md border border-gray-200 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900">{KIND_LABELS[l.kind]}</span>
+              <a href={`${base}/${encodeURIComponent(l.id)}`} target="_blank" rel="noopener noreferrer" className="text-gray-700 underline">
+                View
+              </a>
+            </div>
+            <div className="mt-0.5 text-[10px] text-gray-500">
+              <LocalTime iso={l.createdAt} tz={tz} />
+              {l.adverseAction && <> · adverse action notice ({l.agencies.join(", ")})</>}
+            </div>
+            <ul className="mt-1.5 space-y-0.5">
+              {l.recipients.map((r) => (
+                <li key={r.email} className="flex items-center justify-between gap-2">
+                  <a
+                    href={`${base}/${encodeURIComponent(l.id)}?to=${encodeURIComponent(r.email)}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate text-gray-700 hover:underline"
+                  >
+                    {r.email}
+                  </a>
+                  <span className={r.status === "sent" ? "text-emerald-700" : r.status === "failed" ? "text-rose-700" : "text-gray-500"}>
+                    {r.status === "failed" ? `failed (${r.error ?? "error"})` : r.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,14 @@ import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import LocalTime from "@/app/components/Time";
+import ReviewsPanel, { APPROVAL_BLOCKERS } from "./ReviewsPanel";
+import ScorecardPanel from "./ScorecardPanel";
+import DocumentsPanel from "./DocumentsPanel";
+import ScreeningPanel from "./ScreeningPanel";
+import LettersPanel from "./LettersPanel";
+import DecisionModal, { type DecisionExtras } from "./DecisionModal";
+import BlindReviewBanner, { type BlindReviewState } from "./BlindReviewBanner";
+import WaitlistModal, { type Competitor } from "./WaitlistModal";
 
 /* ---------- Types ---------- */
 type MemberRole = "primary" | "co_applicant" | "cosigner" | "co-applicant";
@@ -17,8 +25,10 @@ type AppStatus =
   | "min_paid"
   | "countersigned"
   | "occupied"
+  | "moved_out"
   | "rejected"
-  | "withdrawn";
+  | "withdrawn"
+  | "waitlisted";
 
 type Member = {
   userId?: string;
@@ -75,6 +85,7 @@ type ReviewBundle = {
   } | null;
   unit?: { unitNumber?: string | null } | null;
   protoLease?: { monthlyRent?: number | null; moveInDate?: string | null; termMonths?: number | null } | null;
+  blindReview: BlindReviewState;
 };
 
 type FirmViewerRole = "member" | "admin" | "owner" | "none";
@@ -154,10 +165,14 @@ function StatusChip({ status }: { status: AppStatus }) {
       ? "Countersigned"
       : status === "occupied"
       ? "Occupied"
+      : status === "moved_out"
+      ? "Moved out"
       : status === "rejected"
       ? "Rejected"
       : status === "withdrawn"
       ? "Withdrawn"
+      : status === "waitlisted"
+      ? "Waitlisted"
       : "—";
 
   return <Badge tone={tone}>{label}</Badge>;
@@ -269,6 +284,11 @@ async function fetchBundle(appId: string, firmId?: string): Promise<ReviewBundle
       building: app.building ?? null,
       unit: app.unit ?? null,
       protoLease: app.protoLease ?? null,
+      blindReview: {
+        enabled: !!app.blindReview?.enabled,
+        masked: Array.isArray(app.blindReview?.masked) ? app.blindReview.masked : [],
+        canReveal: !!app.blindReview?.canReveal,
+      },
     };
   } catch {
     return null;
@@ -293,15 +313,26 @@ async function fetchUserFirmRole(firmId?: string): Promise<FirmViewerRole> {
 async function postDecision(
   appId: string,
   action: "preliminary_accept" | "approve" | "reject",
-  firmId?: string
+  firmId?: string,
+  extras?: DecisionExtras
 ) {
   const url = `${API(appId, firmId)}/decision`;
   const res = await fetch(url, {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ action }),
+    body: JSON.stringify({ action, ...extras }),
   }).catch(() => null);
-  return !!res && res.ok;
+  const j = await res?.json().catch(() => null);
+  if (res?.ok) {
+    const recipients: { status: string }[] = j?.letter?.recipients ?? [];
+    return {
+      ok: true as const,
+      letterFailed: recipients.filter((r) => r.status !== "sent").length,
+      letter: !!j?.letter,
+      competitors: (Array.isArray(j?.competitors) ? j.competitors : []) as Competitor[],
+    };
+  }
+  return { ok: false as const, error: String(j?.error || "") };
 }
 
 /* ---------- Component ---------- */
@@ -323,6 +354,11 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
   const [toast, setToast] = useState<string | null>(null);
   const [viewerRole, setViewerRole] = useState<FirmViewerRole>("none");
   const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [reviewsKey, setReviewsKey] = useState(0);
+  const [lettersKey, setLettersKey] = useState(0);
+  const [decisionModal, setDecisionModal] = useState<"reject" | "conditional" | null>(null);
+  const [waitlistOffer, setWaitlistOffer] = useState<Competitor[] | null>(null);
+  const [blindKey, setBlindKey] = useState(0);
 
   // Lease modal state
   const [showLeaseModal, setShowLeaseModal] = useState(false);
@@ -437,7 +473,7 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
   const showConfigureLeaseCTA =
     !!app && (app.status === "approved_high" || app.status === "terms_set");
 
-  async function onDecision(action: "preliminary_accept" | "approve" | "reject") {
+  async function onDecision(action: "preliminary_accept" | "approve" | "reject", extras?: DecisionExtras) {
     if (!app || !isTruthyId(app.id)) return;
 
     if (
@@ -449,15 +485,27 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
       return;
     }
 
-    const ok = await postDecision(app.id, action, firmId);
-    setToast(ok ? "Saved," : "Unauthorized or failed,");
-    if (!ok) return;
+    const r = await postDecision(app.id, action, firmId, extras);
+    setToast(
+      !r.ok
+        ? APPROVAL_BLOCKERS[r.error] ?? "Unauthorized or failed,"
+        : r.letterFailed
+        ? `Saved, but the letter didn’t reach ${r.letterFailed} recipient(s),`
+        : r.letter
+        ? "Saved, letter sent,"
+        : "Saved,"
+    );
+    if (!r.ok) return;
+    setDecisionModal(null);
 
     const b = await fetchBundle(app.id, firmId);
     setBundle(b);
+    setReviewsKey((k) => k + 1);
+    setLettersKey((k) => k + 1);
 
     if (action === "approve") {
-      setToast("Approved — configure the lease next,");
+      if (!r.letterFailed) setToast("Approved — configure the lease next,");
+      if (r.competitors.length) setWaitlistOffer(r.competitors);
       setTimeout(() => {
         ctaRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
       }, 150);
@@ -775,10 +823,26 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
                 </button>
               )}
 
+              {/* Approve with conditions (sends a conditional approval letter) */}
+              {canApprove && (
+                <button
+                  onClick={() => setDecisionModal("conditional")}
+                  className={clsx(
+                    "group inline-flex items-center gap-1.5 rounded-md",
+                    "border border-emerald-200 bg-white px-3 py-1.5 text-[11px] font-medium text-emerald-900",
+                    "hover:bg-emerald-50 active:scale-[0.99] transition focus:outline-none focus:ring-2 focus:ring-emerald-300/60"
+                  )}
+                  title="Approve with conditions"
+                  aria-label="Approve with conditions"
+                >
+                  Approve with conditions
+                </button>
+              )}
+
               {/* Reject */}
               {canReject && (
                 <button
-                  onClick={() => onDecision("reject")}
+                  onClick={() => setDecisionModal("reject")}
                   className={clsx(
                     "group inline-flex items-center gap-1.5 rounded-md",
                     "border border-rose-300 bg-rose-50 px-3 py-1.5 text-[11px] font-medium text-rose-900",
@@ -811,6 +875,25 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
         </div>
       </div>
 
+      {/* Reasons / conditions for the decision letter */}
+      {decisionModal && (
+        <DecisionModal
+          mode={decisionModal}
+          onCancel={() => setDecisionModal(null)}
+          onConfirm={(extras) => onDecision(decisionModal === "reject" ? "reject" : "approve", extras)}
+        />
+      )}
+
+      {/* Other open applications for the same unit */}
+      {waitlistOffer && app && (
+        <WaitlistModal
+          appId={app.id}
+          competitors={waitlistOffer}
+          onClose={() => setWaitlistOffer(null)}
+          onToast={setToast}
+        />
+      )}
+
       {/* Lease modal */}
       {showLeaseModal && (
         <div className="fixed inset-0 z-50">
@@ -850,6 +933,16 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
         </div>
       )}
 
+      <BlindReviewBanner
+        appId={app.id}
+        state={app.blindReview}
+        onToast={setToast}
+        onRevealed={async () => {
+          setBundle(await fetchBundle(app.id, firmId));
+          setBlindKey((k) => k + 1);
+        }}
+      />
+
       {/* 2-column layout */}
       <div className="grid grid-cols-12 gap-6">
         {/* Left: Answers (member + sections) */}
@@ -974,8 +1067,24 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
           )}
         </section>
 
-        {/* Right: Members, Qualifications, Timeline */}
+        {/* Right: Scorecard, Reviews, Members, Qualifications, Documents, Screening, Letters, Timeline */}
         <aside className="col-span-12 lg:col-span-4 space-y-6">
+          {/* Scorecard */}
+          <ScorecardPanel appId={app.id} refreshKey={reviewsKey} tz={firmTz} onToast={setToast} />
+
+          {/* Reviews & approval */}
+          <ReviewsPanel
+            appId={app.id}
+            canReview={canPrelimByRole && approveStatusOK}
+            refreshKey={reviewsKey}
+            tz={firmTz}
+            onToast={setToast}
+            onStatusChanged={async () => setBundle(await fetchBundle(app.id, firmId))}
+            onReviewed={async () => {
+              if (app.blindReview.masked.length) setBundle(await fetchBundle(app.id, firmId));
+            }}
+          />
+
           {/* Members */}
           <div className="rounded-xl border border-gray-200 bg-white">
             <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
@@ -1069,6 +1178,21 @@ export default function ReviewDesktop({ appId }: { appId?: string }) {
             </div>
           </div>
 
+          {/* Uploaded documents */}
+          <DocumentsPanel
+            appId={app.id}
+            questions={app.form.questions}
+            qualifications={app.form.qualifications}
+            reloadKey={blindKey}
+            tz={firmTz}
+          />
+
+          {/* Provider screening reports */}
+          <ScreeningPanel appId={app.id} reloadKey={blindKey} tz={firmTz} />
+
+          {/* Decision letters as sent */}
+          <LettersPanel appId={app.id} reloadKey={lettersKey} tz={firmTz} />
+
           {/* Timeline (collapsible) */}
           <div className="rounded-xl border border-gray-200 bg-white">
             <button
@@ -0,0 +1,219 @@
+// app/landlord/reviews/[id]/ReviewsPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocalTime from "@/app/components/Time";
+
+type ReviewDecision = "recommend_approve" | "needs_info" | "reject";
+
+type Review = {
+  id: string;
+  reviewerUserId: string;
+  decision: ReviewDecision;
+  notes: string | null;
+  createdAt: string;
+};
+
+type Approval = {
+  id: string;
+  approverUserId: string;
+  decision: "approve" | "reject";
+  notes: string | null;
+  effective: boolean;
+  createdAt: string;
+};
+
+type Payload = {
+  policy: { requireReviewerBeforeApprover: boolean; fourEyes: boolean; autoRejectThreshold?: number | null };
+  reviews: Review[];
+  approvals: Approval[];
+  people: Record<string, string>;
+  viewer: { userId: string; role: string; approveBlocker: string | null };
+};
+
+const DECISION_LABEL: Record<ReviewDecision, string> = {
+  recommend_approve: "Recommend approval",
+  needs_info: "Needs info",
+  reject: "Recommend rejection",
+};
+
+const DECISION_TONE: Record<ReviewDecision, string> = {
+  recommend_approve: "bg-emerald-50 text-emerald-800 ring-emerald-200",
+  needs_info: "bg-amber-50 text-amber-800 ring-amber-200",
+  reject: "bg-rose-50 text-rose-700 ring-rose-200",
+};
+
+/** Shared with ReviewDesktop's decision buttons */
+export const APPROVAL_BLOCKERS: Record<string, string> = {
+  review_required: "A reviewer has to recommend approval first,",
+  review_not_favorable: "The latest review doesn’t recommend approval,",
+  four_eyes_required: "Four-eyes is on: someone other than you has to recommend approval,",
+};
+
+const ERRORS: Record<string, string> = {
+  notes_required: "Add a note explaining what’s missing or why,",
+  bad_state: "This application is past review,",
+  forbidden: "Not authorized for this action,",
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function ReviewsPanel({
+  appId,
+  canReview,
+  refreshKey,
+  tz,
+  onToast,
+  onStatusChanged,
+  onReviewed,
+}: {
+  appId: string;
+  canReview: boolean;
+  refreshKey: number;
+  tz?: string;
+  onToast: (msg: string) => void;
+  onStatusChanged: () => void;
+  onReviewed?: () => void;
+}) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [decision, setDecision] = useState<ReviewDecision>("recommend_approve");
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const url = `/api/landlord/applications/${encodeURIComponent(appId)}/reviews`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(url, { cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    setData(res.ok && j?.ok ? (j as Payload) : null);
+  }, [url]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  async function submit() {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ decision, notes }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(ERRORS[j?.error] ?? `Couldn’t save review: ${j?.error ?? res.status},`);
+        return;
+      }
+      setNotes("");
+      onToast(j.autoRejected ? "Review saved, the application was auto-rejected by policy," : "Review saved,");
+      await load();
+      if (j.autoRejected) onStatusChanged();
+      onReviewed?.();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!data) return null;
+
+  const who = (id: string) =>
+    id === "system" ? "Policy" : id === data.viewer.userId ? "You" : data.people[id] || `User ${id.slice(-6)}`;
+  const effective = data.approvals.find((a) => a.effective);
+  const p = data.policy;
+  const rules = [
+    p.requireReviewerBeforeApprover && "review before approval",
+    p.fourEyes && "four-eyes",
+    p.autoRejectThreshold && `auto-reject at ${p.autoRejectThreshold} rejections`,
+  ].filter(Boolean);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+        <div className="text-sm font-semibold text-gray-900">Reviews & approval</div>
+        <span className="text-[11px] text-gray-500">{rules.length ? `Policy: ${rules.join(", ")}` : "No approval policy"}</span>
+      </div>
+      <div className="p-5 space-y-3">
+        {effective && (
+          <div
+            className={clsx(
+              "rounded-md px-3 py-2 text-xs ring-1",
+              effective.decision === "approve"
+                ? "bg-emerald-50 text-emerald-900 ring-emerald-200"
+                : "bg-rose-50 text-rose-800 ring-rose-200"
+            )}
+          >
+            {effective.decision === "approve" ? "Approved" : "Rejected"} by {who(effective.approverUserId)},{" "}
+            <LocalTime iso={effective.createdAt} tz={tz} />
+            {effective.notes && <div className="mt-1 text-[11px] opacity-80">{effective.notes}</div>}
+          </div>
+        )}
+
+        {!effective && data.viewer.approveBlocker && data.viewer.approveBlocker !== "forbidden" && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-[11px] text-amber-900">
+            {APPROVAL_BLOCKERS[data.viewer.approveBlocker] ?? data.viewer.approveBlocker}
+          </div>
+        )}
+
+        {data.reviews.length === 0 ? (
+          <div className="text-sm text-gray-600">No reviews yet,</div>
+        ) : (
+          <ul className="space-y-2">
+            {data.reviews.map((r) => (
+              <li key={r.id} className="rounded-md border border-gray-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-xs font-medium text-gray-900">{who(r.reviewerUserId)}</span>
+                  <span className={clsx("rounded-full px-2 py-0.5 text-[10px] font-medium ring-1", DECISION_TONE[r.decision])}>
+                    {DECISION_LABEL[r.decision]}
+                  </span>
+                </div>
+                {r.notes && <div className="mt-1 whitespace-pre-wrap text-xs text-gray-700">{r.notes}</div>}
+                <div className="mt-1 text-[11px] text-gray-500">
+                  <LocalTime iso={r.createdAt} tz={tz} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canReview && !effective && (
+          <div className="space-y-2 border-t border-gray-100 pt-3">
+            <div className="text-xs font-medium text-gray-900">Add your review</div>
+            <select
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs"
+              value={decision}
+              onChange={(e) => setDecision(e.target.value as ReviewDecision)}
+              disabled={busy}
+            >
+              {(Object.keys(DECISION_LABEL) as ReviewDecision[]).map((d) => (
+                <option key={d} value={d}>
+                  {DECISION_LABEL[d]}
+                </option>
+              ))}
+            </select>
+            <textarea
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs"
+              rows={3}
+              placeholder={decision === "recommend_approve" ? "Notes (optional)" : "What’s missing, or why"}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={busy}
+            />
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={submit}
+                disabled={busy}
+                className="rounded-md bg-gray-900 px-3 py-1.5 text-[11px] font-medium text-white hover:bg-black disabled:opacity-50"
+              >
+                {busy ? "Saving…" : "Save review"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+// app/landlord/reviews/[id]/ScorecardPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocalTime from "@/app/components/Time";
+
+type Flag =
+  | "rent_unknown"
+  | "income_missing"
+  | "income_below_minimum"
+  | "missing_qualifications"
+  | "incomplete_answers"
+  | "members_not_submitted";
+
+type Score = {
+  id: string;
+  score: number;
+  result: "pass" | "flag";
+  flags: Flag[];
+  incomeToRent: number | null;
+  components: { key: "income" | "qualifications" | "answers" | "members"; weight: number; value: number | null }[];
+  inputs: {
+    monthlyRentCents: number | null;
+    rentSource: "paymentPlan" | "protoLease" | null;
+    householdMonthlyIncomeCents: number;
+    members: { userId: string; role: string; email: string; monthlyIncomeCents: number; countedIncome: boolean }[];
+    qualifications: { userId: string; qualificationId: string; title: string; satisfied: boolean }[];
+  };
+  criteria: { minIncomeToRent: number; passScore: number };
+  criteriaVersion: number;
+  computedAt: string;
+};
+
+const FLAG_LABEL: Record<Flag, string> = {
+  rent_unknown: "Rent not set yet",
+  income_missing: "No income reported",
+  income_below_minimum: "Income below the firm minimum",
+  missing_qualifications: "Missing qualifications",
+  incomplete_answers: "Required answers missing",
+  members_not_submitted: "Not every member submitted",
+};
+
+const COMPONENT_LABEL = {
+  income: "Income to rent",
+  qualifications: "Qualifications",
+  answers: "Required answers",
+  members: "Members submitted",
+} as const;
+
+const moneyFmt = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" });
+const money = (c?: number | null) => (c == null ? "—" : moneyFmt.format(c / 100));
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function ScorecardPanel({
+  appId,
+  refreshKey,
+  tz,
+  onToast,
+}: {
+  appId: string;
+  refreshKey: number;
+  tz?: string;
+  onToast: (msg: string) => void;
+}) {
+  const [score, setScore] = useState<Score | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const url = `/api/landlord/applications/${encodeURIComponent(appId)}/score`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(url, { cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    setScore(res.ok && j?.ok ? (j.score as Score) : null);
+  }, [url]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  async function recompute() {
+    setBusy(true);
+    try {
+      const res = await fetch(url, { method: "POST" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(`Couldn’t rescore: ${j?.error ?? res.status},`);
+        return;
+      }
+      setScore(j.score);
+      onToast("Scorecard updated,");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!score) return null;
+
+  const missing = score.inputs.qualifications.filter((q) => !q.satisfied);
+  const emailFor = (uid: string) => score.inputs.members.find((m) => m.userId === uid)?.email || uid;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+        <div className="text-sm font-semibold text-gray-900">Scorecard</div>
+        <span
+          className={clsx(
+            "rounded-full px-2.5 py-0.5 text-[11px] font-medium ring-1 ring-inset",
+            score.result === "pass"
+              ? "bg-emerald-50 text-emerald-800 ring-emerald-200"
+              : "bg-amber-50 text-amber-800 ring-amber-200"
+          )}
+        >
+          {score.result === "pass" ? "Pass" : "Flag"} · {score.score}
+        </span>
+      </div>
+      <div className="p-5 space-y-3 text-xs">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="rounded-md border border-gray-200 p-2">
+            <div className="text-[10px] text-gray-500">Household income</div>
+            <div className="font-semibold text-gray-900">{money(score.inputs.householdMonthlyIncomeCents)}/mo</div>
+          </div>
+          <div className="rounded-md border border-gray-200 p-2">
+            <div className="text-[10px] text-gray-500">Rent</div>
+            <div className="font-semibold text-gray-900">{money(score.inputs.monthlyRentCents)}/mo</div>
+          </div>
+          <div className="rounded-md border border-gray-200 p-2">
+            <div className="text-[10px] text-gray-500">Income ÷ rent</div>
+            <div
+              className={clsx(
+                "font-semibold",
+                score.incomeToRent != null && score.incomeToRent >= score.criteria.minIncomeToRent
+                  ? "text-emerald-700"
+                  : "text-rose-700"
+              )}
+            >
+              {score.incomeToRent == null ? "—" : `${score.incomeToRent.toFixed(2)}×`}
+            </div>
+            <div className="text-[10px] text-gray-500">min {score.criteria.minIncomeToRent}×</div>
+          </div>
+        </div>
+
+        <ul className="space-y-1">
+          {score.components.map((c) => (
+            <li key={c.key} className="flex items-center justify-between">
+              <span className="text-gray-700">
+                {COMPONENT_LABEL[c.key]} <span className="text-[10px] text-gray-400">weight {c.weight}</span>
+              </span>
+              <span className="font-mono text-gray-900">{c.value == null ? "n/a" : `${Math.round(c.value * 100)}%`}</span>
+            </li>
+          ))}
+        </ul>
+
+        {score.inputs.members.length > 0 && (
+          <div>
+            <div className="text-[11px] font-medium text-gray-900">Income by member</div>
+            <ul className="mt-1 space-y-0.5">
+              {score.inputs.members.map((m) => (
+                <li key={m.userId} className="flex justify-between text-gray-600">
+                  <span className="truncate">
+                    {m.email} <span className="text-[10px] text-gray-400">{m.role.replace("_", "-")}</span>
+                  </span>
+                  <span className={clsx("font-mono", !m.countedIncome && "text-gray-400 line-through")}>
+                    {money(m.monthlyIncomeCents)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {missing.length > 0 && (
+          <div>
+            <div className="text-[11px] font-medium text-gray-900">Missing qualifications</div>
+            <ul className="mt-1 space-y-0.5 text-gray-600">
+              {missing.map((q) => (
+                <li key={`${q.userId}:${q.qualificationId}`}>
+                  {q.title} · {emailFor(q.userId)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {score.flags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {score.flags.map((f) => (
+              <span key={f} className="rounded-full bg-amber-50 px-2 py-0.5 text-[10px] text-amber-800 ring-1 ring-amber-200">
+                {FLAG_LABEL[f] ?? f}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between border-t border-gray-100 pt-2 text-[10px] text-gray-500">
+          <span>
+            Criteria v{score.criteriaVersion} · scored <LocalTime iso={score.computedAt} tz={tz} />
+          </span>
+          <button type="button" onClick={recompute} disabled={busy} className="underline disabled:opacity-50">
+            {busy ? "Scoring…" : "Rescore"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+// app/landlord/reviews/[id]/ScreeningPanel.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import LocalTime from "@/app/components/Time";
+
+type ScreeningReport = {
+  id: string;
+  userId: string;
+  email: string | null;
+  qualificationId: string;
+  check: "credit" | "background" | "income";
+  provider: string;
+  status: "requested" | "pending" | "completed" | "failed";
+  error: string | null;
+  requestedAt: string;
+  completedAt: string | null;
+  result?: { outcome: "clear" | "review" | "adverse"; summary: string };
+};
+
+type ScreeningConsent = {
+  userId: string;
+  email: string | null;
+  fullName: string;
+  acceptedAt: string;
+  disclosureVersion: string;
+};
+
+const CHECK_LABELS: Record<ScreeningReport["check"], string> = {
+  credit: "Credit",
+  background: "Background",
+  income: "Income",
+};
+
+const OUTCOME_STYLES: Record<string, string> = {
+  clear: "bg-emerald-50 text-emerald-700 ring-emerald-200",
+  review: "bg-amber-50 text-amber-800 ring-amber-200",
+  adverse: "bg-rose-50 text-rose-700 ring-rose-200",
+};
+
+export default function ScreeningPanel({ appId, reloadKey = 0, tz }: { appId: string; reloadKey?: number; tz?: string }) {
+  const [data, setData] = useState<{ reports: ScreeningReport[]; consents: ScreeningConsent[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/screening`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!cancelled) setData(res.ok && j?.ok ? { reports: j.reports, consents: j.consents } : { reports: [], consents: [] });
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [appId, reloadKey]);
+
+  /** Latest report per member and qualification; older attempts are history */
+  const byMember = useMemo(() => {
+    const out = new Map<string, { consent: ScreeningConsent | null; reports: ScreeningReport[] }>();
+    const seen = new Set<string>();
+    for (const r of data?.reports ?? []) {
+      const key = `${r.userId}:${r.qualificationId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const k = r.email || r.userId;
+      const row = out.get(k) ?? { consent: null, reports: [] };
+      row.reports.push(r);
+      out.set(k, row);
+    }
+    for (const c of data?.consents ?? []) {
+      const k = c.email || c.userId;
+      const row = out.get(k) ?? { consent: null, reports: [] };
+      row.consent ??= c;
+      out.set(k, row);
+    }
+    return Array.from(out.entries());
+  }, [data]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+        <div className="text-sm font-semibold text-gray-900">Screening</div>
+        <span className="text-[11px] text-gray-500">{data?.reports.length ?? 0}</span>
+      </div>
+      <div className="p-5 space-y-3 text-xs">
+        {data === null ? (
+          <div className="text-gray-500">Loading…</div>
+        ) : byMember.length === 0 ? (
+          <div className="text-sm text-gray-600">No provider checks yet,</div>
+        ) : (
+          byMember.map(([member, row]) => (
+            <div key={member}>
+              <div className="text-[11px] font-medium text-gray-900 truncate">{member}</div>
+              <div className="text-[10px] text-gray-500">
+                {row.consent ? (
+                  <>
+                    Consent signed by {row.consent.fullName} · <LocalTime iso={row.consent.acceptedAt} tz={tz} />
+                  </>
+                ) : (
+                  "No consent on file"
+                )}
+              </div>
+              <ul className="mt-1 space-y-1">
+                {row.reports.map((r) => (
+                  <li key={r.id} className="rounded-md border border-gray-200 p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-900">{CHECK_LABELS[r.check]}</span>
+                      {r.result ? (
+                        <span className={"rounded-full px-2 py-0.5 text-[10px] ring-1 ring-inset " + OUTCOME_STYLES[r.result.outcome]}>
+                          {r.result.outcome}
+                        </span>
+                      ) : (
+                        <span className="text-[10px] text-gray-500">{r.status === "failed" ? `failed (${r.error ?? "error"})` : r.status}</span>
+                      )}
+                    </div>
+                    {r.result && <div className="mt-1 text-gray-700">{r.result.summary}</div>}
+                    <div className="mt-0.5 text-[10px] text-gray-500">
+                      via {r.provider} · <LocalTime iso={r.completedAt ?? r.requestedAt} tz={tz} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+        <p className="text-[10px] text-gray-500">Consumer report data, viewing is recorded,</p>
+      </div>
+    </div>
+  );
+}
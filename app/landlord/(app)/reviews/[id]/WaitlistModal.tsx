@@ -0,0 +1,96 @@
+// app/landlord/reviews/[id]/WaitlistModal.tsx
+"use client";
+
+import { useState } from "react";
+
+export type Competitor = { appId: string; label: string; rank: number | null; status: string };
+
+const ERRORS: Record<string, string> = {
+  forbidden: "Only owners and admins can waitlist applications,",
+  not_approved: "This application isn’t approved yet,",
+  no_unit: "This application has no unit on file,",
+};
+
+/** Offered right after an approval when other open applications want the same unit */
+export default function WaitlistModal({
+  appId,
+  competitors,
+  onClose,
+  onToast,
+}: {
+  appId: string;
+  competitors: Competitor[];
+  onClose: () => void;
+  onToast: (msg: string) => void;
+}) {
+  const [picked, setPicked] = useState<string[]>(() => competitors.map((c) => c.appId));
+  const [saving, setSaving] = useState(false);
+
+  function toggle(id: string) {
+    setPicked((ps) => (ps.includes(id) ? ps.filter((p) => p !== id) : [...ps, id]));
+  }
+
+  async function confirm() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/landlord/applications/${encodeURIComponent(appId)}/competitors`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ appIds: picked }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        onToast(ERRORS[j?.error] ?? `Couldn’t waitlist: ${j?.error ?? res.status},`);
+        return;
+      }
+      const moved: { notified: number; failed: number }[] = j.moved ?? [];
+      const failed = moved.reduce((n, m) => n + (m.failed || 0), 0);
+      onToast(
+        failed
+          ? `Waitlisted ${moved.length}, but ${failed} email(s) didn’t go out,`
+          : `Waitlisted ${moved.length}, households notified,`
+      );
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="absolute left-1/2 top-16 w-[92%] max-w-lg -translate-x-1/2 rounded-2xl bg-white shadow-xl ring-1 ring-gray-200">
+        <div className="border-b border-gray-100 px-5 py-3">
+          <div className="text-sm font-semibold text-gray-900">Waitlist the other applications?</div>
+          <div className="text-xs text-gray-600">
+            {competitors.length} other open application{competitors.length === 1 ? "" : "s"} for this unit; each household
+            you keep checked is moved to the waitlist and told by email,
+          </div>
+        </div>
+
+        <div className="max-h-[60vh] space-y-1.5 overflow-y-auto px-5 py-4 text-sm">
+          {competitors.map((c) => (
+            <label key={c.appId} className="flex items-center gap-2 text-gray-800">
+              <input type="checkbox" checked={picked.includes(c.appId)} onChange={() => toggle(c.appId)} />
+              {c.rank != null && <span className="text-xs text-gray-500">#{c.rank}</span>}
+              {c.label}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button onClick={onClose} className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-800">
+            Not now
+          </button>
+          <button
+            onClick={confirm}
+            disabled={saving || !picked.length}
+            className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-black disabled:opacity-50"
+          >
+            {saving ? "Waitlisting…" : `Waitlist ${picked.length}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+// app/landlord/settings/SettingsDesktop.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ApprovalPolicy = {
+  requireReviewerBeforeApprover: boolean;
+  fourEyes: boolean;
+  autoRejectThreshold?: number | null;
+};
+
+type Scorecard = {
+  version: number;
+  minIncomeToRent: number;
+  countCosignerIncome: boolean;
+  incomeQuestionIds?: string[] | null;
+  passScore: number;
+  weights: { income: number; qualifications: number; answers: number; members: number };
+  updatedAt?: string | null;
+};
+
+type Settings = { approvalPolicy: ApprovalPolicy; scorecard: Scorecard; blindReview: { enabled: boolean } };
+
+const WEIGHT_LABELS: Record<keyof Scorecard["weights"], string> = {
+  income: "Income to rent",
+  qualifications: "Qualifications provided",
+  answers: "Required answers",
+  members: "Members submitted",
+};
+
+const ERRORS: Record<string, string> = {
+  no_admin_membership: "Only firm owners and admins can change firm settings,",
+  ambiguous_firm: "You administer more than one firm; settings can’t be picked automatically,",
+  bad_auto_reject_threshold: "Auto-reject needs a whole number of reviewers between 1 and 20,",
+  bad_income_ratio: "Income to rent must be a number above 0 and at most 10,",
+  bad_pass_score: "Passing score must be a whole number from 0 to 100,",
+  bad_weight: "Weights must be whole numbers from 0 to 100,",
+  weights_all_zero: "At least one weight must be above 0,",
+};
+
+function ApprovalPolicyCard({
+  initial,
+  onToast,
+}: {
+  initial: ApprovalPolicy;
+  onToast: (msg: string) => void;
+}) {
+  const [form, setForm] = useState({
+    requireReviewerBeforeApprover: initial.requireReviewerBeforeApprover,
+    fourEyes: initial.fourEyes,
+    autoReject: initial.autoRejectThreshold != null,
+    threshold: String(initial.autoRejectThreshold ?? 2),
+  });
+  const [saving, setSaving] = useState(false);
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const r = await fetch("/api/landlord/firm/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          approvalPolicy: {
+            requireReviewerBeforeApprover: form.requireReviewerBeforeApprover,
+            fourEyes: form.fourEyes,
+            autoRejectThreshold: form.autoReject ? Number(form.threshold) : null,
+          },
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      onToast(r.ok && j?.ok ? "Approval policy saved," : ERRORS[j?.error] ?? `Save failed: ${j?.error ?? r.status},`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5">
+      <div className="text-sm font-semibold text-gray-900">Application approvals</div>
+      <div className="text-xs text-gray-600">
+        Any firm member can review an application; only owners and admins approve. These rules decide when an
+        approval is allowed.
+      </div>
+
+      <form onSubmit={onSave} className="mt-4 space-y-3 text-sm">
+        <label className="flex items-start gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            className="mt-0.5 h-3.5 w-3.5"
+            checked={form.requireReviewerBeforeApprover}
+            onChange={(e) => setForm((f) => ({ ...f, requireReviewerBeforeApprover: e.target.checked }))}
+            disabled={saving}
+          />
+          <span>
+            <span className="font-medium text-gray-900">Require a review before approval</span>
+            <span className="block text-[11px] text-gray-500">
+              The most recent review has to recommend approval. A “needs info” or “reject” review blocks approval
+              until someone reviews again.
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            className="mt-0.5 h-3.5 w-3.5"
+            checked={form.fourEyes}
+            onChange={(e) => setForm((f) => ({ ...f, fourEyes: e.target.checked }))}
+            disabled={saving}
+          />
+          <span>
+            <span className="font-medium text-gray-900">Four-eyes approval</span>
+            <span className="block text-[11px] text-gray-500">
+              The approver can’t approve on their own review; someone else must have recommended approval.
+            </span>
+          </span>
+        </label>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-3.5 w-3.5"
+              checked={form.autoReject}
+              onChange={(e) => setForm((f) => ({ ...f, autoReject: e.target.checked }))}
+              disabled={saving}
+            />
+            <span className="font-medium text-gray-900">Auto-reject when</span>
+          </label>
+          <input
+            className="w-16 rounded-md border border-gray-300 px-2 py-1 text-sm font-mono"
+            inputMode="numeric"
+            value={form.threshold}
+            onChange={(e) => setForm((f) => ({ ...f, threshold: e.target.value.replace(/\D/g, "") }))}
+            disabled={saving || !form.autoReject}
+          />
+          <span>different reviewers recommend rejection</span>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-md bg-gray-900 px-3 py-2 text-xs font-medium text-white hover:bg-black disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save policy"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function ScorecardCard({
+  initial,
+  onToast,
+}: {
+  initial: Scorecard;
+  onToast: (msg: string) => void;
+}) {
+  const [version, setVersion] = useState(initial.version);
+  const [form, setForm] = useState({
+    minIncomeToRent: String(initial.minIncomeToRent),
+    passScore: String(initial.passScore),
+    countCosignerIncome: initial.countCosignerIncome,
+    weights: Object.fromEntries(Object.entries(initial.weights).map(([k, v]) => [k, String(v)])) as Record<
+      keyof Scorecard["weights"],
+      string
+    >,
+  });
+  const [saving, setSaving] = useState(false);
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const r = await fetch("/api/landlord/firm/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scorecard: {
+            minIncomeToRent: Number(form.minIncomeToRent),
+            passScore: Number(form.passScore),
+            countCosignerIncome: form.countCosignerIncome,
+            incomeQuestionIds: initial.incomeQuestionIds ?? null,
+            weights: Object.fromEntries(Object.entries(form.weights).map(([k, v]) => [k, Number(v)])),
+          },
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      if (r.ok && j?.ok) {
+        setVersion(j.settings.scorecard.version);
+        onToast(`Scorecard saved as version ${j.settings.scorecard.version},`);
+      } else {
+        onToast(ERRORS[j?.error] ?? `Save failed: ${j?.error ?? r.status},`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-900">Screening scorecard</div>
+        <span className="text-[11px] text-gray-500">{version ? `Version ${version}` : "Defaults"}</span>
+      </div>
+      <div className="text-xs text-gray-600">
+        Applications are scored on submit and rescored when they change. Every score keeps the inputs and the
+        criteria version it used; saving here creates a new version.
+      </div>
+
+      <form onSubmit={onSave} className="mt-4 grid grid-cols-1 gap-3 text-sm md:grid-cols-2">
+        <div className="grid grid-cols-1 gap-1">
+          <label className="text-xs text-gray-700">Minimum household income ÷ rent</label>
+          <input
+            className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono"
+            inputMode="decimal"
+            value={form.minIncomeToRent}
+            onChange={(e) => setForm((f) => ({ ...f, minIncomeToRent: e.target.value.replace(/[^\d.]/g, "") }))}
+            disabled={saving}
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-1">
+          <label className="text-xs text-gray-700">Passing score (0–100)</label>
+          <input
+            className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm font-mono"
+            inputMode="numeric"
+            value={form.passScore}
+            onChange={(e) => setForm((f) => ({ ...f, passScore: e.target.value.replace(/\D/g, "") }))}
+            disabled={saving}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-700 md:col-span-2">
+          <input
+            type="checkbox"
+            className="h-3.5 w-3.5"
+            checked={form.countCosignerIncome}
+            onChange={(e) => setForm((f) => ({ ...f, countCosignerIncome: e.target.checked }))}
+            disabled={saving}
+          />
+          Count cosigner income toward the household
+        </label>
+
+        <div className="md:col-span-2">
+          <div className="text-xs font-medium text-gray-900">Weights</div>
+          <div className="mt-1 grid grid-cols-2 gap-2 md:grid-cols-4">
+            {(Object.keys(WEIGHT_LABELS) as (keyof Scorecard["weights"])[]).map((k) => (
+              <label key={k} className="grid grid-cols-1 gap-1 text-[11px] text-gray-700">
+                {WEIGHT_LABELS[k]}
+                <input
+                  className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm font-mono"
+                  inputMode="numeric"
+                  value={form.weights[k]}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, weights: { ...f.weights, [k]: e.target.value.replace(/\D/g, "") } }))
+                  }
+                  disabled={saving}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-[11px] text-gray-500">
+            Income is read from currency questions labelled as income. An application passes when its score
+            reaches the passing score and income meets the minimum.
+          </p>
+        </div>
+
+        <div className="flex justify-end md:col-span-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-md bg-gray-900 px-3 py-2 text-xs font-medium text-white hover:bg-black disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save scorecard"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function BlindReviewCard({
+  initial,
+  onToast,
+}: {
+  initial: { enabled: boolean };
+  onToast: (msg: string) => void;
+}) {
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [saving, setSaving] = useState(false);
+
+  async function onToggle(next: boolean) {
+    setSaving(true);
+    try {
+      const r = await fetch("/api/landlord/firm/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blindReview: { enabled: next } }),
+      });
+      const j = await r.json().catch(() => null);
+      if (r.ok && j?.ok) {
+        setEnabled(!!j.settings.blindReview?.enabled);
+        onToast(next ? "Blind review turned on," : "Blind review turned off,");
+      } else {
+        onToast(ERRORS[j?.error] ?? `Save failed: ${j?.error ?? r.status},`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5">
+      <div className="text-sm font-semibold text-gray-900">Blind review</div>
+      <div className="text-xs text-gray-600">
+        Reviewers make the first pass without protected-class signals. Names, emails, dates of birth, photos and
+        answers to questions marked sensitive in the form builder stay hidden until someone records a
+        recommendation; after that each one can be revealed, and every reveal is logged.
+      </div>
+      <label className="mt-4 flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          className="h-3.5 w-3.5"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          disabled={saving}
+        />
+        <span className="font-medium text-gray-900">Hide applicant identity until the first recommendation</span>
+      </label>
+    </div>
+  );
+}
+
+export default function SettingsDesktop() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const r = await fetch("/api/landlord/firm/settings", { cache: "no-store" });
+        const j = await r.json().catch(() => null);
+        if (r.ok && j?.ok) setSettings(j.settings);
+        else setError(ERRORS[j?.error] ?? `Couldn’t load settings: ${j?.error ?? r.status},`);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {loading ? (
+        <div className="text-xs text-gray-600">Loading settings…</div>
+      ) : error || !settings ? (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">{error}</div>
+      ) : (
+        <>
+          <ApprovalPolicyCard initial={settings.approvalPolicy} onToast={setToast} />
+          <ScorecardCard initial={settings.scorecard} onToast={setToast} />
+          <BlindReviewCard initial={settings.blindReview} onToast={setToast} />
+        </>
+      )}
+
+      {toast && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
+          <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
+            {toast}{" "}
+            <button className="ml-3 underline" onClick={() => setToast(null)}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
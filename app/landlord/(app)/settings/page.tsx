@@ -0,0 +1,20 @@
+// app/landlord/settings/page.tsx
+import SettingsDesktop from "./SettingsDesktop";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function SettingsPage() {
+  return (
+    <main className="mx-auto w-full max-w-[1100px] px-4 sm:px-6 pb-8">
+      {/* Header */}
+      <div className="mt-4 mb-4">
+        <h1 className="text-base font-semibold text-gray-900">Firm settings</h1>
+        <p className="text-xs text-gray-600">Policies that apply to every application and lease at your firm.</p>
+      </div>
+
+      <SettingsDesktop />
+    </main>
+  );
+}
@@ -0,0 +1,433 @@
+// app/landlord/units/UnitsDesktop.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+export type Occupancy = { status: "occupied" | "upcoming" | "vacant"; leaseId: string | null; until: string | null };
+
+export type Unit = {
+  id: string;
+  propertyId: string;
+  unitNumber: string;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  rentCents: number | null;
+  amenities: string[];
+  photos: { key: string; url: string; caption: string | null }[];
+  archived: boolean;
+  occupancy?: Occupancy;
+};
+
+export type Property = {
+  id: string;
+  name: string;
+  address: { line1: string; line2?: string | null; city: string; state: string; zip: string };
+  addressLine: string;
+  archived: boolean;
+  units: Unit[];
+};
+
+export const ERRORS: Record<string, string> = {
+  invalid_address: "Enter a street, city, 2-letter state and 5-digit ZIP,",
+  duplicate_address: "That building is already in your inventory",
+  duplicate_unit: "That unit already exists in this building,",
+  invalid_beds: "Bedrooms must be a whole number,",
+  invalid_baths: "Bathrooms must be in halves (1, 1.5, 2…),",
+  invalid_sqft: "Square feet must be a whole number,",
+  invalid_rentCents: "Enter a valid rent,",
+  too_many_amenities: "That’s too many amenities,",
+  no_admin_membership: "Only firm owners and admins can edit the inventory,",
+};
+
+const OCCUPANCY_STYLE: Record<Occupancy["status"], string> = {
+  occupied: "bg-emerald-50 text-emerald-700 ring-emerald-200",
+  upcoming: "bg-blue-50 text-blue-700 ring-blue-200",
+  vacant: "bg-gray-100 text-gray-700 ring-gray-200",
+};
+
+export function OccupancyChip({ occupancy }: { occupancy?: Occupancy }) {
+  if (!occupancy) return null;
+  const label =
+    occupancy.status === "occupied"
+      ? `Occupied${occupancy.until ? ` until ${occupancy.until}` : ""}`
+      : occupancy.status === "upcoming"
+      ? `Leased from ${occupancy.until ?? "—"}`
+      : "Vacant";
+  return (
+    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] ring-1 ${OCCUPANCY_STYLE[occupancy.status]}`}>
+      {label}
+    </span>
+  );
+}
+
+export const money = (cents: number | null) =>
+  cents == null ? "—" : `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+export const toCentsOrNull = (s: string) => (s.trim() === "" ? null : Math.round(Number(s) * 100));
+export const numOrNull = (s: string) => (s.trim() === "" ? null : Number(s));
+
+function Toast({ text, onClose }: { text: string; onClose: () => void }) {
+  if (!text) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2">
+      <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
+        {text}{" "}
+        <button className="ml-3 underline underline-offset-2" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const inputCls = "mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs";
+
+export default function UnitsDesktop() {
+  const searchParams = useSearchParams();
+  const firmId = searchParams.get("firmId") || undefined;
+  const qs = firmId ? `?firmId=${encodeURIComponent(firmId)}` : "";
+
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  // new building
+  const [adding, setAdding] = useState(false);
+  const [pName, setPName] = useState("");
+  const [line1, setLine1] = useState("");
+  const [line2, setLine2] = useState("");
+  const [city, setCity] = useState("");
+  const [stateCode, setStateCode] = useState("");
+  const [zip, setZip] = useState("");
+
+  // new unit (one building at a time)
+  const [unitFor, setUnitFor] = useState<string | null>(null);
+  const [unitNumber, setUnitNumber] = useState("");
+  const [beds, setBeds] = useState("");
+  const [baths, setBaths] = useState("");
+  const [sqft, setSqft] = useState("");
+  const [rent, setRent] = useState("");
+  const [amenities, setAmenities] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/landlord/properties${qs}`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (res.ok && j?.ok) setProperties(j.properties);
+    } finally {
+      setLoading(false);
+    }
+  }, [qs]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, method: string, body: any, okMsg: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        const base = ERRORS[j?.error] ?? `Couldn’t save: ${j?.error ?? res.status},`;
+        setToast(j?.error === "duplicate_address" && j?.property ? `${base}: ${j.property.name},` : base);
+        return null;
+      }
+      setToast(okMsg);
+      await load();
+      return j;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addProperty() {
+    const j = await send(
+      "/api/landlord/properties",
+      "POST",
+      { name: pName, address: { line1, line2, city, state: stateCode, zip } },
+      "Building added,"
+    );
+    if (!j) return;
+    setAdding(false);
+    setPName("");
+    setLine1("");
+    setLine2("");
+    setCity("");
+    setStateCode("");
+    setZip("");
+  }
+
+  function openUnitForm(propertyId: string | null) {
+    setUnitFor(propertyId);
+    setUnitNumber("");
+    setBeds("");
+    setBaths("");
+    setSqft("");
+    setRent("");
+    setAmenities("");
+  }
+
+  async function addUnit(propertyId: string) {
+    const j = await send(
+      `/api/landlord/properties/${encodeURIComponent(propertyId)}/units`,
+      "POST",
+      {
+        unitNumber,
+        beds: numOrNull(beds),
+        baths: numOrNull(baths),
+        sqft: numOrNull(sqft),
+        rentCents: toCentsOrNull(rent),
+        amenities: amenities.split(",").map((a) => a.trim()).filter(Boolean),
+      },
+      "Unit added,"
+    );
+    if (j) openUnitForm(null);
+  }
+
+  async function importExisting() {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/landlord/units/import", { method: "POST" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(ERRORS[j?.error] ?? `Couldn’t import: ${j?.error ?? res.status},`);
+        return;
+      }
+      setToast(
+        `Linked ${j.leasesLinked} lease(s) and ${j.applicationsLinked} application(s)${j.skipped ? `, ${j.skipped} without a full address` : ""},`
+      );
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const unitHref = (id: string) => `/landlord/units/${encodeURIComponent(id)}${qs}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Link
+          href={`/landlord/units/calendar${qs}`}
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50"
+        >
+          Calendar
+        </Link>
+        <button
+          type="button"
+          onClick={importExisting}
+          disabled={busy}
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50 disabled:opacity-50"
+          title="Create buildings and units from the addresses on your leases and applications"
+        >
+          Import from leases
+        </button>
+        <button
+          type="button"
+          onClick={() => setAdding((v) => !v)}
+          className="rounded-md bg-gray-900 px-3 py-2 text-xs font-medium text-white hover:bg-black"
+        >
+          Add building
+        </button>
+      </div>
+
+      {adding && (
+        <section className="rounded-xl border border-gray-200 bg-white p-5">
+          <div className="text-sm font-semibold text-gray-900">New building</div>
+          <p className="mt-1 text-xs text-gray-600">
+            Addresses are normalized, so “12 Main Street” and “12 MAIN ST” are the same building,
+          </p>
+          <div className="mt-3 grid grid-cols-6 gap-3">
+            <label className="col-span-6 block text-xs text-gray-900 sm:col-span-2">
+              Name (optional)
+              <input className={inputCls} value={pName} onChange={(e) => setPName(e.target.value)} />
+            </label>
+            <label className="col-span-6 block text-xs text-gray-900 sm:col-span-3">
+              Street address
+              <input className={inputCls} value={line1} onChange={(e) => setLine1(e.target.value)} />
+            </label>
+            <label className="col-span-6 block text-xs text-gray-900 sm:col-span-1">
+              Line 2
+              <input className={inputCls} value={line2} onChange={(e) => setLine2(e.target.value)} />
+            </label>
+            <label className="col-span-3 block text-xs text-gray-900 sm:col-span-3">
+              City
+              <input className={inputCls} value={city} onChange={(e) => setCity(e.target.value)} />
+            </label>
+            <label className="col-span-1 block text-xs text-gray-900">
+              State
+              <input className={inputCls} maxLength={2} value={stateCode} onChange={(e) => setStateCode(e.target.value.toUpperCase())} />
+            </label>
+            <label className="col-span-2 block text-xs text-gray-900">
+              ZIP
+              <input className={inputCls} value={zip} onChange={(e) => setZip(e.target.value)} />
+            </label>
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setAdding(false)}
+              className="rounded-md border border-gray-300 bg-white px-3 py-2 text-xs font-medium text-gray-900 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={addProperty}
+              disabled={busy}
+              className="rounded-md bg-emerald-600 px-3 py-2 text-xs font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {busy ? "Saving…" : "Add building"}
+            </button>
+          </div>
+        </section>
+      )}
+
+      {loading ? (
+        <div className="text-xs text-gray-600">Loading…</div>
+      ) : properties.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-gray-200 bg-gray-50 p-4 text-xs text-gray-600">
+          No buildings yet. Add one, or import the addresses from your existing leases.
+        </div>
+      ) : (
+        properties.map((p) => {
+          const occupied = p.units.filter((u) => u.occupancy?.status === "occupied").length;
+          return (
+            <section key={p.id} className="rounded-xl border border-gray-200 bg-white p-5 text-sm">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">{p.name}</div>
+                  <div className="text-xs text-gray-600">{p.addressLine}</div>
+                  <div className="mt-1 text-[11px] text-gray-500">
+                    {p.units.length} unit{p.units.length === 1 ? "" : "s"} • {occupied} occupied
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => openUnitForm(unitFor === p.id ? null : p.id)}
+                    className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-gray-900 ring-1 ring-gray-300 hover:bg-gray-50"
+                  >
+                    Add unit
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => {
+                      if (!confirm(`Archive “${p.name}” and its units? Leases keep their address.`)) return;
+                      send(`/api/landlord/properties/${encodeURIComponent(p.id)}`, "PATCH", { archived: true }, "Building archived,");
+                    }}
+                    className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-rose-700 ring-1 ring-rose-200 hover:bg-rose-50 disabled:opacity-50"
+                  >
+                    Archive
+                  </button>
+                </div>
+              </div>
+
+              {unitFor === p.id && (
+                <div className="mt-3 grid grid-cols-6 gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3">
+                  <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+                    Unit #
+                    <input className={inputCls} value={unitNumber} onChange={(e) => setUnitNumber(e.target.value)} placeholder="3B" />
+                  </label>
+                  <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+                    Beds
+                    <input className={inputCls} inputMode="numeric" value={beds} onChange={(e) => setBeds(e.target.value)} />
+                  </label>
+                  <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+                    Baths
+                    <input className={inputCls} inputMode="decimal" value={baths} onChange={(e) => setBaths(e.target.value)} />
+                  </label>
+                  <label className="col-span-3 block text-xs text-gray-900 sm:col-span-1">
+                    Sq ft
+                    <input className={inputCls} inputMode="numeric" value={sqft} onChange={(e) => setSqft(e.target.value)} />
+                  </label>
+                  <label className="col-span-3 block text-xs text-gray-900 sm:col-span-2">
+                    Asking rent ($/mo)
+                    <input className={inputCls} inputMode="decimal" value={rent} onChange={(e) => setRent(e.target.value)} />
+                  </label>
+                  <label className="col-span-6 block text-xs text-gray-900">
+                    Amenities (comma separated)
+                    <input
+                      className={inputCls}
+                      value={amenities}
+                      onChange={(e) => setAmenities(e.target.value)}
+                      placeholder="In-unit laundry, Dishwasher, Parking"
+                    />
+                  </label>
+                  <div className="col-span-6 flex justify-end gap-2">
+                    <span className="mr-auto self-center text-[11px] text-gray-500">Leave the unit # blank for a single-family building,</span>
+                    <button
+                      type="button"
+                      onClick={() => openUnitForm(null)}
+                      className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-900 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => addUnit(p.id)}
+                      disabled={busy}
+                      className="rounded-md bg-emerald-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      Add unit
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {p.units.length > 0 && (
+                <table className="mt-3 min-w-full text-left text-xs">
+                  <thead className="text-[11px] uppercase tracking-wide text-gray-500">
+                    <tr>
+                      <th className="py-1.5 pr-3">Unit</th>
+                      <th className="py-1.5 pr-3">Beds / baths</th>
+                      <th className="py-1.5 pr-3">Sq ft</th>
+                      <th className="py-1.5 pr-3">Rent</th>
+                      <th className="py-1.5 pr-3">Amenities</th>
+                      <th className="py-1.5 pr-3">Status</th>
+                      <th className="py-1.5" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {p.units.map((u) => (
+                      <tr key={u.id} className="border-t border-gray-100">
+                        <td className="py-2 pr-3 font-medium text-gray-900">{u.unitNumber || "Whole building"}</td>
+                        <td className="py-2 pr-3 text-gray-700">
+                          {u.beds ?? "—"} / {u.baths ?? "—"}
+                        </td>
+                        <td className="py-2 pr-3 text-gray-700">{u.sqft ?? "—"}</td>
+                        <td className="py-2 pr-3 text-gray-700">{money(u.rentCents)}</td>
+                        <td className="py-2 pr-3 text-gray-700">{u.amenities.length ? u.amenities.join(", ") : "—"}</td>
+                        <td className="py-2 pr-3">
+                          <OccupancyChip occupancy={u.occupancy} />
+                        </td>
+                        <td className="py-2 text-right">
+                          <Link href={unitHref(u.id)} className="text-[11px] font-medium text-blue-600 hover:underline">
+                            Open
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          );
+        })
+      )}
+
+      <Toast text={toast || ""} onClose={() => setToast(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+// app/landlord/units/[id]/UnitDetailDesktop.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { ERRORS, OccupancyChip, money, numOrNull, toCentsOrNull, type Property, type Unit } from "../UnitsDesktop";
+
+type History = {
+  leases: { id: string; appId: string | null; status: string; moveInDate: string | null; moveOutDate: string | null; monthlyRent: number | null }[];
+  applications: { id: string; status: string; label: string; submittedAt: string | null }[];
+};
+
+const PHOTO_ERRORS: Record<string, string> = {
+  unsupported_type: "Photos must be JPEG, PNG or WebP,",
+  too_many_photos: "This unit already has the maximum number of photos,",
+  missing_s3_bucket: "Photo storage isn’t configured,",
+};
+
+const formatDate = (s?: string | null) => {
+  if (!s) return "—";
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? s : d.toLocaleDateString();
+};
+
+function Toast({ text, onClose }: { text: string; onClose: () => void }) {
+  if (!text) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2">
+      <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
+        {text}{" "}
+        <button className="ml-3 underline underline-offset-2" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const inputCls = "mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-xs";
+
+export default function UnitDetailDesktop({ unitId }: { unitId: string }) {
+  const searchParams = useSearchParams();
+  const firmId = searchParams.get("firmId") || undefined;
+  const qs = firmId ? `?firmId=${encodeURIComponent(firmId)}` : "";
+  const api = `/api/landlord/units/${encodeURIComponent(unitId)}`;
+
+  const [unit, setUnit] = useState<Unit | null>(null);
+  const [property, setProperty] = useState<Omit<Property, "units"> | null>(null);
+  const [history, setHistory] = useState<History | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const [unitNumber, setUnitNumber] = useState("");
+  const [beds, setBeds] = useState("");
+  const [baths, setBaths] = useState("");
+  const [sqft, setSqft] = useState("");
+  const [rent, setRent] = useState("");
+  const [amenities, setAmenities] = useState("");
+
+  const fill = useCallback((u: Unit) => {
+    setUnit(u);
+    setUnitNumber(u.unitNumber);
+    setBeds(u.beds == null ? "" : String(u.beds));
+    setBaths(u.baths == null ? "" : String(u.baths));
+    setSqft(u.sqft == null ? "" : String(u.sqft));
+    setRent(u.rentCents == null ? "" : String(u.rentCents / 100));
+    setAmenities(u.amenities.join(", "));
+  }, []);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`${api}${qs}`, { cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      setError(j?.error ?? `HTTP ${res.status}`);
+      return;
+    }
+    fill(j.unit);
+    setProperty(j.property);
+    setHistory(j.history);
+  }, [api, qs, fill]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function patch(body: any, okMsg: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(api, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(ERRORS[j?.error] ?? `Couldn’t save: ${j?.error ?? res.status},`);
+        return;
+      }
+      fill(j.unit);
+      setToast(okMsg);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function save() {
+    patch(
+      {
+        unitNumber,
+        beds: numOrNull(beds),
+        baths: numOrNull(baths),
+        sqft: numOrNull(sqft),
+        rentCents: toCentsOrNull(rent),
+        amenities: amenities.split(",").map((a) => a.trim()).filter(Boolean),
+      },
+      "Unit saved,"
+    );
+  }
+
+  async function uploadPhoto(file: File) {
+    setBusy(true);
+    try {
+      const init = await fetch(`${api}/photos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contentType: file.type }),
+      });
+      const ij = await init.json().catch(() => null);
+      if (!init.ok || !ij?.ok) {
+        setToast(PHOTO_ERRORS[ij?.error] ?? ERRORS[ij?.error] ?? `Couldn’t upload: ${ij?.error ?? init.status},`);
+        return;
+      }
+      const put = await fetch(ij.putUrl, { method: "PUT", headers: { "Content-Type": file.type }, body: file });
+      if (!put.ok) {
+        setToast(`Upload failed: ${put.status},`);
+        return;
+      }
+      const res = await fetch(`${api}/photos`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: ij.key }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setToast(PHOTO_ERRORS[j?.error] ?? `Couldn’t attach photo: ${j?.error ?? res.status},`);
+        return;
+      }
+      // the attach response has no occupancy; keep the one we have
+      setUnit((u) => (u ? { ...j.unit, occupancy: u.occupancy } : j.unit));
+      setToast("Photo added,");
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function removePhoto(key: string) {
+    if (!unit) return;
+    patch({ photos: unit.photos.filter((p) => p.key !== key).map((p) => ({ key: p.key, caption: p.caption })) }, "Photo removed,");
+  }
+
+  if (error) {
+    return (
+      <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-900">
+        Couldn’t load this unit: {error},
+      </div>
+    );
+  }
+  if (!unit || !property || !history) return <div className="mt-4 text-sm text-gray-600">Loading…</div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="mt-4 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <Link href={`/landlord/units${qs}`} className="text-[11px] text-gray-600 hover:underline">
+            ← Units
+          </Link>
+          <h1 className="text-base font-semibold text-gray-900">
+            {property.name}
+            {unit.unitNumber ? ` · Unit ${unit.unitNumber}` : ""}
+          </h1>
+          <p className="text-xs text-gray-600">{property.addressLine}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <OccupancyChip occupancy={unit.occupancy} />
+          <Link
+            href={`/landlord/units/calendar?unitId=${encodeURIComponent(unitId)}${firmId ? `&firmId=${encodeURIComponent(firmId)}` : ""}`}
+            className="text-[11px] font-medium text-blue-600 hover:underline"
+          >
+            Calendar
+          </Link>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-gray-200 bg-white p-5">
+        <div className="text-sm font-semibold text-gray-900">Details</div>
+        <div className="mt-3 grid grid-cols-6 gap-3">
+          <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+            Unit #
+            <input className={inputCls} value={unitNumber} onChange={(e) => setUnitNumber(e.target.value)} />
+          </label>
+          <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+            Beds
+            <input className={inputCls} inputMode="numeric" value={beds} onChange={(e) => setBeds(e.target.value)} />
+          </label>
+          <label className="col-span-2 block text-xs text-gray-900 sm:col-span-1">
+            Baths
+            <input className={inputCls} inputMode="decimal" value={baths} onChange={(e) => setBaths(e.target.value)} />
+          </label>
+          <label className="col-span-3 block text-xs text-gray-900 sm:col-span-1">
+            Sq ft
+            <input className={inputCls} inputMode="numeric" value={sqft} onChange={(e) => setSqft(e.target.value)} />
+          </label>
+          <label className="col-span-3 block text-xs text-gray-900 sm:col-span-2">
+            Asking rent ($/mo)
+            <input className={inputCls} inputMode="decimal" value={rent} onChange={(e) => setRent(e.target.value)} />
+          </label>
+          <label className="col-span-6 block text-xs text-gray-900">
+            Amenities (comma separated)
+            <input className={inputCls} value={amenities} onChange={(e) => setAmenities(e.target.value)} />
+          </label>
+        </div>
+        <div className="mt-3 flex justify-end gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => {
+              if (!confirm("Archive this unit? It disappears from the inventory; its leases keep their address.")) return;
+              patch({ archived: true }, "Unit archived,");
+            }}
+            className="rounded-md bg-white px-3 py-2 text-xs font-medium text-rose-700 ring-1 ring-rose-200 hover:bg-rose-50 disabled:opacity-50"
+          >
+            Archive
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={busy}
+            className="rounded-md bg-emerald-600 px-3 py-2 text-xs font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {busy ? "Saving…" : "Save unit"}
+          </button>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-gray-200 bg-white p-5">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold text-gray-900">Photos</div>
+          <label className="cursor-pointer rounded-md border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-900 hover:bg-gray-50">
+            Add photo
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              disabled={busy}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) uploadPhoto(f);
+              }}
+            />
+          </label>
+        </div>
+        {unit.photos.length === 0 ? (
+          <div className="mt-3 rounded-lg border border-dashed border-gray-200 bg-gray-50 p-4 text-xs text-gray-600">No photos yet.</div>
+        ) : (
+          <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {unit.photos.map((p) => (
+              <figure key={p.key} className="overflow-hidden rounded-lg border border-gray-200">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={p.url} alt={p.caption ?? "Unit photo"} className="h-32 w-full object-cover" />
+                <figcaption className="flex items-center justify-between gap-2 px-2 py-1 text-[11px] text-gray-600">
+                  <span className="truncate">{p.caption ?? ""}</span>
+                  <button type="button" disabled={busy} onClick={() => removePhoto(p.key)} className="text-rose-700 hover:underline">
+                    Remove
+                  </button>
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-xl border border-gray-200 bg-white p-5">
+        <div className="text-sm font-semibold text-gray-900">Lease history</div>
+        {history.leases.length === 0 ? (
+          <div className="mt-2 text-xs text-gray-600">No leases linked to this unit yet.</div>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-100 rounded-lg border border-gray-200 text-xs">
+            {history.leases.map((l) => (
+              <li key={l.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {l.moveInDate ?? "—"} → {l.moveOutDate ?? "open-ended"}
+                  </div>
+                  <div className="text-[11px] text-gray-500">
+                    {l.status} • {money(l.monthlyRent)}/mo
+                  </div>
+                </div>
+                <Link href={`/landlord/leases/${encodeURIComponent(l.id)}/overview${qs}`} className="text-[11px] font-medium text-blue-600 hover:underline">
+                  Lease overview
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-xl border border-gray-200 bg-white p-5">
+        <div className="text-sm font-semibold text-gray-900">Applications</div>
+        {history.applications.length === 0 ? (
+          <div className="mt-2 text-xs text-gray-600">No applications linked to this unit yet.</div>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-100 rounded-lg border border-gray-200 text-xs">
+            {history.applications.map((a) => (
+              <li key={a.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                <div>
+                  <div className="font-medium text-gray-900">{a.label}</div>
+                  <div className="text-[11px] text-gray-500">
+                    {a.status} • {formatDate(a.submittedAt)}
+                  </div>
+                </div>
+                <Link href={`/landlord/reviews/${encodeURIComponent(a.id)}${qs}`} className="text-[11px] font-medium text-blue-600 hover:underline">
+                  Review
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <Toast text={toast || ""} onClose={() => setToast(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// app/landlord/units/[id]/page.tsx
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+import UnitDetailDesktop from "./UnitDetailDesktop";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function UnitPage({ params }: { params: Promise<{ id?: string | string[] }> }) {
+  const { id: raw } = await params;
+  const unitId = Array.isArray(raw) ? raw[0] : raw;
+  if (!unitId || unitId === "undefined") notFound();
+
+  return (
+    <main className="mx-auto w-full max-w-[1100px] px-4 sm:px-6 pb-8">
+      <Suspense fallback={<div className="mt-4 text-sm text-gray-500">Loading…</div>}>
+        <UnitDetailDesktop unitId={unitId} key={unitId} />
+      </Suspense>
+    </main>
+  );
+}
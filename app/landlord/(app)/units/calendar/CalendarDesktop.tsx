@@ -0,0 +1,243 @@
+// app/landlord/units/calendar/CalendarDesktop.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type Segment = {
+  kind: "occupied" | "held" | "vacant";
+  start: string;
+  end: string;
+  leaseId: string | null;
+  appId: string | null;
+};
+
+type Row = {
+  id: string;
+  unitNumber: string;
+  propertyId: string;
+  propertyName: string;
+  segments: Segment[];
+};
+
+const SEGMENT_STYLE: Record<Segment["kind"], string> = {
+  occupied: "bg-emerald-500/80 hover:bg-emerald-600",
+  held: "bg-amber-400/80 hover:bg-amber-500",
+  vacant: "bg-gray-100",
+};
+
+const SEGMENT_LABEL: Record<Segment["kind"], string> = {
+  occupied: "Leased",
+  held: "Held",
+  vacant: "Vacant",
+};
+
+const DAY_MS = 86_400_000;
+const dayNum = (ymd: string) => Date.parse(`${ymd}T00:00:00Z`) / DAY_MS;
+
+function addMonths(ymd: string, months: number) {
+  const [y, m] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1 + months, 1)).toISOString().slice(0, 10);
+}
+
+const monthLabel = (ymd: string) =>
+  new Date(`${ymd}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" });
+
+export default function CalendarDesktop() {
+  const searchParams = useSearchParams();
+  const firmId = searchParams.get("firmId") || undefined;
+  const unitId = searchParams.get("unitId") || undefined;
+  const qs = firmId ? `?firmId=${encodeURIComponent(firmId)}` : "";
+
+  const today = new Date().toISOString().slice(0, 10);
+  const [from, setFrom] = useState(`${today.slice(0, 7)}-01`);
+  const [months, setMonths] = useState(6);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const p = new URLSearchParams({ from, months: String(months) });
+      if (firmId) p.set("firmId", firmId);
+      if (unitId) p.set("unitId", unitId);
+      const res = await fetch(`/api/landlord/units/availability?${p}`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setError(`Couldn’t load availability: ${j?.error ?? res.status},`);
+        return;
+      }
+      setRows(j.units);
+      setRange({ from: j.from, to: j.to });
+    } finally {
+      setLoading(false);
+    }
+  }, [from, months, firmId, unitId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Month boundaries across the visible range, as offsets for the header
+  const monthTicks = useMemo(() => {
+    if (!range) return [];
+    const total = dayNum(range.to) - dayNum(range.from);
+    const ticks: { label: string; left: number; width: number }[] = [];
+    for (let m = range.from; m < range.to; m = addMonths(m, 1)) {
+      const next = addMonths(m, 1) < range.to ? addMonths(m, 1) : range.to;
+      ticks.push({
+        label: monthLabel(m),
+        left: ((dayNum(m) - dayNum(range.from)) / total) * 100,
+        width: ((dayNum(next) - dayNum(m)) / total) * 100,
+      });
+    }
+    return ticks;
+  }, [range]);
+
+  const pos = (s: Segment) => {
+    if (!range) return { left: "0%", width: "0%" };
+    const total = dayNum(range.to) - dayNum(range.from);
+    return {
+      left: `${((dayNum(s.start) - dayNum(range.from)) / total) * 100}%`,
+      width: `${((dayNum(s.end) - dayNum(s.start)) / total) * 100}%`,
+    };
+  };
+
+  const todayLeft =
+    range && today >= range.from && today < range.to
+      ? `${((dayNum(today) - dayNum(range.from)) / (dayNum(range.to) - dayNum(range.from))) * 100}%`
+      : null;
+
+  const hrefFor = (s: Segment) =>
+    s.kind === "occupied" && s.leaseId
+      ? `/landlord/leases/${encodeURIComponent(s.leaseId)}/overview${qs}`
+      : s.kind === "held" && s.appId
+      ? `/landlord/reviews/${encodeURIComponent(s.appId)}${qs}`
+      : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Link href={`/landlord/units${qs}`} className="text-[11px] text-gray-600 hover:underline">
+            ← Units
+          </Link>
+          {unitId && (
+            <Link href={`/landlord/units/calendar${qs}`} className="text-[11px] font-medium text-blue-600 hover:underline">
+              Show all units
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setFrom((f) => addMonths(f, -1))}
+            className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-xs text-gray-900 hover:bg-gray-50"
+            aria-label="Previous month"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            onClick={() => setFrom(`${today.slice(0, 7)}-01`)}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-xs text-gray-900 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => setFrom((f) => addMonths(f, 1))}
+            className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-xs text-gray-900 hover:bg-gray-50"
+            aria-label="Next month"
+          >
+            ›
+          </button>
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-xs"
+          >
+            <option value={3}>3 months</option>
+            <option value={6}>6 months</option>
+            <option value={12}>12 months</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 text-[11px] text-gray-600">
+        {(["occupied", "held", "vacant"] as const).map((k) => (
+          <span key={k} className="inline-flex items-center gap-1">
+            <span className={`inline-block h-2.5 w-4 rounded-sm ${SEGMENT_STYLE[k]}`} />
+            {SEGMENT_LABEL[k]}
+          </span>
+        ))}
+      </div>
+
+      {error && <div className="rounded-md border border-rose-200 bg-rose-50 p-3 text-xs text-rose-800">{error}</div>}
+
+      <section className="rounded-xl border border-gray-200 bg-white p-5">
+        {loading && !rows.length ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : !rows.length ? (
+          <div className="text-xs text-gray-600">
+            No units yet, add buildings and units on the{" "}
+            <Link href={`/landlord/units${qs}`} className="text-blue-600 hover:underline">
+              Units
+            </Link>{" "}
+            page.
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex">
+              <div className="w-48 shrink-0" />
+              <div className="relative h-5 flex-1">
+                {monthTicks.map((t) => (
+                  <div
+                    key={t.label}
+                    className="absolute top-0 h-full border-l border-gray-200 pl-1 text-[10px] text-gray-500"
+                    style={{ left: `${t.left}%`, width: `${t.width}%` }}
+                  >
+                    {t.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {rows.map((r) => (
+              <div key={r.id} className="flex items-center">
+                <div className="w-48 shrink-0 truncate pr-3 text-xs">
+                  <Link
+                    href={`/landlord/units/${encodeURIComponent(r.id)}${qs}`}
+                    className="font-medium text-gray-900 hover:underline"
+                  >
+                    {r.propertyName}
+                    {r.unitNumber ? ` · ${r.unitNumber}` : ""}
+                  </Link>
+                </div>
+                <div className="relative h-6 flex-1 overflow-hidden rounded bg-gray-50">
+                  {r.segments.map((s, i) => {
+                    const href = hrefFor(s);
+                    const title = `${SEGMENT_LABEL[s.kind]} ${s.start} → ${s.end}`;
+                    const cls = `absolute top-0 h-full border-r border-white ${SEGMENT_STYLE[s.kind]}`;
+                    return href ? (
+                      <Link key={i} href={href} title={title} className={cls} style={pos(s)} />
+                    ) : (
+                      <div key={i} title={title} className={cls} style={pos(s)} />
+                    );
+                  })}
+                  {todayLeft && (
+                    <div className="absolute top-0 h-full w-px bg-rose-500" style={{ left: todayLeft }} title="Today" />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+// app/landlord/units/calendar/page.tsx
+import { Suspense } from "react";
+import CalendarDesktop from "./CalendarDesktop";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function UnitsCalendarPage() {
+  return (
+    <main className="mx-auto w-full max-w-[1100px] px-4 sm:px-6 pb-8">
+      <div className="mt-4 mb-4">
+        <h1 className="text-base font-semibold text-gray-900">Availability</h1>
+        <p className="text-xs text-gray-600">
+          When each unit is leased, held for an application, or free. Leases and holds can’t be booked over each other.
+        </p>
+      </div>
+
+      <Suspense fallback={<div className="text-sm text-gray-500">Loading…</div>}>
+        <CalendarDesktop />
+      </Suspense>
+    </main>
+  );
+}
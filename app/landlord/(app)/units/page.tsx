@@ -0,0 +1,24 @@
+// app/landlord/units/page.tsx
+import { Suspense } from "react";
+import UnitsDesktop from "./UnitsDesktop";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function UnitsPage() {
+  return (
+    <main className="mx-auto w-full max-w-[1100px] px-4 sm:px-6 pb-8">
+      <div className="mt-4 mb-4">
+        <h1 className="text-base font-semibold text-gray-900">Units</h1>
+        <p className="text-xs text-gray-600">
+          Your buildings and units. Leases and applications link here, so each unit shows who lives there and who did before.
+        </p>
+      </div>
+
+      <Suspense fallback={<div className="text-sm text-gray-500">Loading…</div>}>
+        <UnitsDesktop />
+      </Suspense>
+    </main>
+  );
+}
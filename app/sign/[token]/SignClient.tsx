@@ -0,0 +1,345 @@
+// app/sign/[token]/SignClient.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+type Signer = {
+  id: string;
+  role: "tenant" | "landlord";
+  name: string;
+  order: number;
+  signedAt: string | null;
+  you?: boolean;
+};
+
+type Envelope = {
+  id: string;
+  premises: string;
+  status: "out_for_signature" | "completed" | "voided";
+  completedAt: string | null;
+  documents: { id: string; title: string; fileName: string | null }[];
+  signers: Signer[];
+};
+
+type LoadResp = {
+  ok: true;
+  envelope: Envelope;
+  signer: { id: string; role: "tenant" | "landlord"; name: string; signedAt: string | null };
+  canSign: boolean;
+  waitingOnTenants: boolean;
+  consentText: string;
+};
+
+const ERRORS: Record<string, string> = {
+  signing_link_not_found: "This signing link is no longer valid. Ask your landlord to send a new one,",
+  consent_required: "Agree to sign electronically first,",
+  typed_name_required: "Type your full name to sign,",
+  bad_signature_image: "Draw your signature in the box,",
+  already_signed: "You’ve already signed,",
+  tenants_not_signed: "Every tenant has to sign before the landlord countersigns,",
+};
+
+const fmt = (s?: string | null) => (s ? new Date(s).toLocaleString() : "");
+
+/* ---------- Drawing pad ---------- */
+function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef(false);
+  const dirty = useRef(false);
+
+  useEffect(() => {
+    const c = ref.current;
+    if (!c) return;
+    const ratio = window.devicePixelRatio || 1;
+    c.width = c.offsetWidth * ratio;
+    c.height = c.offsetHeight * ratio;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#111827";
+  }, []);
+
+  function point(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - r.left, y: e.clientY - r.top };
+  }
+
+  function down(e: React.PointerEvent<HTMLCanvasElement>) {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const p = point(e);
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+  }
+
+  function move(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const p = point(e);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    dirty.current = true;
+  }
+
+  function up() {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (dirty.current && ref.current) onChange(ref.current.toDataURL("image/png"));
+  }
+
+  function clear() {
+    const c = ref.current;
+    const ctx = c?.getContext("2d");
+    if (!c || !ctx) return;
+    ctx.clearRect(0, 0, c.width, c.height);
+    dirty.current = false;
+    onChange(null);
+  }
+
+  return (
+    <div>
+      <canvas
+        ref={ref}
+        onPointerDown={down}
+        onPointerMove={move}
+        onPointerUp={up}
+        onPointerLeave={up}
+        className="h-36 w-full touch-none rounded-lg border border-dashed border-gray-300 bg-white"
+      />
+      <button type="button" onClick={clear} className="mt-1 text-xs text-gray-500 underline">
+        Clear
+      </button>
+    </div>
+  );
+}
+
+/* ---------- Page ---------- */
+export default function SignClient({ token }: { token: string }) {
+  const [data, setData] = useState<LoadResp | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+  const [method, setMethod] = useState<"typed" | "drawn">("typed");
+  const [typedName, setTypedName] = useState("");
+  const [imageDataUrl, setImageDataUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/api/sign/${encodeURIComponent(token)}`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(base, { cache: "no-store" });
+    const j = await res.json().catch(() => null);
+    if (!res.ok || !j?.ok) {
+      setLoadError(ERRORS[j?.error] ?? "This signing link couldn’t be opened,");
+      return;
+    }
+    setData(j as LoadResp);
+    setTypedName((v) => v || (j as LoadResp).signer.name);
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function submit() {
+    setError(null);
+    if (!consent) return setError(ERRORS.consent_required);
+    if (method === "typed" && typedName.trim().length < 2) return setError(ERRORS.typed_name_required);
+    if (method === "drawn" && !imageDataUrl) return setError(ERRORS.bad_signature_image);
+
+    setBusy(true);
+    try {
+      const res = await fetch(base, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          consent: true,
+          method,
+          typedName: method === "typed" ? typedName.trim() : undefined,
+          imageDataUrl: method === "drawn" ? imageDataUrl : undefined,
+        }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setError(ERRORS[j?.error] ?? `Couldn’t sign: ${j?.error ?? res.status},`);
+        return;
+      }
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const env = data?.envelope;
+  const me = env?.signers.find((s) => s.you);
+
+  return (
+    <main className="min-h-screen bg-[#e6edf1]">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 py-8">
+        <header className="rounded-3xl bg-gradient-to-r from-indigo-50 via-sky-50 to-rose-50 p-6 shadow-sm ring-1 ring-indigo-100/60">
+          <span className="inline-flex items-center rounded-full bg-indigo-600 px-3 py-1 text-[11px] font-semibold text-white shadow-sm">
+            Lease · Electronic signature
+          </span>
+          <h1 className="mt-3 text-2xl font-semibold text-gray-900">
+            {env ? (data?.signer.role === "landlord" ? "Countersign lease" : "Sign your lease") : "Lease signing"}
+          </h1>
+          {env && <p className="mt-2 text-sm text-gray-700">{env.premises}</p>}
+        </header>
+
+        <section className="mt-6 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+          {loadError ? (
+            <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{loadError}</div>
+          ) : !data || !env ? (
+            <div className="text-sm text-gray-600">Loading lease…</div>
+          ) : (
+            <div className="space-y-6 text-sm">
+              {/* Documents */}
+              <div>
+                <div className="font-semibold text-gray-900">1. Review the documents</div>
+                <ul className="mt-2 space-y-1">
+                  {env.documents.map((d) => (
+                    <li key={d.id}>
+                      <a
+                        href={`${base}/document/${encodeURIComponent(d.id)}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-indigo-700 underline"
+                      >
+                        {d.title}
+                      </a>
+                      {d.fileName && <span className="ml-2 text-xs text-gray-500">{d.fileName}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Signers */}
+              <div>
+                <div className="font-semibold text-gray-900">Signers</div>
+                <ul className="mt-2 divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {env.signers.map((s) => (
+                    <li key={s.id} className="flex items-center justify-between px-3 py-2">
+                      <span className="text-gray-800">
+                        {s.name}
+                        {s.you && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                        <span className="ml-2 text-xs text-gray-500">{s.role === "landlord" ? "Landlord" : "Tenant"}</span>
+                      </span>
+                      <span className={clsx("text-xs", s.signedAt ? "text-emerald-700" : "text-gray-500")}>
+                        {s.signedAt ? `Signed ${fmt(s.signedAt)}` : "Waiting"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {env.status === "completed" ? (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-emerald-900">
+                  <div className="font-semibold">Everyone has signed</div>
+                  <p className="mt-1 text-xs">
+                    A copy of the signed lease and the certificate of completion were emailed to every signer.
+                  </p>
+                </div>
+              ) : me?.signedAt ? (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-emerald-900">
+                  <div className="font-semibold">You signed on {fmt(me.signedAt)}</div>
+                  <p className="mt-1 text-xs">We’ll email you the signed lease once everyone has signed.</p>
+                </div>
+              ) : data.waitingOnTenants ? (
+                <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 text-gray-700">
+                  Every tenant has to sign before you can countersign. This link will work once they have.
+                </div>
+              ) : env.status === "voided" ? (
+                <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 text-gray-700">
+                  This lease was withdrawn. Contact your landlord or property manager.
+                </div>
+              ) : data.canSign ? (
+                <>
+                  {/* Consent */}
+                  <div>
+                    <div className="font-semibold text-gray-900">2. Agree to sign electronically</div>
+                    <label className="mt-2 flex items-start gap-2 rounded-lg border border-gray-200 bg-gray-50 p-3 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={consent}
+                        onChange={(e) => setConsent(e.target.checked)}
+                        className="mt-0.5"
+                      />
+                      <span>{data.consentText}</span>
+                    </label>
+                  </div>
+
+                  {/* Signature */}
+                  <div>
+                    <div className="font-semibold text-gray-900">3. Sign</div>
+                    <div className="mt-2 inline-flex rounded-lg bg-gray-100 p-1 text-xs">
+                      {(["typed", "drawn"] as const).map((m) => (
+                        <button
+                          key={m}
+                          type="button"
+                          onClick={() => setMethod(m)}
+                          className={clsx(
+                            "rounded-md px-3 py-1.5 font-medium",
+                            method === m ? "bg-white text-gray-900 shadow-sm" : "text-gray-600 hover:text-gray-900"
+                          )}
+                        >
+                          {m === "typed" ? "Type" : "Draw"}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-3">
+                      {method === "typed" ? (
+                        <div>
+                          <input
+                            value={typedName}
+                            onChange={(e) => setTypedName(e.target.value)}
+                            placeholder="Full legal name"
+                            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                          />
+                          {typedName.trim() && (
+                            <div className="mt-2 rounded-lg border border-gray-200 bg-white px-3 py-2 font-serif text-xl italic text-gray-900">
+                              {typedName}
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <SignaturePad onChange={setImageDataUrl} />
+                      )}
+                    </div>
+                  </div>
+
+                  {error && (
+                    <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-rose-700">{error}</div>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={submit}
+                    disabled={busy}
+                    className={clsx(
+                      "w-full rounded-lg px-4 py-2 text-sm font-semibold text-white",
+                      busy ? "cursor-not-allowed bg-gray-400" : "bg-gray-900 hover:bg-black"
+                    )}
+                  >
+                    {busy ? "Signing…" : "Sign lease"}
+                  </button>
+                  <p className="text-[11px] text-gray-500">
+                    Your signature is recorded with the time, your IP address and your browser.
+                  </p>
+                </>
+              ) : null}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
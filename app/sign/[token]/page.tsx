@@ -0,0 +1,14 @@
+// app/sign/[token]/page.tsx
+import { use } from "react";
+import SignClient from "./SignClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { token: string };
+
+export default function Page({ params }: { params: Promise<Params> }) {
+  const { token } = use(params);
+  return <SignClient token={token} />;
+}
@@ -17,8 +17,10 @@ type AppStatus =
   | "min_paid"
   | "countersigned"
   | "occupied"
+  | "moved_out"
   | "rejected"
-  | "withdrawn";
+  | "withdrawn"
+  | "waitlisted";
 
 type TenantApp = {
   id: string;
@@ -50,8 +52,10 @@ const STATUS_TONE: Record<AppStatus, Tone> = {
   min_paid: "emerald",
   countersigned: "emerald",
   occupied: "emerald",
+  moved_out: "gray",
   rejected: "rose",
   withdrawn: "rose",
+  waitlisted: "gray",
 };
 
 const STATUS_LABEL: Record<AppStatus, string> = {
@@ -64,8 +68,10 @@ const STATUS_LABEL: Record<AppStatus, string> = {
   min_paid: "Approved · Awaiting Landlord Countersign",
   countersigned: "Lease countersigned",
   occupied: "Active lease",
+  moved_out: "Moved out",
   rejected: "Rejected",
   withdrawn: "Withdrawn",
+  waitlisted: "Waitlisted",
 };
 
 function Badge({ children, tone = "gray" }: { children: React.ReactNode; tone?: Tone }) {
@@ -161,7 +167,7 @@ const DEMO_APPS: TenantApp[] = [];
 type Tab = "all" | "in_progress" | "submitted" | "approved" | "rejected";
 
 const IN_PROGRESS: AppStatus[] = ["draft", "submitted", "admin_screened"];
-const SUBMITTED: AppStatus[] = ["submitted", "admin_screened"];
+const SUBMITTED: AppStatus[] = ["submitted", "admin_screened", "waitlisted"];
 const APPROVED: AppStatus[] = ["approved_high", "terms_set", "min_due", "min_paid"];
 const REJECTED: AppStatus[] = ["rejected", "withdrawn"];
 
@@ -178,6 +184,7 @@ const WITHDRAWABLE: AppStatus[] = [
   "approved_high",
   "terms_set",
   "min_due",
+  "waitlisted",
 ];
 
 const canWithdrawStatus = (s: AppStatus) => WITHDRAWABLE.includes(s);
@@ -412,6 +419,11 @@ const STATUS_CARD_THEME: Record<
     border: "border-emerald-100 hover:border-emerald-200",
     chipText: "text-emerald-700",
   },
+  moved_out: {
+    accent: "from-slate-300 via-slate-200 to-slate-300",
+    border: "border-slate-200 hover:border-slate-300",
+    chipText: "text-slate-700",
+  },
   rejected: {
     accent: "from-rose-300 via-rose-200 to-rose-300",
     border: "border-rose-100 hover:border-rose-200",
@@ -422,6 +434,11 @@ const STATUS_CARD_THEME: Record<
 	  border: "border-rose-200 hover:border-rose-300",
 	  chipText: "text-rose-600",
 	},
+  waitlisted: {
+    accent: "from-slate-300 via-slate-200 to-slate-300",
+    border: "border-slate-200 hover:border-slate-300",
+    chipText: "text-slate-700",
+  },
 };
 
 /** Application card */
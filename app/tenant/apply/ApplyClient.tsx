@@ -2,6 +2,9 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { evaluateQuestions, qualificationRequirement, type QuestionState } from "@/lib/applications/conditions";
+import { coerceAnswer, type FieldError } from "@/lib/applications/answers";
+import type { ConditionGroup } from "@/lib/models";
 
 /* ─────────────────────────────────────────────────────────────
    Types
@@ -12,6 +15,19 @@ type InputType =
   | "date" | "email" | "phone" | "select_single" | "select_multi" | "file";
 
 type FormSection = { id: string; title: string; description?: string };
+/** An upload on the server (application_documents), keyed in state by question/qualification id */
+type UploadedDoc = { id: string; fileName: string; size: number; target: { kind: "question" | "qualification"; id: string } };
+type ScreeningCheck = {
+  qualificationId: string;
+  check: "credit" | "background" | "income";
+  mode: "integration" | "either";
+  report: { id: string; status: "requested" | "pending" | "completed" | "failed"; error: string | null } | null;
+};
+type ScreeningState = {
+  disclosure: { version: string; title: string; text: string[] };
+  consent: { acceptedAt: string; fullName: string } | null;
+  checks: ScreeningCheck[];
+};
 type FormQuestion = {
   id: string;
   sectionId: string;
@@ -22,6 +38,8 @@ type FormQuestion = {
   showForRoles: MemberRole[];
   options?: string[];
   validation?: { min?: number; max?: number; pattern?: string };
+  showIf?: ConditionGroup;
+  requireIf?: ConditionGroup;
 };
 type Qualification = {
   id: string;
@@ -31,6 +49,7 @@ type Qualification = {
   mode: "self_upload" | "integration" | "either";
   docKind?: string;
   notes?: string;
+  requireIf?: ConditionGroup;
 };
 type ApplicationForm = {
   _id?: string;
@@ -99,6 +118,36 @@ const DEMO: ApplicationForm = {
   ],
 };
 
+/* ─────────────────────────────────────────────────────────────
+   Uploads (PDF and images, checked again on the server)
+───────────────────────────────────────────────────────────── */
+const UPLOAD_ACCEPT = "application/pdf,image/jpeg,image/png,image/webp";
+const UPLOAD_ERRORS: Record<string, string> = {
+  unsupported_type: "Upload a PDF, JPEG, PNG or WebP file,",
+  file_too_large: "Files must be 10 MB or smaller,",
+  empty_file: "That file is empty,",
+  too_many_files: "That’s the most files allowed here, remove one first,",
+  unreadable_image: "We couldn’t read that image, try another file,",
+  upload_missing: "The upload didn’t finish, please try again,",
+  locked: "This application is locked,",
+};
+
+/* ─────────────────────────────────────────────────────────────
+   Screening checks (the provider runs them after the FCRA consent)
+───────────────────────────────────────────────────────────── */
+const CHECK_LABELS: Record<ScreeningCheck["check"], string> = {
+  credit: "credit report",
+  background: "background check",
+  income: "income",
+};
+const SCREENING_ERRORS: Record<string, string> = {
+  consent_incomplete: "Type your full name and tick the box to continue,",
+  consent_required: "Please review and sign the disclosure first,",
+  check_unavailable: "That check isn’t available for your role,",
+  screening_not_configured: "Verification isn’t available right now, you can upload instead,",
+  locked: "This application is locked,",
+};
+
 /* ─────────────────────────────────────────────────────────────
    Field (respects disabled)
 ───────────────────────────────────────────────────────────── */
@@ -186,11 +235,16 @@ const Field: React.FC<FieldProps> = React.memo(function Field({ question, value,
       );
     case "file":
       return (
-        <input
-          type="file" multiple disabled={disabled}
-          className={`block w-full text-sm text-gray-900 file:mr-3 file:rounded-md file:border file:border-gray-300 file:bg-white file:px-3 file:py-1.5 file:text-sm hover:file:bg-gray-50 ${dis}`}
-          onChange={(e) => onFilesChange(question.id, e.target.files)}
-        />
+        <div>
+          <input
+            type="file" multiple disabled={disabled} accept={UPLOAD_ACCEPT}
+            className={`block w-full text-sm text-gray-900 file:mr-3 file:rounded-md file:border file:border-gray-300 file:bg-white file:px-3 file:py-1.5 file:text-sm hover:file:bg-gray-50 ${dis}`}
+            onChange={(e) => { onFilesChange(question.id, e.target.files); e.target.value = ""; }}
+          />
+          {Array.isArray(value) && value.length > 0 && (
+            <p className="mt-1 text-xs text-gray-600">{value.length} file(s) uploaded</p>
+          )}
+        </div>
       );
     default:
       return null;
@@ -238,7 +292,12 @@ export default function ApplyClient() {
   /** Answers & files */
   const [answersByMember, setAnswersByMember] = useState<Record<string, { role: MemberRole; email: string; answers: Record<string, any> }>>({});
   const myAnswers = useMemo(() => (myMemberId ? (answersByMember[myMemberId]?.answers ?? {}) : {}), [answersByMember, myMemberId]);
-  const [files, setFiles] = useState<Record<string, File[]>>({});
+  const [files, setFiles] = useState<Record<string, UploadedDoc[]>>({});
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [screening, setScreening] = useState<ScreeningState | null>(null);
+  const [screeningTick, setScreeningTick] = useState(0);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [consentFor, setConsentFor] = useState<string | null>(null);
   const fileInputs = useRef<Record<string, HTMLInputElement | null>>({});
 
   /** UI */
@@ -247,6 +306,7 @@ export default function ApplyClient() {
   const [submitting, setSubmitting] = useState(false);
   const [editable, setEditable] = useState<boolean>(true);
   const [lockedReason, setLockedReason] = useState<string | null>(null);
+  const [formMigration, setFormMigration] = useState<{ from: number; to: number } | null>(null);
 
   /** Debounced write-behind queue */
   const queueRef = useRef<Array<{ memberId: string; role: MemberRole; qid: string; value: any }>>([]);
@@ -266,12 +326,23 @@ export default function ApplyClient() {
     const latest = new Map<string, { memberId: string; role: MemberRole; qid: string; value: any }>();
     for (const u of batch) latest.set(key(u.memberId, u.role, u.qid), u);
     try {
-      await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}`, {
+      const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ updates: Array.from(latest.values()) }),
       });
-    } catch {}
+      const j = await res.json().catch(() => ({}));
+      if (j?.fieldErrors) {
+        // The rest of the batch saved; show why these answers didn't
+        const fieldErrors = j.fieldErrors as Record<string, FieldError>;
+        setLocalErrors((e) => ({ ...e, ...Object.fromEntries(Object.entries(fieldErrors).map(([qid, fe]) => [qid, fe.message])) }));
+        setToast("Some answers couldn’t be saved,");
+      } else if (!res.ok) {
+        setToast(j?.error === "locked" ? "This application is locked," : "Could not save your answers,");
+      }
+    } catch {
+      setToast("Offline, your last answers weren’t saved,");
+    }
   }
 
   /** Load "me" (but not if already known from app.me) */
@@ -366,6 +437,7 @@ useEffect(() => {
           window.history.replaceState(null, "", u.toString());
         }
         setAppId(String(j.app.id));
+        setFormMigration(j.app.formMigration ?? null);
         setStage("sections");
       } else {
         setStage("gate");
@@ -406,6 +478,17 @@ useEffect(() => {
     } catch { setToast("Network error, please try again,"); return false; }
   }
 
+  /** Dismiss the "form was updated" notice for good */
+  async function dismissFormMigration() {
+    setFormMigration(null);
+    if (!appId) return;
+    await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "ack_form_migration" }),
+    }).catch(() => {});
+  }
+
   /** Load form schema */
 
 
@@ -463,7 +546,6 @@ useEffect(() => {
       if (raw) {
         const d = JSON.parse(raw);
         if (d.answersByMember) setAnswersByMember(d.answersByMember);
-        if (d.files) setFiles(d.files);
         setToast("Restored your draft,");
       }
     } catch {}
@@ -471,7 +553,7 @@ useEffect(() => {
   function saveDraft() {
     if (!editable) return; // no-op when locked
     try {
-      localStorage.setItem(draftKey, JSON.stringify({ formId: query.formId, appId, answersByMember, files }));
+      localStorage.setItem(draftKey, JSON.stringify({ formId: query.formId, appId, answersByMember }));
       setToast("Draft saved,");
     } catch { setToast("Could not save draft,"); }
   }
@@ -480,20 +562,26 @@ useEffect(() => {
   const sections = form?.sections ?? [];
   const [secIndex, setSecIndex] = useState(0);
   const section = sections[secIndex];
+  // Same rules the submit route applies: hidden questions are skipped, require-if can add requirements
+  const questionStates = useMemo(
+    () => (form ? evaluateQuestions(form.questions, myRole, myAnswers) : {}),
+    [form, myRole, myAnswers]
+  );
   const sectionQs = useMemo(() => {
     if (!form || !section) return [];
-    return form.questions.filter((q) => q.sectionId === section.id && q.showForRoles.includes(myRole));
-  }, [form, section, myRole]);
+    return form.questions.filter((q) => q.sectionId === section.id && questionStates[q.id]?.visible);
+  }, [form, section, questionStates]);
 
   /** One-time jump to first unanswered for me */
   const jumpedRef = useRef(false);
   useEffect(() => {
     if (!form || !appId || !myMemberId) return;
     if (jumpedRef.current) return;
+    const states = evaluateQuestions(form.questions, myRole, myAnswers);
     const ordered: FormQuestion[] = [];
     for (const s of form.sections) {
       for (const q of form.questions) {
-        if (q.sectionId === s.id && q.showForRoles.includes(myRole)) ordered.push(q);
+        if (q.sectionId === s.id && states[q.id]?.visible) ordered.push(q);
       }
     }
     const first = ordered.find((q) => (myAnswers as any)[q.id] === undefined || (myAnswers as any)[q.id] === "");
@@ -510,19 +598,14 @@ useEffect(() => {
     const e: Record<string, string> = {};
     for (const q of sectionQs) {
       const v = (myAnswers as any)[q.id];
-      if (q.required) {
-        const empty = v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
-        if (empty) e[q.id] = "Required";
-      }
-      if ((q.inputType === "number" || q.inputType === "currency") && v !== undefined && v !== null && v !== "") {
-        const n = Number(v);
-        if (Number.isNaN(n)) e[q.id] = "Must be a number";
-        if (q.validation?.min !== undefined && n < q.validation.min!) e[q.id] = `Min ${q.validation.min}`;
-        if (q.validation?.max !== undefined && n > q.validation.max!) e[q.id] = `Max ${q.validation.max}`;
-      }
-      if (q.validation?.pattern && typeof v === "string") {
-        try { const re = new RegExp(q.validation.pattern); if (!re.test(v)) e[q.id] = "Invalid format"; } catch {}
+      const empty = v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
+      if (empty) {
+        if (questionStates[q.id]?.required) e[q.id] = "Required";
+        continue;
       }
+      // Same checks the submit route runs
+      const res = coerceAnswer(q, v);
+      if (!res.ok) e[q.id] = res.error.message;
     }
     setLocalErrors(e);
     return Object.keys(e).length === 0;
@@ -539,10 +622,144 @@ useEffect(() => {
     scheduleSave(myMemberId, myRole, qid, value);
   }
 
-  function onFilesChange(key: string, fileList: FileList | null) {
-    if (!editable) return; // no-op when locked
-    const arr = fileList ? Array.from(fileList) : [];
-    setFiles((f) => ({ ...f, [key]: arr }));
+  /** Uploaded documents live on the server; file answers mirror their ids */
+  useEffect(() => {
+    if (!appId) return;
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}/documents`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (cancelled || !res.ok || !j?.ok) return;
+      const grouped: Record<string, UploadedDoc[]> = {};
+      for (const d of j.documents as (UploadedDoc & { status: string })[]) {
+        if (d.status === "ready") (grouped[d.target.id] ??= []).push(d);
+      }
+      setFiles(grouped);
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [appId]);
+
+  /** Provider checks this member can run; re-polled while one is in flight */
+  useEffect(() => {
+    if (!appId) return;
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}/screening`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      if (!cancelled && res.ok && j?.ok) setScreening({ disclosure: j.disclosure, consent: j.consent, checks: j.checks });
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [appId, screeningTick]);
+
+  useEffect(() => {
+    const inFlight = screening?.checks.some((c) => c.report?.status === "pending" || c.report?.status === "requested");
+    if (!inFlight) return;
+    const t = setTimeout(() => setScreeningTick((n) => n + 1), 5000);
+    return () => clearTimeout(t);
+  }, [screening]);
+
+  /** Nothing reaches the provider until the disclosure is signed */
+  async function onRunCheck(qualificationId: string, consented = !!screening?.consent) {
+    if (!editable || !appId) return;
+    if (!consented) { setConsentFor(qualificationId); return; }
+    setChecking(qualificationId);
+    try {
+      const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}/screening`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "request", qualificationId }),
+      });
+      const j = await res.json().catch(() => null);
+      if (j?.error === "consent_required") { setConsentFor(qualificationId); return; }
+      if (!res.ok || !j?.ok) { setToast(SCREENING_ERRORS[j?.error] ?? `Check failed: ${j?.error ?? res.status},`); return; }
+      setScreening((s) => s && {
+        ...s,
+        checks: s.checks.map((c) => (c.qualificationId === qualificationId ? { ...c, report: j.report } : c)),
+      });
+      if (j.report?.status === "failed") setToast("The provider couldn’t complete that check, retry or upload instead,");
+    } catch {
+      setToast("Network error, please retry,");
+    } finally {
+      setChecking(null);
+    }
+  }
+
+  async function onConsent(fullName: string) {
+    if (!appId || !consentFor) return;
+    try {
+      const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}/screening`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "consent", fullName, accept: true }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) { setToast(SCREENING_ERRORS[j?.error] ?? `Could not save consent: ${j?.error ?? res.status},`); return; }
+      const qid = consentFor;
+      setConsentFor(null);
+      setScreening((s) => s && { ...s, consent: j.consent });
+      await onRunCheck(qid, true);
+    } catch {
+      setToast("Network error, please retry,");
+    }
+  }
+
+  function setFileAnswer(qid: string, docs: UploadedDoc[]) {
+    if (!myMemberId || !form?.questions.some((q) => q.id === qid)) return;
+    setAnswersByMember((prev) => {
+      const bucket = prev[myMemberId] ?? { role: myRole, email: myEmail, answers: {} };
+      const answers = { ...bucket.answers, [qid]: docs.map((d) => d.id) };
+      return { ...prev, [myMemberId]: { ...bucket, answers } };
+    });
+    setLocalErrors((e) => { const n = { ...e }; delete n[qid]; return n; });
+  }
+
+  /** Presign → PUT → complete, one file at a time */
+  async function onFilesChange(key: string, fileList: FileList | null) {
+    if (!editable || !appId || !fileList?.length) return; // no-op when locked
+    const kind = form?.questions.some((q) => q.id === key) ? "question" : "qualification";
+    const base = `/api/tenant/applications/${encodeURIComponent(appId)}/documents`;
+    setUploading(key);
+    try {
+      let docs = files[key] ?? [];
+      for (const file of Array.from(fileList)) {
+        const init = await fetch(base, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ target: { kind, id: key }, fileName: file.name, contentType: file.type, size: file.size }),
+        });
+        const ij = await init.json().catch(() => null);
+        if (!init.ok || !ij?.ok) { setToast(UPLOAD_ERRORS[ij?.error] ?? `Upload failed: ${ij?.error ?? init.status},`); break; }
+
+        const put = await fetch(ij.uploadUrl, { method: "PUT", headers: { "Content-Type": file.type }, body: file });
+        if (!put.ok) { setToast("Upload failed, please try again,"); break; }
+
+        const done = await fetch(`${base}/${encodeURIComponent(ij.document.id)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "complete" }),
+        });
+        const dj = await done.json().catch(() => null);
+        if (!done.ok || !dj?.ok) { setToast(UPLOAD_ERRORS[dj?.error] ?? `Upload failed: ${dj?.error ?? done.status},`); break; }
+        docs = [...docs, dj.document];
+      }
+      setFiles((f) => ({ ...f, [key]: docs }));
+      setFileAnswer(key, docs);
+    } catch {
+      setToast("Network error while uploading, please retry,");
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  async function onRemoveFile(key: string, docId: string) {
+    if (!editable || !appId) return;
+    const res = await fetch(`/api/tenant/applications/${encodeURIComponent(appId)}/documents/${encodeURIComponent(docId)}`, {
+      method: "DELETE",
+    }).catch(() => null);
+    if (!res?.ok) { setToast("Could not remove that file,"); return; }
+    const docs = (files[key] ?? []).filter((d) => d.id !== docId);
+    setFiles((f) => ({ ...f, [key]: docs }));
+    setFileAnswer(key, docs);
   }
 
   /** Submit */
@@ -575,7 +792,17 @@ useEffect(() => {
         return;
       } else {
         const j = await res.json().catch(() => ({}));
-        setToast(j?.error || "Could not submit,");
+        if (j?.error === "invalid_answers" && j.fieldErrors && form) {
+          // Show the server's field errors inline and jump to the first section with one
+          const fieldErrors = j.fieldErrors as Record<string, FieldError>;
+          setLocalErrors(Object.fromEntries(Object.entries(fieldErrors).map(([qid, fe]) => [qid, fe.message])));
+          const first = form.questions.find((q) => fieldErrors[q.id]);
+          const idx = first ? form.sections.findIndex((s) => s.id === first.sectionId) : -1;
+          if (idx >= 0) { setSecIndex(idx); setStage("sections"); }
+          setToast("Some answers need attention,");
+        } else {
+          setToast(j?.error || "Could not submit,");
+        }
       }
     } catch {
       setToast("Offline, try again later,");
@@ -634,7 +861,19 @@ useEffect(() => {
         </div>
       )}
 
-      {stage === "gate" && (
+      {formMigration && editable && (
+        <div className="mx-auto max-w-md px-4 mt-3">
+          <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-xs text-blue-900">
+            This application was updated to a newer version of the form (v{formMigration.from} → v
+            {formMigration.to}). Please review any new questions before submitting,
+            <button className="ml-2 underline" onClick={dismissFormMigration}>
+              Got it
+            </button>
+          </div>
+        </div>
+      )}
+
+            {stage === "gate" && (
         <div className="mx-auto w-full max-w-md p-4">
           <h1 className="text-xl font-semibold text-gray-900">Start this application?</h1>
           <p className="mt-1 text-sm text-gray-600">
@@ -665,6 +904,7 @@ useEffect(() => {
           secIndex={secIndex}
           setSecIndex={setSecIndex}
           sectionQs={sectionQs}
+          questionStates={questionStates}
           answers={myAnswers}
           updateAnswer={updateAnswer}
           localErrors={localErrors}
@@ -684,9 +924,15 @@ useEffect(() => {
         <QualificationsScreen
           form={form}
           role={myRole}
+          answers={myAnswers}
           files={files}
+          uploading={uploading}
           fileInputs={fileInputs as any}
           onFilesChange={onFilesChange}
+          onRemoveFile={onRemoveFile}
+          screening={screening}
+          checking={checking}
+          onRunCheck={(qid) => onRunCheck(qid)}
           saveDraft={saveDraft}
           onBack={() => setStage("sections")}
           onReview={() => setStage("review")}
@@ -700,6 +946,7 @@ useEffect(() => {
           role={myRole}
           answers={myAnswers}
           files={files}
+          screening={screening}
           onBack={() => setStage("quals")}
           onSubmit={onSubmit}
           setStage={setStage as any}
@@ -709,6 +956,10 @@ useEffect(() => {
         />
       )}
 
+      {consentFor && screening && (
+        <ConsentSheet disclosure={screening.disclosure} onAccept={onConsent} onCancel={() => setConsentFor(null)} />
+      )}
+
       {toast && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
           <div className="rounded-md bg-gray-900 text-white text-sm px-4 py-2 shadow-lg">
@@ -731,6 +982,7 @@ type SectionScreenProps = {
   secIndex: number;
   setSecIndex: (i: number) => void;
   sectionQs: FormQuestion[];
+  questionStates: Record<string, QuestionState>;
   answers: Record<string, any>;
   updateAnswer: (id: string, v: any) => void;
   localErrors: Record<string, string>;
@@ -741,7 +993,7 @@ type SectionScreenProps = {
   editable: boolean;
 };
 const SectionScreen: React.FC<SectionScreenProps> = ({
-  form, sections, secIndex, setSecIndex, sectionQs, answers, updateAnswer, localErrors, onBack, onNext, saveDraft, onFilesChange, editable,
+  form, sections, secIndex, setSecIndex, sectionQs, questionStates, answers, updateAnswer, localErrors, onBack, onNext, saveDraft, onFilesChange, editable,
 }) => {
   const section = sections[secIndex];
   if (!section) return null;
@@ -761,7 +1013,7 @@ const SectionScreen: React.FC<SectionScreenProps> = ({
         {form && sectionQs.map((q) => (
           <div key={q.id}>
             <label className="block text-sm font-medium text-gray-900">
-              {q.label} {q.required && <span className="text-rose-600">*</span>}
+              {q.label} {questionStates[q.id]?.required && <span className="text-rose-600">*</span>}
             </label>
             {q.helpText && <p className="text-xs text-gray-600 mb-1">{q.helpText}</p>}
             <Field
@@ -774,6 +1026,11 @@ const SectionScreen: React.FC<SectionScreenProps> = ({
             {localErrors[q.id] && <div className="mt-1 text-xs text-rose-700">{localErrors[q.id]}</div>}
           </div>
         ))}
+        {sectionQs.length === 0 && (
+          <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
+            Nothing to answer here based on your answers so far,
+          </div>
+        )}
       </div>
 
 <div className="h-16" />
@@ -886,22 +1143,32 @@ const SectionScreen: React.FC<SectionScreenProps> = ({
 type QualificationsScreenProps = {
   form: ApplicationForm;
   role: MemberRole;
-  files: Record<string, File[]>;
+  answers: Record<string, any>;
+  files: Record<string, UploadedDoc[]>;
+  uploading: string | null;
   fileInputs: React.MutableRefObject<Record<string, HTMLInputElement | null>>;
   onFilesChange: (key: string, fl: FileList | null) => void;
+  onRemoveFile: (key: string, docId: string) => void;
+  screening: ScreeningState | null;
+  checking: string | null;
+  onRunCheck: (qualificationId: string) => void;
   onBack: () => void;
   onReview: () => void;
   saveDraft: () => void;
   editable: boolean;
 };
 const QualificationsScreen: React.FC<QualificationsScreenProps> = ({
-  form, role, files, fileInputs, onFilesChange, onBack, onReview, saveDraft, editable,
+  form, role, answers, files, uploading, fileInputs, onFilesChange, onRemoveFile, screening, checking, onRunCheck,
+  onBack, onReview, saveDraft, editable,
 }) => {
-  const visible = (form.qualifications ?? []).filter((q) => q.audience.includes(role));
+  const visible = (form.qualifications ?? []).flatMap((q) => {
+    const requirement = qualificationRequirement(q, role, form.questions, answers);
+    return requirement ? [{ ...q, requirement }] : [];
+  });
   return (
     <div className="mx-auto w-full max-w-md p-4">
       <h2 className="text-lg font-semibold text-gray-900">Qualifications</h2>
-      <p className="mt-1 text-sm text-gray-600">Upload required documents now, or save and finish later,</p>
+      <p className="mt-1 text-sm text-gray-600">Upload required documents or verify them with our screening provider, or save and finish later,</p>
 
       <div className="mt-4 space-y-3">
         {visible.map((q) => (
@@ -913,23 +1180,43 @@ const QualificationsScreen: React.FC<QualificationsScreenProps> = ({
               </span>
             </div>
             {q.notes && <div className="mt-1 text-xs text-gray-600">{q.notes}</div>}
-            <div className="mt-2">
+            {(() => {
+              const sc = screening?.checks.find((c) => c.qualificationId === q.id);
+              if (sc) return <ScreeningRow check={sc} busy={checking === q.id} editable={editable} onRun={() => onRunCheck(q.id)} />;
+              if (q.mode === "integration") {
+                return <p className="mt-2 text-xs text-gray-500">Verification isn’t available yet, your landlord will follow up,</p>;
+              }
+              return null;
+            })()}
+            {q.mode !== "integration" && <div className="mt-2">
               <input
                 ref={(el) => { (fileInputs.current as any)[q.id] = el; }}
                 type="file"
                 multiple
-                disabled={!editable}
-                onChange={(e) => onFilesChange(q.id, e.target.files)}
+                accept={UPLOAD_ACCEPT}
+                disabled={!editable || uploading === q.id}
+                onChange={(e) => { onFilesChange(q.id, e.target.files); e.target.value = ""; }}
                 className="block w-full text-sm text-gray-900 file:mr-3 file:rounded-md file:border file:border-gray-300 file:bg-white file:px-3 file:py-1.5 file:text-sm hover:file:bg-gray-50"
               />
-              {files[q.id]?.length ? (
-                <ul className="mt-2 list-disc pl-5 text-xs text-gray-700">
-                  {files[q.id].map((f, i) => (<li key={i}>{f.name}</li>))}
+              {uploading === q.id ? (
+                <p className="mt-1 text-xs text-gray-500">Uploading…</p>
+              ) : files[q.id]?.length ? (
+                <ul className="mt-2 space-y-1 text-xs text-gray-700">
+                  {files[q.id].map((f) => (
+                    <li key={f.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate">{f.fileName}</span>
+                      {editable && (
+                        <button onClick={() => onRemoveFile(q.id, f.id)} className="shrink-0 text-gray-500 underline">
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
                 </ul>
               ) : (
                 <p className="mt-1 text-xs text-gray-500">No files attached yet,</p>
               )}
-            </div>
+            </div>}
           </div>
         ))}
         {visible.length === 0 && (
@@ -985,11 +1272,84 @@ const QualificationsScreen: React.FC<QualificationsScreenProps> = ({
   );
 };
 
+const ScreeningRow: React.FC<{ check: ScreeningCheck; busy: boolean; editable: boolean; onRun: () => void }> = ({
+  check, busy, editable, onRun,
+}) => {
+  const st = check.report?.status;
+  const text =
+    st === "completed" ? "Verified with our screening provider,"
+    : st === "pending" || st === "requested" ? "Check in progress, this updates when it’s back,"
+    : st === "failed" ? "That check didn’t go through,"
+    : `Verify your ${CHECK_LABELS[check.check]} with our screening provider${check.mode === "either" ? ", or upload below" : ""},`;
+  return (
+    <div className="mt-2 flex items-center justify-between gap-2 rounded-md bg-gray-50 px-2.5 py-2 text-xs">
+      <span className={st === "completed" ? "text-emerald-700" : st === "failed" ? "text-rose-700" : "text-gray-700"}>{text}</span>
+      {editable && (st == null || st === "failed") && (
+        <button
+          onClick={onRun}
+          disabled={busy}
+          className="shrink-0 rounded-md border border-gray-300 bg-white px-2.5 py-1 font-medium text-gray-800 hover:bg-gray-50 disabled:opacity-60"
+        >
+          {busy ? "Checking…" : st === "failed" ? "Retry" : "Verify"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** FCRA disclosure, shown on its own before the first check */
+const ConsentSheet: React.FC<{
+  disclosure: ScreeningState["disclosure"];
+  onAccept: (fullName: string) => Promise<void>;
+  onCancel: () => void;
+}> = ({ disclosure, onAccept, onCancel }) => {
+  const [fullName, setFullName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const ready = agreed && fullName.trim().length >= 2 && !saving;
+  return (
+    <div className="fixed inset-0 z-40 flex items-end justify-center bg-black/30 sm:items-center" role="dialog" aria-modal="true">
+      <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-t-xl bg-white p-4 shadow-xl sm:rounded-xl">
+        <h3 className="text-base font-semibold text-gray-900">{disclosure.title}</h3>
+        <div className="mt-2 space-y-2 text-xs text-gray-700">
+          {disclosure.text.map((para, i) => <p key={i}>{para}</p>)}
+        </div>
+        <label className="mt-4 block text-xs text-gray-700">
+          Full legal name
+          <input
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-sm"
+            autoComplete="name"
+          />
+        </label>
+        <label className="mt-3 flex items-start gap-2 text-xs text-gray-700">
+          <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} className="mt-0.5" />
+          I have read the disclosure and authorize these reports,
+        </label>
+        <div className="mt-4 flex justify-end gap-2">
+          <button onClick={onCancel} className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-800">
+            Cancel
+          </button>
+          <button
+            disabled={!ready}
+            onClick={async () => { setSaving(true); try { await onAccept(fullName.trim()); } finally { setSaving(false); } }}
+            className="rounded-md bg-gray-900 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Authorize"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 type ReviewScreenProps = {
   form: ApplicationForm;
   role: MemberRole;
   answers: Record<string, any>;
-  files: Record<string, File[]>;
+  files: Record<string, UploadedDoc[]>;
+  screening: ScreeningState | null;
   onBack: () => void;
   onSubmit: () => void;
   setStage: (s: "sections") => void;
@@ -998,17 +1358,21 @@ type ReviewScreenProps = {
   submitting: boolean;
 };
 const ReviewScreen: React.FC<ReviewScreenProps> = ({
-  form, role, answers, files, onBack, onSubmit, setStage, setSecIndex, editable, submitting,
+  form, role, answers, files, screening, onBack, onSubmit, setStage, setSecIndex, editable, submitting,
 }) => {
   const bySection = useMemo(() => {
     const map: Record<string, { title: string; items: { label: string; value: any }[] }> = {};
     for (const s of form.sections) map[s.id] = { title: s.title, items: [] };
+    const states = evaluateQuestions(form.questions, role, answers);
     for (const q of form.questions) {
-      if (!q.showForRoles.includes(role)) continue;
+      if (!states[q.id]?.visible) continue;
       const v = answers[q.id];
       (map[q.sectionId]?.items || (map[q.sectionId] = { title: q.sectionId, items: [] }).items).push({
         label: q.label,
-        value: v === undefined || v === null || v === "" ? "—" : Array.isArray(v) ? v.join(", ") : String(v),
+        value:
+          v === undefined || v === null || v === "" ? "—"
+          : q.inputType === "file" ? `${Array.isArray(v) ? v.length : 0} file(s) uploaded`
+          : Array.isArray(v) ? v.join(", ") : String(v),
       });
     }
     return map;
@@ -1045,11 +1409,13 @@ const ReviewScreen: React.FC<ReviewScreenProps> = ({
 
         <div className="rounded-lg border border-gray-200 p-3">
           <div className="text-sm font-medium text-gray-900">Documents</div>
-          {form.qualifications.filter((q) => q.audience.includes(role)).map((q) => (
+          {form.qualifications.filter((q) => qualificationRequirement(q, role, form.questions, answers)).map((q) => (
             <div key={q.id} className="mt-2">
               <div className="text-xs text-gray-600">{q.title}</div>
               <div className="text-sm text-gray-900">
-                {(files[q.id]?.length ?? 0) > 0 ? `${files[q.id].length} file(s) attached` : "No files"}
+                {screening?.checks.find((c) => c.qualificationId === q.id)?.report?.status === "completed"
+                  ? "Verified by screening provider"
+                  : (files[q.id]?.length ?? 0) > 0 ? `${files[q.id].length} file(s) attached` : "No files"}
               </div>
             </div>
           ))}
@@ -7,7 +7,7 @@ import { loadStripe, Stripe } from "@stripe/stripe-js";
 
 const pk = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!;
 
-type HoldInfo = { ok: boolean; total: number; minimumDue?: number; status?: string };
+type HoldInfo = { ok: boolean; total: number; minimumDue?: number; status?: string; expiresAt?: string | null };
 
 function CheckoutForm({ returnUrl }: { returnUrl: string }) {
   const stripe = useStripe();
@@ -99,11 +99,24 @@ export default function HoldPayPage() {
         const j = (await r.json()) as HoldInfo;
         if (cancelled || seq !== reqSeq.current) return;
         setInfo(j);
+        if (j.status === "expired") {
+          setError("This hold has expired and the unit is no longer reserved, please contact the landlord.");
+          return;
+        }
 
         // 2) Create/retrieve the PaymentIntent (server returns clientSecret + returnUrl)
         const res = await fetch(`/api/holding/${encodeURIComponent(token)}/intent`, { method: "POST" });
         const pj = await res.json();
-        if (!res.ok) { if (!cancelled && seq === reqSeq.current) setError(pj.error || "Failed to init payment"); return; }
+        if (!res.ok) {
+          if (!cancelled && seq === reqSeq.current) {
+            setError(
+              pj.error === "hold_expired"
+                ? "This hold has expired and the unit is no longer reserved, please contact the landlord."
+                : pj.error || "Failed to init payment"
+            );
+          }
+          return;
+        }
 
         if (cancelled || seq !== reqSeq.current) return;
 
@@ -135,6 +148,11 @@ export default function HoldPayPage() {
       <div className="mb-3 text-sm text-gray-700 space-y-1">
         <div>Total due before lease signing: <strong>${totalDisplay}</strong></div>
         {minimumDisplay && <div>Minimum to proceed today: <strong>${minimumDisplay}</strong></div>}
+        {info.expiresAt && info.status === "pending" && (
+          <div>
+            Pay by <strong>{new Date(info.expiresAt).toLocaleString()}</strong> to keep the unit reserved.
+          </div>
+        )}
       </div>
 
       {!pk && (
@@ -157,6 +157,15 @@ type LandlordDoc = {
   s3Key?: string | null;
 };
 
+type DepositReturnSummary = {
+  status: "draft" | "finalized" | "paid";
+  moveOutDate: string | null;
+  deadline?: { deadlineDate: string | null; daysLeft: number | null; overdue: boolean } | null;
+  totals?: { heldCents: number; deductionsCents: number; refundCents: number };
+  payout?: { method: string; amountCents: number; paidAt: string } | null;
+  statementUrl?: string;
+};
+
 /* ------- main ------- */
 export default function LeaseDesktop({
   lease,
@@ -172,6 +181,11 @@ export default function LeaseDesktop({
     boolean | null
   >(null);
 
+  // move-out deposit return (M.G.L. c.186 §15B(4)), once the landlord starts one
+  const [depositReturn, setDepositReturn] = useState<DepositReturnSummary | null>(
+    null,
+  );
+
   // app/firm IDs for payments — prefer lease fields, else lift from /api/tenant/lease
   const [resolvedAppId, setResolvedAppId] = useState<string | null>(() => {
     const a = (lease as any)?.appId || (lease as any)?.applicationId;
@@ -273,6 +287,30 @@ export default function LeaseDesktop({
     };
   }, [leaseId]);
 
+  useEffect(() => {
+    if (!leaseId) return;
+
+    let abort = false;
+
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/tenant/lease/move-out?leaseId=${encodeURIComponent(leaseId)}`,
+          { cache: "no-store" },
+        );
+        if (!res.ok) return;
+        const j = await res.json().catch(() => null);
+        if (!abort) setDepositReturn(j?.depositReturn ?? null);
+      } catch {
+        /* ignore, non-blocking */
+      }
+    })();
+
+    return () => {
+      abort = true;
+    };
+  }, [leaseId]);
+
   function flash(msg: string) {
     setToast(msg);
     (window as any).clearTimeout((flash as any)._t);
@@ -733,6 +771,72 @@ export default function LeaseDesktop({
                   </div>
                 )}
 
+                {/* Move-out security deposit return */}
+                {depositReturn && (
+                  <div className="mb-3 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs text-slate-700">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div className="max-w-md">
+                        <div className="font-semibold text-slate-900">
+                          Security deposit return
+                        </div>
+                        {depositReturn.status === "draft" ? (
+                          <div>
+                            Your landlord is preparing the itemized statement,
+                            {depositReturn.deadline?.deadlineDate && (
+                              <>
+                                {" "}
+                                it is due by{" "}
+                                {toDate(depositReturn.deadline.deadlineDate)
+                                  ? dateFmt.format(
+                                      toDate(depositReturn.deadline.deadlineDate)!,
+                                    )
+                                  : depositReturn.deadline.deadlineDate}
+                                ,
+                              </>
+                            )}
+                          </div>
+                        ) : (
+                          <div>
+                            {asMoney(depositReturn.totals?.heldCents)} held,{" "}
+                            {asMoney(depositReturn.totals?.deductionsCents)} deducted,{" "}
+                            <span className="font-semibold">
+                              {asMoney(depositReturn.totals?.refundCents)} returned to you
+                            </span>
+                            {depositReturn.payout
+                              ? ` (paid ${
+                                  toDate(String(depositReturn.payout.paidAt))
+                                    ? dateFmt.format(
+                                        toDate(String(depositReturn.payout.paidAt))!,
+                                      )
+                                    : ""
+                                })`
+                              : depositReturn.deadline?.deadlineDate
+                              ? ` (due by ${
+                                  toDate(depositReturn.deadline.deadlineDate)
+                                    ? dateFmt.format(
+                                        toDate(depositReturn.deadline.deadlineDate)!,
+                                      )
+                                    : depositReturn.deadline.deadlineDate
+                                })`
+                              : ""}
+                            ,
+                          </div>
+                        )}
+                      </div>
+                      {depositReturn.statementUrl && (
+                        <a
+                          href={depositReturn.statementUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center justify-center rounded-md bg-slate-900 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-slate-800"
+                        >
+                          View itemized statement
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {landlordDocs.length === 0 && paymentFiles.length === 0 ? (
                   <Empty hint="No documents shared yet," />
                 ) : (
@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+
+type Enrollment = {
+  _id: string;
+  userId: string;
+  mine: boolean;
+  email: string | null;
+  bankLabel: string | null;
+  paymentMethodId: string | null;
+  mode: "full" | "share";
+  shareCents: number | null;
+  startsOn: string;
+  status: "active" | "paused";
+  pausedUntil: string | null;
+};
+
+type Payload = {
+  leaseId: string;
+  monthlyRentCents: number;
+  enrollments: Enrollment[];
+  upcoming: { ym: string; dueDate: string; amountCents: number }[];
+};
+
+type WalletMethod = {
+  id: string;
+  bankName: string;
+  last4: string | null;
+};
+
+function clsx(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function money(cents?: number | null) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+  }).format((cents ?? 0) / 100);
+}
+
+const fmtDate = (s?: string | null) => {
+  if (!s) return "—";
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? String(s) : d.toLocaleDateString();
+};
+
+const ERRORS: Record<string, string> = {
+  already_enrolled: "You’re already enrolled in autopay,",
+  full_autopay_exists: "Someone in your household already covers the full rent, or shares are set up,",
+  payment_method_not_found: "Pick a saved bank account first,",
+  bad_share_amount: "Enter your share of the rent,",
+};
+
+/**
+ * Rent autopay enrollment for the signed-in member. Each household member can
+ * enroll their own bank account for a fixed share, or one member for the full rent.
+ */
+export default function AutopayCard({
+  appId,
+  wallet,
+  defaultPaymentMethodId,
+}: {
+  appId: string;
+  wallet: WalletMethod[];
+  defaultPaymentMethodId: string | null;
+}) {
+  const [data, setData] = useState<Payload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [pmId, setPmId] = useState<string>("");
+  const [mode, setMode] = useState<"full" | "share">("full");
+  const [shareDollars, setShareDollars] = useState<string>("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/tenant/autopay?appId=${encodeURIComponent(appId)}`, { cache: "no-store" });
+      const j = await res.json().catch(() => null);
+      setData(res.ok && j?.ok ? (j as Payload) : null);
+    } finally {
+      setLoading(false);
+    }
+  }, [appId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!pmId && wallet.length) setPmId(defaultPaymentMethodId ?? wallet[0].id);
+  }, [wallet, defaultPaymentMethodId, pmId]);
+
+  async function send(method: "POST" | "PATCH", body: Record<string, any>, okMsg: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch("/api/tenant/autopay", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) {
+        setMsg(ERRORS[j?.error] ?? `Couldn’t update autopay: ${j?.error ?? res.status},`);
+        return;
+      }
+      setMsg(okMsg);
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // No lease yet (still applying) → nothing to automate
+  if (loading || !data) return null;
+
+  const mine = data.enrollments.find((e) => e.mine) ?? null;
+  const others = data.enrollments.filter((e) => !e.mine);
+  const nextDue = data.upcoming[0] ?? null;
+
+  return (
+    <section className="rounded-2xl border border-slate-200/70 bg-white/80 p-4 sm:p-5 shadow-sm backdrop-blur">
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold text-slate-900">Rent autopay</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Rent is debited from your bank on the 1st. We email you 3 days before each debit.
+          {nextDue ? ` Next due ${fmtDate(nextDue.dueDate)} (${money(nextDue.amountCents)}).` : ""}
+        </p>
+      </div>
+
+      {others.length > 0 && (
+        <ul className="mb-3 space-y-1 text-xs text-slate-600">
+          {others.map((e) => (
+            <li key={e._id}>
+              {e.email ?? "Household member"}:{" "}
+              {e.mode === "full" ? "full rent" : `${money(e.shareCents)} / month`}
+              {e.status === "paused" ? " (paused)" : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {mine ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white px-4 py-3">
+          <div className="min-w-0">
+            <div className="text-sm text-slate-900">
+              {mine.mode === "full" ? "Full rent" : `${money(mine.shareCents)} / month`} from{" "}
+              {mine.bankLabel ?? "your bank account"}
+            </div>
+            <div className="text-[11px] text-slate-500">
+              Starting {fmtDate(mine.startsOn)}
+              {mine.status === "paused"
+                ? mine.pausedUntil
+                  ? ` • Paused until ${fmtDate(mine.pausedUntil)}`
+                  : " • Paused"
+                : ""}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className={clsx(
+                "rounded-full px-2 py-0.5 text-[11px] ring-1",
+                mine.status === "active"
+                  ? "bg-emerald-50 text-emerald-700 ring-emerald-200"
+                  : "bg-amber-50 text-amber-800 ring-amber-200",
+              )}
+            >
+              {mine.status === "active" ? "On" : "Paused"}
+            </span>
+            {mine.status === "active" ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  const until = window.prompt("Resume on (YYYY-MM-DD), or leave blank to pause until you resume") ?? null;
+                  if (until === null) return;
+                  send("PATCH", { enrollmentId: mine._id, op: "pause", pausedUntil: until.trim() || null }, "Autopay paused,");
+                }}
+                className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-900 ring-1 ring-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Pause
+              </button>
+            ) : (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => send("PATCH", { enrollmentId: mine._id, op: "resume" }, "Autopay resumed,")}
+                className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-900 ring-1 ring-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Resume
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                if (!window.confirm("Turn off rent autopay?")) return;
+                send("PATCH", { enrollmentId: mine._id, op: "cancel" }, "Autopay canceled,");
+              }}
+              className="rounded-md bg-white px-2.5 py-1 text-[11px] font-semibold text-rose-700 ring-1 ring-rose-200 hover:bg-rose-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : wallet.length === 0 ? (
+        <p className="text-xs text-slate-500">Link a bank account above to turn on autopay,</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <label className="text-xs text-slate-600">
+              Bank account
+              <select
+                value={pmId}
+                onChange={(e) => setPmId(e.target.value)}
+                className="mt-1 w-full rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-900"
+              >
+                {wallet.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.bankName}
+                    {m.last4 ? ` ••••${m.last4}` : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-600">
+              Amount
+              <div className="mt-1 flex items-center gap-2">
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value === "share" ? "share" : "full")}
+                  className="rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-900"
+                >
+                  <option value="full">Full rent</option>
+                  <option value="share">My share</option>
+                </select>
+                {mode === "share" && (
+                  <input
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    value={shareDollars}
+                    onChange={(e) => setShareDollars(e.target.value)}
+                    className="w-28 rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-900"
+                  />
+                )}
+              </div>
+            </label>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            By turning on autopay you authorize us to debit the selected account each month for{" "}
+            {mode === "full" ? `the rent still owed (up to ${money(data.monthlyRentCents)})` : "your share"} until you
+            cancel.
+          </p>
+          <button
+            type="button"
+            disabled={busy || !pmId}
+            onClick={() =>
+              send(
+                "POST",
+                {
+                  appId,
+                  paymentMethodId: pmId,
+                  mode,
+                  shareCents: mode === "share" ? Math.round(Number(shareDollars) * 100) : undefined,
+                },
+                "Autopay is on,",
+              )
+            }
+            className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+          >
+            Turn on autopay
+          </button>
+        </div>
+      )}
+
+      {msg && <p className="mt-3 text-xs text-slate-600">{msg}</p>}
+    </section>
+  );
+}
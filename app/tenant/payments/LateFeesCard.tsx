@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from "react";
+
+type FeeLine = {
+  chargeKey: string;
+  code: string;
+  label?: string;
+  amountCents: number;
+  dueDate?: string | null;
+  remainingCents?: number;
+};
+
+function money(cents?: number | null) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+  }).format((cents ?? 0) / 100);
+}
+
+/**
+ * Open late fees (fee bucket charge lines). Only rendered when something is owed;
+ * fees are assessed no earlier than 30 days after rent was due.
+ */
+export default function LateFeesCard({
+  appId,
+  firmId,
+  fees,
+  method,
+  onPaid,
+}: {
+  appId: string;
+  firmId?: string | null;
+  fees: FeeLine[];
+  method: { id: string; label: string } | null;
+  onPaid: (amountCents: number) => void | Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const open = fees.filter((f) => (f.remainingCents ?? 0) > 0);
+  const totalCents = open.reduce((s, f) => s + (f.remainingCents ?? 0), 0);
+  if (!open.length) return null;
+
+  async function pay() {
+    if (!method || !totalCents) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch("/api/tenant/payments/session", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          appId,
+          firmId: firmId ?? null,
+          amountCents: totalCents,
+          reason: "late_fees",
+          paymentMethodId: method.id,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.ok) {
+        setMsg(`Couldn’t start the payment: ${data?.error ?? res.status},`);
+        return;
+      }
+      await onPaid(totalCents);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-rose-200/70 bg-white/80 p-4 sm:p-5 shadow-sm backdrop-blur">
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold text-slate-900">Late fees</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Assessed on rent that was more than 30 days past due. Contact your landlord if you believe a fee is in error.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-slate-100 rounded-xl border border-slate-200 bg-white text-xs">
+        {open.map((f) => (
+          <li key={f.chargeKey} className="flex items-center justify-between px-3 py-2">
+            <span className="text-slate-700">{f.label ?? f.code}</span>
+            <span className="font-medium text-slate-900">{money(f.remainingCents)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="text-[11px] text-slate-500">
+          {method ? `From ${method.label}` : "Select a bank account above to pay,"}
+        </div>
+        <button
+          type="button"
+          disabled={busy || !method}
+          onClick={pay}
+          className="rounded-md bg-slate-900 px-3 py-1.5 text-[11px] font-medium text-white hover:bg-black disabled:opacity-60"
+        >
+          {busy ? "Starting payment…" : `Pay ${money(totalCents)} in late fees`}
+        </button>
+      </div>
+      {msg && <p className="mt-2 text-xs text-rose-700">{msg}</p>}
+    </section>
+  );
+}
@@ -9,6 +9,8 @@ import {
   useElements,
 } from "@stripe/react-stripe-js";
 import { CheckCircle2, X } from "lucide-react";
+import AutopayCard from "./AutopayCard";
+import LateFeesCard from "./LateFeesCard";
 /* ─────────────────────────────────────────────────────────────
    Small utilities
 ───────────────────────────────────────────────────────────── */
@@ -150,6 +152,7 @@ type ChargesApi = {
   dueDepositCents: number;
   grossUpfrontCents: number;
   grossDepositCents: number;
+  dueFeeCents?: number;
   windows?: {
     dueNowCents: number;
     dueBeforeMoveInCents: number;
@@ -1464,6 +1467,22 @@ export default function PaymentsDesktop({
           )}
         </section>
 
+        {/* Late fees */}
+        <LateFeesCard
+          appId={appId}
+          firmId={firmId}
+          fees={(chargesApi?.charges ?? []).filter((c) => c.bucket === "fee")}
+          method={activeMethod ? { id: activeMethod.id, label: activeBankLabelForModal } : null}
+          onPaid={async (amountCents) => {
+            setLastPayment({ amountCents, bankLabel: activeBankLabelForModal });
+            setShowPaymentModal(true);
+            await refreshReceipts();
+          }}
+        />
+
+        {/* Rent autopay */}
+        <AutopayCard appId={appId} wallet={wallet} defaultPaymentMethodId={walletDefaultId} />
+
         {/* Payment selector */}
         <section className="grid grid-cols-1 gap-4 md:grid-cols-1">
           <CardShell
@@ -14,6 +14,8 @@ export type AppState =
   | "min_paid"
   | "countersigned"
   | "occupied"
+  | "moved_out"
+  | "waitlisted"
   | "rejected"
   | "withdrawn";
 
@@ -24,8 +26,11 @@ export type Action =
   | "set_terms"
   | "system_min_ready"
   | "payment_updated"
+  | "payment_reversed"
   | "signatures_completed"
   | "tick_clock"
+  | "move_out"
+  | "waitlist"
   | "reject"
   | "withdraw";
 
@@ -51,14 +56,69 @@ export type GuardContext = {
   terms?: Terms | null;           // snapshot when setting terms
   minRules?: MinRule[] | null;    // countersign thresholds, across buckets
   signaturesCount?: number;       // completed signatures (tenant + landlord)
+  signaturesRequired?: number;    // signers on the envelope, never fewer than 2
   paymentTotals?: Partial<Record<MoneyBucket, number>>; // succeeded totals
   now?: Date;                     // overrideable clock for tests
 };
 
+export const APP_STATES: readonly AppState[] = [
+  "draft",
+  "submitted",
+  "admin_screened",
+  "approved_high",
+  "terms_set",
+  "min_due",
+  "min_paid",
+  "countersigned",
+  "occupied",
+  "moved_out",
+  "waitlisted",
+  "rejected",
+  "withdrawn",
+];
+
+// Values older routes wrote before everything went through computeNextState
+const LEGACY_STATES: Record<string, AppState> = {
+  new: "submitted",
+  in_review: "admin_screened",
+  needs_approval: "admin_screened",
+  approved: "approved_high",
+  approved_pending_lease: "approved_high",
+  approved_ready_to_lease: "approved_high",
+  accepted_held: "approved_high",
+  approved_pending_payment: "min_due",
+  countersign_ready: "min_paid",
+  leased: "countersigned",
+};
+
+/** Map a stored status onto the state machine; null if it's not one we know */
+export function normalizeAppState(raw: unknown): AppState | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  if (!s) return "draft";
+  if ((APP_STATES as readonly string[]).includes(s)) return s as AppState;
+  return LEGACY_STATES[s] ?? null;
+}
+
+/** Stored statuses that normalize to `state`, for querying by state */
+export function storedStatusesFor(state: AppState): string[] {
+  return [state, ...Object.keys(LEGACY_STATES).filter((k) => LEGACY_STATES[k] === state)];
+}
+
 /* ─────────────────────────────────────────────────────────────
    Helpers (small, pure)
 ───────────────────────────────────────────────────────────── */
 
+const WITHDRAWABLE: AppState[] = [
+  "draft",
+  "submitted",
+  "admin_screened",
+  "approved_high",
+  "terms_set",
+  "min_due",
+  "min_paid",
+  "waitlisted",
+];
+
 // Treat missing numbers as zero, keep it resilient
 const n = (v: unknown) => (typeof v === "number" && isFinite(v) ? v : 0);
 
@@ -99,7 +159,7 @@ export function computeNextState(
 	}
 
     case "admin_screen": {
-      if (current === "submitted" && role === "admin") {
+      if (current === "submitted" && (role === "admin" || role === "manager")) {
         return "admin_screened";
       }
       break;
@@ -144,8 +204,17 @@ export function computeNextState(
       break;
     }
 
+    case "payment_reversed": {
+      // Returned/disputed/refunded money can drop settled totals back under the minimum
+      if (current === "min_paid" && role === "system" && !countersignMinimumSatisfied(ctx.minRules, ctx.paymentTotals)) {
+        return "min_due";
+      }
+      break;
+    }
+
     case "signatures_completed": {
-      if (current === "min_paid" && role === "system" && (ctx.signaturesCount ?? 0) >= 2) {
+      const required = Math.max(2, n(ctx.signaturesRequired));
+      if (current === "min_paid" && role === "system" && n(ctx.signaturesCount) >= required) {
         return "countersigned";
       }
       break;
@@ -160,13 +229,28 @@ export function computeNextState(
       break;
     }
 
+    case "move_out": {
+      if ((current === "occupied" || current === "countersigned") && role !== "tenant") return "moved_out";
+      break;
+    }
+
+    case "waitlist": {
+      // Another application won the unit
+      if ((current === "submitted" || current === "admin_screened") && (role === "admin" || role === "manager")) {
+        return "waitlisted";
+      }
+      break;
+    }
+
     case "reject": {
-      if (current === "submitted" && role === "manager") return "rejected";
+      // Firm members can reject; the system does on reviewer auto-reject
+      if ((current === "submitted" || current === "admin_screened") && role !== "tenant") return "rejected";
       break;
     }
 
     case "withdraw": {
-      if (current === "submitted" && role === "tenant") return "withdrawn";
+      // Any time before the lease is countersigned
+      if (role === "tenant" && WITHDRAWABLE.includes(current)) return "withdrawn";
       break;
     }
   }
@@ -179,15 +263,17 @@ export function computeNextState(
    Optional: declare allowed actions per state (for UI hints)
 ───────────────────────────────────────────────────────────── */
 export const AllowedActions: Record<AppState, Action[]> = {
-  draft: ["submit"],
-  submitted: ["admin_screen", "approve_high", "reject", "withdraw"],
-  admin_screened: ["approve_high"],
-  approved_high: ["set_terms"],
-  terms_set: ["system_min_ready"],
-  min_due: ["payment_updated"],
-  min_paid: ["signatures_completed"],
-  countersigned: ["tick_clock"],
-  occupied: [],
+  draft: ["submit", "withdraw"],
+  submitted: ["admin_screen", "approve_high", "waitlist", "reject", "withdraw"],
+  admin_screened: ["approve_high", "waitlist", "reject", "withdraw"],
+  approved_high: ["set_terms", "withdraw"],
+  terms_set: ["system_min_ready", "withdraw"],
+  min_due: ["payment_updated", "withdraw"],
+  min_paid: ["signatures_completed", "payment_reversed", "withdraw"],
+  countersigned: ["tick_clock", "move_out"],
+  occupied: ["move_out"],
+  moved_out: [],
+  waitlisted: ["withdraw"],
   rejected: [],
   withdrawn: [],
 };
@@ -0,0 +1,173 @@
+// lib/applications/answers.ts
+// Answer validation against a form's question definitions. Pure (types only) so
+// ApplyClient shows the same field errors the submit route enforces
+import type { MemberRole } from "@/lib/models";
+import { evaluateQuestions, isEmptyAnswer, type ConditionalQuestion } from "@/lib/applications/conditions";
+
+/** The slice of a question the validator needs; server and client form types both fit */
+export type ValidatedQuestion = ConditionalQuestion & {
+  inputType: string;
+  options?: string[];
+  validation?: { min?: number; max?: number; pattern?: string };
+};
+
+export type AnswerErrorCode =
+  | "required"
+  | "unknown_question"
+  | "bad_value"
+  | "not_a_number"
+  | "below_min"
+  | "above_max"
+  | "bad_date"
+  | "bad_email"
+  | "bad_phone"
+  | "not_boolean"
+  | "not_an_option"
+  | "bad_pattern"
+  | "too_long";
+
+export type FieldError = { code: AnswerErrorCode; message: string };
+
+type Coerced = { ok: true; value: any } | { ok: false; error: FieldError };
+
+const MAX_TEXT = { short_text: 500, long_text: 5000 } as Record<string, number>;
+
+const fail = (code: AnswerErrorCode, message: string): Coerced => ({ ok: false, error: { code, message } });
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toNumber(raw: any, currency: boolean): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string") return null;
+  const s = currency ? raw.replace(/[$,\s]/g, "") : raw.trim();
+  if (!s || !/^-?\d*\.?\d+$/.test(s)) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toIsoDate(raw: any): string | null {
+  if (typeof raw !== "string") return null;
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(raw.trim());
+  if (!m) return null;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  // Rejects 2025-02-30 and friends, which Date would roll over
+  if (d.getUTCFullYear() !== Number(m[1]) || d.getUTCMonth() !== Number(m[2]) - 1 || d.getUTCDate() !== Number(m[3])) {
+    return null;
+  }
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+function matchOption(options: string[], raw: any): string | null {
+  if (typeof raw !== "string" && typeof raw !== "number") return null;
+  const want = String(raw).trim().toLowerCase();
+  return options.find((o) => o.trim().toLowerCase() === want) ?? null;
+}
+
+/**
+ * Check one non-empty answer against its question and return the value in its
+ * stored shape (numbers as numbers, dates as YYYY-MM-DD, phones as 10 digits).
+ * Empty answers pass through; whether they're allowed is a requirement question.
+ */
+export function coerceAnswer(q: ValidatedQuestion, raw: any): Coerced {
+  if (isEmptyAnswer(raw)) return { ok: true, value: raw };
+  if (typeof raw === "object" && !Array.isArray(raw)) return fail("bad_value", "Invalid answer");
+
+  let value: any;
+  switch (q.inputType) {
+    case "short_text":
+    case "long_text": {
+      if (typeof raw !== "string" && typeof raw !== "number") return fail("bad_value", "Must be text");
+      value = String(raw);
+      if (value.length > MAX_TEXT[q.inputType]) return fail("too_long", `Keep it under ${MAX_TEXT[q.inputType]} characters`);
+      break;
+    }
+    case "number":
+    case "currency": {
+      const n = toNumber(raw, q.inputType === "currency");
+      if (n === null) return fail("not_a_number", "Must be a number");
+      value = q.inputType === "currency" ? Math.round(n * 100) / 100 : n;
+      if (q.validation?.min !== undefined && value < q.validation.min) return fail("below_min", `Min ${q.validation.min}`);
+      if (q.validation?.max !== undefined && value > q.validation.max) return fail("above_max", `Max ${q.validation.max}`);
+      return { ok: true, value };
+    }
+    case "date": {
+      value = toIsoDate(raw);
+      if (!value) return fail("bad_date", "Enter a valid date");
+      return { ok: true, value };
+    }
+    case "email": {
+      value = String(raw).trim().toLowerCase();
+      if (!EMAIL_RE.test(value)) return fail("bad_email", "Enter a valid email");
+      break;
+    }
+    case "phone": {
+      let digits = String(raw).replace(/\D/g, "");
+      if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+      if (digits.length !== 10) return fail("bad_phone", "Enter a 10-digit phone number");
+      value = digits;
+      break;
+    }
+    case "yes_no": {
+      if (typeof raw === "boolean") return { ok: true, value: raw };
+      const s = String(raw).trim().toLowerCase();
+      if (s === "yes" || s === "true") return { ok: true, value: true };
+      if (s === "no" || s === "false") return { ok: true, value: false };
+      return fail("not_boolean", "Choose yes or no");
+    }
+    case "select_single": {
+      value = matchOption(q.options ?? [], raw);
+      if (value === null) return fail("not_an_option", "Choose one of the options");
+      return { ok: true, value };
+    }
+    case "select_multi": {
+      const picked = Array.isArray(raw) ? raw : [raw];
+      const out: string[] = [];
+      for (const p of picked) {
+        const o = matchOption(q.options ?? [], p);
+        if (o === null) return fail("not_an_option", "Choose from the listed options");
+        if (!out.includes(o)) out.push(o);
+      }
+      return { ok: true, value: out };
+    }
+    default:
+      // file and anything newer: stored as sent, uploads are checked elsewhere
+      return { ok: true, value: raw };
+  }
+
+  if (q.validation?.pattern) {
+    try {
+      if (!new RegExp(q.validation.pattern).test(value)) return fail("bad_pattern", "Invalid format");
+    } catch {} // a broken builder pattern shouldn't lock applicants out
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Validate one member's answers for their role: visible questions are type
+ * checked, required ones must be answered, hidden ones are ignored.
+ * `values` holds the coerced answers to store on success.
+ */
+export function validateMemberAnswers(
+  questions: ValidatedQuestion[],
+  role: MemberRole,
+  answers: Record<string, any> | undefined
+) {
+  const ans = answers ?? {};
+  const states = evaluateQuestions(questions, role, ans);
+  const errors: Record<string, FieldError> = {};
+  const values: Record<string, any> = {};
+
+  for (const q of questions) {
+    const state = states[q.id];
+    if (!state?.visible) continue;
+    const raw = ans[q.id];
+    if (isEmptyAnswer(raw)) {
+      if (state.required) errors[q.id] = { code: "required", message: "Required" };
+      continue;
+    }
+    const res = coerceAnswer(q, raw);
+    if (res.ok) values[q.id] = res.value;
+    else errors[q.id] = res.error;
+  }
+  return { ok: Object.keys(errors).length === 0, errors, values };
+}
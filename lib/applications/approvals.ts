@@ -0,0 +1,214 @@
+// lib/applications/approvals.ts
+// Review/approval subsystem: reviewers record recommendations, approvers record
+// the final decision, and the firm's approvalPolicy decides who may approve when
+import { ObjectId, type Db } from "mongodb";
+import type {
+  ApplicationApprovalDoc,
+  ApplicationReviewDoc,
+  ApprovalDecision,
+  OrgDoc,
+  ReviewDecision,
+} from "@/lib/models";
+import { rid } from "@/lib/ids";
+
+export type ApprovalPolicy = OrgDoc["settings"]["approvalPolicy"];
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  requireReviewerBeforeApprover: false,
+  fourEyes: false,
+  autoRejectThreshold: null,
+};
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ["recommend_approve", "needs_info", "reject"];
+
+/** Why an approve is blocked by policy; null when it may proceed */
+export type ApprovalBlocker = "review_required" | "review_not_favorable" | "four_eyes_required";
+
+/** Reviewer id used for decisions the system makes on its own */
+export const SYSTEM_ACTOR = "system";
+
+const MAX_NOTES = 2000;
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+/** Stored/legacy policy → complete policy */
+export function normalizeApprovalPolicy(raw: any): ApprovalPolicy {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_APPROVAL_POLICY };
+  const t = Number(raw.autoRejectThreshold);
+  return {
+    requireReviewerBeforeApprover: !!raw.requireReviewerBeforeApprover,
+    fourEyes: !!raw.fourEyes,
+    autoRejectThreshold: Number.isInteger(t) && t > 0 ? t : null,
+  };
+}
+
+/** Validate a policy submitted from the firm settings screen */
+export function validateApprovalPolicy(input: any) {
+  const t = input?.autoRejectThreshold;
+  if (t != null && t !== "") {
+    const n = Number(t);
+    if (!Number.isInteger(n) || n < 1 || n > 20) {
+      return { ok: false as const, error: "bad_auto_reject_threshold" };
+    }
+  }
+  return { ok: true as const, policy: normalizeApprovalPolicy(input) };
+}
+
+export async function loadApprovalPolicy(db: Db, firmId: string): Promise<ApprovalPolicy> {
+  const firm = await db
+    .collection<any>("firms")
+    .findOne(firmFilter(firmId), { projection: { "settings.approvalPolicy": 1 } });
+  return normalizeApprovalPolicy(firm?.settings?.approvalPolicy);
+}
+
+/** Reviews for one application, newest first */
+export async function listReviews(db: Db, appId: string) {
+  return db
+    .collection<ApplicationReviewDoc>("application_reviews")
+    .find({ applicationId: appId })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/** Approvals for one application, newest first; at most one is effective */
+export async function listApprovals(db: Db, appId: string) {
+  return db
+    .collection<ApplicationApprovalDoc>("application_approvals")
+    .find({ applicationId: appId })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Whether `approverUserId` may approve given the reviews so far (newest first).
+ * requireReviewerBeforeApprover: the latest review must recommend approval.
+ * fourEyes: only reviews by someone other than the approver count.
+ */
+export function approvalBlocker(
+  policy: ApprovalPolicy,
+  reviews: Pick<ApplicationReviewDoc, "reviewerUserId" | "decision">[],
+  approverUserId: string
+): ApprovalBlocker | null {
+  if (!policy.requireReviewerBeforeApprover && !policy.fourEyes) return null;
+
+  const pool = policy.fourEyes
+    ? reviews.filter((r) => String(r.reviewerUserId) !== approverUserId)
+    : reviews;
+  const latest = pool[0];
+  if (!latest) return policy.fourEyes && reviews.length ? "four_eyes_required" : "review_required";
+  if (latest.decision !== "recommend_approve") return "review_not_favorable";
+  return null;
+}
+
+/**
+ * autoRejectThreshold = number of distinct reviewers whose latest review is
+ * `reject`; reaching it rejects the application without an approver.
+ */
+export function shouldAutoReject(
+  policy: ApprovalPolicy,
+  reviews: Pick<ApplicationReviewDoc, "reviewerUserId" | "decision">[]
+) {
+  const threshold = policy.autoRejectThreshold;
+  if (!threshold) return false;
+  const latestByReviewer = new Map<string, ReviewDecision>();
+  for (const r of reviews) {
+    const k = String(r.reviewerUserId);
+    if (!latestByReviewer.has(k)) latestByReviewer.set(k, r.decision);
+  }
+  let rejects = 0;
+  for (const d of latestByReviewer.values()) if (d === "reject") rejects++;
+  return rejects >= threshold;
+}
+
+export async function recordReview(
+  db: Db,
+  args: { firmId: string; appId: string; reviewerUserId: string; decision: ReviewDecision; notes?: string | null }
+) {
+  const doc: ApplicationReviewDoc = {
+    _id: `rvw_${rid()}`,
+    orgId: args.firmId,
+    applicationId: args.appId,
+    reviewerUserId: args.reviewerUserId,
+    decision: args.decision,
+    ...(args.notes ? { notes: String(args.notes).slice(0, MAX_NOTES) } : {}),
+    createdAt: new Date(),
+  };
+  await db.collection<ApplicationReviewDoc>("application_reviews").insertOne(doc);
+  return doc;
+}
+
+/**
+ * Record an approver's decision as the single effective approval. Earlier
+ * effective rows are superseded first; the unique partial index on
+ * { applicationId, effective: true } turns a concurrent insert into a retry.
+ */
+export async function recordApproval(
+  db: Db,
+  args: { firmId: string; appId: string; approverUserId: string; decision: ApprovalDecision; notes?: string | null }
+) {
+  const col = db.collection<ApplicationApprovalDoc>("application_approvals");
+  const doc: ApplicationApprovalDoc = {
+    _id: `apv_${rid()}`,
+    orgId: args.firmId,
+    applicationId: args.appId,
+    approverUserId: args.approverUserId,
+    decision: args.decision,
+    ...(args.notes ? { notes: String(args.notes).slice(0, MAX_NOTES) } : {}),
+    effective: true,
+    createdAt: new Date(),
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    await col.updateMany(
+      { applicationId: args.appId, effective: true },
+      { $set: { effective: false, supersededAt: doc.createdAt, supersededBy: doc._id } }
+    );
+    try {
+      await col.insertOne(doc);
+      return doc;
+    } catch (e: any) {
+      if (e?.code !== 11000 || attempt >= 2) throw e;
+    }
+  }
+}
+
+/**
+ * Take back a review or approval whose decision didn't go through (the status
+ * moved under us). A withdrawn approval hands `effective` back to the row it
+ * superseded.
+ */
+export async function withdrawReview(db: Db, review: ApplicationReviewDoc) {
+  await db.collection<ApplicationReviewDoc>("application_reviews").deleteOne({ _id: review._id });
+}
+
+export async function withdrawApproval(db: Db, approval: ApplicationApprovalDoc) {
+  const col = db.collection<ApplicationApprovalDoc>("application_approvals");
+  await col.deleteOne({ _id: approval._id });
+  await col.findOneAndUpdate(
+    { supersededBy: approval._id },
+    { $set: { effective: true }, $unset: { supersededAt: "", supersededBy: "" } },
+    { sort: { createdAt: -1 } }
+  );
+}
+
+export function reviewToWire(r: ApplicationReviewDoc) {
+  return {
+    id: String(r._id),
+    reviewerUserId: String(r.reviewerUserId),
+    decision: r.decision,
+    notes: r.notes ?? null,
+    createdAt: r.createdAt,
+  };
+}
+
+export function approvalToWire(a: ApplicationApprovalDoc) {
+  return {
+    id: String(a._id),
+    approverUserId: String(a.approverUserId),
+    decision: a.decision,
+    notes: a.notes ?? null,
+    effective: !!a.effective,
+    createdAt: a.createdAt,
+  };
+}
@@ -0,0 +1,159 @@
+// lib/applications/blindReview.ts
+// Fair-housing blind review. While the firm setting is on, landlord views hide
+// member names and emails, dates of birth, photos (images and ID documents) and
+// answers to questions flagged `sensitive`. Nothing is revealed until a reviewer
+// has recorded a recommendation; after that each field is revealed on request,
+// stamped on the application and written to audit_log.
+import { ObjectId, type Db } from "mongodb";
+import type {
+  ApplicationDocumentDoc,
+  ApplicationFormDoc,
+  ApplicationReviewDoc,
+  AuditLogDoc,
+  BlindReviewField,
+} from "@/lib/models";
+import { SYSTEM_ACTOR } from "@/lib/applications/approvals";
+import { idEq } from "@/lib/ids";
+
+export type BlindReviewSettings = { enabled: boolean };
+
+export const BLIND_REVIEW_FIELDS: BlindReviewField[] = ["names", "dob", "photos", "sensitive_answers"];
+
+/** Placeholder shown instead of a masked value */
+export const MASKED = "Hidden for blind review";
+
+/** Document kinds that carry the applicant's photo whatever the file type */
+const PHOTO_DOC_KINDS = new Set(["government_id", "photo_id", "drivers_license", "passport"]);
+
+const ROLE_LABELS: Record<string, string> = {
+  primary: "primary",
+  co_applicant: "co-applicant",
+  "co-applicant": "co-applicant",
+  cosigner: "cosigner",
+};
+
+const firmFilter = (firmId: string) =>
+  ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId };
+
+type FormQuestion = Pick<ApplicationFormDoc["questions"][number], "id" | "label" | "inputType" | "sensitive">;
+
+/* ---------- settings ---------- */
+
+export function normalizeBlindReview(raw: any): BlindReviewSettings {
+  return { enabled: !!raw?.enabled };
+}
+
+export async function loadBlindReview(db: Db, firmId: string): Promise<BlindReviewSettings> {
+  const firm = await db
+    .collection<any>("firms")
+    .findOne(firmFilter(firmId), { projection: { "settings.blindReview": 1 } });
+  return normalizeBlindReview(firm?.settings?.blindReview);
+}
+
+/** Fields still hidden on this application; empty when the firm has blind review off */
+export function maskedFields(settings: BlindReviewSettings, app: any): BlindReviewField[] {
+  if (!settings.enabled) return [];
+  const unmasked = app?.blindReview?.unmasked ?? {};
+  return BLIND_REVIEW_FIELDS.filter((f) => !unmasked[f]);
+}
+
+/** Has a person (not the auto-reject rule) recorded a recommendation yet? */
+export async function hasRecommendation(db: Db, appKey: string) {
+  const n = await db
+    .collection<ApplicationReviewDoc>("application_reviews")
+    .countDocuments({ applicationId: appKey, reviewerUserId: { $ne: SYSTEM_ACTOR } }, { limit: 1 });
+  return n > 0;
+}
+
+/* ---------- what counts as what ---------- */
+
+export function isDobQuestion(q: FormQuestion) {
+  const label = String(q.label ?? "");
+  return /\b(date of birth|birth ?date|birthday|dob)\b/i.test(label) || (q.inputType === "date" && /\bborn\b/i.test(label));
+}
+
+export function isNameQuestion(q: FormQuestion) {
+  return (q.inputType === "short_text" || !q.inputType) && /\bname\b/i.test(String(q.label ?? ""));
+}
+
+/** Question ids whose answers stay hidden for the given masked fields */
+export function maskedQuestionIds(questions: FormQuestion[], masked: BlindReviewField[]) {
+  const out = new Set<string>();
+  if (!masked.length) return out;
+  for (const q of questions) {
+    if (!q?.id) continue;
+    if (
+      (masked.includes("sensitive_answers") && q.sensitive) ||
+      (masked.includes("dob") && isDobQuestion(q)) ||
+      (masked.includes("names") && isNameQuestion(q)) ||
+      (masked.includes("photos") && q.inputType === "file")
+    ) {
+      out.add(String(q.id));
+    }
+  }
+  return out;
+}
+
+export function isPhotoDocument(doc: Pick<ApplicationDocumentDoc, "contentType" | "declaredType" | "docKind">) {
+  const type = String(doc.contentType ?? doc.declaredType ?? "");
+  return type.startsWith("image/") || PHOTO_DOC_KINDS.has(String(doc.docKind ?? ""));
+}
+
+/**
+ * Stable stand-ins for members ("Applicant 2 · co-applicant"), keyed by userId
+ * and by lowercased email, in household order.
+ */
+export function memberAliases(app: any) {
+  const aliases = new Map<string, string>();
+  let n = 0;
+  const add = (userId: any, email: any, role: any) => {
+    const uid = userId ? String(userId) : "";
+    const em = String(email ?? "").toLowerCase();
+    if ((uid && aliases.has(uid)) || (em && aliases.has(em))) return;
+    const alias = `Applicant ${++n} · ${ROLE_LABELS[String(role ?? "")] ?? "co-applicant"}`;
+    if (uid) aliases.set(uid, alias);
+    if (em) aliases.set(em, alias);
+  };
+  for (const m of Array.isArray(app?.members) ? app.members : []) add(m?.userId, m?.email, m?.role);
+  for (const [userId, bucket] of Object.entries<any>(app?.answersByMember ?? {})) add(userId, bucket?.email, bucket?.role);
+  return aliases;
+}
+
+/* ---------- revealing ---------- */
+
+/**
+ * Reveal masked fields on one application. Only possible once a recommendation
+ * exists; each newly revealed field is stamped and audit-logged with the actor.
+ */
+export async function revealBlindFields(
+  db: Db,
+  input: { app: any; firmId: string; fields: BlindReviewField[]; by: string }
+) {
+  const settings = await loadBlindReview(db, input.firmId);
+  if (!settings.enabled) return { ok: false as const, error: "blind_review_off" };
+
+  const appKey = String(input.app._id);
+  if (!(await hasRecommendation(db, appKey))) return { ok: false as const, error: "recommendation_required" };
+
+  const masked = maskedFields(settings, input.app);
+  const fields = input.fields.filter((f) => masked.includes(f));
+  if (!fields.length) return { ok: true as const, revealed: [] as BlindReviewField[], masked };
+
+  const now = new Date();
+  const $set: Record<string, unknown> = {};
+  for (const f of fields) $set[`blindReview.unmasked.${f}`] = { at: now, by: input.by };
+  await db.collection<any>("applications").updateOne(idEq("_id", appKey), { $set });
+
+  const entry: AuditLogDoc = {
+    _id: `al_${crypto.randomUUID()}`,
+    orgId: input.firmId,
+    actorUserId: input.by,
+    entity: { type: "application", id: appKey },
+    action: "blind_review.unmask",
+    meta: { fields },
+    at: now,
+  };
+  await db.collection<AuditLogDoc>("audit_log").insertOne(entry);
+
+  return { ok: true as const, revealed: fields, masked: masked.filter((f) => !fields.includes(f)) };
+}
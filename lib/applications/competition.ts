@@ -0,0 +1,279 @@
+// lib/applications/competition.ts
+// Competing applications: households that applied for the same building/unit.
+// Reviewers compare them side by side and set a rank order; once one is
+// approved the others that are still open can go to the waitlist, and each of
+// those households is told by email.
+import { ObjectId, type Db } from "mongodb";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { loadFormVersion } from "@/lib/applications/formVersions";
+import { loadBlindReview, maskedFields, memberAliases } from "@/lib/applications/blindReview";
+import { transitionApplication } from "@/lib/applications/transitions";
+import { idEq } from "@/lib/ids";
+
+/** Still being decided; only these can be ranked against each other or waitlisted */
+export const OPEN_STATUSES = ["submitted", "admin_screened"];
+/** Statuses that mean the unit has gone to this household */
+export const APPROVED_STATUSES = ["approved_high", "terms_set", "min_due", "min_paid", "countersigned", "occupied"];
+
+const MAX_GROUP = 100;
+
+const norm = (v: any) => String(v ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/* ---------- grouping ---------- */
+
+/**
+ * Stable key for the building/unit an application is for, or null when it has
+ * neither. A linked inventory unit wins, then structured building addresses,
+ * then free-text property names.
+ */
+export function unitKeyOf(app: any): string | null {
+  if (app?.unitId) return `unit:${app.unitId}`;
+  const b = app?.building && typeof app.building === "object" ? app.building : null;
+  const place = b ? [norm(b.addressLine1), norm(b.postalCode)].filter(Boolean).join(",") : norm(app?.property?.name ?? app?.property);
+  const u = app?.unit;
+  const unit = u && typeof u === "object" ? norm(u.unitNumber ?? u.label) : norm(u);
+  if (!place && !unit) return null;
+  return `${place}|${unit}`;
+}
+
+/** "12 Elm St · Unit 3" */
+export function unitLabelOf(app: any): string {
+  const b = app?.building && typeof app.building === "object" ? app.building : null;
+  const place = b?.addressLine1 ? String(b.addressLine1) : String(app?.property?.name ?? app?.property ?? "");
+  const u = app?.unit;
+  const unit = u && typeof u === "object" ? u.unitNumber ?? u.label : u;
+  return [place, unit ? `Unit ${unit}` : ""].filter(Boolean).join(" · ") || "Unassigned unit";
+}
+
+/** Applications owned by the firm directly or through one of its forms */
+async function firmApplicationsFilter(db: Db, firmId: string) {
+  const forms = await db
+    .collection("application_forms")
+    .find(idEq("firmId", firmId), { projection: { _id: 1 } })
+    .limit(2000)
+    .toArray();
+  const formIds = forms.flatMap((f: any) => {
+    const s = String(f._id);
+    return ObjectId.isValid(s) ? [s, new ObjectId(s)] : [s];
+  });
+  const or: any[] = [idEq("firmId", firmId)];
+  if (formIds.length) or.push({ formId: { $in: formIds } });
+  return { $or: or };
+}
+
+/** Every non-draft application for the same unit, the given one included */
+export async function loadUnitGroup(db: Db, firmId: string, app: any) {
+  const key = unitKeyOf(app);
+  if (!key) return { key: null, label: unitLabelOf(app), apps: [app] };
+  const rows = await db
+    .collection<any>("applications")
+    .find(
+      { ...(await firmApplicationsFilter(db, firmId)), status: { $nin: ["draft", "withdrawn"] } },
+      {
+        projection: {
+          _id: 1, formId: 1, formVersion: 1, householdId: 1, status: 1, members: 1, answersByMember: 1,
+          building: 1, unit: 1, property: 1, unitId: 1, protoLease: 1, paymentPlan: 1, scorecard: 1, tasks: 1,
+          competition: 1, blindReview: 1, submittedAt: 1, createdAt: 1,
+        },
+      }
+    )
+    .sort({ submittedAt: -1, createdAt: -1 })
+    .limit(2000)
+    .toArray();
+  const apps = rows.filter((r) => unitKeyOf(r) === key).slice(0, MAX_GROUP);
+  return { key, label: unitLabelOf(app), apps };
+}
+
+/* ---------- comparison ---------- */
+
+/** Earliest move-in the household asked for: lease terms first, then a "move-in" date answer */
+function moveInOf(app: any, moveInQuestionIds: Set<string>): string | null {
+  const fromTerms = app?.protoLease?.moveInDate ?? app?.paymentPlan?.startDate;
+  if (fromTerms) return String(fromTerms).slice(0, 10);
+  const dates: string[] = [];
+  for (const bucket of Object.values<any>(app?.answersByMember ?? {})) {
+    for (const [qid, v] of Object.entries<any>(bucket?.answers ?? {})) {
+      if (moveInQuestionIds.has(qid) && typeof v === "string" && /^\d{4}-\d{2}-\d{2}/.test(v)) dates.push(v.slice(0, 10));
+    }
+  }
+  return dates.sort()[0] ?? null;
+}
+
+function householdSizeOf(app: any) {
+  const people = new Set<string>();
+  for (const [userId, bucket] of Object.entries<any>(app?.answersByMember ?? {})) {
+    if (bucket?.role !== "cosigner") people.add(userId);
+  }
+  for (const m of Array.isArray(app?.members) ? app.members : []) {
+    const k = String(m?.userId ?? m?.email ?? "");
+    if (k && m?.role !== "cosigner") people.add(k);
+  }
+  return people.size;
+}
+
+/** Side-by-side rows, ranked ones first in rank order, then newest. Names follow blind review. */
+export async function compareGroup(db: Db, firmId: string, apps: any[]) {
+  const blind = await loadBlindReview(db, firmId);
+  const moveInIds = new Map<string, Set<string>>();
+
+  const rows = [];
+  for (const app of apps) {
+    const formKey = `${app.formId}:${app.formVersion ?? ""}`;
+    if (!moveInIds.has(formKey)) {
+      const form = await loadFormVersion(db, String(app.formId ?? ""), app.formVersion);
+      moveInIds.set(
+        formKey,
+        new Set((form?.questions ?? []).filter((q: any) => q.inputType === "date" && /move[\s-]?in/i.test(String(q.label ?? ""))).map((q: any) => String(q.id)))
+      );
+    }
+    const appKey = String(app._id);
+    const aliases = maskedFields(blind, app).includes("names") ? memberAliases(app) : null;
+    const primary =
+      (Array.isArray(app.members) ? app.members : []).find((m: any) => m?.role === "primary") ??
+      (Array.isArray(app.members) ? app.members[0] : null);
+    const primaryKey = primary ? String(primary.userId ?? String(primary.email ?? "").toLowerCase()) : "";
+    const missingDocs = app.tasks?.missingDocs;
+
+    rows.push({
+      appId: appKey,
+      householdId: app.householdId ? String(app.householdId) : null,
+      status: String(app.status ?? "submitted"),
+      label: aliases ? aliases.get(primaryKey) ?? "Household" : String(primary?.name || primary?.email || "Household"),
+      rank: typeof app.competition?.rank === "number" ? app.competition.rank : null,
+      submittedAt: app.submittedAt ?? app.createdAt ?? null,
+      householdSize: householdSizeOf(app),
+      incomeToRent: app.scorecard?.incomeToRent ?? null,
+      score: app.scorecard ? { score: Number(app.scorecard.score ?? 0), result: app.scorecard.result } : null,
+      moveInDate: moveInOf(app, moveInIds.get(formKey)!),
+      docsComplete: missingDocs == null ? null : Number(missingDocs) === 0,
+      missingDocs: missingDocs == null ? null : Number(missingDocs),
+    });
+  }
+
+  rows.sort(
+    (a, b) =>
+      (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+      String(b.submittedAt ?? "").localeCompare(String(a.submittedAt ?? ""))
+  );
+  return rows;
+}
+
+/* ---------- ranking ---------- */
+
+/**
+ * Rank the group's open applications in the given order (1 = first choice).
+ * Open applications left out of `order` lose their rank.
+ */
+export async function rankGroup(db: Db, input: { firmId: string; app: any; order: string[]; by: string }) {
+  const group = await loadUnitGroup(db, input.firmId, input.app);
+  const open = new Map(group.apps.filter((a) => OPEN_STATUSES.includes(String(a.status))).map((a) => [String(a._id), a]));
+  const order = Array.from(new Set(input.order));
+  if (order.some((id) => !open.has(id))) return { ok: false as const, error: "not_in_group" };
+
+  const now = new Date();
+  const col = db.collection<any>("applications");
+  for (const [appKey, a] of open) {
+    const idx = order.indexOf(appKey);
+    const rank = idx >= 0 ? idx + 1 : null;
+    if ((a.competition?.rank ?? null) === rank) continue;
+    await col.updateOne(idEq("_id", appKey), {
+      $set: { competition: { rank, rankedAt: now, rankedBy: input.by }, updatedAt: now },
+      $push: { timeline: { at: now, by: input.by, event: "competition.ranked", meta: { rank, of: order.length } } } as any,
+    });
+  }
+  return { ok: true as const, key: group.key };
+}
+
+/* ---------- waitlist ---------- */
+
+async function householdRecipients(app: any) {
+  const out = new Set<string>();
+  const add = (e: any) => {
+    const s = String(e ?? "").trim().toLowerCase();
+    if (s) out.add(s);
+  };
+  for (const bucket of Object.values<any>(app.answersByMember ?? {})) add(bucket?.email);
+  for (const m of Array.isArray(app.members) ? app.members : []) add(m?.email);
+  for (const e of await getHouseholdEmails(app.householdId ?? null)) add(e);
+  return Array.from(out);
+}
+
+function waitlistEmail(unitLabel: string, firmName: string) {
+  const subject = `Your application for ${unitLabel} is on the waitlist`;
+  const text = [
+    "Hello,",
+    "",
+    `${firmName} has accepted another application for ${unitLabel}. Your application has been placed on the waitlist rather than declined.`,
+    "If the unit becomes available again, your application will be considered without you having to reapply. You can withdraw it at any time from your applications page.",
+    "",
+    `— ${firmName}`,
+  ].join("\n");
+  return { subject, text };
+}
+
+/**
+ * Move the group's other open applications to the waitlist once `approved` has
+ * the unit, optionally only `appIds`. Status changes are conditional on the
+ * application still being open; every moved household is emailed.
+ */
+export async function waitlistCompetitors(
+  db: Db,
+  input: { firmId: string; approved: any; appIds?: string[] | null; by: string }
+) {
+  if (!APPROVED_STATUSES.includes(String(input.approved.status))) return { ok: false as const, error: "not_approved" };
+  const group = await loadUnitGroup(db, input.firmId, input.approved);
+  if (!group.key) return { ok: false as const, error: "no_unit" };
+
+  const approvedKey = String(input.approved._id);
+  const targets = group.apps.filter(
+    (a) =>
+      String(a._id) !== approvedKey &&
+      OPEN_STATUSES.includes(String(a.status)) &&
+      (!input.appIds || input.appIds.includes(String(a._id)))
+  );
+
+  const firm = await db.collection<any>("firms").findOne(idEq("_id", input.firmId), { projection: { name: 1 } });
+  const mail = waitlistEmail(group.label, String(firm?.name ?? "The landlord"));
+
+  const moved: { appId: string; notified: number; failed: number }[] = [];
+  for (const a of targets) {
+    const appKey = String(a._id);
+    const now = new Date();
+    const res = await transitionApplication(db, {
+      app: a,
+      steps: { action: "waitlist", role: "manager" },
+      by: input.by,
+      firmId: input.firmId,
+      set: { waitlist: { at: now, by: input.by, forAppId: approvedKey } },
+      timeline: [{ at: now, by: input.by, event: "competition.waitlisted", meta: { forAppId: approvedKey } }],
+      now,
+    });
+    if (!res.ok) continue;
+
+    let notified = 0;
+    let failed = 0;
+    for (const to of await householdRecipients(a)) {
+      const r = await sendMail({ to, ...mail, idempotencyKey: `waitlist:${appKey}:${to}`, traceId: appKey });
+      if (r.ok) notified++;
+      else {
+        failed++;
+        console.warn("[waitlist] email failed,", { to, error: (r as any).error });
+      }
+    }
+    moved.push({ appId: appKey, notified, failed });
+  }
+  return { ok: true as const, moved };
+}
+
+/** Open competitors of an approved application, for the "move the others?" prompt */
+export async function openCompetitors(db: Db, firmId: string, app: any) {
+  const group = await loadUnitGroup(db, firmId, app);
+  if (!group.key) return [];
+  const rows = await compareGroup(
+    db,
+    firmId,
+    group.apps.filter((a) => String(a._id) !== String(app._id) && OPEN_STATUSES.includes(String(a.status)))
+  );
+  return rows.map((r) => ({ appId: r.appId, label: r.label, rank: r.rank, status: r.status }));
+}
@@ -0,0 +1,172 @@
+// lib/applications/conditions.ts
+// Show-if / require-if rules between application questions. Kept pure (types only)
+// so ApplyClient and the submit routes evaluate a form exactly the same way
+import type { ConditionGroup, ConditionOp, MemberRole, QuestionCondition } from "@/lib/models";
+
+export const CONDITION_OPS: ConditionOp[] = [
+  "equals",
+  "not_equals",
+  "includes",
+  "not_includes",
+  "answered",
+  "not_answered",
+  "gt",
+  "lt",
+];
+
+/** The slice of a form the rules need; both ApplicationFormDoc and the client form types fit */
+export type ConditionalQuestion = {
+  id: string;
+  required?: boolean;
+  showForRoles?: MemberRole[];
+  showIf?: ConditionGroup;
+  requireIf?: ConditionGroup;
+};
+export type ConditionalQualification = {
+  id: string;
+  audience?: MemberRole[];
+  requirement?: string;
+  requireIf?: ConditionGroup;
+};
+
+export type QuestionState = { visible: boolean; required: boolean };
+
+export function isEmptyAnswer(v: any) {
+  return v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
+}
+
+const norm = (v: any) => String(v ?? "").trim().toLowerCase();
+
+/** One condition against the trigger's answer (undefined when the trigger is hidden) */
+export function evaluateCondition(c: QuestionCondition, answer: any): boolean {
+  switch (c.op) {
+    case "answered":
+      return !isEmptyAnswer(answer);
+    case "not_answered":
+      return isEmptyAnswer(answer);
+    case "equals":
+    case "includes": {
+      if (isEmptyAnswer(answer)) return false;
+      const want = norm(c.value);
+      return Array.isArray(answer) ? answer.some((x) => norm(x) === want) : norm(answer) === want;
+    }
+    case "not_equals":
+    case "not_includes":
+      return !evaluateCondition({ ...c, op: c.op === "not_equals" ? "equals" : "includes" }, answer);
+    case "gt":
+    case "lt": {
+      if (isEmptyAnswer(answer)) return false;
+      const n = Number(answer);
+      const ref = Number(c.value);
+      if (!Number.isFinite(n) || !Number.isFinite(ref)) return false;
+      return c.op === "gt" ? n > ref : n < ref;
+    }
+    default:
+      return false;
+  }
+}
+
+function evaluateGroup(group: ConditionGroup | undefined, answerOf: (qid: string) => any): boolean {
+  const conds = group?.conditions ?? [];
+  if (!conds.length) return true;
+  const hit = (c: QuestionCondition) => evaluateCondition(c, answerOf(c.questionId));
+  return group?.match === "any" ? conds.some(hit) : conds.every(hit);
+}
+
+/**
+ * Visibility and effective requirement of every question for one member.
+ * Answers to hidden questions are ignored, so hiding a trigger also hides
+ * (and un-requires) everything that depends on it.
+ */
+export function evaluateQuestions(
+  questions: ConditionalQuestion[],
+  role: MemberRole,
+  answers: Record<string, any> | undefined
+): Record<string, QuestionState> {
+  const ans = answers ?? {};
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const visible = new Map<string, boolean>();
+  const visiting = new Set<string>();
+
+  const isVisible = (qid: string): boolean => {
+    const cached = visible.get(qid);
+    if (cached !== undefined) return cached;
+    const q = byId.get(qid);
+    if (!q || visiting.has(qid)) return false; // unknown trigger or a cycle: treat as hidden
+    visiting.add(qid);
+    const v = (q.showForRoles ?? []).includes(role) && evaluateGroup(q.showIf, answerOf);
+    visiting.delete(qid);
+    visible.set(qid, v);
+    return v;
+  };
+  const answerOf = (qid: string) => (isVisible(qid) ? ans[qid] : undefined);
+
+  const out: Record<string, QuestionState> = {};
+  for (const q of questions) {
+    const v = isVisible(q.id);
+    out[q.id] = {
+      visible: v,
+      required: v && (!!q.required || (!!q.requireIf?.conditions?.length && evaluateGroup(q.requireIf, answerOf))),
+    };
+  }
+  return out;
+}
+
+/** Whether a member has to provide a qualification: null when it isn't asked of their role */
+export function qualificationRequirement(
+  qual: ConditionalQualification,
+  role: MemberRole,
+  questions: ConditionalQuestion[],
+  answers: Record<string, any> | undefined
+): "required" | "optional" | null {
+  if (!(qual.audience ?? []).includes(role)) return null;
+  if (qual.requirement === "required") return "required";
+  if (qual.requirement !== "conditional" || !qual.requireIf?.conditions?.length) return "optional";
+  const states = evaluateQuestions(questions, role, answers);
+  const ans = answers ?? {};
+  return evaluateGroup(qual.requireIf, (qid) => (states[qid]?.visible ? ans[qid] : undefined))
+    ? "required"
+    : "optional";
+}
+
+/** Check rules on a saved form: known ops, triggers that exist, no self references or show-if cycles */
+export function validateFormConditions(questions: ConditionalQuestion[], qualifications: ConditionalQualification[]) {
+  const ids = new Set(questions.map((q) => q.id));
+
+  const checkGroup = (g: ConditionGroup | undefined, selfId: string | null) => {
+    if (g === undefined || g === null) return null;
+    if (g.match !== "all" && g.match !== "any") return "bad_condition_match";
+    if (!Array.isArray(g.conditions)) return "bad_condition";
+    for (const c of g.conditions) {
+      if (!c || !CONDITION_OPS.includes(c.op)) return "bad_condition_op";
+      if (!ids.has(c.questionId)) return "unknown_condition_question";
+      if (c.questionId === selfId) return "self_referencing_condition";
+    }
+    return null;
+  };
+
+  for (const q of questions) {
+    const err = checkGroup(q.showIf, q.id) ?? checkGroup(q.requireIf, q.id);
+    if (err) return { ok: false as const, error: err, questionId: q.id };
+  }
+  for (const x of qualifications) {
+    const err = checkGroup(x.requireIf, null);
+    if (err) return { ok: false as const, error: err, qualificationId: x.id };
+  }
+
+  // show-if edges must not loop, or every question on the loop silently disappears
+  const deps = new Map(questions.map((q) => [q.id, (q.showIf?.conditions ?? []).map((c) => c.questionId)]));
+  const state = new Map<string, "visiting" | "done">();
+  const loops = (qid: string): boolean => {
+    if (state.get(qid) === "done") return false;
+    if (state.get(qid) === "visiting") return true;
+    state.set(qid, "visiting");
+    const hit = (deps.get(qid) ?? []).some(loops);
+    state.set(qid, "done");
+    return hit;
+  };
+  for (const q of questions) {
+    if (loops(q.id)) return { ok: false as const, error: "condition_cycle", questionId: q.id };
+  }
+  return { ok: true as const };
+}
@@ -0,0 +1,335 @@
+// lib/applications/decisionLetters.ts
+// Letters sent when a landlord rejects or conditionally approves an application.
+// When screening reports fed the decision the letter carries the FCRA adverse
+// action notice (agency, free-copy and dispute rights, and the member's own credit
+// score in their copy). Each letter is stored on the application before it goes
+// out, then every household member gets their copy through the mailer.
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import type {
+  ConsumerReportingAgency,
+  DecisionLetter,
+  DecisionLetterKind,
+  FirmDoc,
+  ScreeningReportDoc,
+} from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { idEq } from "@/lib/ids";
+
+/** Principal reasons a reviewer can give; codes are stored, labels are printed */
+export const ADVERSE_ACTION_REASONS: Record<string, string> = {
+  insufficient_income: "Income insufficient for the rent",
+  unverifiable_income: "Unable to verify income or employment",
+  credit_history: "Credit history",
+  collections: "Accounts in collection",
+  rental_history: "Rental history or landlord references",
+  eviction_history: "Eviction record",
+  criminal_history: "Criminal record, after an individualized assessment",
+  incomplete_application: "Incomplete application",
+  unverifiable_information: "Information could not be verified",
+  unit_unavailable: "Unit no longer available",
+};
+
+const CREDIT_SCORE_RANGE = "300–850";
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+}
+
+type Branding = DecisionLetter["firm"];
+type CreditScore = NonNullable<DecisionLetter["recipients"][number]["creditScore"]>;
+
+function firmBranding(firm: Partial<FirmDoc> | null): Branding {
+  const a = firm?.address;
+  const address = a
+    ? [a.line1, a.line2, [a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" · ")
+    : "";
+  return {
+    name: String(firm?.name || "Your landlord"),
+    logoUrl: firm?.logo?.url ?? null,
+    address: address || null,
+    contactEmail: firm?.contactEmail ?? null,
+    contactPhone: firm?.contactPhone ?? null,
+  };
+}
+
+/** Key factors a credit report gives for its score, in the words of the notice */
+function creditFactors(r: ScreeningReportDoc): string[] {
+  const c = r.result?.credit;
+  if (!c) return [];
+  const out: string[] = [];
+  if (c.delinquencies) out.push(`Delinquent accounts (${c.delinquencies})`);
+  if (c.bankruptcies) out.push("Public record: bankruptcy");
+  if (c.collectionsCents) out.push(`Amount in collections ($${Math.round(c.collectionsCents / 100).toLocaleString("en-US")})`);
+  if (!out.length) out.push("Length of credit history");
+  return out;
+}
+
+/* ---------- rendering ---------- */
+
+type RenderInput = {
+  kind: DecisionLetterKind;
+  firm: Branding;
+  greeting: string;
+  premises: string | null;
+  reasons: string[];
+  reasonNote?: string | null;
+  conditions: string[];
+  agencies: ConsumerReportingAgency[];
+  creditScore?: CreditScore | null;
+  date: Date;
+};
+
+/** Paragraph model shared by the text and HTML renderings */
+function letterBlocks(i: RenderInput) {
+  const forPremises = i.premises ? ` for ${i.premises}` : "";
+  const blocks: ({ p: string } | { h: string } | { list: string[] })[] = [];
+
+  if (i.kind === "rejection") {
+    blocks.push({ p: `Thank you for your rental application${forPremises}. After careful review, we are unable to approve it at this time.` });
+    const labels = i.reasons.map((r) => ADVERSE_ACTION_REASONS[r] ?? r);
+    if (labels.length || i.reasonNote) {
+      blocks.push({ h: "Principal reasons for this decision" });
+      blocks.push({ list: [...labels, ...(i.reasonNote ? [i.reasonNote] : [])] });
+    }
+  } else {
+    blocks.push({
+      p: `Thank you for your rental application${forPremises}. We can approve it, subject to the following conditions:`,
+    });
+    blocks.push({ list: i.conditions });
+    blocks.push({ p: "Please reply to this letter or contact us to let us know whether you accept these conditions." });
+  }
+
+  if (i.agencies.length) {
+    blocks.push({ h: "Notice of adverse action" });
+    blocks.push({
+      p:
+        i.kind === "rejection"
+          ? "This decision was based in whole or in part on information in a consumer report obtained from:"
+          : "These conditions were set based in whole or in part on information in a consumer report obtained from:",
+    });
+    blocks.push({ list: i.agencies.map((a) => [a.name, a.address, a.phone, a.website].filter(Boolean).join(" · ")) });
+    blocks.push({ p: "The consumer reporting agency did not make this decision and is unable to tell you why it was made." });
+    blocks.push({
+      p:
+        "Under the Fair Credit Reporting Act you have the right to obtain a free copy of your report from the agency if you ask " +
+        "within 60 days of receiving this notice, and to dispute with the agency the accuracy or completeness of any information in it.",
+    });
+    if (i.creditScore) {
+      blocks.push({
+        p:
+          `Your credit score: ${i.creditScore.score} (scores range from ${i.creditScore.range}), ` +
+          `as of ${i.creditScore.date.toISOString().slice(0, 10)}. Key factors that affected it:`,
+      });
+      blocks.push({ list: i.creditScore.factors });
+    }
+  }
+
+  blocks.push({ p: `${i.firm.name} is an equal housing opportunity provider.` });
+  const contact = [i.firm.contactEmail, i.firm.contactPhone].filter(Boolean).join(" or ");
+  if (contact) blocks.push({ p: `Questions? Contact us at ${contact}.` });
+  return blocks;
+}
+
+export function renderDecisionLetter(i: RenderInput) {
+  const subject =
+    i.kind === "rejection"
+      ? `Your rental application with ${i.firm.name}`
+      : `Your rental application with ${i.firm.name}: approval with conditions`;
+  const blocks = letterBlocks(i);
+  const dateStr = i.date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+  const text = [
+    i.firm.name,
+    ...(i.firm.address ? [i.firm.address] : []),
+    "",
+    dateStr,
+    "",
+    `${i.greeting},`,
+    "",
+    ...blocks.map((b) => ("p" in b ? b.p : "h" in b ? b.h.toUpperCase() : b.list.map((x) => `  - ${x}`).join("\n"))).flatMap((x) => [x, ""]),
+    "Sincerely,",
+    i.firm.name,
+  ].join("\n");
+
+  const body = blocks
+    .map((b) =>
+      "p" in b
+        ? `<p style="font-size:14px; color:#374151; margin:0 0 12px;">${escapeHtml(b.p)}</p>`
+        : "h" in b
+        ? `<h2 style="font-size:14px; margin:16px 0 8px; color:#111827;">${escapeHtml(b.h)}</h2>`
+        : `<ul style="font-size:14px; color:#374151; margin:0 0 12px; padding-left:20px;">${b.list.map((x) => `<li>${escapeHtml(x)}</li>`).join("")}</ul>`
+    )
+    .join("\n        ");
+  const logo = i.firm.logoUrl
+    ? `<img src="${escapeHtml(i.firm.logoUrl)}" alt="${escapeHtml(i.firm.name)}" style="max-height:40px; margin:0 0 8px;" />`
+    : "";
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: system-ui, -apple-system, Segoe UI, Roboto, Arial; background:#f8fafc; padding:24px">
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width:600px; margin:0 auto; background:#ffffff; border:1px solid #e5e7eb; border-radius:12px">
+      <tr><td style="padding:24px; border-bottom:1px solid #e5e7eb">
+        ${logo}
+        <div style="font-size:16px; font-weight:700; color:#111827;">${escapeHtml(i.firm.name)}</div>
+        ${i.firm.address ? `<div style="font-size:12px; color:#6b7280;">${escapeHtml(i.firm.address)}</div>` : ""}
+      </td></tr>
+      <tr><td style="padding:24px">
+        <p style="font-size:12px; color:#6b7280; margin:0 0 16px;">${escapeHtml(dateStr)}</p>
+        <p style="font-size:14px; color:#374151; margin:0 0 12px;">${escapeHtml(i.greeting)},</p>
+        ${body}
+        <p style="font-size:14px; color:#374151; margin:16px 0 0;">Sincerely,<br/>${escapeHtml(i.firm.name)}</p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+  return { subject, text, html };
+}
+
+/* ---------- issuing ---------- */
+
+/** Everyone on the application: answer buckets, legacy members and the household */
+async function letterRecipients(app: any) {
+  const byEmail = new Map<string, { email: string; userId: string | null; name: string | null }>();
+  const add = (email: any, userId: any, name: any) => {
+    const e = String(email ?? "").trim().toLowerCase();
+    if (!e) return;
+    const prev = byEmail.get(e);
+    byEmail.set(e, {
+      email: e,
+      userId: prev?.userId ?? (userId ? String(userId) : null),
+      name: prev?.name ?? (name ? String(name) : null),
+    });
+  };
+  for (const [userId, bucket] of Object.entries<any>(app.answersByMember ?? {})) add(bucket?.email, userId, null);
+  for (const m of Array.isArray(app.members) ? app.members : []) add(m?.email, m?.userId, m?.name);
+  for (const e of await getHouseholdEmails(app.householdId ?? null)) add(e, null, null);
+  return Array.from(byEmail.values());
+}
+
+export type IssueDecisionLetterInput = {
+  app: any;                                // needs _id, members, answersByMember, householdId, property, unit
+  firmId: string;
+  kind: DecisionLetterKind;
+  reasons?: string[];
+  reasonNote?: string | null;
+  conditions?: string[];
+  by: string;
+};
+
+/**
+ * Render, store and send a decision letter. Returns the stored letter with each
+ * recipient's delivery status; mail failures are recorded, not thrown.
+ */
+export async function issueDecisionLetter(db: Db, input: IssueDecisionLetterInput) {
+  const appKey = String(input.app._id);
+  const firm = await db.collection<any>("firms").findOne(idEq("_id", input.firmId));
+  const branding = firmBranding(firm);
+
+  const reports = await db
+    .collection<ScreeningReportDoc>("screening_reports")
+    .find({ applicationId: appKey, status: "completed" })
+    .sort({ completedAt: -1 })
+    .toArray();
+  const agencies = new Map<string, ConsumerReportingAgency>();
+  for (const r of reports) {
+    if (r.agency) agencies.set(r.agency.name, r.agency);
+  }
+  const scoreByUser = new Map<string, CreditScore>();
+  for (const r of reports) {
+    if (r.check !== "credit" || !r.result?.credit || scoreByUser.has(r.userId)) continue;
+    scoreByUser.set(r.userId, {
+      score: r.result.credit.score,
+      range: CREDIT_SCORE_RANGE,
+      date: r.completedAt ?? r.updatedAt,
+      factors: creditFactors(r),
+    });
+  }
+
+  const people = await letterRecipients(input.app);
+  const names = people.map((p) => p.name).filter(Boolean) as string[];
+  const premises = [input.app.property, input.app.unit ? `unit ${input.app.unit}` : null].filter(Boolean).join(", ") || null;
+  const now = new Date();
+  const base: Omit<RenderInput, "creditScore"> = {
+    kind: input.kind,
+    firm: branding,
+    greeting: names.length ? `Dear ${names.join(", ")}` : "Dear applicant",
+    premises,
+    reasons: input.reasons ?? [],
+    reasonNote: input.reasonNote ?? null,
+    conditions: input.conditions ?? [],
+    agencies: Array.from(agencies.values()),
+    date: now,
+  };
+  const generic = renderDecisionLetter(base);
+
+  const letter: DecisionLetter = {
+    id: `dl_${crypto.randomBytes(12).toString("base64url")}`,
+    kind: input.kind,
+    subject: generic.subject,
+    text: generic.text,
+    html: generic.html,
+    reasons: base.reasons,
+    reasonNote: base.reasonNote,
+    conditions: base.conditions,
+    adverseAction: agencies.size ? { agencies: base.agencies, reportIds: reports.map((r) => String(r._id)) } : null,
+    firm: branding,
+    recipients: people.map((p) => {
+      const creditScore = agencies.size && p.userId ? scoreByUser.get(p.userId) ?? null : null;
+      const own = creditScore ? renderDecisionLetter({ ...base, creditScore }) : null;
+      return {
+        email: p.email,
+        userId: p.userId,
+        status: "pending" as const,
+        creditScore,
+        ...(own ? { html: own.html, text: own.text } : {}),
+      };
+    }),
+    createdAt: now,
+    createdBy: input.by,
+  };
+
+  // On the record first; delivery statuses follow
+  await db.collection<any>("applications").updateOne(idEq("_id", appKey), {
+    $push: {
+      decisionLetters: letter,
+      timeline: { at: now, by: input.by, event: "decision.letter", meta: { letterId: letter.id, kind: letter.kind } },
+    } as any,
+  });
+
+  for (const r of letter.recipients) {
+    const res = await sendMail({
+      to: r.email,
+      subject: letter.subject,
+      text: r.text ?? letter.text,
+      html: r.html ?? letter.html,
+      idempotencyKey: `decision-letter:${letter.id}:${r.email}`,
+      traceId: letter.id,
+    });
+    r.status = res.ok ? "sent" : "failed";
+    r.error = res.ok ? null : (res as any).error ?? "send_failed";
+    if (!res.ok) console.warn("[decision-letters] email failed,", { to: r.email, error: r.error });
+  }
+  await db
+    .collection<any>("applications")
+    .updateOne({ ...idEq("_id", appKey), "decisionLetters.id": letter.id }, { $set: { "decisionLetters.$.recipients": letter.recipients } });
+
+  return letter;
+}
+
+/** List shape for reviewers; copies stay server-side */
+export function letterToWire(l: DecisionLetter) {
+  return {
+    id: l.id,
+    kind: l.kind,
+    subject: l.subject,
+    reasons: l.reasons,
+    reasonNote: l.reasonNote ?? null,
+    conditions: l.conditions,
+    adverseAction: !!l.adverseAction,
+    agencies: l.adverseAction?.agencies.map((a) => a.name) ?? [],
+    recipients: l.recipients.map((r) => ({ email: r.email, status: r.status, error: r.error ?? null })),
+    createdAt: l.createdAt,
+    createdBy: l.createdBy,
+  };
+}
@@ -0,0 +1,441 @@
+// lib/applications/documents.ts
+// Applicant uploads for `file` questions and form qualifications. The browser PUTs
+// to a presigned quarantine key; completing the upload reads the bytes back,
+// sniffs the real type, enforces the size limit, strips image metadata and writes
+// the clean copy reviewers see. Evidence then flows into the application:
+// file answers hold document ids and qualificationStatus marks what's provided.
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { ApplicationDocumentDoc, MemberRole } from "@/lib/models";
+import { evaluateQuestions, isEmptyAnswer, qualificationRequirement } from "@/lib/applications/conditions";
+import { loadFormVersion } from "@/lib/applications/formVersions";
+import { idEq } from "@/lib/ids";
+
+const s3Region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-2";
+export const DOCUMENTS_BUCKET = process.env.AWS_S3_BUCKET || process.env.AWS_S3_BUCKET_NAME;
+const documentsS3 = new S3Client({ region: s3Region });
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENTS_PER_TARGET = 5;
+/** Reviewer links are minted per click and expire quickly */
+export const VIEW_URL_TTL_SECONDS = 60;
+
+export const DOCUMENT_TYPES = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+} as const;
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+
+const normalizeRole = (r: any): MemberRole => {
+  const x = String(r || "").toLowerCase();
+  return x === "primary" || x === "cosigner" ? (x as MemberRole) : "co_applicant";
+};
+
+const newId = () => `adoc_${crypto.randomBytes(12).toString("base64url")}`;
+const safeName = (name: string) => name.replace(/[^\w.\-]+/g, "_").slice(-120) || "file";
+
+/* ---------- content sniffing ---------- */
+
+/** The type the bytes actually are, or null when it isn't one we accept */
+export function sniffContentType(buf: Buffer): DocumentType | null {
+  if (buf.length >= 5 && buf.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return "image/jpeg";
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buf.length >= 12 && buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+/* ---------- image metadata stripping ---------- */
+// Photos of IDs and pay stubs carry GPS, device and timestamp metadata the
+// landlord has no business seeing. Each format drops its metadata containers
+// and keeps everything needed to render (ICC profiles included). Orientation
+// lives in EXIF, so a rotated phone photo may display sideways.
+
+class UnreadableImage extends Error {}
+
+function stripJpeg(buf: Buffer): Buffer {
+  const out: Buffer[] = [buf.subarray(0, 2)];
+  let i = 2;
+  while (i < buf.length) {
+    if (buf[i] !== 0xff) throw new UnreadableImage();
+    let marker = buf[i + 1];
+    while (marker === 0xff) marker = buf[++i + 1]; // fill bytes
+    if (marker === 0xda) {
+      out.push(buf.subarray(i)); // start of scan: the rest is image data
+      return Buffer.concat(out);
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      out.push(buf.subarray(i, i + 2)); // standalone markers carry no length
+      i += 2;
+      continue;
+    }
+    if (i + 4 > buf.length) throw new UnreadableImage();
+    const len = buf.readUInt16BE(i + 2);
+    const end = i + 2 + len;
+    if (len < 2 || end > buf.length) throw new UnreadableImage();
+    // APP1 = EXIF/XMP, APP13 = IPTC/Photoshop, COM = comments
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) out.push(buf.subarray(i, end));
+    i = end;
+  }
+  throw new UnreadableImage();
+}
+
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+function stripPng(buf: Buffer): Buffer {
+  const out: Buffer[] = [buf.subarray(0, 8)];
+  let i = 8;
+  while (i + 12 <= buf.length) {
+    const len = buf.readUInt32BE(i);
+    const type = buf.subarray(i + 4, i + 8).toString("latin1");
+    const end = i + 12 + len;
+    if (end > buf.length) throw new UnreadableImage();
+    if (!PNG_METADATA_CHUNKS.has(type)) out.push(buf.subarray(i, end));
+    i = end;
+    if (type === "IEND") return Buffer.concat(out);
+  }
+  throw new UnreadableImage();
+}
+
+function stripWebp(buf: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let i = 12;
+  while (i + 8 <= buf.length) {
+    const type = buf.subarray(i, i + 4).toString("latin1");
+    const len = buf.readUInt32LE(i + 4);
+    const end = i + 8 + len + (len % 2); // chunks are padded to even sizes
+    if (i + 8 + len > buf.length) throw new UnreadableImage();
+    if (type === "VP8X") {
+      const header = Buffer.from(buf.subarray(i, Math.min(end, buf.length)));
+      header[8] &= ~(0x08 | 0x04); // clear the EXIF and XMP flags
+      chunks.push(header);
+    } else if (type !== "EXIF" && type !== "XMP ") {
+      chunks.push(buf.subarray(i, Math.min(end, buf.length)));
+    }
+    i = end;
+  }
+  const body = Buffer.concat(chunks);
+  const head = Buffer.alloc(12);
+  head.write("RIFF", 0, "latin1");
+  head.writeUInt32LE(body.length + 4, 4);
+  head.write("WEBP", 8, "latin1");
+  return Buffer.concat([head, body]);
+}
+
+export function stripImageMetadata(buf: Buffer, type: DocumentType): Buffer {
+  switch (type) {
+    case "image/jpeg":
+      return stripJpeg(buf);
+    case "image/png":
+      return stripPng(buf);
+    case "image/webp":
+      return stripWebp(buf);
+    default:
+      return buf;
+  }
+}
+
+/* ---------- S3 ---------- */
+
+async function readObject(key: string, limit: number): Promise<Buffer | "missing" | "too_large"> {
+  try {
+    const res = await documentsS3.send(new GetObjectCommand({ Bucket: DOCUMENTS_BUCKET!, Key: key }));
+    if (Number(res.ContentLength ?? 0) > limit) return "too_large";
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for await (const chunk of res.Body as any) {
+      const b = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      total += b.length;
+      if (total > limit) return "too_large";
+      chunks.push(b);
+    }
+    return Buffer.concat(chunks);
+  } catch (e: any) {
+    if (e?.name === "NoSuchKey" || e?.$metadata?.httpStatusCode === 404) return "missing";
+    throw e;
+  }
+}
+
+async function deleteObject(key: string) {
+  await documentsS3
+    .send(new DeleteObjectCommand({ Bucket: DOCUMENTS_BUCKET!, Key: key }))
+    .catch((err) => console.error("[documents] delete object failed,", key, err));
+}
+
+/** Short-lived signed GET for a reviewer; inline unless a download was asked for */
+export async function signedDocumentUrl(doc: ApplicationDocumentDoc, opts: { download?: boolean } = {}) {
+  return getSignedUrl(
+    documentsS3,
+    new GetObjectCommand({
+      Bucket: DOCUMENTS_BUCKET!,
+      Key: doc.objectKey,
+      ResponseContentType: doc.contentType ?? "application/octet-stream",
+      ResponseContentDisposition: `${opts.download ? "attachment" : "inline"}; filename="${doc.fileName}"`,
+    }),
+    { expiresIn: VIEW_URL_TTL_SECONDS }
+  );
+}
+
+/* ---------- wire shape ---------- */
+
+export function documentToWire(doc: ApplicationDocumentDoc) {
+  return {
+    id: String(doc._id),
+    userId: doc.userId,
+    target: doc.target,
+    docKind: doc.docKind ?? null,
+    fileName: doc.fileName,
+    contentType: doc.contentType ?? doc.declaredType,
+    size: doc.size,
+    status: doc.status,
+    rejectReason: doc.rejectReason ?? null,
+    createdAt: doc.createdAt,
+    completedAt: doc.completedAt ?? null,
+  };
+}
+
+/* ---------- upload lifecycle ---------- */
+
+type UploadRequest = {
+  app: { _id: any; formId: any; formVersion?: number | null; firmId?: any };
+  userId: string;
+  role: MemberRole;
+  target: { kind: "question" | "qualification"; id: string };
+  fileName: string;
+  contentType: string;
+  size: number;
+};
+
+/**
+ * Register a pending document and presign the PUT. The signature binds the
+ * declared type and exact size, so S3 refuses anything else.
+ */
+export async function createDocumentUpload(db: Db, req: UploadRequest) {
+  if (!(req.contentType in DOCUMENT_TYPES)) return { ok: false as const, error: "unsupported_type" };
+  if (!Number.isInteger(req.size) || req.size <= 0) return { ok: false as const, error: "empty_file" };
+  if (req.size > MAX_DOCUMENT_BYTES) return { ok: false as const, error: "file_too_large" };
+
+  const form = await loadFormVersion(db, String(req.app.formId ?? ""), req.app.formVersion);
+  if (!form) return { ok: false as const, error: "form_not_found" };
+
+  let docKind: string | undefined;
+  if (req.target.kind === "question") {
+    const q = form.questions.find((x) => x.id === req.target.id);
+    if (!q || q.inputType !== "file" || !(q.showForRoles ?? []).includes(req.role)) {
+      return { ok: false as const, error: "unknown_target" };
+    }
+  } else {
+    const q = form.qualifications.find((x) => x.id === req.target.id);
+    if (!q || q.mode === "integration" || !(q.audience ?? []).includes(req.role)) {
+      return { ok: false as const, error: "unknown_target" };
+    }
+    docKind = q.docKind;
+  }
+
+  const applicationId = String(req.app._id);
+  const existing = await db.collection<ApplicationDocumentDoc>("application_documents").countDocuments({
+    applicationId,
+    userId: req.userId,
+    "target.id": req.target.id,
+    status: { $in: ["pending", "ready"] },
+  });
+  if (existing >= MAX_DOCUMENTS_PER_TARGET) return { ok: false as const, error: "too_many_files" };
+
+  const _id = newId();
+  const base = `applications/${applicationId}/${req.userId}/${_id}`;
+  const doc: ApplicationDocumentDoc = {
+    _id,
+    applicationId,
+    firmId: form.firmId ? String(form.firmId) : undefined,
+    userId: req.userId,
+    target: { kind: req.target.kind, id: req.target.id },
+    ...(docKind ? { docKind } : {}),
+    fileName: safeName(req.fileName),
+    declaredType: req.contentType,
+    size: req.size,
+    status: "pending",
+    uploadKey: `${base}/upload`,
+    objectKey: `${base}/${safeName(req.fileName)}`,
+    createdAt: new Date(),
+  };
+  await db.collection<ApplicationDocumentDoc>("application_documents").insertOne(doc);
+
+  const uploadUrl = await getSignedUrl(
+    documentsS3,
+    new PutObjectCommand({
+      Bucket: DOCUMENTS_BUCKET!,
+      Key: doc.uploadKey,
+      ContentType: req.contentType,
+      ContentLength: req.size,
+    }),
+    { expiresIn: 60 * 5 }
+  );
+  return { ok: true as const, document: doc, uploadUrl };
+}
+
+/** Process an uploaded file: verify, clean, store, then credit it to the application */
+export async function completeDocumentUpload(db: Db, doc: ApplicationDocumentDoc, by: string) {
+  if (doc.status !== "pending") return { ok: true as const, document: doc };
+  const docs = db.collection<ApplicationDocumentDoc>("application_documents");
+
+  const reject = async (reason: NonNullable<ApplicationDocumentDoc["rejectReason"]>) => {
+    await deleteObject(doc.uploadKey);
+    await docs.updateOne({ _id: doc._id, status: "pending" }, { $set: { status: "rejected", rejectReason: reason } });
+    return { ok: false as const, error: reason };
+  };
+
+  const body = await readObject(doc.uploadKey, MAX_DOCUMENT_BYTES);
+  if (body === "missing") return reject("upload_missing");
+  if (body === "too_large") return reject("file_too_large");
+
+  const type = sniffContentType(body);
+  if (!type) return reject("unsupported_type");
+
+  let clean: Buffer;
+  try {
+    clean = stripImageMetadata(body, type);
+  } catch (e) {
+    if (e instanceof UnreadableImage) return reject("unreadable_image");
+    throw e;
+  }
+
+  const objectKey = doc.objectKey.replace(/\.[^./]*$/, "") + `.${DOCUMENT_TYPES[type]}`;
+  await documentsS3.send(
+    new PutObjectCommand({
+      Bucket: DOCUMENTS_BUCKET!,
+      Key: objectKey,
+      Body: clean,
+      ContentType: type,
+      ServerSideEncryption: "AES256",
+    })
+  );
+  await deleteObject(doc.uploadKey);
+
+  const done = await docs.findOneAndUpdate(
+    { _id: doc._id, status: "pending" },
+    {
+      $set: {
+        status: "ready",
+        contentType: type,
+        objectKey,
+        size: clean.length,
+        sha256: crypto.createHash("sha256").update(clean).digest("hex"),
+        metadataStripped: type !== "application/pdf",
+        completedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+  if (!done) return { ok: true as const, document: doc }; // a concurrent complete won
+
+  await syncApplicationEvidence(db, done, by, "document.uploaded");
+  return { ok: true as const, document: done };
+}
+
+/** Withdraw a document; the file goes and so does any credit it gave */
+export async function removeDocument(db: Db, doc: ApplicationDocumentDoc, by: string) {
+  await db
+    .collection<ApplicationDocumentDoc>("application_documents")
+    .updateOne({ _id: doc._id }, { $set: { status: "deleted", deletedAt: new Date() } });
+  await deleteObject(doc.status === "pending" ? doc.uploadKey : doc.objectKey);
+  if (doc.status === "ready") await syncApplicationEvidence(db, doc, by, "document.removed");
+}
+
+/**
+ * Re-derive the member's evidence for one target from their ready documents:
+ * a file question's answer is the list of document ids, a qualification is
+ * "provided" while at least one document backs it.
+ */
+async function syncApplicationEvidence(
+  db: Db,
+  doc: ApplicationDocumentDoc,
+  by: string,
+  event: "document.uploaded" | "document.removed"
+) {
+  const ready = await db
+    .collection<ApplicationDocumentDoc>("application_documents")
+    .find(
+      { applicationId: doc.applicationId, userId: doc.userId, "target.id": doc.target.id, status: "ready" },
+      { projection: { _id: 1 } }
+    )
+    .sort({ createdAt: 1 })
+    .toArray();
+  const ids = ready.map((d) => String(d._id));
+  const now = new Date();
+
+  const $set: Record<string, any> = { updatedAt: now };
+  const $unset: Record<string, ""> = {};
+  if (doc.target.kind === "question") {
+    const path = `answersByMember.${doc.userId}.answers.${doc.target.id}`;
+    if (ids.length) $set[path] = ids;
+    else $unset[path] = "";
+  } else {
+    // A provider-verified qualification stays verified whatever happens to uploads
+    const path = `qualificationStatus.${doc.userId}.${doc.target.id}`;
+    const cur = await db.collection<any>("applications").findOne(idEq("_id", doc.applicationId), { projection: { [path]: 1 } });
+    if (cur?.qualificationStatus?.[doc.userId]?.[doc.target.id]?.status !== "verified") {
+      if (ids.length) $set[path] = { status: "provided", at: now };
+      else $unset[path] = "";
+    }
+  }
+
+  await db.collection<any>("applications").updateOne(idEq("_id", doc.applicationId), {
+    $set,
+    ...(Object.keys($unset).length ? { $unset } : {}),
+    $push: {
+      timeline: { at: now, by, event, meta: { documentId: String(doc._id), target: doc.target } },
+    } as any,
+  });
+  await refreshMissingDocs(db, doc.applicationId);
+}
+
+/* ---------- missing documents ---------- */
+
+/**
+ * Count required evidence nobody has provided yet: qualifications each member
+ * owes (uploaded or provider-verified), plus required file questions left
+ * empty. Stored on tasks.missingDocs for the application lists.
+ */
+export async function refreshMissingDocs(db: Db, applicationId: string) {
+  const app = await db.collection<any>("applications").findOne(idEq("_id", applicationId), {
+    projection: { formId: 1, formVersion: 1, members: 1, answersByMember: 1, qualificationStatus: 1 },
+  });
+  if (!app) return null;
+  const form = await loadFormVersion(db, String(app.formId ?? ""), app.formVersion);
+  if (!form) return null;
+
+  // Members: answer buckets first, then app.members that never answered
+  const members = new Map<string, { role: MemberRole; answers: Record<string, any> }>();
+  for (const [userId, bucket] of Object.entries<any>(app.answersByMember ?? {})) {
+    members.set(userId, { role: normalizeRole(bucket?.role), answers: bucket?.answers ?? {} });
+  }
+  for (const m of Array.isArray(app.members) ? app.members : []) {
+    const userId = String(m?.userId ?? "");
+    if (userId && !members.has(userId)) members.set(userId, { role: normalizeRole(m?.role), answers: {} });
+  }
+
+  const evidence = (app.qualificationStatus ?? {}) as Record<string, Record<string, { status?: string }>>;
+  let missing = 0;
+  for (const [userId, m] of members) {
+    for (const q of form.qualifications) {
+      if (qualificationRequirement(q, m.role, form.questions, m.answers) !== "required") continue;
+      const st = evidence[userId]?.[q.id]?.status;
+      if (st !== "provided" && st !== "verified") missing++;
+    }
+    const states = evaluateQuestions(form.questions, m.role, m.answers);
+    for (const q of form.questions) {
+      if (q.inputType === "file" && states[q.id]?.required && isEmptyAnswer(m.answers[q.id])) missing++;
+    }
+  }
+
+  await db.collection<any>("applications").updateOne({ _id: app._id }, { $set: { "tasks.missingDocs": missing } });
+  return missing;
+}
@@ -0,0 +1,278 @@
+// lib/applications/formVersions.ts
+// Published form versions. application_forms holds the head (latest version);
+// every publish also freezes a copy in application_form_versions, and each
+// application answers the copy it was pinned to when it started.
+import { ObjectId, type Db } from "mongodb";
+import type { ApplicationFormDoc, ApplicationFormVersionDoc, MemberRole } from "@/lib/models";
+import { evaluateQuestions, isEmptyAnswer, validateFormConditions } from "@/lib/applications/conditions";
+import { idEq, rid } from "@/lib/ids";
+
+const normalizeRole = (r: any): MemberRole => {
+  const x = String(r || "").toLowerCase();
+  return x === "primary" || x === "cosigner" ? (x as MemberRole) : "co_applicant";
+};
+
+type FormContent = Pick<
+  ApplicationFormDoc,
+  "name" | "description" | "scope" | "sections" | "questions" | "qualifications"
+>;
+
+/** The versioned part of a form (everything an applicant sees) */
+export function formContent(doc: any): FormContent {
+  return {
+    name: String(doc?.name ?? "Application"),
+    description: doc?.description ?? "",
+    scope: doc?.scope ?? "portfolio",
+    sections: Array.isArray(doc?.sections) ? doc.sections : [],
+    questions: Array.isArray(doc?.questions) ? doc.questions : [],
+    qualifications: Array.isArray(doc?.qualifications) ? doc.qualifications : [],
+  };
+}
+
+/** Validate builder input before publishing */
+export function validateFormContent(body: any) {
+  if (!body || !body.name || !Array.isArray(body.sections) || !Array.isArray(body.questions)) {
+    return { ok: false as const, error: "invalid_payload" };
+  }
+  const conditions = validateFormConditions(body.questions, body.qualifications ?? []);
+  if (!conditions.ok) return conditions;
+  return { ok: true as const, content: formContent(body) };
+}
+
+/** Freeze the head's current version if it predates versioning (idempotent) */
+export async function ensureVersionSnapshot(db: Db, head: any) {
+  const formId = String(head._id);
+  const version = Number(head.version ?? 1);
+  await db.collection<ApplicationFormVersionDoc>("application_form_versions").updateOne(
+    { formId, version },
+    {
+      $setOnInsert: {
+        _id: `fv_${rid()}`,
+        formId,
+        firmId: head.firmId,
+        version,
+        ...formContent(head),
+        publishedAt: head.updatedAt ?? head.createdAt ?? new Date(),
+        publishedBy: head.createdBy,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Form content as an application sees it: its pinned version when one is
+ * frozen, otherwise the head. Always carries the head's id and firm.
+ */
+export async function loadFormVersion(db: Db, formId: string, version?: number | null) {
+  const head = await db.collection<any>("application_forms").findOne(idEq("_id", formId));
+  if (!head) return null;
+  const headVersion = Number(head.version ?? 1);
+  if (version != null && Number(version) !== headVersion) {
+    const frozen = await db
+      .collection<ApplicationFormVersionDoc>("application_form_versions")
+      .findOne({ formId: String(head._id), version: Number(version) });
+    if (frozen) {
+      return { _id: String(head._id), firmId: head.firmId, version: frozen.version, ...formContent(frozen) };
+    }
+  }
+  return { _id: String(head._id), firmId: head.firmId, version: headVersion, ...formContent(head) };
+}
+
+/**
+ * Publish new content as head.version + 1. In-flight applications that were
+ * never pinned are pinned to the outgoing version first, so nothing changes
+ * under them.
+ */
+export async function publishFormVersion(db: Db, head: any, content: FormContent, by: string, note?: string) {
+  const formId = String(head._id);
+  const from = Number(head.version ?? 1);
+  const to = from + 1;
+  const now = new Date();
+
+  await ensureVersionSnapshot(db, head);
+  await db
+    .collection("applications")
+    .updateMany({ ...idEq("formId", formId), formVersion: { $exists: false } }, { $set: { formVersion: from } });
+
+  const version: ApplicationFormVersionDoc = {
+    _id: `fv_${rid()}`,
+    formId,
+    firmId: head.firmId,
+    version: to,
+    ...content,
+    ...(note ? { note } : {}),
+    publishedAt: now,
+    publishedBy: by,
+  };
+  try {
+    await db.collection<ApplicationFormVersionDoc>("application_form_versions").insertOne(version);
+  } catch (e: any) {
+    if (e?.code === 11000) return { ok: false as const, error: "version_conflict" };
+    throw e;
+  }
+
+  const res = await db
+    .collection("application_forms")
+    .updateOne({ _id: head._id, version: head.version ?? { $exists: false } }, { $set: { ...content, version: to, updatedAt: now } });
+  if (res.matchedCount === 0) {
+    await db.collection("application_form_versions").deleteOne({ _id: version._id } as any);
+    return { ok: false as const, error: "version_conflict" };
+  }
+  return { ok: true as const, version: to, previous: from, changes: diffFormVersions(head, content) };
+}
+
+/* ---------- diff ---------- */
+
+export type FormChange = {
+  target: "form" | "section" | "question" | "qualification";
+  change: "added" | "removed" | "changed";
+  id: string;
+  label: string;
+  fields?: string[];
+  /** Can make an in-flight applicant answer or upload something new */
+  affectsRequirements: boolean;
+};
+
+const QUESTION_FIELDS = [
+  "label", "helpText", "sectionId", "inputType", "required", "showForRoles",
+  "options", "validation", "showIf", "requireIf", "sensitive",
+] as const;
+const QUESTION_REQUIREMENT_FIELDS = new Set(["inputType", "required", "showForRoles", "options", "validation", "showIf", "requireIf"]);
+const QUAL_FIELDS = ["title", "audience", "requirement", "requireIf", "mode", "docKind", "notes"] as const;
+const QUAL_REQUIREMENT_FIELDS = new Set(["audience", "requirement", "requireIf"]);
+
+const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function diffById<T extends { id: string }>(
+  target: FormChange["target"],
+  before: T[],
+  after: T[],
+  fields: readonly string[],
+  labelOf: (x: T) => string,
+  requires: (x: T | undefined, changed: string[]) => boolean
+): FormChange[] {
+  const out: FormChange[] = [];
+  const prev = new Map(before.map((x) => [x.id, x]));
+  const next = new Map(after.map((x) => [x.id, x]));
+  for (const x of after) {
+    const old = prev.get(x.id);
+    if (!old) {
+      out.push({ target, change: "added", id: x.id, label: labelOf(x), affectsRequirements: requires(x, []) });
+      continue;
+    }
+    const changed = fields.filter((f) => !same((old as any)[f], (x as any)[f]));
+    if (changed.length) {
+      out.push({ target, change: "changed", id: x.id, label: labelOf(x), fields: changed, affectsRequirements: requires(x, changed) });
+    }
+  }
+  for (const x of before) {
+    if (!next.has(x.id)) out.push({ target, change: "removed", id: x.id, label: labelOf(x), affectsRequirements: false });
+  }
+  return out;
+}
+
+/** What changed between two versions of a form, in builder terms */
+export function diffFormVersions(before: any, after: any): FormChange[] {
+  const a = formContent(before);
+  const b = formContent(after);
+  const changes: FormChange[] = [];
+
+  const details = (["name", "description"] as const).filter((f) => !same(a[f], b[f]));
+  if (details.length) {
+    changes.push({ target: "form", change: "changed", id: "form", label: b.name, fields: [...details], affectsRequirements: false });
+  }
+  changes.push(
+    ...diffById("section", a.sections, b.sections, ["title", "description"], (s) => s.title, () => false),
+    ...diffById(
+      "question",
+      a.questions,
+      b.questions,
+      QUESTION_FIELDS,
+      (q) => q.label,
+      (q, changed) =>
+        changed.length
+          ? changed.some((f) => QUESTION_REQUIREMENT_FIELDS.has(f))
+          : !!q?.required || !!q?.requireIf?.conditions?.length
+    ),
+    ...diffById(
+      "qualification",
+      a.qualifications,
+      b.qualifications,
+      QUAL_FIELDS,
+      (q) => q.title,
+      (q, changed) =>
+        changed.length ? changed.some((f) => QUAL_REQUIREMENT_FIELDS.has(f)) : q?.requirement !== "optional"
+    )
+  );
+  return changes;
+}
+
+/* ---------- migration ---------- */
+
+/**
+ * Move draft applications onto a newer version. Members whose answers are no
+ * longer complete lose their submitted stamp so they come back and finish.
+ */
+export async function migrateApplications(
+  db: Db,
+  formId: string,
+  toVersion: number,
+  opts: { appIds?: string[]; by: string }
+) {
+  const target = await loadFormVersion(db, formId, toVersion);
+  if (!target || target.version !== toVersion) return { ok: false as const, error: "version_not_found" };
+
+  const filter: any = {
+    $and: [idEq("formId", formId), { status: "draft" }, { formVersion: { $lt: toVersion } }],
+  };
+  if (opts.appIds?.length) {
+    filter.$and.push({
+      $or: opts.appIds.flatMap((id) => (ObjectId.isValid(id) ? [{ _id: new ObjectId(id) }, { _id: id }] : [{ _id: id }])),
+    });
+  }
+
+  const apps = await db
+    .collection<any>("applications")
+    .find(filter, { projection: { _id: 1, formVersion: 1, answersByMember: 1 } })
+    .limit(500)
+    .toArray();
+
+  const now = new Date();
+  const migrated: { id: string; from: number; reopenedMembers: number }[] = [];
+  for (const app of apps) {
+    const from = Number(app.formVersion);
+    const $unset: Record<string, ""> = {};
+    for (const [userId, bucket] of Object.entries<any>(app.answersByMember ?? {})) {
+      if (!bucket?.submittedAt) continue;
+      const answers = bucket.answers ?? {};
+      const states = evaluateQuestions(target.questions, normalizeRole(bucket.role), answers);
+      const incomplete = target.questions.some((q) => states[q.id]?.required && isEmptyAnswer(answers[q.id]));
+      if (incomplete) $unset[`answersByMember.${userId}.submittedAt`] = "";
+    }
+
+    const res = await db.collection<any>("applications").updateOne(
+      { _id: app._id, status: "draft", formVersion: from },
+      {
+        $set: {
+          formVersion: toVersion,
+          formMigration: { from, to: toVersion, at: now, by: opts.by },
+          updatedAt: now,
+        },
+        ...(Object.keys($unset).length ? { $unset } : {}),
+        $push: {
+          timeline: {
+            at: now,
+            by: opts.by,
+            event: "form.migrated",
+            meta: { from, to: toVersion, reopened: Object.keys($unset).length },
+          },
+        } as any,
+      }
+    );
+    if (res.modifiedCount) {
+      migrated.push({ id: String(app._id), from, reopenedMembers: Object.keys($unset).length });
+    }
+  }
+  return { ok: true as const, version: toVersion, migrated };
+}
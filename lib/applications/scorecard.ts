@@ -0,0 +1,320 @@
+// lib/applications/scorecard.ts
+// Screening scorecard: household income vs rent plus weighted completeness
+// criteria. Each score stores its inputs and a snapshot of the firm criteria
+import type { Db } from "mongodb";
+import type {
+  ApplicationScoreDoc,
+  ApplicationScoreInputs,
+  ApplicationScoreSummary,
+  MemberRole,
+  ScoreFlag,
+  ScorecardCriteria,
+} from "@/lib/models";
+import {
+  evaluateQuestions,
+  isEmptyAnswer,
+  qualificationRequirement,
+  type ConditionalQualification,
+  type ConditionalQuestion,
+} from "@/lib/applications/conditions";
+import { loadFormVersion } from "@/lib/applications/formVersions";
+import { idEq, rid } from "@/lib/ids";
+
+export const DEFAULT_SCORECARD_CRITERIA: ScorecardCriteria = {
+  version: 0,
+  minIncomeToRent: 3,
+  countCosignerIncome: false,
+  incomeQuestionIds: null,
+  passScore: 70,
+  weights: { income: 50, qualifications: 25, answers: 15, members: 10 },
+};
+
+const WEIGHT_KEYS = ["income", "qualifications", "answers", "members"] as const;
+
+const num = (v: any, d = 0) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : d;
+};
+
+function normalizeRole(r: any): MemberRole {
+  const x = String(r || "").toLowerCase().replace("-", "_");
+  return x === "primary" || x === "cosigner" ? (x as MemberRole) : "co_applicant";
+}
+
+/** "$4,500.00" / 4500 / "4500" → 450000 cents; junk → 0 */
+function dollarsToCents(v: any) {
+  if (v == null || v === "") return 0;
+  const n = Number(String(v).replace(/[$,\s]/g, ""));
+  return Number.isFinite(n) && n > 0 ? Math.round(n * 100) : 0;
+}
+
+/** Stored/legacy criteria → complete criteria */
+export function normalizeScorecardCriteria(raw: any): ScorecardCriteria {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_SCORECARD_CRITERIA, weights: { ...DEFAULT_SCORECARD_CRITERIA.weights } };
+  const w = raw.weights ?? {};
+  const weights = Object.fromEntries(
+    WEIGHT_KEYS.map((k) => [k, Math.max(0, Math.round(num(w[k], DEFAULT_SCORECARD_CRITERIA.weights[k])))])
+  ) as ScorecardCriteria["weights"];
+  const ids = Array.isArray(raw.incomeQuestionIds)
+    ? raw.incomeQuestionIds.map((x: any) => String(x)).filter(Boolean)
+    : null;
+  return {
+    version: Math.max(0, Math.round(num(raw.version))),
+    minIncomeToRent: Math.max(0, num(raw.minIncomeToRent, DEFAULT_SCORECARD_CRITERIA.minIncomeToRent)),
+    countCosignerIncome: !!raw.countCosignerIncome,
+    incomeQuestionIds: ids && ids.length ? ids : null,
+    passScore: Math.min(100, Math.max(0, Math.round(num(raw.passScore, DEFAULT_SCORECARD_CRITERIA.passScore)))),
+    weights,
+    updatedAt: raw.updatedAt,
+    updatedBy: raw.updatedBy ?? null,
+  };
+}
+
+/** Validate criteria submitted from the firm settings screen (version is assigned on save) */
+export function validateScorecardCriteria(input: any) {
+  const ratio = Number(input?.minIncomeToRent);
+  if (!Number.isFinite(ratio) || ratio <= 0 || ratio > 10) {
+    return { ok: false as const, error: "bad_income_ratio" };
+  }
+  const pass = Number(input?.passScore);
+  if (!Number.isInteger(pass) || pass < 0 || pass > 100) {
+    return { ok: false as const, error: "bad_pass_score" };
+  }
+  const w = input?.weights ?? {};
+  for (const k of WEIGHT_KEYS) {
+    const n = Number(w[k]);
+    if (!Number.isInteger(n) || n < 0 || n > 100) return { ok: false as const, error: "bad_weight", field: k };
+  }
+  if (WEIGHT_KEYS.every((k) => Number(w[k]) === 0)) return { ok: false as const, error: "weights_all_zero" };
+  return { ok: true as const, criteria: normalizeScorecardCriteria(input) };
+}
+
+export async function loadScorecardCriteria(db: Db, firmId: string) {
+  const firm = await db
+    .collection<any>("firms")
+    .findOne(idEq("_id", firmId), { projection: { "settings.scorecard": 1 } });
+  return normalizeScorecardCriteria(firm?.settings?.scorecard);
+}
+
+type FormLite = {
+  questions: (ConditionalQuestion & { label?: string; inputType?: string })[];
+  qualifications: (ConditionalQualification & { title: string })[];
+};
+
+/** Which questions count toward income, given the criteria and the form */
+export function incomeQuestionIds(criteria: ScorecardCriteria, form: FormLite) {
+  const currency = form.questions.filter((q) => q.inputType === "currency");
+  if (criteria.incomeQuestionIds?.length) {
+    const wanted = new Set(criteria.incomeQuestionIds);
+    return currency.filter((q) => wanted.has(q.id)).map((q) => q.id);
+  }
+  const labelled = currency.filter((q) => /income|salary|wage|earn/i.test(String(q.label ?? "")));
+  return (labelled.length ? labelled : currency).map((q) => q.id);
+}
+
+/** Gather everything the score depends on; pure, so a stored score can be re-derived */
+export function collectScoreInputs(app: any, form: FormLite, criteria: ScorecardCriteria): ApplicationScoreInputs {
+  const planRent = num(app?.paymentPlan?.monthlyRentCents);
+  const protoRent = num(app?.protoLease?.monthlyRent);
+  const monthlyRentCents = planRent > 0 ? planRent : protoRent > 0 ? protoRent : null;
+  const rentSource = planRent > 0 ? "paymentPlan" : protoRent > 0 ? "protoLease" : null;
+
+  const incomeIds = incomeQuestionIds(criteria, form);
+
+  // Members: answersByMember buckets first, then app.members that never answered
+  const byMember = (app?.answersByMember ?? {}) as Record<string, any>;
+  const seen = new Set<string>();
+  const rows: { userId: string; role: MemberRole; email: string; answers: Record<string, any>; submitted: boolean }[] = [];
+  for (const [userId, bucket] of Object.entries(byMember)) {
+    seen.add(userId);
+    rows.push({
+      userId,
+      role: normalizeRole(bucket?.role),
+      email: String(bucket?.email ?? ""),
+      answers: bucket?.answers ?? {},
+      submitted: !!bucket?.submittedAt,
+    });
+  }
+  for (const m of Array.isArray(app?.members) ? app.members : []) {
+    const userId = String(m?.userId ?? "");
+    if (!userId || seen.has(userId)) continue;
+    seen.add(userId);
+    rows.push({ userId, role: normalizeRole(m?.role), email: String(m?.email ?? ""), answers: {}, submitted: false });
+  }
+
+  const members = rows.map((r) => {
+    const monthlyIncomeCents = incomeIds.reduce((sum, qid) => sum + dollarsToCents(r.answers[qid]), 0);
+    const states = evaluateQuestions(form.questions, r.role, r.answers);
+    const required = form.questions.filter((q) => states[q.id]?.required);
+    return {
+      userId: r.userId,
+      role: r.role,
+      email: r.email,
+      submitted: r.submitted,
+      monthlyIncomeCents,
+      countedIncome: r.role !== "cosigner" || criteria.countCosignerIncome,
+      requiredAnswered: required.filter((q) => !isEmptyAnswer(r.answers[q.id])).length,
+      requiredTotal: required.length,
+    };
+  });
+
+  const evidence = (app?.qualificationStatus ?? {}) as Record<string, Record<string, { status?: string }>>;
+  const answersOf = new Map(rows.map((r) => [r.userId, r.answers]));
+  const qualifications = form.qualifications.flatMap((q) =>
+    members
+      .filter((m) => qualificationRequirement(q, m.role, form.questions, answersOf.get(m.userId)) === "required")
+      .map((m) => {
+        const st = evidence[m.userId]?.[q.id]?.status;
+        return {
+          userId: m.userId,
+          qualificationId: q.id,
+          title: q.title,
+          satisfied: st === "provided" || st === "verified",
+        };
+      })
+  );
+
+  return {
+    monthlyRentCents,
+    rentSource,
+    incomeQuestionIds: incomeIds,
+    members,
+    householdMonthlyIncomeCents: members.filter((m) => m.countedIncome).reduce((s, m) => s + m.monthlyIncomeCents, 0),
+    qualifications,
+  };
+}
+
+const fraction = (n: number, d: number) => (d > 0 ? n / d : null);
+
+/** Apply criteria to inputs. Criteria with nothing to measure drop out of the weighting */
+export function scoreInputs(inputs: ApplicationScoreInputs, criteria: ScorecardCriteria) {
+  const flags: ScoreFlag[] = [];
+
+  const rent = inputs.monthlyRentCents;
+  const income = inputs.householdMonthlyIncomeCents;
+  const incomeToRent = rent && rent > 0 ? Math.round((income / rent) * 100) / 100 : null;
+  if (!rent) flags.push("rent_unknown");
+  if (!income) flags.push("income_missing");
+  const incomeOk = incomeToRent != null && incomeToRent >= criteria.minIncomeToRent;
+  if (incomeToRent != null && !incomeOk) flags.push("income_below_minimum");
+
+  const qualsMet = inputs.qualifications.filter((q) => q.satisfied).length;
+  if (qualsMet < inputs.qualifications.length) flags.push("missing_qualifications");
+
+  const answered = inputs.members.reduce((s, m) => s + m.requiredAnswered, 0);
+  const required = inputs.members.reduce((s, m) => s + m.requiredTotal, 0);
+  if (answered < required) flags.push("incomplete_answers");
+
+  const submitted = inputs.members.filter((m) => m.submitted).length;
+  if (submitted < inputs.members.length) flags.push("members_not_submitted");
+
+  const values: Record<(typeof WEIGHT_KEYS)[number], number | null> = {
+    income:
+      incomeToRent == null || criteria.minIncomeToRent <= 0
+        ? rent ? 0 : null
+        : Math.min(1, incomeToRent / criteria.minIncomeToRent),
+    qualifications: fraction(qualsMet, inputs.qualifications.length),
+    answers: fraction(answered, required),
+    members: fraction(submitted, inputs.members.length),
+  };
+
+  const components = WEIGHT_KEYS.map((key) => ({
+    key,
+    weight: criteria.weights[key],
+    value: values[key] == null ? null : Math.round(values[key]! * 1000) / 1000,
+  }));
+  const applied = components.filter((c) => c.value != null && c.weight > 0);
+  const totalWeight = applied.reduce((s, c) => s + c.weight, 0);
+  const score = totalWeight ? Math.round((100 * applied.reduce((s, c) => s + c.weight * c.value!, 0)) / totalWeight) : 0;
+
+  // Income is the hard rule: a high completeness score can't carry an unaffordable rent
+  const result = score >= criteria.passScore && incomeOk ? ("pass" as const) : ("flag" as const);
+
+  return { components, incomeToRent, score, result, flags };
+}
+
+async function loadApp(db: Db, appId: string) {
+  return db.collection<any>("applications").findOne(idEq("_id", appId), {
+    projection: {
+      _id: 1, formId: 1, formVersion: 1, firmId: 1, status: 1, updatedAt: 1, members: 1, answersByMember: 1,
+      paymentPlan: 1, protoLease: 1, qualificationStatus: 1, scorecard: 1,
+    },
+  });
+}
+
+/** The form version the application is pinned to */
+async function loadForm(db: Db, app: any): Promise<(FormLite & { firmId: string }) | null> {
+  const f = await loadFormVersion(db, String(app.formId ?? ""), app.formVersion);
+  if (!f) return null;
+  return { firmId: String(f.firmId ?? ""), questions: f.questions, qualifications: f.qualifications };
+}
+
+export function scoreSummary(doc: ApplicationScoreDoc): ApplicationScoreSummary {
+  return {
+    scoreId: doc._id,
+    score: doc.score,
+    result: doc.result,
+    incomeToRent: doc.incomeToRent,
+    flags: doc.flags,
+    criteriaVersion: doc.criteriaVersion,
+    computedAt: doc.computedAt,
+  };
+}
+
+/** Compute, store and cache a fresh score for one application */
+export async function computeApplicationScore(
+  db: Db,
+  appId: string,
+  opts: { trigger: ApplicationScoreDoc["trigger"]; by: string }
+): Promise<ApplicationScoreDoc | null> {
+  const app = await loadApp(db, appId);
+  if (!app) return null;
+  const form = await loadForm(db, app);
+  if (!form) return null;
+  const firmId = String(app.firmId ?? form.firmId);
+
+  const criteria = await loadScorecardCriteria(db, firmId);
+  const inputs = collectScoreInputs(app, form, criteria);
+  const scored = scoreInputs(inputs, criteria);
+
+  const doc: ApplicationScoreDoc = {
+    _id: `scr_${rid()}`,
+    firmId,
+    applicationId: String(app._id),
+    criteriaVersion: criteria.version,
+    criteria,
+    inputs,
+    ...scored,
+    trigger: opts.trigger,
+    computedBy: opts.by,
+    computedAt: new Date(),
+  };
+  await db.collection<ApplicationScoreDoc>("application_scores").insertOne(doc);
+  await db
+    .collection<any>("applications")
+    .updateOne({ _id: app._id }, { $set: { scorecard: scoreSummary(doc) } });
+  return doc;
+}
+
+/**
+ * Latest score, recomputed when the application changed after it was scored
+ * or the firm has saved new criteria since.
+ */
+export async function ensureApplicationScore(db: Db, appId: string, by: string) {
+  const app = await loadApp(db, appId);
+  if (!app) return null;
+
+  const cached = app.scorecard as ApplicationScoreSummary | undefined;
+  if (cached?.scoreId) {
+    const form = await loadForm(db, app);
+    const criteria = await loadScorecardCriteria(db, String(app.firmId ?? form?.firmId ?? ""));
+    const fresh =
+      cached.criteriaVersion === criteria.version &&
+      (!app.updatedAt || new Date(app.updatedAt).getTime() <= new Date(cached.computedAt).getTime());
+    if (fresh) {
+      const doc = await db.collection<ApplicationScoreDoc>("application_scores").findOne({ _id: cached.scoreId });
+      if (doc) return doc;
+    }
+  }
+  return computeApplicationScore(db, appId, { trigger: "view", by });
+}
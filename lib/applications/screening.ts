@@ -0,0 +1,280 @@
+// lib/applications/screening.ts
+// Provider checks behind `integration` / `either` qualifications. An applicant
+// first signs the FCRA disclosure (screening_consents), then each check becomes a
+// screening_reports row that moves requested → pending → completed | failed,
+// either straight from the provider's answer or through its webhook. A completed
+// report marks the qualification "verified" for that member; the result itself
+// stays on the report, for reviewers only.
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import type {
+  ApplicationFormDoc,
+  MemberRole,
+  ScreeningCheckType,
+  ScreeningConsentDoc,
+  ScreeningReportDoc,
+} from "@/lib/models";
+import { qualificationRequirement } from "@/lib/applications/conditions";
+import { loadFormVersion } from "@/lib/applications/formVersions";
+import { refreshMissingDocs } from "@/lib/applications/documents";
+import { getScreeningProvider, type ScreeningUpdate } from "@/lib/screening/providers";
+import { idEq } from "@/lib/ids";
+
+/** Bump when the disclosure text changes; older consents then no longer count */
+export const SCREENING_DISCLOSURE_VERSION = "2026-10";
+
+const CHECK_LABELS: Record<ScreeningCheckType, string> = {
+  credit: "a credit report",
+  background: "a criminal and eviction background check",
+  income: "verification of your income and employment",
+};
+
+/** Older forms only carry a docKind; map the ones that have a provider check */
+const DOC_KIND_CHECKS: Record<string, ScreeningCheckType> = {
+  credit_report: "credit",
+  background_check: "background",
+  income_docs: "income",
+};
+
+const newId = (prefix: string) => `${prefix}_${crypto.randomBytes(12).toString("base64url")}`;
+
+type FormQualification = ApplicationFormDoc["qualifications"][number];
+
+/** The provider check behind a qualification, or null when it's upload-only */
+export function screeningCheckFor(q: Pick<FormQualification, "mode" | "docKind" | "integration">): ScreeningCheckType | null {
+  if (q.mode === "self_upload") return null;
+  const t = q.integration?.type;
+  if (t === "credit" || t === "background" || t === "income") return t;
+  return DOC_KIND_CHECKS[String(q.docKind ?? "")] ?? null;
+}
+
+/** Checks this member can run: visible qualifications the configured provider supports */
+export function availableChecks(
+  form: Pick<ApplicationFormDoc, "questions" | "qualifications">,
+  role: MemberRole,
+  answers: Record<string, any>
+) {
+  const provider = getScreeningProvider();
+  if (!provider) return [];
+  return form.qualifications.flatMap((q) => {
+    const check = screeningCheckFor(q);
+    if (!check || !provider.checks.includes(check)) return [];
+    if (!qualificationRequirement(q, role, form.questions, answers)) return [];
+    return [{ qualificationId: q.id, check, mode: q.mode }];
+  });
+}
+
+/** Standalone disclosure shown before consent; the text is what the applicant signs */
+export function screeningDisclosure(firmName: string, checks: ScreeningCheckType[]) {
+  const list = checks.length ? checks.map((c) => CHECK_LABELS[c]).join(", ") : "consumer reports";
+  return {
+    version: SCREENING_DISCLOSURE_VERSION,
+    title: "Disclosure regarding consumer reports",
+    text: [
+      `${firmName} may obtain consumer reports about you from a consumer reporting agency to evaluate your rental application. ` +
+        `These may include ${list}.`,
+      "A consumer report may contain information about your credit standing, credit history, rental history, criminal and eviction records, " +
+        "and income or employment, as permitted by law.",
+      "If a decision on your application is based in whole or in part on a consumer report, you will receive a notice naming the agency " +
+        "that supplied it. You may request a free copy of the report from that agency within 60 days and dispute anything inaccurate or incomplete.",
+      "Your rights are described in “A Summary of Your Rights Under the Fair Credit Reporting Act”, published by the Consumer Financial Protection Bureau.",
+      `By typing your name below you authorize ${firmName} and its screening provider to obtain these reports for this application.`,
+    ],
+  };
+}
+
+/** The member's consent under the current disclosure, if any */
+export async function currentConsent(db: Db, applicationId: string, userId: string) {
+  return db
+    .collection<ScreeningConsentDoc>("screening_consents")
+    .findOne(
+      { applicationId, userId, disclosureVersion: SCREENING_DISCLOSURE_VERSION },
+      { sort: { acceptedAt: -1 } }
+    );
+}
+
+export async function recordScreeningConsent(
+  db: Db,
+  input: {
+    app: any;
+    userId: string;
+    fullName: string;
+    checks: ScreeningCheckType[];
+    ip?: string | null;
+    userAgent?: string | null;
+  }
+) {
+  const applicationId = String(input.app._id);
+  const consent: ScreeningConsentDoc = {
+    _id: newId("scon"),
+    applicationId,
+    firmId: input.app.firmId ? String(input.app.firmId) : undefined,
+    userId: input.userId,
+    disclosureVersion: SCREENING_DISCLOSURE_VERSION,
+    checks: input.checks,
+    fullName: input.fullName,
+    ip: input.ip ?? null,
+    userAgent: input.userAgent ?? null,
+    acceptedAt: new Date(),
+  };
+  await db.collection<ScreeningConsentDoc>("screening_consents").insertOne(consent);
+  await db.collection<any>("applications").updateOne(idEq("_id", applicationId), {
+    $push: {
+      timeline: {
+        at: consent.acceptedAt,
+        by: input.userId,
+        event: "screening.consented",
+        meta: { consentId: consent._id, checks: consent.checks, disclosureVersion: consent.disclosureVersion },
+      },
+    } as any,
+  });
+  return consent;
+}
+
+/**
+ * Run the provider check behind one qualification. Idempotent while a report is
+ * open or completed; a failed report can be retried. Never sends anything
+ * without a consent under the current disclosure.
+ */
+export async function requestScreening(
+  db: Db,
+  input: { app: any; userId: string; email: string; role: MemberRole; qualificationId: string; by: string }
+) {
+  const provider = getScreeningProvider();
+  if (!provider) return { ok: false as const, error: "screening_not_configured" };
+
+  const form = await loadFormVersion(db, String(input.app.formId ?? ""), input.app.formVersion);
+  if (!form) return { ok: false as const, error: "form_not_found" };
+  const answers = input.app.answersByMember?.[input.userId]?.answers ?? {};
+  const target = availableChecks(form, input.role, answers).find((c) => c.qualificationId === input.qualificationId);
+  if (!target) return { ok: false as const, error: "check_unavailable" };
+
+  const applicationId = String(input.app._id);
+  const consent = await currentConsent(db, applicationId, input.userId);
+  if (!consent || !consent.checks.includes(target.check)) return { ok: false as const, error: "consent_required" };
+
+  const reports = db.collection<ScreeningReportDoc>("screening_reports");
+  const open = await reports.findOne(
+    { applicationId, userId: input.userId, qualificationId: target.qualificationId, status: { $ne: "failed" } },
+    { sort: { requestedAt: -1 } }
+  );
+  if (open) return { ok: true as const, report: open };
+
+  const now = new Date();
+  const report: ScreeningReportDoc = {
+    _id: newId("scr"),
+    applicationId,
+    firmId: input.app.firmId ? String(input.app.firmId) : undefined,
+    userId: input.userId,
+    qualificationId: target.qualificationId,
+    check: target.check,
+    provider: provider.name,
+    agency: provider.agency,
+    consentId: String(consent._id),
+    status: "requested",
+    error: null,
+    events: [{ at: now, status: "requested", source: "request" }],
+    requestedBy: input.by,
+    requestedAt: now,
+    updatedAt: now,
+  };
+  await reports.insertOne(report);
+
+  let update: ScreeningUpdate;
+  try {
+    update = await provider.request({
+      reportId: String(report._id),
+      check: target.check,
+      subject: { userId: input.userId, email: input.email, fullName: consent.fullName },
+      consentedAt: consent.acceptedAt,
+    });
+  } catch (err: any) {
+    console.error("[screening] provider request failed,", err?.message || err);
+    update = { externalId: "", status: "failed", error: "provider_unreachable" };
+  }
+  const saved = await applyScreeningUpdate(db, report, update, "request");
+  return { ok: true as const, report: saved ?? report };
+}
+
+/** A verified provider callback: find the report by the provider's id and apply it */
+export async function handleScreeningWebhook(db: Db, providerName: string, update: ScreeningUpdate) {
+  const report = await db
+    .collection<ScreeningReportDoc>("screening_reports")
+    .findOne({ provider: providerName, externalId: update.externalId });
+  if (!report) return { ok: false as const, error: "report_not_found" };
+  const saved = await applyScreeningUpdate(db, report, update, "webhook");
+  return { ok: true as const, reportId: String(report._id), status: saved?.status ?? report.status, duplicate: !saved };
+}
+
+/**
+ * Move a report forward. Completed and failed are final, so redelivered or late
+ * callbacks are no-ops (returns null). Final states are credited to the application.
+ */
+async function applyScreeningUpdate(
+  db: Db,
+  report: ScreeningReportDoc,
+  update: ScreeningUpdate,
+  source: "request" | "webhook"
+) {
+  const now = new Date();
+  const $set: Partial<ScreeningReportDoc> = { status: update.status, updatedAt: now };
+  if (update.externalId) $set.externalId = update.externalId;
+  if (update.status === "completed") {
+    $set.result = update.result;
+    $set.completedAt = now;
+  }
+  if (update.status === "failed") $set.error = update.error;
+
+  const saved = await db.collection<ScreeningReportDoc>("screening_reports").findOneAndUpdate(
+    { _id: report._id, status: { $in: ["requested", "pending"] } },
+    {
+      $set,
+      $push: { events: { at: now, status: update.status, source, ...(update.status === "failed" ? { note: update.error } : {}) } },
+    },
+    { returnDocument: "after" }
+  );
+  if (!saved || update.status === "pending") return saved;
+
+  const appFilter = idEq("_id", report.applicationId);
+  const timeline = {
+    at: now,
+    by: `screening:${report.provider}`,
+    event: update.status === "completed" ? "screening.completed" : "screening.failed",
+    meta: {
+      reportId: String(report._id),
+      userId: report.userId,
+      qualificationId: report.qualificationId,
+      check: report.check,
+      ...(update.status === "completed" ? { outcome: update.result.outcome } : { error: update.error }),
+    },
+  };
+  await db.collection<any>("applications").updateOne(appFilter, {
+    $set: {
+      updatedAt: now,
+      ...(update.status === "completed"
+        ? { [`qualificationStatus.${report.userId}.${report.qualificationId}`]: { status: "verified", at: now } }
+        : {}),
+    },
+    $push: { timeline } as any,
+  });
+  if (update.status === "completed") await refreshMissingDocs(db, report.applicationId);
+  return saved;
+}
+
+/** Applicants see progress only; reviewers also get the result */
+export function reportToWire(r: ScreeningReportDoc, opts: { withResult?: boolean } = {}) {
+  return {
+    id: String(r._id),
+    userId: r.userId,
+    qualificationId: r.qualificationId,
+    check: r.check,
+    provider: r.provider,
+    status: r.status,
+    error: r.error ?? null,
+    requestedAt: r.requestedAt,
+    completedAt: r.completedAt ?? null,
+    ...(opts.withResult && r.result
+      ? { result: { outcome: r.result.outcome, summary: r.result.summary, credit: r.result.credit, background: r.result.background, income: r.result.income } }
+      : {}),
+  };
+}
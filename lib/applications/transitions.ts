@@ -0,0 +1,212 @@
+// lib/applications/transitions.ts
+// The only place application statuses are written. A transition asks the
+// domain rules (computeNextState) for the next state, writes it conditionally
+// on the status it read, and records each step in application_transitions with
+// the actor and the guard context the rules saw. App admins can force a state
+// the rules wouldn't allow, with a reason that also goes to audit_log.
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import {
+  APP_STATES,
+  computeNextState,
+  normalizeAppState,
+  type Action,
+  type AppState,
+  type GuardContext,
+  type Role,
+} from "@/domain/rules";
+import type { ApplicationTransitionDoc, AuditLogDoc } from "@/lib/models";
+import { idEq } from "@/lib/ids";
+
+export type TransitionStep = { action: Action; role: Role; ctx?: GuardContext };
+
+export type TransitionInput = {
+  /** The application as read; its status is the write's precondition */
+  app: { _id: any; status?: unknown };
+  steps: TransitionStep | TransitionStep[];
+  by: string;
+  firmId?: string | null;
+  /** Fields written alongside the status */
+  set?: Record<string, unknown>;
+  /** Timeline entries pushed before the status.change ones */
+  timeline?: Record<string, unknown>[];
+  /** Merged into each status.change entry's meta */
+  meta?: Record<string, unknown>;
+  /** Still write `set`/`timeline` when no step moves the state */
+  optional?: boolean;
+  now?: Date;
+};
+
+export type TransitionResult =
+  | { ok: true; from: AppState; to: AppState; changed: boolean }
+  | { ok: false; error: "unknown_state" | "illegal_transition" | "conflict"; from: AppState | null; stored: string | null };
+
+const MAX_REASON = 500;
+
+/**
+ * Firm membership role → the role the domain rules check. Unknown or missing
+ * roles get "tenant", which the rules never let act on a firm's behalf.
+ */
+export function firmRoleToDomain(role: unknown): Role {
+  const r = String(role ?? "").toLowerCase();
+  if (r === "owner" || r === "admin") return "manager";
+  if (r === "member") return "admin";
+  return "tenant";
+}
+
+// Drop undefined so the stored guard reads like what the rules were given
+const guardOf = (ctx: GuardContext | undefined, now: Date) =>
+  JSON.parse(JSON.stringify({ ...ctx, now: (ctx?.now ?? now).toISOString() })) as Record<string, unknown>;
+
+async function firmIdForApp(db: Db, app: any): Promise<string | null> {
+  if (app?.firmId) return String(app.firmId);
+  if (!app?.formId) return null;
+  const form = await db.collection<any>("application_forms").findOne(idEq("_id", app.formId), { projection: { firmId: 1 } });
+  return form?.firmId ? String(form.firmId) : null;
+}
+
+export async function transitionApplication(db: Db, input: TransitionInput): Promise<TransitionResult> {
+  const now = input.now ?? new Date();
+  const stored = input.app.status == null ? null : String(input.app.status);
+  const from = normalizeAppState(stored);
+  if (!from) return { ok: false, error: "unknown_state", from: null, stored };
+
+  const path: { step: TransitionStep; from: AppState; to: AppState }[] = [];
+  let state = from;
+  for (const step of Array.isArray(input.steps) ? input.steps : [input.steps]) {
+    const next = computeNextState(state, step.action, step.role, { ...step.ctx, now: step.ctx?.now ?? now });
+    if (next !== state) {
+      path.push({ step, from: state, to: next });
+      state = next;
+    }
+  }
+
+  const apps = db.collection<any>("applications");
+  const extraTimeline = input.timeline ?? [];
+
+  if (!path.length) {
+    if (!input.optional) return { ok: false, error: "illegal_transition", from, stored };
+    if (input.set || extraTimeline.length) {
+      await apps.updateOne(
+        { _id: input.app._id },
+        {
+          $set: { ...input.set, updatedAt: now },
+          ...(extraTimeline.length ? { $push: { timeline: { $each: extraTimeline } } as any } : {}),
+        }
+      );
+    }
+    return { ok: true, from, to: from, changed: false };
+  }
+
+  const res = await apps.updateOne(
+    { _id: input.app._id, status: stored },
+    {
+      $set: { ...input.set, status: state, updatedAt: now },
+      $push: {
+        timeline: {
+          $each: [
+            ...extraTimeline,
+            ...path.map((p) => ({
+              at: now,
+              by: input.by,
+              event: "status.change",
+              meta: { ...input.meta, from: p.from, to: p.to, via: p.step.action },
+            })),
+          ],
+        },
+      } as any,
+    }
+  );
+  if (!res.matchedCount) return { ok: false, error: "conflict", from, stored };
+
+  const firmId =
+    input.firmId ?? (await firmIdForApp(db, await apps.findOne({ _id: input.app._id }, { projection: { firmId: 1, formId: 1 } })));
+  const rows: ApplicationTransitionDoc[] = path.map((p, i) => ({
+    _id: `tr_${crypto.randomUUID()}`,
+    appId: String(input.app._id),
+    firmId,
+    from: p.from,
+    to: p.to,
+    storedFrom: i === 0 ? stored : p.from,
+    action: p.step.action,
+    role: p.step.role,
+    actorUserId: input.by,
+    guard: guardOf(p.step.ctx, now),
+    reason: null,
+    at: now,
+  }));
+  await db.collection<ApplicationTransitionDoc>("application_transitions").insertMany(rows);
+
+  return { ok: true, from, to: state, changed: true };
+}
+
+/**
+ * App admin override: set any state, bypassing the rules. Needs a reason,
+ * which is kept on the transition, the timeline and audit_log.
+ */
+export async function forceTransition(
+  db: Db,
+  input: { appId: string; to: string; reason: string; by: string }
+) {
+  const reason = String(input.reason ?? "").trim().slice(0, MAX_REASON);
+  if (!reason) return { ok: false as const, error: "reason_required" };
+  if (!(APP_STATES as readonly string[]).includes(input.to)) return { ok: false as const, error: "invalid_state" };
+  const to = input.to as AppState;
+
+  const apps = db.collection<any>("applications");
+  const app = await apps.findOne(idEq("_id", input.appId), { projection: { _id: 1, status: 1, firmId: 1, formId: 1 } });
+  if (!app) return { ok: false as const, error: "application_not_found" };
+
+  const stored = app.status == null ? null : String(app.status);
+  const from = normalizeAppState(stored);
+  if (stored === to) return { ok: false as const, error: "no_change" };
+
+  const now = new Date();
+  const res = await apps.updateOne(
+    { _id: app._id, status: stored },
+    {
+      $set: { status: to, updatedAt: now },
+      $push: { timeline: { at: now, by: input.by, event: "status.forced", meta: { from: stored, to, reason } } } as any,
+    }
+  );
+  if (!res.matchedCount) return { ok: false as const, error: "conflict" };
+
+  const firmId = await firmIdForApp(db, app);
+  const appId = String(app._id);
+  await db.collection<ApplicationTransitionDoc>("application_transitions").insertOne({
+    _id: `tr_${crypto.randomUUID()}`,
+    appId,
+    firmId,
+    from,
+    to,
+    storedFrom: stored,
+    action: "force",
+    role: "app_admin",
+    actorUserId: input.by,
+    guard: {},
+    reason,
+    at: now,
+  });
+
+  const entry: AuditLogDoc = {
+    _id: `al_${crypto.randomUUID()}`,
+    orgId: firmId ?? "",
+    actorUserId: input.by,
+    entity: { type: "application", id: appId },
+    action: "application.force_transition",
+    meta: { from: stored, to, reason },
+    at: now,
+  };
+  await db.collection<AuditLogDoc>("audit_log").insertOne(entry);
+
+  return { ok: true as const, from, to };
+}
+
+export async function listTransitions(db: Db, appId: string, limit = 100) {
+  return db
+    .collection<ApplicationTransitionDoc>("application_transitions")
+    .find({ appId })
+    .sort({ at: -1 })
+    .limit(limit)
+    .toArray();
+}
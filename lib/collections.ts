@@ -1,7 +1,12 @@
 import type {
-  UserDoc, OrgDoc, OrgMembershipDoc, PropertyDoc,
-  ApplicationDoc, ApplicationInviteDoc, ApplicationFormDoc,
-  ApplicationReviewDoc, ApplicationApprovalDoc, AuditLogDoc
+  UserDoc, OrgDoc, OrgMembershipDoc, PropertyDoc, UnitDoc, HoldingRequestDoc,
+  ApplicationDoc, ApplicationInviteDoc, ApplicationFormDoc, ApplicationFormVersionDoc,
+  ApplicationReviewDoc, ApplicationApprovalDoc, AuditLogDoc,
+  DepositReturnDoc, DepositInterestEntryDoc,
+  RentAutopayDoc, RentAutopayRunDoc, LateFeeDoc, LedgerEntryDoc,
+  StripeEventDoc, StripeDeadLetterDoc, LeaseSignatureEnvelopeDoc,
+  LeaseTemplateDoc, ApplicationScoreDoc, ApplicationDocumentDoc,
+  ScreeningConsentDoc, ScreeningReportDoc, JobDoc, JobRunDoc, ApplicationTransitionDoc
 } from "./models";
 import { getDb } from "./db";
 import type { Collection } from "mongodb";
@@ -12,16 +17,42 @@ type NameMap = {
   orgs: OrgDoc;
   org_memberships: OrgMembershipDoc;
   properties: PropertyDoc;
+  units: UnitDoc;
 
   /* Tenant + landlord application data */
   applications: ApplicationDoc;
   application_invites: ApplicationInviteDoc;
   application_forms: ApplicationFormDoc;
+  application_form_versions: ApplicationFormVersionDoc;
+  application_documents: ApplicationDocumentDoc;
+  screening_consents: ScreeningConsentDoc;
+  screening_reports: ScreeningReportDoc;
+  holding_requests: HoldingRequestDoc;
 
   /* Review / approval / audit trails */
   application_reviews: ApplicationReviewDoc;
   application_approvals: ApplicationApprovalDoc;
+  application_scores: ApplicationScoreDoc;
   audit_log: AuditLogDoc;
+  application_transitions: ApplicationTransitionDoc;
+
+  /* Lease lifecycle */
+  deposit_returns: DepositReturnDoc;
+  deposit_interest_ledger: DepositInterestEntryDoc;
+  rent_autopay: RentAutopayDoc;
+  rent_autopay_runs: RentAutopayRunDoc;
+  late_fees: LateFeeDoc;
+  ledger_entries: LedgerEntryDoc;
+  lease_signatures: LeaseSignatureEnvelopeDoc;
+  lease_templates: LeaseTemplateDoc;
+
+  /* Stripe webhook event store */
+  stripe_events: StripeEventDoc;
+  stripe_events_dead: StripeDeadLetterDoc;
+
+  /* Background job scheduler */
+  jobs: JobDoc;
+  job_runs: JobRunDoc;
 };
 
 /* ---------- Typed collection helper ---------- */
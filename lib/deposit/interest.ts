@@ -0,0 +1,96 @@
+// lib/deposit/interest.ts
+// Security deposit interest math (M.G.L. c.186 § 15B(3)(b)), pure and testable
+
+/** Statutory ceiling: 5% per year, in hundredths of a percent */
+export const MA_MAX_INTEREST_HUNDREDTHS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse "YYYY-MM-DD" (or any ISO) to a UTC midnight Date, null if invalid */
+export function toUtcDay(v: string | Date | null | undefined): Date | null {
+  if (!v) return null;
+  if (v instanceof Date) {
+    if (isNaN(v.getTime())) return null;
+    return new Date(Date.UTC(v.getUTCFullYear(), v.getUTCMonth(), v.getUTCDate()));
+  }
+  const s = String(v).slice(0, 10);
+  const [y, m, d] = s.split("-").map(Number);
+  if (!y || !m || !d) return null;
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+export function ymd(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * The rate we owe the tenant: the bank's rate, capped at 5%.
+ * Unknown bank rate → 5%, the tenant-safe default.
+ */
+export function effectiveRateHundredths(bankRateHundredths?: number | null): number {
+  const n = Number(bankRateHundredths);
+  if (bankRateHundredths == null || !Number.isFinite(n) || n < 0) {
+    return MA_MAX_INTEREST_HUNDREDTHS;
+  }
+  return Math.min(Math.round(n), MA_MAX_INTEREST_HUNDREDTHS);
+}
+
+/** Whole days between two dates (UTC), never negative */
+export function daysBetween(from: string | Date, to: string | Date): number {
+  const a = toUtcDay(from);
+  const b = toUtcDay(to);
+  if (!a || !b) return 0;
+  return Math.max(0, Math.round((b.getTime() - a.getTime()) / DAY_MS));
+}
+
+/**
+ * Simple (non-compounding) interest on the principal between two dates.
+ * Rounded to the nearest cent.
+ */
+export function accruedInterestCents(opts: {
+  principalCents: number;
+  fromISO: string | Date | null | undefined;
+  toISO: string | Date | null | undefined;
+  rateHundredths: number;
+}): number {
+  const principal = Math.max(0, Number(opts.principalCents) || 0);
+  if (!principal || !opts.fromISO || !opts.toISO) return 0;
+  const days = daysBetween(opts.fromISO, opts.toISO);
+  if (!days) return 0;
+  const rate = Math.max(0, Number(opts.rateHundredths) || 0) / 10000;
+  return Math.round(principal * rate * (days / 365));
+}
+
+export function formatRate(hundredths: number): string {
+  return (hundredths / 100).toFixed(2) + "%";
+}
+
+/** Same calendar day N years later; Feb 29 falls back to Feb 28 */
+export function addYearsUtc(d: Date, years: number): Date {
+  const y = d.getUTCFullYear() + years;
+  const out = new Date(Date.UTC(y, d.getUTCMonth(), d.getUTCDate()));
+  if (out.getUTCMonth() !== d.getUTCMonth()) return new Date(Date.UTC(y, d.getUTCMonth() + 1, 0));
+  return out;
+}
+
+export type InterestYear = { year: number; startDate: string; endDate: string };
+
+/**
+ * Completed interest years between the deposit receipt and `through`.
+ * Year N runs from the (N-1)th to the Nth anniversary of receipt.
+ */
+export function completedInterestYears(
+  receivedISO: string | Date | null | undefined,
+  throughISO: string | Date | null | undefined
+): InterestYear[] {
+  const start = toUtcDay(receivedISO);
+  const through = toUtcDay(throughISO);
+  if (!start || !through) return [];
+  const out: InterestYear[] = [];
+  for (let n = 1; n < 200; n++) {
+    const end = addYearsUtc(start, n);
+    if (end.getTime() > through.getTime()) break;
+    out.push({ year: n, startDate: ymd(addYearsUtc(start, n - 1)), endDate: ymd(end) });
+  }
+  return out;
+}
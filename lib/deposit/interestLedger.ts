@@ -0,0 +1,239 @@
+// lib/deposit/interestLedger.ts
+// Per-lease deposit interest ledger: facts from payments + escrow disclosure,
+// and one accrued entry per completed year of tenancy
+import { ObjectId } from "mongodb";
+import type { DepositInterestEntryDoc } from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { postCredit } from "@/lib/ledger/journal";
+import {
+  accruedInterestCents,
+  completedInterestYears,
+  effectiveRateHundredths,
+  formatRate,
+  toUtcDay,
+  ymd,
+} from "./interest";
+import { renderDepositInterestStatement } from "./interestStatement";
+import { idEq, rid } from "@/lib/ids";
+
+export type DepositFacts = {
+  principalCents: number;
+  receivedDate: string | null;
+  rateHundredths: number;
+  bank: { name: string | null; address: string | null; accountLast4: string | null };
+};
+
+/** Deposit received for a lease's application (sum + first receipt) and the firm's escrow bank */
+export async function loadDepositFacts(db: any, lease: any): Promise<DepositFacts> {
+  const firmId = String(lease.firmId);
+  const appId = lease.appId ? String(lease.appId) : null;
+  let principalCents = 0;
+  let receivedDate: string | null = null;
+
+  if (appId) {
+    const rows = await db
+      .collection("payments")
+      .find(
+        { firmId, kind: "deposit", status: "succeeded", ...idEq("appId", appId) },
+        { projection: { amountCents: 1, succeededAt: 1, processingAt: 1, createdAt: 1 } }
+      )
+      .toArray();
+    for (const p of rows) {
+      principalCents += Math.max(0, Number(p.amountCents) || 0);
+      const at = toUtcDay(p.succeededAt ?? p.processingAt ?? p.createdAt);
+      if (at && (!receivedDate || ymd(at) < receivedDate)) receivedDate = ymd(at);
+    }
+  }
+
+  const firm = await db.collection("firms").findOne(
+    ObjectId.isValid(firmId) ? { _id: new ObjectId(firmId) } : { _id: firmId },
+    { projection: { escrowDisclosure: 1 } }
+  );
+  const ed = firm?.escrowDisclosure ?? {};
+  const digits = String(ed.accountIdentifier ?? ed.accountLast4 ?? "").replace(/\D/g, "");
+
+  return {
+    principalCents,
+    receivedDate,
+    rateHundredths: effectiveRateHundredths(ed.interestHundredths),
+    bank: {
+      name: ed.bankName ? String(ed.bankName) : null,
+      address: ed.bankAddress ? String(ed.bankAddress) : null,
+      accountLast4: digits ? digits.slice(-4) : null,
+    },
+  };
+}
+
+/**
+ * Create ledger entries for every completed anniversary that doesn't have one yet.
+ * Accrual stops at the lease's move-out date; the final partial year is settled by
+ * the move-out deposit return. Existing entries are never recomputed.
+ */
+export async function syncInterestLedger(db: any, lease: any, now: Date = new Date()) {
+  const leaseId = String(lease._id);
+  const col = db.collection("deposit_interest_ledger");
+  const facts = await loadDepositFacts(db, lease);
+
+  const today = ymd(now);
+  const through =
+    lease.moveOutDate && String(lease.moveOutDate).slice(0, 10) < today
+      ? String(lease.moveOutDate).slice(0, 10)
+      : today;
+
+  const created: DepositInterestEntryDoc[] = [];
+  if (facts.principalCents > 0 && facts.receivedDate) {
+    for (const y of completedInterestYears(facts.receivedDate, through)) {
+      const entry: DepositInterestEntryDoc = {
+        _id: `dint_${rid()}`,
+        leaseId,
+        firmId: String(lease.firmId),
+        appId: lease.appId ? String(lease.appId) : null,
+        householdId: lease.householdId ? String(lease.householdId) : null,
+        year: y.year,
+        periodStart: y.startDate,
+        periodEnd: y.endDate,
+        principalCents: facts.principalCents,
+        rateHundredths: facts.rateHundredths,
+        interestCents: accruedInterestCents({
+          principalCents: facts.principalCents,
+          fromISO: y.startDate,
+          toISO: y.endDate,
+          rateHundredths: facts.rateHundredths,
+        }),
+        bank: facts.bank,
+        status: "accrued",
+        statementSentAt: null,
+        disposition: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const res = await col.updateOne(
+        { leaseId, year: y.year },
+        { $setOnInsert: entry },
+        { upsert: true }
+      );
+      if (res.upsertedCount) created.push(entry);
+    }
+  }
+
+  const entries: DepositInterestEntryDoc[] = await col.find({ leaseId }).sort({ year: 1 }).toArray();
+
+  // Running accrual for the year in progress
+  const lastEnd = entries.length ? entries[entries.length - 1].periodEnd : facts.receivedDate;
+  const current = {
+    fromDate: lastEnd,
+    toDate: through,
+    cents: accruedInterestCents({
+      principalCents: facts.principalCents,
+      fromISO: lastEnd,
+      toISO: through,
+      rateHundredths: facts.rateHundredths,
+    }),
+  };
+
+  return { facts, entries, created, current };
+}
+
+/**
+ * Credit an interest entry against the lease's open rent lines, earliest first.
+ * Posted as a ledger credit keyed by the entry, so a retry can't double-apply.
+ */
+export async function creditInterestToRent(db: any, entry: DepositInterestEntryDoc) {
+  const appId = entry.appId ? String(entry.appId) : null;
+  if (!appId) return { appliedCents: 0, chargeKey: null as string | null };
+  const app = await db.collection("applications").findOne(idEq("_id", appId));
+  if (!app) return { appliedCents: 0, chargeKey: null };
+
+  const { entry: posted, appliedCents } = await postCredit(db, app, {
+    sourceKey: `deposit_interest:${entry._id}`,
+    groups: ["rent"],
+    amountCents: Math.max(0, Number(entry.interestCents) || 0),
+    memo: `Deposit interest, year ${entry.year}`,
+  });
+  return { appliedCents, chargeKey: posted?.lines[0]?.chargeKey ?? null };
+}
+
+/**
+ * Email the anniversary statement to the household. The HTML is the same
+ * statement tenants open in the portal.
+ */
+export async function sendInterestStatement(db: any, entry: DepositInterestEntryDoc) {
+  const recipients = await getHouseholdEmails(entry.householdId);
+  if (!recipients.length) return { ok: false as const, error: "no_recipients", sent: [] as string[] };
+
+  let html = "";
+  try {
+    html = await renderDepositInterestStatement(db, entry);
+  } catch (e) {
+    console.error("[deposit-interest] statement render failed,", e);
+  }
+
+  const money = (c: number) => `$${(c / 100).toFixed(2)}`;
+  const text = [
+    `SECURITY DEPOSIT INTEREST STATEMENT — YEAR ${entry.year}`,
+    "",
+    `Period: ${entry.periodStart} to ${entry.periodEnd}`,
+    `Deposit: ${money(entry.principalCents)}`,
+    `Rate: ${formatRate(entry.rateHundredths)} per year`,
+    `Interest: ${money(entry.interestCents)}`,
+    entry.bank?.name ? `Held at: ${entry.bank.name}${entry.bank.address ? `, ${entry.bank.address}` : ""}` : null,
+    entry.bank?.accountLast4 ? `Account ending: ${entry.bank.accountLast4}` : null,
+    "",
+    "If this interest is not paid or credited within 30 days of the anniversary, you may deduct it from your next rent payment.",
+  ]
+    .filter((l) => l != null)
+    .join("\n");
+
+  const sent: string[] = [];
+  for (const to of recipients) {
+    const r = await sendMail({
+      to,
+      subject: `Security deposit interest statement — year ${entry.year}`,
+      html: html || undefined,
+      text,
+      idempotencyKey: `deposit-interest:${entry._id}:${to}`,
+      traceId: `lease:${entry.leaseId}`,
+    });
+    if (r.ok) sent.push(to);
+    else console.warn("[deposit-interest] email failed,", { to, error: (r as any).error });
+  }
+
+  if (sent.length) {
+    const now = new Date();
+    await db.collection("deposit_interest_ledger").updateOne(
+      { _id: entry._id },
+      { $set: { statementSentAt: now, statementRecipients: sent, updatedAt: now } }
+    );
+  }
+
+  return sent.length
+    ? { ok: true as const, sent }
+    : { ok: false as const, error: "send_failed", sent };
+}
+
+/**
+ * Anniversary sweep: sync every live lease (optionally one firm's) and email
+ * statements for completed years that haven't been sent yet.
+ */
+export async function runInterestAnniversaries(db: any, opts: { firmId?: string; now?: Date } = {}) {
+  const now = opts.now ?? new Date();
+  const filter: any = { status: { $nin: ["canceled"] } };
+  if (opts.firmId) filter.firmId = opts.firmId;
+
+  const leases = await db.collection("unit_leases").find(filter).toArray();
+  const summary = { leases: leases.length, created: 0, sent: 0, failed: [] as { entryId: string; error: string }[] };
+
+  for (const lease of leases) {
+    const { entries, created } = await syncInterestLedger(db, lease, now);
+    summary.created += created.length;
+    for (const e of entries) {
+      if (e.statementSentAt) continue;
+      const r = await sendInterestStatement(db, e);
+      if (r.ok) summary.sent++;
+      else summary.failed.push({ entryId: String(e._id), error: r.error });
+    }
+  }
+
+  return summary;
+}
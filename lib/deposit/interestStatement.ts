@@ -0,0 +1,66 @@
+// lib/deposit/interestStatement.ts
+// The yearly security deposit interest statement (M.G.L. c.186 §15B(3)(b)) as
+// a standalone HTML page. Served by /api/receipts/deposit-interest/[entryId]
+// and rendered in-process for the anniversary email.
+import type { Db } from "mongodb";
+import { formatRate } from "./interest";
+import { esc, fmtDate, householdNames, htmlShell, landlordName, money, premisesOf, toMaybeObjectId } from "@/lib/receipts";
+
+/** Render a deposit_interest_ledger entry */
+export async function renderDepositInterestStatement(db: Db, entry: any) {
+  const lease = await db.collection<any>("unit_leases").findOne({ _id: toMaybeObjectId(entry.leaseId) });
+  const landlord = await landlordName(db, entry.firmId);
+  const premises = premisesOf(lease);
+
+  const tenants = await householdNames(db, entry.householdId ?? lease?.householdId);
+
+  const disposition = entry.disposition
+    ? entry.disposition.method === "credited_to_rent"
+      ? `Credited against rent on ${esc(fmtDate(entry.disposition.at))}${
+          entry.disposition.appliedCents != null ? ` (${esc(money(entry.disposition.appliedCents))} applied)` : ""
+        }.`
+      : `Paid to tenant on ${esc(fmtDate(entry.disposition.at))}${
+          entry.disposition.reference ? ` (${esc(entry.disposition.reference)})` : ""
+        }.`
+    : `Not yet paid. If the interest is not paid or credited within 30 days of ${esc(
+        fmtDate(entry.periodEnd),
+      )}, you may deduct it from your next rent payment.`;
+
+  const inner = `
+  <h1>Security Deposit Interest Statement</h1>
+  <div class="muted">Year ${esc(entry.year)} of tenancy • M.G.L. c.186 § 15B(3)(b)</div>
+
+  <div class="box" style="margin-top:12px">
+    <div class="grid">
+      <div class="row"><span class="label">Tenant(s)</span>${esc(tenants.join(", ") || "Tenant")}</div>
+      <div class="row"><span class="label">Landlord</span>${esc(landlord)}</div>
+      <div class="row"><span class="label">Premises</span>${esc(premises || "Premises")}</div>
+      <div class="row"><span class="label">Statement date</span>${esc(fmtDate(entry.periodEnd))}</div>
+    </div>
+  </div>
+
+  <h2>Bank holding the deposit</h2>
+  <div class="grid">
+    <div class="row"><span class="label">Bank</span>${esc(entry.bank?.name || "—")}</div>
+    <div class="row"><span class="label">Address</span>${esc(entry.bank?.address || "—")}</div>
+    <div class="row"><span class="label">Account</span>${
+      entry.bank?.accountLast4 ? `ending ${esc(entry.bank.accountLast4)}` : "—"
+    }</div>
+  </div>
+
+  <h2>Interest for this year</h2>
+  <table>
+    <tbody>
+      <tr><td>Period</td><td class="num">${esc(fmtDate(entry.periodStart))} – ${esc(fmtDate(entry.periodEnd))}</td></tr>
+      <tr><td>Security deposit</td><td class="num">${esc(money(entry.principalCents))}</td></tr>
+      <tr><td>Rate</td><td class="num">${esc(formatRate(Number(entry.rateHundredths) || 0))} per year</td></tr>
+      <tr class="total"><td>Interest payable</td><td class="num">${esc(money(entry.interestCents))}</td></tr>
+    </tbody>
+  </table>
+
+  <hr/>
+  <div class="note">${disposition}</div>
+  `;
+
+  return htmlShell(inner, "Security Deposit Interest");
+}
@@ -0,0 +1,122 @@
+// lib/deposit/moveOut.ts
+// Move-out deposit return rules (M.G.L. c.186 § 15B(4)), pure and testable
+import type {
+  DepositDeduction,
+  DepositDeductionKind,
+  DepositReturnDoc,
+} from "@/lib/models";
+import { toUtcDay, ymd } from "./interest";
+
+/** Days after the tenancy ends to return the deposit, or deliver the sworn list */
+export const RETURN_DEADLINE_DAYS = 30;
+
+/** The only deductions § 15B(4) allows */
+export const DEDUCTION_KINDS: DepositDeductionKind[] = [
+  "unpaid_rent",
+  "unpaid_tax_increase",
+  "damage",
+];
+
+export const DEDUCTION_LABELS: Record<DepositDeductionKind, string> = {
+  unpaid_rent: "Unpaid rent",
+  unpaid_tax_increase: "Unpaid real estate tax increase (tax escalation clause)",
+  damage: "Damage beyond reasonable wear and tear",
+};
+
+/** S3 prefix for a lease's deduction evidence; attachments must live under it */
+export function evidencePrefix(firmId: string, leaseId: string) {
+  return `deposit-returns/${firmId}/${leaseId}/`;
+}
+
+/** An uploaded evidence key for this lease: one object directly under its prefix */
+export function isEvidenceKey(key: string, firmId: string, leaseId: string) {
+  const prefix = evidencePrefix(firmId, leaseId);
+  return key.startsWith(prefix) && /^[\w.\-]+$/.test(key.slice(prefix.length));
+}
+
+export function returnDeadlineISO(moveOutISO: string | null | undefined): string | null {
+  const d = toUtcDay(moveOutISO);
+  if (!d) return null;
+  d.setUTCDate(d.getUTCDate() + RETURN_DEADLINE_DAYS);
+  return ymd(d);
+}
+
+export type DepositReturnTotals = {
+  principalCents: number;
+  interestCents: number;
+  heldCents: number;        // principal + interest
+  deductionsCents: number;
+  refundCents: number;      // what goes back to the tenant
+  shortfallCents: number;   // deductions beyond what we hold (tenant owes)
+};
+
+export function summarizeDepositReturn(
+  doc: Pick<DepositReturnDoc, "principalCents" | "interest" | "deductions">
+): DepositReturnTotals {
+  const principalCents = Math.max(0, Number(doc.principalCents) || 0);
+  const interestCents = Math.max(0, Number(doc.interest?.cents) || 0);
+  const heldCents = principalCents + interestCents;
+  const deductionsCents = (doc.deductions ?? []).reduce(
+    (s, d) => s + Math.max(0, Number(d.amountCents) || 0),
+    0
+  );
+  return {
+    principalCents,
+    interestCents,
+    heldCents,
+    deductionsCents,
+    refundCents: Math.max(0, heldCents - deductionsCents),
+    shortfallCents: Math.max(0, deductionsCents - heldCents),
+  };
+}
+
+/**
+ * Problems that block finalizing the sworn statement.
+ * Damage must be backed by written evidence (estimates, bills, invoices or receipts),
+ * and may not be for a condition already listed on the move-in statement unless
+ * the landlord explains what is new.
+ */
+export function finalizeProblems(
+  doc: Pick<DepositReturnDoc, "moveOutDate" | "deductions">
+): string[] {
+  const errs: string[] = [];
+  if (!doc.moveOutDate) errs.push("move_out_date_required");
+
+  for (const d of doc.deductions ?? []) {
+    if (!DEDUCTION_KINDS.includes(d.kind)) {
+      errs.push(`deduction_kind_not_allowed:${d.id}`);
+      continue;
+    }
+    if (!(Number(d.amountCents) > 0)) errs.push(`deduction_amount_invalid:${d.id}`);
+    if (d.kind === "damage") {
+      if (!hasWrittenEvidence(d)) errs.push(`damage_evidence_required:${d.id}`);
+      if (d.conditionItem && !String(d.notes ?? "").trim()) {
+        errs.push(`preexisting_condition_note_required:${d.id}`);
+      }
+    }
+  }
+  return errs;
+}
+
+export function hasWrittenEvidence(d: DepositDeduction): boolean {
+  return (d.attachments ?? []).some(
+    (a) => a.kind === "estimate" || a.kind === "invoice" || a.kind === "receipt"
+  );
+}
+
+/** Tenancy end → deadline, and whether the deadline has passed as of `now` */
+export function deadlineStatus(
+  doc: Pick<DepositReturnDoc, "deadlineDate" | "status">,
+  now: Date = new Date()
+): { deadlineDate: string | null; daysLeft: number | null; overdue: boolean } {
+  const deadline = toUtcDay(doc.deadlineDate);
+  if (!deadline) return { deadlineDate: null, daysLeft: null, overdue: false };
+  const today = toUtcDay(now)!;
+  const daysLeft = Math.round((deadline.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  const delivered = doc.status !== "draft";
+  return {
+    deadlineDate: ymd(deadline),
+    daysLeft,
+    overdue: !delivered && daysLeft < 0,
+  };
+}
@@ -0,0 +1,143 @@
+// lib/deposit/statement.ts
+// The itemized security deposit return statement (M.G.L. c.186 §15B(4)) as a
+// standalone HTML page. Served by /api/receipts/deposit-return/[leaseId] and
+// rendered in-process for the statement email.
+import type { Db } from "mongodb";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { s3, S3_BUCKET } from "@/lib/aws/s3";
+import { formatRate } from "./interest";
+import { DEDUCTION_LABELS, summarizeDepositReturn } from "./moveOut";
+import { esc, fmtDate, householdNames, htmlShell, landlordName, money, premisesOf, toMaybeObjectId } from "@/lib/receipts";
+
+/** Evidence links are for viewing now, not for keeping */
+const EVIDENCE_URL_TTL_SECONDS = 15 * 60;
+
+export async function signEvidence(objectKey: string): Promise<string | null> {
+  if (!objectKey || !S3_BUCKET) return null;
+  try {
+    const cmd = new GetObjectCommand({ Bucket: S3_BUCKET, Key: objectKey });
+    return await getSignedUrl(s3, cmd, { expiresIn: EVIDENCE_URL_TTL_SECONDS });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a deposit_returns doc. Evidence is linked with short-lived presigned
+ * URLs when `evidenceLinks` is set (someone is viewing it now), and listed by
+ * name otherwise (email, where a link would expire before it's opened).
+ */
+export async function renderDepositReturnStatement(db: Db, doc: any, opts: { evidenceLinks: boolean }) {
+  const lease = await db.collection<any>("unit_leases").findOne({ _id: toMaybeObjectId(doc.leaseId) });
+  const landlord = await landlordName(db, doc.firmId);
+  const premises = premisesOf(lease);
+
+  const tenants = await householdNames(db, doc.householdId ?? lease?.householdId);
+  const totals = summarizeDepositReturn(doc);
+
+  const rows: string[] = [];
+  for (const d of doc.deductions ?? []) {
+    const evidence: string[] = [];
+    for (const a of d.attachments ?? []) {
+      const href = opts.evidenceLinks ? await signEvidence(a.objectKey) : null;
+      const label = `${esc(a.kind)}: ${esc(a.fileName)}`;
+      evidence.push(href ? `<a href="${esc(href)}">${label}</a>` : label);
+    }
+    const moveIn = d.conditionItem
+      ? `<div class="evidence">Recorded at move-in: ${esc(d.conditionItem.room)} — ${esc(
+          d.conditionItem.description || d.conditionItem.category,
+        )}</div>`
+      : "";
+    rows.push(`<tr>
+      <td>${esc(DEDUCTION_LABELS[d.kind as keyof typeof DEDUCTION_LABELS] ?? d.kind)}</td>
+      <td>${esc(d.label)}${d.notes ? `<div class="evidence">${esc(d.notes)}</div>` : ""}${moveIn}${
+        evidence.length ? `<div class="evidence">Evidence: ${evidence.join(" • ")}</div>` : ""
+      }</td>
+      <td class="num">${esc(money(d.amountCents))}</td>
+    </tr>`);
+  }
+
+  const draftBanner =
+    doc.status === "draft"
+      ? `<div class="draft">DRAFT — this statement has not been sworn or delivered to the tenant.</div>`
+      : "";
+
+  const sworn = doc.sworn
+    ? `<div class="sigline"></div>
+       <div class="muted">
+         Signed under the pains and penalties of perjury by ${esc(doc.sworn.name)}${
+           doc.sworn.title ? `, ${esc(doc.sworn.title)}` : ""
+         }, on behalf of ${esc(landlord)}, on ${esc(fmtDate(doc.sworn.at))}.
+       </div>`
+    : `<div class="sigline"></div><div class="muted">Not yet signed.</div>`;
+
+  const payout = doc.payout
+    ? `<div class="row"><span class="label">Refund paid</span>${esc(money(doc.payout.amountCents))} by ${esc(
+        doc.payout.method,
+      )}${doc.payout.reference ? ` (${esc(doc.payout.reference)})` : ""} on ${esc(fmtDate(doc.payout.paidAt))}</div>`
+    : "";
+
+  const inner = `
+  ${draftBanner}
+  <h1 style="margin-top:8px">Security Deposit Return — Itemized Statement</h1>
+  <div class="muted">M.G.L. c.186 § 15B(4)</div>
+
+  <div class="box" style="margin-top:12px">
+    <div class="grid">
+      <div class="row"><span class="label">Tenant(s)</span>${esc(tenants.join(", ") || "Tenant")}</div>
+      <div class="row"><span class="label">Landlord</span>${esc(landlord)}</div>
+      <div class="row"><span class="label">Premises</span>${esc(premises || "Premises")}</div>
+      <div class="row"><span class="label">Tenancy</span>${esc(fmtDate(lease?.moveInDate))} – ${esc(
+        fmtDate(doc.moveOutDate),
+      )}</div>
+      <div class="row"><span class="label">Deposit received</span>${esc(money(doc.principalCents))} on ${esc(
+        fmtDate(doc.receivedDate),
+      )}</div>
+      <div class="row"><span class="label">Return due by</span>${esc(fmtDate(doc.deadlineDate))}</div>
+    </div>
+  </div>
+
+  <h2>Interest</h2>
+  <div class="row">
+    ${esc(money(doc.interest?.cents))} at ${esc(formatRate(Number(doc.interest?.rateHundredths) || 0))} per year,
+    from ${esc(fmtDate(doc.interest?.fromDate))} to ${esc(fmtDate(doc.interest?.toDate))}.
+  </div>
+
+  <h2>Deductions</h2>
+  ${
+    rows.length
+      ? `<table>
+          <thead><tr><th>Type</th><th>Description and written evidence</th><th class="num">Amount</th></tr></thead>
+          <tbody>${rows.join("")}</tbody>
+        </table>`
+      : `<p class="muted">No deductions. The full deposit and interest are being returned.</p>`
+  }
+
+  <h2>Summary</h2>
+  <table>
+    <tbody>
+      <tr><td>Security deposit</td><td class="num">${esc(money(totals.principalCents))}</td></tr>
+      <tr><td>Interest</td><td class="num">${esc(money(totals.interestCents))}</td></tr>
+      <tr><td>Less deductions</td><td class="num">−${esc(money(totals.deductionsCents))}</td></tr>
+      <tr class="total"><td>Amount returned to tenant</td><td class="num">${esc(money(totals.refundCents))}</td></tr>
+      ${
+        totals.shortfallCents
+          ? `<tr><td>Deductions exceeding the deposit</td><td class="num">${esc(money(totals.shortfallCents))}</td></tr>`
+          : ""
+      }
+    </tbody>
+  </table>
+  ${payout}
+
+  <hr/>
+  <p class="muted">
+    Deductions are limited to unpaid rent, unpaid increases in real estate taxes under a valid tax escalation clause,
+    and the reasonable cost of repairing damage caused by the tenant beyond reasonable wear and tear.
+    Damage already listed in the move-in statement of condition may not be deducted.
+  </p>
+  ${sworn}
+  `;
+
+  return htmlShell(inner, "Security Deposit Return");
+}
@@ -0,0 +1,25 @@
+import type { Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import { idEq } from "@/lib/ids";
+
+/**
+ * Emails of a firm's active owners and admins, falling back to the firm's
+ * contact email when none of them has one.
+ */
+export async function getFirmAdminEmails(db: Db, firmId: string): Promise<string[]> {
+  const mships = await db
+    .collection("firm_memberships")
+    .find({ firmId, active: true, role: { $in: ["owner", "admin"] } }, { projection: { userId: 1 } })
+    .toArray();
+  const ids = mships.map((m: any) =>
+    ObjectId.isValid(String(m.userId)) ? new ObjectId(String(m.userId)) : String(m.userId)
+  );
+  const users = ids.length
+    ? await db.collection<any>("users").find({ _id: { $in: ids } }, { projection: { email: 1 } }).toArray()
+    : [];
+  const emails = users.map((u: any) => String(u.email || "").trim()).filter(Boolean);
+  if (emails.length) return Array.from(new Set(emails));
+
+  const firm = await db.collection<any>("firms").findOne(idEq("_id", firmId), { projection: { contactEmail: 1 } });
+  return firm?.contactEmail ? [String(firm.contactEmail)] : [];
+}
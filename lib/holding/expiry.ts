@@ -0,0 +1,275 @@
+// lib/holding/expiry.ts
+// Holding reservations lapse: an unpaid holding request (holding_requests)
+// expires at expiresAt, which clears the application's locks.holding and so
+// returns the unit to available (see lib/properties/availability). Reminders
+// go to the household at configurable offsets before that; landlords can push
+// the expiry out with a reason, which is audit-logged.
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import type { AuditLogDoc, HoldingRequestDoc } from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { getFirmAdminEmails } from "@/lib/firms";
+import { SYSTEM_ACTOR } from "@/lib/applications/approvals";
+import { idEq } from "@/lib/ids";
+
+const HOUR_MS = 3_600_000;
+
+/** How long an unpaid hold lasts before it is extended */
+export const HOLD_TTL_HOURS = Math.max(1, Number(process.env.HOLD_TTL_HOURS) || 72);
+
+/** Hours before expiry the household is reminded, e.g. HOLD_REMINDER_HOURS="24,2" */
+export const HOLD_REMINDER_HOURS = parseOffsets(process.env.HOLD_REMINDER_HOURS ?? "24,2");
+
+/** Longest a single extension may push the expiry out */
+export const MAX_HOLD_EXTENSION_HOURS = 14 * 24;
+
+function parseOffsets(raw: string) {
+  const out = raw
+    .split(",")
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0);
+  return Array.from(new Set(out)).sort((a, b) => b - a);
+}
+
+const fmt = (d: Date) =>
+  d.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone: "America/New_York" });
+
+/** When an unpaid hold lapses; null for older requests the sweep hasn't backfilled yet */
+export function holdExpiresAt(hold: Pick<HoldingRequestDoc, "expiresAt">) {
+  return hold.expiresAt ? new Date(hold.expiresAt) : null;
+}
+
+async function notify(to: string[], subject: string, text: string, idempotencyKey: string, traceId: string) {
+  let sent = 0;
+  for (const addr of to) {
+    const r = await sendMail({ to: addr, subject, text, idempotencyKey: `${idempotencyKey}:${addr}`, traceId });
+    if (r.ok) sent++;
+    else console.warn("[holding] email failed,", { to: addr, error: (r as any).error });
+  }
+  return sent;
+}
+
+function unitLabel(app: any) {
+  const line1 = String(app?.building?.addressLine1 ?? "").trim();
+  const unit = String(app?.unit?.unitNumber ?? "").trim();
+  if (!line1) return "the unit";
+  return unit ? `${line1}, Unit ${unit}` : line1;
+}
+
+const payLink = (token: string) => {
+  const path = `/tenant/hold/${encodeURIComponent(token)}`;
+  return process.env.APP_BASE_URL ? `${process.env.APP_BASE_URL}${path}` : path;
+};
+
+async function loadApp(db: Db, appId: string) {
+  return db
+    .collection<any>("applications")
+    .findOne(idEq("_id", appId), { projection: { _id: 1, householdId: 1, building: 1, unit: 1, locks: 1 } });
+}
+
+/**
+ * Release an application's hold: the request (if any) goes to `expired`, the
+ * lock is cleared, and both the household and the firm's admins are told.
+ * Conditional on the request still being pending, so a payment that lands
+ * at the same moment wins.
+ */
+async function expireHold(db: Db, hold: HoldingRequestDoc | null, appId: string, firmId: string, now: Date) {
+  if (hold) {
+    const res = await db
+      .collection<HoldingRequestDoc>("holding_requests")
+      .updateOne({ _id: hold._id, status: "pending" }, { $set: { status: "expired", expiredAt: now, updatedAt: now } });
+    if (!res.modifiedCount) return false;
+  }
+
+  const app = await loadApp(db, appId);
+  await db.collection<any>("applications").updateOne(idEq("_id", appId), {
+    $set: {
+      "locks.holding.active": false,
+      "locks.holding.releasedAt": now,
+      "locks.holding.releasedReason": "expired",
+      updatedAt: now,
+    },
+    $push: {
+      timeline: {
+        at: now,
+        by: SYSTEM_ACTOR,
+        event: "hold.expired",
+        meta: { ...(hold ? { holdId: String(hold._id) } : {}), until: app?.locks?.holding?.until ?? hold?.expiresAt ?? null },
+      },
+    } as any,
+  });
+
+  const label = unitLabel(app);
+  const key = `hold-expired:${hold ? String(hold._id) : appId}`;
+  await notify(
+    await getHouseholdEmails(app?.householdId ?? null),
+    `Your hold on ${label} has expired`,
+    [
+      `The holding deposit for ${label} wasn't paid in time, so the unit is no longer reserved for you.`,
+      "Your application is still on file; contact the landlord if you'd still like the unit.",
+    ].join("\n\n"),
+    `${key}:household`,
+    appId
+  );
+  await notify(
+    await getFirmAdminEmails(db, firmId),
+    `Hold expired: ${label}`,
+    `The hold for application ${appId} on ${label} expired unpaid. The unit is available again.`,
+    `${key}:landlord`,
+    appId
+  );
+  return true;
+}
+
+/**
+ * The scheduled sweep:
+ *  - give pending holds from before expiry existed a full HOLD_TTL_HOURS from
+ *    the first sweep that sees them, rather than expiring them on their age,
+ *  - remind households of pending holds HOLD_REMINDER_HOURS before expiry
+ *    (one email per run, for the closest offset that's due),
+ *  - expire pending holds whose time has passed,
+ *  - clear application locks whose `until` passed with no pending request.
+ */
+export async function runHoldingExpiry(db: Db, opts: { now?: Date } = {}) {
+  const now = opts.now ?? new Date();
+  const holds = db.collection<HoldingRequestDoc>("holding_requests");
+  const summary = { backfilled: 0, pending: 0, reminded: 0, expired: 0, locksCleared: 0 };
+
+  const backfilled = await holds.updateMany(
+    { status: "pending", expiresAt: null },
+    { $set: { expiresAt: new Date(now.getTime() + HOLD_TTL_HOURS * HOUR_MS), remindersSent: [], updatedAt: now } }
+  );
+  summary.backfilled = backfilled.modifiedCount;
+
+  const pending = await holds.find({ status: "pending" }).toArray();
+  for (const hold of pending) {
+    summary.pending++;
+    const expiresAt = holdExpiresAt(hold);
+    if (!expiresAt) continue;
+
+    if (expiresAt <= now) {
+      if (await expireHold(db, hold, String(hold.appId), String(hold.firmId), now)) summary.expired++;
+      continue;
+    }
+
+    // Keep the application's lock in step so heldUntil and availability see the hold
+    await db.collection<any>("applications").updateOne(
+      {
+        $and: [
+          idEq("_id", hold.appId),
+          { $or: [{ "locks.holding.active": { $ne: true } }, { "locks.holding.until": { $ne: expiresAt } }] },
+        ],
+      },
+      { $set: { "locks.holding.active": true, "locks.holding.until": expiresAt } }
+    );
+
+    const sent = hold.remindersSent ?? [];
+    const hoursLeft = (expiresAt.getTime() - now.getTime()) / HOUR_MS;
+    const due = HOLD_REMINDER_HOURS.filter((h) => h >= hoursLeft && !sent.includes(h));
+    if (!due.length) continue;
+
+    const app = await loadApp(db, String(hold.appId));
+    const label = unitLabel(app);
+    await notify(
+      await getHouseholdEmails(app?.householdId ?? hold.householdId),
+      `Your hold on ${label} expires ${fmt(expiresAt)}`,
+      [
+        `Pay the holding deposit by ${fmt(expiresAt)} (Eastern) to keep ${label} reserved for you.`,
+        `Pay here: ${payLink(hold.token)}`,
+        "If it isn't paid by then, the unit is released to other applicants.",
+      ].join("\n\n"),
+      `hold-reminder:${hold._id}:${expiresAt.getTime()}:${Math.min(...due)}`,
+      String(hold.appId)
+    );
+    await holds.updateOne(
+      { _id: hold._id },
+      { $addToSet: { remindersSent: { $each: due } }, $set: { updatedAt: now } }
+    );
+    summary.reminded++;
+  }
+
+  // Locks set without a request (or whose request was settled elsewhere)
+  const stale = await db
+    .collection<any>("applications")
+    .find(
+      { "locks.holding.active": true, "locks.holding.until": { $ne: null, $lte: now } },
+      { projection: { _id: 1, formId: 1, firmId: 1 } }
+    )
+    .limit(500)
+    .toArray();
+  for (const app of stale) {
+    const appId = String(app._id);
+    const open = await holds.findOne({ appId, status: { $in: ["pending", "submitted", "paid"] } }, { projection: { _id: 1 } });
+    if (open) continue;
+    const firmId = app.firmId ? String(app.firmId) : await firmIdForForm(db, app.formId);
+    if (!firmId) continue;
+    await expireHold(db, null, appId, firmId, now);
+    summary.locksCleared++;
+  }
+
+  return summary;
+}
+
+async function firmIdForForm(db: Db, formId: any) {
+  if (!formId) return null;
+  const form = await db.collection<any>("application_forms").findOne(idEq("_id", formId), { projection: { firmId: 1 } });
+  return form?.firmId ? String(form.firmId) : null;
+}
+
+/**
+ * Push an application's hold out by `hours`. Needs a reason; the change is
+ * written to the request, the application timeline and audit_log. Reminders
+ * start over for the new expiry.
+ */
+export async function extendHold(
+  db: Db,
+  input: { appId: string; firmId: string; hours: number; reason: string; by: string }
+) {
+  const reason = input.reason.trim().slice(0, 500);
+  if (!reason) return { ok: false as const, error: "reason_required" };
+  if (!(input.hours > 0 && input.hours <= MAX_HOLD_EXTENSION_HOURS)) return { ok: false as const, error: "invalid_hours" };
+
+  const holds = db.collection<HoldingRequestDoc>("holding_requests");
+  const apps = db.collection<any>("applications");
+  const hold = await holds.findOne({ appId: input.appId, firmId: input.firmId, status: "pending" });
+  const app = await apps.findOne(idEq("_id", input.appId), { projection: { _id: 1, locks: 1 } });
+  if (!app) return { ok: false as const, error: "application_not_found" };
+  const lock = app.locks?.holding;
+  if (!hold && !lock?.active) return { ok: false as const, error: "no_active_hold" };
+
+  const now = new Date();
+  const from = (hold ? holdExpiresAt(hold) : null) ?? new Date(lock?.until ?? now);
+  const to = new Date(Math.max(from.getTime(), now.getTime()) + input.hours * HOUR_MS);
+
+  if (hold) {
+    const res = await holds.updateOne(
+      { _id: hold._id, status: "pending" },
+      {
+        $set: { expiresAt: to, remindersSent: [], updatedAt: now },
+        $push: { extensions: { at: now, by: input.by, from, to, reason } },
+      }
+    );
+    if (!res.modifiedCount) return { ok: false as const, error: "no_active_hold" };
+  }
+
+  await apps.updateOne(idEq("_id", input.appId), {
+    $set: { "locks.holding.active": true, "locks.holding.until": to, updatedAt: now },
+    $push: {
+      timeline: { at: now, by: input.by, event: "hold.extended", meta: { from, to, hours: input.hours, reason } },
+    } as any,
+  });
+
+  const entry: AuditLogDoc = {
+    _id: `al_${crypto.randomUUID()}`,
+    orgId: input.firmId,
+    actorUserId: input.by,
+    entity: { type: "application", id: input.appId },
+    action: "hold.extend",
+    meta: { holdId: hold ? String(hold._id) : null, from, to, hours: input.hours, reason },
+    at: now,
+  };
+  await db.collection<AuditLogDoc>("audit_log").insertOne(entry);
+
+  return { ok: true as const, expiresAt: to };
+}
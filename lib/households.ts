@@ -91,4 +91,43 @@ try {
   );
 
   return { householdId: hid as Id };
-}
\ No newline at end of file
+}
+
+/**
+ * Emails of every active member of a household (user record first, membership email as fallback).
+ * Tolerates householdId/userId stored as string or ObjectId.
+ */
+export async function getHouseholdEmails(householdId: Id | null | undefined): Promise<string[]> {
+  if (!householdId) return [];
+  const db = await getDb();
+  const hid = String(householdId);
+  const hhMatch = ObjectId.isValid(hid) ? { $in: [hid, new ObjectId(hid)] } : hid;
+
+  const mships = await db
+    .collection("household_memberships")
+    .find({ householdId: hhMatch as any, active: true }, { projection: { userId: 1, email: 1 } })
+    .toArray();
+  if (!mships.length) return [];
+
+  const userIds = mships
+    .map((m: any) => m.userId)
+    .filter(Boolean)
+    .map((id: any) => (ObjectId.isValid(String(id)) ? new ObjectId(String(id)) : String(id)));
+
+  const users = userIds.length
+    ? await db
+        .collection("users")
+        .find({ _id: { $in: userIds as any[] } }, { projection: { email: 1 } })
+        .toArray()
+    : [];
+  const emailByUser = new Map<string, string>(
+    users.map((u: any) => [String(u._id), String(u.email || "").trim()])
+  );
+
+  const out = new Set<string>();
+  for (const m of mships as any[]) {
+    const e = emailByUser.get(String(m.userId || "")) || String(m.email || "").trim();
+    if (e) out.add(e);
+  }
+  return Array.from(out);
+}
@@ -0,0 +1,18 @@
+// lib/ids.ts
+// Id helpers shared by routes and lib modules. Older documents are keyed by
+// ObjectId, newer ones by prefixed strings ("jrnl_…"), and references to
+// either may be stored as a string.
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+
+/** Filter matching `field` by the id as an ObjectId or as its string */
+export const idEq = (field: string, raw: any) => {
+  const s = String(raw ?? "");
+  if (ObjectId.isValid(s)) {
+    return { $or: [{ [field]: new ObjectId(s) }, { [field]: s }] } as any;
+  }
+  return { [field]: s } as any;
+};
+
+/** Unguessable suffix for prefixed ids; some (receipts) are shared as links */
+export const rid = () => crypto.randomBytes(16).toString("hex");
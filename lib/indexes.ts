@@ -35,8 +35,20 @@ export async function createAllIndexes() {
     { name: "by_org_role" }
   );
 
-  // ---------- properties ----------
-  await db.collection("properties").createIndex({ orgId: 1 }, { name: "by_org" });
+  // ---------- properties & units ----------
+  // One building per normalized address per firm; one unit per number per building
+  await db.collection("properties").createIndex(
+    { firmId: 1, addressKey: 1 },
+    { unique: true, name: "uniq_firm_address" }
+  );
+  await db.collection("units").createIndex(
+    { propertyId: 1, unitKey: 1 },
+    { unique: true, name: "uniq_property_unit" }
+  );
+  await db.collection("units").createIndex({ firmId: 1, archived: 1 }, { name: "by_firm" });
+  await db.collection("unit_leases").createIndex({ unitId: 1, moveInDate: -1 }, { sparse: true, name: "by_unit" });
+  await db.collection("holding_requests").createIndex({ appId: 1, status: 1 }, { name: "by_app_status" });
+  await db.collection("holding_requests").createIndex({ status: 1, expiresAt: 1 }, { name: "by_status_expiry" });
 
   // ---------- applications ----------
   await db.collection("applications").createIndex(
@@ -47,6 +59,13 @@ export async function createAllIndexes() {
     { orgId: 1, propertyId: 1, unitId: 1 },
     { name: "routing" }
   );
+  await db.collection("applications").createIndex(
+    { unitId: 1, createdAt: -1 },
+    { sparse: true, name: "by_unit" }
+  );
+
+  await db.collection("application_transitions").createIndex({ appId: 1, at: -1 }, { name: "by_app_time" });
+  await db.collection("application_transitions").createIndex({ firmId: 1, at: -1 }, { sparse: true, name: "by_firm_time" });
 
   // ---------- reviews ----------
   await db.collection("application_reviews").createIndex(
@@ -67,6 +86,36 @@ export async function createAllIndexes() {
     { orgId: 1, approverUserId: 1, createdAt: -1 },
     { name: "by_approver" }
   );
+  await db.collection("application_approvals").createIndex(
+    { applicationId: 1 },
+    { name: "one_effective_per_app", unique: true, partialFilterExpression: { effective: true } }
+  );
+
+  // ---------- scores ----------
+  await db.collection("application_scores").createIndex(
+    { applicationId: 1, computedAt: -1 },
+    { name: "by_app_time" }
+  );
+
+  // ---------- applicant documents ----------
+  await db.collection("application_documents").createIndex(
+    { applicationId: 1, userId: 1, "target.id": 1, status: 1 },
+    { name: "by_app_member_target" }
+  );
+
+  // ---------- screening ----------
+  await db.collection("screening_consents").createIndex(
+    { applicationId: 1, userId: 1, acceptedAt: -1 },
+    { name: "by_app_member" }
+  );
+  await db.collection("screening_reports").createIndex(
+    { applicationId: 1, userId: 1, qualificationId: 1, requestedAt: -1 },
+    { name: "by_app_member_qualification" }
+  );
+  await db.collection("screening_reports").createIndex(
+    { provider: 1, externalId: 1 },
+    { name: "by_provider_external", unique: true, partialFilterExpression: { externalId: { $type: "string" } } }
+  );
 
   // ---------- audit ----------
   await db.collection("audit_log").createIndex(
@@ -74,10 +123,91 @@ export async function createAllIndexes() {
     { name: "audit_entity" }
   );
 
+  // ---------- deposit_returns ----------
+  // One move-out deposit return per lease
+  await db.collection("deposit_returns").createIndex(
+    { leaseId: 1 },
+    { unique: true, name: "uniq_lease" }
+  );
+  await db.collection("deposit_returns").createIndex(
+    { firmId: 1, status: 1, deadlineDate: 1 },
+    { name: "by_firm_status_deadline" }
+  );
+
+  // ---------- deposit_interest_ledger ----------
+  // One entry per lease per anniversary year
+  await db.collection("deposit_interest_ledger").createIndex(
+    { leaseId: 1, year: 1 },
+    { unique: true, name: "uniq_lease_year" }
+  );
+  await db.collection("deposit_interest_ledger").createIndex(
+    { firmId: 1, status: 1, periodEnd: 1 },
+    { name: "by_firm_status_end" }
+  );
+
+  // ---------- rent_autopay ----------
+  // One live enrollment per member per lease
+  await db.collection("rent_autopay").createIndex(
+    { leaseId: 1, userId: 1 },
+    {
+      unique: true,
+      partialFilterExpression: { status: { $in: ["active", "paused"] } },
+      name: "uniq_live_lease_user",
+    }
+  );
+  await db.collection("rent_autopay").createIndex({ status: 1 }, { name: "by_status" });
+  await db.collection("rent_autopay_runs").createIndex(
+    { status: 1, nextAttemptAt: 1 },
+    { name: "by_status_next_attempt" }
+  );
+  await db.collection("rent_autopay_runs").createIndex(
+    { paymentIntentId: 1 },
+    { sparse: true, name: "by_payment_intent" }
+  );
+
+  // ---------- late_fees ----------
+  await db.collection("late_fees").createIndex({ appId: 1, code: 1 }, { unique: true, name: "uniq_app_code" });
+  await db.collection("late_fees").createIndex({ firmId: 1, status: 1, assessedOn: -1 }, { name: "by_firm_status" });
+
+  // ---------- ledger_entries ----------
+  await db.collection("ledger_entries").createIndex({ sourceKey: 1 }, { unique: true, name: "uniq_source" });
+  await db.collection("ledger_entries").createIndex({ appId: 1, createdAt: 1 }, { name: "by_app" });
+  await db.collection("ledger_entries").createIndex({ leaseId: 1, bucket: 1 }, { sparse: true, name: "by_lease_bucket" });
+
+  // ---------- stripe_events ----------
+  await db.collection("stripe_events").createIndex({ status: 1, nextAttemptAt: 1 }, { name: "by_status_next" });
+  await db.collection("stripe_events").createIndex({ receivedAt: -1 }, { name: "by_received" });
+  await db.collection("stripe_events").createIndex({ type: 1, receivedAt: -1 }, { name: "by_type" });
+  await db.collection("stripe_events_dead").createIndex({ deadAt: -1 }, { name: "by_dead_at" });
+
+  // ---------- jobs ----------
+  await db.collection("jobs").createIndex({ enabled: 1, nextRunAt: 1 }, { name: "by_enabled_next" });
+  await db.collection("job_runs").createIndex({ job: 1, startedAt: -1 }, { name: "by_job_started" });
+  // Run history is kept for 30 days
+  await db.collection("job_runs").createIndex(
+    { finishedAt: 1 },
+    { expireAfterSeconds: 30 * 24 * 3600, partialFilterExpression: { finishedAt: { $type: "date" } }, name: "ttl_finishedAt" }
+  );
+
+  // ---------- lease_signatures ----------
+  await db.collection("lease_signatures").createIndex({ "signers.tokenHash": 1 }, { name: "by_signer_token", sparse: true });
+  await db.collection("lease_signatures").createIndex({ leaseId: 1, createdAt: -1 }, { name: "by_lease" });
+  await db.collection("lease_signatures").createIndex({ firmId: 1, status: 1 }, { name: "by_firm_status" });
+
+  // ---------- lease_templates ----------
+  await db.collection("lease_templates").createIndex({ firmId: 1, archived: 1, updatedAt: -1 }, { name: "by_firm" });
+
   // ---------- forms ----------
   await db.collection("application_forms").createIndex({ name: 1 }, { name: "by_name" });
   await db.collection("application_forms").createIndex({ updatedAt: -1 }, { name: "by_updated" });
 
+  // ---------- form versions ----------
+  // One frozen copy per (form, version); publishing races lose on this
+  await db.collection("application_form_versions").createIndex(
+    { formId: 1, version: 1 },
+    { name: "form_version_unique", unique: true }
+  );
+
   // ---------- households ----------
   await db.collection("households").createIndex({ createdAt: 1 }, { name: "by_created" });
 
@@ -0,0 +1,108 @@
+// lib/jobs/cron.ts
+// Minimal 5-field cron ("minute hour day-of-month month day-of-week"), evaluated
+// in UTC. Fields take `*`, numbers, lists (1,15), ranges (1-5) and steps (*/15,
+// 0-30/10). As in classic cron, when both day fields are restricted a day
+// matches if either does. No names (MON, JAN) or L/W/# extensions.
+
+type Field = { values: Set<number>; any: boolean };
+
+export type CronSchedule = {
+  minute: Field;
+  hour: Field;
+  dom: Field;
+  month: Field;
+  dow: Field;
+};
+
+const BOUNDS: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7], // 0 and 7 are both Sunday
+];
+
+function parseField(raw: string, [min, max]: [number, number]): Field {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`invalid_cron_step: ${part}`);
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      lo = min;
+      hi = max;
+    } else if (range.includes("-")) {
+      [lo, hi] = range.split("-").map(Number);
+    } else {
+      lo = Number(range);
+      hi = stepRaw === undefined ? lo : max;
+    }
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) {
+      throw new Error(`invalid_cron_field: ${part}`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return { values, any: raw === "*" };
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const parts = String(expr ?? "").trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`invalid_cron: ${expr}`);
+  const [minute, hour, dom, month, dow] = parts.map((p, i) => parseField(p, BOUNDS[i]));
+  if (dow.values.has(7)) dow.values.add(0);
+  return { minute, hour, dom, month, dow };
+}
+
+export function isValidCron(expr: string) {
+  try {
+    parseCron(expr);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function dayMatches(s: CronSchedule, d: Date) {
+  const dom = s.dom.values.has(d.getUTCDate());
+  const dow = s.dow.values.has(d.getUTCDay());
+  if (s.dom.any && s.dow.any) return true;
+  if (s.dom.any) return dow;
+  if (s.dow.any) return dom;
+  return dom || dow;
+}
+
+/** First minute strictly after `after` that matches `expr` */
+export function nextCronAfter(expr: string | CronSchedule, after: Date): Date {
+  const s = typeof expr === "string" ? parseCron(expr) : expr;
+  const d = new Date(after.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+  // Skips whole months/days/hours, so even "29 Feb" resolves in a few thousand steps
+  const limit = new Date(after.getTime() + 5 * 366 * 24 * 3_600_000);
+  while (d <= limit) {
+    if (!s.month.values.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!s.hour.values.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!s.minute.values.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`cron_never_matches: ${typeof expr === "string" ? expr : "schedule"}`);
+}
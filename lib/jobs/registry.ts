@@ -0,0 +1,46 @@
+// lib/jobs/registry.ts
+// Jobs the worker (tools/jobs-worker.ts) schedules. Schedules are UTC cron.
+// /api/cron/* run the same sweeps on demand (x-cron-secret), e.g. for a
+// deployment without the worker; each sweep is safe to run twice.
+import type { JobDefinition } from "./scheduler";
+import { runTickClock } from "@/lib/leases/clock";
+import { runChecklistReminders } from "@/lib/leases/checklistReminders";
+import { runHoldingExpiry } from "@/lib/holding/expiry";
+import { runAutopay } from "@/lib/rent/autopay";
+import { retryDueStripeEvents } from "@/lib/webhooks/stripeEvents";
+import { handleStripeEvent } from "@/app/api/stripe/webhook/_handler";
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: "tick_clock",
+    description: "Move countersigned applications to occupied once the lease starts",
+    schedule: "*/15 * * * *",
+    run: (db, { now }) => runTickClock(db, { now }),
+  },
+  {
+    name: "checklist_reminders",
+    description: "Email households (and landlords) about overdue move-in checklist items",
+    schedule: "0 14 * * *", // 10am Eastern (9am in winter)
+    run: (db, { now }) => runChecklistReminders(db, { now }),
+  },
+  {
+    name: "holding_expiry",
+    description: "Remind households of unpaid holds, expire lapsed ones and release their units",
+    schedule: "0 * * * *",
+    run: (db, { now }) => runHoldingExpiry(db, { now }),
+  },
+  {
+    name: "rent_autopay",
+    description: "Send autopay notices, debit rent on due dates and retry failed debits",
+    schedule: "0 12 * * *", // 8am Eastern (7am in winter)
+    run: (db, { now }) => runAutopay(db, { now }),
+  },
+  {
+    name: "stripe_event_retries",
+    description: "Retry failed Stripe webhook events whose backoff elapsed, and ones a crashed worker left",
+    schedule: "*/5 * * * *",
+    run: (db) => retryDueStripeEvents(db, (ev) => handleStripeEvent(ev)),
+  },
+];
+
+export const jobByName = (name: string) => JOBS.find((j) => j.name === name) ?? null;
@@ -0,0 +1,191 @@
+// lib/jobs/scheduler.ts
+// Mongo-backed job scheduler. Each registered job has one row in `jobs` holding
+// its cron schedule, next run and lock; a worker claims a due job with a single
+// findOneAndUpdate, so only one worker runs it even with several polling. The
+// lock is kept alive by a heartbeat while the job runs and lapses if the worker
+// dies. Failures retry with backoff before falling back to the schedule; every
+// run is recorded in `job_runs`.
+import crypto from "crypto";
+import os from "os";
+import type { Db } from "mongodb";
+import type { JobDoc, JobRunDoc, JobTrigger } from "@/lib/models";
+import { nextCronAfter } from "./cron";
+
+export type JobContext = { now: Date; attempt: number; trigger: JobTrigger };
+
+export type JobDefinition = {
+  name: string;
+  description: string;
+  /** 5-field cron, UTC */
+  schedule: string;
+  run: (db: Db, ctx: JobContext) => Promise<Record<string, unknown> | void>;
+};
+
+/** Delay after the Nth consecutive failure; past the last one the job waits for its next slot */
+export const RETRY_BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000];
+export const MAX_ATTEMPTS = RETRY_BACKOFF_MS.length + 1;
+
+/** How long a claim holds without a heartbeat */
+const LOCK_MS = 2 * 60_000;
+const HEARTBEAT_MS = 30_000;
+
+const errText = (e: any) => String(e?.message || e || "unknown_error").slice(0, 2000);
+
+export const defaultWorkerId = () => `${os.hostname()}:${process.pid}`;
+
+/**
+ * Upsert a row per definition. New jobs are scheduled from now; a changed
+ * schedule reschedules, otherwise nextRunAt and run state are left alone.
+ */
+export async function ensureJobs(db: Db, defs: JobDefinition[], now = new Date()) {
+  const jobs = db.collection<JobDoc>("jobs");
+  for (const def of defs) {
+    const nextRunAt = nextCronAfter(def.schedule, now);
+    await jobs.updateOne(
+      { _id: def.name, schedule: { $ne: def.schedule } },
+      { $set: { nextRunAt, updatedAt: now } }
+    );
+    await jobs.updateOne(
+      { _id: def.name },
+      {
+        $set: { description: def.description, schedule: def.schedule, updatedAt: now },
+        $setOnInsert: { enabled: true, nextRunAt, attempts: 0, lastStatus: null, lastError: null, createdAt: now },
+      },
+      { upsert: true }
+    );
+  }
+}
+
+/** Take the lock on one due, enabled, unlocked job among `names` */
+async function claimDueJob(db: Db, names: string[], workerId: string, now: Date) {
+  return db.collection<JobDoc>("jobs").findOneAndUpdate(
+    {
+      _id: { $in: names },
+      enabled: true,
+      nextRunAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+    },
+    { $set: { lockedBy: workerId, lockedUntil: new Date(now.getTime() + LOCK_MS), lastRunAt: now, updatedAt: now } },
+    { sort: { nextRunAt: 1 }, returnDocument: "after" }
+  );
+}
+
+export type JobRunOutcome = { job: string; status: "succeeded" | "failed"; durationMs: number; error?: string };
+
+/** Run a claimed job, record it in job_runs, then reschedule and release the lock */
+async function execute(db: Db, def: JobDefinition, job: JobDoc, workerId: string): Promise<JobRunOutcome> {
+  const jobs = db.collection<JobDoc>("jobs");
+  const runs = db.collection<JobRunDoc>("job_runs");
+  const startedAt = new Date();
+  const attempt = (job.attempts ?? 0) + 1;
+  const trigger: JobTrigger = job.runRequestedAt ? "manual" : job.attempts ? "retry" : "schedule";
+
+  // We hold the lock, so any run still marked running belongs to a worker that died
+  await runs.updateMany(
+    { job: def.name, status: "running" },
+    { $set: { status: "abandoned", finishedAt: startedAt, error: "lock_expired" } }
+  );
+  const runId = `jr_${crypto.randomUUID()}`;
+  await runs.insertOne({ _id: runId, job: def.name, trigger, attempt, workerId, status: "running", startedAt });
+
+  const heartbeat = setInterval(() => {
+    jobs
+      .updateOne({ _id: def.name, lockedBy: workerId }, { $set: { lockedUntil: new Date(Date.now() + LOCK_MS) } })
+      .catch((e) => console.warn("[jobs] heartbeat failed,", { job: def.name, error: errText(e) }));
+  }, HEARTBEAT_MS);
+
+  let result: Record<string, unknown> | null = null;
+  let error: string | null = null;
+  try {
+    result = (await def.run(db, { now: startedAt, attempt, trigger })) ?? null;
+  } catch (e) {
+    error = errText(e);
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+  const ok = error === null;
+  await runs.updateOne(
+    { _id: runId },
+    { $set: { status: ok ? "succeeded" : "failed", result, error, finishedAt, durationMs } }
+  );
+
+  const exhausted = !ok && attempt >= MAX_ATTEMPTS;
+  const nextRunAt =
+    ok || exhausted
+      ? nextCronAfter(job.schedule, finishedAt)
+      : new Date(finishedAt.getTime() + RETRY_BACKOFF_MS[attempt - 1]);
+  await jobs.updateOne(
+    { _id: def.name, lockedBy: workerId },
+    {
+      $set: {
+        nextRunAt,
+        attempts: ok || exhausted ? 0 : attempt,
+        lastStatus: ok ? "succeeded" : "failed",
+        lastError: error,
+        lastFinishedAt: finishedAt,
+        lockedBy: null,
+        lockedUntil: null,
+        runRequestedAt: null,
+        runRequestedBy: null,
+        updatedAt: finishedAt,
+      },
+    }
+  );
+
+  if (ok) console.log(`[jobs] ${def.name} done,`, { durationMs, ...(result ?? {}) });
+  else console.error(`[jobs] ${def.name} failed,`, { attempt, error, nextRunAt });
+  return { job: def.name, status: ok ? "succeeded" : "failed", durationMs, ...(error ? { error } : {}) };
+}
+
+/**
+ * Claim and run every job that's due, one at a time. Safe to call from any
+ * number of workers; each due job runs once.
+ */
+export async function runDueJobs(db: Db, defs: JobDefinition[], opts: { workerId?: string } = {}) {
+  const workerId = opts.workerId ?? defaultWorkerId();
+  const byName = new Map(defs.map((d) => [d.name, d]));
+  const outcomes: JobRunOutcome[] = [];
+
+  // A job that's due again right after running is picked up next poll, not in this loop
+  const seen = new Set<string>();
+  for (;;) {
+    const names = [...byName.keys()].filter((n) => !seen.has(n));
+    if (!names.length) break;
+    const job = await claimDueJob(db, names, workerId, new Date());
+    if (!job) break;
+    seen.add(job._id);
+    outcomes.push(await execute(db, byName.get(job._id)!, job, workerId));
+  }
+  return outcomes;
+}
+
+/**
+ * Admin "run now": makes the job due immediately; the next worker poll picks
+ * it up. Refused while the job is disabled or mid-run.
+ */
+export async function requestJobRun(db: Db, name: string, by: string) {
+  const now = new Date();
+  const jobs = db.collection<JobDoc>("jobs");
+  const res = await jobs.updateOne(
+    { _id: name, enabled: true, $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }] },
+    { $set: { nextRunAt: now, attempts: 0, runRequestedAt: now, runRequestedBy: by, updatedAt: now } }
+  );
+  if (res.matchedCount) return { ok: true as const };
+  const job = await jobs.findOne({ _id: name }, { projection: { enabled: 1 } });
+  return { ok: false as const, error: !job ? "not_found" : job.enabled ? "job_running" : "job_disabled" };
+}
+
+export async function setJobEnabled(db: Db, name: string, enabled: boolean) {
+  const now = new Date();
+  const job = await db.collection<JobDoc>("jobs").findOne({ _id: name }, { projection: { schedule: 1 } });
+  if (!job) return false;
+  // Re-enabling starts from the next slot rather than replaying missed ones
+  const set: Partial<JobDoc> = enabled
+    ? { enabled, attempts: 0, nextRunAt: nextCronAfter(job.schedule, now), updatedAt: now }
+    : { enabled, updatedAt: now };
+  await db.collection<JobDoc>("jobs").updateOne({ _id: name }, { $set: set });
+  return true;
+}
@@ -0,0 +1,95 @@
+// lib/leases/checklistReminders.ts
+// Move-in checklist nudges: items past their dueAt and not completed get the
+// household an email (and the firm's admins a copy), repeated every
+// CHECKLIST_REMINDER_EVERY_DAYS while they stay open. Run by the job scheduler.
+import type { Db } from "mongodb";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { getFirmAdminEmails } from "@/lib/firms";
+
+const DAY_MS = 86_400_000;
+
+/** Days between repeat reminders for the same open item */
+export const CHECKLIST_REMINDER_EVERY_DAYS = Math.max(1, Number(process.env.CHECKLIST_REMINDER_EVERY_DAYS) || 3);
+
+// dueAt is an ISO string on newer leases and a Date on older ones
+const asDate = (v: any) => {
+  if (!v) return null;
+  const d = new Date(v);
+  return isFinite(d.getTime()) ? d : null;
+};
+
+function premisesOf(lease: any) {
+  const line1 = String(lease?.building?.addressLine1 ?? "").trim();
+  const unit = String(lease?.unitNumber ?? "").trim();
+  if (!line1) return "your new home";
+  return unit ? `${line1}, Unit ${unit}` : line1;
+}
+
+export async function runChecklistReminders(db: Db, opts: { now?: Date } = {}) {
+  const now = opts.now ?? new Date();
+  const repeatBefore = new Date(now.getTime() - CHECKLIST_REMINDER_EVERY_DAYS * DAY_MS);
+  const leasesCol = db.collection<any>("unit_leases");
+  const summary = { leases: 0, items: 0, emailsSent: 0 };
+
+  const leases = await leasesCol
+    .find(
+      { status: { $nin: ["ended", "canceled"] }, checklist: { $elemMatch: { completedAt: null, dueAt: { $ne: null } } } },
+      { projection: { _id: 1, firmId: 1, appId: 1, householdId: 1, building: 1, unitNumber: 1, checklist: 1 } }
+    )
+    .toArray();
+
+  for (const lease of leases) {
+    const overdue = (lease.checklist as any[]).filter((c) => {
+      if (c?.completedAt) return false;
+      const due = asDate(c?.dueAt);
+      if (!due || due >= now) return false;
+      const last = asDate(c?.remindedAt);
+      return !last || last <= repeatBefore;
+    });
+    if (!overdue.length) continue;
+    summary.leases++;
+    summary.items += overdue.length;
+
+    const premises = premisesOf(lease);
+    const lines = overdue.map((c) => `• ${c.label} (was due ${asDate(c.dueAt)!.toISOString().slice(0, 10)})`);
+    const key = `checklist-reminder:${lease._id}:${now.toISOString().slice(0, 10)}`;
+
+    for (const to of await getHouseholdEmails(lease.householdId ?? null)) {
+      const r = await sendMail({
+        to,
+        subject: `Move-in checklist: ${overdue.length} item${overdue.length === 1 ? "" : "s"} overdue`,
+        text: [
+          `These move-in steps for ${premises} are past due:`,
+          lines.join("\n"),
+          "You can mark them done from your tenant dashboard.",
+        ].join("\n\n"),
+        idempotencyKey: `${key}:${to}`,
+        traceId: String(lease.appId ?? lease._id),
+      });
+      if (r.ok) summary.emailsSent++;
+      else console.warn("[checklist] reminder email failed,", { leaseId: lease._id, to, error: (r as any).error });
+    }
+
+    if (lease.firmId) {
+      for (const to of await getFirmAdminEmails(db, String(lease.firmId))) {
+        const r = await sendMail({
+          to,
+          subject: `Overdue move-in checklist: ${premises}`,
+          text: [`The tenant on lease ${lease._id} hasn't completed:`, lines.join("\n")].join("\n\n"),
+          idempotencyKey: `${key}:landlord:${to}`,
+          traceId: String(lease.appId ?? lease._id),
+        });
+        if (r.ok) summary.emailsSent++;
+      }
+    }
+
+    await leasesCol.updateOne(
+      { _id: lease._id },
+      { $set: { "checklist.$[item].remindedAt": now.toISOString() } },
+      { arrayFilters: [{ "item.key": { $in: overdue.map((c) => c.key) }, "item.completedAt": null }] }
+    );
+  }
+
+  return summary;
+}
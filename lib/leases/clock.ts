@@ -0,0 +1,55 @@
+// lib/leases/clock.ts
+// The domain's tick_clock: a countersigned application becomes occupied once
+// its lease start date arrives. Run by the job scheduler (lib/jobs).
+import { ObjectId, type Db } from "mongodb";
+import { storedStatusesFor, type Terms } from "@/domain/rules";
+import { SYSTEM_ACTOR } from "@/lib/applications/approvals";
+import { transitionApplication } from "@/lib/applications/transitions";
+
+const toStringId = (v: any) => (v instanceof ObjectId ? v.toHexString() : String(v ?? ""));
+
+/** Lease start: the payment plan's, else the proto lease's, else the created lease's move-in */
+async function startISOFor(db: Db, app: any): Promise<string | null> {
+  const fromApp = app?.paymentPlan?.startDate || app?.protoLease?.moveInDate;
+  if (fromApp) return String(fromApp);
+  const lease = await db
+    .collection<any>("unit_leases")
+    .findOne(
+      { appId: toStringId(app._id), status: { $ne: "ended" } },
+      { projection: { moveInDate: 1 }, sort: { moveInDate: -1 } }
+    );
+  return lease?.moveInDate ? String(lease.moveInDate) : null;
+}
+
+export async function runTickClock(db: Db, opts: { now?: Date } = {}) {
+  const now = opts.now ?? new Date();
+  const apps = db.collection<any>("applications");
+  const summary = { checked: 0, occupied: 0, noStartDate: 0 };
+
+  const due = await apps
+    .find(
+      { status: { $in: storedStatusesFor("countersigned") } },
+      { projection: { _id: 1, status: 1, paymentPlan: 1, protoLease: 1 } }
+    )
+    .toArray();
+
+  for (const app of due) {
+    summary.checked++;
+    const startISO = await startISOFor(db, app);
+    if (!startISO) {
+      summary.noStartDate++;
+      continue;
+    }
+
+    const r = await transitionApplication(db, {
+      app,
+      steps: { action: "tick_clock", role: "system", ctx: { now, terms: { startISO } as Terms } },
+      by: SYSTEM_ACTOR,
+      timeline: [{ at: now, by: SYSTEM_ACTOR, event: "lease.started", meta: { startISO } }],
+      now,
+    });
+    if (r.ok) summary.occupied++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,477 @@
+// lib/leases/signing.ts
+// Lease e-signing: one envelope per lease handoff. Every household member signs
+// through an emailed link, then the landlord countersigns. Each signature keeps
+// its consent, IP, user agent and timestamp for the certificate of completion,
+// and the application only moves to countersigned on real signatures.
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import type {
+  LeaseSignatureDocument,
+  LeaseSignatureEnvelopeDoc,
+  LeaseSignatureEvent,
+  LeaseSigner,
+  SignatureMethod,
+} from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { transitionApplication } from "@/lib/applications/transitions";
+import { idEq } from "@/lib/ids";
+
+/** Shown on the signing page and recorded with each consent */
+export const ESIGN_CONSENT_TEXT =
+  "I agree to sign this lease electronically. My electronic signature is legally binding, the same as a handwritten one. " +
+  "I can download the documents before signing and ask the landlord for a paper copy at any time.";
+
+/** Drawn signatures are small PNGs; anything bigger is not from the signing pad */
+const MAX_SIGNATURE_IMAGE_CHARS = 300_000;
+
+const s3Region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-2";
+export const SIGNING_BUCKET = process.env.AWS_S3_BUCKET || process.env.AWS_S3_BUCKET_NAME;
+export const signingS3 = new S3Client({ region: s3Region });
+
+const token = () => crypto.randomBytes(24).toString("base64url");
+const sha256Hex = (s: string | Buffer) => crypto.createHash("sha256").update(s).digest("hex");
+const newId = (prefix: string) => `${prefix}_${crypto.randomBytes(12).toString("base64url")}`;
+
+function esc(x: any): string {
+  return String(x ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export type RequestStamp = { ip: string | null; userAgent: string | null };
+
+/** IP + user agent for the audit trail */
+export function requestStamp(req: Request): RequestStamp {
+  return {
+    ip: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || null,
+    userAgent: req.headers.get("user-agent") || null,
+  };
+}
+
+export async function getS3ObjectBuffer(key: string): Promise<{ body: Buffer; contentType: string }> {
+  const res = await signingS3.send(new GetObjectCommand({ Bucket: SIGNING_BUCKET!, Key: key }));
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of res.Body as any) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return { body: Buffer.concat(chunks), contentType: (res.ContentType as string) || "application/octet-stream" };
+}
+
+/** Active household members with a usable email; user record first, membership as fallback */
+async function householdSigners(db: any, householdId: string) {
+  const hhMatch = ObjectId.isValid(householdId) ? { $in: [householdId, new ObjectId(householdId)] } : householdId;
+  const mships = await db
+    .collection("household_memberships")
+    .find({ householdId: hhMatch, active: true }, { projection: { userId: 1, email: 1, name: 1, role: 1 } })
+    .toArray();
+  if (!mships.length) return [];
+
+  const userIds = mships
+    .map((m: any) => m.userId)
+    .filter(Boolean)
+    .map((id: any) => (ObjectId.isValid(String(id)) ? new ObjectId(String(id)) : String(id)));
+  const users = userIds.length
+    ? await db
+        .collection("users")
+        .find({ _id: { $in: userIds } }, { projection: { email: 1, legal_name: 1, preferredName: 1, name: 1 } })
+        .toArray()
+    : [];
+  const byId = new Map<string, any>(users.map((u: any) => [String(u._id), u]));
+
+  const seen = new Set<string>();
+  const out: Array<{ userId: string | null; name: string; email: string }> = [];
+  for (const m of mships) {
+    const u = byId.get(String(m.userId || ""));
+    const email = String(u?.email || m.email || "").trim();
+    if (!email || seen.has(email.toLowerCase())) continue;
+    seen.add(email.toLowerCase());
+    const name = String(u?.legal_name || u?.preferredName || u?.name || m.name || email);
+    out.push({ userId: m.userId ? String(m.userId) : null, name, email });
+  }
+  return out;
+}
+
+/** What a signer link shows: never the token hashes or another signer's signature image */
+export function publicEnvelope(env: LeaseSignatureEnvelopeDoc, signerId?: string) {
+  return {
+    id: env._id,
+    leaseId: env.leaseId,
+    premises: env.premises,
+    status: env.status,
+    completedAt: env.completedAt ?? null,
+    documents: env.documents.map((d) => ({ id: d.id, title: d.title, fileName: d.fileName ?? null, sha256: d.sha256 })),
+    signers: env.signers.map((s) => ({
+      id: s.id,
+      role: s.role,
+      name: s.name,
+      email: s.email,
+      order: s.order,
+      invitedAt: s.invitedAt ?? null,
+      viewedAt: s.viewedAt ?? null,
+      signedAt: s.signature?.signedAt ?? null,
+      method: s.signature?.method ?? null,
+      ...(s.id === signerId ? { you: true } : {}),
+    })),
+  };
+}
+
+/* ---------- emails ---------- */
+
+async function inviteSigner(db: any, env: LeaseSignatureEnvelopeDoc, signer: LeaseSigner) {
+  const base = process.env.APP_BASE_URL;
+  if (!base) {
+    console.error("[signing] APP_BASE_URL missing, invite not sent,", { envelopeId: env._id, signerId: signer.id });
+    return { ok: false as const, error: "app_base_url_missing" };
+  }
+
+  // A fresh token each time, so a resend retires the old link
+  const t = token();
+  const now = new Date();
+  const event: LeaseSignatureEvent = { at: now, type: "invited", signerId: signer.id };
+  await db.collection("lease_signatures").updateOne(
+    { _id: env._id, "signers.id": signer.id },
+    {
+      $set: { "signers.$.tokenHash": sha256Hex(t), "signers.$.invitedAt": now, updatedAt: now },
+      $push: { events: event },
+    }
+  );
+
+  const link = `${base}/sign/${t}`;
+  const docsList = env.documents.map((d) => `• ${d.title}`).join("\n");
+  const text = [
+    `Hi ${signer.name},`,
+    ``,
+    signer.role === "landlord"
+      ? `All tenants have signed the lease for ${env.premises}. It is ready for your countersignature.`
+      : `Your lease for ${env.premises} is ready to sign.`,
+    ``,
+    `Documents:`,
+    docsList || "• (no documents)",
+    ``,
+    `Review and sign here: ${link}`,
+    ``,
+    `This link is personal to you. Don't forward it.`,
+  ].join("\n");
+  const html =
+    `<p>Hi ${esc(signer.name)},</p>` +
+    `<p>${
+      signer.role === "landlord"
+        ? `All tenants have signed the lease for <strong>${esc(env.premises)}</strong>. It is ready for your countersignature.`
+        : `Your lease for <strong>${esc(env.premises)}</strong> is ready to sign.`
+    }</p>` +
+    (env.documents.length ? `<ul>${env.documents.map((d) => `<li>${esc(d.title)}</li>`).join("")}</ul>` : "") +
+    `<p><a href="${esc(link)}">Review and sign</a></p>` +
+    `<p style="color:#64748b;font-size:12px">This link is personal to you. Don't forward it.</p>`;
+
+  // Keyed on the token hash so a resend is a new message, not a dedupe
+  const r = await sendMail({
+    to: signer.email,
+    subject: signer.role === "landlord" ? `Countersign lease – ${env.premises}` : `Sign your lease – ${env.premises}`,
+    text,
+    html,
+    idempotencyKey: `lease-sign:${env._id}:${signer.id}:${sha256Hex(t).slice(0, 16)}`,
+    traceId: `lease:${env.leaseId}`,
+  });
+  if (!r.ok) console.warn("[signing] invite email failed,", { envelopeId: env._id, signerId: signer.id, error: (r as any).error });
+  return r.ok ? { ok: true as const } : { ok: false as const, error: "send_failed" };
+}
+
+async function sendCompletionEmails(db: any, env: LeaseSignatureEnvelopeDoc) {
+  const base = process.env.APP_BASE_URL;
+  const certUrl = base ? `${base}/api/receipts/signing-certificate/${encodeURIComponent(env._id)}` : null;
+
+  const attachments = (
+    await Promise.all(
+      env.documents.map(async (d) => {
+        if (!d.objectKey) return null;
+        try {
+          const { body, contentType } = await getS3ObjectBuffer(d.objectKey);
+          return { filename: d.fileName || `${d.title}.pdf`, contentType, contentBase64: body.toString("base64") };
+        } catch (e) {
+          console.error("[signing] failed to fetch S3 object,", d.objectKey, e);
+          return null;
+        }
+      })
+    )
+  ).filter(Boolean) as { filename: string; contentType: string; contentBase64: string }[];
+
+  const lease = await db.collection("unit_leases").findOne(idEq("_id", env.leaseId), { projection: { checklist: 1 } });
+  const checklist: any[] = Array.isArray(lease?.checklist) ? lease.checklist : [];
+  const checklistText = checklist.map((c) => `• ${c.label}${c.dueAt ? ` (due by ${String(c.dueAt).slice(0, 10)})` : ""}`);
+
+  for (const s of env.signers) {
+    const text = [
+      `Hi ${s.name},`,
+      ``,
+      `Everyone has signed the lease for ${env.premises}. The signed documents are attached.`,
+      certUrl ? `Certificate of completion: ${certUrl}` : null,
+      ...(s.role === "tenant" && checklistText.length ? [``, `Next steps / checklist:`, ...checklistText] : []),
+      ``,
+      `If you have any questions, please contact your landlord or property manager.`,
+    ]
+      .filter((l) => l != null)
+      .join("\n");
+    const html =
+      `<p>Hi ${esc(s.name)},</p>` +
+      `<p>Everyone has signed the lease for <strong>${esc(env.premises)}</strong>. The signed documents are attached.</p>` +
+      (certUrl ? `<p><a href="${esc(certUrl)}">Certificate of completion</a></p>` : "") +
+      (s.role === "tenant" && checklist.length
+        ? `<p><strong>Next steps / checklist:</strong></p><ul>${checklist.map((c) => `<li>${esc(c.label)}</li>`).join("")}</ul>`
+        : "") +
+      `<p>If you have any questions, please contact your landlord or property manager.</p>`;
+
+    const r = await sendMail({
+      to: s.email,
+      subject: `Lease signed – ${env.premises}`,
+      text,
+      html,
+      idempotencyKey: `lease-signed:${env._id}:${s.id}`,
+      traceId: `lease:${env.leaseId}`,
+      attachments: attachments.length ? attachments : undefined,
+    });
+    if (!r.ok) console.warn("[signing] completion email failed,", { envelopeId: env._id, to: s.email, error: (r as any).error });
+  }
+}
+
+/* ---------- lifecycle ---------- */
+
+/**
+ * Open an envelope for a lease: snapshot + hash the documents, add every household
+ * member and the sending landlord as signers, and invite the tenants.
+ */
+export async function createSigningEnvelope(
+  db: any,
+  input: {
+    firmId: string;
+    appId: string;
+    leaseId: string;
+    householdId: string;
+    premises: string;
+    documents: Array<Omit<LeaseSignatureDocument, "sha256">>;
+    landlord: { userId: string | null; name: string; email: string };
+    createdBy: string;
+  }
+) {
+  const tenants = input.householdId ? await householdSigners(db, input.householdId) : [];
+  if (!tenants.length) return { ok: false as const, status: 409, error: "no_household_signers" };
+  if (!input.landlord.email) return { ok: false as const, status: 400, error: "landlord_email_missing" };
+  if (!input.documents.length) return { ok: false as const, status: 400, error: "no_documents_selected" };
+
+  const documents: LeaseSignatureDocument[] = [];
+  for (const d of input.documents) {
+    let sha256: string | null = null;
+    if (d.objectKey) {
+      try {
+        sha256 = sha256Hex((await getS3ObjectBuffer(d.objectKey)).body);
+      } catch (e) {
+        console.error("[signing] document hash failed,", d.objectKey, e);
+      }
+    }
+    documents.push({ ...d, sha256 });
+  }
+
+  const now = new Date();
+  const signers: LeaseSigner[] = [
+    ...tenants.map((t) => ({ id: newId("sgn"), role: "tenant" as const, order: 1, ...t })),
+    { id: newId("sgn"), role: "landlord", order: 2, ...input.landlord },
+  ];
+  const env: LeaseSignatureEnvelopeDoc = {
+    _id: newId("env"),
+    firmId: input.firmId,
+    appId: input.appId,
+    leaseId: input.leaseId,
+    premises: input.premises,
+    status: "out_for_signature",
+    signers,
+    documents,
+    events: [{ at: now, type: "created" }],
+    createdBy: input.createdBy,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+  await db.collection("lease_signatures").insertOne(env as any);
+
+  const invited: string[] = [];
+  for (const s of signers.filter((x) => x.order === 1)) {
+    const r = await inviteSigner(db, env, s);
+    if (r.ok) invited.push(s.email);
+  }
+  return { ok: true as const, envelope: env, invited };
+}
+
+/** Resolve a signing link to its envelope and signer */
+export async function findBySigningToken(db: any, rawToken: string) {
+  if (!rawToken) return null;
+  const hash = sha256Hex(rawToken);
+  const env = (await db
+    .collection("lease_signatures")
+    .findOne({ "signers.tokenHash": hash })) as LeaseSignatureEnvelopeDoc | null;
+  const signer = env?.signers.find((s) => s.tokenHash === hash) ?? null;
+  return env && signer ? { envelope: env, signer } : null;
+}
+
+/** First open of the link is recorded once; later opens don't churn the audit trail */
+export async function recordSignerView(db: any, env: LeaseSignatureEnvelopeDoc, signer: LeaseSigner, stamp: RequestStamp) {
+  if (signer.viewedAt) return;
+  const now = new Date();
+  const event: LeaseSignatureEvent = { at: now, type: "viewed", signerId: signer.id, ...stamp };
+  await db.collection("lease_signatures").updateOne(
+    { _id: env._id, signers: { $elemMatch: { id: signer.id, viewedAt: null } } },
+    { $set: { "signers.$.viewedAt": now, updatedAt: now }, $push: { events: event } }
+  );
+}
+
+export type SignInput = {
+  consent?: boolean;
+  method?: SignatureMethod | string;
+  typedName?: string;
+  imageDataUrl?: string;
+};
+
+/**
+ * Record one signature. Tenants sign in any order; the landlord's link only goes
+ * out once every tenant has signed. The last signature completes the envelope.
+ */
+export async function signEnvelope(db: any, rawToken: string, input: SignInput, stamp: RequestStamp) {
+  const found = await findBySigningToken(db, rawToken);
+  if (!found) return { ok: false as const, status: 404, error: "signing_link_not_found" };
+  const { envelope: env, signer } = found;
+
+  if (env.status !== "out_for_signature") return { ok: false as const, status: 409, error: `envelope_${env.status}` };
+  if (signer.signature) return { ok: false as const, status: 409, error: "already_signed" };
+  if (signer.role === "landlord" && env.signers.some((s) => s.role === "tenant" && !s.signature)) {
+    return { ok: false as const, status: 409, error: "tenants_not_signed" };
+  }
+  if (input.consent !== true) return { ok: false as const, status: 400, error: "consent_required" };
+
+  const method = String(input.method || "");
+  const typedName = String(input.typedName ?? "").trim();
+  const imageDataUrl = String(input.imageDataUrl ?? "");
+  if (method === "typed") {
+    if (typedName.length < 2 || typedName.length > 120) return { ok: false as const, status: 400, error: "typed_name_required" };
+  } else if (method === "drawn") {
+    if (!imageDataUrl.startsWith("data:image/png;base64,") || imageDataUrl.length > MAX_SIGNATURE_IMAGE_CHARS) {
+      return { ok: false as const, status: 400, error: "bad_signature_image" };
+    }
+  } else {
+    return { ok: false as const, status: 400, error: "bad_method" };
+  }
+
+  const now = new Date();
+  const signature = {
+    method: method as SignatureMethod,
+    typedName: method === "typed" ? typedName : null,
+    imageDataUrl: method === "drawn" ? imageDataUrl : null,
+    ip: stamp.ip,
+    userAgent: stamp.userAgent,
+    signedAt: now,
+  };
+  const events: LeaseSignatureEvent[] = [
+    { at: now, type: "consented", signerId: signer.id, ...stamp },
+    { at: now, type: "signed", signerId: signer.id, ...stamp },
+  ];
+  // Guarded on the signer still being unsigned, so a double submit can't sign twice
+  const res = await db.collection("lease_signatures").updateOne(
+    { _id: env._id, status: "out_for_signature", signers: { $elemMatch: { id: signer.id, signature: null } } },
+    {
+      $set: { "signers.$.consentedAt": now, "signers.$.signature": signature, updatedAt: now },
+      $push: { events: { $each: events } },
+    }
+  );
+  if (!res.modifiedCount) return { ok: false as const, status: 409, error: "already_signed" };
+
+  const after = (await db.collection("lease_signatures").findOne({ _id: env._id })) as LeaseSignatureEnvelopeDoc;
+  const unsigned = after.signers.filter((s) => !s.signature);
+  if (!unsigned.length) {
+    const done = await completeEnvelope(db, after);
+    return { ok: true as const, envelope: done ?? after, completed: true };
+  }
+  if (unsigned.every((s) => s.role === "landlord")) {
+    for (const s of unsigned.filter((x) => !x.invitedAt)) await inviteSigner(db, after, s);
+  }
+  return { ok: true as const, envelope: after, completed: false };
+}
+
+/**
+ * Close out a fully signed envelope: mark the lease signed, move the application
+ * min_paid → countersigned on the real signature count, and send everyone the
+ * signed documents with the certificate.
+ */
+async function completeEnvelope(db: any, env: LeaseSignatureEnvelopeDoc) {
+  const now = new Date();
+  const claimed = await db.collection("lease_signatures").findOneAndUpdate(
+    { _id: env._id, status: "out_for_signature" },
+    { $set: { status: "completed", completedAt: now, updatedAt: now }, $push: { events: { at: now, type: "completed" } } },
+    { returnDocument: "after" }
+  );
+  if (!claimed) return null; // someone else completed it
+  const done = claimed as LeaseSignatureEnvelopeDoc;
+
+  const signaturesCount = done.signers.filter((s) => s.signature).length;
+  await db
+    .collection("unit_leases")
+    .updateOne(idEq("_id", done.leaseId), { $set: { signed: true, signedAt: now, signatureEnvelopeId: done._id, updatedAt: now } });
+
+  await countersign(db, done, now, [
+    { at: now, by: "system", event: "lease.signed", meta: { leaseId: done.leaseId, envelopeId: done._id, signaturesCount } },
+  ]);
+
+  try {
+    await sendCompletionEmails(db, done);
+  } catch (e) {
+    console.error("[signing] completion emails failed,", { envelopeId: done._id, e });
+  }
+  return done;
+}
+
+/**
+ * signatures_completed for a completed envelope. Only moves an app that is at
+ * min_paid; the timeline entries are written either way.
+ */
+async function countersign(db: any, env: LeaseSignatureEnvelopeDoc, now: Date, timeline: Record<string, unknown>[] = []) {
+  const app = await db.collection("applications").findOne(idEq("_id", env.appId), { projection: { status: 1 } });
+  if (!app) return null;
+  return transitionApplication(db, {
+    app,
+    steps: {
+      action: "signatures_completed",
+      role: "system",
+      ctx: { signaturesCount: env.signers.filter((s) => s.signature).length, signaturesRequired: env.signers.length },
+    },
+    by: "system",
+    firmId: String(env.firmId),
+    timeline,
+    optional: true,
+    now,
+  });
+}
+
+/**
+ * Countersign an application whose lease is already fully signed. A returned,
+ * disputed or refunded payment can drop it to min_due before the last
+ * signature; the payment that brings it back to min_paid calls this.
+ */
+export async function countersignIfSigned(db: any, appId: string, now = new Date()) {
+  const env = (await db
+    .collection("lease_signatures")
+    .findOne({ $and: [idEq("appId", appId), { status: "completed" }] }, { sort: { completedAt: -1 } })) as LeaseSignatureEnvelopeDoc | null;
+  return env ? countersign(db, env, now) : null;
+}
+
+/** Landlord resend: issues a new link for a signer who hasn't signed yet */
+export async function resendSigningInvite(db: any, env: LeaseSignatureEnvelopeDoc, signerId: string) {
+  if (env.status !== "out_for_signature") return { ok: false as const, status: 409, error: `envelope_${env.status}` };
+  const signer = env.signers.find((s) => s.id === signerId);
+  if (!signer) return { ok: false as const, status: 404, error: "signer_not_found" };
+  if (signer.signature) return { ok: false as const, status: 409, error: "already_signed" };
+  if (signer.role === "landlord" && env.signers.some((s) => s.role === "tenant" && !s.signature)) {
+    return { ok: false as const, status: 409, error: "tenants_not_signed" };
+  }
+  const r = await inviteSigner(db, env, signer);
+  return r.ok ? { ok: true as const } : { ok: false as const, status: 502, error: r.error };
+}
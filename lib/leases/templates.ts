@@ -0,0 +1,247 @@
+// lib/leases/templates.ts
+// Firm lease templates: HTML with {{merge_field}} placeholders, filled from the
+// application (tenant names, premises) and its payment plan (rent, term, deposit,
+// fees), then rendered to a per-lease PDF when the landlord sends the handoff.
+import crypto from "crypto";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import type { LeaseTemplateDoc } from "@/lib/models";
+import { htmlToPdf } from "@/lib/pdf/htmlToPdf";
+import { idEq } from "@/lib/ids";
+
+export const MAX_TEMPLATE_HTML_CHARS = 200_000;
+
+/** Every field a template may use; anything else is rejected on save */
+export const MERGE_FIELDS: Array<{ key: string; label: string; sample: string }> = [
+  { key: "tenant_names", label: "Tenant names (all non-cosigners)", sample: "Jane Doe and John Roe" },
+  { key: "primary_tenant_name", label: "Primary applicant", sample: "Jane Doe" },
+  { key: "cosigner_names", label: "Cosigner names", sample: "Pat Doe" },
+  { key: "landlord_name", label: "Landlord (firm) name", sample: "Acme Properties LLC" },
+  { key: "premises_address", label: "Full premises address with unit", sample: "12 Main St, Boston, MA 02118 — Unit 3B" },
+  { key: "street_address", label: "Street address", sample: "12 Main St" },
+  { key: "unit_number", label: "Unit number", sample: "3B" },
+  { key: "city", label: "City", sample: "Boston" },
+  { key: "state", label: "State", sample: "MA" },
+  { key: "postal_code", label: "ZIP code", sample: "02118" },
+  { key: "monthly_rent", label: "Monthly rent", sample: "$2,400.00" },
+  { key: "term_months", label: "Term (months)", sample: "12" },
+  { key: "move_in_date", label: "Move-in / start date", sample: "September 1, 2026" },
+  { key: "lease_end_date", label: "Lease end date", sample: "August 31, 2027" },
+  { key: "security_deposit", label: "Security deposit", sample: "$2,400.00" },
+  { key: "key_fee", label: "Key / lock fee", sample: "$50.00" },
+  { key: "first_month_rent", label: "First month's rent due at move-in", sample: "$2,400.00" },
+  { key: "last_month_rent", label: "Last month's rent due at move-in", sample: "$2,400.00" },
+  { key: "total_due_at_move_in", label: "Total due at move-in", sample: "$7,250.00" },
+  { key: "lease_date", label: "Date the lease was generated", sample: "August 1, 2026" },
+];
+
+const FIELD_KEYS = new Set(MERGE_FIELDS.map((f) => f.key));
+const FIELD_RE = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/** Left in the document where a value is unknown, so it reads as a blank to fill in */
+const BLANK = "__________";
+
+export const SAMPLE_MERGE_DATA: Record<string, string> = Object.fromEntries(MERGE_FIELDS.map((f) => [f.key, f.sample]));
+
+const s3Region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || "us-east-2";
+const s3Bucket = process.env.AWS_S3_BUCKET || process.env.AWS_S3_BUCKET_NAME;
+const s3 = new S3Client({ region: s3Region });
+
+const str = (v: any) => (typeof v === "string" ? v.trim() : "");
+
+function esc(x: any): string {
+  return String(x ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const money = (c: any) => {
+  const n = Number(c);
+  return isFinite(n)
+    ? `$${(n / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "";
+};
+
+function longDate(ymd: string | null | undefined) {
+  const m = String(ymd ?? "").match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return "";
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+/** Last day of the term: start + termMonths, minus one day */
+function leaseEndYmd(startYmd: string, termMonths: number) {
+  const [y, m, d] = startYmd.split("-").map(Number);
+  if (!y || !m || !d || !(termMonths > 0)) return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  dt.setUTCMonth(dt.getUTCMonth() + termMonths);
+  dt.setUTCDate(dt.getUTCDate() - 1);
+  return dt.toISOString().slice(0, 10);
+}
+
+const joinNames = (xs: string[]) =>
+  xs.length <= 2 ? xs.join(" and ") : `${xs.slice(0, -1).join(", ")} and ${xs[xs.length - 1]}`;
+
+/** Member names from the application answers (q_name/name), falling back to app.members */
+function memberNames(app: any) {
+  const rows: Array<{ name: string; role: string }> = [];
+  for (const [, b] of Object.entries<any>(app?.answersByMember ?? {})) {
+    const name = str(b?.answers?.q_name) || str(b?.answers?.name) || str(b?.name) || str(b?.email);
+    if (name) rows.push({ name, role: String(b?.role ?? "") });
+  }
+  if (!rows.length) {
+    for (const m of Array.isArray(app?.members) ? app.members : []) {
+      const name = str(m?.name) || str(m?.email);
+      if (name) rows.push({ name, role: String(m?.role ?? "") });
+    }
+  }
+  rows.sort((a, b) => Number(b.role === "primary") - Number(a.role === "primary"));
+  const uniq = (xs: string[]) => Array.from(new Set(xs));
+  return {
+    primary: rows.find((r) => r.role === "primary")?.name ?? rows[0]?.name ?? "",
+    tenants: uniq(rows.filter((r) => r.role !== "cosigner").map((r) => r.name)),
+    cosigners: uniq(rows.filter((r) => r.role === "cosigner").map((r) => r.name)),
+  };
+}
+
+/** Merge fields used by a template, in order of first use */
+export function templateFields(html: string) {
+  return Array.from(new Set(Array.from(String(html ?? "").matchAll(FIELD_RE), (m) => m[1])));
+}
+
+export function validateTemplateInput(input: { name?: any; html?: any }) {
+  const name = String(input.name ?? "").trim();
+  const html = String(input.html ?? "");
+  if (!name) return { ok: false as const, error: "name_required" };
+  if (name.length > 120) return { ok: false as const, error: "name_too_long" };
+  if (!html.trim()) return { ok: false as const, error: "html_required" };
+  if (html.length > MAX_TEMPLATE_HTML_CHARS) return { ok: false as const, error: "html_too_large" };
+  const fields = templateFields(html);
+  const unknown = fields.filter((f) => !FIELD_KEYS.has(f));
+  if (unknown.length) return { ok: false as const, error: "unknown_merge_fields", unknown };
+  return { ok: true as const, name, html, fields };
+}
+
+/** Merge values for one application; empty string where the data isn't there */
+export async function leaseMergeData(db: any, app: any, opts: { firmId: string; now?: Date }) {
+  const firm = await db.collection("firms").findOne(idEq("_id", opts.firmId), { projection: { name: 1, legal_name: 1 } });
+  const plan = app?.paymentPlan ?? {};
+  const b = app?.building ?? {};
+  const unitNumber = str(app?.unit?.unitNumber);
+  const names = memberNames(app);
+
+  const street = [b.addressLine1, b.addressLine2].map(str).filter(Boolean).join(", ");
+  const cityLine = [str(b.city), [str(b.state), str(b.postalCode)].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  const start = str(plan.startDate);
+  const term = Number(plan.termMonths) || 0;
+  const totals = plan.upfrontTotals ?? {};
+
+  return {
+    tenant_names: joinNames(names.tenants),
+    primary_tenant_name: names.primary,
+    cosigner_names: joinNames(names.cosigners),
+    landlord_name: str(firm?.legal_name) || str(firm?.name),
+    premises_address: [street, cityLine].filter(Boolean).join(", ") + (unitNumber ? ` — Unit ${unitNumber}` : ""),
+    street_address: street,
+    unit_number: unitNumber,
+    city: str(b.city),
+    state: str(b.state),
+    postal_code: str(b.postalCode),
+    monthly_rent: plan.monthlyRentCents ? money(plan.monthlyRentCents) : "",
+    term_months: term ? String(term) : "",
+    move_in_date: longDate(start),
+    lease_end_date: longDate(start && term ? leaseEndYmd(start, term) : null),
+    security_deposit: money(plan.securityCents ?? 0),
+    key_fee: money(plan.keyFeeCents ?? 0),
+    first_month_rent: money(totals.firstCents ?? (plan.requireFirstBeforeMoveIn ? plan.monthlyRentCents : 0)),
+    last_month_rent: money(totals.lastCents ?? (plan.requireLastBeforeMoveIn ? plan.monthlyRentCents : 0)),
+    total_due_at_move_in: totals.totalUpfrontCents != null ? money(totals.totalUpfrontCents) : "",
+    lease_date: longDate((opts.now ?? new Date()).toISOString()),
+  } as Record<string, string>;
+}
+
+/** Fill placeholders (HTML-escaped). Fields with no value become a blank line and are reported. */
+export function renderLeaseTemplate(html: string, data: Record<string, string>) {
+  const missing = new Set<string>();
+  const out = String(html ?? "").replace(FIELD_RE, (_, key: string) => {
+    const v = data[key];
+    if (!v) {
+      missing.add(key);
+      return BLANK;
+    }
+    return esc(v);
+  });
+  return { html: out, missing: Array.from(missing) };
+}
+
+/** An explicit template wins; otherwise the firm default (firms.settings.lease.templateId) */
+export async function resolveLeaseTemplate(db: any, firmId: string, templateId?: string | null) {
+  let id = str(templateId);
+  if (!id) {
+    const firm = await db.collection("firms").findOne(idEq("_id", firmId), { projection: { settings: 1 } });
+    id = str(firm?.settings?.lease?.templateId);
+  }
+  if (!id) return null;
+  return (await db
+    .collection("lease_templates")
+    .findOne({ _id: id, firmId, archived: { $ne: true } })) as LeaseTemplateDoc | null;
+}
+
+/**
+ * Render the template for one lease, upload the PDF and record it in
+ * landlord_documents (flagged `generated`, so it stays out of the firm library).
+ * Returns the document in the shape the handoff sends for signature.
+ */
+export async function generateLeaseDocument(
+  db: any,
+  input: { firmId: string; app: any; leaseId: string; template: LeaseTemplateDoc; createdBy: string }
+) {
+  if (!s3Bucket) return { ok: false as const, status: 500, error: "s3_not_configured" };
+
+  const now = new Date();
+  const data = await leaseMergeData(db, input.app, { firmId: input.firmId, now });
+  const rendered = renderLeaseTemplate(input.template.html, data);
+  const title = `Lease – ${data.premises_address || "Premises"}`;
+  const pdf = htmlToPdf(rendered.html, { title, footer: `Lease ${input.leaseId}` });
+
+  const objectKey = `firms/${input.firmId}/leases/${input.leaseId}/lease_${Date.now()}.pdf`;
+  await s3.send(
+    new PutObjectCommand({ Bucket: s3Bucket, Key: objectKey, Body: pdf, ContentType: "application/pdf" })
+  );
+
+  const fileName = `lease_${input.leaseId}.pdf`;
+  const res = await db.collection("landlord_documents").insertOne({
+    firmId: input.firmId,
+    title,
+    internalDescription: `Generated from template “${input.template.name}”`,
+    externalDescription: "Your lease, prepared from the terms you agreed to.",
+    objectKey,
+    fileName,
+    contentType: "application/pdf",
+    generated: {
+      templateId: input.template._id,
+      templateUpdatedAt: input.template.updatedAt,
+      leaseId: input.leaseId,
+      appId: String(input.app?._id ?? ""),
+      missingFields: rendered.missing,
+      sha256: crypto.createHash("sha256").update(pdf).digest("hex"),
+    },
+    createdAt: now,
+    updatedAt: now,
+    createdBy: input.createdBy,
+  });
+
+  return {
+    ok: true as const,
+    missing: rendered.missing,
+    document: {
+      id: String(res.insertedId),
+      title,
+      externalDescription: "Your lease, prepared from the terms you agreed to." as string | null,
+      objectKey,
+      contentType: "application/pdf",
+      fileName,
+    },
+  };
+}
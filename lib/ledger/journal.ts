@@ -0,0 +1,492 @@
+// lib/ledger/journal.ts
+// Double-entry journal per application/lease. Charges, payments, waivers and
+// credits all post balanced entries; balances are read back from the entries.
+import type {
+  LateFeeDoc,
+  LedgerAccount,
+  LedgerBucket,
+  LedgerEntryDoc,
+  LedgerEntryKind,
+  LedgerLine,
+  PaymentRefund,
+} from "@/lib/models";
+import { buildCharges, feeLinesFor, safeNum, type ChargeRow } from "@/lib/rent/charges";
+import { idEq, rid } from "@/lib/ids";
+
+/*
+ * Posting rules (all amounts in cents, per bucket):
+ *
+ *   charge            Dr receivable[line]     Cr income | deposit_liability
+ *   charge_adjustment same as charge (or reversed when the line shrinks)
+ *   payment_pending   Dr cash_pending[line]   Cr receivable[line]
+ *   payment_settled   Dr cash[line]           Cr cash_pending[line]
+ *   payment_reversed  Dr receivable[line]     Cr cash_pending[line]
+ *   payment_returned  Dr receivable[line]     Cr cash[line]      (ACH return, dispute opened)
+ *   refund            Dr receivable[line]     Cr cash[line]      (refunded outside the app)
+ *   refund_issued     Dr income | deposit_liability[line]  Cr cash[line]  (landlord refund)
+ *   payment_reinstated Dr cash[line]          Cr receivable[line]  (dispute won)
+ *   waiver            Dr waived[line]         Cr receivable[line]
+ *   credit            Dr credits[line]        Cr receivable[line]
+ *
+ * A line's remaining balance is its receivable balance. Pending ACH reduces what
+ * the household still owes (they can't pay twice), but only settled cash counts
+ * toward the signing gates and the landlord's collected totals.
+ *
+ * A landlord refund gives money back without reopening the line: it's tracked
+ * as refunded, like a waiver.
+ */
+
+type ChargeGroup = ChargeRow["bucket"];
+type PaymentKind = NonNullable<LedgerEntryDoc["paymentKind"]>;
+
+export type ChargeBalance = {
+  chargedCents: number;
+  pendingCents: number;
+  postedCents: number;
+  waivedCents: number;
+  creditedCents: number;
+  refundedCents: number;         // given back by the landlord (charge forgiven after payment)
+  remainingCents: number;        // receivable balance (negative = overpaid)
+};
+
+export type BucketBalance = ChargeBalance & { unappliedCents: number };
+
+export type LedgerBalances = {
+  byCharge: Map<string, ChargeBalance>;
+  byBucket: Record<LedgerBucket, BucketBalance>;
+  /** Cash by the kind of payment that brought it in (what the signing gates count) */
+  byPaymentKind: Record<PaymentKind, { pendingCents: number; postedCents: number }>;
+};
+
+const emptyCharge = (): ChargeBalance => ({
+  chargedCents: 0,
+  pendingCents: 0,
+  postedCents: 0,
+  waivedCents: 0,
+  creditedCents: 0,
+  refundedCents: 0,
+  remainingCents: 0,
+});
+
+export const ledgerBucketFor = (group: ChargeGroup): LedgerBucket => (group === "deposit" ? "deposit" : "operating");
+
+/** Charge group from a chargeKey (`${appId}:${group}:${code}`) */
+export function chargeGroupOf(chargeKey: string): ChargeGroup | null {
+  const g = chargeKey.split(":")[1];
+  return g === "upfront" || g === "deposit" || g === "rent" || g === "fee" ? g : null;
+}
+
+const isUnapplied = (chargeKey: string | null) => !!chargeKey && chargeKey.endsWith(":unapplied");
+
+/* ----------------------------- reading ----------------------------- */
+
+/** Fold entries into per-line, per-bucket and per-payment-kind balances */
+export function summarizeEntries(entries: Pick<LedgerEntryDoc, "bucket" | "kind" | "paymentKind" | "lines">[]): LedgerBalances {
+  const byCharge = new Map<string, ChargeBalance>();
+  const byBucket: Record<LedgerBucket, BucketBalance> = {
+    operating: { ...emptyCharge(), unappliedCents: 0 },
+    deposit: { ...emptyCharge(), unappliedCents: 0 },
+  };
+  const byPaymentKind: LedgerBalances["byPaymentKind"] = {
+    upfront: { pendingCents: 0, postedCents: 0 },
+    deposit: { pendingCents: 0, postedCents: 0 },
+    rent: { pendingCents: 0, postedCents: 0 },
+    fee: { pendingCents: 0, postedCents: 0 },
+  };
+
+  for (const e of entries) {
+    const bucket = byBucket[e.bucket];
+    for (const l of e.lines) {
+      const net = safeNum(l.debitCents) - safeNum(l.creditCents);
+      const key = l.chargeKey ?? "";
+      const unapplied = isUnapplied(key);
+      const c = key && !unapplied ? (byCharge.get(key) ?? byCharge.set(key, emptyCharge()).get(key)!) : null;
+      const bump = (field: keyof ChargeBalance, v: number) => {
+        if (c) c[field] += v;
+        bucket[field] += v;
+      };
+
+      switch (l.account) {
+        case "receivable":
+          if (unapplied) bucket.unappliedCents -= net;
+          else bump("remainingCents", net);
+          if ((e.kind === "charge" || e.kind === "charge_adjustment") && !unapplied) bump("chargedCents", net);
+          break;
+        case "cash_pending":
+          bump("pendingCents", net);
+          if (e.paymentKind) byPaymentKind[e.paymentKind].pendingCents += net;
+          break;
+        case "cash":
+          bump("postedCents", net);
+          if (e.paymentKind) byPaymentKind[e.paymentKind].postedCents += net;
+          break;
+        case "waived":
+          bump("waivedCents", net);
+          break;
+        case "credits":
+          bump("creditedCents", net);
+          break;
+        case "income":
+        case "deposit_liability":
+          if (e.kind !== "refund_issued") break;
+          if (unapplied) bucket.unappliedCents -= net;
+          else bump("refundedCents", net);
+          break;
+        default:
+          break;
+      }
+    }
+  }
+  return { byCharge, byBucket, byPaymentKind };
+}
+
+export async function loadEntries(db: any, appId: string): Promise<LedgerEntryDoc[]> {
+  return db.collection("ledger_entries").find({ appId }).sort({ createdAt: 1, _id: 1 }).toArray();
+}
+
+/* ----------------------------- posting ----------------------------- */
+
+/**
+ * Insert one balanced entry. Returns null if `sourceKey` was already posted
+ * (unique index), so every caller can retry safely.
+ */
+export async function postEntry(
+  db: any,
+  input: Omit<LedgerEntryDoc, "_id" | "createdAt" | "createdBy"> & { createdBy?: string }
+): Promise<LedgerEntryDoc | null> {
+  const lines = input.lines.filter((l) => l.debitCents > 0 || l.creditCents > 0);
+  const dr = lines.reduce((s, l) => s + l.debitCents, 0);
+  const cr = lines.reduce((s, l) => s + l.creditCents, 0);
+  if (!lines.length || dr <= 0) return null;
+  if (dr !== cr) throw new Error(`ledger_unbalanced:${input.sourceKey}:${dr}!=${cr}`);
+
+  const doc: LedgerEntryDoc = {
+    ...input,
+    _id: `jrnl_${rid()}`,
+    lines,
+    createdAt: new Date(),
+    createdBy: input.createdBy ?? "system",
+  };
+  try {
+    await db.collection("ledger_entries").insertOne(doc);
+    return doc;
+  } catch (err: any) {
+    if (err?.code === 11000) return null;
+    throw err;
+  }
+}
+
+const line = (account: LedgerAccount, chargeKey: string | null, debitCents: number, creditCents: number): LedgerLine => ({
+  account,
+  chargeKey,
+  debitCents,
+  creditCents,
+});
+
+/** Per-line amounts → mirrored Dr/Cr line pairs */
+function pairLines(splits: { chargeKey: string; cents: number }[], dr: LedgerAccount, cr: LedgerAccount) {
+  return splits.flatMap((s) => [line(dr, s.chargeKey, s.cents, 0), line(cr, s.chargeKey, 0, s.cents)]);
+}
+
+/** Lines a payment kind may settle, in the order they're filled */
+function allowedGroups(kind: PaymentKind): ChargeGroup[] {
+  if (kind === "deposit") return ["deposit"];
+  if (kind === "rent") return ["rent"];
+  if (kind === "fee") return ["fee"];
+  return ["upfront", "rent"]; // spillover into rent after move-in items
+}
+
+export function normalizePaymentKind(kind: any): PaymentKind | null {
+  const k = String(kind ?? "upfront");
+  if (k === "operating" || k === "upfront") return "upfront";
+  return k === "deposit" || k === "rent" || k === "fee" ? k : null;
+}
+
+/**
+ * Greedily split an amount across the open lines a payment kind may settle
+ * (priority, then code). Anything left over is parked on `…:unapplied`.
+ */
+function splitAcrossOpen(
+  appId: string,
+  kind: PaymentKind,
+  amountCents: number,
+  charges: ChargeRow[],
+  balances: LedgerBalances
+) {
+  const groups = allowedGroups(kind);
+  const ordered = charges
+    .filter((c) => groups.includes(c.bucket))
+    .sort((a, b) => a.priorityIndex - b.priorityIndex || a.code.localeCompare(b.code));
+
+  let left = amountCents;
+  const splits: { chargeKey: string; cents: number }[] = [];
+  for (const c of ordered) {
+    if (left <= 0) break;
+    const open = Math.max(0, balances.byCharge.get(c.chargeKey)?.remainingCents ?? 0);
+    const take = Math.min(open, left);
+    if (take <= 0) continue;
+    splits.push({ chargeKey: c.chargeKey, cents: take });
+    left -= take;
+  }
+  if (left > 0) splits.push({ chargeKey: `${appId}:${groups[0]}:unapplied`, cents: left });
+  return splits;
+}
+
+/** Net cash_pending (or cash) still sitting on each line for one payment */
+function openSplits(entries: LedgerEntryDoc[], paymentId: string, account: "cash_pending" | "cash") {
+  const by = new Map<string, number>();
+  for (const e of entries) {
+    if (String(e.paymentId ?? "") !== paymentId) continue;
+    for (const l of e.lines) {
+      if (l.account !== account || !l.chargeKey) continue;
+      by.set(l.chargeKey, (by.get(l.chargeKey) ?? 0) + l.debitCents - l.creditCents);
+    }
+  }
+  return [...by.entries()].filter(([, cents]) => cents > 0).map(([chargeKey, cents]) => ({ chargeKey, cents }));
+}
+
+/** Take `cents` back off a payment's lines, most recently filled line first */
+function takeBack(splits: { chargeKey: string; cents: number }[], cents: number) {
+  let left = Math.max(0, cents);
+  const out: { chargeKey: string; cents: number }[] = [];
+  for (const s of [...splits].reverse()) {
+    if (left <= 0) break;
+    const take = Math.min(s.cents, left);
+    out.push({ chargeKey: s.chargeKey, cents: take });
+    left -= take;
+  }
+  return out;
+}
+
+/* ------------------------------ sync ------------------------------ */
+
+export type LedgerSync = {
+  appId: string;
+  firmId: string;
+  leaseId: string | null;
+  charges: ChargeRow[];
+  entries: LedgerEntryDoc[];
+  posted: LedgerEntryDoc[];
+  balances: LedgerBalances;
+};
+
+/**
+ * Bring an application's journal up to date with its plan, late fees and
+ * payments, then return balances. Idempotent (every posting has a sourceKey),
+ * so routes and the webhook can all call it on read.
+ */
+export async function syncLedger(
+  db: any,
+  app: any,
+  opts: { firmId?: string | null; by?: string } = {}
+): Promise<LedgerSync> {
+  const appId = String(app?._id ?? "");
+  const by = opts.by ?? "system";
+
+  const lease = appId
+    ? await db
+        .collection("unit_leases")
+        .findOne({ ...idEq("appId", appId), status: { $nin: ["canceled"] } }, { projection: { _id: 1, firmId: 1 }, sort: { createdAt: -1 } })
+    : null;
+  const firmId = String(opts.firmId || app?.firmId || lease?.firmId || "");
+  const leaseId = lease?._id ? String(lease._id) : null;
+
+  const fees: LateFeeDoc[] = appId ? await db.collection("late_fees").find({ appId }).toArray() : [];
+  const charges = appId ? buildCharges(appId, app, feeLinesFor(fees)) : [];
+  const entries = appId ? await loadEntries(db, appId) : [];
+  const posted: LedgerEntryDoc[] = [];
+
+  const post = async (
+    sourceKey: string,
+    bucket: LedgerBucket,
+    kind: LedgerEntryKind,
+    lines: LedgerLine[],
+    extra: Partial<LedgerEntryDoc> = {}
+  ) => {
+    if (entries.some((e) => e.sourceKey === sourceKey)) return;
+    const doc = await postEntry(db, { sourceKey, appId, firmId, leaseId, bucket, kind, lines, createdBy: by, ...extra });
+    if (doc) {
+      entries.push(doc);
+      posted.push(doc);
+    }
+  };
+
+  if (!appId) return { appId, firmId, leaseId, charges, entries, posted, balances: summarizeEntries(entries) };
+
+  // 1) Charges: post each line, and an adjustment whenever the plan changes its amount.
+  //    No plan at all (or a caller's projection without one) never zeroes the books.
+  let balances = summarizeEntries(entries);
+  const hasPlan = !!(app?.paymentPlan || app?.upfronts);
+  const live = new Set(charges.map((c) => c.chargeKey));
+  const targets: { chargeKey: string; group: ChargeGroup; label?: string; amountCents: number }[] = !hasPlan ? [] : [
+    ...charges.map((c) => ({ chargeKey: c.chargeKey, group: c.bucket, label: c.label, amountCents: c.amountCents })),
+    // Lines the plan no longer produces are charged back down to zero
+    ...[...balances.byCharge.keys()]
+      .filter((k) => !live.has(k) && chargeGroupOf(k))
+      .map((k) => ({ chargeKey: k, group: chargeGroupOf(k)!, amountCents: 0 })),
+  ];
+  for (const t of targets) {
+    const current = balances.byCharge.get(t.chargeKey)?.chargedCents ?? 0;
+    const delta = t.amountCents - current;
+    if (delta === 0) continue;
+    const bucket = ledgerBucketFor(t.group);
+    const offset: LedgerAccount = bucket === "deposit" ? "deposit_liability" : "income";
+    const version = entries.filter(
+      (e) => (e.kind === "charge" || e.kind === "charge_adjustment") && e.lines.some((l) => l.chargeKey === t.chargeKey)
+    ).length;
+    await post(
+      `charge:${t.chargeKey}:v${version}`,
+      bucket,
+      version === 0 ? "charge" : "charge_adjustment",
+      delta > 0
+        ? [line("receivable", t.chargeKey, delta, 0), line(offset, t.chargeKey, 0, delta)]
+        : [line(offset, t.chargeKey, -delta, 0), line("receivable", t.chargeKey, 0, -delta)],
+      { memo: t.label ?? null }
+    );
+  }
+
+  // 2) Late fee waivers: forgive whatever was still open on the fee line
+  balances = summarizeEntries(entries);
+  for (const f of fees) {
+    if (f.status !== "waived") continue;
+    const chargeKey = `${appId}:fee:${f.code}`;
+    const open = Math.max(0, balances.byCharge.get(chargeKey)?.remainingCents ?? 0);
+    if (open <= 0) continue;
+    await post(`waiver:${f._id}`, "operating", "waiver", pairLines([{ chargeKey, cents: open }], "waived", "receivable"), {
+      memo: f.waiver?.reason ?? null,
+      createdBy: f.waiver?.by ?? by,
+    });
+  }
+
+  // 3) Payments, oldest first, each stage posted once
+  const payments = await db
+    .collection("payments")
+    .find(
+      { appId },
+      { projection: { _id: 1, kind: 1, status: 1, amountCents: 1, refundedCents: 1, refunds: 1, dispute: 1, createdAt: 1 } }
+    )
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  for (const p of payments) {
+    const kind = normalizePaymentKind(p.kind);
+    const amountCents = Math.max(0, Math.round(safeNum(p.amountCents)));
+    if (!kind || amountCents <= 0) continue;
+    const paymentId = String(p._id);
+    const status = String(p.status ?? "created");
+    const bucket: LedgerBucket = kind === "deposit" ? "deposit" : "operating";
+    const extra = { paymentId, paymentKind: kind };
+    const has = (stage: string) => entries.some((e) => e.sourceKey === `payment:${paymentId}:${stage}`);
+
+    const wasPending = has("pending");
+    if (!wasPending && (status === "processing" || status === "succeeded")) {
+      const splits = splitAcrossOpen(appId, kind, amountCents, charges, summarizeEntries(entries));
+      await post(`payment:${paymentId}:pending`, bucket, "payment_pending", pairLines(splits, "cash_pending", "receivable"), extra);
+    }
+
+    if (status === "succeeded" && !has("settled")) {
+      const splits = openSplits(entries, paymentId, "cash_pending");
+      await post(`payment:${paymentId}:settled`, bucket, "payment_settled", pairLines(splits, "cash", "cash_pending"), extra);
+    }
+
+    if ((status === "failed" || status === "canceled" || status === "returned") && has("pending") && !has("reversed")) {
+      const splits = openSplits(entries, paymentId, "cash_pending");
+      if (splits.length) {
+        await post(`payment:${paymentId}:reversed`, bucket, "payment_reversed", pairLines(splits, "receivable", "cash_pending"), extra);
+      }
+    }
+
+    // Disputes pull the disputed amount back out; a won dispute puts it back on whatever is open then
+    const dispute = p.dispute?.id ? p.dispute : null;
+    if (dispute && has("settled") && !has(`disputed:${dispute.id}`) && dispute.status !== "won") {
+      const splits = takeBack(openSplits(entries, paymentId, "cash"), safeNum(dispute.amountCents, amountCents));
+      await post(`payment:${paymentId}:disputed:${dispute.id}`, bucket, "payment_returned", pairLines(splits, "receivable", "cash"), {
+        ...extra,
+        memo: dispute.reason ?? "dispute",
+      });
+    }
+    if (dispute?.status === "won" && has(`disputed:${dispute.id}`) && !has(`reinstated:${dispute.id}`)) {
+      const back = entries
+        .filter((e) => e.sourceKey === `payment:${paymentId}:disputed:${dispute.id}`)
+        .reduce((s, e) => s + e.lines.reduce((t, l) => t + l.debitCents, 0), 0);
+      const splits = splitAcrossOpen(appId, kind, back, charges, summarizeEntries(entries));
+      await post(`payment:${paymentId}:reinstated:${dispute.id}`, bucket, "payment_reinstated", pairLines(splits, "cash", "receivable"), extra);
+    }
+
+    // Landlord refunds from the payments screen: money back, charge reduced, line stays settled
+    const issued: PaymentRefund[] = Array.isArray(p.refunds) ? p.refunds.filter((r: PaymentRefund) => r.status !== "failed") : [];
+    for (const r of issued) {
+      if (r.status !== "succeeded" || has(`refund_issued:${r.id}`)) continue;
+      const splits = takeBack(openSplits(entries, paymentId, "cash"), safeNum(r.amountCents));
+      const offset: LedgerAccount = bucket === "deposit" ? "deposit_liability" : "income";
+      await post(`payment:${paymentId}:refund_issued:${r.id}`, bucket, "refund_issued", pairLines(splits, offset, "cash"), {
+        ...extra,
+        memo: r.reason,
+        createdBy: r.by,
+      });
+    }
+
+    // Refunds made outside the app: post only the increase since the last one we saw
+    // (Stripe reports a running total, which includes the landlord refunds above)
+    const issuedCents = issued.reduce((s, r) => s + safeNum(r.amountCents), 0);
+    const refundedCents = Math.max(0, Math.round(safeNum(p.refundedCents)) - issuedCents);
+    const refundedInLedger = entries
+      .filter((e) => e.kind === "refund" && String(e.paymentId ?? "") === paymentId)
+      .reduce((s, e) => s + e.lines.reduce((t, l) => t + l.debitCents, 0), 0);
+    if (refundedCents > refundedInLedger) {
+      const splits = takeBack(openSplits(entries, paymentId, "cash"), refundedCents - refundedInLedger);
+      await post(`payment:${paymentId}:refund:${refundedCents}`, bucket, "refund", pairLines(splits, "receivable", "cash"), extra);
+    }
+
+    if (status === "returned" && has("settled") && !has("returned")) {
+      const splits = openSplits(entries, paymentId, "cash");
+      await post(`payment:${paymentId}:returned`, bucket, "payment_returned", pairLines(splits, "receivable", "cash"), extra);
+    }
+  }
+
+  return { appId, firmId, leaseId, charges, entries, posted, balances: summarizeEntries(entries) };
+}
+
+/**
+ * Apply a non-cash credit (e.g. deposit interest) to open lines of the given
+ * groups, earliest due first. Nothing is posted if there's nothing open.
+ */
+export async function postCredit(
+  db: any,
+  app: any,
+  opts: { sourceKey: string; groups: ChargeGroup[]; amountCents: number; memo?: string | null; by?: string }
+) {
+  const sync = await syncLedger(db, app, { by: opts.by });
+  const existing = sync.entries.find((e) => e.sourceKey === opts.sourceKey);
+  if (existing) {
+    return { entry: existing, appliedCents: existing.lines.reduce((s, l) => s + l.debitCents, 0) };
+  }
+
+  const ordered = sync.charges
+    .filter((c) => opts.groups.includes(c.bucket))
+    .sort((a, b) => String(a.dueDate ?? "").localeCompare(String(b.dueDate ?? "")) || a.priorityIndex - b.priorityIndex);
+  let left = Math.max(0, Math.round(opts.amountCents));
+  const splits: { chargeKey: string; cents: number }[] = [];
+  for (const c of ordered) {
+    if (left <= 0) break;
+    const take = Math.min(Math.max(0, sync.balances.byCharge.get(c.chargeKey)?.remainingCents ?? 0), left);
+    if (take <= 0) continue;
+    splits.push({ chargeKey: c.chargeKey, cents: take });
+    left -= take;
+  }
+  if (!splits.length) return { entry: null, appliedCents: 0 };
+
+  const bucket = ledgerBucketFor(opts.groups[0]);
+  const entry = await postEntry(db, {
+    sourceKey: opts.sourceKey,
+    appId: sync.appId,
+    firmId: sync.firmId,
+    leaseId: sync.leaseId,
+    bucket,
+    kind: "credit",
+    lines: pairLines(splits, "credits", "receivable"),
+    memo: opts.memo ?? null,
+    createdBy: opts.by,
+  });
+  return { entry, appliedCents: entry ? opts.amountCents - left : 0 };
+}
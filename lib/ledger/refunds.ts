@@ -0,0 +1,273 @@
+// lib/ledger/refunds.ts
+// Refunds a firm admin issues against a payment: the Stripe refund pulls the money
+// back from the firm's connected account, the ledger records it, the household gets a receipt.
+import Stripe from "stripe";
+import type { PaymentRefund } from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { syncLedger } from "./journal";
+import { idEq, rid } from "@/lib/ids";
+import {
+  esc,
+  fmtDate,
+  householdNames,
+  htmlShell,
+  landlordName,
+  money as receiptMoney,
+  premisesOf,
+  toMaybeObjectId,
+} from "@/lib/receipts";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string);
+
+export const MIN_REFUND_REASON_LENGTH = 3;
+
+const money = (c: number) => `$${(Math.max(0, c) / 100).toFixed(2)}`;
+
+export const paymentLabel = (kind: any) =>
+  kind === "deposit" ? "security deposit" : kind === "fee" ? "late fee" : kind === "rent" ? "rent" : "move-in";
+
+/**
+ * What can still be refunded: settled payments only, net of earlier refunds.
+ * Stripe won't refund a disputed charge, so an open or lost dispute blocks it.
+ */
+export function refundableCents(p: any) {
+  if (String(p?.status ?? "") !== "succeeded") return 0;
+  if (p?.dispute?.id && p.dispute.status !== "won") return 0;
+  const amount = Math.max(0, Math.round(Number(p.amountCents) || 0));
+  const refunded = Math.max(0, Math.round(Number(p.refundedCents) || 0));
+  return Math.max(0, amount - refunded);
+}
+
+type IssueResult =
+  | { ok: true; refund: PaymentRefund; posted: string[] }
+  | { ok: false; error: string; status: number; detail?: string | null };
+
+/**
+ * Refund part or all of a settled payment. The amount is reserved on the row before
+ * Stripe is called, so a second refund (or the charge.refunded webhook arriving
+ * first) sees it; a Stripe failure releases it again.
+ */
+export async function issueRefund(
+  db: any,
+  payment: any,
+  opts: { amountCents: any; reason: any; by: string; now?: Date }
+): Promise<IssueResult> {
+  const now = opts.now ?? new Date();
+  const amountCents = Math.round(Number(opts.amountCents));
+  const reason = String(opts.reason ?? "").trim().slice(0, 500);
+  if (!Number.isFinite(amountCents) || amountCents <= 0) return { ok: false, error: "invalid_amount", status: 400 };
+  if (reason.length < MIN_REFUND_REASON_LENGTH) return { ok: false, error: "reason_required", status: 400 };
+
+  const paymentIntentId = payment?.providerIds?.paymentIntentId ?? null;
+  if (payment?.provider !== "stripe" || !paymentIntentId) return { ok: false, error: "not_a_stripe_payment", status: 409 };
+
+  const max = refundableCents(payment);
+  if (max <= 0) return { ok: false, error: "not_refundable", status: 409 };
+  if (amountCents > max) return { ok: false, error: "exceeds_refundable", status: 409 };
+
+  const payments = db.collection("payments");
+  const before = Math.max(0, Math.round(Number(payment.refundedCents) || 0));
+  const refund: PaymentRefund = {
+    id: `rfnd_${rid()}`,
+    amountCents,
+    reason,
+    status: "pending",
+    stripeRefundId: null,
+    error: null,
+    by: opts.by,
+    at: now,
+    receiptSentAt: null,
+  };
+
+  const reserved = await payments.updateOne(
+    { _id: payment._id, status: "succeeded", refundedCents: { $in: before ? [before] : [0, null] } },
+    { $set: { refundedCents: before + amountCents, updatedAt: now }, $push: { refunds: refund } }
+  );
+  if (!reserved.modifiedCount) return { ok: false, error: "payment_changed", status: 409 };
+
+  let stripeRefund: Stripe.Refund | null = null;
+  let error: string | null = null;
+  try {
+    // Every payment is a destination charge, so reverse the transfer to debit the connected account
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: amountCents,
+        reverse_transfer: true,
+        reason: "requested_by_customer",
+        metadata: { refundId: refund.id, paymentId: String(payment._id), appId: String(payment.appId ?? ""), by: opts.by },
+      },
+      { idempotencyKey: `refund:${refund.id}` }
+    );
+    if (stripeRefund.status === "failed" || stripeRefund.status === "canceled") {
+      error = stripeRefund.failure_reason ?? stripeRefund.status;
+    }
+  } catch (e: any) {
+    console.error("[refunds] stripe refund failed,", e?.message || e);
+    error = e?.code || e?.message || "stripe_error";
+  }
+
+  if (error) {
+    await payments.updateOne(
+      { _id: payment._id, "refunds.id": refund.id },
+      {
+        $inc: { refundedCents: -amountCents },
+        $set: { "refunds.$.status": "failed", "refunds.$.error": error, updatedAt: new Date() },
+      }
+    );
+    return { ok: false, error: "refund_failed", status: 502, detail: error };
+  }
+
+  refund.status = "succeeded";
+  refund.stripeRefundId = stripeRefund?.id ?? null;
+  await payments.updateOne(
+    { _id: payment._id, "refunds.id": refund.id },
+    {
+      $set: {
+        "refunds.$.status": "succeeded",
+        "refunds.$.stripeRefundId": refund.stripeRefundId,
+        refundedAt: now,
+        updatedAt: new Date(),
+      },
+    }
+  );
+
+  let posted: string[] = [];
+  const app = payment.appId ? await db.collection("applications").findOne(idEq("_id", payment.appId)) : null;
+  if (app) {
+    const sync = await syncLedger(db, app, { firmId: String(payment.firmId ?? ""), by: opts.by });
+    posted = sync.posted.map((e) => e.sourceKey);
+    await db.collection("applications").updateOne(idEq("_id", payment.appId), {
+      $push: {
+        timeline: {
+          at: now,
+          by: opts.by,
+          event: "payment.refund_issued",
+          meta: {
+            paymentId: String(payment._id),
+            refundId: refund.id,
+            stripeRefundId: refund.stripeRefundId,
+            kind: payment.kind ?? null,
+            amountCents,
+            reason,
+            entries: posted,
+          },
+        },
+      },
+    });
+  }
+
+  return { ok: true, refund, posted };
+}
+
+/**
+ * Render the refund receipt for one of a payment's refunds. `refund` may be
+ * newer than the `payment` doc it was issued against (the email goes out
+ * right after issueRefund), so it's counted whether or not it's listed there.
+ */
+export async function renderRefundReceipt(db: any, payment: any, refund: PaymentRefund) {
+  const app = payment.appId
+    ? await db.collection("applications").findOne(idEq("_id", payment.appId), { projection: { householdId: 1 } })
+    : null;
+  const lease = payment.appId
+    ? await db.collection("unit_leases").findOne({ appId: { $in: [String(payment.appId), toMaybeObjectId(payment.appId)] } })
+    : null;
+  const landlord = await landlordName(db, payment.firmId);
+  const premises = premisesOf(lease);
+
+  const tenants = await householdNames(db, app?.householdId ?? lease?.householdId);
+
+  // Refunds on this payment up to and including this one
+  const all = [...(payment.refunds || []).filter((r: any) => r.id !== refund.id), refund];
+  const prior = all.filter(
+    (r: any) => r.status === "succeeded" && new Date(r.at).getTime() <= new Date(refund.at).getTime(),
+  );
+  const refundedToDate = prior.reduce((s: number, r: any) => s + (Number(r.amountCents) || 0), 0);
+  const label = paymentLabel(payment.kind);
+
+  const inner = `
+  <h1>Refund Receipt</h1>
+  <div class="muted">Receipt ${esc(refund.id)}${refund.stripeRefundId ? ` • Reference ${esc(refund.stripeRefundId)}` : ""}</div>
+
+  <div class="box" style="margin-top:12px">
+    <div class="grid">
+      <div class="row"><span class="label">Tenant(s)</span>${esc(tenants.join(", ") || "Tenant")}</div>
+      <div class="row"><span class="label">Landlord</span>${esc(landlord)}</div>
+      <div class="row"><span class="label">Premises</span>${esc(premises || "Premises")}</div>
+      <div class="row"><span class="label">Refund date</span>${esc(fmtDate(refund.at))}</div>
+    </div>
+  </div>
+
+  <h2>Refund</h2>
+  <table>
+    <tbody>
+      <tr><td>Original payment (${esc(label)})</td><td class="num">${esc(receiptMoney(payment.amountCents))}</td></tr>
+      <tr><td>Paid on</td><td class="num">${esc(fmtDate(payment.succeededAt ?? payment.createdAt))}</td></tr>
+      <tr><td>Reason</td><td class="num">${esc(refund.reason)}</td></tr>
+      ${refundedToDate > refund.amountCents ? `<tr><td>Refunded on this payment to date</td><td class="num">${esc(receiptMoney(refundedToDate))}</td></tr>` : ""}
+      <tr class="total"><td>Amount refunded</td><td class="num">${esc(receiptMoney(refund.amountCents))}</td></tr>
+    </tbody>
+  </table>
+
+  <hr/>
+  <div class="note">The refund goes back to the bank account the payment came from. Bank transfers usually arrive within 5–10 business days.</div>
+  `;
+
+  return htmlShell(inner, "Refund Receipt");
+}
+
+/**
+ * Email the refund receipt to the household. The HTML is the same receipt
+ * linked from the portal.
+ */
+export async function sendRefundReceipt(db: any, payment: any, refund: PaymentRefund) {
+  const app = payment.appId
+    ? await db.collection("applications").findOne(idEq("_id", payment.appId), { projection: { householdId: 1 } })
+    : null;
+  const recipients = await getHouseholdEmails(app?.householdId ?? null);
+  if (!recipients.length) return { ok: false as const, error: "no_recipients", sent: [] as string[] };
+
+  let html = "";
+  try {
+    html = await renderRefundReceipt(db, payment, refund);
+  } catch (e) {
+    console.error("[refunds] receipt render failed,", e);
+  }
+
+  const label = paymentLabel(payment.kind);
+  const text = [
+    `REFUND RECEIPT`,
+    "",
+    `Refunded: ${money(refund.amountCents)}`,
+    `Original payment: ${money(Number(payment.amountCents) || 0)} (${label})`,
+    `Reason: ${refund.reason}`,
+    `Date: ${new Date(refund.at).toISOString().slice(0, 10)}`,
+    refund.stripeRefundId ? `Reference: ${refund.stripeRefundId}` : null,
+    "",
+    "The refund goes back to the bank account the payment came from. Bank transfers usually arrive within 5–10 business days.",
+  ]
+    .filter((l) => l != null)
+    .join("\n");
+
+  const sent: string[] = [];
+  for (const to of recipients) {
+    const r = await sendMail({
+      to,
+      subject: `Refund receipt: ${money(refund.amountCents)} ${label}`,
+      html: html || undefined,
+      text,
+      idempotencyKey: `refund:${refund.id}:${to}`,
+      traceId: `payment:${payment._id}`,
+    });
+    if (r.ok) sent.push(to);
+    else console.warn("[refunds] email failed,", { to, error: (r as any).error });
+  }
+
+  if (sent.length) {
+    await db
+      .collection("payments")
+      .updateOne({ _id: payment._id, "refunds.id": refund.id }, { $set: { "refunds.$.receiptSentAt": new Date() } });
+  }
+  return sent.length ? { ok: true as const, sent } : { ok: false as const, error: "send_failed", sent };
+}
@@ -0,0 +1,103 @@
+// lib/ledger/reversals.ts
+// Money coming back out after a payment succeeded: ACH returns, refunds and
+// disputes. The ledger posts the reversal; this module words and sends the notices.
+import { sendMail } from "@/lib/mailer";
+import { getHouseholdEmails } from "@/lib/households";
+import { getFirmAdminEmails } from "@/lib/firms";
+
+export type ReversalKind = "ach_return" | "refund" | "dispute_opened" | "dispute_won" | "dispute_lost";
+
+/** Stripe `failure_code` on a returned ACH debit → NACHA return code */
+export const ACH_RETURN_CODES: Record<string, string> = {
+  insufficient_funds: "R01",
+  account_closed: "R02",
+  no_account: "R03",
+  invalid_account_number: "R04",
+  debit_not_authorized: "R10",
+  bank_account_restricted: "R16",
+  account_frozen: "R16",
+  invalid_currency: "R17",
+};
+
+const money = (c: number) => `$${(Math.max(0, c) / 100).toFixed(2)}`;
+
+/** "R01 (insufficient_funds)" — or just the Stripe code when there's no NACHA mapping */
+export function describeAchReturn(code?: string | null) {
+  if (!code) return "returned by the bank";
+  const r = ACH_RETURN_CODES[code];
+  return r ? `${r} (${code})` : code;
+}
+
+function wording(kind: ReversalKind, amountCents: number, label: string, detail: string | null) {
+  switch (kind) {
+    case "ach_return":
+      return {
+        subject: `Payment returned: ${label}`,
+        tenant: `Your bank returned the ${money(amountCents)} ${label} payment (${detail ?? "returned by the bank"}). The amount is owed again; please pay it from the payments page with a different account or after checking with your bank.`,
+        firm: `The ${money(amountCents)} ${label} payment was returned by the tenant's bank (${detail ?? "no code"}). The charges it covered have been reopened on the lease.`,
+      };
+    case "refund":
+      return {
+        subject: `Payment refunded: ${label}`,
+        tenant: `${money(amountCents)} of your ${label} payment was refunded to your bank. The charges it covered show as open again until they're paid or adjusted.`,
+        firm: `${money(amountCents)} of the ${label} payment was refunded. The charges it covered have been reopened on the lease.`,
+      };
+    case "dispute_opened":
+      return {
+        subject: `Payment disputed: ${label}`,
+        tenant: `A dispute was opened on your ${money(amountCents)} ${label} payment${detail ? ` (${detail})` : ""}. While it's open, the amount shows as unpaid.`,
+        firm: `A dispute was opened on the ${money(amountCents)} ${label} payment${detail ? ` (${detail})` : ""}. The disputed amount has been taken back off the lease balance.`,
+      };
+    case "dispute_won":
+      return {
+        subject: `Dispute closed: ${label}`,
+        tenant: `The dispute on your ${money(amountCents)} ${label} payment was closed in the landlord's favor. The payment counts again.`,
+        firm: `The dispute on the ${money(amountCents)} ${label} payment was won. The funds have been re-applied to the lease.`,
+      };
+    case "dispute_lost":
+      return {
+        subject: `Dispute closed: ${label}`,
+        tenant: `The dispute on your ${money(amountCents)} ${label} payment was closed in your favor. The amount remains owed on the lease.`,
+        firm: `The dispute on the ${money(amountCents)} ${label} payment was lost. The charges it covered stay open on the lease.`,
+      };
+  }
+}
+
+/**
+ * Email the household and the firm's admins about a reversal. Keyed by the
+ * Stripe event so redeliveries don't send twice.
+ */
+export async function notifyReversal(
+  db: any,
+  opts: {
+    kind: ReversalKind;
+    eventId: string;
+    app: { householdId?: any } | null;
+    firmId: string;
+    paymentKind: string;
+    amountCents: number;
+    detail?: string | null;
+  }
+) {
+  const label = opts.paymentKind === "deposit" ? "security deposit" : opts.paymentKind === "fee" ? "late fee" : opts.paymentKind === "rent" ? "rent" : "move-in";
+  const w = wording(opts.kind, opts.amountCents, label, opts.detail ?? null);
+
+  const household = await getHouseholdEmails(opts.app?.householdId ?? null);
+  const firm = opts.firmId ? await getFirmAdminEmails(db, opts.firmId) : [];
+  const sent: string[] = [];
+  for (const [to, text] of [
+    ...household.map((a) => [a, w.tenant] as const),
+    ...firm.map((a) => [a, w.firm] as const),
+  ]) {
+    const r = await sendMail({
+      to,
+      subject: w.subject,
+      text,
+      idempotencyKey: `reversal:${opts.eventId}:${to}`,
+      traceId: opts.eventId,
+    });
+    if (r.ok) sent.push(to);
+    else console.warn("[reversals] email failed,", { to, error: (r as any).error });
+  }
+  return sent;
+}
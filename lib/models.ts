@@ -1,3 +1,5 @@
+import type { Action, AppState, Role } from "@/domain/rules";
+
 /* ---------- IDs ---------- */
 export type Id = string; // store ObjectId as string in types, convert at the edge if needed
 
@@ -34,9 +36,26 @@ export interface FirmDoc {
   website?: string;            // e.g. "https://xyzco.com"
   contactEmail?: string;       // e.g. "leasing@xyzco.com"
   contactPhone?: string;
+  lateFeePolicy?: LateFeePolicy | null;
+  settings?: Partial<OrgDoc["settings"]> & { updatedAt?: Date; updatedBy?: string | null }; // same shape as OrgDoc.settings
   createdAt: Date;
 }
 
+/**
+ * Firm-wide late fee policy. MA c.186 §15B(1)(c): no late fee until rent is
+ * 30 days past due, so graceDays is clamped to at least 30.
+ */
+export interface LateFeePolicy {
+  enabled: boolean;
+  graceDays: number;             // days after the due date before a fee may be assessed (≥ 30)
+  kind: "flat" | "percent";
+  flatCents?: number | null;     // kind = "flat"
+  percentHundredths?: number | null; // kind = "percent", of the unpaid rent (500 = 5.00%)
+  maxCents?: number | null;      // cap per assessed fee
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
 
 /* ---------- Orgs (firms) ---------- */
 export interface OrgDoc {
@@ -50,7 +69,10 @@ export interface OrgDoc {
       fourEyes: boolean;       // approver must differ from last reviewer
       autoRejectThreshold?: number | null;
     };
-    lease?: { templateId?: string | null };
+    lease?: { templateId?: string | null }; // default lease_templates id for the handoff
+    scorecard?: ScorecardCriteria;
+    /** Fair-housing blind review: mask protected-class signals until a first recommendation */
+    blindReview?: { enabled: boolean };
   };
 }
 
@@ -70,26 +92,95 @@ export interface OrgMembershipDoc {
   createdAt: Date;
 }
 
-/* ---------- Properties ---------- */
+/* ---------- Properties & units (inventory) ---------- */
+export interface PropertyAddress {
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state: string;               // 2 letters, upper-case
+  zip: string;                 // 5 digits (ZIP+4 trimmed)
+  country: string;             // "US"
+}
+
 export interface PropertyDoc {
   _id: string;                 // "prop_abc"
-  orgId: Id;
+  firmId: Id;
   name: string;
-  address?: { line1?: string; city?: string; state?: string; zip?: string };
-  units?: { unitId: string; beds?: number; baths?: number; rent?: number }[];
+  address: PropertyAddress;
+  /** Normalized street + zip; one building per key per firm (see lib/properties/address) */
+  addressKey: string;
+  archived: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedBy?: string | null;
+  updatedAt: Date;
+}
+
+export interface UnitPhoto {
+  key: string;                 // S3 object key under units/<firmId>/<unitId>/
+  url: string;
+  caption?: string | null;
+  addedAt: Date;
+}
+
+export interface UnitDoc {
+  _id: string;                 // "unit_abc"
+  firmId: Id;
+  propertyId: string;
+  unitNumber: string;          // "" for a single-unit building
+  unitKey: string;             // normalized unitNumber; unique per property
+  beds?: number | null;
+  baths?: number | null;
+  sqft?: number | null;
+  rentCents?: number | null;   // asking rent
+  amenities: string[];
+  photos: UnitPhoto[];
+  archived: boolean;
+  createdBy: string;
   createdAt: Date;
+  updatedBy?: string | null;
+  updatedAt: Date;
+}
+
+/* ---------- Holding requests (deposit to reserve a unit; see lib/holding/expiry.ts) ---------- */
+export type HoldingRequestStatus = "pending" | "submitted" | "paid" | "failed" | "canceled" | "expired";
+
+export interface HoldingRequestDoc {
+  _id: Id;                     // the token
+  appId: string;
+  firmId: string;
+  householdId: string;
+  amounts: { first: number; last: number; security: number; key: number };
+  monthlyRent: number;         // cents
+  total: number;               // cents
+  minimumDue: number;          // cents
+  status: HoldingRequestStatus;
+  token: string;
+  paymentIntentId?: string | null;
+  /** Unpaid past this moment the hold lapses; older rows get one on the next expiry sweep */
+  expiresAt?: Date | null;
+  /** Reminder offsets (hours before expiresAt) already sent for the current expiry */
+  remindersSent?: number[];
+  expiredAt?: Date | null;
+  extensions?: { at: Date; by: string; from: Date; to: Date; reason: string }[];
+  createdAt?: Date;
+  updatedAt: Date;
+  paidAt?: Date | null;
+}
+
+/** Application-side lock while a unit is held; `until` mirrors the request's expiresAt */
+export interface HoldingLock {
+  active: boolean;
+  until?: Date | null;
+  releasedAt?: Date | null;
+  releasedReason?: "expired" | "leased" | "canceled" | null;
 }
 
 /* ---------- Shared (tenant application roles & statuses) ---------- */
 export type MemberRole = "primary" | "co_applicant" | "cosigner";
 
-export type AppStatus =
-  | "draft"
-  | "new"
-  | "in_review"
-  | "needs_approval"
-  | "approved_pending_lease"
-  | "rejected";
+/** The domain state machine's states (domain/rules); status writes go through lib/applications/transitions */
+export type AppStatus = AppState;
 
 /* ---------- Tenant application instances (what renters fill) ---------- */
 export interface ApplicationMember {
@@ -115,15 +206,39 @@ export interface ApplicationDoc {
   /* Optional denormalized hints (nice for dashboards) */
   property?: string;
   unit?: string;
+  /** Inventory records the application is for, once linked (see lib/properties/inventory) */
+  propertyId?: string | null;
+  unitId?: string | null;
 
   members: ApplicationMember[];
   status: AppStatus;
   tasks?: { myIncomplete?: number; householdIncomplete?: number; missingDocs?: number };
+  /** Evidence per member and form qualification: qualificationStatus[userId][qualificationId] */
+  qualificationStatus?: Record<string, Record<string, { status: "provided" | "verified" | "rejected"; at: Date }>>;
+  scorecard?: ApplicationScoreSummary; // latest application_scores row, for lists
+  /** Published form version this application answers (application_form_versions); unset = the form head */
+  formVersion?: number;
+  /** Set when a landlord moved this application to a newer version; cleared once the applicant saw it */
+  formMigration?: { from: number; to: number; at: Date; by: string; acknowledgedAt?: Date };
+  /** Conditions attached to a conditional approval (see decisionLetters) */
+  approvalConditions?: string[];
+  /** Every decision letter as sent, kept for the record */
+  decisionLetters?: DecisionLetter[];
+  /** Reviewer's rank among applications for the same unit (1 = first choice); see competition */
+  competition?: { rank: number | null; rankedAt: Date; rankedBy: string };
+  /** Set when another household got the unit and this one went to the waitlist */
+  waitlist?: { at: Date; by: string; forAppId: string };
+  locks?: { holding?: HoldingLock };
+  /** Blind review fields a reviewer revealed, and by whom (also in audit_log) */
+  blindReview?: { unmasked?: Partial<Record<BlindReviewField, { at: Date; by: string }>> };
   createdAt: Date;
   updatedAt: Date;
   submittedAt?: Date;
 }
 
+/** What blind review hides; each can be revealed on its own once a recommendation exists */
+export type BlindReviewField = "names" | "dob" | "photos" | "sensitive_answers";
+
 /* ---------- Households: just the group anchor ---------- */
 export interface HouseholdDoc {
   _id: Id;
@@ -178,6 +293,22 @@ export interface ApplicationInviteDoc {
   usedAt?: Date;
 }
 
+/* ---------- Conditional question logic (see lib/applications/conditions.ts) ---------- */
+export type ConditionOp =
+  | "equals" | "not_equals" | "includes" | "not_includes"
+  | "answered" | "not_answered" | "gt" | "lt";
+
+export interface QuestionCondition {
+  questionId: string;                      // the trigger question, answered by the same member
+  op: ConditionOp;
+  value?: string | number | boolean | null; // unused for answered/not_answered
+}
+
+export interface ConditionGroup {
+  match: "all" | "any";
+  conditions: QuestionCondition[];
+}
+
 /* ---------- Application forms (admin-defined templates) ---------- */
 export interface ApplicationFormDoc {
   _id: Id;
@@ -201,6 +332,9 @@ export interface ApplicationFormDoc {
     showForRoles: MemberRole[];            // who must answer
     options?: string[];                    // for select types
     validation?: { min?: number; max?: number; pattern?: string };
+    showIf?: ConditionGroup;               // hidden (and never required) unless this passes
+    requireIf?: ConditionGroup;            // required when this passes, even if `required` is false
+    sensitive?: boolean;                   // masked from reviewers while blind review is on
   }[];
   qualifications: {
     id: string;
@@ -209,14 +343,141 @@ export interface ApplicationFormDoc {
     requirement: "required" | "optional" | "conditional";
     mode: "self_upload" | "integration" | "either";
     docKind?: string;
+    /** Which screening check backs an integration; the provider itself is chosen server-side */
+    integration?: { type: ScreeningCheckType | "identity"; provider?: string };
     notes?: string;
+    requireIf?: ConditionGroup;            // "conditional" only: required when this passes, else optional
   }[];
-  version: number;
+  version: number;                         // latest published version; the head always matches it
   createdAt: Date;
   updatedAt: Date;
   createdBy?: string;
 }
 
+/** Frozen copy of a form as published; never updated after insert */
+export interface ApplicationFormVersionDoc
+  extends Pick<ApplicationFormDoc, "firmId" | "name" | "description" | "scope" | "sections" | "questions" | "qualifications" | "version"> {
+  _id: Id;                                 // "fv_…"
+  formId: string;
+  note?: string;                           // what changed, from the builder
+  publishedAt: Date;
+  publishedBy?: string;
+}
+
+/* ---------- Applicant documents (file questions + qualifications) ---------- */
+export type ApplicationDocumentStatus = "pending" | "ready" | "rejected" | "deleted";
+
+export interface ApplicationDocumentDoc {
+  _id: Id;                                 // "adoc_…"
+  applicationId: string;
+  firmId?: string;
+  userId: string;                          // member who uploaded; only they (and the firm) can see it
+  target: { kind: "question" | "qualification"; id: string };
+  docKind?: string;                        // copied from the qualification
+  fileName: string;
+  declaredType: string;                    // what the browser said
+  contentType?: string;                    // what the bytes are, set on completion
+  size: number;
+  sha256?: string;
+  metadataStripped?: boolean;
+  status: ApplicationDocumentStatus;
+  rejectReason?: "upload_missing" | "file_too_large" | "unsupported_type" | "unreadable_image";
+  uploadKey: string;                       // presigned PUT lands here, removed once processed
+  objectKey: string;                       // clean copy reviewers read
+  createdAt: Date;
+  completedAt?: Date;
+  deletedAt?: Date;
+}
+
+/* ---------- Screening integrations (see lib/applications/screening.ts) ---------- */
+export type ScreeningCheckType = "credit" | "background" | "income";
+export type ScreeningReportStatus = "requested" | "pending" | "completed" | "failed";
+
+/** FCRA authorization as the applicant gave it; never updated, a new disclosure means a new row */
+export interface ScreeningConsentDoc {
+  _id: Id;                                 // "scon_…"
+  applicationId: string;
+  firmId?: string;
+  userId: string;
+  disclosureVersion: string;
+  checks: ScreeningCheckType[];            // what the disclosure covered
+  fullName: string;                        // typed signature
+  ip?: string | null;
+  userAgent?: string | null;
+  acceptedAt: Date;
+}
+
+/** Normalized provider result; `raw` keeps whatever the provider sent */
+export interface ScreeningResult {
+  outcome: "clear" | "review" | "adverse";
+  summary: string;
+  credit?: { score: number; delinquencies: number; bankruptcies: number; collectionsCents: number };
+  background?: { criminalRecords: number; evictions: number; records: { kind: "criminal" | "eviction"; year: number; detail: string }[] };
+  income?: { monthlyIncomeCents: number; employer?: string; months: number };
+  raw?: any;
+}
+
+export interface ScreeningReportDoc {
+  _id: Id;                                 // "scr_…"
+  applicationId: string;
+  firmId?: string;
+  userId: string;                          // the applicant being screened
+  qualificationId: string;
+  check: ScreeningCheckType;
+  provider: string;
+  agency?: ConsumerReportingAgency;        // snapshot for adverse action notices
+  consentId: string;
+  externalId?: string;                     // provider's request id, set once accepted
+  status: ScreeningReportStatus;
+  result?: ScreeningResult;
+  error?: string | null;
+  events: { at: Date; status: ScreeningReportStatus; source: "request" | "webhook"; note?: string }[];
+  requestedBy: string;
+  requestedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/* ---------- Decision letters (see lib/applications/decisionLetters.ts) ---------- */
+export type DecisionLetterKind = "rejection" | "conditional_approval";
+
+/** Who supplied a consumer report, as printed on an adverse action notice */
+export interface ConsumerReportingAgency {
+  name: string;
+  address: string;
+  phone: string;
+  website?: string;
+}
+
+export interface DecisionLetter {
+  id: string;                              // "dl_…"
+  kind: DecisionLetterKind;
+  subject: string;
+  text: string;
+  html: string;
+  reasons: string[];                       // ADVERSE_ACTION_REASONS codes
+  reasonNote?: string | null;
+  conditions: string[];                    // conditional_approval only
+  /** Present when screening reports were used in the decision */
+  adverseAction?: { agencies: ConsumerReportingAgency[]; reportIds: string[] } | null;
+  firm: { name: string; logoUrl?: string | null; address?: string | null; contactEmail?: string | null; contactPhone?: string | null };
+  /**
+   * One copy per household member. A member's own credit score is disclosed only
+   * in their copy, so copies that carry one keep their own rendering.
+   */
+  recipients: {
+    email: string;
+    userId?: string | null;
+    status: "pending" | "sent" | "failed";
+    error?: string | null;
+    creditScore?: { score: number; range: string; date: Date; factors: string[] } | null;
+    html?: string;
+    text?: string;
+  }[];
+  createdAt: Date;
+  createdBy: string;
+}
+
 /* ---------- Reviews & Approvals (landlord-side) ---------- */
 export type ReviewDecision = "reject" | "recommend_approve" | "needs_info";
 
@@ -242,6 +503,76 @@ export interface ApplicationApprovalDoc {
   notes?: string;
   effective: boolean;         // only one should be true
   createdAt: Date;
+  supersededAt?: Date;        // set when a later approval became effective
+  supersededBy?: Id;
+}
+
+/* ---------- Screening scorecard ---------- */
+/** Firm-configurable scoring rules; version bumps on every save */
+export interface ScorecardCriteria {
+  version: number;
+  minIncomeToRent: number;          // household monthly income ÷ monthly rent, e.g. 3
+  countCosignerIncome: boolean;
+  incomeQuestionIds?: string[] | null; // null = currency questions labelled "income", else every currency question
+  passScore: number;                // 0–100
+  weights: { income: number; qualifications: number; answers: number; members: number };
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+export type ScoreResult = "pass" | "flag";
+
+export type ScoreFlag =
+  | "rent_unknown"
+  | "income_missing"
+  | "income_below_minimum"
+  | "missing_qualifications"
+  | "incomplete_answers"
+  | "members_not_submitted";
+
+export interface ApplicationScoreInputs {
+  monthlyRentCents: number | null;
+  rentSource: "paymentPlan" | "protoLease" | null;
+  incomeQuestionIds: string[];
+  members: {
+    userId: string;
+    role: MemberRole;
+    email: string;
+    submitted: boolean;
+    monthlyIncomeCents: number;
+    countedIncome: boolean;
+    requiredAnswered: number;
+    requiredTotal: number;
+  }[];
+  householdMonthlyIncomeCents: number;
+  qualifications: { userId: string; qualificationId: string; title: string; satisfied: boolean }[];
+}
+
+export interface ApplicationScoreDoc {
+  _id: string;                      // "scr_…"
+  firmId: Id;
+  applicationId: Id;
+  criteriaVersion: number;
+  criteria: ScorecardCriteria;      // snapshot used for this score
+  inputs: ApplicationScoreInputs;
+  components: { key: keyof ScorecardCriteria["weights"]; weight: number; value: number | null }[];
+  incomeToRent: number | null;
+  score: number;                    // 0–100
+  result: ScoreResult;
+  flags: ScoreFlag[];
+  trigger: "submit" | "view" | "recompute";
+  computedBy: string;
+  computedAt: Date;
+}
+
+export interface ApplicationScoreSummary {
+  scoreId: string;
+  score: number;
+  result: ScoreResult;
+  incomeToRent: number | null;
+  flags: ScoreFlag[];
+  criteriaVersion: number;
+  computedAt: Date;
 }
 
 /* ---------- Audit log ---------- */
@@ -254,3 +585,418 @@ export interface AuditLogDoc {
   meta?: Record<string, unknown>;
   at: Date;
 }
+
+/* ---------- Move-out deposit returns (M.G.L. c.186 § 15B(4)) ---------- */
+export type DepositDeductionKind = "unpaid_rent" | "unpaid_tax_increase" | "damage";
+
+export interface DepositEvidence {
+  id: string;
+  kind: "estimate" | "invoice" | "receipt" | "photo";
+  fileName: string;
+  objectKey: string;
+  url?: string;              // legacy rows; links are presigned from objectKey on read
+  uploadedAt: Date;
+  uploadedBy: Id;
+}
+
+export interface DepositDeduction {
+  id: string;
+  kind: DepositDeductionKind;
+  label: string;
+  amountCents: number;
+  notes?: string | null;
+  /** Move-in statement of condition item this deduction relates to, snapshotted */
+  conditionItem?: {
+    id: string;
+    room: string;
+    category: string;
+    description: string;
+    severity?: string | null;
+  } | null;
+  attachments: DepositEvidence[];
+  createdAt: Date;
+  createdBy: Id;
+}
+
+export interface DepositReturnDoc {
+  _id: Id;
+  leaseId: Id;
+  firmId: Id;
+  appId?: Id | null;
+  householdId?: Id | null;
+  status: "draft" | "finalized" | "paid";
+  moveOutDate: string | null;          // YYYY-MM-DD, tenancy actually ended
+  deadlineDate: string | null;         // moveOutDate + 30 days
+  principalCents: number;              // deposit received (succeeded deposit payments)
+  receivedDate: string | null;         // first deposit receipt, interest accrues from here
+  interest: {
+    rateHundredths: number;            // bank rate, capped at 5%
+    fromDate: string | null;
+    toDate: string | null;
+    cents: number;
+  };
+  deductions: DepositDeduction[];
+  sworn?: {
+    name: string;
+    title?: string | null;
+    at: Date;
+    ip?: string | null;
+    userAgent?: string | null;
+    userId: Id;
+  } | null;
+  payout?: {
+    method: "check" | "ach" | "stripe" | "other";
+    reference?: string | null;
+    amountCents: number;
+    paidAt: Date;
+    late: boolean;
+    recordedBy: Id;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ---------- Security deposit interest ledger (M.G.L. c.186 § 15B(3)(b)) ---------- */
+export type DepositInterestDisposition = "paid" | "credited_to_rent";
+
+/** One row per lease per completed year of tenancy, counted from deposit receipt */
+export interface DepositInterestEntryDoc {
+  _id: Id;
+  leaseId: Id;
+  firmId: Id;
+  appId?: Id | null;
+  householdId?: Id | null;
+  year: number;                        // 1 = first anniversary of receipt
+  periodStart: string;                 // YYYY-MM-DD
+  periodEnd: string;                   // YYYY-MM-DD (anniversary)
+  principalCents: number;
+  rateHundredths: number;              // rate applied, capped at 5%
+  interestCents: number;
+  bank?: {
+    name?: string | null;
+    address?: string | null;
+    accountLast4?: string | null;
+  } | null;
+  status: "accrued" | DepositInterestDisposition;
+  statementSentAt?: Date | null;
+  statementRecipients?: string[];
+  disposition?: {
+    method: DepositInterestDisposition;
+    reference?: string | null;
+    chargeKey?: string | null;         // rent line the credit was applied to
+    appliedCents?: number;
+    at: Date;
+    recordedBy: Id;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ---------- Rent autopay (saved ACH, per household member) ---------- */
+export type RentAutopayStatus = "active" | "paused" | "canceled";
+
+export interface RentAutopayDoc {
+  _id: Id;
+  leaseId: Id;
+  appId: Id;
+  firmId: Id;
+  householdId?: Id | null;
+  userId: Id;                          // the member whose bank is debited
+  email?: string | null;
+  paymentMethodId: string;             // Stripe us_bank_account PM from the user's wallet
+  stripeCustomerId: string;
+  bankLabel?: string | null;           // "Chase ••••1234"
+  mode: "full" | "share";              // full = whatever rent is still open, share = fixed amount
+  shareCents?: number | null;
+  startsOn: string;                    // YYYY-MM-DD, rent due before this isn't auto-collected
+  status: RentAutopayStatus;
+  pausedUntil?: string | null;         // YYYY-MM-DD, auto-resumes on this date
+  createdAt: Date;
+  updatedAt: Date;
+  canceledAt?: Date | null;
+}
+
+/** One row per enrollment per rent month */
+export interface RentAutopayRunDoc {
+  _id: Id;                             // `${enrollmentId}:${YYYY-MM}`
+  enrollmentId: Id;
+  leaseId: Id;
+  appId: Id;
+  firmId: Id;
+  userId: Id;
+  ym: string;                          // YYYY-MM
+  dueDate: string;                     // YYYY-MM-DD
+  status: "scheduled" | "processing" | "succeeded" | "retrying" | "failed" | "skipped";
+  amountCents?: number | null;
+  noticeSentAt?: Date | null;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  paymentIntentId?: string | null;
+  lastError?: string | null;
+  skipReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ---------- Late fees (one per late rent month) ---------- */
+export interface LateFeeAuditEntry {
+  at: Date;
+  by: string;                          // userId or "system"
+  action: "assessed" | "waived";
+  reason?: string | null;
+  meta?: Record<string, unknown>;
+}
+
+export interface LateFeeDoc {
+  _id: Id;
+  appId: Id;
+  firmId: Id;
+  leaseId?: Id | null;
+  code: string;                        // `late_fee:YYYY-MM` (fee charge line code)
+  rentCode: string;                    // `rent:YYYY-MM` (the late line)
+  rentDueDate: string;                 // YYYY-MM-DD
+  rentOpenCents: number;               // unpaid rent when assessed
+  daysLate: number;
+  amountCents: number;
+  policy: Pick<LateFeePolicy, "graceDays" | "kind" | "flatCents" | "percentHundredths" | "maxCents">;
+  assessedOn: string;                  // YYYY-MM-DD
+  status: "assessed" | "waived";
+  waiver?: { reason: string; by: string; at: Date } | null;
+  audit: LateFeeAuditEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ---------- Ledger (double-entry journal, one entry per posting) ---------- */
+export type LedgerBucket = "operating" | "deposit";
+
+export type LedgerAccount =
+  | "receivable"                       // owed by the household, per charge line
+  | "income"                           // operating charges (rent, key fee, late fees)
+  | "deposit_liability"                // security deposit held in escrow
+  | "cash_pending"                     // ACH initiated, not yet settled
+  | "cash"                             // settled funds
+  | "waived"                           // charges the landlord forgave
+  | "credits";                         // non-cash credits (deposit interest applied to rent)
+
+export type LedgerEntryKind =
+  | "charge"
+  | "charge_adjustment"
+  | "payment_pending"
+  | "payment_settled"
+  | "payment_reversed"                 // failed/canceled before settling
+  | "payment_returned"                 // ACH return or dispute after settling
+  | "payment_reinstated"               // dispute won, funds back
+  | "refund"                           // refunded outside the app; the lines reopen
+  | "refund_issued"                    // landlord refund; the charge shrinks instead
+  | "waiver"
+  | "credit";
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  chargeKey: string | null;            // `${appId}:${bucket}:${code}` (or `…:unapplied`)
+  debitCents: number;
+  creditCents: number;
+}
+
+export interface LedgerEntryDoc {
+  _id: Id;                             // "jrnl_…"
+  sourceKey: string;                   // unique; what made this posting (idempotency)
+  appId: Id;
+  firmId: Id;
+  leaseId?: Id | null;
+  bucket: LedgerBucket;
+  kind: LedgerEntryKind;
+  paymentId?: Id | null;
+  paymentKind?: "upfront" | "deposit" | "rent" | "fee" | null;
+  lines: LedgerLine[];                 // Σ debits === Σ credits
+  memo?: string | null;
+  createdAt: Date;
+  createdBy: string;                   // userId or "system"
+}
+
+/** A refund a firm admin issued from the payments screen (payments.refunds[]) */
+export interface PaymentRefund {
+  id: Id;                              // "rfnd_…"; also the Stripe idempotency key
+  amountCents: number;
+  reason: string;
+  status: "pending" | "succeeded" | "failed";
+  stripeRefundId?: string | null;
+  error?: string | null;
+  by: string;                          // userId
+  at: Date;
+  receiptSentAt?: Date | null;
+}
+
+/* ---------- Stripe webhook event store ---------- */
+export type StripeEventStatus = "received" | "processing" | "processed" | "failed" | "dead";
+
+export interface StripeEventAttempt {
+  at: Date;
+  trigger: "webhook" | "retry" | "replay";
+  by: string;                          // userId for replays, else "system"
+  ok: boolean;
+  note?: string | null;                // handler outcome ("unmatched_payment", "reversal_noop", …)
+  error?: string | null;
+  durationMs: number;
+}
+
+export interface StripeEventDoc {
+  _id: string;                         // Stripe event id ("evt_…"); dedupes redeliveries
+  type: string;
+  livemode: boolean;
+  stripeCreatedAt: Date;
+  payload: any;                        // the full event as delivered
+  status: StripeEventStatus;
+  attempts: number;
+  history: StripeEventAttempt[];       // most recent last, capped
+  lastError?: string | null;
+  nextAttemptAt?: Date | null;         // set while waiting to retry
+  lockedUntil?: Date | null;           // claimed by a worker until then
+  receivedAt: Date;
+  deliveries: number;                  // how many times Stripe sent it
+  processedAt?: Date | null;
+  updatedAt: Date;
+}
+
+/** An event that ran out of retries; kept until someone replays it */
+export interface StripeDeadLetterDoc {
+  _id: string;                         // same as the event id
+  type: string;
+  payload: any;
+  attempts: number;
+  lastError: string | null;
+  deadAt: Date;
+  resolvedAt?: Date | null;            // replayed successfully
+  resolvedBy?: string | null;
+}
+
+/* ---------- Lease e-signing ---------- */
+export type SignatureMethod = "typed" | "drawn";
+
+export interface LeaseSignature {
+  method: SignatureMethod;
+  typedName?: string | null;
+  imageDataUrl?: string | null;        // PNG data URL from the signing pad
+  ip: string | null;
+  userAgent: string | null;
+  signedAt: Date;
+}
+
+export interface LeaseSigner {
+  id: Id;                              // "sgn_…"
+  role: "tenant" | "landlord";
+  userId?: Id | null;
+  name: string;
+  email: string;
+  order: number;                       // tenants sign first (1), then the landlord (2)
+  tokenHash?: string | null;           // sha256 of the emailed link token; set when invited
+  invitedAt?: Date | null;
+  viewedAt?: Date | null;
+  consentedAt?: Date | null;
+  signature?: LeaseSignature | null;
+}
+
+/** A landlord document as it was when sent, hashed so the certificate pins the exact file */
+export interface LeaseSignatureDocument {
+  id: Id;                              // landlord_documents id
+  title: string;
+  fileName?: string | null;
+  objectKey: string;
+  contentType: string;
+  sha256: string | null;
+}
+
+export interface LeaseSignatureEvent {
+  at: Date;
+  type: "created" | "invited" | "viewed" | "consented" | "signed" | "completed" | "voided";
+  signerId?: Id | null;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface LeaseSignatureEnvelopeDoc {
+  _id: Id;                             // "env_…"; also the certificate id
+  firmId: Id;
+  appId: Id;
+  leaseId: Id;
+  premises: string;
+  status: "out_for_signature" | "completed" | "voided";
+  signers: LeaseSigner[];
+  documents: LeaseSignatureDocument[];
+  events: LeaseSignatureEvent[];       // audit trail for the certificate
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date | null;
+}
+
+/* ---------- Lease templates ---------- */
+/** Firm-authored lease HTML with {{merge_field}} placeholders, rendered to PDF per lease */
+export interface LeaseTemplateDoc {
+  _id: Id;                             // "ltpl_…"
+  firmId: Id;
+  name: string;
+  html: string;
+  fields: string[];                    // merge fields the html uses
+  archived: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedBy?: string | null;
+  updatedAt: Date;
+}
+
+/* ---------- Application state transitions ---------- */
+/** One row per status change, written by lib/applications/transitions */
+export interface ApplicationTransitionDoc {
+  _id: string;                         // "tr_…"
+  appId: string;
+  firmId?: string | null;
+  from: AppStatus | null;              // null when a forced change left an unrecognised status
+  to: AppStatus;
+  storedFrom: string | null;           // the raw value replaced (legacy statuses differ from `from`)
+  action: Action | "force";
+  role: Role | "app_admin";
+  actorUserId: string;                 // user id or "system"
+  guard: Record<string, unknown>;      // the GuardContext computeNextState saw
+  reason?: string | null;              // required when forced
+  at: Date;
+}
+
+/* ---------- Background jobs ---------- */
+export type JobRunStatus = "running" | "succeeded" | "failed" | "abandoned";
+export type JobTrigger = "schedule" | "retry" | "manual";
+
+/** One row per registered job; the row doubles as the job's lock */
+export interface JobDoc {
+  _id: string;                         // job name ("tick_clock", …)
+  description: string;
+  schedule: string;                    // 5-field cron, UTC
+  enabled: boolean;
+  nextRunAt: Date;
+  attempts: number;                    // consecutive failures of the current run
+  lockedBy?: string | null;            // worker id while running
+  lockedUntil?: Date | null;           // heartbeat-extended; a dead worker's lock lapses
+  lastRunAt?: Date | null;
+  lastFinishedAt?: Date | null;
+  lastStatus?: Exclude<JobRunStatus, "running" | "abandoned"> | null;
+  lastError?: string | null;
+  runRequestedAt?: Date | null;        // "run now" from the admin console
+  runRequestedBy?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobRunDoc {
+  _id: string;                         // "jr_…"
+  job: string;
+  trigger: JobTrigger;
+  attempt: number;
+  workerId: string;
+  status: JobRunStatus;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+  startedAt: Date;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+}
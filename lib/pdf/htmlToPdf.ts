@@ -0,0 +1,333 @@
+// lib/pdf/htmlToPdf.ts
+// Small, dependency-free HTML → PDF for generated documents (lease templates).
+// Understands the subset a lease needs: h1–h3, p/div, ul/ol/li, br, hr,
+// b/strong inline, and table rows (cells laid out left to right). Everything
+// is set in the standard Helvetica faces, so there is nothing to embed.
+
+type Run = { text: string; bold: boolean };
+type BlockKind = "h1" | "h2" | "h3" | "p" | "li" | "tr" | "hr";
+type Block = { kind: BlockKind; runs: Run[]; marker?: string };
+
+/* ---------- Helvetica metrics (AFM widths, 1/1000 em) for 32–126 ---------- */
+// prettier-ignore
+const HELV = [
+  278,278,355,556,556,889,667,191,333,333,389,584,278,333,278,278,556,556,556,556,556,556,556,556,556,556,
+  278,278,584,584,584,556,1015,667,667,722,722,667,611,778,722,278,500,667,556,833,722,778,667,778,722,667,
+  611,722,667,944,667,667,611,278,278,278,469,556,333,556,556,500,556,556,278,556,556,222,222,500,222,833,
+  556,556,556,556,333,500,278,556,500,722,500,500,500,334,260,334,584,
+];
+// prettier-ignore
+const HELV_BOLD = [
+  278,333,474,556,556,889,722,238,333,333,389,584,278,333,278,278,556,556,556,556,556,556,556,556,556,556,
+  333,333,584,584,584,611,975,722,722,722,722,667,611,778,722,278,556,722,611,833,722,778,667,778,722,667,
+  611,722,667,944,667,667,611,333,278,333,584,556,333,556,611,556,611,556,333,611,611,278,278,556,278,889,
+  611,611,611,611,389,556,333,611,556,778,556,556,500,389,280,389,584,
+];
+
+/** Unicode → WinAnsi for the punctuation that shows up in pasted lease text */
+const WIN_ANSI: Record<string, number> = {
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "…": 0x85, "€": 0x80, "™": 0x99,
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“",
+  ndash: "–", mdash: "—", hellip: "…", bull: "•", sect: "§", copy: "©", reg: "®", trade: "™",
+};
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+function charWidth(ch: string, bold: boolean) {
+  const c = ch.charCodeAt(0);
+  const table = bold ? HELV_BOLD : HELV;
+  return c >= 32 && c <= 126 ? table[c - 32] : 556;
+}
+
+function textWidth(s: string, bold: boolean, size: number) {
+  let w = 0;
+  for (const ch of s) w += charWidth(ch, bold);
+  return (w * size) / 1000;
+}
+
+/** PDF literal string, WinAnsi-encoded, kept 7-bit by octal-escaping the rest */
+function pdfString(s: string) {
+  let out = "";
+  for (const ch of s) {
+    let c = ch.codePointAt(0)!;
+    if (WIN_ANSI[ch] != null) c = WIN_ANSI[ch];
+    else if (c > 255 || (c >= 127 && c < 160)) c = 63; // "?"
+    if (c === 40 || c === 41 || c === 92) out += "\\" + ch;
+    else if (c < 32 || c > 126) out += "\\" + c.toString(8).padStart(3, "0");
+    else out += ch;
+  }
+  return `(${out})`;
+}
+
+/* ---------- HTML → blocks ---------- */
+function parseBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  let cur: Block | null = null;
+  let bold = 0;
+  let skip = 0;
+  const lists: Array<{ ordered: boolean; n: number }> = [];
+
+  const flush = () => {
+    if (cur && cur.runs.some((r) => r.text.trim())) blocks.push(cur);
+    cur = null;
+  };
+  const open = (kind: BlockKind, marker?: string) => {
+    flush();
+    cur = { kind, runs: [], marker };
+  };
+  const push = (text: string) => {
+    if (!cur) cur = { kind: "p", runs: [] };
+    const last = cur.runs[cur.runs.length - 1];
+    const isBold = bold > 0 || cur.kind === "h1" || cur.kind === "h2" || cur.kind === "h3";
+    if (last && last.bold === isBold) last.text += text;
+    else cur.runs.push({ text, bold: isBold });
+  };
+
+  const re = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z0-9]+)[^>]*?(\/?)>|([^<]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    if (m[4] != null) {
+      if (!skip) push(decodeEntities(m[4]).replace(/\s+/g, " "));
+      continue;
+    }
+    if (!m[2]) continue; // comment
+    const closing = m[1] === "/";
+    const tag = m[2].toLowerCase();
+
+    if (tag === "style" || tag === "script" || tag === "head" || tag === "title") {
+      skip += closing ? -1 : 1;
+      continue;
+    }
+    if (skip) continue;
+
+    switch (tag) {
+      case "b":
+      case "strong":
+      case "th":
+        bold = Math.max(0, bold + (closing ? -1 : 1));
+        if (tag === "th" && closing) push("    ");
+        break;
+      case "h1":
+      case "h2":
+      case "h3":
+        if (closing) flush();
+        else open(tag);
+        break;
+      case "h4":
+      case "h5":
+      case "h6":
+        if (closing) {
+          bold = Math.max(0, bold - 1);
+          flush();
+        } else {
+          open("p");
+          bold++;
+        }
+        break;
+      case "p":
+      case "div":
+      case "section":
+      case "blockquote":
+        flush();
+        break;
+      case "ul":
+      case "ol":
+        flush();
+        if (closing) lists.pop();
+        else lists.push({ ordered: tag === "ol", n: 0 });
+        break;
+      case "li":
+        if (closing) flush();
+        else {
+          const l = lists[lists.length - 1];
+          if (l) l.n++;
+          open("li", l?.ordered ? `${l.n}.` : "•");
+        }
+        break;
+      case "tr":
+        if (closing) flush();
+        else open("tr");
+        break;
+      case "td":
+        if (closing) push("    ");
+        break;
+      case "br":
+        push("\n");
+        break;
+      case "hr":
+        flush();
+        blocks.push({ kind: "hr", runs: [] });
+        break;
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/* ---------- layout ---------- */
+const PAGE_W = 612; // US Letter
+const PAGE_H = 792;
+const MARGIN = 72;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+
+const STYLE: Record<BlockKind, { size: number; lead: number; before: number; after: number; indent: number }> = {
+  h1: { size: 16, lead: 21, before: 6, after: 8, indent: 0 },
+  h2: { size: 13, lead: 17, before: 8, after: 4, indent: 0 },
+  h3: { size: 11.5, lead: 15, before: 6, after: 3, indent: 0 },
+  p: { size: 10.5, lead: 14.5, before: 0, after: 6, indent: 0 },
+  li: { size: 10.5, lead: 14.5, before: 0, after: 3, indent: 18 },
+  tr: { size: 10, lead: 13.5, before: 0, after: 3, indent: 0 },
+  hr: { size: 0, lead: 0, before: 4, after: 8, indent: 0 },
+};
+
+type Word = { text: string; bold: boolean; newline?: boolean };
+type Seg = { x: number; text: string; bold: boolean };
+type Line = { y: number; size: number; segs: Seg[] };
+type Page = { lines: Line[]; rules: number[] };
+
+function wordsOf(runs: Run[]): Word[] {
+  const out: Word[] = [];
+  for (const r of runs) {
+    for (const part of r.text.split(/(\n| )/)) {
+      if (part === "\n") out.push({ text: "", bold: r.bold, newline: true });
+      else if (part && part !== " ") out.push({ text: part, bold: r.bold });
+    }
+  }
+  return out;
+}
+
+function layout(blocks: Block[]): Page[] {
+  const pages: Page[] = [{ lines: [], rules: [] }];
+  let y = PAGE_H - MARGIN;
+  const bottom = MARGIN + 24; // room for the footer
+
+  const newPage = () => {
+    pages.push({ lines: [], rules: [] });
+    y = PAGE_H - MARGIN;
+  };
+
+  for (const b of blocks) {
+    const st = STYLE[b.kind];
+    if (b.kind === "hr") {
+      y -= st.before;
+      if (y < bottom) newPage();
+      pages[pages.length - 1].rules.push(y);
+      y -= st.after;
+      continue;
+    }
+
+    y -= st.before;
+    const x0 = MARGIN + st.indent;
+    const maxW = CONTENT_W - st.indent;
+    const space = (bold: boolean) => textWidth(" ", bold, st.size);
+
+    let line: Seg[] = [];
+    let x = 0;
+    const emit = () => {
+      if (y - st.lead < bottom) newPage();
+      y -= st.lead;
+      pages[pages.length - 1].lines.push({ y, size: st.size, segs: line });
+      line = [];
+      x = 0;
+    };
+
+    if (b.marker) line.push({ x: MARGIN + st.indent - textWidth(b.marker, false, st.size) - 6, text: b.marker, bold: false });
+
+    for (const w of wordsOf(b.runs)) {
+      if (w.newline) {
+        emit();
+        continue;
+      }
+      const ww = textWidth(w.text, w.bold, st.size);
+      const gap = x > 0 ? space(w.bold) : 0;
+      if (x > 0 && x + gap + ww > maxW) emit();
+      const prev = line[line.length - 1];
+      const lead = x > 0 ? space(w.bold) : 0;
+      // Same-font words on one line share a segment
+      if (prev && x > 0 && prev.bold === w.bold && prev.x >= x0) prev.text += " " + w.text;
+      else line.push({ x: x0 + x + lead, text: w.text, bold: w.bold });
+      x += lead + ww;
+    }
+    if (line.length) emit();
+    y -= st.after;
+  }
+  return pages;
+}
+
+/* ---------- PDF serialization ---------- */
+function contentStream(page: Page, n: number, total: number, footer: string | null) {
+  const ops: string[] = [];
+  for (const r of page.rules) ops.push(`0.8 G 0.5 w ${MARGIN} ${r.toFixed(2)} m ${PAGE_W - MARGIN} ${r.toFixed(2)} l S 0 G`);
+  ops.push("BT");
+  for (const l of page.lines) {
+    for (const s of l.segs) {
+      ops.push(`/${s.bold ? "F2" : "F1"} ${l.size} Tf 1 0 0 1 ${s.x.toFixed(2)} ${l.y.toFixed(2)} Tm ${pdfString(s.text)} Tj`);
+    }
+  }
+  const foot = `${footer ? `${footer} · ` : ""}Page ${n} of ${total}`;
+  const fw = textWidth(foot, false, 8);
+  ops.push(`/F1 8 Tf 0.4 g 1 0 0 1 ${((PAGE_W - fw) / 2).toFixed(2)} ${MARGIN / 2} Tm ${pdfString(foot)} Tj 0 g`);
+  ops.push("ET");
+  return ops.join("\n");
+}
+
+/**
+ * Render an HTML fragment or document to a PDF buffer.
+ * `title` goes into the document info; `footer` is printed on every page next to the page number.
+ */
+export function htmlToPdf(html: string, opts: { title?: string; footer?: string | null } = {}): Buffer {
+  const pages = layout(parseBlocks(html));
+  const objs: string[] = [];
+  const add = (body: string) => {
+    objs.push(body);
+    return objs.length; // object number
+  };
+
+  const catalog = add(""); // filled in once the page tree exists
+  const pagesObj = add("");
+  const f1 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const f2 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const info = add(
+    `<< /Title ${pdfString(opts.title || "Document")} /Producer (MILO) /CreationDate (D:${new Date()
+      .toISOString()
+      .replace(/[-:T]/g, "")
+      .slice(0, 14)}Z) >>`
+  );
+
+  const kids: number[] = [];
+  pages.forEach((p, i) => {
+    const stream = contentStream(p, i + 1, pages.length, opts.footer ?? null);
+    const content = add(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+    kids.push(
+      add(
+        `<< /Type /Page /Parent ${pagesObj} 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+          `/Resources << /Font << /F1 ${f1} 0 R /F2 ${f2} 0 R >> >> /Contents ${content} 0 R >>`
+      )
+    );
+  });
+  objs[catalog - 1] = `<< /Type /Catalog /Pages ${pagesObj} 0 R >>`;
+  objs[pagesObj - 1] = `<< /Type /Pages /Kids [${kids.map((k) => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objs.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objs.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objs.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
@@ -0,0 +1,85 @@
+// lib/properties/address.ts
+// US street address normalization for the property inventory. Two spellings of
+// the same building ("12 Main Street, Apt 3" / "12 MAIN ST #3") reduce to the
+// same key, so leases and applications land on one property record.
+import type { PropertyAddress } from "@/lib/models";
+
+/** USPS street suffix and directional abbreviations (the common ones) */
+const STREET_WORDS: Record<string, string> = {
+  avenue: "ave", av: "ave", boulevard: "blvd", circle: "cir", court: "ct", drive: "dr",
+  expressway: "expy", highway: "hwy", lane: "ln", parkway: "pkwy", place: "pl", plaza: "plz",
+  road: "rd", square: "sq", street: "st", str: "st", terrace: "ter", trail: "trl", way: "way",
+  north: "n", south: "s", east: "e", west: "w",
+  northeast: "ne", northwest: "nw", southeast: "se", southwest: "sw",
+};
+
+/** Unit designators that sometimes end up on line 1 ("12 Main St Apt 3") */
+const UNIT_DESIGNATOR = /\s*(?:,\s*)?(?:#|\b(?:apt|apartment|unit|ste|suite|fl|floor|rm|room)\b\.?)\s*([a-z0-9-]+)\s*$/i;
+
+const collapse = (s: string) => s.replace(/\s+/g, " ").trim();
+
+/**
+ * Tidy a building address for storage: trimmed, state upper-cased, ZIP cut to
+ * five digits, and a trailing unit designator on line 1 split out.
+ * Returns the unit found on line 1 (if any) so callers can use it as the unit number.
+ */
+export function normalizeAddress(raw: any): { address: PropertyAddress; unitFromLine1: string | null } {
+  let line1 = collapse(String(raw?.line1 ?? raw?.addressLine1 ?? ""));
+  let unitFromLine1: string | null = null;
+  const m = line1.match(UNIT_DESIGNATOR);
+  if (m && m.index && m.index > 0) {
+    unitFromLine1 = m[1].toUpperCase();
+    line1 = line1.slice(0, m.index).replace(/,\s*$/, "").trim();
+  }
+  const line2 = collapse(String(raw?.line2 ?? raw?.addressLine2 ?? "")) || null;
+  const zip = String(raw?.zip ?? raw?.postalCode ?? "").trim().match(/^\d{5}/)?.[0] ?? String(raw?.zip ?? raw?.postalCode ?? "").trim();
+
+  return {
+    address: {
+      line1,
+      line2,
+      city: collapse(String(raw?.city ?? "")),
+      state: String(raw?.state ?? "").trim().toUpperCase(),
+      zip,
+      country: String(raw?.country ?? "US").trim().toUpperCase() || "US",
+    },
+    unitFromLine1,
+  };
+}
+
+/** Dedupe key: street line with abbreviated suffixes and directionals, plus ZIP */
+export function addressKey(address: Pick<PropertyAddress, "line1" | "zip" | "city" | "state">) {
+  const street = address.line1
+    .toLowerCase()
+    .replace(/[.,#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => STREET_WORDS[w] ?? w)
+    .join(" ");
+  // ZIP identifies the area; without one fall back to city + state
+  const area = address.zip || `${address.city.toLowerCase().trim()},${address.state.toLowerCase().trim()}`;
+  return `${street}|${area}`;
+}
+
+/** "3B", "apt 3b", "#3B" and "Unit 3-B" all key as "3b" */
+export function unitKey(unitNumber: string | null | undefined) {
+  return String(unitNumber ?? "")
+    .toLowerCase()
+    .replace(/^\s*(?:#|apt\.?|apartment|unit|ste\.?|suite)\s*/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/** Display line: "12 Main St, Boston, MA 02118" */
+export function formatAddress(a: PropertyAddress) {
+  return [a.line1, a.line2, `${a.city}, ${a.state} ${a.zip}`.trim()].filter(Boolean).join(", ");
+}
+
+/** Problems with an address as entered, empty when it can be saved */
+export function addressErrors(a: PropertyAddress) {
+  const errs: string[] = [];
+  if (!a.line1) errs.push("line1");
+  if (!a.city) errs.push("city");
+  if (!/^[A-Z]{2}$/.test(a.state)) errs.push("state");
+  if (!/^\d{5}$/.test(a.zip)) errs.push("zip");
+  return errs;
+}
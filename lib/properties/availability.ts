@@ -0,0 +1,223 @@
+// lib/properties/availability.ts
+// Per-unit availability. A unit is taken for a date range by a live lease in
+// unit_leases (moveInDate → moveOutDate) or by an application holding it
+// (locks.holding, or an open holding_requests row) for its planned dates.
+// Ranges are half-open [start, end): a move-out day is free for the next
+// move-in. A missing end means open-ended.
+// Writers check and write under the unit's claim (withUnitClaim).
+import crypto from "crypto";
+import type { Db } from "mongodb";
+
+export type AvailabilityKind = "lease" | "hold";
+
+export type AvailabilityWindow = {
+  kind: AvailabilityKind;
+  unitId: string;
+  start: string; // YYYY-MM-DD
+  end: string | null; // exclusive; null = open-ended
+  leaseId: string | null;
+  appId: string | null;
+  status: string;
+};
+
+export type CalendarSegment = {
+  kind: "occupied" | "held" | "vacant";
+  start: string;
+  end: string; // exclusive, clipped to the requested range
+  leaseId: string | null;
+  appId: string | null;
+};
+
+const OPEN_END = "9999-12-31";
+const LIVE_LEASE_STATUSES = ["scheduled", "active"];
+// Applications in these states no longer hold anything
+const RELEASED_APP_STATUSES = ["rejected", "withdrawn", "waitlisted", "moved_out", "leased", "canceled", "cancelled"];
+const DEFAULT_TERM_MONTHS = 12;
+// Long enough for a conflict check and the writes after it; lapses if the route dies
+const UNIT_CLAIM_MS = 30_000;
+
+const isDuplicateKey = (e: any) => e?.code === 11000;
+
+export const isYmd = (s: unknown): s is string => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+export function addMonthsYmd(ymd: string, months: number) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  dt.setUTCMonth(dt.getUTCMonth() + months);
+  return dt.toISOString().slice(0, 10);
+}
+
+export function rangesOverlap(a: { start: string; end: string | null }, b: { start: string; end: string | null }) {
+  return a.start < (b.end ?? OPEN_END) && b.start < (a.end ?? OPEN_END);
+}
+
+/** Planned dates an application would hold a unit for, from its payment plan or lease setup */
+export function holdRangeOf(app: any): { start: string; end: string } | null {
+  const start = app?.paymentPlan?.startDate || app?.protoLease?.moveInDate;
+  if (!isYmd(start)) return null;
+  const term = Number(app?.paymentPlan?.termMonths ?? app?.protoLease?.termMonths ?? DEFAULT_TERM_MONTHS);
+  return { start, end: addMonthsYmd(start, Number.isFinite(term) && term > 0 ? term : DEFAULT_TERM_MONTHS) };
+}
+
+/**
+ * Lease and hold windows for the given units, keyed by unitId. `excludeAppId`
+ * drops windows belonging to that application (its own hold or lease), so an
+ * application never conflicts with itself. Ended leases are only included
+ * when asked for, which the calendar does to show past occupancy.
+ */
+export async function unitWindows(
+  db: Db,
+  firmId: string,
+  unitIds: string[],
+  opts: { excludeAppId?: string | null; excludeLeaseId?: string | null; includeEnded?: boolean } = {}
+) {
+  const out = new Map<string, AvailabilityWindow[]>(unitIds.map((id) => [id, []]));
+  if (!unitIds.length) return out;
+
+  const leases = await db
+    .collection<any>("unit_leases")
+    .find(
+      {
+        firmId,
+        unitId: { $in: unitIds },
+        status: { $in: opts.includeEnded ? [...LIVE_LEASE_STATUSES, "ended"] : LIVE_LEASE_STATUSES },
+      },
+      { projection: { _id: 1, appId: 1, unitId: 1, status: 1, moveInDate: 1, moveOutDate: 1 } }
+    )
+    .toArray();
+
+  const leasedApps = new Set<string>();
+  for (const l of leases) {
+    const appId = l.appId ? String(l.appId) : null;
+    if (appId) leasedApps.add(appId);
+    if (!isYmd(l.moveInDate)) continue;
+    if (opts.excludeLeaseId && String(l._id) === opts.excludeLeaseId) continue;
+    if (opts.excludeAppId && appId === opts.excludeAppId) continue;
+    out.get(String(l.unitId))?.push({
+      kind: "lease",
+      unitId: String(l.unitId),
+      start: l.moveInDate,
+      end: isYmd(l.moveOutDate) ? l.moveOutDate : null,
+      leaseId: String(l._id),
+      appId,
+      status: String(l.status),
+    });
+  }
+
+  const candidates = await db
+    .collection<any>("applications")
+    .find(
+      { unitId: { $in: unitIds }, status: { $nin: RELEASED_APP_STATUSES } },
+      { projection: { _id: 1, unitId: 1, status: 1, locks: 1, paymentPlan: 1, protoLease: 1 } }
+    )
+    .toArray();
+  const pending = candidates.filter((a) => !leasedApps.has(String(a._id)));
+  const requested = pending.length
+    ? await db
+        .collection<any>("holding_requests")
+        .find(
+          { firmId, appId: { $in: pending.map((a) => String(a._id)) }, status: { $in: ["pending", "paid"] } },
+          { projection: { appId: 1, status: 1 } }
+        )
+        .toArray()
+    : [];
+  const requestByApp = new Map(requested.map((h: any) => [String(h.appId), String(h.status)]));
+
+  const now = Date.now();
+  for (const a of pending) {
+    const appId = String(a._id);
+    if (opts.excludeAppId && appId === opts.excludeAppId) continue;
+    const lock = a.locks?.holding;
+    const lockActive = !!lock?.active && (!lock.until || new Date(lock.until).getTime() > now);
+    const request = requestByApp.get(appId);
+    if (!lockActive && !request) continue;
+    const range = holdRangeOf(a);
+    if (!range) continue;
+    out.get(String(a.unitId))?.push({
+      kind: "hold",
+      unitId: String(a.unitId),
+      ...range,
+      leaseId: null,
+      appId,
+      status: request === "paid" ? "paid" : "pending",
+    });
+  }
+
+  for (const list of out.values()) list.sort((x, y) => x.start.localeCompare(y.start));
+  return out;
+}
+
+/** First live lease or hold on the unit overlapping [start, end), or null when the dates are free */
+export async function findUnitConflict(
+  db: Db,
+  input: {
+    firmId: string;
+    unitId: string;
+    start: string;
+    end: string | null;
+    appId?: string | null;
+    leaseId?: string | null;
+  }
+) {
+  const windows = await unitWindows(db, input.firmId, [input.unitId], {
+    excludeAppId: input.appId ?? null,
+    excludeLeaseId: input.leaseId ?? null,
+  });
+  return (windows.get(input.unitId) ?? []).find((w) => rangesOverlap(w, input)) ?? null;
+}
+
+/**
+ * Run `fn` holding the unit's booking claim, so that checking the unit is free
+ * and writing the lease or hold that takes it can't interleave with another
+ * request doing the same. The claim is a unit_claims row keyed by unitId: a
+ * live one makes the upsert miss its filter and collide on _id. Returns
+ * unit_busy when someone else holds it; routes answer 409.
+ */
+export async function withUnitClaim<T>(
+  db: Db,
+  unitId: string,
+  fn: () => Promise<T>
+): Promise<{ ok: true; value: T } | { ok: false; error: "unit_busy" }> {
+  const claims = db.collection<{ _id: string; by: string; until: Date }>("unit_claims");
+  const by = crypto.randomBytes(8).toString("hex");
+  const now = new Date();
+  try {
+    await claims.updateOne(
+      { _id: unitId, until: { $lt: now } },
+      { $set: { by, until: new Date(now.getTime() + UNIT_CLAIM_MS) } },
+      { upsert: true }
+    );
+  } catch (e) {
+    if (!isDuplicateKey(e)) throw e;
+    return { ok: false, error: "unit_busy" };
+  }
+  try {
+    return { ok: true, value: await fn() };
+  } finally {
+    await claims.deleteOne({ _id: unitId, by }).catch(() => {});
+  }
+}
+
+/** The wire shape routes return with a 409 unit_unavailable */
+export function conflictToWire(w: AvailabilityWindow) {
+  return { kind: w.kind, start: w.start, end: w.end, leaseId: w.leaseId, appId: w.appId, status: w.status };
+}
+
+/**
+ * Occupied, held and vacant stretches covering [from, to). Overlapping
+ * windows (legacy double bookings) are emitted as-is so they stay visible.
+ */
+export function calendarSegments(windows: AvailabilityWindow[], from: string, to: string): CalendarSegment[] {
+  const out: CalendarSegment[] = [];
+  let cursor = from;
+  for (const w of [...windows].sort((x, y) => x.start.localeCompare(y.start))) {
+    const start = w.start > from ? w.start : from;
+    const end = (w.end ?? OPEN_END) < to ? (w.end as string) : to;
+    if (end <= start) continue;
+    if (start > cursor) out.push({ kind: "vacant", start: cursor, end: start, leaseId: null, appId: null });
+    out.push({ kind: w.kind === "lease" ? "occupied" : "held", start, end, leaseId: w.leaseId, appId: w.appId });
+    if (end > cursor) cursor = end;
+  }
+  if (cursor < to) out.push({ kind: "vacant", start: cursor, end: to, leaseId: null, appId: null });
+  return out;
+}
@@ -0,0 +1,374 @@
+// lib/properties/inventory.ts
+// Property and unit inventory. Buildings are deduplicated per firm on a
+// normalized address key; units on a normalized unit number per building.
+// Leases (unit_leases) and applications carry propertyId/unitId once linked,
+// which is what occupancy and per-unit history read from.
+import crypto from "crypto";
+import { ObjectId, type Db } from "mongodb";
+import type { PropertyDoc, UnitDoc } from "@/lib/models";
+import { loadBlindReview, maskedFields, memberAliases } from "@/lib/applications/blindReview";
+import { addressErrors, addressKey, formatAddress, normalizeAddress, unitKey } from "./address";
+import { idEq } from "@/lib/ids";
+
+export const MAX_AMENITIES = 30;
+export const MAX_PHOTOS = 20;
+export const MAX_PROPERTIES_LISTED = 500;
+export const MAX_UNITS_LISTED = 2000;
+
+export type Occupancy = "occupied" | "upcoming" | "vacant";
+
+const str = (v: any) => (typeof v === "string" ? v.trim() : "");
+const newId = (prefix: string) => `${prefix}_${crypto.randomBytes(9).toString("base64url")}`;
+const isDuplicateKey = (e: any) => e?.code === 11000;
+
+/* ---------- validation ---------- */
+
+export function validatePropertyInput(body: any) {
+  const { address } = normalizeAddress(body?.address ?? body);
+  const bad = addressErrors(address);
+  if (bad.length) return { ok: false as const, error: "invalid_address", fields: bad };
+  const name = str(body?.name).slice(0, 120) || address.line1;
+  return { ok: true as const, name, address, addressKey: addressKey(address) };
+}
+
+const optNumber = (v: any, max: number, integer = false) => {
+  if (v === null || v === "") return { ok: true as const, value: null };
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0 || n > max || (integer && !Number.isInteger(n))) return { ok: false as const };
+  return { ok: true as const, value: n };
+};
+
+/**
+ * Unit attributes from a request body. Only keys present in the body are
+ * returned, so the same function serves create and partial update.
+ */
+export function validateUnitInput(body: any) {
+  const out: Partial<Pick<UnitDoc, "unitNumber" | "unitKey" | "beds" | "baths" | "sqft" | "rentCents" | "amenities">> = {};
+
+  if (body?.unitNumber !== undefined) {
+    const unitNumber = str(body.unitNumber).slice(0, 20);
+    out.unitNumber = unitNumber;
+    out.unitKey = unitKey(unitNumber);
+  }
+  const numeric: Array<[key: "beds" | "baths" | "sqft" | "rentCents", max: number, integer: boolean]> = [
+    ["beds", 20, true],
+    ["baths", 20, false],
+    ["sqft", 100_000, true],
+    ["rentCents", 100_000_00, true],
+  ];
+  for (const [key, max, integer] of numeric) {
+    if (body?.[key] === undefined) continue;
+    const v = optNumber(body[key], max, integer);
+    if (!v.ok) return { ok: false as const, error: `invalid_${key}` };
+    out[key] = v.value;
+  }
+  if (out.baths != null && (out.baths * 2) % 1 !== 0) return { ok: false as const, error: "invalid_baths" };
+
+  if (body?.amenities !== undefined) {
+    if (!Array.isArray(body.amenities)) return { ok: false as const, error: "invalid_amenities" };
+    const seen = new Set<string>();
+    out.amenities = [];
+    for (const a of body.amenities) {
+      const label = str(a).slice(0, 60);
+      if (!label || seen.has(label.toLowerCase())) continue;
+      seen.add(label.toLowerCase());
+      out.amenities.push(label);
+    }
+    if (out.amenities.length > MAX_AMENITIES) return { ok: false as const, error: "too_many_amenities" };
+  }
+  return { ok: true as const, fields: out };
+}
+
+/* ---------- wire shapes ---------- */
+
+export function propertyToWire(p: PropertyDoc) {
+  return {
+    id: p._id,
+    name: p.name,
+    address: p.address,
+    addressLine: formatAddress(p.address),
+    archived: !!p.archived,
+    updatedAt: p.updatedAt,
+  };
+}
+
+export function unitToWire(u: UnitDoc, occupancy?: { status: Occupancy; leaseId: string | null; until: string | null }) {
+  return {
+    id: u._id,
+    propertyId: u.propertyId,
+    unitNumber: u.unitNumber,
+    beds: u.beds ?? null,
+    baths: u.baths ?? null,
+    sqft: u.sqft ?? null,
+    rentCents: u.rentCents ?? null,
+    amenities: u.amenities ?? [],
+    photos: (u.photos ?? []).map((p) => ({ key: p.key, url: p.url, caption: p.caption ?? null })),
+    archived: !!u.archived,
+    updatedAt: u.updatedAt,
+    ...(occupancy ? { occupancy } : {}),
+  };
+}
+
+/* ---------- find-or-create ---------- */
+
+/** The firm's building at this address, created on first sight */
+export async function ensureProperty(
+  db: Db,
+  input: { firmId: string; address: PropertyDoc["address"]; name?: string; by: string }
+) {
+  const col = db.collection<PropertyDoc>("properties");
+  const key = addressKey(input.address);
+  const existing = await col.findOne({ firmId: input.firmId, addressKey: key });
+  if (existing) return { property: existing, created: false };
+
+  const now = new Date();
+  const doc: PropertyDoc = {
+    _id: newId("prop"),
+    firmId: input.firmId,
+    name: input.name || input.address.line1,
+    address: input.address,
+    addressKey: key,
+    archived: false,
+    createdBy: input.by,
+    createdAt: now,
+    updatedBy: input.by,
+    updatedAt: now,
+  };
+  try {
+    await col.insertOne(doc);
+    return { property: doc, created: true };
+  } catch (e) {
+    // lost a race with another request for the same building
+    if (!isDuplicateKey(e)) throw e;
+    return { property: (await col.findOne({ firmId: input.firmId, addressKey: key }))!, created: false };
+  }
+}
+
+/** The building's unit with this number ("" = the whole building), created on first sight */
+export async function ensureUnit(
+  db: Db,
+  input: { firmId: string; propertyId: string; unitNumber: string; by: string; attrs?: Partial<UnitDoc> }
+) {
+  const col = db.collection<UnitDoc>("units");
+  const key = unitKey(input.unitNumber);
+  const existing = await col.findOne({ propertyId: input.propertyId, unitKey: key });
+  if (existing) return { unit: existing, created: false };
+
+  const now = new Date();
+  const doc: UnitDoc = {
+    amenities: [],
+    photos: [],
+    ...input.attrs,
+    _id: newId("unit"),
+    firmId: input.firmId,
+    propertyId: input.propertyId,
+    unitNumber: input.unitNumber.trim(),
+    unitKey: key,
+    archived: false,
+    createdBy: input.by,
+    createdAt: now,
+    updatedBy: input.by,
+    updatedAt: now,
+  };
+  try {
+    await col.insertOne(doc);
+    return { unit: doc, created: true };
+  } catch (e) {
+    if (!isDuplicateKey(e)) throw e;
+    return { unit: (await col.findOne({ propertyId: input.propertyId, unitKey: key }))!, created: false };
+  }
+}
+
+/**
+ * Inventory ids for a free-form building address and unit number as stored on
+ * applications and leases, creating the records if needed. Null when the
+ * address isn't complete enough to identify a building.
+ */
+export async function resolveUnitForBuilding(
+  db: Db,
+  input: { firmId: string; building: any; unitNumber?: string | null; by: string; attrs?: Partial<UnitDoc> }
+) {
+  if (!input.building) return null;
+  const { address, unitFromLine1 } = normalizeAddress(input.building);
+  if (addressErrors(address).length) return null;
+  const { property } = await ensureProperty(db, { firmId: input.firmId, address, by: input.by });
+  const { unit } = await ensureUnit(db, {
+    firmId: input.firmId,
+    propertyId: property._id,
+    unitNumber: String(input.unitNumber ?? "").trim() || unitFromLine1 || "",
+    by: input.by,
+    attrs: input.attrs,
+  });
+  return { propertyId: property._id, unitId: unit._id };
+}
+
+/** A unit and its building, only when both belong to the firm */
+export async function loadFirmUnit(db: Db, firmId: string, unitId: string) {
+  const unit = await db.collection<UnitDoc>("units").findOne({ _id: unitId, firmId });
+  if (!unit) return null;
+  const property = await db.collection<PropertyDoc>("properties").findOne({ _id: unit.propertyId, firmId });
+  return property ? { unit, property } : null;
+}
+
+/** Building/unit fields as the lease flow stores them on applications and leases */
+export function unitToBuilding(property: PropertyDoc, unit: UnitDoc) {
+  return {
+    building: {
+      addressLine1: property.address.line1,
+      addressLine2: property.address.line2 ?? null,
+      city: property.address.city,
+      state: property.address.state,
+      postalCode: property.address.zip,
+      country: property.address.country,
+    },
+    unitNumber: unit.unitNumber || null,
+  };
+}
+
+/* ---------- occupancy & history ---------- */
+
+const LIVE_LEASE_STATUSES = ["scheduled", "active"];
+
+/**
+ * Occupancy from a unit's live leases on `today` (YYYY-MM-DD): a lease that has
+ * started and not ended means occupied; one that starts later means upcoming.
+ */
+export function occupancyOf(leases: any[], today: string) {
+  const live = leases
+    .filter((l) => LIVE_LEASE_STATUSES.includes(String(l.status)))
+    .filter((l) => !l.moveOutDate || String(l.moveOutDate) > today)
+    .sort((a, b) => String(a.moveInDate ?? "").localeCompare(String(b.moveInDate ?? "")));
+  const current = live.find((l) => l.status === "active" || String(l.moveInDate ?? "") <= today);
+  if (current) return { status: "occupied" as Occupancy, leaseId: String(current._id), until: current.moveOutDate ?? null };
+  const next = live[0];
+  if (next) return { status: "upcoming" as Occupancy, leaseId: String(next._id), until: next.moveInDate ?? null };
+  return { status: "vacant" as Occupancy, leaseId: null, until: null };
+}
+
+export async function occupancyByUnit(db: Db, firmId: string, unitIds: string[], today: string) {
+  const leases = unitIds.length
+    ? await db
+        .collection<any>("unit_leases")
+        .find(
+          { firmId, unitId: { $in: unitIds }, status: { $in: LIVE_LEASE_STATUSES } },
+          { projection: { _id: 1, unitId: 1, status: 1, moveInDate: 1, moveOutDate: 1 } }
+        )
+        .toArray()
+    : [];
+  const byUnit = new Map<string, any[]>();
+  for (const l of leases) {
+    const k = String(l.unitId);
+    byUnit.set(k, [...(byUnit.get(k) ?? []), l]);
+  }
+  return new Map(unitIds.map((id) => [id, occupancyOf(byUnit.get(id) ?? [], today)]));
+}
+
+/** Every lease and application that has been linked to the unit, newest first. Names follow blind review. */
+export async function unitHistory(db: Db, firmId: string, unitId: string) {
+  const leases = await db
+    .collection<any>("unit_leases")
+    .find(
+      { firmId, unitId },
+      { projection: { _id: 1, appId: 1, householdId: 1, status: 1, moveInDate: 1, moveOutDate: 1, monthlyRent: 1 } }
+    )
+    .sort({ moveInDate: -1 })
+    .limit(200)
+    .toArray();
+  const applications = await db
+    .collection<any>("applications")
+    .find(
+      { unitId },
+      { projection: { _id: 1, status: 1, members: 1, answersByMember: 1, blindReview: 1, submittedAt: 1, createdAt: 1 } }
+    )
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .toArray();
+  const blind = await loadBlindReview(db, firmId);
+  return {
+    leases: leases.map((l) => ({
+      id: String(l._id),
+      appId: l.appId ? String(l.appId) : null,
+      status: String(l.status ?? ""),
+      moveInDate: l.moveInDate ?? null,
+      moveOutDate: l.moveOutDate ?? null,
+      monthlyRent: typeof l.monthlyRent === "number" ? l.monthlyRent : null,
+    })),
+    applications: applications.map((a) => {
+      const primary = (Array.isArray(a.members) ? a.members : []).find((m: any) => m?.role === "primary") ?? a.members?.[0];
+      const aliases = maskedFields(blind, a).includes("names") ? memberAliases(a) : null;
+      const primaryKey = primary ? String(primary.userId ?? String(primary.email ?? "").toLowerCase()) : "";
+      return {
+        id: String(a._id),
+        status: String(a.status ?? ""),
+        label: aliases ? aliases.get(primaryKey) ?? "Household" : String(primary?.name || primary?.email || "Household"),
+        submittedAt: a.submittedAt ?? a.createdAt ?? null,
+      };
+    }),
+  };
+}
+
+/* ---------- linking what already exists ---------- */
+
+async function firmApplicationsFilter(db: Db, firmId: string) {
+  const forms = await db
+    .collection("application_forms")
+    .find(idEq("firmId", firmId), { projection: { _id: 1 } })
+    .limit(2000)
+    .toArray();
+  const formIds = forms.flatMap((f: any) => {
+    const s = String(f._id);
+    return ObjectId.isValid(s) ? [s, new ObjectId(s)] : [s];
+  });
+  const or: any[] = [idEq("firmId", firmId)];
+  if (formIds.length) or.push({ formId: { $in: formIds } });
+  return { $or: or };
+}
+
+/**
+ * Give the firm's unlinked leases and applications inventory ids from their
+ * stored building address and unit number, creating buildings and units as
+ * needed. Safe to run again; already-linked records are left alone.
+ */
+export async function linkExistingToInventory(db: Db, input: { firmId: string; by: string; limit?: number }) {
+  const limit = input.limit ?? 1000;
+  const leases = await db
+    .collection<any>("unit_leases")
+    .find(
+      { firmId: input.firmId, unitId: null, "building.addressLine1": { $nin: [null, ""] } },
+      { projection: { _id: 1, building: 1, unitNumber: 1 } }
+    )
+    .limit(limit)
+    .toArray();
+  const apps = await db
+    .collection<any>("applications")
+    .find(
+      { ...(await firmApplicationsFilter(db, input.firmId)), unitId: null, "building.addressLine1": { $nin: [null, ""] } },
+      { projection: { _id: 1, building: 1, unit: 1 } }
+    )
+    .limit(limit)
+    .toArray();
+
+  let leasesLinked = 0;
+  let applicationsLinked = 0;
+  let skipped = 0;
+  for (const l of leases) {
+    const ids = await resolveUnitForBuilding(db, { firmId: input.firmId, building: l.building, unitNumber: l.unitNumber, by: input.by });
+    if (!ids) {
+      skipped++;
+      continue;
+    }
+    await db.collection<any>("unit_leases").updateOne({ _id: l._id, unitId: null }, { $set: ids });
+    leasesLinked++;
+  }
+  for (const a of apps) {
+    const unitNumber = a.unit && typeof a.unit === "object" ? a.unit.unitNumber : a.unit;
+    const ids = await resolveUnitForBuilding(db, { firmId: input.firmId, building: a.building, unitNumber, by: input.by });
+    if (!ids) {
+      skipped++;
+      continue;
+    }
+    await db.collection<any>("applications").updateOne({ _id: a._id }, { $set: ids });
+    applicationsLinked++;
+  }
+  return { leasesLinked, applicationsLinked, skipped };
+}
@@ -0,0 +1,140 @@
+// lib/receipts.ts
+// Shared pieces of the HTML receipts and statements under /api/receipts/*:
+// the page shell, formatting, the parties block lookups, and who may open one.
+// Renderers are called in-process both by those routes and by the emails.
+import type { Db } from "mongodb";
+import { ObjectId } from "mongodb";
+
+export const RECEIPT_HTML_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "X-Frame-Options": "SAMEORIGIN",
+  "Content-Security-Policy":
+    "default-src 'none'; img-src data: https:; style-src 'unsafe-inline'; frame-ancestors 'self'; base-uri 'none'; form-action 'none';",
+  "Referrer-Policy": "no-referrer",
+};
+
+export function esc(x: any): string {
+  const s = String(x ?? "");
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function htmlShell(inner: string, title: string) {
+  return `<!doctype html><html lang="en"><head>
+<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
+<title>${esc(title)}</title>
+<style>
+ body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Inter,Arial,sans-serif;background:#f7f7f7;margin:0}
+ .page{max-width:900px;margin:24px auto;background:#fff;border:1px solid #e5e7eb;border-radius:12px;padding:24px}
+ h1{font-size:20px;font-weight:700;margin:0}
+ h2{font-size:16px;font-weight:600;margin:18px 0 8px}
+ hr{border:0;border-top:1px solid #e5e7eb;margin:16px 0}
+ .muted{color:#475569;font-size:12px}
+ .grid{display:grid;grid-template-columns:1fr 1fr;gap:12px}
+ @media(max-width:760px){.grid{grid-template-columns:1fr}}
+ .row{font-size:14px}
+ .label{color:#64748b;display:block;font-size:12px}
+ .box{border:1px solid #e5e7eb;border-radius:8px;padding:12px;background:#fff}
+ .note{background:#f1f5f9;border:1px dashed #cbd5e1;border-radius:8px;padding:10px;color:#334155;font-size:12px}
+ .draft{background:#fef3c7;border:1px solid #fcd34d;border-radius:8px;padding:10px;color:#92400e;font-size:12px;font-weight:600}
+ table{width:100%;border-collapse:collapse;font-size:13px}
+ th,td{text-align:left;border-bottom:1px solid #e5e7eb;padding:8px 6px;vertical-align:top}
+ td.num,th.num{text-align:right;white-space:nowrap}
+ tr.total td{font-weight:700;border-top:2px solid #cbd5e1}
+ .evidence{font-size:11px;color:#475569;margin-top:4px}
+ .sigline{border-top:1px solid #cbd5e1;height:28px;margin-top:24px}
+</style>
+</head><body><div class="page">${inner}</div></body></html>`;
+}
+
+export function money(c: any): string {
+  const n = Number(c);
+  if (!isFinite(n)) return "";
+  return `$${(n / 100).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+export function fmtDate(v: any): string {
+  if (!v) return "—";
+  const s = String(v);
+  const d = /^\d{4}-\d{2}-\d{2}$/.test(s)
+    ? new Date(Number(s.slice(0, 4)), Number(s.slice(5, 7)) - 1, Number(s.slice(8, 10)))
+    : new Date(v);
+  return isNaN(d.getTime())
+    ? s
+    : d.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function toMaybeObjectId(v: any): any {
+  if (!v) return v;
+  const s = String(v);
+  return ObjectId.isValid(s) ? new ObjectId(s) : v;
+}
+
+const idIn = (raw: any) => {
+  const s = String(raw ?? "");
+  return ObjectId.isValid(s) ? { $in: [s, new ObjectId(s)] } : s;
+};
+
+export async function householdNames(db: any, householdId: any): Promise<string[]> {
+  if (!householdId) return [];
+  const hid = String(householdId);
+  const mships = await db
+    .collection("household_memberships")
+    .find({ householdId: { $in: [hid, toMaybeObjectId(hid)] }, active: true })
+    .toArray();
+  const ids = mships.map((m: any) => toMaybeObjectId(m.userId)).filter(Boolean);
+  const users = ids.length
+    ? await db.collection("users").find({ _id: { $in: ids } }).toArray()
+    : [];
+  const names = users
+    .map((u: any) => u.legal_name || u.preferredName || u.name || u.email)
+    .filter(Boolean)
+    .map(String);
+  return Array.from(new Set(names));
+}
+
+export async function landlordName(db: Db, firmId: any): Promise<string> {
+  const firmDoc =
+    (await db.collection<any>("FirmDoc").findOne({ _id: toMaybeObjectId(firmId) })) ||
+    (await db.collection<any>("FirmDoc").findOne({ _id: String(firmId) }));
+  return String(firmDoc?.legal_name ?? firmDoc?.legalName ?? firmDoc?.name ?? "Landlord");
+}
+
+export function premisesOf(lease: any): string {
+  const b = lease?.building || {};
+  return [
+    [b.addressLine1, b.addressLine2].filter(Boolean).join(", "),
+    [b.city, b.state, b.postalCode].filter(Boolean).join(", "),
+  ]
+    .filter(Boolean)
+    .join(", ") + (lease?.unitNumber ? ` — Unit ${lease.unitNumber}` : "");
+}
+
+/**
+ * Whether a user may open a receipt: a member of the landlord's firm, or of the
+ * tenant household unless `householdCanView` is false (e.g. a draft). Routes
+ * let app admins through before asking.
+ */
+export async function canViewReceipt(
+  db: any,
+  user: any,
+  owner: { firmId: any; householdId?: any; householdCanView?: boolean }
+) {
+  const uid = String(user?._id ?? "");
+  if (!uid) return false;
+  const firm = await db
+    .collection("firm_memberships")
+    .findOne({ firmId: String(owner.firmId), active: true, userId: idIn(uid) }, { projection: { _id: 1 } });
+  if (firm) return true;
+  if (owner.householdCanView === false || !owner.householdId) return false;
+  const hm = await db
+    .collection("household_memberships")
+    .findOne({ householdId: idIn(owner.householdId), active: true, userId: idIn(uid) }, { projection: { _id: 1 } });
+  return !!hm;
+}
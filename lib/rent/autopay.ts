@@ -0,0 +1,343 @@
+// lib/rent/autopay.ts
+// Recurring rent autopay: per-member enrollments against saved us_bank_account
+// payment methods, one run per enrollment per rent month
+import Stripe from "stripe";
+import type { RentAutopayDoc, RentAutopayRunDoc } from "@/lib/models";
+import { sendMail } from "@/lib/mailer";
+import { getFirmAdminEmails } from "@/lib/firms";
+import { syncLedger } from "@/lib/ledger/journal";
+import { buildCharges } from "./charges";
+import { idEq } from "@/lib/ids";
+
+/** Days before the due date the pre-debit notice goes out */
+export const AUTOPAY_NOTICE_DAYS = 3;
+/** Days to wait before each retry after a failed debit */
+export const AUTOPAY_RETRY_DAYS = [1, 3];
+export const AUTOPAY_MAX_ATTEMPTS = AUTOPAY_RETRY_DAYS.length + 1;
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string);
+
+const safeNum = (v: any) => (Number.isFinite(Number(v)) ? Math.round(Number(v)) : 0);
+const ymdUtc = (d: Date) => d.toISOString().slice(0, 10);
+const addDaysUtc = (d: Date, days: number) => new Date(d.getTime() + days * 86_400_000);
+const money = (c: number) => `$${(c / 100).toFixed(2)}`;
+
+export type RentLine = { ym: string; dueDate: string; amountCents: number };
+
+/** Monthly rent lines for an application (the rent bucket of buildCharges) */
+export function rentLinesForApp(app: any): RentLine[] {
+  if (!app) return [];
+  return buildCharges(String(app._id), app)
+    .filter((c) => c.bucket === "rent" && c.dueDate)
+    .map((c) => ({ ym: c.code.slice(5), dueDate: String(c.dueDate), amountCents: c.amountCents }))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/** Open balance per rent month, read from the ledger (pending ACH counts as paid) */
+export async function openRentByMonth(db: any, app: any): Promise<Map<string, number>> {
+  const { charges, balances } = await syncLedger(db, app);
+  const open = new Map<string, number>();
+  for (const c of charges) {
+    if (c.bucket !== "rent") continue;
+    open.set(c.code.slice(5), Math.max(0, balances.byCharge.get(c.chargeKey)?.remainingCents ?? c.amountCents));
+  }
+  return open;
+}
+
+/** Append to unit_leases.timeline (same entry shape as applications.timeline) */
+export async function pushLeaseTimeline(
+  db: any,
+  leaseId: any,
+  by: string,
+  event: string,
+  meta: Record<string, unknown>
+) {
+  if (!leaseId) return;
+  await db.collection("unit_leases").updateOne(idEq("_id", leaseId), {
+    $push: { timeline: { at: new Date(), by, event, meta } },
+  });
+}
+
+async function notify(to: string[], subject: string, text: string, idempotencyKey: string, traceId: string) {
+  for (const addr of to) {
+    const r = await sendMail({ to: addr, subject, text, idempotencyKey: `${idempotencyKey}:${addr}`, traceId });
+    if (!r.ok) console.warn("[autopay] email failed,", { to: addr, error: (r as any).error });
+  }
+}
+
+function amountFor(enr: RentAutopayDoc, openCents: number) {
+  const cap = enr.mode === "share" ? Math.max(0, safeNum(enr.shareCents)) : openCents;
+  return Math.max(0, Math.min(cap, openCents));
+}
+
+/**
+ * Create the PaymentIntent + payments row for one run. Failures to create the
+ * intent count as an attempt and go through the same retry path as ACH failures.
+ */
+async function chargeRun(db: any, enr: RentAutopayDoc, run: RentAutopayRunDoc, amountCents: number, now: Date) {
+  const runs = db.collection("rent_autopay_runs");
+  const attempt = (run.attempts || 0) + 1;
+
+  const firm = await db.collection("firms").findOne(idEq("_id", enr.firmId), {
+    projection: { "stripe.operatingAccountId": 1 },
+  });
+  const destination = firm?.stripe?.operatingAccountId ?? null;
+  if (!destination) {
+    await runs.updateOne({ _id: run._id }, { $set: { attempts: attempt, updatedAt: now } });
+    return recordAutopayFailure(db, String(run._id), "operating_account_missing", now);
+  }
+
+  const idempotencyKey = `autopay:${run._id}:${attempt}`;
+  let pi: Stripe.PaymentIntent;
+  try {
+    pi = await stripe.paymentIntents.create(
+      {
+        amount: amountCents,
+        currency: "usd",
+        description: `Rent autopay ${run.ym} for application ${enr.appId}`,
+        customer: enr.stripeCustomerId,
+        payment_method: enr.paymentMethodId,
+        confirm: true,
+        off_session: true,
+        payment_method_types: ["us_bank_account"],
+        transfer_data: { destination },
+        receipt_email: enr.email || undefined,
+        metadata: {
+          appId: String(enr.appId),
+          firmId: String(enr.firmId),
+          leaseId: String(enr.leaseId),
+          type: "rent",
+          reason: "autopay",
+          autopayRunId: String(run._id),
+          ym: run.ym,
+        },
+      },
+      { idempotencyKey }
+    );
+  } catch (e: any) {
+    await runs.updateOne({ _id: run._id }, { $set: { attempts: attempt, updatedAt: now } });
+    return recordAutopayFailure(db, String(run._id), e?.code || e?.message || "pi_create_failed", now);
+  }
+
+  await db.collection("payments").insertOne({
+    appId: String(enr.appId),
+    firmId: String(enr.firmId),
+    leaseId: String(enr.leaseId),
+    kind: "rent",
+    status: "processing",
+    amountCents,
+    currency: "USD",
+    provider: "stripe",
+    providerIds: { paymentIntentId: pi.id },
+    createdAt: now,
+    updatedAt: now,
+    meta: {
+      session: "tenant.autopay",
+      by: String(enr.email || enr.userId),
+      reason: "autopay",
+      destinationAccount: destination,
+      rails: "ach",
+      idempotencyKey,
+      autopayRunId: String(run._id),
+    },
+  });
+
+  await runs.updateOne(
+    { _id: run._id },
+    {
+      $set: {
+        status: "processing",
+        amountCents,
+        attempts: attempt,
+        paymentIntentId: pi.id,
+        nextAttemptAt: null,
+        updatedAt: now,
+      },
+    }
+  );
+  await pushLeaseTimeline(db, enr.leaseId, "system", "autopay.charge_initiated", {
+    enrollmentId: String(enr._id),
+    ym: run.ym,
+    amountCents,
+    attempt,
+    paymentIntentId: pi.id,
+  });
+  return { ok: true as const };
+}
+
+/** Webhook hook: the autopay debit settled */
+export async function recordAutopaySuccess(db: any, runId: string, now: Date = new Date()) {
+  const runs = db.collection("rent_autopay_runs");
+  const run: RentAutopayRunDoc | null = await runs.findOne({ _id: runId });
+  if (!run || run.status === "succeeded") return;
+  await runs.updateOne(
+    { _id: run._id },
+    { $set: { status: "succeeded", lastError: null, nextAttemptAt: null, updatedAt: now } }
+  );
+  await pushLeaseTimeline(db, run.leaseId, "system", "autopay.charge_succeeded", {
+    enrollmentId: String(run.enrollmentId),
+    ym: run.ym,
+    amountCents: run.amountCents ?? null,
+    paymentIntentId: run.paymentIntentId ?? null,
+  });
+}
+
+/**
+ * Webhook hook (and PI-create failures): schedule a retry, or give up after
+ * AUTOPAY_MAX_ATTEMPTS and tell both the member and the firm.
+ */
+export async function recordAutopayFailure(db: any, runId: string, reason: string, now: Date = new Date()) {
+  const runs = db.collection("rent_autopay_runs");
+  const run: RentAutopayRunDoc | null = await runs.findOne({ _id: runId });
+  if (!run || run.status === "succeeded" || run.status === "failed") return { ok: false as const, error: reason };
+
+  const enr: RentAutopayDoc | null = await db.collection("rent_autopay").findOne({ _id: run.enrollmentId });
+  const attempts = run.attempts || 0;
+  const exhausted = attempts >= AUTOPAY_MAX_ATTEMPTS;
+  const nextAttemptAt = exhausted
+    ? null
+    : addDaysUtc(now, AUTOPAY_RETRY_DAYS[Math.min(attempts, AUTOPAY_RETRY_DAYS.length) - 1] ?? 1);
+
+  await runs.updateOne(
+    { _id: run._id },
+    { $set: { status: exhausted ? "failed" : "retrying", lastError: reason, nextAttemptAt, updatedAt: now } }
+  );
+  await pushLeaseTimeline(db, run.leaseId, "system", exhausted ? "autopay.charge_failed" : "autopay.retry_scheduled", {
+    enrollmentId: String(run.enrollmentId),
+    ym: run.ym,
+    attempts,
+    reason,
+    nextAttemptAt,
+  });
+
+  const traceId = `lease:${run.leaseId}`;
+  const amount = run.amountCents ? money(run.amountCents) : "your rent";
+  if (enr?.email) {
+    await notify(
+      [enr.email],
+      exhausted ? `Rent autopay failed for ${run.ym}` : `Rent autopay didn't go through for ${run.ym}`,
+      exhausted
+        ? `We couldn't collect ${amount} from ${enr.bankLabel || "your bank account"} after ${attempts} attempts. Please pay your ${run.ym} rent from the payments page.`
+        : `We couldn't collect ${amount} from ${enr.bankLabel || "your bank account"} (${reason}). We'll try again on ${ymdUtc(nextAttemptAt!)}.`,
+      `autopay-failed:${run._id}:${attempts}`,
+      traceId
+    );
+  }
+  if (exhausted) {
+    const firmEmails = await getFirmAdminEmails(db, String(run.firmId));
+    await notify(
+      firmEmails,
+      `Tenant rent autopay failed — ${run.ym}`,
+      `Autopay for lease ${run.leaseId} (${run.ym}, ${amount}) failed ${attempts} times. Last error: ${reason}.`,
+      `autopay-failed-firm:${run._id}`,
+      traceId
+    );
+  }
+  return { ok: false as const, error: reason };
+}
+
+/**
+ * The scheduled sweep. For every live enrollment:
+ *  - auto-resume paused enrollments whose pausedUntil has passed,
+ *  - send the pre-debit notice AUTOPAY_NOTICE_DAYS ahead of each due date,
+ *  - on/after the due date, debit whatever of the member's amount is still open,
+ *  - re-attempt runs whose retry time has come.
+ */
+export async function runAutopay(db: any, opts: { now?: Date } = {}) {
+  const now = opts.now ?? new Date();
+  const today = ymdUtc(now);
+  const horizon = ymdUtc(addDaysUtc(now, AUTOPAY_NOTICE_DAYS));
+  const enrollments = db.collection("rent_autopay");
+  const runs = db.collection("rent_autopay_runs");
+  const summary = { enrollments: 0, notices: 0, charged: 0, skipped: 0, failed: 0 };
+
+  const resumed: RentAutopayDoc[] = await enrollments
+    .find({ status: "paused", pausedUntil: { $ne: null, $lte: today } })
+    .toArray();
+  for (const e of resumed) {
+    await enrollments.updateOne(
+      { _id: e._id, status: "paused" },
+      { $set: { status: "active", pausedUntil: null, updatedAt: now } }
+    );
+    await pushLeaseTimeline(db, e.leaseId, "system", "autopay.resumed", {
+      enrollmentId: String(e._id),
+      automatic: true,
+    });
+  }
+
+  const live: RentAutopayDoc[] = await enrollments.find({ status: "active" }).toArray();
+  for (const enr of live) {
+    summary.enrollments++;
+    const app = await db.collection("applications").findOne(idEq("_id", enr.appId));
+    if (!app) continue;
+    const lines = rentLinesForApp(app).filter((l) => l.dueDate >= enr.startsOn && l.dueDate <= horizon);
+    if (!lines.length) continue;
+
+    for (const line of lines) {
+      const runId = `${enr._id}:${line.ym}`;
+      await runs.updateOne(
+        { _id: runId },
+        {
+          $setOnInsert: {
+            _id: runId,
+            enrollmentId: String(enr._id),
+            leaseId: String(enr.leaseId),
+            appId: String(enr.appId),
+            firmId: String(enr.firmId),
+            userId: String(enr.userId),
+            ym: line.ym,
+            dueDate: line.dueDate,
+            status: "scheduled",
+            amountCents: null,
+            noticeSentAt: null,
+            attempts: 0,
+            nextAttemptAt: null,
+            paymentIntentId: null,
+            lastError: null,
+            createdAt: now,
+            updatedAt: now,
+          } satisfies RentAutopayRunDoc,
+        },
+        { upsert: true }
+      );
+      const run: RentAutopayRunDoc = await runs.findOne({ _id: runId });
+      const open = (await openRentByMonth(db, app)).get(line.ym) ?? 0;
+      const amountCents = amountFor(enr, open);
+
+      if (run.status === "scheduled" && line.dueDate > today) {
+        if (!run.noticeSentAt && amountCents > 0 && enr.email) {
+          await notify(
+            [enr.email],
+            `Rent autopay scheduled for ${line.dueDate}`,
+            `We'll debit ${money(amountCents)} from ${enr.bankLabel || "your bank account"} on ${line.dueDate} for ${line.ym} rent. You can pause or cancel autopay from the payments page before then.`,
+            `autopay-notice:${runId}`,
+            `lease:${enr.leaseId}`
+          );
+          await runs.updateOne({ _id: runId }, { $set: { noticeSentAt: now, amountCents, updatedAt: now } });
+          summary.notices++;
+        }
+        continue;
+      }
+
+      const due =
+        run.status === "scheduled" ||
+        (run.status === "retrying" && run.nextAttemptAt && new Date(run.nextAttemptAt) <= now);
+      if (!due || line.dueDate > today) continue;
+
+      if (amountCents <= 0) {
+        await runs.updateOne(
+          { _id: runId },
+          { $set: { status: "skipped", skipReason: "already_paid", updatedAt: now } }
+        );
+        summary.skipped++;
+        continue;
+      }
+
+      const r = await chargeRun(db, enr, run, amountCents, now);
+      if (r.ok) summary.charged++;
+      else summary.failed++;
+    }
+  }
+
+  return summary;
+}
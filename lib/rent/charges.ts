@@ -0,0 +1,207 @@
+// lib/rent/charges.ts
+// Addressable charge lines built from an application's payment plan. What's been
+// paid against each line lives in the ledger (lib/ledger/journal.ts).
+import type { LateFeeDoc } from "@/lib/models";
+
+export type Bucket = "upfront" | "deposit" | "rent" | "fee" | "operating";
+export type Status = "created" | "processing" | "succeeded" | "failed" | "canceled" | "returned";
+
+export type ChargeRow = {
+  chargeKey: string;             // `${appId}:${bucket}:${code}`
+  bucket: "upfront" | "deposit" | "rent" | "fee";
+  code: string;                  // "key_fee" | "first_month" | "last_month" | "security_deposit" | `rent:YYYY-MM` | `late_fee:YYYY-MM`
+  label?: string;
+  amountCents: number;           // total owed for this line
+  priorityIndex: number;
+  dueDate?: string | null;       // ISO date "YYYY-MM-DD" for UI bucketing
+};
+
+/** Late fee as a charge line (waived fees stay on the books, offset by a waiver entry) */
+export type FeeLine = {
+  code: string;                  // `late_fee:YYYY-MM`
+  label?: string | null;
+  amountCents: number;
+  assessedOn: string;            // YYYY-MM-DD
+};
+
+export function safeNum(x: any, d = 0) {
+  const n = Number(x);
+  return Number.isFinite(n) ? n : d;
+}
+const LABELS: Record<string, string> = {
+  first_month: "First month",
+  last_month: "Last month",
+  key_fee: "Key fee",
+  security_deposit: "Security deposit",
+};
+
+/* ---------- tiny helper: ISO (YYYY-MM-DD) => previous day in UTC ---------- */
+function prevDayISO(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, (m ?? 1) - 1, d ?? 1));
+  dt.setUTCDate(dt.getUTCDate() - 1);
+  return dt.toISOString().slice(0, 10);
+}
+
+/** Late fees (assessed and waived) as fee lines for buildCharges */
+export function feeLinesFor(fees: LateFeeDoc[]): FeeLine[] {
+  return [...fees]
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map((f) => ({
+      code: f.code,
+      label: `Late fee ${f.rentCode.replace(/^rent:/, "")}`,
+      amountCents: f.amountCents,
+      assessedOn: f.assessedOn,
+    }));
+}
+
+/* ----------------------- charge construction ----------------------- */
+/**
+ * Build addressable charges from the application doc.
+ * Deposit is "security_deposit".
+ * Lease-balance ("upfront") items: key_fee, first_month, last_month.
+ * Monthly rent is **rent**, due on its own schedule (rent:YYYY-MM).
+ * Assessed late fees are **fee** lines (late_fee:YYYY-MM), due the day they were assessed.
+ *
+ * NOTE: key/first/last get due dates set to the **day before move-in**.
+ */
+export function buildCharges(appId: string, app: any, fees: FeeLine[] = []): ChargeRow[] {
+  const charges = buildPlanCharges(appId, app);
+  fees.forEach((f, i) => {
+    const amountCents = Math.max(0, safeNum(f.amountCents));
+    if (amountCents <= 0) return;
+    charges.push({
+      chargeKey: `${appId}:fee:${f.code}`,
+      bucket: "fee",
+      code: f.code,
+      label: f.label || `Late fee ${f.code.replace(/^late_fee:/, "")}`,
+      amountCents,
+      priorityIndex: 3000 + i,
+      dueDate: f.assessedOn,
+    });
+  });
+  return charges;
+}
+
+function buildPlanCharges(appId: string, app: any): ChargeRow[] {
+  const charges: ChargeRow[] = [];
+  const push = (
+    bucket: "upfront" | "deposit" | "rent",
+    code: string,
+    amt: number,
+    prio: number,
+    dueDate?: string | null
+  ) => {
+    const amountCents = Math.max(0, safeNum(amt));
+    if (amountCents <= 0) return;
+    charges.push({
+      chargeKey: `${appId}:${bucket}:${code}`,
+      bucket,
+      code,
+      label: LABELS[code] ?? (code.startsWith("rent:") ? `Rent ${code.slice(5)}` : code.replaceAll("_", " ")),
+      amountCents,
+      priorityIndex: prio,
+      dueDate: dueDate ?? null,
+    });
+  };
+
+  const plan = app?.paymentPlan ?? null;
+
+  // Helper: add YYYY-MM rent charges strictly after move-in items,
+  // skipping start/end months when first/last are upfront.
+  function addMonthlyRentCharges(params: {
+    startISO?: string | null;
+    termMonths?: number | null;
+    monthly?: number;
+    basePrio?: number;
+    skipFirstMonth?: boolean;
+    skipLastMonth?: boolean;
+  }) {
+    const rent = Math.max(0, safeNum(params.monthly));
+    const months = Math.max(0, safeNum(params.termMonths));
+    if (!params.startISO || !months || !rent) return;
+
+    const parts = String(params.startISO).split("-");
+    const y = parseInt(parts[0], 10);
+    const m = parseInt(parts[1], 10);
+    if (!y || !m) return;
+
+    let year = y, month = m; // 1..12
+    const base = params.basePrio ?? 2000;
+
+    for (let i = 0; i < months; i++) {
+      // Skip the first lease month if first is paid upfront
+      if (i === 0 && params.skipFirstMonth) {
+        month += 1;
+        if (month > 12) { month = 1; year += 1; }
+        continue;
+      }
+      // Skip the last lease month if last is paid upfront
+      if (i === months - 1 && params.skipLastMonth) {
+        continue;
+      }
+
+      const ym = `${year.toString().padStart(4, "0")}-${month.toString().padStart(2, "0")}`;
+      // RENT LINES ARE RENT, not upfront
+      push("rent", `rent:${ym}`, rent, base + i, ym + "-01");
+
+      month += 1;
+      if (month > 12) { month = 1; year += 1; }
+    }
+  }
+
+  if (plan?.upfrontTotals) {
+    const first = safeNum(plan.upfrontTotals.firstCents);
+    const last  = safeNum(plan.upfrontTotals.lastCents);
+    const key   = safeNum(plan.upfrontTotals.keyCents);
+    const sec   = safeNum(plan.securityCents);
+
+    const requireFirst = !!plan.requireFirstBeforeMoveIn && first > 0;
+    const requireLast  = !!plan.requireLastBeforeMoveIn  && last  > 0;
+
+    const prioList =
+      Array.isArray(plan.priority) && plan.priority.length
+        ? (plan.priority as string[])
+        : ["key_fee", "first_month", "last_month", "security_deposit"];
+    const prio = (code: string) => {
+      const idx = prioList.indexOf(code);
+      return idx >= 0 ? idx : 999;
+    };
+
+    const moveInISO =
+      typeof plan?.startDate === "string" ? plan.startDate : app?.protoLease?.moveInDate ?? null;
+
+    // Slide ONLY the move-in items to the **day before** move-in
+    const preMoveInISO = moveInISO ? prevDayISO(moveInISO) : null;
+
+    // Move-in items (lease balance)
+    push("upfront", "key_fee",     key,   prio("key_fee"),     preMoveInISO);
+    if (requireFirst) push("upfront", "first_month", first, prio("first_month"), preMoveInISO);
+    if (requireLast)  push("upfront", "last_month",  last,  prio("last_month"),  preMoveInISO);
+
+    // Monthly rent lines (skip the months covered by first/last upfront)
+    addMonthlyRentCharges({
+      startISO: plan.startDate,
+      termMonths: plan.termMonths,
+      monthly: plan.monthlyRentCents,
+      basePrio: 2000,
+      skipFirstMonth: requireFirst,
+      skipLastMonth: requireLast,
+    });
+
+    // Deposit stays on the move-in/start date
+    push("deposit", "security_deposit", sec, prio("security_deposit"), moveInISO);
+    return charges;
+  }
+
+  // Legacy fallback (application.upfronts)
+  const u = app?.upfronts ?? {};
+  const moveInISO = app?.protoLease?.moveInDate ?? null;
+  const preMoveInISO = moveInISO ? prevDayISO(moveInISO) : null;
+
+  push("upfront", "key_fee",     safeNum(u.key),   0, preMoveInISO);
+  push("upfront", "first_month", safeNum(u.first), 1, preMoveInISO);
+  push("upfront", "last_month",  safeNum(u.last),  2, preMoveInISO);
+  push("deposit", "security_deposit", safeNum(u.security), 3, moveInISO);
+  return charges;
+}
@@ -0,0 +1,248 @@
+// lib/rent/lateFees.ts
+// Late fee engine: a per-firm policy evaluated against ledger balances,
+// one assessed fee per late rent month, landlord waivers kept on an audit trail
+import type { LateFeeDoc, LateFeePolicy } from "@/lib/models";
+import { syncLedger, type LedgerBalances } from "@/lib/ledger/journal";
+import { safeNum, type ChargeRow } from "./charges";
+import { idEq, rid } from "@/lib/ids";
+
+/** MA c.186 §15B(1)(c): no late fee until rent is 30 days past due */
+export const MA_LATE_FEE_GRACE_DAYS = 30;
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  enabled: false,
+  graceDays: MA_LATE_FEE_GRACE_DAYS,
+  kind: "flat",
+  flatCents: 0,
+  percentHundredths: null,
+  maxCents: null,
+};
+
+const ymdUtc = (d: Date) => d.toISOString().slice(0, 10);
+
+function daysBetweenISO(fromISO: string, toISO: string) {
+  const a = Date.parse(`${fromISO.slice(0, 10)}T00:00:00Z`);
+  const b = Date.parse(`${toISO.slice(0, 10)}T00:00:00Z`);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return 0;
+  return Math.floor((b - a) / 86_400_000);
+}
+
+/** Stored/legacy policy → complete policy, grace never below the statutory minimum */
+export function normalizeLateFeePolicy(raw: any): LateFeePolicy {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_LATE_FEE_POLICY };
+  const kind = raw.kind === "percent" ? "percent" : "flat";
+  const nonNeg = (v: any) => (v == null || v === "" ? null : Math.max(0, Math.round(safeNum(v))));
+  return {
+    enabled: !!raw.enabled,
+    graceDays: Math.max(MA_LATE_FEE_GRACE_DAYS, Math.round(safeNum(raw.graceDays, MA_LATE_FEE_GRACE_DAYS))),
+    kind,
+    flatCents: nonNeg(raw.flatCents),
+    percentHundredths: nonNeg(raw.percentHundredths),
+    maxCents: nonNeg(raw.maxCents),
+    updatedAt: raw.updatedAt,
+    updatedBy: raw.updatedBy ?? null,
+  };
+}
+
+/** Validate a policy submitted from the settings screen */
+export function validateLateFeePolicy(input: any) {
+  const p = normalizeLateFeePolicy(input);
+  if (safeNum(input?.graceDays, MA_LATE_FEE_GRACE_DAYS) < MA_LATE_FEE_GRACE_DAYS) {
+    return { ok: false as const, error: "grace_below_statutory_minimum" };
+  }
+  if (p.enabled) {
+    if (p.kind === "flat" && !p.flatCents) return { ok: false as const, error: "flat_amount_required" };
+    if (p.kind === "percent" && !p.percentHundredths) return { ok: false as const, error: "percent_required" };
+    if (p.kind === "percent" && (p.percentHundredths ?? 0) > 10000) {
+      return { ok: false as const, error: "percent_out_of_range" };
+    }
+  }
+  return { ok: true as const, policy: p };
+}
+
+/** Fee for one late rent line; percent is of the unpaid balance, then capped */
+export function computeLateFeeCents(policy: LateFeePolicy, openCents: number) {
+  const base =
+    policy.kind === "percent"
+      ? Math.round((Math.max(0, openCents) * (policy.percentHundredths ?? 0)) / 10000)
+      : Math.max(0, policy.flatCents ?? 0);
+  return policy.maxCents != null ? Math.min(base, policy.maxCents) : base;
+}
+
+export type LateRentLine = {
+  rentCode: string;
+  dueDate: string;
+  openCents: number;
+  daysLate: number;
+  feeCents: number;
+};
+
+/**
+ * Rent lines that are past the grace period and still unpaid. Pending (processing)
+ * ACH counts as paid here: a tenant who paid on time shouldn't be fined while it settles.
+ */
+export function evaluateLateRent(
+  charges: ChargeRow[],
+  balances: LedgerBalances,
+  policy: LateFeePolicy,
+  todayISO: string
+): LateRentLine[] {
+  if (!policy.enabled) return [];
+  const grace = Math.max(MA_LATE_FEE_GRACE_DAYS, policy.graceDays);
+  const out: LateRentLine[] = [];
+  for (const c of charges) {
+    if (c.bucket !== "rent" || !c.dueDate) continue;
+    const openCents = Math.max(0, balances.byCharge.get(c.chargeKey)?.remainingCents ?? c.amountCents);
+    const daysLate = daysBetweenISO(c.dueDate, todayISO);
+    if (openCents <= 0 || daysLate < grace) continue;
+    const feeCents = computeLateFeeCents(policy, openCents);
+    if (feeCents <= 0) continue;
+    out.push({ rentCode: c.code, dueDate: c.dueDate, openCents, daysLate, feeCents });
+  }
+  return out;
+}
+
+export async function loadFirmLateFeePolicy(db: any, firmId: string) {
+  const firm = await db.collection("firms").findOne(idEq("_id", firmId), { projection: { lateFeePolicy: 1 } });
+  return normalizeLateFeePolicy(firm?.lateFeePolicy);
+}
+
+/**
+ * Assess any newly-late rent months for an application. Idempotent: one fee per
+ * rent month (unique appId+code), and a waived fee is never re-assessed.
+ */
+export async function assessLateFees(
+  db: any,
+  app: any,
+  opts: { firmId?: string | null; leaseId?: string | null; now?: Date } = {}
+) {
+  const now = opts.now ?? new Date();
+  const appId = String(app?._id ?? "");
+  const firmId = String(opts.firmId ?? app?.firmId ?? "");
+  const col = db.collection("late_fees");
+
+  const created: LateFeeDoc[] = [];
+  if (appId && firmId) {
+    const policy = await loadFirmLateFeePolicy(db, firmId);
+    const { charges, balances } = await syncLedger(db, app, { firmId });
+
+    for (const late of evaluateLateRent(charges, balances, policy, ymdUtc(now))) {
+      const code = `late_fee:${late.rentCode.slice(5)}`;
+      const fee: LateFeeDoc = {
+        _id: `lfee_${rid()}`,
+        appId,
+        firmId,
+        leaseId: opts.leaseId ?? null,
+        code,
+        rentCode: late.rentCode,
+        rentDueDate: late.dueDate,
+        rentOpenCents: late.openCents,
+        daysLate: late.daysLate,
+        amountCents: late.feeCents,
+        policy: {
+          graceDays: policy.graceDays,
+          kind: policy.kind,
+          flatCents: policy.flatCents ?? null,
+          percentHundredths: policy.percentHundredths ?? null,
+          maxCents: policy.maxCents ?? null,
+        },
+        assessedOn: ymdUtc(now),
+        status: "assessed",
+        waiver: null,
+        audit: [
+          {
+            at: now,
+            by: "system",
+            action: "assessed",
+            meta: { rentCode: late.rentCode, daysLate: late.daysLate, openCents: late.openCents },
+          },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      };
+      const res = await col.updateOne({ appId, code }, { $setOnInsert: fee }, { upsert: true });
+      if (!res.upsertedCount) continue;
+      created.push(fee);
+
+      await db.collection("applications").updateOne(idEq("_id", appId), {
+        $push: {
+          timeline: {
+            at: now,
+            by: "system",
+            event: "late_fee.assessed",
+            meta: { feeId: fee._id, rentCode: late.rentCode, amountCents: late.feeCents, daysLate: late.daysLate },
+          },
+        },
+      });
+    }
+    // New fee lines go on the books right away
+    if (created.length) await syncLedger(db, app, { firmId });
+  }
+
+  const fees: LateFeeDoc[] = appId ? await col.find({ appId }).sort({ code: 1 }).toArray() : [];
+  return { fees, created };
+}
+
+/**
+ * Waive an assessed fee. The fee line stays on the books and a waiver entry
+ * forgives whatever hadn't been paid against it yet.
+ */
+export async function waiveLateFee(db: any, fee: LateFeeDoc, opts: { by: string; reason: string; now?: Date }) {
+  const now = opts.now ?? new Date();
+  const res = await db.collection("late_fees").updateOne(
+    { _id: fee._id, status: "assessed" },
+    {
+      $set: { status: "waived", waiver: { reason: opts.reason, by: opts.by, at: now }, updatedAt: now },
+      $push: { audit: { at: now, by: opts.by, action: "waived", reason: opts.reason } },
+    }
+  );
+  if (!res.modifiedCount) return { ok: false as const, error: "not_assessed" };
+
+  const app = await db.collection("applications").findOne(idEq("_id", fee.appId));
+  if (app) await syncLedger(db, app, { firmId: String(fee.firmId), by: opts.by });
+
+  await db.collection("applications").updateOne(idEq("_id", fee.appId), {
+    $push: {
+      timeline: {
+        at: now,
+        by: opts.by,
+        event: "late_fee.waived",
+        meta: { feeId: String(fee._id), rentCode: fee.rentCode, amountCents: fee.amountCents, reason: opts.reason },
+      },
+    },
+  });
+  return { ok: true as const };
+}
+
+/** Open (unpaid, unwaived) late fee balance for an application */
+export async function openLateFeeCents(db: any, app: any) {
+  const { charges, balances } = await syncLedger(db, app);
+  return charges
+    .filter((c) => c.bucket === "fee")
+    .reduce((s, c) => s + Math.max(0, balances.byCharge.get(c.chargeKey)?.remainingCents ?? 0), 0);
+}
+
+/** Daily sweep across live leases (optionally one firm's) */
+export async function runLateFeeAssessment(db: any, opts: { firmId?: string; now?: Date } = {}) {
+  const filter: any = { status: { $nin: ["canceled"] } };
+  if (opts.firmId) filter.firmId = opts.firmId;
+  const leases = await db
+    .collection("unit_leases")
+    .find(filter, { projection: { _id: 1, appId: 1, firmId: 1 } })
+    .toArray();
+
+  const summary = { leases: leases.length, assessed: 0, assessedCents: 0 };
+  for (const lease of leases) {
+    if (!lease.appId) continue;
+    const app = await db.collection("applications").findOne(idEq("_id", lease.appId));
+    if (!app) continue;
+    const { created } = await assessLateFees(db, app, {
+      firmId: String(lease.firmId),
+      leaseId: String(lease._id),
+      now: opts.now,
+    });
+    summary.assessed += created.length;
+    summary.assessedCents += created.reduce((s, f) => s + f.amountCents, 0);
+  }
+  return summary;
+}
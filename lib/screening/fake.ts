@@ -0,0 +1,137 @@
+// lib/screening/fake.ts
+/* Server-only file; do NOT add "use client" */
+// Local stand-in for a real screening provider. Results are a pure function of the
+// check and the applicant's email, so the same applicant always gets the same
+// report. A "+clear", "+review", "+adverse" or "+error" tag in the email's local
+// part forces that outcome (jane+adverse@example.com).
+//
+// SCREENING_FAKE_DELIVERY=inline (default) answers straight from request();
+// =webhook leaves reports pending until tools/screening-fake.ts posts the signed
+// callbacks to /api/screening/webhook/fake, like a real provider would.
+import crypto from "crypto";
+import type { ScreeningCheckType, ScreeningResult } from "@/lib/models";
+import type { ScreeningProvider, ScreeningRequestInput, ScreeningUpdate } from "./providers";
+
+const FAKE_SECRET = process.env.SCREENING_FAKE_WEBHOOK_SECRET || "fake_screening_secret";
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+type FakeMode = "auto" | "clear" | "review" | "adverse" | "error";
+const FORCED: FakeMode[] = ["clear", "review", "adverse", "error"];
+const EMPLOYERS = ["Harbor Logistics", "Beacon Health", "Northeastern Labs", "City of Boston", "Fenway Analytics"];
+
+const money = (cents: number) => `$${Math.round(cents / 100).toLocaleString("en-US")}`;
+
+function modeFor(email: string): FakeMode {
+  const local = email.toLowerCase().split("@")[0] ?? "";
+  const tag = local.includes("+") ? local.slice(local.indexOf("+") + 1) : "";
+  return (FORCED as string[]).includes(tag) ? (tag as FakeMode) : "auto";
+}
+
+/**
+ * fake_<check>_<mode>_<seed>.<reportId>: everything the callback needs, no state
+ * kept. The seed fixes the result; the report id keeps retries and other
+ * applications from reusing a request id.
+ */
+function externalIdFor(check: ScreeningCheckType, email: string, reportId: string) {
+  const seed = crypto.createHash("sha256").update(`${check}:${email.trim().toLowerCase()}`).digest("hex").slice(0, 16);
+  return `fake_${check}_${modeFor(email)}_${seed}.${reportId}`;
+}
+
+function parseExternalId(externalId: string) {
+  const m = /^fake_(credit|background|income)_(auto|clear|review|adverse|error)_([0-9a-f]{16})(?:\.[\w-]+)?$/.exec(externalId);
+  if (!m) return null;
+  return { check: m[1] as ScreeningCheckType, mode: m[2] as FakeMode, bytes: Buffer.from(m[3], "hex") };
+}
+
+function creditResult(mode: FakeMode, b: Buffer): ScreeningResult {
+  let score = 560 + ((b[0] * 256 + b[1]) % 261);
+  if (mode === "clear") score = 760;
+  if (mode === "review") score = 650;
+  if (mode === "adverse") score = 575;
+  const delinquencies = score < 620 ? (b[2] % 4) + 1 : score < 680 ? b[2] % 2 : 0;
+  const bankruptcies = mode === "adverse" || (score < 600 && b[3] % 3 === 0) ? 1 : 0;
+  const collectionsCents = delinquencies * ((b[4] % 20) + 1) * 5_000;
+  const outcome = score >= 680 && !bankruptcies ? "clear" : score >= 620 && !bankruptcies ? "review" : "adverse";
+  return {
+    outcome,
+    summary: `Score ${score}, ${delinquencies} delinquent account${delinquencies === 1 ? "" : "s"}` +
+      (bankruptcies ? ", 1 bankruptcy" : "") + (collectionsCents ? `, ${money(collectionsCents)} in collections` : ""),
+    credit: { score, delinquencies, bankruptcies, collectionsCents },
+  };
+}
+
+function backgroundResult(mode: FakeMode, b: Buffer): ScreeningResult {
+  const roll = mode === "clear" ? 0 : mode === "review" ? 7 : mode === "adverse" ? 9 : b[0] % 10;
+  const records: NonNullable<ScreeningResult["background"]>["records"] = [];
+  if (roll >= 7 && roll < 9) records.push({ kind: "criminal", year: 2010 + (b[1] % 10), detail: "Misdemeanor, disposition: dismissed" });
+  if (roll >= 9) records.push({ kind: "eviction", year: 2018 + (b[1] % 6), detail: "Judgment for plaintiff, Housing Court" });
+  const criminalRecords = records.filter((r) => r.kind === "criminal").length;
+  const evictions = records.filter((r) => r.kind === "eviction").length;
+  return {
+    outcome: evictions ? "adverse" : criminalRecords ? "review" : "clear",
+    summary: records.length ? records.map((r) => `${r.kind} record (${r.year})`).join(", ") : "No criminal or eviction records found",
+    background: { criminalRecords, evictions, records },
+  };
+}
+
+function incomeResult(mode: FakeMode, b: Buffer): ScreeningResult {
+  let monthlyIncomeCents = (3_000 + ((b[0] * 256 + b[1]) % 9_000)) * 100;
+  let months = 3 + (b[3] % 10);
+  if (mode === "clear") { monthlyIncomeCents = 900_000; months = 24; }
+  if (mode === "review") { monthlyIncomeCents = 400_000; months = 4; }
+  if (mode === "adverse") { monthlyIncomeCents = 150_000; months = 2; }
+  const employer = EMPLOYERS[b[2] % EMPLOYERS.length];
+  return {
+    outcome: months < 3 ? "adverse" : months < 6 ? "review" : "clear",
+    summary: `${money(monthlyIncomeCents)}/mo from ${employer}, ${months} months on file`,
+    income: { monthlyIncomeCents, employer, months },
+  };
+}
+
+/** The deterministic answer for a fake request id */
+export function fakeOutcome(externalId: string): ScreeningUpdate | null {
+  const p = parseExternalId(externalId);
+  if (!p) return null;
+  if (p.mode === "error") return { externalId, status: "failed", error: "subject_not_found" };
+  const result =
+    p.check === "credit" ? creditResult(p.mode, p.bytes)
+    : p.check === "background" ? backgroundResult(p.mode, p.bytes)
+    : incomeResult(p.mode, p.bytes);
+  return { externalId, status: "completed", result: { ...result, raw: { provider: "fake", externalId } } };
+}
+
+/** Signature header value for a callback body */
+export function signFakeWebhook(raw: string) {
+  return `sha256=${crypto.createHmac("sha256", FAKE_SECRET).update(raw).digest("hex")}`;
+}
+
+export class FakeScreeningProvider implements ScreeningProvider {
+  readonly name = "fake";
+  readonly checks = ["credit", "background", "income"] as const;
+  readonly agency = {
+    name: "Fake Screening Bureau (test data)",
+    address: "1 Test Way, Boston, MA 02110",
+    phone: "(555) 010-0100",
+    website: "https://example.com/screening",
+  };
+
+  async request(input: ScreeningRequestInput): Promise<ScreeningUpdate> {
+    const externalId = externalIdFor(input.check, input.subject.email, input.reportId);
+    if ((process.env.SCREENING_FAKE_DELIVERY || "inline").toLowerCase() === "webhook") {
+      return { externalId, status: "pending" };
+    }
+    return fakeOutcome(externalId)!;
+  }
+
+  async parseWebhook(raw: string, headers: Headers): Promise<ScreeningUpdate | null> {
+    const given = Buffer.from(headers.get(FAKE_SIGNATURE_HEADER) || "");
+    const expected = Buffer.from(signFakeWebhook(raw));
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+    const body = JSON.parse(raw);
+    const externalId = String(body?.id ?? "");
+    if (body?.status === "completed" && body?.result) return { externalId, status: "completed", result: body.result };
+    if (body?.status === "failed") return { externalId, status: "failed", error: String(body?.error || "provider_error") };
+    return { externalId, status: "pending" };
+  }
+}
@@ -0,0 +1,68 @@
+// lib/screening/providers.ts
+/* Server-only file; do NOT add "use client" */
+// What a screening provider (credit bureau, background or income verifier) has to
+// implement. Providers never see our ids beyond the report id; results come back
+// either inline from request() or later through /api/screening/webhook/<name>.
+import type { ConsumerReportingAgency, ScreeningCheckType, ScreeningResult } from "@/lib/models";
+import { FakeScreeningProvider } from "./fake";
+
+/* ─────────────────────────────────────────────────────────────
+   Types
+───────────────────────────────────────────────────────────── */
+export type ScreeningSubject = {
+  userId: string;
+  email: string;
+  fullName: string;                    // as typed on the consent
+};
+
+export type ScreeningRequestInput = {
+  reportId: string;                    // our id, echoed back by providers that support it
+  check: ScreeningCheckType;
+  subject: ScreeningSubject;
+  consentedAt: Date;
+};
+
+/** What request() and webhooks both boil down to */
+export type ScreeningUpdate =
+  | { externalId: string; status: "pending" }
+  | { externalId: string; status: "completed"; result: ScreeningResult }
+  | { externalId: string; status: "failed"; error: string };
+
+export interface ScreeningProvider {
+  readonly name: string;
+  readonly checks: readonly ScreeningCheckType[];
+  /** Printed on adverse action notices when this provider's reports were used */
+  readonly agency: ConsumerReportingAgency;
+  /** Send the request; throw only for transport errors, report provider refusals as "failed" */
+  request(input: ScreeningRequestInput): Promise<ScreeningUpdate>;
+  /** Verify and decode a callback; null means the signature didn't check out */
+  parseWebhook(raw: string, headers: Headers): Promise<ScreeningUpdate | null>;
+}
+
+/* ─────────────────────────────────────────────────────────────
+   Factory
+───────────────────────────────────────────────────────────── */
+const SCREENING_PROVIDER = (process.env.SCREENING_PROVIDER || "fake").toLowerCase();
+
+/** The fake is for local work and staging; production has to opt in explicitly */
+const fakeAllowed = () => process.env.NODE_ENV !== "production" || process.env.SCREENING_ALLOW_FAKE === "1";
+
+const _providers = new Map<string, ScreeningProvider>();
+
+/** The configured provider, or a named one (webhooks); null when unknown or disabled */
+export function getScreeningProvider(name: string = SCREENING_PROVIDER): ScreeningProvider | null {
+  const key = name.toLowerCase();
+  const cached = _providers.get(key);
+  if (cached) return cached;
+
+  let provider: ScreeningProvider | null = null;
+  switch (key) {
+    case "fake":
+      provider = fakeAllowed() ? new FakeScreeningProvider() : null;
+      break;
+    default:
+      provider = null;
+  }
+  if (provider) _providers.set(key, provider);
+  return provider;
+}
@@ -0,0 +1,209 @@
+// lib/webhooks/stripeEvents.ts
+// Stripe event store: every verified event is persisted once (keyed by event id),
+// processed under a short lock, retried with backoff, and dead-lettered when it
+// keeps failing. Admin replay and the local fixture harness go through the same path.
+import type Stripe from "stripe";
+import type { StripeEventAttempt, StripeEventDoc } from "@/lib/models";
+
+export type StripeEventHandler = (event: Stripe.Event) => Promise<{ note?: string; reversal?: string }>;
+
+/** Delay after the Nth failed attempt; the attempt after the last one dead-letters */
+export const RETRY_BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 3_600_000, 6 * 3_600_000];
+export const MAX_ATTEMPTS = RETRY_BACKOFF_MS.length + 1;
+
+/** How long a claimed event stays locked if the worker dies mid-handler */
+const LOCK_MS = 2 * 60_000;
+const HISTORY_CAP = 20;
+
+const errText = (e: any) => String(e?.message || e || "unknown_error").slice(0, 2000);
+
+/**
+ * Persist a delivery. Returns the stored doc and whether we'd already seen the id;
+ * a redelivery only bumps the counter, it never overwrites the stored payload.
+ */
+export async function recordStripeEvent(db: any, event: Stripe.Event) {
+  const now = new Date();
+  const col = db.collection("stripe_events");
+  const doc: Omit<StripeEventDoc, "deliveries" | "updatedAt"> = {
+    _id: event.id,
+    type: event.type,
+    livemode: !!event.livemode,
+    stripeCreatedAt: new Date((event.created || 0) * 1000),
+    payload: event,
+    status: "received",
+    attempts: 0,
+    history: [],
+    lastError: null,
+    nextAttemptAt: null,
+    lockedUntil: null,
+    receivedAt: now,
+    processedAt: null,
+  };
+  const res = await col.findOneAndUpdate(
+    { _id: event.id },
+    { $setOnInsert: doc, $inc: { deliveries: 1 }, $set: { updatedAt: now } },
+    { upsert: true, returnDocument: "after", includeResultMetadata: true }
+  );
+  const stored = res.value as StripeEventDoc;
+  return { event: stored, duplicate: !res.lastErrorObject?.upserted };
+}
+
+/**
+ * Take the processing lock. Without `force` only events that are waiting (new,
+ * or failed and due) can be claimed; `force` (admin replay) also takes processed
+ * and dead events. A live lock is always respected.
+ */
+async function claim(db: any, id: string, force: boolean) {
+  const now = new Date();
+  const filter: any = {
+    _id: id,
+    $and: [{ $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }] }],
+  };
+  if (!force) {
+    filter.$and.push(
+      { status: { $in: ["received", "failed", "processing"] } },
+      { $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }] }
+    );
+  }
+  const before = (await db.collection("stripe_events").findOneAndUpdate(
+    filter,
+    {
+      $set: { status: "processing", lockedUntil: new Date(now.getTime() + LOCK_MS), updatedAt: now },
+      $inc: { attempts: 1 },
+    },
+    { returnDocument: "before" }
+  )) as StripeEventDoc | null;
+  return before ? { doc: before, attempts: (before.attempts ?? 0) + 1, prevStatus: before.status } : null;
+}
+
+export type ProcessResult =
+  | { status: "processed"; note?: string; reversal?: string }
+  | { status: "failed" | "dead"; error: string; nextAttemptAt?: Date | null }
+  | { status: "skipped"; reason: "already_processed" | "locked" | "not_due" | "not_found" };
+
+/** Claim, run the handler, and record the outcome (retry schedule or dead letter) */
+export async function processStripeEvent(
+  db: any,
+  id: string,
+  handler: StripeEventHandler,
+  opts: { trigger?: StripeEventAttempt["trigger"]; by?: string; force?: boolean } = {}
+): Promise<ProcessResult> {
+  const col = db.collection("stripe_events");
+  const claimed = await claim(db, id, !!opts.force);
+  if (!claimed) {
+    const cur = await col.findOne({ _id: id }, { projection: { status: 1, lockedUntil: 1 } });
+    if (!cur) return { status: "skipped", reason: "not_found" };
+    if (cur.status === "processed") return { status: "skipped", reason: "already_processed" };
+    if (cur.lockedUntil && new Date(cur.lockedUntil) > new Date()) return { status: "skipped", reason: "locked" };
+    return { status: "skipped", reason: "not_due" };
+  }
+
+  const started = Date.now();
+  const attempt: StripeEventAttempt = {
+    at: new Date(),
+    trigger: opts.trigger ?? "webhook",
+    by: opts.by ?? "system",
+    ok: false,
+    note: null,
+    error: null,
+    durationMs: 0,
+  };
+
+  try {
+    const out = await handler(claimed.doc.payload as Stripe.Event);
+    const now = new Date();
+    attempt.ok = true;
+    attempt.note = out.note ?? out.reversal ?? null;
+    attempt.durationMs = Date.now() - started;
+    await col.updateOne(
+      { _id: id },
+      {
+        $set: { status: "processed", processedAt: now, lastError: null, nextAttemptAt: null, lockedUntil: null, updatedAt: now },
+        $push: { history: { $each: [attempt], $slice: -HISTORY_CAP } },
+      }
+    );
+    // A successful replay closes out the dead letter
+    await db
+      .collection("stripe_events_dead")
+      .updateOne({ _id: id, resolvedAt: null }, { $set: { resolvedAt: now, resolvedBy: attempt.by } });
+    return { status: "processed", ...out };
+  } catch (err: any) {
+    const now = new Date();
+    const error = errText(err);
+    console.error("[stripe-events] handler failed,", { id, type: claimed.doc.type, attempt: claimed.attempts, error });
+    attempt.error = error;
+    attempt.durationMs = Date.now() - started;
+
+    // A failed replay leaves a dead event dead rather than restarting its retries
+    const dead = claimed.attempts >= MAX_ATTEMPTS && opts.trigger !== "replay";
+    const nextAttemptAt = dead
+      ? null
+      : new Date(now.getTime() + RETRY_BACKOFF_MS[Math.min(claimed.attempts, RETRY_BACKOFF_MS.length) - 1]);
+    const status = dead || (opts.trigger === "replay" && claimed.prevStatus === "dead") ? "dead" : "failed";
+
+    await col.updateOne(
+      { _id: id },
+      {
+        $set: {
+          status,
+          lastError: error,
+          nextAttemptAt: status === "dead" ? null : nextAttemptAt,
+          lockedUntil: null,
+          updatedAt: now,
+        },
+        $push: { history: { $each: [attempt], $slice: -HISTORY_CAP } },
+      }
+    );
+    if (status === "dead") {
+      await db.collection("stripe_events_dead").updateOne(
+        { _id: id },
+        {
+          $set: { type: claimed.doc.type, payload: claimed.doc.payload, attempts: claimed.attempts, lastError: error, resolvedAt: null, resolvedBy: null },
+          $setOnInsert: { deadAt: now },
+        },
+        { upsert: true }
+      );
+      return { status: "dead", error };
+    }
+    return { status: "failed", error, nextAttemptAt };
+  }
+}
+
+/**
+ * Retry sweep: failed events that are due, plus anything stuck in received or
+ * processing past its lock (the process died before finishing).
+ */
+export async function retryDueStripeEvents(db: any, handler: StripeEventHandler, opts: { limit?: number } = {}) {
+  const now = new Date();
+  const stale = new Date(now.getTime() - LOCK_MS);
+  const due = await db
+    .collection("stripe_events")
+    .find(
+      {
+        $or: [
+          { status: "failed", nextAttemptAt: { $lte: now } },
+          { status: "received", receivedAt: { $lt: stale } },
+          { status: "processing", lockedUntil: { $lt: now } },
+        ],
+      },
+      { projection: { _id: 1 } }
+    )
+    .sort({ receivedAt: 1 })
+    .limit(opts.limit ?? 100)
+    .toArray();
+
+  const summary = { due: due.length, processed: 0, failed: 0, dead: 0, skipped: 0 };
+  for (const d of due) {
+    const r = await processStripeEvent(db, String(d._id), handler, { trigger: "retry" });
+    if (r.status === "processed") summary.processed++;
+    else if (r.status === "failed") summary.failed++;
+    else if (r.status === "dead") summary.dead++;
+    else summary.skipped++;
+  }
+  return summary;
+}
+
+/** Admin replay: run a stored event again now, whatever its status */
+export async function replayStripeEvent(db: any, id: string, handler: StripeEventHandler, opts: { by: string }) {
+  return processStripeEvent(db, id, handler, { trigger: "replay", by: opts.by, force: true });
+}
@@ -0,0 +1,86 @@
+// tools/jobs-worker.ts
+// Background job worker: registers the jobs in lib/jobs/registry, then polls
+// for due ones and runs them under the scheduler's lock. Run it next to
+// `next dev` (npm run dev:jobs starts both); several workers can run at once.
+//
+//   npx tsx tools/jobs-worker.ts [--once] [--run <job>] [--list]
+//
+// --once runs whatever is due and exits; --run makes one job due now and runs
+// it; --list prints each job's schedule and last result. Polls every
+// JOBS_POLL_MS (default 15s). Reads .env; point DOTENV_CONFIG_PATH at
+// .env.local to share the Next config.
+import "dotenv/config";
+import { getDb } from "../lib/db";
+import type { JobDoc } from "../lib/models";
+import { JOBS, jobByName } from "../lib/jobs/registry";
+import { defaultWorkerId, ensureJobs, requestJobRun, runDueJobs } from "../lib/jobs/scheduler";
+
+const POLL_MS = Math.max(1000, Number(process.env.JOBS_POLL_MS) || 15_000);
+
+function parseArgs(argv: string[]) {
+  let once = false;
+  let list = false;
+  let run: string | null = null;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--once") once = true;
+    else if (a === "--list") list = true;
+    else if (a === "--run") run = argv[++i] ?? null;
+  }
+  return { once, list, run };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+(async () => {
+  const { once, list, run } = parseArgs(process.argv.slice(2));
+  const db = await getDb();
+  const workerId = defaultWorkerId();
+  await ensureJobs(db, JOBS);
+
+  if (list) {
+    const rows = await db.collection<JobDoc>("jobs").find({ _id: { $in: JOBS.map((j) => j.name) } }).toArray();
+    for (const j of rows) {
+      console.log(
+        `${j._id.padEnd(22)} ${j.schedule.padEnd(14)} ${j.enabled ? "on " : "off"} next ${j.nextRunAt.toISOString()} last ${j.lastStatus ?? "-"}${j.lastError ? ` (${j.lastError})` : ""}`
+      );
+    }
+    process.exit(0);
+  }
+
+  if (run) {
+    if (!jobByName(run)) {
+      console.error(`Unknown job "${run}". Known: ${JOBS.map((j) => j.name).join(", ")}`);
+      process.exit(1);
+    }
+    const req = await requestJobRun(db, run, `cli:${workerId}`);
+    if (!req.ok) {
+      console.error(`Can't run ${run}: ${req.error}`);
+      process.exit(1);
+    }
+    const outcomes = await runDueJobs(db, [jobByName(run)!], { workerId });
+    if (!outcomes.length) console.log(`${run} is running on another worker.`);
+    process.exit(outcomes.some((o) => o.status === "failed") ? 1 : 0);
+  }
+
+  let stopping = false;
+  const stop = () => {
+    if (stopping) process.exit(1); // second Ctrl-C: don't wait for the current job
+    stopping = true;
+    console.log("[jobs] stopping after the current job,");
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(`[jobs] worker ${workerId} started,`, { jobs: JOBS.map((j) => j.name), pollMs: POLL_MS });
+  while (!stopping) {
+    try {
+      await runDueJobs(db, JOBS, { workerId });
+    } catch (e) {
+      console.error("[jobs] poll failed,", e);
+    }
+    if (once) break;
+    for (let waited = 0; waited < POLL_MS && !stopping; waited += 500) await sleep(500);
+  }
+  process.exit(0);
+})();
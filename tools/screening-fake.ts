@@ -0,0 +1,71 @@
+// tools/screening-fake.ts
+// Deliver the fake screening provider's callbacks to the local webhook, signed the
+// way the provider's parseWebhook expects. Use with SCREENING_FAKE_DELIVERY=webhook,
+// which leaves requested checks pending until this runs.
+//
+//   npx tsx tools/screening-fake.ts [--app <applicationId>] [--fail] [--twice] [--url http://…]
+//
+// Every pending fake report (optionally for one application) gets its deterministic
+// result; --fail sends a provider failure instead, --twice sends each callback again
+// to show redeliveries are no-ops.
+import "dotenv/config";
+import { getDb } from "../lib/db";
+import { fakeOutcome, FAKE_SIGNATURE_HEADER, signFakeWebhook } from "../lib/screening/fake";
+
+function parseArgs(argv: string[]) {
+  let app: string | null = null;
+  let fail = false;
+  let twice = false;
+  let url = process.env.SCREENING_WEBHOOK_URL || "http://localhost:3000/api/screening/webhook/fake";
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--app") app = argv[++i];
+    else if (a === "--fail") fail = true;
+    else if (a === "--twice") twice = true;
+    else if (a === "--url") url = argv[++i];
+  }
+  return { app, fail, twice, url };
+}
+
+(async () => {
+  const { app, fail, twice, url } = parseArgs(process.argv.slice(2));
+  const db = await getDb();
+  const pending = await db
+    .collection("screening_reports")
+    .find({ provider: "fake", status: "pending", ...(app ? { applicationId: app } : {}) })
+    .sort({ requestedAt: 1 })
+    .limit(200)
+    .toArray();
+  if (!pending.length) console.log("No pending fake reports.");
+
+  let failed = 0;
+  for (const r of pending) {
+    const outcome = fakeOutcome(String(r.externalId));
+    if (!outcome) {
+      failed++;
+      console.error(`ERR ${r._id}: unrecognised externalId ${r.externalId}`);
+      continue;
+    }
+    const payload = JSON.stringify(
+      fail
+        ? { id: r.externalId, status: "failed", error: "provider_error" }
+        : { id: r.externalId, status: outcome.status, ...(outcome.status === "completed" ? { result: outcome.result } : {}), ...(outcome.status === "failed" ? { error: outcome.error } : {}) }
+    );
+    for (let n = 0; n < (twice ? 2 : 1); n++) {
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", [FAKE_SIGNATURE_HEADER]: signFakeWebhook(payload) },
+          body: payload,
+        });
+        const body = await res.json().catch(() => null);
+        if (!res.ok || body?.ok === false) failed++;
+        console.log(`${res.status} ${r.check} ${r._id}`, body ? JSON.stringify(body) : "");
+      } catch (e: any) {
+        failed++;
+        console.error(`ERR ${r._id}: ${e?.message || e}`);
+      }
+    }
+  }
+  process.exit(failed ? 1 : 0);
+})();
@@ -0,0 +1,92 @@
+// tools/stripe-fixtures.ts
+// Feed recorded Stripe events through the local webhook, signed with
+// STRIPE_WEBHOOK_SECRET exactly as Stripe would, so they go through signature
+// checks, the event store and the handler.
+//
+//   npx tsx tools/stripe-fixtures.ts [fixture.json | dir …] [--set key=value …] [--fresh] [--url http://…]
+//
+// Fixtures live in tools/fixtures/stripe. `{{key}}` placeholders are filled from
+// --set (e.g. --set paymentIntentId=pi_123 --set appId=… --set amountCents=150000).
+// Without --fresh the event ids are kept, so sending the same file twice shows the
+// dedupe; --fresh suffixes every id to process it again. Charge and dispute events
+// look their PaymentIntent up in Stripe, so use a test-mode PI id for those.
+import "dotenv/config";
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import Stripe from "stripe";
+
+const DEFAULT_DIR = join(__dirname, "fixtures", "stripe");
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  const vars: Record<string, string> = {};
+  let fresh = false;
+  let url = process.env.STRIPE_WEBHOOK_URL || "http://localhost:3000/api/stripe/webhook";
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--fresh") fresh = true;
+    else if (a === "--url") url = argv[++i];
+    else if (a === "--set") {
+      const [k, ...v] = String(argv[++i] ?? "").split("=");
+      if (k) vars[k] = v.join("=");
+    } else files.push(a);
+  }
+  return { files: files.length ? files : [DEFAULT_DIR], vars, fresh, url };
+}
+
+/** Directories expand to their .json files, sorted so numbered fixtures play in order */
+function expand(paths: string[]) {
+  return paths.flatMap((p) =>
+    statSync(p).isDirectory()
+      ? readdirSync(p)
+          .filter((f) => f.endsWith(".json"))
+          .sort()
+          .map((f) => join(p, f))
+      : [p]
+  );
+}
+
+function render(template: string, vars: Record<string, string>) {
+  const missing = new Set<string>();
+  const out = template.replace(/\{\{(\w+)\}\}/g, (_, k) => {
+    if (k in vars) return vars[k];
+    missing.add(k);
+    return "";
+  });
+  if (missing.size) throw new Error(`missing --set for: ${[...missing].join(", ")}`);
+  return out;
+}
+
+(async () => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not set");
+    process.exit(1);
+  }
+  const { files, vars, fresh, url } = parseArgs(process.argv.slice(2));
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_fixture");
+  const run = Date.now().toString(36);
+
+  let failed = 0;
+  for (const file of expand(files)) {
+    try {
+      const event = JSON.parse(render(readFileSync(file, "utf8"), vars));
+      if (fresh) event.id = `${event.id}_${run}`;
+      const payload = JSON.stringify(event);
+      const header = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "stripe-signature": header },
+        body: payload,
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || body?.ok === false || body?.status === "failed" || body?.status === "dead") failed++;
+      console.log(`${res.status} ${event.type} ${event.id}`, body ? JSON.stringify(body) : "");
+    } catch (e: any) {
+      failed++;
+      console.error(`ERR ${file}: ${e?.message || e}`);
+    }
+  }
+  process.exit(failed ? 1 : 0);
+})();